@@ -0,0 +1,95 @@
+/**
+ * Tasksheet-Parser Regressionstest
+ *
+ * Jeder Fall in scripts/tasksheet-corpus/ besteht aus:
+ *   <name>.txt            - anonymisierter Tasksheet-Text (wie aus dem PDF extrahiert)
+ *   <name>.expected.json  - erwartetes Ergebnis (TasksheetExpectation, optional mit "utm")
+ *
+ * Aufruf:
+ *   npm run test:tasksheets                    alle Fälle prüfen
+ *   npm run test:tasksheets -- <name>          nur Fälle deren Name <name> enthält
+ *   npm run test:tasksheets -- --update <name> Golden File aus dem aktuellen Parser neu schreiben
+ *
+ * Neues Tasksheet aufnehmen: Text als .txt ablegen, mit --update das Golden File erzeugen,
+ * von Hand gegen das PDF prüfen und korrigieren, dann committen.
+ */
+
+import { build } from 'esbuild'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { fileURLToPath, pathToFileURL } from 'url'
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..')
+const corpusDir = path.join(root, 'scripts', 'tasksheet-corpus')
+
+const args = process.argv.slice(2)
+const update = args.includes('--update')
+const filter = args.find(a => !a.startsWith('--'))
+
+// Parser-Modul bündeln
+const bundlePath = path.join(os.tmpdir(), `nta-tasksheet-regression-${process.pid}.mjs`)
+await build({
+  entryPoints: [path.join(root, 'src', 'renderer', 'utils', 'tasksheetRegression.ts')],
+  bundle: true,
+  platform: 'node',
+  format: 'esm',
+  outfile: bundlePath,
+  logLevel: 'error'
+})
+
+let exitCode = 0
+try {
+  const { runTasksheetCase, buildExpectation, formatCaseReport } = await import(pathToFileURL(bundlePath).href)
+
+  const names = fs.readdirSync(corpusDir)
+    .filter(f => f.endsWith('.txt'))
+    .map(f => f.slice(0, -4))
+    .filter(name => !filter || name.includes(filter))
+    .sort()
+
+  if (names.length === 0) {
+    console.error(`Keine Fälle in ${corpusDir}${filter ? ` für "${filter}"` : ''}`)
+    exitCode = 1
+  }
+
+  // Der Parser loggt sehr ausführlich - während der Läufe stumm schalten
+  const log = console.log
+  const quiet = fn => {
+    console.log = () => {}
+    try { return fn() } finally { console.log = log }
+  }
+
+  let failed = 0
+  for (const name of names) {
+    const text = fs.readFileSync(path.join(corpusDir, `${name}.txt`), 'utf8')
+    const expectedPath = path.join(corpusDir, `${name}.expected.json`)
+    const expected = fs.existsSync(expectedPath) ? JSON.parse(fs.readFileSync(expectedPath, 'utf8')) : null
+
+    if (!update && !expected) {
+      log(`FEHLT ${name}: keine ${name}.expected.json - mit --update erzeugen und prüfen`)
+      failed++
+      continue
+    }
+
+    if (update) {
+      const expectation = quiet(() => buildExpectation(text, expected?.utm))
+      fs.writeFileSync(expectedPath, JSON.stringify(expectation, null, 2) + '\n')
+      log(`${expected ? 'AKTUALISIERT' : 'NEU'} ${name}.expected.json`)
+      continue
+    }
+
+    const result = quiet(() => runTasksheetCase({ name, text, expected }))
+    log(formatCaseReport(result))
+    if (!result.passed) failed++
+  }
+
+  if (!update && names.length > 0) {
+    log(`\n${names.length - failed}/${names.length} Tasksheets OK`)
+    if (failed > 0) exitCode = 1
+  }
+} finally {
+  fs.rmSync(bundlePath, { force: true })
+}
+
+process.exit(exitCode)
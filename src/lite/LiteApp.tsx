@@ -5,15 +5,21 @@ import { TrackerMap } from './components/TrackerMap'
 import { Header } from './components/Header'
 import { PilotList } from './components/PilotList'
 import { TeamChat } from './components/TeamChat'
+import { PibalDialog } from './components/PibalDialog'
 import { useAuthStore } from './stores/authStore'
 import { useTrackerStore } from './stores/trackerStore'
 import { supabase } from './lib/supabase'
+import { isLanMode, lanPinFromUrl } from '../shared/lanTeamClient'
+
+// Vom LAN-Hub der Desktop-App ausgeliefert: kein Login, kein Supabase
+const lanMode = isLanMode()
 
 export function LiteApp() {
   const { isAuthenticated, isLoading, checkSession } = useAuthStore()
-  const { team, leaveTeam, joinTeam, messages, unreadCount } = useTrackerStore()
+  const { team, leaveTeam, joinTeam, joinLanTeam, messages, unreadCount } = useTrackerStore()
   const [showList, setShowList] = useState(false)
   const [showChat, setShowChat] = useState(false)
+  const [showPibal, setShowPibal] = useState(false)
   const [toast, setToast] = useState<{ callsign: string; message: string; color: string } | null>(null)
   const prevMsgCount = React.useRef(0)
 
@@ -36,6 +42,14 @@ export function LiteApp() {
 
   // Auto-Rejoin nach Refresh: gespeicherten Join-Code verwenden
   useEffect(() => {
+    if (lanMode) {
+      try {
+        const savedCallsign = localStorage.getItem('nta-lite-lan-callsign')
+        const pin = lanPinFromUrl() || localStorage.getItem('nta-lite-lan-pin')
+        if (savedCallsign && pin && !team) joinLanTeam(savedCallsign, pin)
+      } catch {}
+      return
+    }
     if (isAuthenticated && !team) {
       try {
         const savedCode = localStorage.getItem('nta-lite-join-code')
@@ -48,6 +62,7 @@ export function LiteApp() {
 
   // Session prüfen beim Start und alle 30 Sekunden
   useEffect(() => {
+    if (lanMode) return
     checkSession()
     const interval = setInterval(() => {
       checkSession()
@@ -57,7 +72,7 @@ export function LiteApp() {
 
   // Team-Aktivität prüfen — alle 60s prüfen ob Team noch aktiv ist
   useEffect(() => {
-    if (!team) return
+    if (!team || lanMode) return
     const checkTeamActive = async () => {
       try {
         const { data } = await supabase
@@ -78,12 +93,12 @@ export function LiteApp() {
 
   // Cleanup bei Logout
   useEffect(() => {
-    if (!isAuthenticated) {
+    if (!isAuthenticated && !lanMode) {
       leaveTeam()
     }
   }, [isAuthenticated])
 
-  if (isLoading) {
+  if (isLoading && !lanMode) {
     return (
       <div style={{
         height: '100dvh',
@@ -110,7 +125,7 @@ export function LiteApp() {
     )
   }
 
-  if (!isAuthenticated) {
+  if (!isAuthenticated && !lanMode) {
     return <LoginScreen />
   }
 
@@ -131,6 +146,7 @@ export function LiteApp() {
         showList={showList}
         onToggleChat={() => setShowChat(!showChat)}
         showChat={showChat}
+        onOpenPibal={() => setShowPibal(true)}
         onLeaveTeam={leaveTeam}
         teamName={team.name}
       />
@@ -160,6 +176,11 @@ export function LiteApp() {
         <TeamChat onClose={() => setShowChat(false)} />
       )}
 
+      {/* Pibal-Messung */}
+      {showPibal && (
+        <PibalDialog onClose={() => setShowPibal(false)} />
+      )}
+
       {/* Chat-Toast bei neuen Nachrichten */}
       {toast && !showChat && (
         <div
@@ -7,11 +7,12 @@ interface HeaderProps {
   showList: boolean
   onToggleChat: () => void
   showChat: boolean
+  onOpenPibal: () => void
   onLeaveTeam: () => void
   teamName: string
 }
 
-export function Header({ onToggleList, showList, onToggleChat, showChat, onLeaveTeam, teamName }: HeaderProps) {
+export function Header({ onToggleList, showList, onToggleChat, showChat, onOpenPibal, onLeaveTeam, teamName }: HeaderProps) {
   const { user, logout } = useAuthStore()
   const unreadCount = useTrackerStore(s => s.unreadCount)
   return (
@@ -81,6 +82,29 @@ export function Header({ onToggleList, showList, onToggleChat, showChat, onLeave
           </svg>
         </button>
 
+        {/* Pibal-Messung */}
+        <button
+          onClick={onOpenPibal}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            width: 36,
+            height: 36,
+            background: 'rgba(255,255,255,0.05)',
+            border: '1px solid rgba(255,255,255,0.1)',
+            borderRadius: 8,
+            color: 'rgba(255,255,255,0.7)',
+            cursor: 'pointer'
+          }}
+          title="Pibal-Messung"
+        >
+          <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <circle cx="12" cy="8" r="6" />
+            <path d="M12 14c0 3-2 4-2 8" />
+          </svg>
+        </button>
+
         {/* Refresh */}
         <button
           onClick={() => window.location.reload()}
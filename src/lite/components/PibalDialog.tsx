@@ -0,0 +1,458 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react'
+import { useTrackerStore } from '../stores/trackerStore'
+import {
+  PibalReading, computePibalProfile, applyDeclination, orientationToSighting, ASCENT_RATE_PRESETS
+} from '../lib/pibal'
+
+interface PibalDialogProps {
+  onClose: () => void
+}
+
+type PibalMode = 'phone' | 'manual'
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '8px 10px',
+  background: 'rgba(0,0,0,0.3)',
+  border: '1px solid rgba(255,255,255,0.1)',
+  borderRadius: 6,
+  color: '#fff',
+  fontSize: 14,
+  fontFamily: 'monospace'
+}
+
+const labelStyle: React.CSSProperties = {
+  display: 'block',
+  fontSize: 11,
+  color: 'rgba(255,255,255,0.6)',
+  marginBottom: 4
+}
+
+function formatElapsed(seconds: number): string {
+  const m = Math.floor(seconds / 60)
+  const s = Math.floor(seconds % 60)
+  return `${m}:${s.toString().padStart(2, '0')}`
+}
+
+export function PibalDialog({ onClose }: PibalDialogProps) {
+  const sharePibalProfile = useTrackerStore(s => s.sharePibalProfile)
+
+  const [mode, setMode] = useState<PibalMode>('phone')
+  const [ascentRate, setAscentRate] = useState('2.5')
+  const [launchElevation, setLaunchElevation] = useState('')
+  const [declination, setDeclination] = useState('0')
+
+  const [startedAt, setStartedAt] = useState<number | null>(null)
+  const [now, setNow] = useState(Date.now())
+  const [readings, setReadings] = useState<PibalReading[]>([])
+  const [manualAzimuth, setManualAzimuth] = useState('')
+  const [manualElevation, setManualElevation] = useState('')
+  const [sighting, setSighting] = useState<{ azimuth: number; elevation: number } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [status, setStatus] = useState<string | null>(null)
+  const [isSending, setIsSending] = useState(false)
+  const sightingRef = useRef(sighting)
+  sightingRef.current = sighting
+
+  // Startplatz-Höhe aus dem GPS des Handys vorschlagen
+  useEffect(() => {
+    navigator.geolocation?.getCurrentPosition(
+      pos => {
+        if (pos.coords.altitude !== null) {
+          setLaunchElevation(prev => prev || Math.round(pos.coords.altitude!).toString())
+        }
+      },
+      () => {},
+      { enableHighAccuracy: true, timeout: 10000 }
+    )
+  }, [])
+
+  // Stoppuhr
+  useEffect(() => {
+    if (startedAt === null) return
+    const interval = setInterval(() => setNow(Date.now()), 250)
+    return () => clearInterval(interval)
+  }, [startedAt])
+
+  // Kompass + Neigung des Handys
+  useEffect(() => {
+    if (mode !== 'phone') return
+    const handler = (event: DeviceOrientationEvent) => {
+      const s = orientationToSighting(event)
+      if (s) setSighting(s)
+    }
+    // Android: absolute Ausrichtung über eigenes Event, iOS: webkitCompassHeading im normalen
+    window.addEventListener('deviceorientationabsolute' as any, handler)
+    window.addEventListener('deviceorientation', handler)
+    return () => {
+      window.removeEventListener('deviceorientationabsolute' as any, handler)
+      window.removeEventListener('deviceorientation', handler)
+    }
+  }, [mode])
+
+  const settings = useMemo(() => ({
+    ascentRate: parseFloat(ascentRate) || 0,
+    launchElevation: parseFloat(launchElevation) || 0,
+    declination: parseFloat(declination) || 0
+  }), [ascentRate, launchElevation, declination])
+
+  const profile = useMemo(
+    () => settings.ascentRate > 0 ? computePibalProfile(readings, settings) : [],
+    [readings, settings]
+  )
+
+  const elapsed = startedAt !== null ? (now - startedAt) / 1000 : 0
+
+  const handleStart = async () => {
+    setError(null)
+    // iOS: Zugriff auf die Sensoren muss per Klick erlaubt werden
+    const orientation = DeviceOrientationEvent as any
+    if (mode === 'phone' && typeof orientation.requestPermission === 'function') {
+      try {
+        const result = await orientation.requestPermission()
+        if (result !== 'granted') setError('Kompass-Zugriff verweigert')
+      } catch {
+        setError('Kompass-Zugriff nicht möglich')
+      }
+    }
+    setReadings([])
+    setStatus(null)
+    setStartedAt(Date.now())
+    setNow(Date.now())
+  }
+
+  const addReading = (azimuth: number, elevation: number) => {
+    if (startedAt === null) {
+      setError('Erst beim Loslassen Start drücken')
+      return
+    }
+    if (elevation <= 0 || elevation >= 90) {
+      setError('Höhenwinkel muss zwischen 0 und 90° liegen')
+      return
+    }
+    setError(null)
+    const t = Math.round((Date.now() - startedAt) / 100) / 10
+    setReadings(prev => [...prev, {
+      t,
+      azimuth: applyDeclination(azimuth, settings.declination),
+      elevation
+    }])
+  }
+
+  const handlePhoneReading = () => {
+    const s = sightingRef.current
+    if (!s) {
+      setError('Keine Kompass-Daten - Theodolit-Modus verwenden')
+      return
+    }
+    addReading(s.azimuth, s.elevation)
+  }
+
+  const handleManualReading = () => {
+    const az = parseFloat(manualAzimuth)
+    const el = parseFloat(manualElevation)
+    if (isNaN(az) || az < 0 || az >= 360) {
+      setError('Azimut muss zwischen 0 und 359 sein')
+      return
+    }
+    if (isNaN(el)) {
+      setError('Höhenwinkel fehlt')
+      return
+    }
+    addReading(az, el)
+    setManualAzimuth('')
+    setManualElevation('')
+  }
+
+  const handleSend = async () => {
+    if (profile.length === 0) return
+    setIsSending(true)
+    const ok = await sharePibalProfile(profile)
+    setIsSending(false)
+    setStatus(ok ? `${profile.length} Schichten an die Piloten gesendet` : 'Senden fehlgeschlagen')
+  }
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      background: 'rgba(0,0,0,0.7)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 2000,
+      padding: 20
+    }}>
+      <div style={{
+        background: 'linear-gradient(180deg, #1e293b 0%, #0f172a 100%)',
+        borderRadius: 12,
+        width: '100%',
+        maxWidth: 380,
+        maxHeight: '100%',
+        overflow: 'auto',
+        boxShadow: '0 8px 32px rgba(0,0,0,0.5)'
+      }}>
+        {/* Header */}
+        <div style={{
+          padding: '14px 16px',
+          borderBottom: '1px solid rgba(255,255,255,0.1)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between'
+        }}>
+          <div>
+            <div style={{ fontSize: 14, fontWeight: 700, color: '#fff' }}>
+              Pibal-Messung
+            </div>
+            <div style={{ fontSize: 11, color: 'rgba(255,255,255,0.5)', marginTop: 2 }}>
+              Ablesungen mit Zeit, Wind wird automatisch berechnet
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            style={{
+              width: 28,
+              height: 28,
+              background: 'rgba(255,255,255,0.05)',
+              border: '1px solid rgba(255,255,255,0.1)',
+              borderRadius: 6,
+              color: 'rgba(255,255,255,0.7)',
+              fontSize: 14,
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center'
+            }}
+          >
+            ✕
+          </button>
+        </div>
+
+        <div style={{ padding: 16, display: 'flex', flexDirection: 'column', gap: 12 }}>
+          {/* Modus */}
+          <div style={{ display: 'flex', gap: 8 }}>
+            {([['phone', 'Handy-Kompass'], ['manual', 'Theodolit']] as const).map(([m, label]) => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                style={{
+                  flex: 1,
+                  padding: '8px',
+                  background: mode === m ? 'rgba(59, 130, 246, 0.3)' : 'rgba(0,0,0,0.3)',
+                  border: mode === m ? '2px solid #3b82f6' : '1px solid rgba(255,255,255,0.1)',
+                  borderRadius: 6,
+                  color: mode === m ? '#60a5fa' : 'rgba(255,255,255,0.6)',
+                  fontSize: 12,
+                  fontWeight: mode === m ? 700 : 400,
+                  cursor: 'pointer'
+                }}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {/* Steigrate / Startplatz / Deklination */}
+          <div style={{ display: 'flex', gap: 8 }}>
+            <div style={{ flex: 1 }}>
+              <label style={labelStyle}>Steigrate (m/s)</label>
+              <input type="number" step="0.1" value={ascentRate} onChange={e => setAscentRate(e.target.value)} style={inputStyle} />
+            </div>
+            <div style={{ flex: 1 }}>
+              <label style={labelStyle}>Startplatz (m MSL)</label>
+              <input type="number" value={launchElevation} onChange={e => setLaunchElevation(e.target.value)} placeholder="z.B. 450" style={inputStyle} />
+            </div>
+            <div style={{ width: 70 }}>
+              <label style={labelStyle}>Dekl. (°E)</label>
+              <input type="number" step="0.5" value={declination} onChange={e => setDeclination(e.target.value)} style={inputStyle} />
+            </div>
+          </div>
+          <div style={{ display: 'flex', gap: 6 }}>
+            {ASCENT_RATE_PRESETS.map(p => (
+              <button
+                key={p.label}
+                onClick={() => setAscentRate(p.rate.toString())}
+                style={{
+                  flex: 1,
+                  padding: '4px',
+                  background: parseFloat(ascentRate) === p.rate ? 'rgba(59, 130, 246, 0.2)' : 'rgba(255,255,255,0.05)',
+                  border: '1px solid rgba(255,255,255,0.1)',
+                  borderRadius: 6,
+                  color: 'rgba(255,255,255,0.7)',
+                  fontSize: 11,
+                  cursor: 'pointer'
+                }}
+              >
+                {p.label} · {p.rate} m/s
+              </button>
+            ))}
+          </div>
+
+          {/* Start / Stoppuhr */}
+          <div style={{ display: 'flex', alignItems: 'center', gap: 10 }}>
+            <button
+              onClick={handleStart}
+              style={{
+                padding: '10px 16px',
+                background: startedAt === null ? '#22c55e' : 'rgba(255,255,255,0.05)',
+                border: startedAt === null ? 'none' : '1px solid rgba(255,255,255,0.1)',
+                borderRadius: 6,
+                color: '#fff',
+                fontSize: 13,
+                fontWeight: 600,
+                cursor: 'pointer'
+              }}
+            >
+              {startedAt === null ? 'Start (Loslassen)' : 'Neu starten'}
+            </button>
+            <div style={{ flex: 1, textAlign: 'right', fontFamily: 'monospace', color: '#fff' }}>
+              <div style={{ fontSize: 22, fontWeight: 700 }}>{formatElapsed(elapsed)}</div>
+              {startedAt !== null && (
+                <div style={{ fontSize: 10, color: 'rgba(255,255,255,0.5)' }}>
+                  ~{Math.round(elapsed * settings.ascentRate)} m über Grund
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Ablesung */}
+          {mode === 'phone' ? (
+            <div style={{ display: 'flex', alignItems: 'center', gap: 10 }}>
+              <div style={{ flex: 1, fontFamily: 'monospace', fontSize: 13, color: 'rgba(255,255,255,0.8)' }}>
+                {sighting
+                  ? `Az ${Math.round(applyDeclination(sighting.azimuth, settings.declination))}° · El ${Math.round(sighting.elevation)}°`
+                  : 'Kompass wird gesucht...'}
+                <div style={{ fontSize: 10, color: 'rgba(255,255,255,0.4)' }}>
+                  Handy hochkant, Kamera auf den Ballon
+                </div>
+              </div>
+              <button
+                onClick={handlePhoneReading}
+                disabled={startedAt === null}
+                style={{
+                  padding: '12px 18px',
+                  background: startedAt === null ? 'rgba(59, 130, 246, 0.3)' : '#3b82f6',
+                  border: 'none',
+                  borderRadius: 6,
+                  color: '#fff',
+                  fontSize: 14,
+                  fontWeight: 700,
+                  cursor: startedAt === null ? 'not-allowed' : 'pointer'
+                }}
+              >
+                Ablesen
+              </button>
+            </div>
+          ) : (
+            <div style={{ display: 'flex', alignItems: 'flex-end', gap: 8 }}>
+              <div style={{ flex: 1 }}>
+                <label style={labelStyle}>Azimut (°)</label>
+                <input type="number" min="0" max="359" value={manualAzimuth} onChange={e => setManualAzimuth(e.target.value)} style={inputStyle} />
+              </div>
+              <div style={{ flex: 1 }}>
+                <label style={labelStyle}>Höhenwinkel (°)</label>
+                <input type="number" min="0" max="90" value={manualElevation} onChange={e => setManualElevation(e.target.value)} style={inputStyle} />
+              </div>
+              <button
+                onClick={handleManualReading}
+                disabled={startedAt === null}
+                style={{
+                  padding: '9px 14px',
+                  background: startedAt === null ? 'rgba(59, 130, 246, 0.3)' : '#3b82f6',
+                  border: 'none',
+                  borderRadius: 6,
+                  color: '#fff',
+                  fontSize: 13,
+                  fontWeight: 600,
+                  cursor: startedAt === null ? 'not-allowed' : 'pointer'
+                }}
+              >
+                +
+              </button>
+            </div>
+          )}
+
+          {/* Ablesungen */}
+          {readings.length > 0 && (
+            <div style={{ fontSize: 11, fontFamily: 'monospace', color: 'rgba(255,255,255,0.6)' }}>
+              {readings.map((r, i) => (
+                <div key={i} style={{ display: 'flex', justifyContent: 'space-between', padding: '2px 0' }}>
+                  <span>{formatElapsed(r.t)}</span>
+                  <span>Az {Math.round(r.azimuth)}°</span>
+                  <span>El {Math.round(r.elevation)}°</span>
+                  <button
+                    onClick={() => setReadings(prev => prev.filter((_, j) => j !== i))}
+                    style={{ background: 'transparent', border: 'none', color: '#ef4444', cursor: 'pointer', fontSize: 11 }}
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Berechnetes Profil */}
+          {profile.length > 0 && (
+            <div style={{
+              padding: '8px 10px',
+              background: 'rgba(59, 130, 246, 0.1)',
+              border: '1px solid rgba(59, 130, 246, 0.3)',
+              borderRadius: 6,
+              fontSize: 12,
+              fontFamily: 'monospace',
+              color: '#fff'
+            }}>
+              {[...profile].reverse().map((l, i) => (
+                <div key={i} style={{ display: 'flex', justifyContent: 'space-between', padding: '1px 0' }}>
+                  <span>{l.altitude} m</span>
+                  <span>{l.direction}°</span>
+                  <span>{l.speed.toFixed(1)} km/h</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Fehler / Status */}
+          {error && (
+            <div style={{
+              padding: '8px 12px',
+              background: 'rgba(239, 68, 68, 0.2)',
+              border: '1px solid rgba(239, 68, 68, 0.3)',
+              borderRadius: 6,
+              color: '#ef4444',
+              fontSize: 12
+            }}>
+              {error}
+            </div>
+          )}
+          {status && (
+            <div style={{ fontSize: 12, color: status.includes('fehlgeschlagen') ? '#ef4444' : '#22c55e' }}>
+              {status}
+            </div>
+          )}
+
+          {/* Senden */}
+          <button
+            onClick={handleSend}
+            disabled={profile.length === 0 || isSending}
+            style={{
+              padding: '10px 16px',
+              background: profile.length === 0 || isSending ? 'rgba(59, 130, 246, 0.3)' : '#3b82f6',
+              border: 'none',
+              borderRadius: 6,
+              color: '#fff',
+              fontSize: 13,
+              fontWeight: 600,
+              cursor: profile.length === 0 || isSending ? 'not-allowed' : 'pointer'
+            }}
+          >
+            {isSending ? 'Sende...' : 'An Piloten senden'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
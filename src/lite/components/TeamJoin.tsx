@@ -1,25 +1,34 @@
 import React, { useState } from 'react'
 import { useTrackerStore } from '../stores/trackerStore'
+import { isLanMode, lanPinFromUrl } from '../../shared/lanTeamClient'
 
 interface TeamJoinProps {
   onJoined: () => void
 }
 
 export function TeamJoin({ onJoined }: TeamJoinProps) {
-  const { joinTeam, isJoining, joinError } = useTrackerStore()
+  const { joinTeam, joinLanTeam, isJoining, joinError } = useTrackerStore()
   const [code, setCode] = useState('')
+  // LAN-Modus: statt Team-Code den eigenen Rufnamen und die PIN des Hubs (steht meist im Link)
+  const lan = isLanMode()
+  const [pin, setPin] = useState(() => lanPinFromUrl())
+  const isValid = lan ? code.trim().length > 0 && pin.length === 6 : code.length === 6
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
-    if (code.length !== 6) return
+    if (!isValid) return
 
-    const success = await joinTeam(code.toUpperCase())
+    const success = lan ? await joinLanTeam(code.trim(), pin) : await joinTeam(code.toUpperCase())
     if (success) {
       onJoined()
     }
   }
 
   const handleCodeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (lan) {
+      setCode(e.target.value.slice(0, 30))
+      return
+    }
     // Nur Großbuchstaben und Zahlen erlauben, max 6 Zeichen
     const value = e.target.value.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 6)
     setCode(value)
@@ -60,7 +69,7 @@ export function TeamJoin({ onJoined }: TeamJoinProps) {
         marginBottom: 8,
         color: '#fff'
       }}>
-        Team beitreten
+        {lan ? 'LAN-Team beitreten' : 'Team beitreten'}
       </h1>
 
       <p style={{
@@ -70,7 +79,9 @@ export function TeamJoin({ onJoined }: TeamJoinProps) {
         textAlign: 'center',
         maxWidth: 300
       }}>
-        Gib den 6-stelligen Team-Code ein, um die Piloten live zu verfolgen
+        {lan
+          ? 'Gib deinen Rufnamen und die Team-PIN ein, um dem Team im lokalen WLAN beizutreten'
+          : 'Gib den 6-stelligen Team-Code ein, um die Piloten live zu verfolgen'}
       </p>
 
       <form onSubmit={handleSubmit} style={{
@@ -90,15 +101,15 @@ export function TeamJoin({ onJoined }: TeamJoinProps) {
             type="text"
             value={code}
             onChange={handleCodeChange}
-            placeholder="ABC123"
-            maxLength={6}
+            placeholder={lan ? 'Rufname' : 'ABC123'}
+            maxLength={lan ? 30 : 6}
             autoFocus
             style={{
               width: '100%',
               padding: '16px 20px',
-              fontSize: 24,
+              fontSize: lan ? 18 : 24,
               fontWeight: 700,
-              letterSpacing: 8,
+              letterSpacing: lan ? 0 : 8,
               textAlign: 'center',
               background: 'rgba(255,255,255,0.05)',
               border: joinError ? '2px solid #ef4444' : '2px solid rgba(255,255,255,0.1)',
@@ -118,6 +129,30 @@ export function TeamJoin({ onJoined }: TeamJoinProps) {
           />
         </div>
 
+        {/* LAN: Team-PIN (wird am Laptop angezeigt) */}
+        {lan && (
+          <input
+            type="text"
+            inputMode="numeric"
+            value={pin}
+            onChange={e => setPin(e.target.value.replace(/\D/g, '').slice(0, 6))}
+            placeholder="Team-PIN"
+            style={{
+              width: '100%',
+              padding: '12px 20px',
+              fontSize: 18,
+              fontWeight: 700,
+              letterSpacing: 6,
+              textAlign: 'center',
+              background: 'rgba(255,255,255,0.05)',
+              border: joinError ? '2px solid #ef4444' : '2px solid rgba(255,255,255,0.1)',
+              borderRadius: 12,
+              color: '#fff',
+              outline: 'none'
+            }}
+          />
+        )}
+
         {/* Error Message */}
         {joinError && (
           <div style={{
@@ -136,18 +171,18 @@ export function TeamJoin({ onJoined }: TeamJoinProps) {
         {/* Submit Button */}
         <button
           type="submit"
-          disabled={code.length !== 6 || isJoining}
+          disabled={!isValid || isJoining}
           style={{
             padding: '14px 24px',
             fontSize: 15,
             fontWeight: 600,
-            background: code.length === 6
+            background: isValid
               ? 'linear-gradient(135deg, #3b82f6, #8b5cf6)'
               : 'rgba(255,255,255,0.1)',
             border: 'none',
             borderRadius: 10,
-            color: code.length === 6 ? '#fff' : 'rgba(255,255,255,0.3)',
-            cursor: code.length === 6 && !isJoining ? 'pointer' : 'not-allowed',
+            color: isValid ? '#fff' : 'rgba(255,255,255,0.3)',
+            cursor: isValid && !isJoining ? 'pointer' : 'not-allowed',
             transition: 'all 0.2s',
             display: 'flex',
             alignItems: 'center',
@@ -200,7 +235,9 @@ export function TeamJoin({ onJoined }: TeamJoinProps) {
             <path d="M12 8h.01" />
           </svg>
           <div style={{ fontSize: 12, color: 'rgba(255,255,255,0.4)', lineHeight: 1.5 }}>
-            Der Team-Code wird vom Piloten in der NTA App erstellt und kann im Team-Panel gefunden werden.
+            {lan
+              ? 'Ohne Internet: GPS und Kompass sind über http im Browser gesperrt. Karte, Chat und Pibal-Ablesung von Hand funktionieren.'
+              : 'Der Team-Code wird vom Piloten in der NTA App erstellt und kann im Team-Panel gefunden werden.'}
           </div>
         </div>
       </div>
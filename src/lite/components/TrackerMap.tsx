@@ -68,7 +68,7 @@ export function TrackerMap() {
   const trackLinesRef = useRef<Map<string, L.Polyline>>(new Map())
   const [windDialogTask, setWindDialogTask] = useState<PilotTask | null>(null)
 
-  const { pilots, selectedPilot, selectPilot, pilotTasks, pilotTracks } = useTrackerStore()
+  const { pilots, selectedPilot, selectPilot, pilotTasks, pilotTracks, myMemberId } = useTrackerStore()
 
   // Globale Callbacks für Leaflet-Popup-Buttons registrieren
   useEffect(() => {
@@ -165,6 +165,9 @@ export function TrackerMap() {
           const lng = pos.coords.longitude
           const accuracy = pos.coords.accuracy
 
+          // Als Crew-Fahrzeug ans Team senden (gedrosselt im Store)
+          useTrackerStore.getState().publishCrewPosition(pos.coords)
+
           if (myLocationMarkerRef.current) {
             myLocationMarkerRef.current.setLatLng([lat, lng])
             myLocationCircleRef.current?.setLatLng([lat, lng])
@@ -234,7 +237,8 @@ export function TrackerMap() {
 
     // Update or create markers (nur für Piloten mit gültiger Position)
     pilots.forEach(pilot => {
-      const hasValidPosition = pilot.latitude !== 0 && pilot.longitude !== 0
+      // Eigene Position ist schon der blaue Punkt
+      const hasValidPosition = pilot.latitude !== 0 && pilot.longitude !== 0 && pilot.memberId !== myMemberId
       const existing = markersRef.current.get(pilot.memberId)
 
       if (existing) {
@@ -267,7 +271,7 @@ export function TrackerMap() {
         }
       }
     }
-  }, [pilots, selectPilot])
+  }, [pilots, selectPilot, myMemberId])
 
   // Track-Linien zeichnen
   useEffect(() => {
@@ -276,7 +280,7 @@ export function TrackerMap() {
 
     // Für jeden Piloten mit Track: Polyline zeichnen/aktualisieren
     Object.entries(pilotTracks).forEach(([memberId, track]) => {
-      if (track.length < 2) return
+      if (track.length < 2 || memberId === myMemberId) return
       const pilot = pilots.find(p => p.memberId === memberId)
       const color = pilot?.color || '#3b82f6'
       const positions: [number, number][] = track.map(p => [p.lat, p.lon])
@@ -302,7 +306,7 @@ export function TrackerMap() {
         trackLinesRef.current.delete(memberId)
       }
     })
-  }, [pilotTracks, pilots])
+  }, [pilotTracks, pilots, myMemberId])
 
   // Center on selected pilot (only when selection changes, not on position updates)
   useEffect(() => {
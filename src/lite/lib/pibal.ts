@@ -0,0 +1,104 @@
+/**
+ * Pibal-Auswertung (Pilotballon, Ein-Theodolit-Verfahren)
+ *
+ * Der Ballon steigt mit angenommener Steigrate. Aus Höhe und Höhenwinkel ergibt sich die
+ * horizontale Entfernung, mit dem Azimut die Position. Der Wind einer Schicht ist die
+ * Verschiebung zwischen zwei Ablesungen geteilt durch die Zeit.
+ */
+
+export interface PibalReading {
+  t: number           // Sekunden seit dem Loslassen
+  azimuth: number     // Grad, Richtung vom Beobachter zum Ballon (rechtweisend)
+  elevation: number   // Grad über dem Horizont
+}
+
+export interface PibalLayer {
+  altitude: number    // m MSL (Mitte der Schicht)
+  direction: number   // Grad, woher der Wind kommt
+  speed: number       // km/h
+}
+
+export interface PibalSettings {
+  ascentRate: number        // m/s
+  launchElevation: number   // m MSL des Beobachters
+  declination: number       // Grad, Ost positiv (Kompass -> rechtweisend)
+}
+
+// Typische Steigraten (Ballongröße / Füllung)
+export const ASCENT_RATE_PRESETS: { label: string; rate: number }[] = [
+  { label: '10 g', rate: 2.0 },
+  { label: '30 g', rate: 2.5 },
+  { label: '100 g', rate: 3.5 }
+]
+
+const MIN_ELEVATION = 3   // Grad - darunter ist die Entfernung unbrauchbar
+
+/**
+ * Position des Ballons relativ zum Beobachter (m Ost/Nord) und Höhe über Grund
+ */
+function balloonPosition(reading: PibalReading, ascentRate: number) {
+  const height = reading.t * ascentRate
+  const distance = height / Math.tan(reading.elevation * Math.PI / 180)
+  const az = reading.azimuth * Math.PI / 180
+  return { x: distance * Math.sin(az), y: distance * Math.cos(az), height }
+}
+
+/**
+ * Ablesung aus Kompass-Werten auf rechtweisend korrigieren
+ */
+export function applyDeclination(azimuth: number, declination: number): number {
+  return ((azimuth + declination) % 360 + 360) % 360
+}
+
+/**
+ * Windprofil aus den Ablesungen. Startpunkt (t = 0) ist der Beobachter am Boden.
+ */
+export function computePibalProfile(readings: PibalReading[], settings: PibalSettings): PibalLayer[] {
+  const valid = readings
+    .filter(r => r.t > 0 && r.elevation >= MIN_ELEVATION && r.elevation < 90)
+    .sort((a, b) => a.t - b.t)
+
+  const layers: PibalLayer[] = []
+  let prev = { x: 0, y: 0, height: 0, t: 0 }
+
+  for (const reading of valid) {
+    const pos = balloonPosition(reading, settings.ascentRate)
+    const dt = reading.t - prev.t
+    if (dt <= 0) continue
+
+    // Ballon treibt mit dem Wind: Verschiebung zeigt wohin, Wind kommt von gegenüber
+    const dx = pos.x - prev.x
+    const dy = pos.y - prev.y
+    const speedMs = Math.sqrt(dx * dx + dy * dy) / dt
+    const toward = (Math.atan2(dx, dy) * 180 / Math.PI + 360) % 360
+
+    layers.push({
+      altitude: Math.round(settings.launchElevation + (prev.height + pos.height) / 2),
+      direction: Math.round((toward + 180) % 360),
+      speed: Math.round(speedMs * 3.6 * 10) / 10
+    })
+    prev = { ...pos, t: reading.t }
+  }
+
+  return layers
+}
+
+/**
+ * Höhenwinkel und Azimut aus der Geräteausrichtung (Handy hochkant, Kamera zum Ballon).
+ * beta = 90° bei senkrecht gehaltenem Gerät, darüber kippt die Kamera nach oben.
+ */
+export function orientationToSighting(event: DeviceOrientationEvent): { azimuth: number; elevation: number } | null {
+  const e = event as DeviceOrientationEvent & { webkitCompassHeading?: number }
+  if (e.beta === null) return null
+
+  // iOS liefert den Kompasskurs direkt, sonst alpha der absoluten Ausrichtung (gegen den Uhrzeigersinn)
+  let azimuth: number | null = null
+  if (typeof e.webkitCompassHeading === 'number') {
+    azimuth = e.webkitCompassHeading
+  } else if (e.absolute && e.alpha !== null) {
+    azimuth = (360 - e.alpha) % 360
+  }
+  if (azimuth === null) return null
+
+  return { azimuth, elevation: e.beta - 90 }
+}
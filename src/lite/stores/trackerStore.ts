@@ -2,6 +2,8 @@ import { create } from 'zustand'
 import { supabase } from '../lib/supabase'
 import type { RealtimeChannel } from '@supabase/supabase-js'
 import { useAuthStore } from './authStore'
+import type { PibalLayer } from '../lib/pibal'
+import { LanTeamClient, lanHubUrl, randomId, type LanMemberInfo, type LanWelcome } from '../../shared/lanTeamClient'
 
 export interface Team {
   id: string
@@ -82,10 +84,13 @@ interface TrackerState {
 
   // Actions
   joinTeam: (joinCode: string) => Promise<boolean>
+  joinLanTeam: (callsign: string, pin: string) => Promise<boolean>
   leaveTeam: () => void
   selectPilot: (memberId: string | null) => void
   loadPilotTasks: (memberId: string) => Promise<void>
   sendMessage: (message: string, targetMemberId?: string | null) => Promise<boolean>
+  sharePibalProfile: (layers: PibalLayer[]) => Promise<boolean>
+  publishCrewPosition: (coords: GeolocationCoordinates) => void
 }
 
 let positionsChannel: RealtimeChannel | null = null
@@ -93,6 +98,15 @@ let membersChannel: RealtimeChannel | null = null
 let presenceChannel: RealtimeChannel | null = null
 let tasksChannel: RealtimeChannel | null = null
 let messagesChannel: RealtimeChannel | null = null
+let windChannel: RealtimeChannel | null = null  // team-wind: gleicher Kanal wie die Desktop-App
+let lanClient: LanTeamClient | null = null       // LAN-Modus: WebSocket zum Hub statt Supabase
+const LAN_CONNECT_TIMEOUT = 5000
+
+// Crew-Fahrzeugposition: höchstens alle 5 s senden, im Stand nur alle 30 s
+const CREW_POSITION_MIN_INTERVAL = 5000
+const CREW_POSITION_IDLE_INTERVAL = 30000
+const CREW_POSITION_MIN_MOVE = 15  // Meter
+let lastCrewPosition: { lat: number; lon: number; time: number; heading: number } | null = null
 
 export const useTrackerStore = create<TrackerState>((set, get) => ({
   team: null,
@@ -267,17 +281,95 @@ export const useTrackerStore = create<TrackerState>((set, get) => ({
     }
   },
 
+  // LAN-Team: Lite-App wurde vom Hub eines Laptops ausgeliefert, kein Login und kein Internet nötig
+  joinLanTeam: async (callsign: string, pin: string) => {
+    set({ isJoining: true, joinError: null })
+    lanClient?.close()
+
+    const crewColors = ['#22c55e', '#10b981', '#14b8a6', '#06b6d4', '#0ea5e9', '#6366f1', '#a855f7', '#ec4899', '#f43f5e', '#f97316']
+    const color = crewColors[Math.floor(Math.random() * crewColors.length)]
+
+    // Die eigene Member-ID vergibt der Hub im "welcome"
+    let rejected = false
+    const welcomed = await new Promise<boolean>(resolve => {
+      const timeout = setTimeout(() => resolve(false), LAN_CONNECT_TIMEOUT)
+      const client = new LanTeamClient(lanHubUrl(window.location.host), pin, { callsign, color, role: 'crew' }, {
+        onWelcome: (welcome) => {
+          clearTimeout(timeout)
+          set({ myMemberId: welcome.memberId })
+          applyLanWelcome(welcome)
+          resolve(true)
+        },
+        onMembers: applyLanMembers,
+        onPosition: (pos) => {
+          if (pos.memberId !== get().myMemberId) applyPositionRow(lanPositionRow(pos))
+        },
+        onMessage: (msg) => {
+          const myMemberId = get().myMemberId
+          if (msg.memberId === myMemberId) return
+          applyMessageRow(lanMessageRow(msg), myMemberId)
+        },
+        onRejected: () => {
+          clearTimeout(timeout)
+          rejected = true
+          resolve(false)
+        },
+        onError: () => {
+          clearTimeout(timeout)
+          resolve(false)
+        },
+        onConnectionChange: () => {}
+      })
+      lanClient = client
+      client.connect()
+    })
+
+    if (!welcomed) {
+      lanClient?.close()
+      lanClient = null
+      set({
+        isJoining: false,
+        myMemberId: null,
+        joinError: rejected ? 'Falsche Team-PIN' : 'LAN-Hub nicht erreichbar. Läuft das Team auf dem Laptop noch?'
+      })
+      return false
+    }
+
+    set({
+      team: {
+        id: `lan-${window.location.host}`,
+        name: 'LAN-Team',
+        join_code: window.location.host,
+        created_at: new Date().toISOString(),
+        is_active: true
+      },
+      isJoining: false,
+      isTracking: true
+    })
+    try {
+      localStorage.setItem('nta-lite-lan-callsign', callsign)
+      localStorage.setItem('nta-lite-lan-pin', pin)
+    } catch {}
+    return true
+  },
+
   leaveTeam: () => {
+    if (lanClient) {
+      lanClient.close()
+      lanClient = null
+    }
     // Demo-User: eigenen Member-Eintrag löschen (aufräumen)
     const authUser = useAuthStore.getState().user
     const myMemberId = get().myMemberId
-    if (authUser?.is_demo && myMemberId) {
+    if (authUser?.is_demo && myMemberId && !get().team?.id.startsWith('lan-')) {
       supabase.from('team_members').delete().eq('id', myMemberId).then(() => {
         console.log('[Tracker] Demo-Member gelöscht:', myMemberId)
       })
     }
     // Join-Code aus localStorage entfernen
     try { localStorage.removeItem('nta-lite-join-code') } catch {}
+    try { localStorage.removeItem('nta-lite-lan-callsign') } catch {}
+    try { localStorage.removeItem('nta-lite-lan-pin') } catch {}
     // Channels aufräumen
     if (positionsChannel) {
       supabase.removeChannel(positionsChannel)
@@ -299,6 +391,11 @@ export const useTrackerStore = create<TrackerState>((set, get) => ({
       supabase.removeChannel(messagesChannel)
       messagesChannel = null
     }
+    if (windChannel) {
+      supabase.removeChannel(windChannel)
+      windChannel = null
+    }
+    lastCrewPosition = null
 
     set({
       team: null,
@@ -431,12 +528,25 @@ export const useTrackerStore = create<TrackerState>((set, get) => ({
     if (!team || !myMemberId) return false
 
     try {
-      const { data, error } = await supabase.from('team_messages').insert({
-        team_id: team.id,
-        member_id: myMemberId,
-        message,
-        target_member_id: targetMemberId || null
-      }).select('id, created_at').single()
+      let data: { id: string; created_at: string } | null = null
+      let error: unknown = null
+      if (lanClient) {
+        const id = randomId()
+        if (lanClient.send({ type: 'message', id, message, targetMemberId: targetMemberId || null })) {
+          data = { id, created_at: new Date().toISOString() }
+        } else {
+          error = 'Keine Verbindung zum LAN-Hub'
+        }
+      } else {
+        const result = await supabase.from('team_messages').insert({
+          team_id: team.id,
+          member_id: myMemberId,
+          message,
+          target_member_id: targetMemberId || null
+        }).select('id, created_at').single()
+        data = result.data
+        error = result.error
+      }
 
       if (!error && data) {
         const me = pilots.find(p => p.memberId === myMemberId)
@@ -458,10 +568,262 @@ export const useTrackerStore = create<TrackerState>((set, get) => ({
     } catch {
       return false
     }
+  },
+
+  // Pibal-Windprofil an die Piloten senden (erscheint im Wind-Panel der Desktop-App)
+  sharePibalProfile: async (layers: PibalLayer[]) => {
+    const { team, myMemberId, pilots } = get()
+    if (!team || !myMemberId || (!windChannel && !lanClient) || layers.length === 0) return false
+
+    const me = pilots.find(p => p.memberId === myMemberId)
+    const now = new Date().toISOString()
+    const payload = {
+      memberId: myMemberId,
+      callsign: me?.callsign || 'Crew',
+      color: me?.color || '#6b7280',
+      windLayers: layers.map(l => ({
+        altitude: l.altitude,
+        direction: l.direction,
+        speed: l.speed,
+        timestamp: now,
+        source: 'pibal'
+      })),
+      sharedAt: now
+    }
+    try {
+      if (lanClient) return lanClient.send({ type: 'wind_profile', ...payload })
+      const result = await windChannel!.send({
+        type: 'broadcast',
+        event: 'wind_profile',
+        payload
+      })
+      return result === 'ok'
+    } catch {
+      return false
+    }
+  },
+
+  // Eigene Fahrzeugposition in die Positions-Tabelle schreiben (Desktop zeigt Crew als Fahrzeug)
+  publishCrewPosition: (coords: GeolocationCoordinates) => {
+    const { team, myMemberId, pilots } = get()
+    if (!team || !myMemberId) return
+    const me = pilots.find(p => p.memberId === myMemberId)
+    if (me?.role !== 'crew') return
+
+    const now = Date.now()
+    const last = lastCrewPosition
+    const moved = last ? distanceMeters(last.lat, last.lon, coords.latitude, coords.longitude) : Infinity
+    if (last) {
+      const elapsed = now - last.time
+      if (elapsed < CREW_POSITION_MIN_INTERVAL) return
+      if (moved < CREW_POSITION_MIN_MOVE && elapsed < CREW_POSITION_IDLE_INTERVAL) return
+    }
+
+    // Browser liefern speed/heading nicht immer (heading im Stand NaN) - dann aus der Verschiebung
+    let speed = coords.speed ?? null
+    if (speed === null || isNaN(speed)) {
+      speed = last ? moved / ((now - last.time) / 1000) : 0
+    }
+    let heading = coords.heading ?? null
+    if (heading === null || isNaN(heading)) {
+      heading = last && moved >= CREW_POSITION_MIN_MOVE
+        ? bearingDegrees(last.lat, last.lon, coords.latitude, coords.longitude)
+        : last?.heading ?? 0
+    }
+
+    lastCrewPosition = { lat: coords.latitude, lon: coords.longitude, time: now, heading }
+
+    if (lanClient) {
+      lanClient.send({
+        type: 'position',
+        latitude: coords.latitude,
+        longitude: coords.longitude,
+        altitude: coords.altitude ?? 0,
+        heading,
+        speed,
+        vario: 0,
+        recordedAt: new Date(now).toISOString()
+      })
+      return
+    }
+
+    supabase.from('positions').insert({
+      team_id: team.id,
+      member_id: myMemberId,
+      latitude: coords.latitude,
+      longitude: coords.longitude,
+      altitude: coords.altitude ?? 0,
+      heading,
+      speed,
+      vario: 0,
+      recorded_at: new Date(now).toISOString(),
+      is_queued: false
+    }).then(({ error }) => {
+      if (error) console.error('[Tracker] Crew-Position senden fehlgeschlagen:', error)
+    })
   }
 }))
 
-// Nachrichtenhistorie aus DB laden
+function distanceMeters(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371000
+  const dLat = (lat2 - lat1) * Math.PI / 180
+  const dLon = (lon2 - lon1) * Math.PI / 180
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * Math.sin(dLon / 2) ** 2
+  return 2 * R * Math.asin(Math.sqrt(a))
+}
+
+function bearingDegrees(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const phi1 = lat1 * Math.PI / 180
+  const phi2 = lat2 * Math.PI / 180
+  const dLon = (lon2 - lon1) * Math.PI / 180
+  const y = Math.sin(dLon) * Math.cos(phi2)
+  const x = Math.cos(phi1) * Math.sin(phi2) - Math.sin(phi1) * Math.cos(phi2) * Math.cos(dLon)
+  return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360
+}
+
+// Positions-Zeile (Supabase-Format) in Pilotenliste und Track übernehmen
+function applyPositionRow(pos: any) {
+  useTrackerStore.setState(state => {
+    const existingIndex = state.pilots.findIndex(p => p.memberId === pos.member_id)
+
+    const updatedPilot: PilotPosition = {
+      memberId: pos.member_id,
+      callsign: existingIndex >= 0 ? state.pilots[existingIndex].callsign : `Pilot`,
+      color: existingIndex >= 0 ? state.pilots[existingIndex].color : '#3b82f6',
+      role: existingIndex >= 0 ? state.pilots[existingIndex].role : 'pilot',
+      latitude: pos.latitude,
+      longitude: pos.longitude,
+      altitude: pos.altitude || 0,
+      heading: pos.heading || 0,
+      speed: pos.speed || 0,
+      vario: pos.vario || 0,
+      timestamp: new Date(pos.recorded_at || Date.now()),
+      isOnline: true
+    }
+
+    // Track-History aktualisieren
+    const tracks = { ...state.pilotTracks }
+    const memberId = pos.member_id
+    if (!tracks[memberId]) tracks[memberId] = []
+    tracks[memberId] = [...tracks[memberId], { lat: pos.latitude, lon: pos.longitude }]
+    // Max 2000 Punkte pro Pilot behalten
+    if (tracks[memberId].length > 2000) tracks[memberId] = tracks[memberId].slice(-2000)
+
+    if (existingIndex >= 0) {
+      const newPilots = [...state.pilots]
+      newPilots[existingIndex] = {
+        ...newPilots[existingIndex],
+        ...updatedPilot
+      }
+      return { pilots: newPilots, pilotTracks: tracks }
+    } else {
+      return { pilots: [...state.pilots, updatedPilot], pilotTracks: tracks }
+    }
+  })
+}
+
+// Eingehende Chat-Nachricht (Supabase-Format) anhängen
+function applyMessageRow(msg: any, myMemberId: string | null) {
+  if (msg.target_member_id && msg.target_member_id !== myMemberId) return
+
+  const pilots = useTrackerStore.getState().pilots
+  const sender = pilots.find(p => p.memberId === msg.member_id)
+  const target = msg.target_member_id ? pilots.find(p => p.memberId === msg.target_member_id) : null
+
+  const chatMsg: ChatMessage = {
+    id: msg.id,
+    memberId: msg.member_id,
+    callsign: sender?.callsign || '???',
+    color: sender?.color || '#ffffff',
+    message: msg.message,
+    createdAt: new Date(msg.created_at),
+    targetMemberId: msg.target_member_id || null,
+    targetCallsign: target?.callsign || null
+  }
+
+  useTrackerStore.setState(state => ({
+    messages: [...state.messages, chatMsg],
+    unreadCount: state.unreadCount + 1
+  }))
+}
+
+// ============================================
+// LAN-Hub: Nachrichten ins Supabase-Format bringen
+// ============================================
+
+function lanPositionRow(pos: any) {
+  return {
+    member_id: pos.memberId,
+    latitude: pos.latitude,
+    longitude: pos.longitude,
+    altitude: pos.altitude,
+    heading: pos.heading,
+    speed: pos.speed,
+    vario: pos.vario,
+    recorded_at: pos.recordedAt
+  }
+}
+
+function lanMessageRow(msg: any) {
+  return {
+    id: msg.id,
+    member_id: msg.memberId,
+    message: msg.message,
+    target_member_id: msg.targetMemberId || null,
+    created_at: msg.createdAt
+  }
+}
+
+function applyLanMembers(members: LanMemberInfo[]) {
+  useTrackerStore.setState(state => ({
+    pilots: members.map(m => {
+      const existing = state.pilots.find(p => p.memberId === m.memberId)
+      return {
+        memberId: m.memberId,
+        userId: null,
+        callsign: m.callsign,
+        color: m.color,
+        role: m.role,
+        latitude: existing?.latitude ?? 0,
+        longitude: existing?.longitude ?? 0,
+        altitude: existing?.altitude ?? 0,
+        heading: existing?.heading ?? 0,
+        speed: existing?.speed ?? 0,
+        vario: existing?.vario ?? 0,
+        timestamp: existing?.timestamp ?? new Date(m.lastSeen),
+        isOnline: m.isOnline
+      }
+    })
+  }))
+}
+
+function applyLanWelcome(welcome: LanWelcome) {
+  const myMemberId = welcome.memberId
+  applyLanMembers(welcome.members)
+  for (const pos of welcome.positions) {
+    if (pos.memberId !== myMemberId) applyPositionRow(lanPositionRow(pos))
+  }
+
+  const pilots = useTrackerStore.getState().pilots
+  const messages: ChatMessage[] = welcome.messages.map(msg => {
+    const sender = pilots.find(p => p.memberId === msg.memberId)
+    const target = msg.targetMemberId ? pilots.find(p => p.memberId === msg.targetMemberId) : null
+    return {
+      id: msg.id,
+      memberId: msg.memberId,
+      callsign: sender?.callsign || '???',
+      color: sender?.color || '#ffffff',
+      message: msg.message,
+      createdAt: new Date(msg.createdAt),
+      isMine: msg.memberId === myMemberId,
+      targetMemberId: msg.targetMemberId || null,
+      targetCallsign: target?.callsign || null
+    }
+  })
+  useTrackerStore.setState({ messages })
+}
+
 async function loadMessageHistory(teamId: string) {
   const store = useTrackerStore
   const myMemberId = store.getState().myMemberId
@@ -520,44 +882,7 @@ function startRealtimeSubscriptions(teamId: string) {
       (payload) => {
         const pos = payload.new as any
         console.log('[Tracker] Position update für:', pos.member_id)
-
-        store.setState(state => {
-          const existingIndex = state.pilots.findIndex(p => p.memberId === pos.member_id)
-
-          const updatedPilot: PilotPosition = {
-            memberId: pos.member_id,
-            callsign: existingIndex >= 0 ? state.pilots[existingIndex].callsign : `Pilot`,
-            color: existingIndex >= 0 ? state.pilots[existingIndex].color : '#3b82f6',
-            role: existingIndex >= 0 ? state.pilots[existingIndex].role : 'pilot',
-            latitude: pos.latitude,
-            longitude: pos.longitude,
-            altitude: pos.altitude || 0,
-            heading: pos.heading || 0,
-            speed: pos.speed || 0,
-            vario: pos.vario || 0,
-            timestamp: new Date(pos.recorded_at || Date.now()),
-            isOnline: true
-          }
-
-          // Track-History aktualisieren
-          const tracks = { ...state.pilotTracks }
-          const memberId = pos.member_id
-          if (!tracks[memberId]) tracks[memberId] = []
-          tracks[memberId] = [...tracks[memberId], { lat: pos.latitude, lon: pos.longitude }]
-          // Max 2000 Punkte pro Pilot behalten
-          if (tracks[memberId].length > 2000) tracks[memberId] = tracks[memberId].slice(-2000)
-
-          if (existingIndex >= 0) {
-            const newPilots = [...state.pilots]
-            newPilots[existingIndex] = {
-              ...newPilots[existingIndex],
-              ...updatedPilot
-            }
-            return { pilots: newPilots, pilotTracks: tracks }
-          } else {
-            return { pilots: [...state.pilots, updatedPilot], pilotTracks: tracks }
-          }
-        })
+        applyPositionRow(pos)
       }
     )
     .subscribe()
@@ -708,27 +1033,7 @@ function startRealtimeSubscriptions(teamId: string) {
         const msg = payload.new as any
         if (msg.team_id !== teamId) return
         if (msg.member_id === myMemberId) return
-        if (msg.target_member_id && msg.target_member_id !== myMemberId) return
-
-        const pilots = store.getState().pilots
-        const sender = pilots.find(p => p.memberId === msg.member_id)
-        const target = msg.target_member_id ? pilots.find(p => p.memberId === msg.target_member_id) : null
-
-        const chatMsg: ChatMessage = {
-          id: msg.id,
-          memberId: msg.member_id,
-          callsign: sender?.callsign || '???',
-          color: sender?.color || '#ffffff',
-          message: msg.message,
-          createdAt: new Date(msg.created_at),
-          targetMemberId: msg.target_member_id || null,
-          targetCallsign: target?.callsign || null
-        }
-
-        store.setState(state => ({
-          messages: [...state.messages, chatMsg],
-          unreadCount: state.unreadCount + 1
-        }))
+        applyMessageRow(msg, myMemberId)
       }
     )
     .subscribe()
@@ -736,6 +1041,11 @@ function startRealtimeSubscriptions(teamId: string) {
   // 6. Letzte Nachrichten aus DB laden (damit verpasste Nachrichten sichtbar sind)
   loadMessageHistory(teamId)
 
+  // 7. Windprofil-Kanal (nur senden - Pibal-Messungen der Crew)
+  windChannel = supabase
+    .channel(`team-wind-${teamId}`)
+    .subscribe()
+
   // Stale Check alle 30 Sekunden
   setInterval(() => {
     const now = Date.now()
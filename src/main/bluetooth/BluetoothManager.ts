@@ -1,104 +1,85 @@
 import { EventEmitter } from 'events'
+import * as path from 'path'
+import * as fs from 'fs'
+import { NmeaLogRecorder, NmeaLogInfo, listNmeaLogs, NMEA_LOG_EXTENSION } from './NmeaLog'
+import { SensorSource, SensorSourceStatus, GPSData, BaroData, getSerialPort } from './SensorSource'
+import { FlightStateFilter } from './FlightStateFilter'
 
-// SerialPort wird lazy geladen um Probleme mit native Addons zu vermeiden
-let SerialPortModule: typeof import('serialport') | null = null
-let ReadlineParserClass: any = null
-type SerialPortType = import('serialport').SerialPort
-
-function getSerialPort(): typeof import('serialport').SerialPort | null {
-  if (!SerialPortModule) {
-    try {
-      SerialPortModule = require('serialport')
-      ReadlineParserClass = require('@serialport/parser-readline').ReadlineParser
-    } catch (err) {
-      console.warn('SerialPort konnte nicht geladen werden:', err)
-      return null
-    }
-  }
-  return SerialPortModule!.SerialPort
+interface BluetoothDevice {
+  id: string
+  name: string
+  rssi: number
 }
 
-interface GPSData {
-  latitude: number
-  longitude: number
-  altitude: number
-  speed: number
-  heading: number
-  timestamp: Date
-  satellites: number
-  hdop: number
+export interface SensorFailover {
+  from: string | null   // bisherige GPS-Quelle (Name)
+  to: string | null     // neue GPS-Quelle (Name, null = keine mit Fix)
+  reason: string
 }
 
-interface BaroData {
-  pressureAltitude: number
-  qnh: number
-  variometer: number
-  timestamp: Date
+// Geräte-ID für die Wiedergabe eines NMEA-Logs: "virtual:<Pfad>"
+export const VIRTUAL_DEVICE_PREFIX = 'virtual:'
+
+// Optionale Baudrate in der Geräte-ID: "COM5@9600" (ohne Angabe 115200 wie beim BLS)
+const BAUD_RATE_SUFFIX = /^(.+)@(\d{4,6})$/
+
+// Quellen-Auswahl
+const FIX_TIMEOUT_MS = 3000        // Ohne GGA-Fix seit dieser Zeit gilt eine Quelle als ausgefallen
+const BARO_TIMEOUT_MS = 3000       // Gleiches für echte Baro-Höhe (PGRMZ/LXWP0)
+const MIN_HOLD_MS = 10000          // Mindestdauer bevor wegen besserer HDOP gewechselt wird
+const HDOP_SWITCH_MARGIN = 1.0     // So viel besser muss die HDOP der anderen Quelle sein
+
+/**
+ * Fix-Klasse für die Rangfolge: RTK > DGPS > GPS > kein Fix
+ */
+function fixClass(quality: number): number {
+  if (quality === 4 || quality === 5) return 3
+  if (quality === 2) return 2
+  if (quality === 1) return 1
+  return 0
 }
 
-interface BluetoothDevice {
-  id: string
-  name: string
-  rssi: number
+/**
+ * Rangfolge zweier Quellen (negativ = a besser)
+ */
+function compareSources(a: SensorSourceStatus, b: SensorSourceStatus): number {
+  return (fixClass(b.fixQuality) - fixClass(a.fixQuality))
+    || (a.hdop - b.hdop)
+    || (b.satellites - a.satellites)
 }
 
 /**
- * BluetoothManager - Verwaltet die Verbindung zum Flytec BLS Sensor
+ * BluetoothManager - Verwaltet die Verbindungen zu den NMEA-Sensoren
  *
- * Der BLS Sensor unterstützt:
+ * Primär der Flytec BLS Sensor:
  * - Bluetooth LE für die Balloon Live App
  * - Bluetooth SPP (Serial Port Profile) mit NMEA für Mapping Software
  *
- * Wir nutzen SPP über einen virtuellen COM Port für NMEA Daten
+ * Zusätzlich können weitere Quellen parallel laufen (FLARM, LXNAV Vario, USB u-blox GPS).
+ * Es wird immer nur die beste Quelle (Fix-Qualität, HDOP) an die App weitergegeben;
+ * fällt sie aus, wird automatisch auf die nächste umgeschaltet.
+ *
+ * GPS und Baro der aktiven Quellen laufen durch einen Kalman-Filter (FlightStateFilter):
+ * Position, Geschwindigkeit, Höhe und Steigrate kommen fusioniert und mit Unsicherheit (1σ).
  */
 export class BluetoothManager extends EventEmitter {
-  private port: SerialPortType | null = null
-  private parser: any = null  // ReadlineParser — liefert saubere NMEA-Zeilen
-  private buffer: string = ''  // Fallback-Buffer wenn ReadlineParser nicht verfügbar
-  private isConnected: boolean = false
+  private sources = new Map<string, SensorSource>()
+  private deviceNames = new Map<string, string>()  // Port -> Name aus dem letzten Scan (BLS erkennen)
   private gpsCallbacks: ((data: GPSData) => void)[] = []
   private baroCallbacks: ((data: BaroData) => void)[] = []
-
-  // Letzte bekannte Werte für Variometer-Berechnung
-  private lastAltitude: number = 0
-  private lastAltitudeTime: number = 0
-
-  // Letzte gültige Speed/Heading aus RMC - GGA sendet kein Speed/Heading
-  private lastValidSpeed: number = 0
-  private lastValidHeading: number = 0
-  private hasValidHeading: boolean = false
-
-  // QNH vom BLS Sensor (über PFLAC Satz)
-  private lastQNH: number = 1013.25
-
-  // Debug-Statistiken für BLS Monitor
-  private debugStats = {
-    ggaCount: 0,
-    rmcCount: 0,
-    baroCount: 0,
-    checksumErrors: 0,
-    parseErrors: 0,
-    lastGGATime: 0,         // Timestamp des letzten GGA
-    avgGGAInterval: 0,      // Durchschnittlicher GGA-Intervall (ms)
-    lastSentence: '',       // Letzter empfangener NMEA-Satz (Typ)
-    parserType: 'unknown' as string,  // 'readline' oder 'manual'
-    connectedSince: 0,      // Zeitpunkt der Verbindung
-    lastError: '',          // Letzter Fehler
-  }
-  private rawLog: string[] = []         // Letzte N raw NMEA Sätze
-  private readonly RAW_LOG_MAX = 50     // Max Anzahl gespeicherter Sätze
   private debugInterval: ReturnType<typeof setInterval> | null = null
 
-  // Glättungsfilter für stabile Anzeige (EMA = Exponential Moving Average)
-  // HINWEIS: Position/Heading werden NICHT geglättet — das macht der "Render In The Past"
-  // Algorithmus im MapView (60fps Interpolation zwischen bekannten GPS-Punkten).
-  // Nur Variometer und Speed werden hier geglättet (für Anzeige in StatusBar).
-  private smoothedVariometer: number = 0
-  private smoothedSpeed: number = 0
-  private readonly VARIO_SMOOTHING = 0.3  // Stärkere Glättung für Variometer (0.3 = 30% neuer Wert)
-  private readonly SPEED_SMOOTHING = 0.4  // Moderate Glättung für Speed
+  // Aktive Quellen
+  private activeGpsId: string | null = null
+  private activeGpsName: string | null = null
+  private activeGpsSince = 0
+  private activeBaroId: string | null = null  // null = Höhe aus GPS der aktiven GPS-Quelle
+
+  private filter = new FlightStateFilter()
 
-  constructor() {
+  private replaySpeed = 1
+
+  constructor(private logDir: string | null = null) {
     super()
   }
 
@@ -251,6 +232,7 @@ export class BluetoothManager extends EventEmitter {
       })
 
       console.log('Geräte für UI:', devices)
+      devices.forEach(device => this.deviceNames.set(device.id, device.name))
       return devices
     } catch (error) {
       console.error('Fehler beim Scannen:', error)
@@ -259,578 +241,303 @@ export class BluetoothManager extends EventEmitter {
   }
 
   /**
-   * Verbindet mit dem BLS Sensor über den angegebenen Port
+   * Verbindet mit dem Sensor über den angegebenen Port und ersetzt alle bisherigen Quellen
    */
-  async connect(portPath: string): Promise<boolean> {
-    try {
-      if (this.port?.isOpen) {
-        await this.disconnect()
-      }
-
-      const SP = getSerialPort()
-      if (!SP) {
-        console.warn('SerialPort nicht verfügbar')
-        return false
-      }
-
-      return new Promise((resolve) => {
-        // Port mit autoOpen: false erstellen, um Fehler abfangen zu können
-        let port: SerialPortType
-        try {
-          port = new SP({
-            path: portPath,
-            baudRate: 115200,
-            dataBits: 8,
-            stopBits: 1,
-            parity: 'none',
-            autoOpen: false  // Wichtig: Nicht automatisch öffnen
-          })
-        } catch (err) {
-          console.error('Fehler beim Erstellen des Ports:', err)
-          resolve(false)
-          return
-        }
-
-        this.port = port
-
-        // Event-Handler registrieren BEVOR wir öffnen
-        port.on('open', () => {
-          this.isConnected = true
-          this.debugStats.connectedSince = Date.now()
-          this.emit('connected')
-          console.log(`Verbunden mit BLS auf ${portPath}`)
-
-          // Konfiguriere BLS für schnellere Updates
-          this.configureDevice()
-
-          // Debug-Stats alle 500ms per Event senden
-          this.startDebugEmitter()
-
-          resolve(true)
-        })
+  async connect(deviceId: string): Promise<boolean> {
+    await this.disconnect()
+    return this.addSource(deviceId)
+  }
 
-        // ReadlineParser: Liefert komplette NMEA-Zeilen bei jedem \r\n
-        // Eliminiert das Problem von fragmentierten Buffer-Chunks
-        if (ReadlineParserClass) {
-          this.debugStats.parserType = 'readline'
-          this.parser = port.pipe(new ReadlineParserClass({ delimiter: '\r\n' }))
-          this.parser.on('data', (line: string) => {
-            if (line.startsWith('$')) {
-              this.parseNMEASentence(line)
-            }
-          })
-        } else {
-          this.debugStats.parserType = 'manual'
-          // Fallback: manuelles Buffer-Splitting (weniger präzise Timestamps)
-          port.on('data', (data: Buffer) => {
-            this.processNMEAData(data.toString())
-          })
-        }
+  /**
+   * Fügt eine weitere Quelle hinzu (serieller Port, "COM5@9600" oder "virtual:<Pfad>")
+   */
+  async addSource(deviceId: string): Promise<boolean> {
+    if (this.sources.has(deviceId)) {
+      await this.disconnectSource(deviceId)
+    }
 
-        port.on('error', (err: Error) => {
-          console.error('Serieller Port Fehler:', err.message)
-          this.isConnected = false
-          this.port = null
-          this.emit('error', err)
-        })
-
-        port.on('close', () => {
-          this.isConnected = false
-          this.emit('disconnected')
-        })
-
-        // Jetzt manuell öffnen mit Callback
-        port.open((err) => {
-          if (err) {
-            const errorMsg = `Fehler beim Öffnen des Ports: ${err.message}`
-            console.error(errorMsg)
-
-            // Spezielle Behandlung für häufige Fehler
-            let userMessage = errorMsg
-            if (err.message.includes('121')) {
-              userMessage = `Port-Timeout (Error 121): ${portPath}\n\nMögliche Ursachen:\n- Port wird bereits von einer anderen Anwendung verwendet\n- Bluetooth SPP-Treiber ist nicht bereit\n- Gerät ist nicht korrekt gepairt`
-            } else if (err.message.includes('Access denied') || err.message.includes('5')) {
-              userMessage = `Zugriff verweigert (Error 5): ${portPath}\n\nPort wird bereits verwendet. Bitte andere Anwendungen schließen.`
-            } else if (err.message.includes('cannot open')) {
-              userMessage = `Port kann nicht geöffnet werden: ${portPath}\n\nBitte überprüfen Sie:\n- Ist das Gerät eingeschaltet?\n- Ist das Gerät per Bluetooth verbunden?\n- Verwenden Sie den richtigen COM-Port?`
-            }
+    const isVirtual = deviceId.startsWith(VIRTUAL_DEVICE_PREFIX)
+    const recorder = !isVirtual && this.logDir ? new NmeaLogRecorder(this.logDir) : null
+    const source = new SensorSource(deviceId, recorder)
+    this.attachSource(source)
+    this.sources.set(deviceId, source)
+
+    let success: boolean
+    if (isVirtual) {
+      success = source.connectVirtual(deviceId.substring(VIRTUAL_DEVICE_PREFIX.length), this.replaySpeed)
+    } else {
+      const match = BAUD_RATE_SUFFIX.exec(deviceId)
+      const portPath = match ? match[1] : deviceId
+      success = await source.connect(portPath, match ? parseInt(match[2]) : undefined, this.deviceNames.get(portPath))
+    }
 
-            this.isConnected = false
-            this.port = null
-            this.emit('error', { message: userMessage, originalError: err })
-            resolve(false)
-          }
-        })
-      })
-    } catch (error) {
-      console.error('Verbindungsfehler:', error)
+    if (!success) {
+      source.removeAllListeners()
+      this.sources.delete(deviceId)
+      // Laufende Quellen bleiben verbunden - Fehler nur an den Aufrufer melden
+      if (this.getConnectionStatus()) {
+        throw new Error(source.getDebugStats().lastError || `Sensor ${deviceId} konnte nicht verbunden werden`)
+      }
       return false
     }
+
+    this.startDebugEmitter()
+    return true
   }
 
   /**
-   * Trennt die Verbindung zum BLS Sensor
+   * Events einer Quelle an die Auswahl koppeln
    */
-  async disconnect(): Promise<void> {
-    return new Promise((resolve) => {
-      if (!this.port) {
-        this.isConnected = false
-        resolve()
-        return
+  private attachSource(source: SensorSource): void {
+    source.on('gps', (data: GPSData) => {
+      if (source.id !== this.activeGpsId) {
+        this.selectSources()
       }
+      if (source.id === this.activeGpsId) {
+        const fused: GPSData = { ...data, ...this.filter.updateGps(source.clockNow(), data) }
+        this.gpsCallbacks.forEach(cb => cb(fused))
+      }
+    })
 
-      // Debug-Emitter stoppen
-      this.stopDebugEmitter()
-
-      // Entferne alle Listener um Memory Leaks zu vermeiden
-      if (this.parser) {
-        this.parser.removeAllListeners()
-        this.parser = null
+    source.on('baro', (data: BaroData, fromBarometer: boolean, varioMeasured: boolean) => {
+      if (fromBarometer && !this.activeBaroId) {
+        this.selectSources()
       }
-      this.port.removeAllListeners()
 
-      if (this.port.isOpen) {
-        this.port.close((err) => {
-          if (err) {
-            console.error('Fehler beim Schließen des Ports:', err.message)
-          }
-          this.isConnected = false
-          this.port = null
-          this.resetSmoothing()
-          this.emit('disconnected')
-          console.log('Port geschlossen')
-          resolve()
-        })
-      } else {
-        this.isConnected = false
-        this.port = null
-        this.resetSmoothing()
-        resolve()
+      let fused: BaroData | null = null
+      if (fromBarometer && source.id === this.activeBaroId) {
+        const baro = this.filter.updateBaro(source.clockNow(), data.pressureAltitude, varioMeasured ? data.variometer : null)
+        fused = { ...data, ...baro }
+      } else if (!fromBarometer && !this.activeBaroId && source.id === this.activeGpsId) {
+        // Ohne Barometer: Höhe und Steigrate aus der GPS-Höhe (schon im Filter)
+        const baro = this.filter.getBaro()
+        if (baro) fused = { ...data, ...baro }
+      }
+      if (fused) {
+        this.baroCallbacks.forEach(cb => cb(fused!))
       }
     })
-  }
 
-  /**
-   * Setzt alle Glättungswerte zurück (bei Disconnect)
-   */
-  private resetSmoothing(): void {
-    this.smoothedVariometer = 0
-    this.smoothedSpeed = 0
-    this.lastAltitude = 0
-    this.lastAltitudeTime = 0
-    this.lastValidSpeed = 0
-    this.lastValidHeading = 0
-    this.hasValidHeading = false
-  }
+    source.on('connected', () => this.emit('connected'))
 
-  /**
-   * Startet periodisches Senden der Debug-Statistiken
-   */
-  private startDebugEmitter(): void {
-    this.stopDebugEmitter()
-    this.debugInterval = setInterval(() => {
-      this.emit('debug', this.getDebugStats())
-    }, 500)
-  }
+    // Fehler einer Quelle nur melden, wenn keine andere mehr läuft (sonst übernimmt die Umschaltung)
+    source.on('error', (error: any) => {
+      const othersConnected = [...this.sources.values()].some(s => s !== source && s.getStatus().connected)
+      if (othersConnected) {
+        console.warn(`[Sensor] Fehler bei ${source.id}:`, error?.message)
+        return
+      }
+      this.emit('error', error)
+    })
 
-  private stopDebugEmitter(): void {
-    if (this.debugInterval) {
-      clearInterval(this.debugInterval)
-      this.debugInterval = null
-    }
+    source.on('disconnected', () => {
+      // Nur ausgefallene Quellen entfernen - beim gewollten Trennen ist sie schon weg
+      if (this.sources.get(source.id) !== source) return
+      console.log(`[Sensor] Quelle getrennt: ${source.id}`)
+      source.removeAllListeners()
+      this.sources.delete(source.id)
+      this.handleSourceRemoved()
+    })
   }
 
   /**
-   * Gibt aktuelle Debug-Statistiken zurück
+   * Nach dem Wegfall einer Quelle neu auswählen bzw. komplett trennen
    */
-  getDebugStats() {
-    const uptime = this.debugStats.connectedSince
-      ? Math.round((Date.now() - this.debugStats.connectedSince) / 1000)
-      : 0
-    return {
-      ...this.debugStats,
-      uptime,
-      qnh: this.lastQNH,
-      isConnected: this.isConnected,
-      rawLog: [...this.rawLog],  // Kopie der letzten NMEA Sätze
+  private handleSourceRemoved(): void {
+    if (this.sources.size === 0) {
+      this.stopDebugEmitter()
+      this.activeGpsId = null
+      this.activeGpsName = null
+      this.activeBaroId = null
+      this.filter.reset()
+      this.emit('disconnected')
+      return
     }
+    this.selectSources()
   }
 
   /**
-   * Cleanup - muss beim Beenden der App aufgerufen werden
+   * Wählt die aktive GPS- und Baro-Quelle.
+   * GPS: frischer Fix, dann Fix-Klasse, HDOP, Satelliten. Gewechselt wird sofort bei Ausfall
+   * oder schlechterer Fix-Klasse, wegen HDOP erst nach MIN_HOLD_MS (kein Hin- und Herspringen).
    */
-  async cleanup(): Promise<void> {
-    console.log('BluetoothManager cleanup...')
-    await this.disconnect()
-  }
-
-  /**
-   * Konfiguriert das BLS Gerät für optimale Übertragung
-   */
-  private configureDevice(): void {
-    if (!this.port?.isOpen) return
-
-    // Flytec/Brauniger spezifische Befehle für höhere Update-Rate
-    // PFLAC = Flarm/Flytec Konfiguration
-    // Setze NMEA Output Rate auf 5 Hz (200ms Intervall)
-    const commands = [
-      // Aktiviere nur benötigte NMEA Sätze mit höherer Rate
-      '$PFLAC,S,NMEAOUT,5*', // 5 Hz Update Rate
-      '$PFLAC,R,QNH*',       // QNH-Wert abfragen
-      '$PFLAC,R,BARO*',      // Barometer-Einstellung abfragen
-    ]
-
-    commands.forEach(cmd => {
-      const checksum = this.calculateChecksum(cmd.slice(1, -1))
-      const fullCmd = `${cmd.slice(0, -1)}${checksum}\r\n`
-      try {
-        this.port?.write(fullCmd)
-        console.log('Sent config:', fullCmd.trim())
-      } catch (err) {
-        // Ignoriere Fehler - nicht alle Geräte unterstützen diese Befehle
+  private selectSources(): void {
+    const now = Date.now()
+    const statuses = [...this.sources.values()].map(s => s.getStatus())
+    const candidates = statuses
+      .filter(s => s.connected && s.fixQuality > 0 && now - s.lastFixAt < FIX_TIMEOUT_MS)
+      .sort(compareSources)
+
+    const best = candidates[0] ?? null
+    const current = candidates.find(s => s.id === this.activeGpsId) ?? null
+
+    let reason: string | null = null
+    if (!current) {
+      if (best) {
+        reason = this.sources.has(this.activeGpsId ?? '') ? 'Kein GPS-Fix mehr' : 'Verbindung getrennt'
+      } else if (this.activeGpsId && !this.sources.has(this.activeGpsId)) {
+        reason = 'Verbindung getrennt'
+      }
+    } else if (best && best.id !== current.id) {
+      if (fixClass(best.fixQuality) > fixClass(current.fixQuality)) {
+        reason = 'Bessere Fix-Qualität'
+      } else if (current.hdop - best.hdop > HDOP_SWITCH_MARGIN && now - this.activeGpsSince > MIN_HOLD_MS) {
+        reason = `Bessere HDOP (${best.hdop.toFixed(1)} statt ${current.hdop.toFixed(1)})`
       }
-    })
-  }
-
-  /**
-   * Exponential Moving Average (EMA) Glättung
-   * @param current Aktueller geglätteter Wert
-   * @param newValue Neuer Messwert
-   * @param alpha Glättungsfaktor (0-1, niedriger = mehr Glättung)
-   */
-  private ema(current: number, newValue: number, alpha: number): number {
-    if (current === 0) return newValue // Erster Wert
-    return alpha * newValue + (1 - alpha) * current
-  }
-
-  /**
-   * Berechnet NMEA Checksumme
-   */
-  private calculateChecksum(data: string): string {
-    let checksum = 0
-    for (let i = 0; i < data.length; i++) {
-      checksum ^= data.charCodeAt(i)
     }
-    return checksum.toString(16).toUpperCase().padStart(2, '0')
-  }
 
-  /**
-   * Registriert einen Callback für GPS Daten
-   */
-  onGPSData(callback: (data: GPSData) => void): void {
-    this.gpsCallbacks.push(callback)
-  }
+    if (reason !== null) {
+      const from = this.activeGpsName
+      this.activeGpsId = best?.id ?? null
+      this.activeGpsName = best?.name ?? null
+      this.activeGpsSince = now
+      if (from) {
+        console.log(`[Sensor] GPS-Quelle: ${from} -> ${best?.name ?? 'keine'} (${reason})`)
+        this.emit('failover', { from, to: best?.name ?? null, reason } as SensorFailover)
+      }
+    }
 
-  /**
-   * Registriert einen Callback für Barometer Daten
-   */
-  onBaroData(callback: (data: BaroData) => void): void {
-    this.baroCallbacks.push(callback)
+    // Baro: echte Baro-Höhe bevorzugen, zuerst von der aktiven GPS-Quelle
+    const baroCandidates = statuses
+      .filter(s => s.connected && s.lastBaroAt > 0 && now - s.lastBaroAt < BARO_TIMEOUT_MS)
+      .sort((a, b) => (a.id === this.activeGpsId ? -1 : b.id === this.activeGpsId ? 1 : compareSources(a, b)))
+    const baroId = baroCandidates[0]?.id ?? null
+    if (baroId !== this.activeBaroId) {
+      // Andere Baro-Quelle = anderer Versatz zur GPS-Höhe, neu einlernen
+      this.filter.resetBaro()
+      this.activeBaroId = baroId
+    }
   }
 
   /**
-   * Verarbeitet eingehende NMEA Daten
+   * Trennt alle Quellen
    */
-  private processNMEAData(data: string): void {
-    this.buffer += data
-
-    // NMEA Sätze enden mit \r\n
-    const lines = this.buffer.split('\r\n')
-    this.buffer = lines.pop() || '' // Behalte unvollständige Zeile im Buffer
-
-    for (const line of lines) {
-      if (line.startsWith('$')) {
-        this.parseNMEASentence(line)
-      }
+  async disconnect(): Promise<void> {
+    const sources = [...this.sources.values()]
+    if (sources.length === 0) return
+    this.sources.clear()
+    this.stopDebugEmitter()
+    this.activeGpsId = null
+    this.activeGpsName = null
+    this.activeBaroId = null
+    this.filter.reset()
+
+    for (const source of sources) {
+      source.removeAllListeners()
+      await source.disconnect()
     }
+    this.emit('disconnected')
   }
 
   /**
-   * Parst einen einzelnen NMEA Satz
+   * Trennt eine einzelne Quelle - die übrigen laufen weiter
    */
-  private parseNMEASentence(sentence: string): void {
-    // Raw-Log: Jeden empfangenen Satz speichern (auch vor Checksum-Check)
-    const ts = new Date().toISOString().substring(11, 23) // HH:mm:ss.SSS
-    this.rawLog.push(`[${ts}] ${sentence}`)
-    if (this.rawLog.length > this.RAW_LOG_MAX) {
-      this.rawLog.splice(0, this.rawLog.length - this.RAW_LOG_MAX)
-    }
-
-    // Prüfe Checksumme
-    if (!this.verifyChecksum(sentence)) {
-      this.debugStats.checksumErrors++
-      return
-    }
-
-    const parts = sentence.split(',')
-    const type = parts[0]
-    this.debugStats.lastSentence = type
-
-    switch (type) {
-      case '$GPGGA':
-      case '$GNGGA':
-        this.debugStats.ggaCount++
-        // GGA-Timing für Intervall-Berechnung
-        const now = Date.now()
-        if (this.debugStats.lastGGATime > 0) {
-          const interval = now - this.debugStats.lastGGATime
-          // EMA für Durchschnitts-Intervall
-          this.debugStats.avgGGAInterval = this.debugStats.avgGGAInterval === 0
-            ? interval
-            : this.debugStats.avgGGAInterval * 0.8 + interval * 0.2
-        }
-        this.debugStats.lastGGATime = now
-        this.parseGGA(parts)
-        break
-      case '$GPRMC':
-      case '$GNRMC':
-        this.debugStats.rmcCount++
-        this.parseRMC(parts)
-        break
-      case '$PGRMZ': // Garmin Altitude (von manchen Geräten)
-        this.parsePGRMZ(parts)
-        break
-      case '$PFLAU': // Flarm/Flytec spezifisch
-        this.parsePFLAU(parts)
-        break
-      case '$PFLAA': // Flarm Traffic
-        break
-      case '$PFLAC': // Flytec/Brauniger Konfiguration (enthält QNH)
-        this.parsePFLAC(parts)
-        break
-      case '$LXWPx': // LX Navigation Variometer
-        this.parseLXWP(parts)
-        break
-      default:
-        // LXWP0, LXWP1 etc. separat prüfen
-        if (type.startsWith('$LXWP')) {
-          this.parseLXWP(parts)
-        }
-        break
-    }
+  async disconnectSource(deviceId: string): Promise<void> {
+    const source = this.sources.get(deviceId)
+    if (!source) return
+    this.sources.delete(deviceId)
+    source.removeAllListeners()
+    await source.disconnect()
+    this.handleSourceRemoved()
   }
 
   /**
-   * Parst GGA Satz (GPS Fix, Altitude)
+   * Wiedergabegeschwindigkeit der virtuellen Geräte (1 = Echtzeit)
    */
-  private parseGGA(parts: string[]): void {
-    if (parts.length < 15) return
-
-    const time = this.parseNMEATime(parts[1])
-    const lat = this.parseNMEACoord(parts[2], parts[3])
-    const lon = this.parseNMEACoord(parts[4], parts[5])
-    const quality = parseInt(parts[6]) || 0
-    const satellites = parseInt(parts[7]) || 0
-    const hdop = parseFloat(parts[8]) || 99
-    const altitude = parseFloat(parts[9]) || 0
-
-    if (quality > 0 && lat !== null && lon !== null) {
-      // WICHTIG: GGA enthält KEIN Speed/Heading!
-      // Verwende den letzten gültigen Wert aus RMC, sonst springt der Marker nach Norden (0°)
-      const gpsData: GPSData = {
-        latitude: lat,
-        longitude: lon,
-        altitude: altitude,
-        speed: this.lastValidSpeed,
-        heading: this.lastValidHeading,
-        timestamp: time,
-        satellites: satellites,
-        hdop: hdop
-      }
-
-      // Berechne Variometer aus Höhenänderung
-      const now = Date.now()
-      if (this.lastAltitudeTime > 0) {
-        const dt = (now - this.lastAltitudeTime) / 1000 // Sekunden
-        if (dt > 0 && dt < 5) {
-          const rawVariometer = (altitude - this.lastAltitude) / dt
-
-          // Glättung anwenden - stabilisiert die Anzeige
-          this.smoothedVariometer = this.ema(this.smoothedVariometer, rawVariometer, this.VARIO_SMOOTHING)
-
-          const baroData: BaroData = {
-            pressureAltitude: altitude,
-            qnh: this.lastQNH,
-            variometer: this.smoothedVariometer,
-            timestamp: time
-          }
-
-          this.baroCallbacks.forEach(cb => cb(baroData))
-        }
-      }
-      this.lastAltitude = altitude
-      this.lastAltitudeTime = now
-
-      this.gpsCallbacks.forEach(cb => cb(gpsData))
-    }
+  setReplaySpeed(speed: number): void {
+    this.replaySpeed = Math.max(0.1, speed)
+    this.sources.forEach(source => source.setReplaySpeed(this.replaySpeed))
   }
 
   /**
-   * Parst RMC Satz (Speed, Heading)
+   * Aufgezeichnete NMEA-Logs
    */
-  private parseRMC(parts: string[]): void {
-    if (parts.length < 12) return
-
-    // Status prüfen: A = Active (gültig), V = Void (ungültig)
-    const status = parts[2]
-    if (status !== 'A') return
-
-    const rawSpeed = parseFloat(parts[7]) || 0 // Knoten
-    const rawSpeedKmh = rawSpeed * 1.852
-
-    // Speed glätten (für Anzeige in StatusBar)
-    this.smoothedSpeed = this.ema(this.smoothedSpeed, rawSpeedKmh, this.SPEED_SMOOTHING)
-    this.lastValidSpeed = this.smoothedSpeed
-
-    // Heading: RAW-Wert direkt übernehmen (KEINE EMA-Glättung!)
-    // Die Glättung erfolgt im MapView über "Render In The Past" (60fps Interpolation).
-    // EMA auf Heading verursacht Verzögerung und doppelte Glättung.
-    const headingField = parts[8]?.trim()
-    const rawHeading = parseFloat(headingField)
-    const hasHeadingData = headingField !== '' && !isNaN(rawHeading)
-
-    if (hasHeadingData && rawSpeedKmh > 1.0) {
-      this.lastValidHeading = rawHeading
-      this.hasValidHeading = true
-    }
-    // Bei leerem Heading oder Stillstand: lastValidHeading bleibt unverändert
-
-    // RMC aktualisiert NUR Speed/Heading - Position kommt ausschließlich aus GGA
-    // Verhindert doppelte GPS-Callbacks (GGA + RMC) die den Marker zum Springen bringen
+  listLogs(): NmeaLogInfo[] {
+    return this.logDir ? listNmeaLogs(this.logDir) : []
   }
 
   /**
-   * Parst PGRMZ Satz (Altitude in feet)
+   * Log löschen (nur Dateien im Log-Ordner, keine gerade aufgezeichneten)
    */
-  private parsePGRMZ(parts: string[]): void {
-    if (parts.length < 3) return
-    this.debugStats.baroCount++
-
-    const altitudeFeet = parseFloat(parts[1]) || 0
-    const altitudeMeters = altitudeFeet * 0.3048
-
-    const baroData: BaroData = {
-      pressureAltitude: altitudeMeters,
-      qnh: this.lastQNH,
-      variometer: 0,
-      timestamp: new Date()
+  deleteLog(fileName: string): boolean {
+    if (!this.logDir || !fileName.endsWith(NMEA_LOG_EXTENSION) || path.basename(fileName) !== fileName) return false
+    const filePath = path.join(this.logDir, fileName)
+    for (const source of this.sources.values()) {
+      if (filePath === source.getRecordingPath()) return false
+    }
+    try {
+      fs.rmSync(filePath, { force: true })
+      return true
+    } catch (err) {
+      console.error('[NmeaLog] Löschen fehlgeschlagen:', err)
+      return false
     }
-
-    this.baroCallbacks.forEach(cb => cb(baroData))
   }
 
   /**
-   * Parst PFLAU Satz (Flarm Status)
+   * Startet periodisches Senden der Debug-Statistiken.
+   * Prüft dabei auch die Quellen-Auswahl - ein Ausfall ohne weitere Sätze wird so erkannt.
    */
-  private parsePFLAU(parts: string[]): void {
-    // PFLAU enthält Flarm Statusinformationen
-    // Kann für zukünftige Erweiterungen genutzt werden
+  private startDebugEmitter(): void {
+    if (this.debugInterval) return
+    this.debugInterval = setInterval(() => {
+      this.selectSources()
+      this.emit('debug', this.getDebugStats())
+    }, 500)
   }
 
-  /**
-   * Parst PFLAC Sätze (Flytec/Brauniger Konfiguration)
-   * Enthält unter anderem QNH: $PFLAC,A,BARO,1013.25*XX
-   * oder: $PFLAC,S,QNH,1013.25*XX
-   */
-  private parsePFLAC(parts: string[]): void {
-    if (parts.length < 4) return
-
-    const key = parts[2]?.toUpperCase()
-    const value = parts[3]
-
-    // QNH kann in verschiedenen Feldern kommen
-    if (key === 'QNH' || key === 'BARO' || key === 'QNE') {
-      // Wert kann Checksumme enthalten: "1013.25*4A" → nur Zahl extrahieren
-      const numStr = value?.split('*')[0]
-      const qnh = parseFloat(numStr)
-      if (!isNaN(qnh) && qnh > 900 && qnh < 1100) {
-        this.lastQNH = qnh
-        console.log(`[BLS] QNH empfangen: ${qnh} hPa`)
-      }
+  private stopDebugEmitter(): void {
+    if (this.debugInterval) {
+      clearInterval(this.debugInterval)
+      this.debugInterval = null
     }
   }
 
   /**
-   * Parst LX Navigation Variometer Sätze
+   * Gibt aktuelle Debug-Statistiken zurück (Werte der aktiven GPS-Quelle plus Quellenliste)
    */
-  private parseLXWP(parts: string[]): void {
-    // LX Variometer Protokoll
-    if (parts[0] === '$LXWP0' && parts.length >= 6) {
-      const rawVariometer = parseFloat(parts[5]) || 0
-
-      // Glättung anwenden
-      this.smoothedVariometer = this.ema(this.smoothedVariometer, rawVariometer, this.VARIO_SMOOTHING)
-
-      const baroData: BaroData = {
-        pressureAltitude: this.lastAltitude,
-        qnh: this.lastQNH,
-        variometer: this.smoothedVariometer,
-        timestamp: new Date()
-      }
-
-      this.baroCallbacks.forEach(cb => cb(baroData))
+  getDebugStats() {
+    const primary = (this.activeGpsId && this.sources.get(this.activeGpsId))
+      || this.sources.values().next().value
+    const sourceStats = primary ? primary.getDebugStats() : null
+    return {
+      ...sourceStats,
+      isConnected: this.getConnectionStatus(),
+      sources: [...this.sources.values()].map(s => s.getStatus()),
+      activeGpsSource: this.activeGpsId,
+      activeBaroSource: this.activeBaroId ?? this.activeGpsId,
     }
   }
 
   /**
-   * Konvertiert NMEA Zeit zu Date
+   * Cleanup - muss beim Beenden der App aufgerufen werden
    */
-  private parseNMEATime(timeStr: string): Date {
-    if (!timeStr || timeStr.length < 6) return new Date()
-
-    const hours = parseInt(timeStr.substring(0, 2))
-    const minutes = parseInt(timeStr.substring(2, 4))
-    const seconds = parseFloat(timeStr.substring(4))
-
-    const now = new Date()
-    now.setUTCHours(hours, minutes, Math.floor(seconds), (seconds % 1) * 1000)
-    return now
+  async cleanup(): Promise<void> {
+    console.log('BluetoothManager cleanup...')
+    await this.disconnect()
   }
 
   /**
-   * Konvertiert NMEA Koordinaten zu Dezimalgrad
+   * Registriert einen Callback für GPS Daten
    */
-  private parseNMEACoord(coord: string, direction: string): number | null {
-    if (!coord || !direction) return null
-
-    // NMEA Format: DDDMM.MMMM oder DDMM.MMMM
-    const isLongitude = coord.length > 9
-    const degreeDigits = isLongitude ? 3 : 2
-
-    const degrees = parseInt(coord.substring(0, degreeDigits))
-    const minutes = parseFloat(coord.substring(degreeDigits))
-
-    let decimal = degrees + minutes / 60
-
-    if (direction === 'S' || direction === 'W') {
-      decimal = -decimal
-    }
-
-    return decimal
+  onGPSData(callback: (data: GPSData) => void): void {
+    this.gpsCallbacks.push(callback)
   }
 
   /**
-   * Verifiziert die NMEA Checksumme
+   * Registriert einen Callback für Barometer Daten
    */
-  private verifyChecksum(sentence: string): boolean {
-    const asteriskIndex = sentence.indexOf('*')
-    if (asteriskIndex === -1) return false
-
-    const data = sentence.substring(1, asteriskIndex) // Ohne $ und Checksumme
-    const checksum = parseInt(sentence.substring(asteriskIndex + 1), 16)
-
-    let calculated = 0
-    for (let i = 0; i < data.length; i++) {
-      calculated ^= data.charCodeAt(i)
-    }
-
-    return calculated === checksum
+  onBaroData(callback: (data: BaroData) => void): void {
+    this.baroCallbacks.push(callback)
   }
 
   /**
-   * Gibt den Verbindungsstatus zurück
+   * Gibt den Verbindungsstatus zurück (mindestens eine Quelle verbunden)
    */
   getConnectionStatus(): boolean {
-    return this.isConnected
+    for (const source of this.sources.values()) {
+      if (source.getStatus().connected) return true
+    }
+    return false
   }
 }
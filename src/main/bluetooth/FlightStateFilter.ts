@@ -0,0 +1,299 @@
+/**
+ * Kalman-Filter für GPS (5 Hz) und Barometer (bis 8 Hz)
+ *
+ * Horizontal: Position und Geschwindigkeit (Ost/Nord) in einer lokalen Ebene, gemessen
+ * über GGA-Position und RMC-Geschwindigkeit/Kurs.
+ * Vertikal: Höhe, Steigrate und der Versatz GPS-Höhe minus Baro-Höhe. Die Baro-Höhe
+ * liefert den kurzfristigen Verlauf, die GPS-Höhe hält den Versatz nach.
+ *
+ * Modell: konstante Geschwindigkeit mit weißem Beschleunigungsrauschen. Anders als die
+ * frühere EMA-Glättung folgt die Schätzung einem Abfangen sofort (kein fester Nachlauf),
+ * und die Kovarianz liefert die Unsicherheit jeder Größe.
+ */
+
+import type { GPSData } from './SensorSource'
+
+// Prozessrauschen (spektrale Dichte der Beschleunigung)
+const Q_HORIZONTAL = 0.1     // m²/s³ - Ballon ändert die Fahrt nur über Windscherung
+const Q_VERTICAL = 0.5       // m²/s³ - Brenner/Abkühlung, Abfangen vor dem Markerabwurf
+const Q_OFFSET = 0.02        // m²/s  - GPS-Höhenfehler wandert langsam
+
+// Messrauschen (1σ)
+const GPS_UERE = 2.5         // m pro HDOP-Einheit
+const GPS_VERTICAL_FACTOR = 1.8
+const GPS_VELOCITY_SIGMA = 0.3   // m/s pro Achse (Doppler)
+const BARO_SIGMA = 0.5       // m
+const VARIO_SIGMA = 0.3      // m/s (gemessenes Vario, z.B. LXWP0)
+const UNKNOWN_OFFSET_SIGMA = 100  // m - GPS/Baro-Versatz vor der ersten GPS-Höhe (QNH unbekannt)
+
+const MAX_GAP_S = 5          // längere Lücken -> Filter neu starten
+const MAX_BACKSTEP_S = 0.5   // leicht verspätete Messung einer anderen Quelle: ohne Prädiktion
+const GATE_SIGMA = 5         // Ausreißer jenseits 5σ verwerfen ...
+const MAX_REJECTS = 5        // ... außer sie wiederholen sich (dann war es ein echter Sprung)
+
+const EARTH_RADIUS = 6371000
+
+export interface FusedGps {
+  latitude: number
+  longitude: number
+  altitude: number         // GPS-bezogen (MSL), Kurzzeitverlauf aus der Baro
+  speed: number            // km/h
+  heading: number
+  positionSigma: number    // m (horizontal, DRMS)
+  speedSigma: number       // km/h
+  altitudeSigma: number    // m
+}
+
+export interface FusedBaro {
+  pressureAltitude: number
+  variometer: number       // m/s
+  altitudeSigma: number    // m
+  variometerSigma: number  // m/s
+}
+
+/**
+ * Lineares Kalman-Filter mit skalaren Messungen (keine Matrix-Inversion nötig)
+ */
+class LinearKalman {
+  x: number[]
+  P: number[][]
+  private rejects = 0
+
+  constructor(x: number[], variances: number[]) {
+    this.x = [...x]
+    this.P = variances.map((v, i) => variances.map((_, j) => (i === j ? v : 0)))
+  }
+
+  predict(F: number[][], Q: number[][]): void {
+    const n = this.x.length
+    this.x = F.map(row => row.reduce((s, f, j) => s + f * this.x[j], 0))
+    const FP = F.map(row => this.P[0].map((_, j) => row.reduce((s, f, k) => s + f * this.P[k][j], 0)))
+    this.P = FP.map((row, i) => Array.from({ length: n }, (_, j) =>
+      row.reduce((s, v, k) => s + v * F[j][k], 0) + Q[i][j]))
+  }
+
+  /** Skalare Messung z = H·x + v, v ~ N(0, r). false = als Ausreißer verworfen */
+  update(H: number[], z: number, r: number): boolean {
+    const n = this.x.length
+    const PHt = this.P.map(row => row.reduce((s, p, j) => s + p * H[j], 0))
+    const s = H.reduce((acc, h, i) => acc + h * PHt[i], 0) + r
+    const y = z - H.reduce((acc, h, i) => acc + h * this.x[i], 0)
+
+    if (y * y > GATE_SIGMA * GATE_SIGMA * s && ++this.rejects <= MAX_REJECTS) return false
+    this.rejects = 0
+
+    const K = PHt.map(v => v / s)
+    this.x = this.x.map((xi, i) => xi + K[i] * y)
+    this.P = this.P.map((row, i) => row.map((p, j) => p - K[i] * PHt[j]))
+    // Symmetrie erhalten (Rundungsfehler)
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const m = (this.P[i][j] + this.P[j][i]) / 2
+        this.P[i][j] = m
+        this.P[j][i] = m
+      }
+    }
+    return true
+  }
+}
+
+/** Prozessrauschen für Position/Geschwindigkeit einer Achse (weiße Beschleunigung) */
+function constantVelocityNoise(dt: number, q: number) {
+  return { pp: q * dt * dt * dt / 3, pv: q * dt * dt / 2, vv: q * dt }
+}
+
+/**
+ * Schätzer für Position, Geschwindigkeit, Höhe und Steigrate aus GPS und Baro
+ */
+export class FlightStateFilter {
+  // Horizontal: [ost, nord, v_ost, v_nord] in m bzw. m/s um den Ursprung
+  private horizontal: LinearKalman | null = null
+  private origin = { lat: 0, lon: 0, cosLat: 1 }
+  // Vertikal: [Höhe, Steigrate, GPS-Versatz]; ohne Baro ist die Höhe GPS-bezogen und der Versatz 0
+  private vertical: LinearKalman | null = null
+  private baroMode = false
+  private hasGpsAltitude = false
+  private lastTime = 0
+  private lastHeading = 0
+
+  /**
+   * Alles verwerfen (Trennen, Zeitsprung der Wiedergabe)
+   */
+  reset(): void {
+    this.horizontal = null
+    this.vertical = null
+    this.baroMode = false
+    this.hasGpsAltitude = false
+    this.lastTime = 0
+  }
+
+  /**
+   * Baro-Quelle weggefallen oder gewechselt: Höhe wieder GPS-bezogen führen
+   */
+  resetBaro(): void {
+    if (!this.vertical || !this.baroMode) return
+    const [h, v, offset] = this.vertical.x
+    const P = this.vertical.P
+    this.vertical = new LinearKalman([h + offset, v, 0], [P[0][0] + P[2][2] + 2 * P[0][2], P[1][1], 0])
+    this.baroMode = false
+  }
+
+  /**
+   * GPS-Fix (GGA mit Speed/Heading des letzten RMC)
+   */
+  updateGps(timeMs: number, data: GPSData): FusedGps {
+    const hdop = Math.max(0.8, Math.min(data.hdop || 99, 20))
+    const posSigma = hdop * GPS_UERE
+    const speedMs = data.speed / 3.6
+    const headingRad = data.heading * Math.PI / 180
+    const ve = speedMs * Math.sin(headingRad)
+    const vn = speedMs * Math.cos(headingRad)
+
+    if (!this.advance(timeMs) || !this.horizontal) {
+      this.origin = { lat: data.latitude, lon: data.longitude, cosLat: Math.cos(data.latitude * Math.PI / 180) }
+      this.horizontal = new LinearKalman([0, 0, ve, vn],
+        [posSigma ** 2, posSigma ** 2, GPS_VELOCITY_SIGMA ** 2, GPS_VELOCITY_SIGMA ** 2])
+    } else {
+      const { e, n } = this.toLocal(data.latitude, data.longitude)
+      this.horizontal.update([1, 0, 0, 0], e, posSigma ** 2)
+      this.horizontal.update([0, 1, 0, 0], n, posSigma ** 2)
+      this.horizontal.update([0, 0, 1, 0], ve, GPS_VELOCITY_SIGMA ** 2)
+      this.horizontal.update([0, 0, 0, 1], vn, GPS_VELOCITY_SIGMA ** 2)
+    }
+
+    const altSigma = posSigma * GPS_VERTICAL_FACTOR
+    if (!this.vertical) {
+      this.vertical = new LinearKalman([data.altitude, 0, 0], [altSigma ** 2, 1, 0])
+    } else {
+      // GPS misst Höhe + Versatz (im Baro-Modus), sonst direkt die Höhe
+      this.vertical.update([1, 0, this.baroMode ? 1 : 0], data.altitude, altSigma ** 2)
+    }
+    this.hasGpsAltitude = true
+
+    return this.gpsOutput(data.heading)
+  }
+
+  /**
+   * Echte Baro-Höhe (PGRMZ/LXWP0), optional mit gemessenem Vario
+   */
+  updateBaro(timeMs: number, altitude: number, variometer: number | null): FusedBaro {
+    const continued = this.advance(timeMs)
+
+    if (!continued || !this.vertical) {
+      this.vertical = new LinearKalman([altitude, variometer ?? 0, 0], [BARO_SIGMA ** 2, 1, 0])
+      this.baroMode = false
+    }
+
+    if (!this.baroMode) {
+      // Einstieg in den Baro-Modus: Versatz aus der bisherigen GPS-Höhe (ohne GPS noch offen)
+      const [h, v] = this.vertical.x
+      const offset = this.hasGpsAltitude ? h - altitude : 0
+      const offsetVar = this.hasGpsAltitude ? this.vertical.P[0][0] + BARO_SIGMA ** 2 : UNKNOWN_OFFSET_SIGMA ** 2
+      this.vertical = new LinearKalman([altitude, v, offset], [BARO_SIGMA ** 2, this.vertical.P[1][1], offsetVar])
+      this.baroMode = true
+    } else {
+      this.vertical.update([1, 0, 0], altitude, BARO_SIGMA ** 2)
+    }
+
+    if (variometer !== null) {
+      this.vertical.update([0, 1, 0], variometer, VARIO_SIGMA ** 2)
+    }
+
+    return this.baroOutput()
+  }
+
+  /**
+   * Aktuelle Höhen-Schätzung ohne neue Baro-Messung (Höhe aus GPS)
+   */
+  getBaro(): FusedBaro | null {
+    return this.vertical ? this.baroOutput() : null
+  }
+
+  /**
+   * Prädiktion bis zum Messzeitpunkt. false = Filter muss neu starten
+   */
+  private advance(timeMs: number): boolean {
+    if (this.lastTime === 0) {
+      this.lastTime = timeMs
+      return false
+    }
+
+    const dt = (timeMs - this.lastTime) / 1000
+    if (dt > MAX_GAP_S || dt < -MAX_BACKSTEP_S) {
+      this.reset()
+      this.lastTime = timeMs
+      return false
+    }
+    if (dt <= 0) return true
+
+    this.lastTime = timeMs
+    if (this.horizontal) {
+      const q = constantVelocityNoise(dt, Q_HORIZONTAL)
+      this.horizontal.predict(
+        [[1, 0, dt, 0], [0, 1, 0, dt], [0, 0, 1, 0], [0, 0, 0, 1]],
+        [[q.pp, 0, q.pv, 0], [0, q.pp, 0, q.pv], [q.pv, 0, q.vv, 0], [0, q.pv, 0, q.vv]]
+      )
+    }
+    if (this.vertical) {
+      const q = constantVelocityNoise(dt, Q_VERTICAL)
+      const qOffset = this.baroMode ? Q_OFFSET * dt : 0
+      this.vertical.predict(
+        [[1, dt, 0], [0, 1, 0], [0, 0, 1]],
+        [[q.pp, q.pv, 0], [q.pv, q.vv, 0], [0, 0, qOffset]]
+      )
+    }
+    return true
+  }
+
+  private toLocal(lat: number, lon: number): { e: number; n: number } {
+    return {
+      e: (lon - this.origin.lon) * Math.PI / 180 * EARTH_RADIUS * this.origin.cosLat,
+      n: (lat - this.origin.lat) * Math.PI / 180 * EARTH_RADIUS
+    }
+  }
+
+  private gpsOutput(fallbackHeading: number): FusedGps {
+    const [e, n, ve, vn] = this.horizontal!.x
+    const P = this.horizontal!.P
+    const speedMs = Math.sqrt(ve * ve + vn * vn)
+
+    // Kurs nur bei Fahrt, im Stand den letzten behalten
+    if (speedMs * 3.6 > 1) {
+      this.lastHeading = (Math.atan2(ve, vn) * 180 / Math.PI + 360) % 360
+    } else if (this.lastHeading === 0) {
+      this.lastHeading = fallbackHeading
+    }
+
+    // Unsicherheit der Geschwindigkeit in Fahrtrichtung
+    const speedVar = speedMs > 0.1
+      ? (ve * ve * P[2][2] + vn * vn * P[3][3] + 2 * ve * vn * P[2][3]) / (speedMs * speedMs)
+      : (P[2][2] + P[3][3]) / 2
+
+    const [h, , offset] = this.vertical!.x
+    const V = this.vertical!.P
+    const altitude = this.baroMode ? h + offset : h
+    const altVar = this.baroMode ? V[0][0] + V[2][2] + 2 * V[0][2] : V[0][0]
+
+    return {
+      latitude: this.origin.lat + n / EARTH_RADIUS * 180 / Math.PI,
+      longitude: this.origin.lon + e / (EARTH_RADIUS * this.origin.cosLat) * 180 / Math.PI,
+      altitude,
+      speed: speedMs * 3.6,
+      heading: this.lastHeading,
+      positionSigma: Math.sqrt(P[0][0] + P[1][1]),
+      speedSigma: Math.sqrt(Math.max(0, speedVar)) * 3.6,
+      altitudeSigma: Math.sqrt(Math.max(0, altVar))
+    }
+  }
+
+  private baroOutput(): FusedBaro {
+    const [h, v] = this.vertical!.x
+    const P = this.vertical!.P
+    return {
+      pressureAltitude: h,
+      variometer: v,
+      altitudeSigma: Math.sqrt(Math.max(0, P[0][0])),
+      variometerSigma: Math.sqrt(Math.max(0, P[1][1]))
+    }
+  }
+}
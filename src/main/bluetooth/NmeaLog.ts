@@ -0,0 +1,294 @@
+import * as path from 'path'
+import * as fs from 'fs'
+
+/**
+ * NMEA-Logs für den BLS Sensor
+ *
+ * Aufzeichnung: Jede Verbindung schreibt den rohen NMEA-Strom mit Empfangszeit in
+ * <userData>/nmea-logs/<Datum>_<Uhrzeit>_<Port>.nmea, eine Zeile pro Satz:
+ *   2025-04-05T06:12:03.214Z<TAB>$GPGGA,...*5C
+ *
+ * Aufbewahrung: Beim Start einer Aufzeichnung werden Logs gelöscht, die älter als
+ * MAX_LOG_AGE_DAYS sind oder (älteste zuerst) über MAX_LOG_TOTAL_BYTES hinausgehen.
+ *
+ * Wiedergabe: Ein Log (oder eine reine NMEA-Datei anderer Logger) wird mit den
+ * aufgezeichneten Abständen - optional beschleunigt - erneut eingespeist.
+ */
+
+export const NMEA_LOG_EXTENSION = '.nmea'
+
+// Abstand zwischen Sätzen wenn eine Datei keine Empfangszeiten enthält (5 Hz wie der BLS)
+const DEFAULT_SENTENCE_INTERVAL_MS = 200
+// Längere Pausen im Log (z.B. Verbindungsabbruch) bei der Wiedergabe kürzen
+const MAX_REPLAY_GAP_MS = 5000
+// Aufbewahrung (~1 MB pro Stunde bei 5 Hz)
+const MAX_LOG_AGE_DAYS = 30
+const MAX_LOG_TOTAL_BYTES = 500 * 1024 * 1024
+
+// Laufende Aufzeichnungen aller Quellen - werden beim Aufräumen nie gelöscht
+const activeLogPaths = new Set<string>()
+
+export interface NmeaLogInfo {
+  fileName: string
+  path: string
+  size: number
+  date: string
+}
+
+export interface NmeaLogEntry {
+  time: number      // Empfangszeit (ms)
+  sentence: string
+}
+
+/**
+ * Schreibt den NMEA-Strom einer Verbindung auf die Platte
+ */
+export class NmeaLogRecorder {
+  private stream: fs.WriteStream | null = null
+  private currentPath: string | null = null
+  private sentenceCount = 0
+
+  constructor(private logDir: string) {}
+
+  start(portPath: string): string | null {
+    this.stop()
+    try {
+      fs.mkdirSync(this.logDir, { recursive: true })
+      pruneNmeaLogs(this.logDir)
+      const stamp = new Date().toISOString().replace(/[:T]/g, '-').substring(0, 19)
+      const safePort = portPath.replace(/[^A-Za-z0-9_-]/g, '_')
+      this.currentPath = path.join(this.logDir, `${stamp}_${safePort}${NMEA_LOG_EXTENSION}`)
+      this.stream = fs.createWriteStream(this.currentPath, { flags: 'a', encoding: 'utf-8' })
+      activeLogPaths.add(this.currentPath)
+      this.stream.on('error', (err) => {
+        console.error('[NmeaLog] Schreibfehler:', err.message)
+        this.stream = null
+      })
+      this.sentenceCount = 0
+      console.log('[NmeaLog] Aufzeichnung:', this.currentPath)
+      return this.currentPath
+    } catch (err) {
+      console.error('[NmeaLog] Aufzeichnung konnte nicht gestartet werden:', err)
+      this.stream = null
+      this.currentPath = null
+      return null
+    }
+  }
+
+  write(sentence: string, time: Date = new Date()): void {
+    if (!this.stream) return
+    this.stream.write(`${time.toISOString()}\t${sentence}\n`)
+    this.sentenceCount++
+  }
+
+  stop(): void {
+    if (!this.stream) return
+    this.stream.end()
+    this.stream = null
+    if (this.currentPath) activeLogPaths.delete(this.currentPath)
+
+    // Leere Logs (Verbindung ohne Daten) nicht liegen lassen
+    if (this.currentPath && this.sentenceCount === 0) {
+      fs.rm(this.currentPath, { force: true }, () => {})
+    }
+    this.currentPath = null
+  }
+
+  getCurrentPath(): string | null {
+    return this.currentPath
+  }
+}
+
+/**
+ * Alle aufgezeichneten Logs (neueste zuerst)
+ */
+export function listNmeaLogs(logDir: string): NmeaLogInfo[] {
+  if (!fs.existsSync(logDir)) return []
+  return fs.readdirSync(logDir)
+    .filter(f => f.endsWith(NMEA_LOG_EXTENSION))
+    .map(fileName => {
+      const filePath = path.join(logDir, fileName)
+      const stat = fs.statSync(filePath)
+      return { fileName, path: filePath, size: stat.size, date: stat.mtime.toISOString() }
+    })
+    .sort((a, b) => b.date.localeCompare(a.date))
+}
+
+/**
+ * Alte Logs löschen: alles älter als MAX_LOG_AGE_DAYS, danach die ältesten
+ * bis die Summe unter MAX_LOG_TOTAL_BYTES liegt. Gibt die Anzahl gelöschter Logs zurück.
+ */
+export function pruneNmeaLogs(
+  logDir: string,
+  maxAgeDays: number = MAX_LOG_AGE_DAYS,
+  maxTotalBytes: number = MAX_LOG_TOTAL_BYTES
+): number {
+  let removed = 0
+  try {
+    const cutoff = new Date(Date.now() - maxAgeDays * 24 * 3600 * 1000).toISOString()
+    let total = 0
+    // Neueste zuerst: ab dem ersten Log das zu alt ist oder nicht mehr ins Budget passt, alle älteren löschen
+    let full = false
+    for (const log of listNmeaLogs(logDir)) {
+      if (activeLogPaths.has(log.path)) {
+        total += log.size
+        continue
+      }
+      if (full || log.date < cutoff || total + log.size > maxTotalBytes) {
+        full = true
+        fs.rmSync(log.path, { force: true })
+        removed++
+        continue
+      }
+      total += log.size
+    }
+    if (removed > 0) console.log(`[NmeaLog] ${removed} alte Logs gelöscht`)
+  } catch (err) {
+    console.error('[NmeaLog] Aufräumen fehlgeschlagen:', err)
+  }
+  return removed
+}
+
+/**
+ * NMEA-Zeitfeld (hhmmss.sss) in ms seit Mitternacht
+ */
+function nmeaTimeOfDay(sentence: string): number | null {
+  const parts = sentence.split(',')
+  const type = parts[0].substring(3)
+  const field = type === 'GGA' || type === 'RMC' ? parts[1] : null
+  if (!field || field.length < 6) return null
+  const h = parseInt(field.substring(0, 2))
+  const m = parseInt(field.substring(2, 4))
+  const s = parseFloat(field.substring(4))
+  if (isNaN(h) || isNaN(m) || isNaN(s)) return null
+  return ((h * 60 + m) * 60 + s) * 1000
+}
+
+/**
+ * Log-Datei einlesen. Unterstützt eigene Logs (Zeitstempel + Tab) und reine NMEA-Dateien,
+ * bei denen die Zeit aus den GGA/RMC-Sätzen übernommen wird.
+ */
+export function readNmeaLog(filePath: string): NmeaLogEntry[] {
+  const lines = fs.readFileSync(filePath, 'utf-8').split(/\r?\n/)
+  const entries: NmeaLogEntry[] = []
+  let clock = 0
+  let lastTimeOfDay: number | null = null
+
+  for (const raw of lines) {
+    const line = raw.trim()
+    if (!line) continue
+
+    const tab = line.indexOf('\t')
+    if (tab > 0) {
+      const time = Date.parse(line.substring(0, tab))
+      const sentence = line.substring(tab + 1).trim()
+      if (!isNaN(time) && sentence.startsWith('$')) {
+        entries.push({ time, sentence })
+        continue
+      }
+    }
+
+    if (!line.startsWith('$')) continue
+
+    // Reine NMEA-Datei: Uhr an GPS-Zeit ausrichten, sonst festes Intervall
+    const timeOfDay = nmeaTimeOfDay(line)
+    if (timeOfDay !== null) {
+      if (lastTimeOfDay !== null) {
+        let delta = timeOfDay - lastTimeOfDay
+        if (delta < 0) delta += 24 * 3600 * 1000  // Mitternacht
+        clock += delta
+      }
+      lastTimeOfDay = timeOfDay
+      entries.push({ time: clock, sentence: line })
+    } else {
+      entries.push({ time: clock, sentence: line })
+      if (lastTimeOfDay === null) clock += DEFAULT_SENTENCE_INTERVAL_MS
+    }
+  }
+
+  return entries
+}
+
+/**
+ * Spielt ein Log im Takt der Aufzeichnung ab (speed = Zeitraffer-Faktor)
+ */
+export class NmeaLogPlayer {
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private index = 0
+  private virtualTime = 0   // aktuelle Log-Zeit (ms)
+  private lastTick = 0      // Echtzeit des letzten Takts
+  private speed = 1
+
+  constructor(
+    private entries: NmeaLogEntry[],
+    private onSentence: (sentence: string, logTime: number) => void,
+    private onEnd: () => void
+  ) {}
+
+  start(speed: number = 1): void {
+    this.speed = speed
+    this.index = 0
+    this.virtualTime = this.entries[0]?.time ?? 0
+    this.lastTick = Date.now()
+    this.schedule()
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+
+  setSpeed(speed: number): void {
+    this.advanceClock()
+    this.speed = Math.max(0.1, speed)
+    if (this.timer) {
+      this.stop()
+      this.schedule()
+    }
+  }
+
+  getSpeed(): number {
+    return this.speed
+  }
+
+  /**
+   * Aktuelle Log-Zeit (für Variometer und Zeitstempel während der Wiedergabe)
+   */
+  getLogTime(): number {
+    return this.virtualTime + (Date.now() - this.lastTick) * this.speed
+  }
+
+  getProgress(): { index: number; total: number; logTime: number } {
+    return { index: this.index, total: this.entries.length, logTime: this.virtualTime }
+  }
+
+  private advanceClock(): void {
+    const now = Date.now()
+    this.virtualTime += (now - this.lastTick) * this.speed
+    this.lastTick = now
+  }
+
+  private schedule(): void {
+    if (this.index >= this.entries.length) {
+      this.timer = null
+      this.onEnd()
+      return
+    }
+    const next = this.entries[this.index]
+    const wait = Math.min(MAX_REPLAY_GAP_MS, Math.max(0, next.time - this.virtualTime)) / this.speed
+
+    this.timer = setTimeout(() => {
+      this.lastTick = Date.now()
+      // Alle fälligen Sätze mit gleicher Zeit (GGA+RMC+PGRMZ eines Takts) gemeinsam senden
+      const tickTime = this.entries[this.index].time
+      this.virtualTime = tickTime
+      while (this.index < this.entries.length && this.entries[this.index].time <= tickTime) {
+        this.onSentence(this.entries[this.index].sentence, this.entries[this.index].time)
+        this.index++
+      }
+      this.schedule()
+    }, wait)
+  }
+}
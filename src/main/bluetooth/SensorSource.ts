@@ -0,0 +1,777 @@
+import { EventEmitter } from 'events'
+import * as path from 'path'
+import { NmeaLogRecorder, NmeaLogPlayer, readNmeaLog } from './NmeaLog'
+
+// SerialPort wird lazy geladen um Probleme mit native Addons zu vermeiden
+let SerialPortModule: typeof import('serialport') | null = null
+let ReadlineParserClass: any = null
+type SerialPortType = import('serialport').SerialPort
+
+export function getSerialPort(): typeof import('serialport').SerialPort | null {
+  if (!SerialPortModule) {
+    try {
+      SerialPortModule = require('serialport')
+      ReadlineParserClass = require('@serialport/parser-readline').ReadlineParser
+    } catch (err) {
+      console.warn('SerialPort konnte nicht geladen werden:', err)
+      return null
+    }
+  }
+  return SerialPortModule!.SerialPort
+}
+
+export interface GPSData {
+  latitude: number
+  longitude: number
+  altitude: number
+  speed: number
+  heading: number
+  timestamp: Date
+  satellites: number
+  hdop: number
+  // Unsicherheit (1σ) aus dem Kalman-Filter, nur in den Daten des BluetoothManager
+  positionSigma?: number
+  speedSigma?: number
+  altitudeSigma?: number
+}
+
+export interface BaroData {
+  pressureAltitude: number
+  qnh: number
+  variometer: number
+  timestamp: Date
+  altitudeSigma?: number
+  variometerSigma?: number
+}
+
+// Gerätetyp - wird aus den empfangenen Sätzen erkannt
+export type SensorKind = 'bls' | 'flarm' | 'lxnav' | 'ublox' | 'generic'
+
+export const SENSOR_KIND_NAMES: Record<SensorKind, string> = {
+  bls: 'Flytec BLS',
+  flarm: 'FLARM',
+  lxnav: 'LXNAV',
+  ublox: 'u-blox GPS',
+  generic: 'NMEA GPS'
+}
+
+export interface SensorSourceStatus {
+  id: string
+  name: string
+  kind: SensorKind
+  connected: boolean
+  virtual: boolean
+  fixQuality: number      // GGA Fix-Qualität (0 = kein Fix, 1 = GPS, 2 = DGPS, 4/5 = RTK)
+  satellites: number
+  hdop: number
+  lastFixAt: number       // Zeitpunkt des letzten gültigen Fix (ms, 0 = noch keiner)
+  lastBaroAt: number      // Zeitpunkt der letzten echten Baro-Höhe (PGRMZ/LXWP, 0 = keine)
+}
+
+/**
+ * Eine NMEA-Quelle (serieller Port oder abgespieltes Log) mit eigenem Parser-Zustand.
+ *
+ * Events:
+ * - 'gps' (GPSData)
+ * - 'baro' (BaroData, fromBarometer: boolean, varioMeasured: boolean)
+ *   fromBarometer false = aus GPS-Höhe abgeleitet, varioMeasured = Vario vom Gerät (LXWP0)
+ *
+ * Die Werte sind ungeglättet - GPS und Baro werden im BluetoothManager per Kalman-Filter fusioniert.
+ * - 'connected' / 'disconnected' / 'error'
+ */
+export class SensorSource extends EventEmitter {
+  private port: SerialPortType | null = null
+  private parser: any = null  // ReadlineParser — liefert saubere NMEA-Zeilen
+  private buffer: string = ''  // Fallback-Buffer wenn ReadlineParser nicht verfügbar
+  private isConnected: boolean = false
+
+  // Letzte bekannte Höhen (GPS und echte Baro)
+  private lastAltitude: number = 0
+  private lastBaroAltitude: number | null = null
+
+  // Letzte gültige Speed/Heading aus RMC - GGA sendet kein Speed/Heading
+  private lastValidSpeed: number = 0
+  private lastValidHeading: number = 0
+  private hasValidHeading: boolean = false
+
+  // QNH vom BLS Sensor (über PFLAC Satz)
+  private lastQNH: number = 1013.25
+  private configured = false  // PFLAC-Befehle schon gesendet
+
+  // Qualität für die Quellen-Auswahl
+  private kind: SensorKind = 'generic'
+  private fixQuality = 0
+  private satellites = 0
+  private hdop = 99
+  private lastFixAt = 0
+  private lastBaroAt = 0
+
+  // Debug-Statistiken für BLS Monitor
+  private debugStats = {
+    ggaCount: 0,
+    rmcCount: 0,
+    baroCount: 0,
+    checksumErrors: 0,
+    parseErrors: 0,
+    lastGGATime: 0,         // Timestamp des letzten GGA
+    avgGGAInterval: 0,      // Durchschnittlicher GGA-Intervall (ms)
+    lastSentence: '',       // Letzter empfangener NMEA-Satz (Typ)
+    parserType: 'unknown' as string,  // 'readline', 'manual' oder 'replay'
+    connectedSince: 0,      // Zeitpunkt der Verbindung
+    lastError: '',          // Letzter Fehler
+  }
+  private rawLog: string[] = []         // Letzte N raw NMEA Sätze
+  private readonly RAW_LOG_MAX = 50     // Max Anzahl gespeicherter Sätze
+
+  // Wiedergabe eines NMEA-Logs
+  private player: NmeaLogPlayer | null = null
+  private replayFile: string | null = null
+  private replayOffset = 0    // Log-Zeit -> Echtzeit (Wiedergabe beginnt "jetzt")
+
+  constructor(
+    readonly id: string,
+    private recorder: NmeaLogRecorder | null = null
+  ) {
+    super()
+  }
+
+  /**
+   * Aktuelle Zeit für Zeitstempel und Variometer.
+   * Bei der Wiedergabe läuft die Uhr im Takt des Logs (auch im Zeitraffer).
+   */
+  clockNow(): number {
+    return this.player ? this.replayOffset + this.player.getLogTime() : Date.now()
+  }
+
+  /**
+   * Öffnet den seriellen Port (BLS: 115200 Baud, u-blox meist 9600, FLARM/LXNAV 19200)
+   * @param deviceName - Name aus dem Scan; nur ein BLS bekommt sofort die PFLAC-Konfiguration
+   */
+  async connect(portPath: string, baudRate: number = 115200, deviceName: string = ''): Promise<boolean> {
+    try {
+      const SP = getSerialPort()
+      if (!SP) {
+        console.warn('SerialPort nicht verfügbar')
+        return false
+      }
+
+      return new Promise((resolve) => {
+        // Port mit autoOpen: false erstellen, um Fehler abfangen zu können
+        let port: SerialPortType
+        try {
+          port = new SP({
+            path: portPath,
+            baudRate,
+            dataBits: 8,
+            stopBits: 1,
+            parity: 'none',
+            autoOpen: false  // Wichtig: Nicht automatisch öffnen
+          })
+        } catch (err) {
+          console.error('Fehler beim Erstellen des Ports:', err)
+          resolve(false)
+          return
+        }
+
+        this.port = port
+
+        // Event-Handler registrieren BEVOR wir öffnen
+        port.on('open', () => {
+          this.isConnected = true
+          this.debugStats.connectedSince = Date.now()
+          this.emit('connected')
+          console.log(`Verbunden mit ${portPath} (${baudRate} Baud)`)
+
+          // Rohen NMEA-Strom mitschreiben
+          this.recorder?.start(portPath)
+
+          // Konfiguriere BLS für schnellere Updates - andere Geräte erst wenn sie sich per PFLAC als BLS zeigen
+          if (/BLS/i.test(deviceName)) {
+            this.kind = 'bls'
+            this.configureDevice()
+          }
+
+          resolve(true)
+        })
+
+        // ReadlineParser: Liefert komplette NMEA-Zeilen bei jedem \r\n
+        // Eliminiert das Problem von fragmentierten Buffer-Chunks
+        if (ReadlineParserClass) {
+          this.debugStats.parserType = 'readline'
+          this.parser = port.pipe(new ReadlineParserClass({ delimiter: '\r\n' }))
+          this.parser.on('data', (line: string) => {
+            if (line.startsWith('$')) {
+              this.parseNMEASentence(line)
+            }
+          })
+        } else {
+          this.debugStats.parserType = 'manual'
+          // Fallback: manuelles Buffer-Splitting (weniger präzise Timestamps)
+          port.on('data', (data: Buffer) => {
+            this.processNMEAData(data.toString())
+          })
+        }
+
+        port.on('error', (err: Error) => {
+          console.error('Serieller Port Fehler:', err.message)
+          this.debugStats.lastError = err.message
+          this.isConnected = false
+          this.port = null
+          this.recorder?.stop()
+          this.emit('error', err)
+          this.emit('disconnected')
+        })
+
+        port.on('close', () => {
+          this.isConnected = false
+          this.recorder?.stop()
+          this.emit('disconnected')
+        })
+
+        // Jetzt manuell öffnen mit Callback
+        port.open((err) => {
+          if (err) {
+            const errorMsg = `Fehler beim Öffnen des Ports: ${err.message}`
+            console.error(errorMsg)
+
+            // Spezielle Behandlung für häufige Fehler
+            let userMessage = errorMsg
+            if (err.message.includes('121')) {
+              userMessage = `Port-Timeout (Error 121): ${portPath}\n\nMögliche Ursachen:\n- Port wird bereits von einer anderen Anwendung verwendet\n- Bluetooth SPP-Treiber ist nicht bereit\n- Gerät ist nicht korrekt gepairt`
+            } else if (err.message.includes('Access denied') || err.message.includes('5')) {
+              userMessage = `Zugriff verweigert (Error 5): ${portPath}\n\nPort wird bereits verwendet. Bitte andere Anwendungen schließen.`
+            } else if (err.message.includes('cannot open')) {
+              userMessage = `Port kann nicht geöffnet werden: ${portPath}\n\nBitte überprüfen Sie:\n- Ist das Gerät eingeschaltet?\n- Ist das Gerät per Bluetooth verbunden?\n- Verwenden Sie den richtigen COM-Port?`
+            }
+
+            this.isConnected = false
+            this.port = null
+            this.debugStats.lastError = userMessage
+            this.emit('error', { message: userMessage, originalError: err })
+            resolve(false)
+          }
+        })
+      })
+    } catch (error) {
+      console.error('Verbindungsfehler:', error)
+      return false
+    }
+  }
+
+  /**
+   * Spielt ein NMEA-Log über denselben Parser ab (virtuelles Gerät)
+   */
+  connectVirtual(filePath: string, speed: number = 1): boolean {
+    let entries
+    try {
+      entries = readNmeaLog(filePath)
+    } catch (err: any) {
+      this.debugStats.lastError = `NMEA-Log konnte nicht gelesen werden: ${path.basename(filePath)}`
+      this.emit('error', { message: this.debugStats.lastError, originalError: err })
+      return false
+    }
+    if (entries.length === 0) {
+      this.debugStats.lastError = `NMEA-Log enthält keine NMEA-Sätze: ${path.basename(filePath)}`
+      this.emit('error', { message: this.debugStats.lastError })
+      return false
+    }
+
+    this.resetState()
+    this.replayFile = path.basename(filePath)
+    this.replayOffset = Date.now() - entries[0].time
+    this.player = new NmeaLogPlayer(
+      entries,
+      (sentence) => this.parseNMEASentence(sentence),
+      () => {
+        console.log(`[NmeaLog] Wiedergabe beendet: ${this.replayFile}`)
+        this.disconnect()
+      }
+    )
+
+    this.isConnected = true
+    this.debugStats.parserType = 'replay'
+    this.debugStats.connectedSince = Date.now()
+    this.emit('connected')
+    this.player.start(speed)
+    console.log(`Virtuelles Gerät: spiele ${this.replayFile} mit ${speed}x ab (${entries.length} Sätze)`)
+    return true
+  }
+
+  setReplaySpeed(speed: number): void {
+    this.player?.setSpeed(speed)
+  }
+
+  isVirtual(): boolean {
+    return this.player !== null
+  }
+
+  /**
+   * Trennt die Quelle
+   */
+  async disconnect(): Promise<void> {
+    if (this.player) {
+      this.player.stop()
+      this.player = null
+      this.replayFile = null
+      this.isConnected = false
+      this.resetState()
+      this.emit('disconnected')
+      return
+    }
+    this.recorder?.stop()
+
+    return new Promise((resolve) => {
+      if (!this.port) {
+        this.isConnected = false
+        resolve()
+        return
+      }
+
+      // Entferne alle Listener um Memory Leaks zu vermeiden
+      if (this.parser) {
+        this.parser.removeAllListeners()
+        this.parser = null
+      }
+      this.port.removeAllListeners()
+
+      if (this.port.isOpen) {
+        this.port.close((err) => {
+          if (err) {
+            console.error('Fehler beim Schließen des Ports:', err.message)
+          }
+          this.isConnected = false
+          this.port = null
+          this.resetState()
+          this.emit('disconnected')
+          console.log('Port geschlossen')
+          resolve()
+        })
+      } else {
+        this.isConnected = false
+        this.port = null
+        this.resetState()
+        resolve()
+      }
+    })
+  }
+
+  /**
+   * Setzt die zuletzt empfangenen Werte zurück (bei Disconnect)
+   */
+  private resetState(): void {
+    this.lastAltitude = 0
+    this.lastBaroAltitude = null
+    this.lastValidSpeed = 0
+    this.lastValidHeading = 0
+    this.hasValidHeading = false
+  }
+
+  /**
+   * Zustand für die Quellen-Auswahl
+   */
+  getStatus(): SensorSourceStatus {
+    return {
+      id: this.id,
+      name: this.replayFile ? `Log: ${this.replayFile}` : SENSOR_KIND_NAMES[this.kind],
+      kind: this.kind,
+      connected: this.isConnected,
+      virtual: this.player !== null,
+      fixQuality: this.fixQuality,
+      satellites: this.satellites,
+      hdop: this.hdop,
+      lastFixAt: this.lastFixAt,
+      lastBaroAt: this.lastBaroAt
+    }
+  }
+
+  /**
+   * Datei der laufenden Aufzeichnung (null wenn nicht aufgezeichnet wird)
+   */
+  getRecordingPath(): string | null {
+    return this.recorder?.getCurrentPath() ?? null
+  }
+
+  /**
+   * Gibt aktuelle Debug-Statistiken zurück
+   */
+  getDebugStats() {
+    const uptime = this.debugStats.connectedSince
+      ? Math.round((Date.now() - this.debugStats.connectedSince) / 1000)
+      : 0
+    const recordingPath = this.getRecordingPath()
+    return {
+      ...this.debugStats,
+      uptime,
+      qnh: this.lastQNH,
+      isConnected: this.isConnected,
+      rawLog: [...this.rawLog],  // Kopie der letzten NMEA Sätze
+      recordingFile: recordingPath ? path.basename(recordingPath) : null,
+      replay: this.player && this.replayFile
+        ? { fileName: this.replayFile, speed: this.player.getSpeed(), ...this.player.getProgress() }
+        : null,
+    }
+  }
+
+  /**
+   * Konfiguriert das BLS Gerät für optimale Übertragung (einmal pro Verbindung)
+   */
+  private configureDevice(): void {
+    if (this.configured || !this.port?.isOpen) return
+    this.configured = true
+
+    // Flytec/Brauniger spezifische Befehle für höhere Update-Rate
+    // PFLAC = Flarm/Flytec Konfiguration
+    // Setze NMEA Output Rate auf 5 Hz (200ms Intervall)
+    const commands = [
+      // Aktiviere nur benötigte NMEA Sätze mit höherer Rate
+      '$PFLAC,S,NMEAOUT,5*', // 5 Hz Update Rate
+      '$PFLAC,R,QNH*',       // QNH-Wert abfragen
+      '$PFLAC,R,BARO*',      // Barometer-Einstellung abfragen
+    ]
+
+    commands.forEach(cmd => {
+      const checksum = this.calculateChecksum(cmd.slice(1, -1))
+      const fullCmd = `${cmd.slice(0, -1)}${checksum}\r\n`
+      try {
+        this.port?.write(fullCmd)
+        console.log('Sent config:', fullCmd.trim())
+      } catch (err) {
+        // Ignoriere Fehler - nicht alle Geräte unterstützen diese Befehle
+      }
+    })
+  }
+
+  /**
+   * Berechnet NMEA Checksumme
+   */
+  private calculateChecksum(data: string): string {
+    let checksum = 0
+    for (let i = 0; i < data.length; i++) {
+      checksum ^= data.charCodeAt(i)
+    }
+    return checksum.toString(16).toUpperCase().padStart(2, '0')
+  }
+
+  /**
+   * Verarbeitet eingehende NMEA Daten
+   */
+  private processNMEAData(data: string): void {
+    this.buffer += data
+
+    // NMEA Sätze enden mit \r\n
+    const lines = this.buffer.split('\r\n')
+    this.buffer = lines.pop() || '' // Behalte unvollständige Zeile im Buffer
+
+    for (const line of lines) {
+      if (line.startsWith('$')) {
+        this.parseNMEASentence(line)
+      }
+    }
+  }
+
+  /**
+   * Gerätetyp anhand typischer Sätze erkennen (spezifischere Typen gewinnen)
+   */
+  private detectKind(type: string, sentence: string): void {
+    if (this.kind === 'bls' || this.kind === 'lxnav') return
+    if (type === '$PFLAC') {
+      this.kind = 'bls'
+      this.configureDevice()
+    } else if (type.startsWith('$LXWP') || type === '$PLXVF' || type === '$PLXVS') {
+      this.kind = 'lxnav'
+    } else if (type === '$PFLAU' || type === '$PFLAA') {
+      this.kind = 'flarm'
+    } else if (this.kind === 'generic' && (type === '$GPTXT' || type === '$GNTXT') && /u-blox/i.test(sentence)) {
+      this.kind = 'ublox'
+    }
+  }
+
+  /**
+   * Parst einen einzelnen NMEA Satz
+   */
+  private parseNMEASentence(sentence: string): void {
+    // Raw-Log: Jeden empfangenen Satz speichern (auch vor Checksum-Check)
+    const received = new Date(this.clockNow())
+    const ts = received.toISOString().substring(11, 23) // HH:mm:ss.SSS
+    this.rawLog.push(`[${ts}] ${sentence}`)
+    if (this.rawLog.length > this.RAW_LOG_MAX) {
+      this.rawLog.splice(0, this.rawLog.length - this.RAW_LOG_MAX)
+    }
+    // Vollständige Aufzeichnung (nicht bei der Wiedergabe eines Logs)
+    if (!this.player) {
+      this.recorder?.write(sentence, received)
+    }
+
+    // Prüfe Checksumme
+    if (!this.verifyChecksum(sentence)) {
+      this.debugStats.checksumErrors++
+      return
+    }
+
+    const parts = sentence.split(',')
+    const type = parts[0]
+    this.debugStats.lastSentence = type
+    this.detectKind(type, sentence)
+
+    switch (type) {
+      case '$GPGGA':
+      case '$GNGGA':
+        this.debugStats.ggaCount++
+        // GGA-Timing für Intervall-Berechnung
+        const now = Date.now()
+        if (this.debugStats.lastGGATime > 0) {
+          const interval = now - this.debugStats.lastGGATime
+          // EMA für Durchschnitts-Intervall
+          this.debugStats.avgGGAInterval = this.debugStats.avgGGAInterval === 0
+            ? interval
+            : this.debugStats.avgGGAInterval * 0.8 + interval * 0.2
+        }
+        this.debugStats.lastGGATime = now
+        this.parseGGA(parts)
+        break
+      case '$GPRMC':
+      case '$GNRMC':
+        this.debugStats.rmcCount++
+        this.parseRMC(parts)
+        break
+      case '$PGRMZ': // Garmin Altitude (von manchen Geräten)
+        this.parsePGRMZ(parts)
+        break
+      case '$PFLAU': // Flarm/Flytec spezifisch
+        this.parsePFLAU(parts)
+        break
+      case '$PFLAA': // Flarm Traffic
+        break
+      case '$PFLAC': // Flytec/Brauniger Konfiguration (enthält QNH)
+        this.parsePFLAC(parts)
+        break
+      case '$LXWPx': // LX Navigation Variometer
+        this.parseLXWP(parts)
+        break
+      default:
+        // LXWP0, LXWP1 etc. separat prüfen
+        if (type.startsWith('$LXWP')) {
+          this.parseLXWP(parts)
+        }
+        break
+    }
+  }
+
+  /**
+   * Parst GGA Satz (GPS Fix, Altitude)
+   */
+  private parseGGA(parts: string[]): void {
+    if (parts.length < 15) return
+
+    const time = this.parseNMEATime(parts[1])
+    const lat = this.parseNMEACoord(parts[2], parts[3])
+    const lon = this.parseNMEACoord(parts[4], parts[5])
+    const quality = parseInt(parts[6]) || 0
+    const satellites = parseInt(parts[7]) || 0
+    const hdop = parseFloat(parts[8]) || 99
+    const altitude = parseFloat(parts[9]) || 0
+
+    this.fixQuality = quality
+    this.satellites = satellites
+    this.hdop = hdop
+
+    if (quality > 0 && lat !== null && lon !== null) {
+      this.lastFixAt = Date.now()
+
+      // WICHTIG: GGA enthält KEIN Speed/Heading!
+      // Verwende den letzten gültigen Wert aus RMC, sonst springt der Marker nach Norden (0°)
+      const gpsData: GPSData = {
+        latitude: lat,
+        longitude: lon,
+        altitude: altitude,
+        speed: this.lastValidSpeed,
+        heading: this.lastValidHeading,
+        timestamp: time,
+        satellites: satellites,
+        hdop: hdop
+      }
+
+      this.lastAltitude = altitude
+      this.emit('gps', gpsData)
+
+      // Höhe aus GPS für Geräte ohne Barometer - die Steigrate schätzt der Filter
+      const baroData: BaroData = {
+        pressureAltitude: altitude,
+        qnh: this.lastQNH,
+        variometer: 0,
+        timestamp: time
+      }
+      this.emit('baro', baroData, false, false)
+    }
+  }
+
+  /**
+   * Parst RMC Satz (Speed, Heading)
+   */
+  private parseRMC(parts: string[]): void {
+    if (parts.length < 12) return
+
+    // Status prüfen: A = Active (gültig), V = Void (ungültig)
+    const status = parts[2]
+    if (status !== 'A') return
+
+    const rawSpeed = parseFloat(parts[7]) || 0 // Knoten
+    const rawSpeedKmh = rawSpeed * 1.852
+    this.lastValidSpeed = rawSpeedKmh
+
+    // Speed/Heading ungeglättet - Geschwindigkeit fließt als Messung in den Kalman-Filter
+    const headingField = parts[8]?.trim()
+    const rawHeading = parseFloat(headingField)
+    const hasHeadingData = headingField !== '' && !isNaN(rawHeading)
+
+    if (hasHeadingData && rawSpeedKmh > 1.0) {
+      this.lastValidHeading = rawHeading
+      this.hasValidHeading = true
+    }
+    // Bei leerem Heading oder Stillstand: lastValidHeading bleibt unverändert
+
+    // RMC aktualisiert NUR Speed/Heading - Position kommt ausschließlich aus GGA
+    // Verhindert doppelte GPS-Callbacks (GGA + RMC) die den Marker zum Springen bringen
+  }
+
+  /**
+   * Parst PGRMZ Satz (Altitude in feet)
+   */
+  private parsePGRMZ(parts: string[]): void {
+    if (parts.length < 3) return
+    this.debugStats.baroCount++
+
+    const altitudeFeet = parseFloat(parts[1]) || 0
+    const altitudeMeters = altitudeFeet * 0.3048
+    this.lastBaroAltitude = altitudeMeters
+    this.lastBaroAt = Date.now()
+
+    const baroData: BaroData = {
+      pressureAltitude: altitudeMeters,
+      qnh: this.lastQNH,
+      variometer: 0,
+      timestamp: new Date(this.clockNow())
+    }
+
+    this.emit('baro', baroData, true, false)
+  }
+
+  /**
+   * Parst PFLAU Satz (Flarm Status)
+   * $PFLAU,<RX>,<TX>,<GPS>,<Power>,... - GPS: 0 = kein Fix, 1 = 3D am Boden, 2 = 3D in der Luft
+   */
+  private parsePFLAU(parts: string[]): void {
+    // Flarm meldet GPS-Verlust hier oft früher als über GGA
+    const gpsStatus = parseInt(parts[3])
+    if (gpsStatus === 0) {
+      this.fixQuality = 0
+    }
+  }
+
+  /**
+   * Parst PFLAC Sätze (Flytec/Brauniger Konfiguration)
+   * Enthält unter anderem QNH: $PFLAC,A,BARO,1013.25*XX
+   * oder: $PFLAC,S,QNH,1013.25*XX
+   */
+  private parsePFLAC(parts: string[]): void {
+    if (parts.length < 4) return
+
+    const key = parts[2]?.toUpperCase()
+    const value = parts[3]
+
+    // QNH kann in verschiedenen Feldern kommen
+    if (key === 'QNH' || key === 'BARO' || key === 'QNE') {
+      // Wert kann Checksumme enthalten: "1013.25*4A" → nur Zahl extrahieren
+      const numStr = value?.split('*')[0]
+      const qnh = parseFloat(numStr)
+      if (!isNaN(qnh) && qnh > 900 && qnh < 1100) {
+        this.lastQNH = qnh
+        console.log(`[BLS] QNH empfangen: ${qnh} hPa`)
+      }
+    }
+  }
+
+  /**
+   * Parst LX Navigation Variometer Sätze
+   * $LXWP0,<Logger>,<IAS>,<Baro-Höhe m>,<Vario m/s>,...
+   */
+  private parseLXWP(parts: string[]): void {
+    // LX Variometer Protokoll
+    if (parts[0] === '$LXWP0' && parts.length >= 6) {
+      this.debugStats.baroCount++
+      const baroAltitude = parseFloat(parts[3])
+      const rawVariometer = parseFloat(parts[4])
+
+      if (!isNaN(baroAltitude)) {
+        this.lastBaroAltitude = baroAltitude
+        this.lastBaroAt = Date.now()
+      }
+
+      const baroData: BaroData = {
+        pressureAltitude: this.lastBaroAltitude ?? this.lastAltitude,
+        qnh: this.lastQNH,
+        variometer: isNaN(rawVariometer) ? 0 : rawVariometer,
+        timestamp: new Date(this.clockNow())
+      }
+
+      this.emit('baro', baroData, !isNaN(baroAltitude), !isNaN(rawVariometer))
+    }
+  }
+
+  /**
+   * Konvertiert NMEA Zeit zu Date
+   */
+  private parseNMEATime(timeStr: string): Date {
+    // Wiedergabe: Zeit des Logs auf "jetzt" verschoben, damit Track und Replay-Uhr zusammenpassen
+    if (this.player) return new Date(this.clockNow())
+    if (!timeStr || timeStr.length < 6) return new Date()
+
+    const hours = parseInt(timeStr.substring(0, 2))
+    const minutes = parseInt(timeStr.substring(2, 4))
+    const seconds = parseFloat(timeStr.substring(4))
+
+    const now = new Date()
+    now.setUTCHours(hours, minutes, Math.floor(seconds), (seconds % 1) * 1000)
+    return now
+  }
+
+  /**
+   * Konvertiert NMEA Koordinaten zu Dezimalgrad
+   */
+  private parseNMEACoord(coord: string, direction: string): number | null {
+    if (!coord || !direction) return null
+
+    // NMEA Format: DDDMM.MMMM oder DDMM.MMMM
+    const isLongitude = coord.length > 9
+    const degreeDigits = isLongitude ? 3 : 2
+
+    const degrees = parseInt(coord.substring(0, degreeDigits))
+    const minutes = parseFloat(coord.substring(degreeDigits))
+
+    let decimal = degrees + minutes / 60
+
+    if (direction === 'S' || direction === 'W') {
+      decimal = -decimal
+    }
+
+    return decimal
+  }
+
+  /**
+   * Verifiziert die NMEA Checksumme
+   */
+  private verifyChecksum(sentence: string): boolean {
+    const asteriskIndex = sentence.indexOf('*')
+    if (asteriskIndex === -1) return false
+
+    const data = sentence.substring(1, asteriskIndex) // Ohne $ und Checksumme
+    const checksum = parseInt(sentence.substring(asteriskIndex + 1), 16)
+
+    let calculated = 0
+    for (let i = 0; i < data.length; i++) {
+      calculated ^= data.charCodeAt(i)
+    }
+
+    return calculated === checksum
+  }
+}
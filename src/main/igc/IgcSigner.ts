@@ -0,0 +1,58 @@
+import * as path from 'path'
+import * as fs from 'fs'
+import * as crypto from 'crypto'
+
+// ECDSA P-256 Schlüsselpaar pro Installation für die IGC G-Records
+const KEY_FILE = 'igc-signing-key.pem'
+
+export class IgcSigner {
+  private keyPath: string
+  private privateKey: crypto.KeyObject
+  private publicKey: crypto.KeyObject
+
+  constructor(userDataPath: string) {
+    this.keyPath = path.join(userDataPath, KEY_FILE)
+
+    const existing = this.loadKey()
+    if (existing) {
+      this.privateKey = existing
+    } else {
+      const { privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' })
+      this.privateKey = privateKey
+      this.saveKey()
+      console.log('[IgcSigner] Neues Signatur-Schlüsselpaar erzeugt')
+    }
+    this.publicKey = crypto.createPublicKey(this.privateKey)
+  }
+
+  // Vorhandenen privaten Schlüssel laden (null wenn fehlend oder defekt)
+  private loadKey(): crypto.KeyObject | null {
+    try {
+      if (!fs.existsSync(this.keyPath)) return null
+      const pem = fs.readFileSync(this.keyPath, 'utf-8')
+      return crypto.createPrivateKey(pem)
+    } catch (err) {
+      console.error('[IgcSigner] Schlüssel konnte nicht geladen werden:', err)
+      return null
+    }
+  }
+
+  private saveKey(): void {
+    const pem = this.privateKey.export({ type: 'pkcs8', format: 'pem' }) as string
+    fs.writeFileSync(this.keyPath, pem, { encoding: 'utf-8', mode: 0o600 })
+  }
+
+  // Öffentlicher Schlüssel als Base64 (SPKI DER) - wird in die IGC-Datei geschrieben
+  getPublicKey(): string {
+    return (this.publicKey.export({ type: 'spki', format: 'der' }) as Buffer).toString('base64')
+  }
+
+  // Signatur als Hex (IEEE P1363 r||s, direkt mit WebCrypto prüfbar)
+  sign(content: string): string {
+    const signature = crypto.sign('sha256', Buffer.from(content, 'utf-8'), {
+      key: this.privateKey,
+      dsaEncoding: 'ieee-p1363'
+    })
+    return signature.toString('hex').toUpperCase()
+  }
+}
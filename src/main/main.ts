@@ -14,11 +14,15 @@ if (app && app.commandLine) {
 type BluetoothManagerType = import('./bluetooth/BluetoothManager').BluetoothManager
 type MapManagerType = import('./maps/MapManager').MapManager
 type ElevationManagerType = import('./elevation/ElevationManager').ElevationManager
+type IgcSignerType = import('./igc/IgcSigner').IgcSigner
+type LanTeamHubType = import('./team/LanTeamHub').LanTeamHub
 
 let mainWindow: typeof BrowserWindow.prototype | null = null
 let bluetoothManager: BluetoothManagerType | null = null
 let mapManager: MapManagerType | null = null
 let elevationManager: ElevationManagerType | null = null
+let igcSigner: IgcSignerType | null = null
+let lanTeamHub: LanTeamHubType | null = null
 
 function createWindow() {
   mainWindow = new BrowserWindow({
@@ -105,9 +109,18 @@ function createWindow() {
     console.error('[Main] ElevationManager konnte nicht geladen werden:', err)
   }
 
+  // IGC Signatur-Schlüssel laden bzw. erzeugen
+  try {
+    const { IgcSigner } = require('./igc/IgcSigner')
+    igcSigner = new IgcSigner(app.getPath('userData'))
+  } catch (err) {
+    console.error('[Main] IgcSigner konnte nicht geladen werden:', err)
+  }
+
   // Bluetooth Manager initialisieren (lazy import)
+  // NMEA-Logs jeder Verbindung landen in <userData>/nmea-logs
   const { BluetoothManager } = require('./bluetooth/BluetoothManager')
-  bluetoothManager = new BluetoothManager()
+  bluetoothManager = new BluetoothManager(path.join(app.getPath('userData'), 'nmea-logs'))
 
   // Fehler-Events vom BluetoothManager weiterleiten
   if (bluetoothManager) {
@@ -127,6 +140,13 @@ function createWindow() {
       }
     })
 
+    // Umschalten der GPS-Quelle (Ausfall oder bessere Quelle) weiterleiten
+    bluetoothManager.on('failover', (failover: any) => {
+      if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('bluetooth:failover', failover)
+      }
+    })
+
     // Debug-Stats weiterleiten (alle 500ms vom BluetoothManager)
     bluetoothManager.on('debug', (stats: any) => {
       if (mainWindow && !mainWindow.isDestroyed()) {
@@ -161,6 +181,50 @@ function setupIpcHandlers() {
     return bluetoothManager?.disconnect()
   })
 
+  // Weitere Sensoren parallel (FLARM, LXNAV, u-blox) - die beste Quelle wird automatisch gewählt
+  ipcMain.handle('bluetooth:addSource', async (_: any, deviceId: string) => {
+    try {
+      const success = await bluetoothManager?.addSource(deviceId)
+      return { success: success || false, error: null }
+    } catch (error: any) {
+      console.error('Bluetooth addSource error:', error)
+      return {
+        success: false,
+        error: error.message || 'Verbindungsfehler'
+      }
+    }
+  })
+
+  ipcMain.handle('bluetooth:disconnectSource', async (_: any, deviceId: string) => {
+    return bluetoothManager?.disconnectSource(deviceId)
+  })
+
+  // NMEA-Logs (Aufzeichnung + virtuelles Gerät)
+  ipcMain.handle('bluetooth:listLogs', async () => {
+    return bluetoothManager?.listLogs() || []
+  })
+
+  ipcMain.handle('bluetooth:deleteLog', async (_: any, fileName: string) => {
+    return bluetoothManager?.deleteLog(fileName) || false
+  })
+
+  ipcMain.handle('bluetooth:setReplaySpeed', async (_: any, speed: number) => {
+    bluetoothManager?.setReplaySpeed(speed)
+  })
+
+  ipcMain.handle('bluetooth:selectLog', async () => {
+    const result = await dialog.showOpenDialog(mainWindow, {
+      title: 'NMEA-Log für virtuelles Gerät auswählen',
+      filters: [
+        { name: 'NMEA Logs', extensions: ['nmea', 'txt', 'log'] },
+        { name: 'Alle Dateien', extensions: ['*'] }
+      ],
+      properties: ['openFile']
+    })
+    if (result.canceled || !result.filePaths.length) return null
+    return result.filePaths[0]
+  })
+
   // GPS Daten Stream
   ipcMain.on('gps:subscribe', (event: any) => {
     bluetoothManager?.onGPSData((data: any) => {
@@ -467,6 +531,48 @@ function setupIpcHandlers() {
     }
   })
 
+  // LAN-Team Hub (Live Team ohne Internet) - wird erst beim Start erzeugt
+  const getLanTeamHub = (): LanTeamHubType => {
+    if (!lanTeamHub) {
+      const { LanTeamHub } = require('./team/LanTeamHub')
+      // Lite-Build liegt neben dist/ (npm run build:lite)
+      lanTeamHub = new LanTeamHub(path.join(app.getAppPath(), 'dist-lite')) as LanTeamHubType
+      lanTeamHub.on('status', (status: any) => {
+        if (mainWindow && !mainWindow.isDestroyed()) {
+          mainWindow.webContents.send('team:lanStatus', status)
+        }
+      })
+    }
+    return lanTeamHub
+  }
+
+  ipcMain.handle('team:lanStart', async (_: any, port?: number) => {
+    try {
+      return { success: true, status: await getLanTeamHub().start(port) }
+    } catch (err: any) {
+      const message = err?.code === 'EADDRINUSE' ? `Port ${port ?? 8765} ist bereits belegt` : (err?.message || 'Start fehlgeschlagen')
+      return { success: false, error: message }
+    }
+  })
+
+  ipcMain.handle('team:lanStop', async () => {
+    if (lanTeamHub) await lanTeamHub.stop()
+  })
+
+  ipcMain.handle('team:lanStatus', async () => {
+    return lanTeamHub ? lanTeamHub.getStatus() : null
+  })
+
+  // IGC Signatur (G-Record)
+  ipcMain.handle('igc:getPublicKey', async () => {
+    return igcSigner?.getPublicKey() ?? null
+  })
+
+  ipcMain.handle('igc:sign', async (_: any, content: string) => {
+    if (!igcSigner) return null
+    return { signature: igcSigner.sign(content), publicKey: igcSigner.getPublicKey() }
+  })
+
   ipcMain.handle('files:loadWaypoints', async (_: any, filepath: string) => {
     try {
       const data = await fsPromises.readFile(filepath, 'utf-8')
@@ -1136,6 +1242,9 @@ app.on('window-all-closed', async () => {
   if (bluetoothManager) {
     await bluetoothManager.cleanup()
   }
+  if (lanTeamHub) {
+    await lanTeamHub.stop()
+  }
   if (process.platform !== 'darwin') {
     app.quit()
   }
@@ -25,6 +25,28 @@ interface BluetoothDevice {
   rssi: number
 }
 
+interface SensorFailover {
+  from: string | null
+  to: string | null
+  reason: string
+}
+
+interface NmeaLogInfo {
+  fileName: string
+  path: string
+  size: number
+  date: string
+}
+
+interface LanHubStatus {
+  running: boolean
+  port: number
+  addresses: string[]
+  clients: number
+  liteAvailable: boolean
+  pin: string
+}
+
 interface MapInfo {
   id: string
   name: string
@@ -54,6 +76,12 @@ contextBridge.exposeInMainWorld('ntaAPI', {
     scan: (): Promise<BluetoothDevice[]> => ipcRenderer.invoke('bluetooth:scan'),
     connect: (deviceId: string): Promise<{ success: boolean; error: string | null }> => ipcRenderer.invoke('bluetooth:connect', deviceId),
     disconnect: (): Promise<void> => ipcRenderer.invoke('bluetooth:disconnect'),
+    addSource: (deviceId: string): Promise<{ success: boolean; error: string | null }> => ipcRenderer.invoke('bluetooth:addSource', deviceId),
+    disconnectSource: (deviceId: string): Promise<void> => ipcRenderer.invoke('bluetooth:disconnectSource', deviceId),
+    listLogs: (): Promise<NmeaLogInfo[]> => ipcRenderer.invoke('bluetooth:listLogs'),
+    deleteLog: (fileName: string): Promise<boolean> => ipcRenderer.invoke('bluetooth:deleteLog', fileName),
+    selectLog: (): Promise<string | null> => ipcRenderer.invoke('bluetooth:selectLog'),
+    setReplaySpeed: (speed: number): Promise<void> => ipcRenderer.invoke('bluetooth:setReplaySpeed', speed),
     onError: (callback: (error: { message: string; details?: string }) => void) => {
       ipcRenderer.on('bluetooth:error', (_, error) => callback(error))
     },
@@ -63,6 +91,12 @@ contextBridge.exposeInMainWorld('ntaAPI', {
     offDisconnected: (callback: () => void) => {
       ipcRenderer.removeListener('bluetooth:disconnected', callback as any)
     },
+    onFailover: (callback: (failover: SensorFailover) => void) => {
+      ipcRenderer.on('bluetooth:failover', (_, failover) => callback(failover))
+    },
+    offFailover: () => {
+      ipcRenderer.removeAllListeners('bluetooth:failover')
+    },
     onDebug: (callback: (stats: any) => void) => {
       ipcRenderer.on('bluetooth:debug', (_, stats) => callback(stats))
     },
@@ -111,6 +145,28 @@ contextBridge.exposeInMainWorld('ntaAPI', {
       ipcRenderer.invoke('files:loadBackup', fileName)
   },
 
+  // IGC Signatur (Schlüsselpaar pro Installation)
+  igc: {
+    getPublicKey: (): Promise<string | null> =>
+      ipcRenderer.invoke('igc:getPublicKey'),
+    sign: (content: string): Promise<{ signature: string; publicKey: string } | null> =>
+      ipcRenderer.invoke('igc:sign', content)
+  },
+
+  // LAN-Team Hub (Live Team ohne Internet)
+  team: {
+    lanStart: (port?: number): Promise<{ success: boolean; status?: LanHubStatus; error?: string }> =>
+      ipcRenderer.invoke('team:lanStart', port),
+    lanStop: (): Promise<void> =>
+      ipcRenderer.invoke('team:lanStop'),
+    lanStatus: (): Promise<LanHubStatus | null> =>
+      ipcRenderer.invoke('team:lanStatus'),
+    onLanStatus: (callback: (status: LanHubStatus) => void) => {
+      ipcRenderer.on('team:lanStatus', (_event, status) => callback(status))
+      return () => ipcRenderer.removeAllListeners('team:lanStatus')
+    }
+  },
+
   // Lokale Fahrten-Verwaltung (pro Meisterschaft)
   flights: {
     save: (options: { championshipId: string; flightId: string; fileName: string; content: string }): Promise<{ success: boolean; path?: string; error?: string }> =>
@@ -423,9 +479,17 @@ declare global {
         scan: () => Promise<BluetoothDevice[]>
         connect: (deviceId: string) => Promise<{ success: boolean; error: string | null }>
         disconnect: () => Promise<void>
+        addSource: (deviceId: string) => Promise<{ success: boolean; error: string | null }>
+        disconnectSource: (deviceId: string) => Promise<void>
+        listLogs: () => Promise<NmeaLogInfo[]>
+        deleteLog: (fileName: string) => Promise<boolean>
+        selectLog: () => Promise<string | null>
+        setReplaySpeed: (speed: number) => Promise<void>
         onError: (callback: (error: { message: string; details?: string }) => void) => void
         onDisconnected: (callback: () => void) => void
         offDisconnected: (callback: () => void) => void
+        onFailover: (callback: (failover: SensorFailover) => void) => void
+        offFailover: () => void
         onDebug: (callback: (stats: any) => void) => void
         offDebug: () => void
       }
@@ -442,6 +506,10 @@ declare global {
         loadWaypoints: (filepath: string) => Promise<any[]>
         saveFlightReport: (report: any) => Promise<string>
       }
+      igc: {
+        getPublicKey: () => Promise<string | null>
+        sign: (content: string) => Promise<{ signature: string; publicKey: string } | null>
+      }
       maps: {
         import: () => Promise<MapInfo | null>
         importWithImage: (mapPath: string, imagePath: string) => Promise<MapInfo | null>
@@ -0,0 +1,370 @@
+import { EventEmitter } from 'events'
+import * as http from 'http'
+import * as fs from 'fs'
+import * as path from 'path'
+import * as os from 'os'
+import * as crypto from 'crypto'
+import type { Socket } from 'net'
+import { WebSocketConnection, acceptWebSocket } from './WebSocketConnection'
+
+// Gleiche Nachrichten wie die Supabase-Kanäle (team-pos, team-msg, team-wind, Presence),
+// nur als JSON über einen WebSocket im lokalen Netz.
+
+export const LAN_HUB_DEFAULT_PORT = 8765
+const WEBSOCKET_PATH = '/team'
+const PING_INTERVAL_MS = 15000
+const MAX_MESSAGES = 200
+
+interface LanMember {
+  memberId: string
+  callsign: string
+  color: string
+  role: 'pilot' | 'crew'
+  isOnline: boolean
+  lastSeen: string
+}
+
+interface LanClient {
+  connection: WebSocketConnection
+  memberId: string | null
+  alive: boolean
+}
+
+export interface LanHubStatus {
+  running: boolean
+  port: number
+  addresses: string[]       // IPv4-Adressen im LAN (für Beitritt und Lite-Link)
+  clients: number
+  liteAvailable: boolean    // Lite-App wird vom Hub ausgeliefert
+  pin: string               // Team-PIN dieser Sitzung, nötig für "hello"
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.ico': 'image/x-icon',
+  '.webmanifest': 'application/manifest+json',
+  '.woff2': 'font/woff2'
+}
+
+/**
+ * LanTeamHub - Lokaler Realtime-Server für Live Team ohne Internet
+ *
+ * Läuft im Main-Prozess eines Teilnehmers (meist der Pilot mit Laptop am Startplatz).
+ * Andere Desktop-Apps und die Lite-App im gleichen WLAN/Hotspot verbinden sich per
+ * WebSocket auf ws://<ip>:<port>/team. Der Hub verteilt Positionen, Chat und Windprofile
+ * und hält den letzten Stand für später Beitretende.
+ *
+ * Beitreten nur mit der Team-PIN, die der Hub pro Sitzung erzeugt und der Host anzeigt.
+ * Die Member-ID vergibt der Hub selbst; der Client bekommt dazu ein Sitzungs-Token,
+ * mit dem er nach einem Reconnect wieder dieselbe ID erhält.
+ *
+ * Über HTTP liefert er außerdem die Lite-App (dist-lite) aus, damit Handys ohne
+ * Internet und ohne Mixed-Content-Sperre (https -> ws) beitreten können.
+ */
+export class LanTeamHub extends EventEmitter {
+  private server: http.Server | null = null
+  private port = LAN_HUB_DEFAULT_PORT
+  private clients = new Set<LanClient>()
+  private pingTimer: ReturnType<typeof setInterval> | null = null
+  private pin = ''
+
+  // Sitzungs-Token -> vom Hub vergebene Member-ID (Wiedererkennung nach Reconnect)
+  private sessions = new Map<string, string>()
+
+  // Letzter Stand für neue Teilnehmer
+  private members = new Map<string, LanMember>()
+  private positions = new Map<string, any>()
+  private windProfiles = new Map<string, any>()
+  private messages: any[] = []
+
+  constructor(private liteDir: string | null) {
+    super()
+  }
+
+  async start(port: number = LAN_HUB_DEFAULT_PORT): Promise<LanHubStatus> {
+    if (this.server) return this.getStatus()
+
+    const server = http.createServer((req, res) => this.handleHttp(req, res))
+    server.on('upgrade', (req: http.IncomingMessage, socket: Socket) => {
+      if ((req.url || '').split('?')[0] !== WEBSOCKET_PATH) {
+        socket.end('HTTP/1.1 404 Not Found\r\n\r\n')
+        return
+      }
+      const connection = acceptWebSocket(req, socket)
+      if (connection) this.handleConnection(connection)
+    })
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject)
+      server.listen(port, '0.0.0.0', () => {
+        server.off('error', reject)
+        resolve()
+      })
+    })
+
+    this.server = server
+    this.port = port
+    this.pin = crypto.randomInt(0, 1000000).toString().padStart(6, '0')
+    this.pingTimer = setInterval(() => this.pingClients(), PING_INTERVAL_MS)
+    console.log(`[LanHub] Läuft auf Port ${port} (${getLanAddresses().join(', ') || 'keine Netzwerkadresse'})`)
+    return this.getStatus()
+  }
+
+  async stop(): Promise<void> {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer)
+      this.pingTimer = null
+    }
+    for (const client of this.clients) {
+      client.connection.close(1001)  // Server fährt herunter
+    }
+    this.clients.clear()
+    this.sessions.clear()
+    this.members.clear()
+    this.positions.clear()
+    this.windProfiles.clear()
+    this.messages = []
+
+    const server = this.server
+    this.server = null
+    if (server) {
+      await new Promise<void>(resolve => server.close(() => resolve()))
+      console.log('[LanHub] Gestoppt')
+    }
+  }
+
+  getStatus(): LanHubStatus {
+    return {
+      running: this.server !== null,
+      port: this.port,
+      addresses: getLanAddresses(),
+      clients: this.clients.size,
+      liteAvailable: this.liteDir !== null && fs.existsSync(path.join(this.liteDir, 'index.html')),
+      pin: this.pin
+    }
+  }
+
+  // ============================================
+  // WebSocket
+  // ============================================
+
+  private handleConnection(connection: WebSocketConnection): void {
+    const client: LanClient = { connection, memberId: null, alive: true }
+    this.clients.add(client)
+    console.log(`[LanHub] Verbindung von ${connection.remoteAddress}`)
+
+    connection.on('pong', () => { client.alive = true })
+    connection.on('message', (text: string) => {
+      client.alive = true
+      let msg: any
+      try {
+        msg = JSON.parse(text)
+      } catch {
+        return
+      }
+      if (msg && typeof msg.type === 'string') this.handleMessage(client, msg)
+    })
+    connection.on('close', () => {
+      this.clients.delete(client)
+      if (client.memberId) {
+        // Nur offline setzen wenn der Member nicht noch eine zweite Verbindung hat
+        const stillConnected = [...this.clients].some(c => c.memberId === client.memberId)
+        const member = this.members.get(client.memberId)
+        if (member && !stillConnected) {
+          member.isOnline = false
+          member.lastSeen = new Date().toISOString()
+          this.broadcastMembers()
+        }
+      }
+      this.emit('status', this.getStatus())
+    })
+    this.emit('status', this.getStatus())
+  }
+
+  private handleMessage(client: LanClient, msg: any): void {
+    switch (msg.type) {
+      case 'hello': {
+        if (msg.pin !== this.pin) {
+          console.warn(`[LanHub] Falsche PIN von ${client.connection.remoteAddress}`)
+          this.sendTo(client, { type: 'rejected', reason: 'pin' })
+          client.connection.close(1008)  // Policy Violation
+          return
+        }
+
+        // Bekanntes Token -> gleiche ID wie vorher, sonst neue ID und neues Token
+        let token = typeof msg.token === 'string' ? msg.token : ''
+        let memberId = this.sessions.get(token)
+        if (!memberId) {
+          memberId = crypto.randomUUID()
+          token = crypto.randomBytes(16).toString('hex')
+          this.sessions.set(token, memberId)
+        }
+        client.memberId = memberId
+        this.members.set(memberId, {
+          memberId,
+          callsign: String(msg.callsign || 'Gast').slice(0, 30),
+          color: typeof msg.color === 'string' ? msg.color : '#6b7280',
+          role: msg.role === 'crew' ? 'crew' : 'pilot',
+          isOnline: true,
+          lastSeen: new Date().toISOString()
+        })
+        this.sendTo(client, {
+          type: 'welcome',
+          memberId,
+          token,
+          members: [...this.members.values()],
+          positions: [...this.positions.values()],
+          windProfiles: [...this.windProfiles.values()],
+          // Private Nachrichten nur an Sender und Empfänger
+          messages: this.messages.filter(m =>
+            !m.targetMemberId || m.targetMemberId === memberId || m.memberId === memberId
+          )
+        })
+        this.broadcastMembers()
+        break
+      }
+
+      case 'position': {
+        if (!client.memberId) return
+        const position = { ...msg, memberId: client.memberId }
+        this.positions.set(client.memberId, position)
+        this.touch(client.memberId)
+        this.broadcast(position, client)
+        break
+      }
+
+      case 'wind_profile': {
+        if (!client.memberId) return
+        const profile = { ...msg, memberId: client.memberId }
+        this.windProfiles.set(client.memberId, profile)
+        this.broadcast(profile, client)
+        break
+      }
+
+      case 'message': {
+        if (!client.memberId || typeof msg.message !== 'string') return
+        const message = {
+          type: 'message',
+          id: typeof msg.id === 'string' ? msg.id : crypto.randomUUID(),
+          memberId: client.memberId,
+          message: msg.message.slice(0, 1000),
+          targetMemberId: msg.targetMemberId || null,
+          createdAt: new Date().toISOString()
+        }
+        this.messages.push(message)
+        if (this.messages.length > MAX_MESSAGES) this.messages.shift()
+
+        for (const other of this.clients) {
+          if (other === client) continue
+          if (message.targetMemberId && other.memberId !== message.targetMemberId) continue
+          this.sendTo(other, message)
+        }
+        break
+      }
+    }
+  }
+
+  private touch(memberId: string): void {
+    const member = this.members.get(memberId)
+    if (member) member.lastSeen = new Date().toISOString()
+  }
+
+  private broadcastMembers(): void {
+    this.broadcast({ type: 'members', members: [...this.members.values()] })
+  }
+
+  private broadcast(msg: any, except?: LanClient): void {
+    const text = JSON.stringify(msg)
+    for (const client of this.clients) {
+      if (client !== except && client.memberId) client.connection.send(text)
+    }
+  }
+
+  private sendTo(client: LanClient, msg: any): void {
+    client.connection.send(JSON.stringify(msg))
+  }
+
+  // Tote Verbindungen (Handy im Standby, WLAN verlassen) erkennen
+  private pingClients(): void {
+    for (const client of this.clients) {
+      if (!client.alive) {
+        client.connection.close(1001)
+        continue
+      }
+      client.alive = false
+      client.connection.ping()
+    }
+  }
+
+  // ============================================
+  // HTTP (Lite-App ausliefern)
+  // ============================================
+
+  private handleHttp(req: http.IncomingMessage, res: http.ServerResponse): void {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405)
+      res.end()
+      return
+    }
+    if (!this.liteDir || !fs.existsSync(this.liteDir)) {
+      res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' })
+      res.end('NTA Lite ist in diesem Build nicht enthalten (npm run build:lite).')
+      return
+    }
+
+    let urlPath: string
+    try {
+      urlPath = decodeURIComponent((req.url || '/').split('?')[0])
+    } catch {
+      res.writeHead(400)
+      res.end()
+      return
+    }
+    const root = path.normalize(this.liteDir)
+    let filePath = path.normalize(path.join(root, urlPath))
+    // Kein Zugriff außerhalb von dist-lite
+    if (filePath !== root && !filePath.startsWith(root + path.sep)) {
+      res.writeHead(403)
+      res.end()
+      return
+    }
+    if (!fs.existsSync(filePath) || fs.statSync(filePath).isDirectory()) {
+      filePath = path.join(this.liteDir, 'index.html')  // SPA-Fallback
+    }
+
+    fs.readFile(filePath, (err, data) => {
+      if (err) {
+        res.writeHead(500)
+        res.end()
+        return
+      }
+      res.writeHead(200, {
+        'Content-Type': CONTENT_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream',
+        'Cache-Control': 'no-cache'
+      })
+      res.end(req.method === 'HEAD' ? undefined : data)
+    })
+  }
+}
+
+/**
+ * IPv4-Adressen aller aktiven Netzwerkschnittstellen (ohne Loopback)
+ */
+function getLanAddresses(): string[] {
+  const addresses: string[] = []
+  const interfaces = os.networkInterfaces()
+  for (const list of Object.values(interfaces)) {
+    for (const iface of list || []) {
+      // family ist je nach Node-Version 'IPv4' oder 4
+      if (String(iface.family) !== 'IPv4' && String(iface.family) !== '4') continue
+      if (!iface.internal) addresses.push(iface.address)
+    }
+  }
+  return addresses
+}
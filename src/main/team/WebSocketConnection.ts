@@ -0,0 +1,200 @@
+import { EventEmitter } from 'events'
+import * as crypto from 'crypto'
+import type { Socket } from 'net'
+import type { IncomingMessage } from 'http'
+
+// Minimaler WebSocket-Server (RFC 6455) ohne externe Abhängigkeit.
+// Nur Textnachrichten, Ping/Pong und Close - mehr braucht der LAN-Hub nicht.
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11'
+const MAX_MESSAGE_SIZE = 1024 * 1024  // 1 MB - Windprofile und Chat sind klein
+
+const OPCODE_CONTINUATION = 0x0
+const OPCODE_TEXT = 0x1
+const OPCODE_BINARY = 0x2
+const OPCODE_CLOSE = 0x8
+const OPCODE_PING = 0x9
+const OPCODE_PONG = 0xa
+
+/**
+ * Eine WebSocket-Verbindung nach erfolgreichem Upgrade.
+ * Events: 'message' (text: string), 'pong', 'close'
+ */
+export class WebSocketConnection extends EventEmitter {
+  readonly remoteAddress: string
+  private socket: Socket
+  private buffer: Buffer = Buffer.alloc(0)
+  private fragments: Buffer[] = []
+  private fragmentSize = 0
+  private closed = false
+
+  constructor(socket: Socket) {
+    super()
+    this.socket = socket
+    this.remoteAddress = (socket.remoteAddress || '').replace(/^::ffff:/, '')
+    socket.setNoDelay(true)
+    socket.on('data', (chunk: Buffer) => this.handleData(chunk))
+    socket.on('close', () => this.handleClose())
+    socket.on('error', () => this.handleClose())
+  }
+
+  get isOpen(): boolean {
+    return !this.closed
+  }
+
+  send(text: string): void {
+    if (this.closed) return
+    this.socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(text, 'utf8')))
+  }
+
+  ping(): void {
+    if (this.closed) return
+    this.socket.write(encodeFrame(OPCODE_PING, Buffer.alloc(0)))
+  }
+
+  close(code: number = 1000): void {
+    if (this.closed) return
+    const payload = Buffer.alloc(2)
+    payload.writeUInt16BE(code, 0)
+    this.socket.write(encodeFrame(OPCODE_CLOSE, payload))
+    this.socket.end()
+    this.handleClose()
+  }
+
+  private handleClose(): void {
+    if (this.closed) return
+    this.closed = true
+    this.socket.destroy()
+    this.emit('close')
+  }
+
+  private handleData(chunk: Buffer): void {
+    this.buffer = this.buffer.length === 0 ? chunk : Buffer.concat([this.buffer, chunk])
+
+    while (!this.closed) {
+      const frame = decodeFrame(this.buffer)
+      if (frame === null) return
+      if (frame === 'invalid') {
+        this.close(1002)  // Protokollfehler
+        return
+      }
+      this.buffer = this.buffer.subarray(frame.length)
+      this.handleFrame(frame.fin, frame.opcode, frame.payload)
+    }
+  }
+
+  private handleFrame(fin: boolean, opcode: number, payload: Buffer): void {
+    switch (opcode) {
+      case OPCODE_TEXT:
+      case OPCODE_BINARY:
+      case OPCODE_CONTINUATION: {
+        if (opcode !== OPCODE_CONTINUATION) {
+          this.fragments = []
+          this.fragmentSize = 0
+        }
+        this.fragments.push(payload)
+        this.fragmentSize += payload.length
+        if (this.fragmentSize > MAX_MESSAGE_SIZE) {
+          this.close(1009)  // Nachricht zu groß
+          return
+        }
+        if (fin) {
+          const message = Buffer.concat(this.fragments).toString('utf8')
+          this.fragments = []
+          this.fragmentSize = 0
+          this.emit('message', message)
+        }
+        break
+      }
+      case OPCODE_PING:
+        if (!this.closed) this.socket.write(encodeFrame(OPCODE_PONG, payload))
+        break
+      case OPCODE_PONG:
+        this.emit('pong')
+        break
+      case OPCODE_CLOSE:
+        this.close(1000)
+        break
+    }
+  }
+}
+
+/**
+ * HTTP-Upgrade-Anfrage annehmen. Gibt null zurück (und schließt den Socket)
+ * wenn es keine gültige WebSocket-Anfrage ist.
+ */
+export function acceptWebSocket(req: IncomingMessage, socket: Socket): WebSocketConnection | null {
+  const key = req.headers['sec-websocket-key']
+  const upgrade = (req.headers['upgrade'] || '').toLowerCase()
+  if (upgrade !== 'websocket' || typeof key !== 'string') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n')
+    return null
+  }
+
+  const accept = crypto.createHash('sha1').update(key + WS_GUID).digest('base64')
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  )
+  return new WebSocketConnection(socket)
+}
+
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  // Server-Frames werden nicht maskiert
+  let header: Buffer
+  if (payload.length < 126) {
+    header = Buffer.alloc(2)
+    header[1] = payload.length
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4)
+    header[1] = 126
+    header.writeUInt16BE(payload.length, 2)
+  } else {
+    header = Buffer.alloc(10)
+    header[1] = 127
+    header.writeUInt32BE(0, 2)
+    header.writeUInt32BE(payload.length, 6)
+  }
+  header[0] = 0x80 | opcode  // FIN
+  return Buffer.concat([header, payload])
+}
+
+/**
+ * Einen Frame vom Anfang des Puffers lesen.
+ * null = noch nicht vollständig, 'invalid' = Protokollfehler
+ */
+function decodeFrame(buf: Buffer): { fin: boolean; opcode: number; payload: Buffer; length: number } | null | 'invalid' {
+  if (buf.length < 2) return null
+  const fin = (buf[0] & 0x80) !== 0
+  const opcode = buf[0] & 0x0f
+  const masked = (buf[1] & 0x80) !== 0
+  let payloadLength = buf[1] & 0x7f
+  let offset = 2
+
+  // Clients müssen maskieren (RFC 6455 5.1)
+  if (!masked) return 'invalid'
+
+  if (payloadLength === 126) {
+    if (buf.length < 4) return null
+    payloadLength = buf.readUInt16BE(2)
+    offset = 4
+  } else if (payloadLength === 127) {
+    if (buf.length < 10) return null
+    if (buf.readUInt32BE(2) !== 0) return 'invalid'
+    payloadLength = buf.readUInt32BE(6)
+    offset = 10
+  }
+  if (payloadLength > MAX_MESSAGE_SIZE) return 'invalid'
+
+  if (buf.length < offset + 4 + payloadLength) return null
+  const mask = buf.subarray(offset, offset + 4)
+  offset += 4
+
+  const payload = Buffer.alloc(payloadLength)
+  for (let i = 0; i < payloadLength; i++) {
+    payload[i] = buf[offset + i] ^ mask[i & 3]
+  }
+  return { fin, opcode, payload, length: offset + payloadLength }
+}
@@ -7,6 +7,7 @@ import { BriefingPanel } from './components/BriefingPanel'
 import { DrawingPanel } from './components/DrawingPanel'
 import { LiveTeamPanel } from './components/LiveTeamPanel'
 import { GroundWindToast } from './components/GroundWindToast'
+import { ReplayPanel } from './components/ReplayPanel'
 import { BackupDialog } from './components/BackupDialog'
 import { useFlightStore } from './stores/flightStore'
 import { useTeamStore, type TeamMessage } from './stores/teamStore'
@@ -15,6 +16,7 @@ import { LoginScreen } from './components/LoginScreen'
 import { supabase } from './lib/supabase'
 import type { Task, ProhibitedZone } from '../shared/types'
 import { latLonToUTM } from './utils/coordinatesWGS84'
+import { isPointInPolygon } from './utils/navigation'
 
 // Aktuelle App-Version (muss bei jedem Release angepasst werden)
 const APP_VERSION = '1.3.1'
@@ -75,30 +77,6 @@ function distanceToPolygon(lat: number, lon: number, polygon: { lat: number; lon
   return minDist
 }
 
-// Point-in-Polygon Test (Ray-Casting Algorithmus)
-// Behandelt auch offene Tracks als geschlossene Polygone
-function isPointInPolygon(lat: number, lon: number, polygon: { lat: number; lon: number }[]): boolean {
-  if (polygon.length < 3) return false
-
-  let inside = false
-  const n = polygon.length
-
-  for (let i = 0, j = n - 1; i < n; j = i++) {
-    const yi = polygon[i].lat
-    const xi = polygon[i].lon
-    const yj = polygon[j].lat
-    const xj = polygon[j].lon
-
-    // Ray-Casting: Zähle Schnittpunkte mit horizontaler Linie nach rechts
-    if (((yi > lat) !== (yj > lat)) &&
-        (lon < (xj - xi) * (lat - yi) / (yj - yi) + xi)) {
-      inside = !inside
-    }
-  }
-
-  return inside
-}
-
 function App() {
   const isAuthenticated = useAuthStore(s => s.isAuthenticated)
   const authLoading = useAuthStore(s => s.isLoading)
@@ -233,6 +211,7 @@ function App() {
   const [clickedPosition, setClickedPosition] = useState<{ lat: number; lon: number } | null>(null)
   const [taskFormActive, setTaskFormActive] = useState(false)
   const [disconnectNotification, setDisconnectNotification] = useState(false)
+  const [failoverNotification, setFailoverNotification] = useState<{ from: string | null; to: string | null; reason: string } | null>(null)
 
   // Globaler AudioContext - wird wiederverwendet statt jedes Mal neu erstellt
   const sharedAudioContextRef = useRef<AudioContext | null>(null)
@@ -452,6 +431,24 @@ function App() {
     }
   }, [])
 
+  // Umschalten der GPS-Quelle bei mehreren Sensoren anzeigen
+  useEffect(() => {
+    const api = window.ntaAPI
+    if (!api?.bluetooth?.onFailover) return
+
+    let timer: ReturnType<typeof setTimeout> | null = null
+    api.bluetooth.onFailover((failover) => {
+      setFailoverNotification(failover)
+      if (timer) clearTimeout(timer)
+      timer = setTimeout(() => setFailoverNotification(null), 10000)
+    })
+
+    return () => {
+      if (timer) clearTimeout(timer)
+      api.bluetooth.offFailover?.()
+    }
+  }, [])
+
   // Reminder Sound stoppen
   const stopReminderSound = useCallback(() => {
     if (reminderSoundIntervalRef.current) {
@@ -1544,6 +1541,55 @@ function App() {
         </div>
       )}
 
+      {/* Sensor-Umschaltung (mehrere Quellen) */}
+      {failoverNotification && !disconnectNotification && (
+        <div style={{
+          position: 'fixed',
+          top: '80px',
+          right: '20px',
+          background: failoverNotification.to
+            ? 'linear-gradient(135deg, #f59e0b, #d97706)'
+            : 'linear-gradient(135deg, #ef4444, #dc2626)',
+          color: 'white',
+          padding: '16px 24px',
+          borderRadius: '12px',
+          boxShadow: '0 4px 12px rgba(245, 158, 11, 0.4)',
+          zIndex: 10001,
+          display: 'flex',
+          alignItems: 'center',
+          gap: '12px',
+          animation: 'slideIn 0.3s ease-out',
+          minWidth: '300px'
+        }}>
+          <svg width="24" height="24" viewBox="0 0 20 20" fill="currentColor">
+            <path fillRule="evenodd" d="M4 2a1 1 0 011 1v2.101a7.002 7.002 0 0111.601 2.566 1 1 0 11-1.885.666A5.002 5.002 0 005.999 7H9a1 1 0 010 2H4a1 1 0 01-1-1V3a1 1 0 011-1zm.008 9.057a1 1 0 011.276.61A5.002 5.002 0 0014.001 13H11a1 1 0 110-2h5a1 1 0 011 1v5a1 1 0 11-2 0v-2.101a7.002 7.002 0 01-11.601-2.566 1 1 0 01.61-1.276z" clipRule="evenodd" />
+          </svg>
+          <div style={{ flex: 1 }}>
+            <div style={{ fontWeight: 600, marginBottom: '4px' }}>
+              {failoverNotification.to ? `GPS-Quelle: ${failoverNotification.to}` : 'Kein GPS-Fix!'}
+            </div>
+            <div style={{ fontSize: '13px', opacity: 0.9 }}>
+              {failoverNotification.from} — {failoverNotification.reason}
+            </div>
+          </div>
+          <button
+            onClick={() => setFailoverNotification(null)}
+            style={{
+              background: 'rgba(255, 255, 255, 0.2)',
+              border: 'none',
+              color: 'white',
+              cursor: 'pointer',
+              padding: '6px',
+              borderRadius: '6px',
+              fontSize: '18px',
+              lineHeight: 1
+            }}
+          >
+            ✕
+          </button>
+        </div>
+      )}
+
       {/* Disconnect Notification */}
       {disconnectNotification && (
         <div style={{
@@ -1688,6 +1734,9 @@ function App() {
       {/* Ground Wind Toast - eigene Komponente wegen HMR */}
       <GroundWindToast />
 
+      {/* Flug-Replay Timeline */}
+      <ReplayPanel />
+
       {/* Task Reminder Notification - rechts oben */}
       {taskReminder && (() => {
         const notifScale = settings.notificationScale ?? 1
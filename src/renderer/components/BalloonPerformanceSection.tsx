@@ -0,0 +1,140 @@
+/**
+ * Ballon-Flugverhalten in den Pilot-Einstellungen
+ * Zeigt das gelernte Profil des eingestellten Ballons und schätzt es aus den
+ * eigenen Tracks (aktuelle Fahrt + gespeicherte Fahrten) neu.
+ */
+import React, { useState } from 'react'
+import { useFlightStore } from '../stores/flightStore'
+import { getOutdoor } from '../utils/outdoorStyles'
+import { useCompute } from '../hooks/useCompute'
+import { loadStoredTracks } from '../services/storedFlights'
+import { performanceKey, MIN_PERFORMANCE_MANEUVERS } from '../utils/balloonPerformance'
+import type { AppSettings, TrackPoint } from '../../shared/types'
+
+interface Props {
+  onUpdate: (settings: Partial<AppSettings>) => void
+}
+
+export function BalloonPerformanceSection({ onUpdate }: Props) {
+  const settings = useFlightStore(s => s.settings)
+  const track = useFlightStore(s => s.track)
+  const o = getOutdoor(settings.outdoorMode)
+
+  const [loading, setLoading] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const estimateCompute = useCompute('balloonPerformance')
+  const busy = loading || estimateCompute.busy
+
+  const key = performanceKey(settings.balloonId)
+  const performance = settings.balloonPerformance?.[key] ?? null
+
+  const handleEstimate = async () => {
+    setMessage(null)
+    setLoading(true)
+    let stored: TrackPoint[][] = []
+    try {
+      stored = (await loadStoredTracks(settings.balloonId)).tracks
+    } catch (err) {
+      console.warn('[BalloonPerf] Gespeicherte Fahrten nicht lesbar:', err)
+    }
+    setLoading(false)
+
+    // Aktuelle Fahrt kann auch schon gespeichert sein - Tracks nur einmal zählen
+    const byStart = new Map<string, TrackPoint[]>()
+    for (const t of [...stored, track]) {
+      if (t.length === 0) continue
+      byStart.set(new Date(t[0].timestamp).toISOString(), t)
+    }
+    const tracks = [...byStart.values()]
+    if (tracks.length === 0) {
+      setMessage('Keine Tracks vorhanden')
+      return
+    }
+
+    try {
+      const outcome = await estimateCompute.run([tracks])
+      if (!outcome) return
+      const result = outcome.result
+      if (!result) {
+        setMessage(`Zu wenige Steig-/Sinkphasen in ${tracks.length} Tracks (mind. ${MIN_PERFORMANCE_MANEUVERS})`)
+        return
+      }
+      onUpdate({ balloonPerformance: { ...settings.balloonPerformance, [key]: result } })
+      setMessage(`Aus ${result.maneuvers} Manövern in ${result.flights} Fahrten geschätzt`)
+    } catch (err: any) {
+      setMessage(`Fehler: ${err?.message || err}`)
+    }
+  }
+
+  const handleReset = () => {
+    const { [key]: _removed, ...rest } = settings.balloonPerformance || {}
+    onUpdate({ balloonPerformance: rest })
+    setMessage(null)
+  }
+
+  const row = (label: string, value: string) => (
+    <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '12px', marginBottom: '4px' }}>
+      <span style={{ color: `rgba(${o.c},${o.c},${o.c},0.5)` }}>{label}</span>
+      <span style={{ color: o.textColor, fontWeight: 600, fontFamily: 'monospace' }}>{value}</span>
+    </div>
+  )
+
+  return (
+    <div style={{ marginTop: '20px', paddingTop: '16px', borderTop: `1px solid rgba(${o.c},${o.c},${o.c},0.1)` }}>
+      <div style={{ fontSize: '12px', color: `rgba(${o.c},${o.c},${o.c},0.7)`, marginBottom: '12px', fontWeight: 600 }}>
+        Ballon-Flugverhalten · {key}
+      </div>
+
+      {performance ? (
+        <div style={{ padding: '12px', background: `rgba(${o.c},${o.c},${o.c},0.05)`, borderRadius: '8px', marginBottom: '8px' }}>
+          {row('Anlaufzeit', `${performance.responseLagSec} s`)}
+          {row('Max. Steigen / Sinken', `${performance.maxClimbRate.toFixed(1)} / ${performance.maxSinkRate.toFixed(1)} m/s`)}
+          {row('Überschwingen', `≈ ${Math.round(performance.overshootPerMs * 2)} m bei 2 m/s`)}
+          <div style={{ fontSize: '10px', color: `rgba(${o.c},${o.c},${o.c},0.35)`, marginTop: '6px' }}>
+            {performance.maneuvers} Manöver aus {performance.flights} Fahrten · {new Date(performance.updatedAt).toLocaleDateString()}
+          </div>
+        </div>
+      ) : (
+        <div style={{ padding: '12px', background: `rgba(${o.c},${o.c},${o.c},0.05)`, borderRadius: '8px', color: `rgba(${o.c},${o.c},${o.c},0.5)`, fontSize: '12px', marginBottom: '8px' }}>
+          Nicht geschätzt - die Rechner nehmen an, dass die Rate sofort anliegt
+        </div>
+      )}
+
+      <div style={{ display: 'flex', gap: '8px' }}>
+        <button
+          onClick={handleEstimate}
+          disabled={busy}
+          style={{
+            flex: 1, padding: '8px 12px', borderRadius: '6px',
+            background: 'rgba(59,130,246,0.15)', border: '1px solid rgba(59,130,246,0.3)',
+            color: '#3b82f6', fontSize: '12px', fontWeight: 600,
+            cursor: busy ? 'wait' : 'pointer', opacity: busy ? 0.6 : 1
+          }}
+        >
+          {loading
+            ? 'Lade Fahrten...'
+            : estimateCompute.progress !== null
+              ? `Auswerten... ${Math.round(estimateCompute.progress * 100)}%`
+              : 'Aus Tracks schätzen'}
+        </button>
+        {performance && (
+          <button
+            onClick={handleReset}
+            disabled={busy}
+            style={{
+              padding: '8px 12px', borderRadius: '6px',
+              background: 'rgba(239,68,68,0.15)', border: '1px solid rgba(239,68,68,0.3)',
+              color: '#ef4444', fontSize: '12px', cursor: 'pointer'
+            }}
+          >Zurücksetzen</button>
+        )}
+      </div>
+
+      {message && (
+        <div style={{ fontSize: '11px', color: `rgba(${o.c},${o.c},${o.c},0.6)`, marginTop: '6px' }}>
+          {message}
+        </div>
+      )}
+    </div>
+  )
+}
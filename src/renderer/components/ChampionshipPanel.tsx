@@ -6,6 +6,10 @@ import { useAuthStore } from '../stores/authStore'
 import type { FlightDataSnapshot } from '../stores/flightStore'
 import { parsePZFile, exportPZtoPLT, exportPZtoWPT, exportAllPZtoWPT, exportAllPZtoPLT, downloadFile } from '../utils/pzParser'
 import { AptProfileViewer, type AptProfileData } from './AptProfileViewer'
+import { importFlightFile, describeSignature } from '../utils/flightImport'
+import { exportToIGC, generateIGCFilename, generateFlightReport } from '../utils/igcExport'
+import { createReplaySource } from '../utils/flightReplay'
+import { loadTrackData } from '../utils/trackDb'
 import { latLonToUTM } from '../utils/coordinatesWGS84'
 import type { ProhibitedZone } from '../../shared/types'
 
@@ -97,13 +101,15 @@ export function ChampionshipPanel({ onClose }: { onClose: () => void }) {
   const { user } = useAuthStore()
   const {
     activeMaps, toggleActiveMap, savedCompetitionMaps,
-    getFlightSnapshot, loadFlightData, clearFlightData,
+    getFlightSnapshot, getCurrentFlight, loadFlightData, loadImportedFlight, clearFlightData, startReplay,
+    importedFlightSignature,
     setProhibitedZones, prohibitedZones, settings, startPzDrawMode,
     tasksheetCoordPicker
   } = useFlightStore()
 
   const o = getOutdoor(settings.outdoorMode)
   const pzFileInputRef = useRef<HTMLInputElement>(null)
+  const flightFileInputRef = useRef<HTMLInputElement>(null)
 
   // ─── State ───
   const [championships, setChampionships] = useState<Championship[]>([])
@@ -535,6 +541,101 @@ export function ChampionshipPanel({ onClose }: { onClose: () => void }) {
     } catch { setError('Fehler beim Laden') }
   }
 
+  // Gespeicherte Fahrt auf der Timeline abspielen (Nachbesprechung)
+  const handleReplayFlight = async (flightId: string, flightName: string) => {
+    try {
+      if (!selectedChampionship || !window.ntaAPI?.flights?.load) {
+        setError('Lokale Flugdaten nicht verfügbar')
+        return
+      }
+
+      const result = await window.ntaAPI.flights.load({ championshipId: selectedChampionship.id, flightId })
+      if (!result.success || !result.data) { setError(`Fehler: ${result.error || 'Keine Daten'}`); return }
+
+      if (!startReplay(createReplaySource(result.data), flightName)) {
+        setError('Replay nicht möglich – Aufzeichnung läuft oder zu wenig Trackpunkte')
+        return
+      }
+      onClose()
+    } catch { setError('Fehler beim Laden') }
+  }
+
+  // Aktuellen (lokal gespeicherten) Track abspielen
+  const handleReplayCurrentTrack = async () => {
+    const { track } = await loadTrackData()
+    const state = useFlightStore.getState()
+    const source = createReplaySource({
+      track,
+      markers: state.markers,
+      declarations: state.declarations,
+      windLayers: state.windLayers
+    })
+    if (!startReplay(source, 'Aktueller Track')) {
+      setError('Replay nicht möglich – Aufzeichnung läuft oder zu wenig Trackpunkte')
+      return
+    }
+    onClose()
+  }
+
+  // Fremde oder ältere Aufzeichnung (IGC/GPX) zur Auswertung laden
+  const handleImportFlightFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    try {
+      const result = await importFlightFile(await file.text(), file.name)
+      if (!result.success || !result.flight) {
+        setError(result.errors[0] || 'Import fehlgeschlagen')
+        return
+      }
+
+      if (!loadImportedFlight(result.flight, result.signature)) {
+        setError('Import nicht möglich – Aufzeichnung oder Replay läuft')
+        return
+      }
+      // Import-Hinweise und ungültige Signatur: Panel offen lassen, damit sie sichtbar bleiben
+      const notes = [...result.warnings]
+      if (result.signature?.signed && !result.signature.valid) notes.unshift(describeSignature(result.signature))
+      if (notes.length > 0) {
+        setError(`${file.name} geladen – ${notes.join(' · ')}`)
+        return
+      }
+      setSuccessMsg(`${file.name} geladen (${result.flight.track.length} Punkte, ${result.flight.markers.length} Marker)`)
+      onClose()
+    } catch { setError('Fehler beim Importieren') }
+  }
+
+  // Aktuelle Fahrt als signierte IGC-Datei exportieren
+  const handleExportIGC = async () => {
+    const flight = getCurrentFlight()
+    if (!flight) {
+      setError('Kein Track vorhanden')
+      return
+    }
+    try {
+      downloadFile(await exportToIGC(flight), generateIGCFilename(flight))
+      setSuccessMsg('IGC exportiert')
+    } catch { setError('IGC Export fehlgeschlagen') }
+  }
+
+  // Auswertung nach der Fahrt: Statistik, Task-Ergebnisse und Verstöße als Textbericht
+  const handleFlightReport = () => {
+    const flight = getCurrentFlight()
+    if (!flight) {
+      setError('Kein Track vorhanden')
+      return
+    }
+    try {
+      const report = generateFlightReport(flight, prohibitedZones, {
+        pzAltitudeUnit: settings.pzAltitudeUnit,
+        taskTimeZone: settings.taskTimeZone
+      })
+      downloadFile(report, generateIGCFilename(flight).replace(/\.igc$/, '-report.txt'))
+      setSuccessMsg('Flugbericht erstellt')
+    } catch { setError('Flugbericht fehlgeschlagen') }
+  }
+
   const handleDeleteFlight = async (id: string) => {
     try {
       if (!selectedChampionship) return
@@ -818,8 +919,71 @@ export function ChampionshipPanel({ onClose }: { onClose: () => void }) {
                     </svg>
                     Backup
                   </button>
+                  <input type="file" ref={flightFileInputRef} accept=".igc,.gpx" style={{ display: 'none' }} onChange={handleImportFlightFile} />
+                  <button onClick={() => flightFileInputRef.current?.click()} title="IGC/GPX Aufzeichnung zur Auswertung laden" style={{
+                    flex: 1, padding: '12px', background: 'rgba(59,130,246,0.15)', border: '1px solid rgba(59,130,246,0.3)',
+                    borderRadius: '8px', color: '#3b82f6', fontSize: '12px', fontWeight: 600, cursor: 'pointer',
+                    display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '6px'
+                  }}>
+                    <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/>
+                      <polyline points="7 10 12 15 17 10"/>
+                      <line x1="12" y1="15" x2="12" y2="3"/>
+                    </svg>
+                    IGC/GPX Import
+                  </button>
+                  <button onClick={handleReplayCurrentTrack} title="Aktuellen Track auf der Timeline abspielen" style={{
+                    flex: 1, padding: '12px', background: 'rgba(245,158,11,0.15)', border: '1px solid rgba(245,158,11,0.3)',
+                    borderRadius: '8px', color: '#f59e0b', fontSize: '12px', fontWeight: 600, cursor: 'pointer',
+                    display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '6px'
+                  }}>
+                    <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <polygon points="5 3 19 12 5 21 5 3"/>
+                    </svg>
+                    Replay
+                  </button>
+                  <button onClick={handleExportIGC} title="Aktuelle Fahrt als signierte IGC-Datei speichern" style={{
+                    flex: 1, padding: '12px', background: 'rgba(20,184,166,0.15)', border: '1px solid rgba(20,184,166,0.3)',
+                    borderRadius: '8px', color: '#14b8a6', fontSize: '12px', fontWeight: 600, cursor: 'pointer',
+                    display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '6px'
+                  }}>
+                    <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/>
+                      <polyline points="17 8 12 3 7 8"/>
+                      <line x1="12" y1="3" x2="12" y2="15"/>
+                    </svg>
+                    IGC Export
+                  </button>
+                  <button onClick={handleFlightReport} title="Auswertung der aktuellen Fahrt (Tasks, Verstöße) als Bericht speichern" style={{
+                    flex: 1, padding: '12px', background: 'rgba(236,72,153,0.15)', border: '1px solid rgba(236,72,153,0.3)',
+                    borderRadius: '8px', color: '#ec4899', fontSize: '12px', fontWeight: 600, cursor: 'pointer',
+                    display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '6px'
+                  }}>
+                    <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"/>
+                      <polyline points="14 2 14 8 20 8"/>
+                      <line x1="8" y1="13" x2="16" y2="13"/>
+                      <line x1="8" y1="17" x2="16" y2="17"/>
+                    </svg>
+                    Bericht
+                  </button>
                 </div>
 
+                {/* Signaturstatus der importierten IGC-Fahrt */}
+                {importedFlightSignature && (() => {
+                  const ok = importedFlightSignature.valid && importedFlightSignature.trusted
+                  const color = !importedFlightSignature.signed ? `rgba(${o.c},${o.c},${o.c},0.5)`
+                    : !importedFlightSignature.valid ? '#ef4444' : ok ? '#22c55e' : '#f59e0b'
+                  return (
+                    <div style={{
+                      marginBottom: '12px', padding: '8px 12px', borderRadius: '8px', fontSize: '11px',
+                      background: `rgba(${o.c},${o.c},${o.c},0.05)`, border: `1px solid ${color}`, color
+                    }}>
+                      Importierte IGC-Fahrt: {describeSignature(importedFlightSignature)}
+                    </div>
+                  )
+                })()}
+
                 {/* Neue Fahrt speichern */}
                 <div style={{ marginBottom: '16px', padding: '12px', background: 'rgba(34,197,94,0.1)', borderRadius: '8px', border: '1px solid rgba(34,197,94,0.2)' }}>
                   <div style={{ fontSize: '11px', color: '#22c55e', fontWeight: 600, marginBottom: '8px' }}>Fahrt abschließen & speichern</div>
@@ -862,6 +1026,13 @@ export function ChampionshipPanel({ onClose }: { onClose: () => void }) {
                       <button onClick={() => handleLoadFlight(flight.id, flight.name)} title={flight.isAptProfile ? 'Profil anzeigen' : 'Laden'} style={{
                         padding: '6px 12px', background: flight.isAptProfile ? '#06b6d4' : '#3b82f6', border: 'none', borderRadius: '4px', color: '#fff', fontSize: '11px', fontWeight: 600, cursor: 'pointer'
                       }}>{flight.isAptProfile ? 'Anzeigen' : 'Laden'}</button>
+                      {flight.hasTrack && (
+                        <button onClick={() => handleReplayFlight(flight.id, flight.name)} title="Replay" style={{
+                          padding: '6px 8px', background: 'rgba(245,158,11,0.15)', border: 'none', borderRadius: '4px', color: '#f59e0b', cursor: 'pointer'
+                        }}>
+                          <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><polygon points="5 3 19 12 5 21 5 3"/></svg>
+                        </button>
+                      )}
                       {flight.hasTrack && (
                         <button onClick={() => handleOpen3DView(flight.id)} title="3D Ansicht" style={{
                           padding: '6px 8px', background: 'rgba(139,92,246,0.15)', border: 'none', borderRadius: '4px', color: '#a78bfa', cursor: 'pointer'
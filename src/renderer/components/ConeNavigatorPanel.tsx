@@ -4,8 +4,11 @@
 import React, { useState, useEffect } from 'react'
 import { useFlightStore } from '../stores/flightStore'
 import { getOutdoor } from '../utils/outdoorStyles'
-import { calculateCone, calculateConeGuidance, ConeResult, TurnLayer } from '../utils/coneNavigator'
+import { calculateConeGuidance, ConeResult, TurnLayer } from '../utils/coneNavigator'
+import { windFieldForFilter } from '../utils/windField'
 import { latLonToMGRS, formatCoordinate } from '../utils/coordinatesWGS84'
+import { useCompute } from '../hooks/useCompute'
+import { findBalloonPerformance } from '../utils/balloonPerformance'
 import { Goal, WindSource, WindSourceFilter } from '../../shared/types'
 
 interface Props {
@@ -28,6 +31,7 @@ export function ConeNavigatorPanel({ onClose, style, onMouseDown, onTouchStart }
     if (coneWindFilter === 'sounding') return l.source === WindSource.Windsond || l.source === WindSource.Pibal
     return true
   })
+  const windField = windFieldForFilter(useFlightStore(s => s.windField), coneWindFilter)
   const activeCompetitionMap = useFlightStore(s => s.activeCompetitionMap)
   const effectiveUtmZone = activeCompetitionMap?.utmReprojection?.utmZone || activeCompetitionMap?.utmZone || settings.utmZone || 33
 
@@ -37,6 +41,7 @@ export function ConeNavigatorPanel({ onClose, style, onMouseDown, onTouchStart }
   const [maxAltFt, setMaxAltFt] = useState(0)
   const [minDistM, setMinDistM] = useState(1000)
   const [pendingResult, setPendingResult] = useState<ConeResult | null>(null)  // Ergebnis das auf Bestätigung wartet
+  const coneCompute = useCompute('cone')
   const cone = coneResult as ConeResult | null
   const declared = coneDeclared as { lat: number; lon: number; altitude: number; turnLayer: TurnLayer } | null
 
@@ -49,7 +54,7 @@ export function ConeNavigatorPanel({ onClose, style, onMouseDown, onTouchStart }
   const guidance = declared && gpsData ? calculateConeGuidance(
     gpsData.latitude, gpsData.longitude, currentAlt,
     declared.lat, declared.lon, declared.altitude,
-    declared.turnLayer, filteredWindLayers, varioMs
+    declared.turnLayer, filteredWindLayers, varioMs, windField
   ) : null
 
   const targetReached = declared && Math.abs(currentAlt - declared.altitude) < 15
@@ -68,17 +73,32 @@ export function ConeNavigatorPanel({ onClose, style, onMouseDown, onTouchStart }
     }
   }, [guidance?.livePath?.length, gpsData?.latitude, gpsData?.longitude, currentAlt, targetReached])
 
+  // Eingaben geändert → laufende Berechnung abbrechen
+  useEffect(() => {
+    coneCompute.cancel()
+  }, [direction, minAltFt, maxAltFt, minDistM, coneWindFilter, selectedGoal?.id])
+
   // Berechnen — erst prüfen, dann bei Warnung Bestätigung zeigen
-  const handleCalculate = () => {
+  const handleCalculate = async () => {
     if (!gpsData || !selectedGoal || filteredWindLayers.length === 0) return
     const alt = baroData?.pressureAltitude || gpsData.altitude || 0
 
-    const result = calculateCone({
-      lat: gpsData.latitude, lon: gpsData.longitude, altitude: alt,
-      direction, minAltChangeFt: minAltFt, maxAltitudeFt: maxAltFt, minDistanceM: minDistM,
-      windLayers: filteredWindLayers,
-      goalLat: selectedGoal.position.latitude, goalLon: selectedGoal.position.longitude
-    })
+    let result: ConeResult | null
+    try {
+      const outcome = await coneCompute.run([{
+        lat: gpsData.latitude, lon: gpsData.longitude, altitude: alt,
+        direction, minAltChangeFt: minAltFt, maxAltitudeFt: maxAltFt, minDistanceM: minDistM,
+        windLayers: filteredWindLayers,
+        goalLat: selectedGoal.position.latitude, goalLon: selectedGoal.position.longitude,
+        windField,
+        performance: findBalloonPerformance(settings)
+      }])
+      if (!outcome) return  // abgebrochen
+      result = outcome.result
+    } catch (e) {
+      console.error('[Cone] Berechnungsfehler:', e)
+      return
+    }
 
     if (!result) return
 
@@ -213,14 +233,14 @@ export function ConeNavigatorPanel({ onClose, style, onMouseDown, onTouchStart }
             onChange={e => setMinDistM(Number(e.target.value))}
             style={{ width: '100%', accentColor: '#06b6d4', cursor: 'pointer', marginBottom: '10px' }} />
 
-          <button onClick={handleCalculate} disabled={!canCalculate}
+          <button onClick={handleCalculate} disabled={!canCalculate || coneCompute.busy}
             style={{
               width: '100%', padding: '10px', borderRadius: '6px', border: 'none',
               background: canCalculate ? 'linear-gradient(135deg, #06b6d4, #0891b2)' : `rgba(${o.c},${o.c},${o.c},${o.on ? 0.06 : 0.03})`,
               color: canCalculate ? 'white' : `rgba(${o.c},${o.c},${o.c},${o.on ? 0.3 : 0.2})`,
               fontSize: '12px', fontWeight: 700, cursor: canCalculate ? 'pointer' : 'not-allowed'
             }}>
-            Berechnen & Deklarieren
+            {coneCompute.busy ? 'Berechne...' : 'Berechnen & Deklarieren'}
           </button>
           {!canCalculate && (
             <div style={{ fontSize: '9px', color: '#f59e0b', marginTop: '5px', textAlign: 'center' }}>
@@ -9,9 +9,27 @@ interface BluetoothDevice {
   rssi: number
 }
 
+interface NmeaLogInfo {
+  fileName: string
+  path: string
+  size: number
+  date: string
+}
+
 // Wartezeit für GPS-Check nach Verbindung (in ms)
 const GPS_CHECK_DELAY = 5000
 
+// Virtuelles Gerät: spielt ein aufgezeichnetes NMEA-Log über den BLS-Parser ab
+const VIRTUAL_DEVICE_PREFIX = 'virtual:'
+const REPLAY_SPEEDS = [1, 2, 5, 10, 30]
+
+// Weitere Sensoren: BLS 115200, FLARM/LXNAV meist 19200 oder 38400, u-blox ab Werk 9600
+const SOURCE_BAUD_RATES = [115200, 38400, 19200, 9600]
+
+function formatLogSize(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`
+}
+
 // Extrahiere BLS Sensor Nummer aus dem Namen
 function extractBLSSensorNumber(name: string): string | null {
   // Suche nach Muster wie "BLS 01", "BLS-02", "BLS01" etc.
@@ -68,6 +86,25 @@ interface BLSDebugStats {
   qnh: number
   isConnected: boolean
   rawLog: string[]
+  recordingFile?: string | null
+  replay?: { fileName: string; speed: number; index: number; total: number; logTime: number } | null
+  sources?: SensorSourceStatus[]
+  activeGpsSource?: string | null
+  activeBaroSource?: string | null
+}
+
+// Zustand einer NMEA-Quelle (BluetoothManager bei mehreren Sensoren)
+interface SensorSourceStatus {
+  id: string
+  name: string
+  kind: string
+  connected: boolean
+  virtual: boolean
+  fixQuality: number
+  satellites: number
+  hdop: number
+  lastFixAt: number
+  lastBaroAt: number
 }
 
 export function ConnectionModal({ onClose }: { onClose: () => void }) {
@@ -78,6 +115,12 @@ export function ConnectionModal({ onClose }: { onClose: () => void }) {
   const [showDebug, setShowDebug] = useState(false)
   const [showRawLog, setShowRawLog] = useState(false)
   const [debugStats, setDebugStats] = useState<BLSDebugStats | null>(null)
+  const [nmeaLogs, setNmeaLogs] = useState<NmeaLogInfo[]>([])
+  const [showLogs, setShowLogs] = useState(false)
+  const [replaySpeed, setReplaySpeed] = useState(1)
+  const [showAddSource, setShowAddSource] = useState(false)
+  const [addSourceBaud, setAddSourceBaud] = useState(SOURCE_BAUD_RATES[0])
+  const [addingSource, setAddingSource] = useState<string | null>(null)
   const rawLogRef = useRef<HTMLDivElement>(null)
   const gpsCheckTimeoutRef = useRef<NodeJS.Timeout | null>(null)
   const {
@@ -141,11 +184,13 @@ export function ConnectionModal({ onClose }: { onClose: () => void }) {
         setConnectionStatus(ConnectionStatus.Connected)
         setConnectionError(null)
 
-        // Speichere zuletzt verbundenes BLS
-        updateSettings({
-          lastConnectedBLS: deviceId,
-          lastConnectedBLSName: deviceName || deviceId
-        })
+        // Speichere zuletzt verbundenes BLS (nicht für virtuelle Geräte)
+        if (!deviceId.startsWith(VIRTUAL_DEVICE_PREFIX)) {
+          updateSettings({
+            lastConnectedBLS: deviceId,
+            lastConnectedBLSName: deviceName || deviceId
+          })
+        }
 
         // GPS Daten abonnieren
         api.gps.subscribe((data: any) => {
@@ -205,9 +250,70 @@ export function ConnectionModal({ onClose }: { onClose: () => void }) {
     }
   }
 
+  // Weiteren Sensor parallel verbinden - GPS/Baro sind schon abonniert,
+  // der BluetoothManager leitet nur die jeweils beste Quelle weiter
+  const handleAddSource = async (deviceId: string) => {
+    const sourceId = addSourceBaud === SOURCE_BAUD_RATES[0] ? deviceId : `${deviceId}@${addSourceBaud}`
+    setAddingSource(deviceId)
+    setConnectionError(null)
+    try {
+      // @ts-ignore
+      const result = await window.ntaAPI?.bluetooth?.addSource?.(sourceId)
+      if (result && !result.success) {
+        setConnectionError(result.error || `Sensor ${deviceId} konnte nicht verbunden werden`)
+      } else {
+        setShowAddSource(false)
+      }
+    } catch (error: any) {
+      setConnectionError(error?.message || 'Unbekannter Verbindungsfehler')
+    }
+    setAddingSource(null)
+  }
+
+  const handleRemoveSource = async (sourceId: string) => {
+    // @ts-ignore
+    await window.ntaAPI?.bluetooth?.disconnectSource?.(sourceId)
+  }
+
+  // Aufgezeichnete NMEA-Logs laden
+  const loadNmeaLogs = async () => {
+    // @ts-ignore
+    const logs = await window.ntaAPI?.bluetooth?.listLogs?.() || []
+    setNmeaLogs(logs)
+  }
+
+  // NMEA-Log als virtuelles Gerät abspielen
+  const handlePlayLog = async (logPath: string, fileName: string) => {
+    // @ts-ignore
+    await window.ntaAPI?.bluetooth?.setReplaySpeed?.(replaySpeed)
+    await handleConnect(`${VIRTUAL_DEVICE_PREFIX}${logPath}`, `Log: ${fileName}`)
+  }
+
+  const handleSelectLogFile = async () => {
+    // @ts-ignore
+    const logPath: string | null = await window.ntaAPI?.bluetooth?.selectLog?.()
+    if (logPath) {
+      await handlePlayLog(logPath, logPath.split(/[\\/]/).pop() || logPath)
+    }
+  }
+
+  const handleDeleteLog = async (fileName: string) => {
+    if (!confirm(`NMEA-Log "${fileName}" löschen?`)) return
+    // @ts-ignore
+    await window.ntaAPI?.bluetooth?.deleteLog?.(fileName)
+    loadNmeaLogs()
+  }
+
+  const handleReplaySpeed = (speed: number) => {
+    setReplaySpeed(speed)
+    // @ts-ignore
+    window.ntaAPI?.bluetooth?.setReplaySpeed?.(speed)
+  }
+
   // Initial Scan beim Öffnen
   useEffect(() => {
     handleScan()
+    loadNmeaLogs()
 
     // Bluetooth Error Events abonnieren
     // @ts-ignore
@@ -218,9 +324,9 @@ export function ConnectionModal({ onClose }: { onClose: () => void }) {
     })
   }, [])
 
-  // Debug-Stats abonnieren wenn Panel offen
+  // Debug-Stats abonnieren wenn verbunden (Monitor + Fortschritt der Log-Wiedergabe)
   useEffect(() => {
-    if (!showDebug) return
+    if (!isConnected) return
     // @ts-ignore
     const api = window.ntaAPI?.bluetooth
     if (!api?.onDebug) return
@@ -230,7 +336,7 @@ export function ConnectionModal({ onClose }: { onClose: () => void }) {
     return () => {
       api.offDebug?.()
     }
-  }, [showDebug])
+  }, [isConnected])
 
   // Auto-Scroll Raw-Log nach unten
   useEffect(() => {
@@ -348,11 +454,52 @@ export function ConnectionModal({ onClose }: { onClose: () => void }) {
                 <div>
                   <div style={{ fontWeight: 600, color: o.textColor, fontSize: '14px' }}>Verbunden</div>
                   <div style={{ fontSize: '12px', color: `rgba(${o.c},${o.c},${o.c},0.5)` }}>
-                    {settings.lastConnectedBLSName || 'Flytec Balloon Live Sensor'}
+                    {debugStats?.replay
+                      ? `Virtuelles Gerät: ${debugStats.replay.fileName}`
+                      : settings.lastConnectedBLSName || 'Flytec Balloon Live Sensor'}
                   </div>
                 </div>
               </div>
 
+              {/* Wiedergabe eines NMEA-Logs */}
+              {debugStats?.replay && (
+                <div style={{
+                  padding: '10px 12px',
+                  marginBottom: '12px',
+                  background: 'rgba(168, 85, 247, 0.1)',
+                  border: '1px solid rgba(168, 85, 247, 0.3)',
+                  borderRadius: '8px'
+                }}>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#a855f7', fontWeight: 600, marginBottom: '6px' }}>
+                    <span>Log-Wiedergabe</span>
+                    <span>{debugStats.replay.index} / {debugStats.replay.total}</span>
+                  </div>
+                  <div style={{ height: '4px', background: `rgba(${o.c},${o.c},${o.c},0.1)`, borderRadius: '2px', overflow: 'hidden', marginBottom: '8px' }}>
+                    <div style={{
+                      width: `${(debugStats.replay.index / Math.max(1, debugStats.replay.total)) * 100}%`,
+                      height: '100%', background: '#a855f7'
+                    }} />
+                  </div>
+                  <div style={{ display: 'flex', gap: '4px' }}>
+                    {REPLAY_SPEEDS.map(speed => (
+                      <button
+                        key={speed}
+                        onClick={() => handleReplaySpeed(speed)}
+                        style={{
+                          flex: 1, padding: '4px 0',
+                          background: debugStats.replay!.speed === speed ? '#a855f7' : `rgba(${o.c},${o.c},${o.c},0.08)`,
+                          border: 'none', borderRadius: '4px',
+                          color: debugStats.replay!.speed === speed ? '#fff' : o.textColor,
+                          fontSize: '10px', fontWeight: 600, cursor: 'pointer'
+                        }}
+                      >
+                        {speed}x
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* GPS Status */}
               <div style={{
                 display: 'flex',
@@ -380,11 +527,138 @@ export function ConnectionModal({ onClose }: { onClose: () => void }) {
                   {gpsData && (
                     <div style={{ fontSize: '10px', color: `rgba(${o.c},${o.c},${o.c},0.5)` }}>
                       {gpsData.satellites} Satelliten • HDOP {gpsData.hdop?.toFixed(1) || '?'}
+                      {gpsData.positionSigma !== undefined && ` • ±${gpsData.positionSigma.toFixed(1)} m`}
                     </div>
                   )}
                 </div>
               </div>
 
+              {/* Sensoren (mehrere Quellen mit automatischer Umschaltung) */}
+              {debugStats?.sources && debugStats.sources.length > 0 && (
+                <div style={{
+                  padding: '10px 12px',
+                  marginBottom: '12px',
+                  background: `rgba(${o.c},${o.c},${o.c},0.04)`,
+                  border: `1px solid rgba(${o.c},${o.c},${o.c},0.1)`,
+                  borderRadius: '8px'
+                }}>
+                  <div style={{ fontSize: '11px', fontWeight: 600, color: `rgba(${o.c},${o.c},${o.c},0.6)`, marginBottom: '6px' }}>
+                    Sensoren ({debugStats.sources.length})
+                  </div>
+                  {debugStats.sources.map(source => {
+                    const hasFix = source.fixQuality > 0 && Date.now() - source.lastFixAt < 3000
+                    return (
+                      <div key={source.id} style={{
+                        display: 'flex', alignItems: 'center', gap: '8px',
+                        padding: '5px 0', fontSize: '11px', color: o.textColor
+                      }}>
+                        <span style={{
+                          width: '8px', height: '8px', borderRadius: '50%', flexShrink: 0,
+                          background: !source.connected ? '#ef4444' : hasFix ? '#22c55e' : '#f59e0b'
+                        }} />
+                        <div style={{ flex: 1, minWidth: 0 }}>
+                          <div style={{ fontWeight: 600, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={source.id}>
+                            {source.name}
+                            {!source.virtual && (
+                              <span style={{ fontWeight: 400, color: `rgba(${o.c},${o.c},${o.c},0.5)` }}> · {source.id}</span>
+                            )}
+                          </div>
+                          <div style={{ fontSize: '10px', color: `rgba(${o.c},${o.c},${o.c},0.5)` }}>
+                            {hasFix
+                              ? `Fix ${source.fixQuality} • ${source.satellites} Sat • HDOP ${source.hdop.toFixed(1)}`
+                              : 'Kein Fix'}
+                          </div>
+                        </div>
+                        {debugStats.activeGpsSource === source.id && (
+                          <span style={{ padding: '1px 6px', borderRadius: '4px', background: '#22c55e', color: '#fff', fontSize: '9px', fontWeight: 700 }}>GPS</span>
+                        )}
+                        {debugStats.activeBaroSource === source.id && (
+                          <span style={{ padding: '1px 6px', borderRadius: '4px', background: '#3b82f6', color: '#fff', fontSize: '9px', fontWeight: 700 }}>BARO</span>
+                        )}
+                        {debugStats.sources!.length > 1 && (
+                          <button
+                            onClick={() => handleRemoveSource(source.id)}
+                            title="Sensor trennen"
+                            style={{
+                              background: 'transparent', border: 'none', cursor: 'pointer',
+                              color: `rgba(${o.c},${o.c},${o.c},0.4)`, fontSize: '12px', padding: '2px'
+                            }}
+                          >
+                            ✕
+                          </button>
+                        )}
+                      </div>
+                    )
+                  })}
+
+                  {/* Weiteren Sensor hinzufügen */}
+                  <button
+                    onClick={() => {
+                      if (!showAddSource && devices.length === 0) handleScan()
+                      setShowAddSource(!showAddSource)
+                    }}
+                    style={{
+                      width: '100%', marginTop: '6px', padding: '6px',
+                      background: 'transparent',
+                      border: `1px dashed rgba(${o.c},${o.c},${o.c},0.2)`,
+                      borderRadius: '6px', color: `rgba(${o.c},${o.c},${o.c},0.6)`,
+                      fontSize: '11px', cursor: 'pointer'
+                    }}
+                  >
+                    {showAddSource ? 'Abbrechen' : '+ Weiteren Sensor hinzufügen'}
+                  </button>
+                  {showAddSource && (
+                    <div style={{ marginTop: '8px' }}>
+                      <div style={{ display: 'flex', gap: '4px', marginBottom: '6px' }}>
+                        {SOURCE_BAUD_RATES.map(baud => (
+                          <button
+                            key={baud}
+                            onClick={() => setAddSourceBaud(baud)}
+                            style={{
+                              flex: 1, padding: '4px 0',
+                              background: addSourceBaud === baud ? '#3b82f6' : `rgba(${o.c},${o.c},${o.c},0.08)`,
+                              border: 'none', borderRadius: '4px',
+                              color: addSourceBaud === baud ? '#fff' : o.textColor,
+                              fontSize: '10px', fontWeight: 600, cursor: 'pointer'
+                            }}
+                          >
+                            {baud}
+                          </button>
+                        ))}
+                      </div>
+                      {scanning && (
+                        <div style={{ fontSize: '11px', color: `rgba(${o.c},${o.c},${o.c},0.5)`, padding: '4px 0' }}>Suche Ports...</div>
+                      )}
+                      {devices
+                        .filter(device => !debugStats.sources!.some(s => s.id === device.id || s.id.startsWith(`${device.id}@`)))
+                        .map(device => (
+                          <button
+                            key={device.id}
+                            onClick={() => handleAddSource(device.id)}
+                            disabled={addingSource !== null}
+                            style={{
+                              width: '100%', display: 'flex', justifyContent: 'space-between',
+                              padding: '6px 8px', marginBottom: '4px',
+                              background: `rgba(${o.c},${o.c},${o.c},0.06)`,
+                              border: 'none', borderRadius: '6px',
+                              color: o.textColor, fontSize: '11px',
+                              cursor: addingSource ? 'wait' : 'pointer'
+                            }}
+                          >
+                            <span>{device.name}</span>
+                            <span style={{ color: `rgba(${o.c},${o.c},${o.c},0.5)` }}>
+                              {addingSource === device.id ? 'Verbinde...' : device.id}
+                            </span>
+                          </button>
+                        ))}
+                      {connectionError && (
+                        <div style={{ fontSize: '11px', color: '#ef4444', whiteSpace: 'pre-line', marginTop: '4px' }}>{connectionError}</div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Kein GPS Warnung */}
               {showNoGpsWarning && !gpsData && (
                 <div style={{
@@ -465,11 +739,21 @@ export function ConnectionModal({ onClose }: { onClose: () => void }) {
                   {/* Parser Type */}
                   <div style={{ display: 'flex', justifyContent: 'space-between' }}>
                     <span>Parser:</span>
-                    <span style={{ color: debugStats.parserType === 'readline' ? '#22c55e' : '#f59e0b', fontWeight: 600 }}>
-                      {debugStats.parserType === 'readline' ? 'ReadlineParser' : 'Manual Buffer'}
+                    <span style={{ color: debugStats.parserType === 'readline' ? '#22c55e' : debugStats.parserType === 'replay' ? '#a855f7' : '#f59e0b', fontWeight: 600 }}>
+                      {debugStats.parserType === 'readline' ? 'ReadlineParser' : debugStats.parserType === 'replay' ? 'Log-Wiedergabe' : 'Manual Buffer'}
                     </span>
                   </div>
 
+                  {/* NMEA-Aufzeichnung */}
+                  {debugStats.recordingFile && (
+                    <div style={{ display: 'flex', justifyContent: 'space-between', gap: '8px' }}>
+                      <span>Aufzeichnung:</span>
+                      <span style={{ color: '#ef4444', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={debugStats.recordingFile}>
+                        ● {debugStats.recordingFile}
+                      </span>
+                    </div>
+                  )}
+
                   {/* Uptime */}
                   <div style={{ display: 'flex', justifyContent: 'space-between' }}>
                     <span>Uptime:</span>
@@ -931,6 +1215,115 @@ export function ConnectionModal({ onClose }: { onClose: () => void }) {
                   </>
                 )}
               </div>
+
+              {/* Virtuelles Gerät: NMEA-Log abspielen */}
+              <button
+                onClick={() => { setShowLogs(!showLogs); if (!showLogs) loadNmeaLogs() }}
+                style={{
+                  width: '100%',
+                  padding: '8px 12px',
+                  marginTop: '12px',
+                  background: showLogs ? 'rgba(168,85,247,0.1)' : `rgba(${o.c},${o.c},${o.c},0.03)`,
+                  border: showLogs ? '1px solid rgba(168,85,247,0.3)' : `1px solid rgba(${o.c},${o.c},${o.c},0.08)`,
+                  borderRadius: '8px',
+                  cursor: 'pointer',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'space-between',
+                  color: showLogs ? '#a855f7' : `rgba(${o.c},${o.c},${o.c},0.5)`,
+                  fontSize: '11px',
+                  fontWeight: 600,
+                }}
+              >
+                <span>Virtuelles Gerät (NMEA-Log){nmeaLogs.length > 0 ? ` · ${nmeaLogs.length}` : ''}</span>
+                <span style={{ fontSize: '10px' }}>{showLogs ? '▲' : '▼'}</span>
+              </button>
+
+              {showLogs && (
+                <div style={{
+                  marginTop: '8px',
+                  padding: '10px',
+                  background: 'rgba(0,0,0,0.2)',
+                  border: '1px solid rgba(168,85,247,0.2)',
+                  borderRadius: '8px'
+                }}>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: '4px', marginBottom: '8px' }}>
+                    <span style={{ fontSize: '10px', color: `rgba(${o.c},${o.c},${o.c},0.5)`, marginRight: '4px' }}>Tempo</span>
+                    {REPLAY_SPEEDS.map(speed => (
+                      <button
+                        key={speed}
+                        onClick={() => setReplaySpeed(speed)}
+                        style={{
+                          flex: 1, padding: '4px 0',
+                          background: replaySpeed === speed ? '#a855f7' : `rgba(${o.c},${o.c},${o.c},0.08)`,
+                          border: 'none', borderRadius: '4px',
+                          color: replaySpeed === speed ? '#fff' : o.textColor,
+                          fontSize: '10px', fontWeight: 600, cursor: 'pointer'
+                        }}
+                      >
+                        {speed}x
+                      </button>
+                    ))}
+                  </div>
+
+                  <div style={{ maxHeight: '180px', overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '4px' }}>
+                    {nmeaLogs.length === 0 && (
+                      <div style={{ fontSize: '11px', color: `rgba(${o.c},${o.c},${o.c},0.4)`, textAlign: 'center', padding: '8px' }}>
+                        Noch keine Aufzeichnungen – jede Sensor-Verbindung wird automatisch mitgeschrieben
+                      </div>
+                    )}
+                    {nmeaLogs.map(log => (
+                      <div key={log.fileName} style={{
+                        display: 'flex', alignItems: 'center', gap: '6px',
+                        padding: '6px 8px', borderRadius: '6px',
+                        background: `rgba(${o.c},${o.c},${o.c},0.04)`
+                      }}>
+                        <div style={{ flex: 1, minWidth: 0 }}>
+                          <div style={{ fontSize: '11px', color: o.textColor, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                            {log.fileName}
+                          </div>
+                          <div style={{ fontSize: '10px', color: `rgba(${o.c},${o.c},${o.c},0.4)` }}>
+                            {new Date(log.date).toLocaleString('de-DE')} · {formatLogSize(log.size)}
+                          </div>
+                        </div>
+                        <button
+                          onClick={() => handlePlayLog(log.path, log.fileName)}
+                          disabled={connecting}
+                          style={{
+                            padding: '4px 8px', background: 'rgba(168,85,247,0.2)', border: 'none',
+                            borderRadius: '4px', color: '#a855f7', fontSize: '10px', fontWeight: 600,
+                            cursor: connecting ? 'wait' : 'pointer'
+                          }}
+                        >
+                          Abspielen
+                        </button>
+                        <button
+                          onClick={() => handleDeleteLog(log.fileName)}
+                          title="Log löschen"
+                          style={{
+                            padding: '4px 6px', background: 'transparent', border: 'none',
+                            color: `rgba(${o.c},${o.c},${o.c},0.4)`, fontSize: '11px', cursor: 'pointer'
+                          }}
+                        >
+                          ✕
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+
+                  <button
+                    onClick={handleSelectLogFile}
+                    disabled={connecting}
+                    style={{
+                      width: '100%', marginTop: '8px', padding: '6px',
+                      background: `rgba(${o.c},${o.c},${o.c},0.08)`, border: 'none', borderRadius: '6px',
+                      color: o.textColor, fontSize: '11px', cursor: connecting ? 'wait' : 'pointer'
+                    }}
+                  >
+                    Andere NMEA-Datei abspielen...
+                  </button>
+                </div>
+              )}
             </>
           )}
 
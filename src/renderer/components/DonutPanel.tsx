@@ -6,7 +6,9 @@
 import React, { useState, useEffect, useCallback } from 'react'
 import { useFlightStore } from '../stores/flightStore'
 import { getOutdoor } from '../utils/outdoorStyles'
-import { calculateDonut } from '../utils/donutCalculator'
+import { windFieldForFilter } from '../utils/windField'
+import { useCompute } from '../hooks/useCompute'
+import { findBalloonPerformance } from '../utils/balloonPerformance'
 import { latLonToUTM as latLonToUTMWGS84, latLonToMGRS, getGridPrecision } from '../utils/coordinatesWGS84'
 import { WindSource, WindSourceFilter } from '../../shared/types'
 
@@ -27,6 +29,7 @@ export function DonutPanel({ onClose, style, onMouseDown, onTouchStart }: Props)
   const setActiveTask = useFlightStore(s => s.setActiveTask)
   const setSelectedGoal = useFlightStore(s => s.setSelectedGoal)
   const updateGoalPosition = useFlightStore(s => s.updateGoalPosition)
+  const storeWindField = useFlightStore(s => s.windField)
   const o = getOutdoor(settings.outdoorMode)
 
   const [windFilter, setWindFilter] = useState<WindSourceFilter>('all')
@@ -35,8 +38,9 @@ export function DonutPanel({ onClose, style, onMouseDown, onTouchStart }: Props)
   const [minAltFt, setMinAltFt] = useState('')   // Min Höhe in ft (leer = kein Filter)
   const [maxAltFt, setMaxAltFt] = useState('')   // Max Höhe in ft (leer = kein Filter)
   const [groundElevation, setGroundElevation] = useState<number>(0)
-  const [calculating, setCalculating] = useState(false)
   const [noResult, setNoResult] = useState(false)
+  const donutCompute = useCompute('donut')
+  const calculating = donutCompute.busy
   const [declaredCoords, setDeclaredCoords] = useState<{ lat: number; lon: number } | null>(null)
 
   // Tasks mit mindestens 2 Ringen filtern
@@ -76,41 +80,46 @@ export function DonutPanel({ onClose, style, onMouseDown, onTouchStart }: Props)
     if (maxAltM !== null && l.altitude > maxAltM) return false
     return true
   })
+  const windField = windFieldForFilter(storeWindField, windFilter)
 
   const currentAlt = baroData?.pressureAltitude || gpsData?.altitude || 0
   const minDistM = parseFloat(minDistKm) * 1000
   const canCalculate = gpsData && selectedTask && filteredWindLayers.length >= 2 && innerRadius > 0 && outerRadius > innerRadius && minDistM > 0
 
-  // Berechnung
-  const doCalculate = useCallback(() => {
+  // Eingaben geändert → laufende Berechnung abbrechen
+  useEffect(() => {
+    donutCompute.cancel()
+  }, [selectedTaskId, minDistKm, minAltFt, maxAltFt, windFilter])
+
+  // Berechnung (im Compute-Worker)
+  const doCalculate = useCallback(async () => {
     if (!gpsData || !selectedTask || filteredWindLayers.length < 2) return
-    setCalculating(true)
     setNoResult(false)
     setDeclaredCoords(null)
 
-    setTimeout(() => {
-      try {
-        const result = calculateDonut({
-          pilotLat: gpsData.latitude,
-          pilotLon: gpsData.longitude,
-          pilotAltitude: currentAlt,
-          innerRadius,
-          outerRadius,
-          minCenterDist: minDistM,
-          groundElevation,
-          windLayers: filteredWindLayers,
-        })
-        setDonutResult(result)
-        setNoResult(!result)
-        if (!result) console.warn('[Donut] Keine Strategie gefunden')
-      } catch (e) {
-        console.error('[Donut] Berechnungsfehler:', e)
-        setDonutResult(null)
-        setNoResult(true)
-      }
-      setCalculating(false)
-    }, 50)
-  }, [gpsData, selectedTask, filteredWindLayers, currentAlt, innerRadius, outerRadius, minDistM, groundElevation])
+    try {
+      const outcome = await donutCompute.run([{
+        pilotLat: gpsData.latitude,
+        pilotLon: gpsData.longitude,
+        pilotAltitude: currentAlt,
+        innerRadius,
+        outerRadius,
+        minCenterDist: minDistM,
+        groundElevation,
+        windLayers: filteredWindLayers,
+        windField,
+        performance: findBalloonPerformance(settings),
+      }])
+      if (!outcome) return  // abgebrochen
+      setDonutResult(outcome.result)
+      setNoResult(!outcome.result)
+      if (!outcome.result) console.warn('[Donut] Keine Strategie gefunden')
+    } catch (e) {
+      console.error('[Donut] Berechnungsfehler:', e)
+      setDonutResult(null)
+      setNoResult(true)
+    }
+  }, [donutCompute.run, gpsData, selectedTask, filteredWindLayers, currentAlt, innerRadius, outerRadius, minDistM, groundElevation, windField, settings.balloonPerformance, settings.balloonId])
 
   // Deklarieren: Task-Goal auf Donut-Mittelpunkt setzen
   const doDeclare = useCallback(() => {
@@ -307,7 +316,7 @@ export function DonutPanel({ onClose, style, onMouseDown, onTouchStart }: Props)
             color: canCalculate && !calculating ? 'white' : `rgba(${o.c},${o.c},${o.c},${o.on ? 0.3 : 0.2})`,
             fontSize: '11px', fontWeight: 700, cursor: canCalculate && !calculating ? 'pointer' : 'not-allowed'
           }}>
-          {calculating ? 'Berechne...' : 'Berechnen'}
+          {calculating ? `Berechne... ${Math.round((donutCompute.progress ?? 0) * 100)}%` : 'Berechnen'}
         </button>
         {donutResult && (
           <button onClick={() => setDonutResult(null)}
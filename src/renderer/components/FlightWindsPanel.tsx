@@ -8,8 +8,15 @@ import {
   parseWindFile, normalizeToInternal, inferWindSource, formatName,
   filterByLayerThickness, defaultImportSettings, WindImportSettings, WindImportResult
 } from '../utils/windImport'
-import { fetchIconD2Wind, IconD2Result, WEATHER_MODELS } from '../utils/iconD2'
+import { fetchIconD2Wind, fetchIconD2WindField, IconD2Result, WEATHER_MODELS } from '../utils/iconD2'
+import { getWindFieldCoverage } from '../utils/windField'
+import { parseGrib2Wind, findClosestGribTime, GribWindDataset } from '../utils/grib2'
+import { useCompute } from '../hooks/useCompute'
 import { parseTrajectoryFile, TRAJECTORY_COLORS } from '../utils/trajectoryImport'
+import { extractWindProfile, exportWindProfileJSON, defaultTrackWindOptions, TrackWindProfileResult } from '../utils/trackWindProfile'
+import { parseFlightFile } from '../utils/flightImport'
+import { downloadFile } from '../utils/pzParser'
+import type { TrackPoint } from '../../shared/types'
 
 interface FlightWindsPanelProps {
   isOpen: boolean
@@ -75,11 +82,11 @@ const mToFt = (m: number) => Math.round(m * 3.28084)
 export function FlightWindsPanel({ isOpen, onClose, selectedWindLayer, onSelectWindLayer }: FlightWindsPanelProps) {
   const {
     windLayers, removeWindLayer, clearWindLayers, addWindLayers, replaceWindLayers, addWindLayer,
-    gpsData, baroData, settings, updateSettings,
+    gpsData, baroData, settings, updateSettings, track,
     windLineMode, pendingWindLayer, windLines, setWindLineMode, addWindLine, removeWindLine, clearAllWindLines,
     windImportPickPosition, windImportPosition, setWindImportPickPosition, setWindImportPosition,
     importedTrajectories, addTrajectories, removeTrajectory, toggleTrajectoryVisibility, clearAllTrajectories,
-    windSourceFilter, setWindSourceFilter,
+    windSourceFilter, setWindSourceFilter, windField, setWindField,
     showWindRose, setShowWindRose
   } = useFlightStore()
   const o = getOutdoor(settings.outdoorMode)
@@ -121,6 +128,24 @@ export function FlightWindsPanel({ isOpen, onClose, selectedWindLayer, onSelectW
   const [iconD2TimeOffset, setIconD2TimeOffset] = useState(0) // Stunden ab jetzt
   const [iconD2Model, setIconD2Model] = useState('icon_d2')
   const [iconD2Selected, setIconD2Selected] = useState<Set<number>>(new Set()) // Ausgewählte Layer-Indizes
+  const [windFieldLoading, setWindFieldLoading] = useState(false)
+  const [windFieldError, setWindFieldError] = useState<string | null>(null)
+  const windFieldCoverage = useMemo(() => windField ? getWindFieldCoverage(windField) : null, [windField])
+
+  // GRIB2 Datei (offline Vorhersage) - Ergebnis wird wie ICON-D2 angezeigt
+  const [gribDataset, setGribDataset] = useState<GribWindDataset | null>(null)
+  const [gribFilename, setGribFilename] = useState('')
+  const [gribTime, setGribTime] = useState<number | null>(null)
+  const [gribWarnings, setGribWarnings] = useState<string[]>([])
+  const [gribFieldError, setGribFieldError] = useState<string | null>(null)
+  // Complex Packing wird im Compute-Worker dekodiert, nicht im UI-Thread
+  const gribCompute = useCompute('grib')
+
+  // Windprofil aus Track
+  const trackWindFileRef = useRef<HTMLInputElement>(null)
+  const [trackWindHalfLife, setTrackWindHalfLife] = useState<number | null>(defaultTrackWindOptions.halfLifeMinutes)
+  const [trackWindResult, setTrackWindResult] = useState<TrackWindProfileResult | null>(null)
+  const [trackWindSourceName, setTrackWindSourceName] = useState('')
 
   // Update preview when settings change
   useEffect(() => {
@@ -191,6 +216,13 @@ export function FlightWindsPanel({ isOpen, onClose, selectedWindLayer, onSelectW
       return
     }
 
+    // GRIB2 → Vorhersage-Wind aus Datei
+    if (ext && ['grib2', 'grb2', 'grib', 'grb', 'gz'].includes(ext)) {
+      e.target.value = ''
+      handleGribFile(file)
+      return
+    }
+
     // Wind-Datei importieren
     setImportFilename(file.name)
     file.text().then(content => {
@@ -254,6 +286,114 @@ export function FlightWindsPanel({ isOpen, onClose, selectedWindLayer, onSelectW
     setIconD2Loading(false)
   }
 
+  // Windschichten aus der GRIB-Datei für Position und Zeitpunkt extrahieren
+  const showGribLayers = async (dataset: GribWindDataset, time: number) => {
+    // Ohne GPS/Kartenpunkt: Mitte der Datei
+    const lat = gpsData?.latitude || windImportPosition?.lat || (dataset.bounds.minLat + dataset.bounds.maxLat) / 2
+    const lon = gpsData?.longitude || windImportPosition?.lon || (dataset.bounds.minLon + dataset.bounds.maxLon) / 2
+    const elevation = await window.ntaAPI?.elevation?.getElevation(lat, lon).catch(() => null) ?? 0
+
+    let inside: boolean
+    let layers: WindLayer[]
+    try {
+      const outcome = await gribCompute.run([dataset, { type: 'layers', lat, lon, validTime: time, groundElevation: elevation }])
+      if (!outcome) return  // durch neuere Abfrage ersetzt
+      inside = outcome.result.inside
+      layers = outcome.result.layers
+    } catch (err) {
+      console.error('[GRIB2] Felder konnten nicht dekodiert werden:', err)
+      setIconD2Result({
+        success: false, layers: [], modelTime: new Date(time).toISOString(), modelId: 'GRIB2',
+        location: { lat, lon }, elevation, errors: [`GRIB-Felder konnten nicht dekodiert werden: ${(err as Error).message}`]
+      })
+      return
+    }
+    setGribTime(time)
+    setIconD2Result({
+      success: layers.length > 0,
+      layers,
+      modelTime: new Date(time).toISOString(),
+      modelId: 'GRIB2',
+      location: { lat, lon },
+      elevation,
+      errors: !inside
+        ? [`Position liegt außerhalb der Datei (${dataset.bounds.minLat.toFixed(1)}–${dataset.bounds.maxLat.toFixed(1)}°N, ${dataset.bounds.minLon.toFixed(1)}–${dataset.bounds.maxLon.toFixed(1)}°E)`]
+        : layers.length === 0 ? ['Keine Windschichten über Grund für diesen Zeitpunkt'] : []
+    })
+    setIconD2Selected(new Set(layers.map((_, i) => i)))
+  }
+
+  const handleGribFile = async (file: File) => {
+    setImportResult(null)
+    setIconD2Loading(true)
+    setGribFilename(file.name)
+    const showErrors = (errors: string[]) => {
+      setGribDataset(null)
+      setIconD2Result({
+        success: false, layers: [], modelTime: '', modelId: 'GRIB2',
+        location: { lat: 0, lon: 0 }, elevation: 0, errors
+      })
+    }
+
+    // Defekte oder abgeschnittene Dateien (auch beim Entpacken von .gz) werfen
+    try {
+      const result = await parseGrib2Wind(await file.arrayBuffer())
+      setGribWarnings(result.warnings)
+      if (!result.success || !result.dataset) {
+        showErrors(result.errors)
+        return
+      }
+
+      setGribDataset(result.dataset)
+      await showGribLayers(result.dataset, findClosestGribTime(result.dataset))
+    } catch (err) {
+      console.error('[GRIB2] Datei konnte nicht gelesen werden:', err)
+      setGribWarnings([])
+      showErrors([`GRIB-Datei konnte nicht gelesen werden: ${(err as Error).message}`])
+    } finally {
+      setIconD2Loading(false)
+    }
+  }
+
+  // Alle Stunden der GRIB-Datei als Windfeld übernehmen
+  const handleGribWindField = async () => {
+    if (!gribDataset || !iconD2Result) return
+    setGribFieldError(null)
+    try {
+      const outcome = await gribCompute.run([gribDataset, { type: 'windField', lat: iconD2Result.location.lat, lon: iconD2Result.location.lon }])
+      if (outcome?.result.windField) setWindField(outcome.result.windField)
+    } catch (err) {
+      console.error('[GRIB2] Windfeld konnte nicht erstellt werden:', err)
+      setGribFieldError(`Windfeld konnte nicht erstellt werden: ${(err as Error).message}`)
+    }
+  }
+
+  // GRIB-Datei verwerfen sobald die Vorschau geschlossen wird
+  useEffect(() => {
+    if (!iconD2Result) {
+      setGribDataset(null)
+      setGribWarnings([])
+      setGribFieldError(null)
+    }
+  }, [iconD2Result])
+
+  // Windfeld laden: mehrere Stunden + Nachbarpunkte, Rechner interpolieren Wind über Zeit und Ort
+  const handleWindFieldFetch = async () => {
+    const lat = gpsData?.latitude || windImportPosition?.lat
+    const lon = gpsData?.longitude || windImportPosition?.lon
+    if (!lat || !lon) return
+
+    setWindFieldLoading(true)
+    setWindFieldError(null)
+    const result = await fetchIconD2WindField(lat, lon, iconD2Model)
+    if (result.success && result.field) {
+      setWindField(result.field)
+    } else {
+      setWindFieldError(result.errors.join(', '))
+    }
+    setWindFieldLoading(false)
+  }
+
   // ICON-D2 Ergebnisse importieren (nur ausgewählte)
   const handleIconD2Import = () => {
     if (!iconD2Result || iconD2Result.layers.length === 0) return
@@ -271,6 +411,51 @@ export function FlightWindsPanel({ isOpen, onClose, selectedWindLayer, onSelectW
     setIconD2Result(null)
   }
 
+  // Windprofil aus einem oder mehreren Tracks ableiten
+  const runTrackWindExtraction = (tracks: TrackPoint[][], sourceName: string) => {
+    const result = extractWindProfile(tracks, settings, { ...defaultTrackWindOptions, halfLifeMinutes: trackWindHalfLife })
+    setTrackWindResult(result)
+    setTrackWindSourceName(sourceName)
+  }
+
+  // IGC/GPX Dateien (z.B. erste Starts am Morgen, Track des Hasen) auswerten
+  const handleTrackWindFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || [])
+    e.target.value = ''
+    if (files.length === 0) return
+
+    const tracks: TrackPoint[][] = []
+    for (const file of files) {
+      const result = parseFlightFile(await file.text(), file.name)
+      if (result.success && result.flight) tracks.push(result.flight.track)
+    }
+    if (tracks.length === 0) {
+      alert('Keine gültigen Tracks in den Dateien gefunden')
+      return
+    }
+    runTrackWindExtraction(tracks, files.length === 1 ? files[0].name : `${tracks.length} Dateien`)
+  }
+
+  const handleTrackWindApply = (mode: 'merge' | 'replace') => {
+    if (!trackWindResult || trackWindResult.layers.length === 0) return
+
+    if (mode === 'replace') {
+      replaceWindLayers(trackWindResult.layers)
+    } else {
+      addWindLayers(trackWindResult.layers)
+    }
+
+    setTrackWindResult(null)
+    setActiveTab('live')
+  }
+
+  const handleTrackWindExport = () => {
+    if (!trackWindResult || trackWindResult.layers.length === 0) return
+    const now = new Date()
+    const stamp = `${now.getHours().toString().padStart(2, '0')}${now.getMinutes().toString().padStart(2, '0')}`
+    downloadFile(exportWindProfileJSON(trackWindResult.layers), `windprofil_track_${stamp}.json`)
+  }
+
   // Handle manual add
   const handleAddWind = () => {
     const altitudeUnit = settings.windAltitudeUnit ?? 'm'
@@ -609,7 +794,7 @@ export function FlightWindsPanel({ isOpen, onClose, selectedWindLayer, onSelectW
       <input
         ref={fileInputRef}
         type="file"
-        accept=".xml,.dat,.csv,.txt,.gpx,.kml,.json"
+        accept=".xml,.dat,.csv,.txt,.htm,.html,.gpx,.kml,.json,.grib2,.grb2,.grib,.grb,.gz"
         style={{ display: 'none' }}
         onChange={handleFileSelect}
       />
@@ -1429,6 +1614,67 @@ export function FlightWindsPanel({ isOpen, onClose, selectedWindLayer, onSelectW
                         </>
                       )}
                     </button>
+
+                    {/* Windfeld (Zeitverlauf) laden */}
+                    <button
+                      onClick={handleWindFieldFetch}
+                      disabled={windFieldLoading || !hasAnyPos}
+                      style={{
+                        width: '100%',
+                        marginTop: '8px',
+                        padding: '8px',
+                        fontSize: '11px',
+                        background: 'transparent',
+                        color: hasAnyPos ? '#0ea5e9' : `rgba(${o.c},${o.c},${o.c},${o.on ? 0.85 : 0.4})`,
+                        border: `1px solid ${hasAnyPos ? 'rgba(14, 165, 233, 0.5)' : `rgba(${o.c},${o.c},${o.c},${o.on ? 0.2 : 0.1})`}`,
+                        borderRadius: '8px',
+                        cursor: hasAnyPos && !windFieldLoading ? 'pointer' : 'default',
+                        fontWeight: 600
+                      }}
+                      title="Lädt die nächsten Stunden am Standort und 15 km rundum. Landeprognose, WNV, Donut und Kegel rechnen dann mit Wind, der sich im Flug ändert."
+                    >
+                      {windFieldLoading ? 'Lade Zeitverlauf...' : 'Zeitverlauf laden (Windfeld, 6 h)'}
+                    </button>
+
+                    {windFieldError && (
+                      <div style={{ fontSize: '10px', color: '#ef4444', marginTop: '6px' }}>{windFieldError}</div>
+                    )}
+
+                    {windField && windFieldCoverage && (
+                      <div style={{
+                        display: 'flex',
+                        alignItems: 'center',
+                        gap: '8px',
+                        marginTop: '8px',
+                        padding: '6px 10px',
+                        background: 'rgba(14, 165, 233, 0.1)',
+                        border: '1px solid rgba(14, 165, 233, 0.3)',
+                        borderRadius: '8px'
+                      }}>
+                        <div style={{ flex: 1 }}>
+                          <div style={{ fontSize: '11px', fontWeight: 600, color: o.textColor }}>
+                            Windfeld {WEATHER_MODELS.find(m => m.id === windField.modelId)?.name ?? windField.modelId} aktiv
+                          </div>
+                          <div style={{ fontSize: '10px', color: `rgba(${o.c},${o.c},${o.c},${o.textMuted})` }}>
+                            {windFieldCoverage.hours} Stunden · {windFieldCoverage.locations} Orte · {windFieldCoverage.start.toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' })}–{windFieldCoverage.end.toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' })}
+                          </div>
+                        </div>
+                        <button
+                          onClick={() => setWindField(null)}
+                          style={{
+                            background: 'transparent',
+                            border: 'none',
+                            color: '#ef4444',
+                            cursor: 'pointer',
+                            padding: '4px',
+                            fontSize: '14px'
+                          }}
+                          title="Windfeld entfernen"
+                        >
+                          ✕
+                        </button>
+                      </div>
+                    )}
                   </>
                 )
               })()}
@@ -1454,7 +1700,9 @@ export function FlightWindsPanel({ isOpen, onClose, selectedWindLayer, onSelectW
               }}>
                 <div style={{ flex: 1 }}>
                   <div style={{ fontSize: '12px', fontWeight: 600, color: o.textColor }}>
-                    {WEATHER_MODELS.find(m => m.id === iconD2Result.modelId)?.name ?? iconD2Result.modelId} Vorhersage
+                    {gribDataset || iconD2Result.modelId === 'GRIB2'
+                      ? `GRIB2 · ${gribFilename}`
+                      : `${WEATHER_MODELS.find(m => m.id === iconD2Result.modelId)?.name ?? iconD2Result.modelId} Vorhersage`}
                   </div>
                   <div style={{ fontSize: '10px', color: `rgba(${o.c},${o.c},${o.c},${o.textMuted})` }}>
                     {iconD2Result.success
@@ -1477,6 +1725,54 @@ export function FlightWindsPanel({ isOpen, onClose, selectedWindLayer, onSelectW
                 </button>
               </div>
 
+              {/* GRIB2: Zeitpunkt wählen */}
+              {gribDataset && (
+                <div>
+                  <div style={{ fontSize: '9px', color: `rgba(${o.c},${o.c},${o.c},${o.textMuted})`, marginBottom: '4px' }}>
+                    ZEITPUNKT ({gribDataset.levels.length} Druckflächen)
+                  </div>
+                  <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px' }}>
+                    {gribDataset.times.map(t => (
+                      <button
+                        key={t}
+                        onClick={() => showGribLayers(gribDataset, t)}
+                        style={{
+                          padding: '4px 6px', fontSize: '10px',
+                          background: gribTime === t ? '#0ea5e9' : `rgba(${o.c},${o.c},${o.c},${o.on ? 0.12 : 0.05})`,
+                          color: o.textColor,
+                          border: gribTime === t ? 'none' : `1px solid rgba(${o.c},${o.c},${o.c},${o.on ? 0.2 : 0.1})`,
+                          borderRadius: '5px', cursor: 'pointer', fontWeight: 600
+                        }}
+                      >
+                        {new Date(t).toLocaleString('de-DE', { weekday: 'short', hour: '2-digit', minute: '2-digit' })}
+                      </button>
+                    ))}
+                  </div>
+                  {gribWarnings.map((w, i) => (
+                    <div key={i} style={{ fontSize: '10px', color: '#f59e0b', marginTop: '4px' }}>⚠ {w}</div>
+                  ))}
+                  {gribDataset.times.length > 1 && iconD2Result.success && (
+                    <button
+                      onClick={handleGribWindField}
+                      disabled={gribCompute.busy}
+                      style={{
+                        width: '100%', marginTop: '6px', padding: '6px', fontSize: '10px',
+                        background: 'rgba(14, 165, 233, 0.15)', color: '#0ea5e9',
+                        border: '1px solid rgba(14, 165, 233, 0.4)',
+                        borderRadius: '5px', cursor: gribCompute.busy ? 'wait' : 'pointer', fontWeight: 600
+                      }}
+                    >
+                      {gribCompute.busy
+                        ? 'GRIB wird dekodiert...'
+                        : `Als Windfeld verwenden (${gribDataset.times.length} Zeitpunkte)`}
+                    </button>
+                  )}
+                  {gribFieldError && (
+                    <div style={{ fontSize: '10px', color: '#ef4444', marginTop: '4px' }}>{gribFieldError}</div>
+                  )}
+                </div>
+              )}
+
               {iconD2Result.success && (
                 <>
                   {/* Modus */}
@@ -1648,6 +1944,132 @@ export function FlightWindsPanel({ isOpen, onClose, selectedWindLayer, onSelectW
             </div>
           )}
 
+          {/* Windprofil aus Track */}
+          {!importResult && !iconD2Result && (
+            <div style={{
+              padding: '12px',
+              background: 'rgba(168, 85, 247, 0.08)',
+              borderRadius: '10px',
+              border: '1px solid rgba(168, 85, 247, 0.2)'
+            }}>
+              <div style={{ fontSize: '11px', fontWeight: 700, color: '#a855f7', marginBottom: '10px' }}>
+                Windprofil aus Track
+              </div>
+
+              {/* Zeitgewichtung */}
+              <div style={{ marginBottom: '10px' }}>
+                <div style={{ fontSize: '9px', color: `rgba(${o.c},${o.c},${o.c},${o.textMuted})`, marginBottom: '4px', textTransform: 'uppercase' }}>
+                  Zeitgewichtung (Halbwertszeit)
+                </div>
+                <div style={{ display: 'flex', gap: '4px' }}>
+                  {[null, 15, 30, 60, 120].map(h => (
+                    <button
+                      key={h ?? 'off'}
+                      onClick={() => setTrackWindHalfLife(h)}
+                      style={{
+                        flex: 1,
+                        padding: '5px 4px',
+                        fontSize: '10px',
+                        background: trackWindHalfLife === h ? '#a855f7' : `rgba(${o.c},${o.c},${o.c},${o.on ? 0.12 : 0.05})`,
+                        color: o.textColor,
+                        border: trackWindHalfLife === h ? 'none' : `1px solid rgba(${o.c},${o.c},${o.c},${o.on ? 0.2 : 0.1})`,
+                        borderRadius: '5px',
+                        cursor: 'pointer',
+                        fontWeight: 600
+                      }}
+                    >
+                      {h === null ? 'Aus' : `${h} min`}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <input type="file" ref={trackWindFileRef} accept=".igc,.gpx" multiple style={{ display: 'none' }} onChange={handleTrackWindFiles} />
+              <div style={{ display: 'flex', gap: '6px' }}>
+                <button
+                  onClick={() => runTrackWindExtraction([track], 'Aktueller Track')}
+                  disabled={track.length < 2}
+                  style={{
+                    flex: 1, padding: '8px', fontSize: '11px', fontWeight: 600, borderRadius: '6px',
+                    background: track.length < 2 ? `rgba(${o.c},${o.c},${o.c},0.05)` : 'rgba(168, 85, 247, 0.2)',
+                    color: track.length < 2 ? `rgba(${o.c},${o.c},${o.c},0.3)` : o.textColor,
+                    border: 'none', cursor: track.length < 2 ? 'default' : 'pointer'
+                  }}
+                >
+                  Aktueller Track
+                </button>
+                <button
+                  onClick={() => trackWindFileRef.current?.click()}
+                  style={{
+                    flex: 1, padding: '8px', fontSize: '11px', fontWeight: 600, borderRadius: '6px',
+                    background: 'rgba(168, 85, 247, 0.2)', color: o.textColor, border: 'none', cursor: 'pointer'
+                  }}
+                >
+                  IGC/GPX Dateien...
+                </button>
+              </div>
+
+              {trackWindResult && (
+                <div style={{ marginTop: '10px' }}>
+                  <div style={{ fontSize: '10px', color: `rgba(${o.c},${o.c},${o.c},${o.textMuted})`, marginBottom: '6px' }}>
+                    {trackWindSourceName}: {trackWindResult.layers.length} Schichten
+                    {trackWindResult.warnings.map((w, i) => <div key={i} style={{ color: '#f59e0b' }}>{w}</div>)}
+                  </div>
+                  <div style={{ maxHeight: '160px', overflowY: 'auto', marginBottom: '8px' }}>
+                    {[...trackWindResult.bands].reverse().map(band => (
+                      <div key={band.altitude} style={{
+                        display: 'flex', justifyContent: 'space-between', fontSize: '11px', fontFamily: 'monospace',
+                        padding: '3px 6px', color: o.textColor,
+                        borderLeft: `3px solid ${band.isStable ? '#22c55e' : '#f59e0b'}`
+                      }}>
+                        <span>{settings.windAltitudeUnit === 'ft' ? `${mToFt(band.altitude)}ft` : `${Math.round(band.altitude)}m`}</span>
+                        <span>{band.direction}°</span>
+                        <span style={{ color: getWindColor(band.speed) }}>{band.speed.toFixed(1)} km/h</span>
+                        <span style={{ color: `rgba(${o.c},${o.c},${o.c},0.4)` }}>{band.durationSeconds}s</span>
+                      </div>
+                    ))}
+                  </div>
+                  <div style={{ display: 'flex', gap: '6px' }}>
+                    {(['replace', 'merge'] as const).map(mode => (
+                      <button
+                        key={mode}
+                        onClick={() => handleTrackWindApply(mode)}
+                        disabled={trackWindResult.layers.length === 0}
+                        style={{
+                          flex: 1, padding: '8px', fontSize: '11px', fontWeight: 700, borderRadius: '6px',
+                          background: mode === 'replace' ? '#a855f7' : 'rgba(168, 85, 247, 0.2)', color: '#fff', border: 'none', cursor: 'pointer',
+                          opacity: trackWindResult.layers.length === 0 ? 0.5 : 1
+                        }}
+                      >
+                        {mode === 'replace' ? 'Ersetzen' : 'Hinzufügen'}
+                      </button>
+                    ))}
+                    <button
+                      onClick={handleTrackWindExport}
+                      disabled={trackWindResult.layers.length === 0}
+                      style={{
+                        flex: 1, padding: '8px', fontSize: '11px', fontWeight: 600, borderRadius: '6px',
+                        background: `rgba(${o.c},${o.c},${o.c},${o.on ? 0.12 : 0.05})`, color: o.textColor,
+                        border: `1px solid rgba(${o.c},${o.c},${o.c},${o.on ? 0.2 : 0.1})`, cursor: 'pointer'
+                      }}
+                    >
+                      Export
+                    </button>
+                    <button
+                      onClick={() => setTrackWindResult(null)}
+                      style={{
+                        padding: '8px 10px', fontSize: '11px', borderRadius: '6px',
+                        background: 'transparent', color: '#ef4444', border: 'none', cursor: 'pointer'
+                      }}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Datei auswählen */}
           {!importResult && !iconD2Result ? (
             <div style={{ textAlign: 'center', padding: '8px 12px' }}>
@@ -1677,7 +2099,7 @@ export function FlightWindsPanel({ isOpen, onClose, selectedWindLayer, onSelectW
                 Datei auswählen...
               </button>
               <div style={{ fontSize: '10px', color: `rgba(${o.c},${o.c},${o.c},${o.on ? 0.5 : 0.3})`, marginTop: '6px' }}>
-                .xml (oziTarget), .dat (Windsond), .csv, .txt, .gpx/.kml (Trajektorien)
+                .xml (oziTarget), .dat (Windsond), .csv, .txt (auch TEMP/Wyoming), .grib2 (Vorhersage), .gpx/.kml (Trajektorien)
               </div>
               {trajImportMsg && (
                 <div style={{ fontSize: '11px', color: '#a855f7', marginTop: '6px', fontWeight: 600 }}>
@@ -1704,6 +2126,11 @@ export function FlightWindsPanel({ isOpen, onClose, selectedWindLayer, onSelectW
                   <div style={{ fontSize: '11px', color: `rgba(${o.c},${o.c},${o.c},${o.textMuted})` }}>
                     {formatName(importResult.format)} - {importResult.rows.length} Einträge
                   </div>
+                  {importResult.description && (
+                    <div style={{ fontSize: '10px', color: `rgba(${o.c},${o.c},${o.c},${o.textMuted})` }}>
+                      {importResult.description}
+                    </div>
+                  )}
                 </div>
                 <button
                   onClick={handleClearImport}
@@ -2238,6 +2665,39 @@ export function FlightWindsPanel({ isOpen, onClose, selectedWindLayer, onSelectW
                             <span style={{ fontSize: '11px', color: `rgba(${o.c},${o.c},${o.c},${o.on ? 0.85 : 0.4})` }}>
                               ({profile.windLayers.length})
                             </span>
+                            {profile.windLayers.length > 0 && profile.windLayers.every(l => l.source === WindSource.Pibal) && (
+                              <>
+                                <span style={{
+                                  fontSize: '9px',
+                                  fontWeight: 700,
+                                  padding: '1px 5px',
+                                  borderRadius: '4px',
+                                  background: 'rgba(34, 197, 94, 0.2)',
+                                  color: '#22c55e'
+                                }}>
+                                  PIBAL
+                                </span>
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation()
+                                    addWindLayers(profile.windLayers)
+                                  }}
+                                  title="Pibal-Schichten in die eigenen Windschichten übernehmen"
+                                  style={{
+                                    padding: '2px 6px',
+                                    fontSize: '10px',
+                                    fontWeight: 600,
+                                    background: 'rgba(59, 130, 246, 0.2)',
+                                    border: '1px solid rgba(59, 130, 246, 0.4)',
+                                    borderRadius: '4px',
+                                    color: '#60a5fa',
+                                    cursor: 'pointer'
+                                  }}
+                                >
+                                  Übernehmen
+                                </button>
+                              </>
+                            )}
                           </div>
                           <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
                             <span style={{ fontSize: '10px', color: `rgba(${o.c},${o.c},${o.c},${o.on ? 0.85 : 0.4})` }}>
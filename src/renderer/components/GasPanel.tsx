@@ -2,6 +2,7 @@ import React, { useState, useEffect, useCallback } from 'react'
 import { useFlightStore } from '../stores/flightStore'
 import { getOutdoor } from '../utils/outdoorStyles'
 import { usePanelDrag } from '../hooks/usePanelDrag'
+import { computeGasStatus, gasModelParams } from '../utils/gasEndurance'
 
 interface GasPanelProps {
   isOpen: boolean
@@ -25,6 +26,8 @@ export function GasPanel({ isOpen, onClose }: GasPanelProps) {
   const activateGasBottle = useFlightStore(s => s.activateGasBottle)
   const deactivateGasBottle = useFlightStore(s => s.deactivateGasBottle)
   const resetGasTracker = useFlightStore(s => s.resetGasTracker)
+  const updateSettings = useFlightStore(s => s.updateSettings)
+  const track = useFlightStore(s => s.track)
   const o = getOutdoor(settings.outdoorMode)
 
   const bottles = settings.gasBottles || []
@@ -54,38 +57,14 @@ export function GasPanel({ isOpen, onClose }: GasPanelProps) {
     return () => clearInterval(interval)
   }, [isOpen])
 
-  // Verbrauchte Liter für eine Flasche berechnen
-  const getUsedLiters = (bottleId: string): number => {
-    let total = 0
-    for (const record of gasBottleState.usedBottles) {
-      if (record.bottleId === bottleId) {
-        total += record.litersUsed
-      }
-    }
-    if (gasBottleState.activeBottleId === bottleId && gasBottleState.activeSince) {
-      const bottle = bottles.find(b => b.id === bottleId)
-      if (bottle) {
-        const elapsedMs = Date.now() - new Date(gasBottleState.activeSince).getTime()
-        const elapsedHours = elapsedMs / (1000 * 60 * 60)
-        total += bottle.consumptionPerHour * elapsedHours
-      }
-    }
-    return total
-  }
+  // Verbrauch aus dem Flugverhalten (Steigen, Brennstöße, Temperatur) statt fester L/h
+  const gasStatus = computeGasStatus(bottles, gasBottleState, track, Date.now(), gasModelParams(settings), reserveMin)
 
-  const getRemainingLiters = (bottleId: string): number => {
-    const bottle = bottles.find(b => b.id === bottleId)
-    if (!bottle) return 0
-    return Math.max(0, bottle.totalLiters - getUsedLiters(bottleId))
-  }
+  const getRemainingLiters = (bottleId: string): number =>
+    gasStatus.bottles.find(b => b.bottleId === bottleId)?.remainingLiters ?? 0
 
-  const getRemainingMinutes = (bottleId: string): number => {
-    const bottle = bottles.find(b => b.id === bottleId)
-    if (!bottle || bottle.consumptionPerHour <= 0) return 0
-    const remaining = getRemainingLiters(bottleId)
-    const totalMinutes = (remaining / bottle.consumptionPerHour) * 60
-    return totalMinutes - reserveMin
-  }
+  const getRemainingMinutes = (bottleId: string): number =>
+    gasStatus.bottles.find(b => b.bottleId === bottleId)?.remainingMinutes ?? 0
 
   const getPercentage = (bottleId: string): number => {
     const bottle = bottles.find(b => b.id === bottleId)
@@ -363,6 +342,22 @@ export function GasPanel({ isOpen, onClose }: GasPanelProps) {
             })()}
           </svg>
 
+          {/* Aktueller Verbrauch und Restzeit aller Flaschen */}
+          <div style={{
+            display: 'flex', justifyContent: 'space-between', alignItems: 'center',
+            padding: '0 4px', fontSize: '10px', fontFamily: 'monospace'
+          }}>
+            <span style={{ color: `rgba(${o.c},${o.c},${o.c},${o.text})` }} title="Verbrauch der letzten 15 min">
+              {gasStatus.litersPerHour.toFixed(0)} L/h
+              {gasStatus.burnsPerMinute !== null && (
+                <span style={{ color: `rgba(${o.c},${o.c},${o.c},${o.textMuted})` }}> · {gasStatus.burnsPerMinute.toFixed(1)} Br/min</span>
+              )}
+            </span>
+            <span style={{ fontWeight: 700, color: gasStatus.enduranceMinutes <= reserveMin ? '#f59e0b' : '#22c55e' }} title="Restzeit bis zur Reserve">
+              {Math.floor(gasStatus.enduranceMinutes / 60)}:{String(Math.floor(gasStatus.enduranceMinutes % 60)).padStart(2, '0')} h
+            </span>
+          </div>
+
           {/* Leiste unter SVG: Gesamtstatus */}
           <div style={{
             display: 'flex', justifyContent: 'space-between', alignItems: 'center',
@@ -370,9 +365,23 @@ export function GasPanel({ isOpen, onClose }: GasPanelProps) {
           }}>
             {/* Gesamt Restliter */}
             <span style={{ fontSize: '10px', color: `rgba(${o.c},${o.c},${o.c},${o.text})`, fontFamily: 'monospace' }}>
-              {bottles.reduce((sum, b) => sum + getRemainingLiters(b.id), 0).toFixed(0)}L gesamt
+              {gasStatus.remainingLiters.toFixed(0)}L gesamt
             </span>
 
+            {/* Reichweite bis Gasende auf der Karte */}
+            <button
+              className="no-drag"
+              onClick={() => updateSettings({ showGasRange: !settings.showGasRange })}
+              title="Reichweite bis Gasende (abzüglich Reserve) auf der Karte anzeigen"
+              style={{
+                background: settings.showGasRange ? 'rgba(239,68,68,0.2)' : 'none',
+                border: `1px solid ${settings.showGasRange ? 'rgba(239,68,68,0.5)' : `rgba(${o.c},${o.c},${o.c},${o.on ? 0.25 : 0.15})`}`,
+                borderRadius: '4px', cursor: 'pointer',
+                fontSize: '9px', fontWeight: 600, padding: '1px 6px',
+                color: settings.showGasRange ? '#ef4444' : `rgba(${o.c},${o.c},${o.c},${o.textMuted})`
+              }}
+            >Reichweite</button>
+
             {/* Reset Button */}
             <button
               className="no-drag"
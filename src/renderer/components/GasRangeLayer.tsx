@@ -0,0 +1,100 @@
+/**
+ * Reichweite bis Gasende
+ * Umriss der Fläche, die mit dem aktuellen Windprofil erreichbar ist, bevor das Gas
+ * (abzüglich Reserve) ausgeht. Wird jede Minute mit aktueller Position und Restzeit
+ * im Compute-Worker neu gerechnet.
+ */
+import { useEffect, useRef, useState } from 'react'
+import { Polygon, CircleMarker, Tooltip } from 'react-leaflet'
+import { useFlightStore } from '../stores/flightStore'
+import { useCompute } from '../hooks/useCompute'
+import { windFieldForFilter } from '../utils/windField'
+import { computeGasStatus, gasModelParams } from '../utils/gasEndurance'
+import { findBalloonPerformance, limitRate } from '../utils/balloonPerformance'
+
+const UPDATE_INTERVAL_MS = 60000
+const DEFAULT_RATE = 3  // m/s Steigen/Sinken wie im Erreichbarkeits-Panel
+
+interface GasRange {
+  outline: { lat: number; lon: number }[]
+  enduranceMin: number
+}
+
+export function GasRangeLayer() {
+  const rangeCompute = useCompute('gasRange')
+  const [range, setRange] = useState<GasRange | null>(null)
+
+  const calculate = async () => {
+    const { gpsData, baroData, settings, windLayers, windField, gasBottleState, track } = useFlightStore.getState()
+    const bottles = settings.gasBottles || []
+    const layers = windLayers.filter(l => l.speed > 0)
+    if (!gpsData || bottles.length === 0 || layers.length === 0) {
+      setRange(null)
+      return
+    }
+
+    const status = computeGasStatus(
+      bottles, gasBottleState, track, Date.now(),
+      gasModelParams(settings), settings.gasReserveMinutes ?? 10
+    )
+    if (status.enduranceMinutes <= 0) {
+      setRange(null)
+      return
+    }
+
+    const performance = findBalloonPerformance(settings)
+    const layerAlts = layers.map(l => l.altitude)
+    try {
+      const outcome = await rangeCompute.run([{
+        lat: gpsData.latitude,
+        lon: gpsData.longitude,
+        altitude: baroData?.pressureAltitude || gpsData.altitude || 0,
+        windLayers: layers.map(l => ({ altitude: l.altitude, direction: l.direction, speed: l.speed })),
+        windField: windFieldForFilter(windField, 'all'),
+        timeBudgetSec: status.enduranceMinutes * 60,
+        maxClimbRate: limitRate(performance, DEFAULT_RATE, true),
+        maxSinkRate: limitRate(performance, DEFAULT_RATE, false),
+        minAltitude: Math.min(...layerAlts),
+        maxAltitude: Math.max(...layerAlts)
+      }])
+      if (!outcome) return  // abgebrochen
+      setRange(outcome.result && outcome.result.length >= 3
+        ? { outline: outcome.result, enduranceMin: status.enduranceMinutes }
+        : null)
+    } catch (e) {
+      console.error('[GasRange] Berechnungsfehler:', e)
+    }
+  }
+
+  // Sofort und danach jede Minute neu rechnen
+  const calculateRef = useRef(calculate)
+  calculateRef.current = calculate
+  useEffect(() => {
+    calculateRef.current()
+    const interval = setInterval(() => calculateRef.current(), UPDATE_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [])
+
+  if (!range) return null
+
+  // Beschriftung am nördlichsten Punkt des Umrisses
+  const top = range.outline.reduce((a, b) => (b.lat > a.lat ? b : a))
+
+  return (
+    <>
+      <Polygon
+        positions={range.outline.map(p => [p.lat, p.lon] as [number, number])}
+        pathOptions={{
+          color: '#ef4444', fillColor: '#ef4444', fillOpacity: 0.04,
+          weight: 2, opacity: 0.7, dashArray: '10, 6'
+        }}
+        interactive={false}
+      />
+      <CircleMarker center={[top.lat, top.lon]} radius={0} interactive={false} pathOptions={{ opacity: 0 }}>
+        <Tooltip permanent direction="top" offset={[0, -4]}>
+          Gas reicht noch {Math.floor(range.enduranceMin)} min
+        </Tooltip>
+      </CircleMarker>
+    </>
+  )
+}
@@ -1407,6 +1407,18 @@ export function Header({ onBriefingToggle, briefingOpen, onDrawToggle, drawOpen,
           </svg>
           Donut <span style={{ fontSize: '8px', opacity: 0.5 }}>BETA</span>
         </button>
+        {/* Erreichbarkeit (Heatmap) */}
+        <button
+          onClick={() => { setActiveToolPanel(activeToolPanel === 'rch' ? null : 'rch'); setShowToolsDropdown(false) }}
+          style={{ ...dropdownItem, color: activeToolPanel === 'rch' ? '#14b8a6' : `rgba(${o.c},${o.c},${o.c},${o.textSec})` }}
+          onMouseEnter={e => (e.currentTarget.style.background = `rgba(${o.c},${o.c},${o.c},${o.on ? 0.12 : 0.05})`)}
+          onMouseLeave={e => (e.currentTarget.style.background = 'transparent')}
+        >
+          <svg width={Math.round(16 * scale)} height={Math.round(16 * scale)} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <rect x="3" y="3" width="7" height="7" /><rect x="14" y="3" width="7" height="7" /><rect x="3" y="14" width="7" height="7" /><circle cx="17.5" cy="17.5" r="3.5" />
+          </svg>
+          Erreichbarkeit <span style={{ fontSize: '8px', opacity: 0.5 }}>BETA</span>
+        </button>
       </div>
     )}
     </>
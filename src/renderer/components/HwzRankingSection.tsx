@@ -0,0 +1,199 @@
+/**
+ * HWZ-Assistent im WNV-Panel
+ * Rechnet die Wind-Navigation für alle Goals des Hesitation-Waltz-Tasks und zeigt sie
+ * sortiert nach Distanz, Robustheit gegen Windfehler und Zeit. Mit "Auto" wird neu
+ * gerechnet, sobald sich die Windschichten ändern (z.B. neue Live-Messung).
+ * Klick auf ein Goal wählt es aus und übernimmt dessen Plan in die WNV.
+ */
+import React, { useState, useEffect, useCallback, useRef } from 'react'
+import { useFlightStore } from '../stores/flightStore'
+import { getOutdoor } from '../utils/outdoorStyles'
+import { useCompute } from '../hooks/useCompute'
+import { findBalloonPerformance } from '../utils/balloonPerformance'
+import type { HwzGoalRanking } from '../utils/hwzRanking'
+import type { WindField } from '../utils/windField'
+import { TaskType, WindLayer, WindSource } from '../../shared/types'
+
+interface Props {
+  windLayers: WindLayer[]
+  windField: WindField | null
+}
+
+const formatDist = (m: number) => m >= 1000 ? `${(m / 1000).toFixed(1)}km` : `${m}m`
+
+export function HwzRankingSection({ windLayers, windField }: Props) {
+  const { gpsData, baroData, tasks, activeTask, selectedGoal, settings } = useFlightStore()
+  const setSelectedGoal = useFlightStore(s => s.setSelectedGoal)
+  const setWnvResult = useFlightStore(s => s.setWnvResult)
+  const wnvConfig = useFlightStore(s => s.wnvConfig)
+  const prohibitedZones = useFlightStore(s => s.prohibitedZones)
+  const o = getOutdoor(settings.outdoorMode)
+
+  const [rankings, setRankings] = useState<HwzGoalRanking[] | null>(null)
+  const [rankedAt, setRankedAt] = useState<Date | null>(null)
+  const [autoRank, setAutoRank] = useState(true)
+  const [elevations, setElevations] = useState<Record<string, number | null> | null>(null)
+  const hwzCompute = useCompute('hwzRanking')
+  const lastRankKeyRef = useRef<string | null>(null)
+
+  // HWZ-Task: der des gewählten Goals, sonst der aktive Task
+  const hwzTask = tasks.find(t =>
+    t.type === TaskType.HWZ && t.goals.length >= 2 && t.goals.some(g => g.id === selectedGoal?.id)
+  ) ?? (activeTask?.type === TaskType.HWZ && activeTask.goals.length >= 2 ? activeTask : null)
+  const goalKey = hwzTask ? hwzTask.goals.map(g => `${g.id}:${g.position.latitude}:${g.position.longitude}`).join('|') : ''
+
+  // Geländehöhe aller Goals laden
+  useEffect(() => {
+    setElevations(null)
+    setRankings(null)
+    lastRankKeyRef.current = null
+    if (!hwzTask) return
+    let cancelled = false
+    const getElevation = window.ntaAPI?.elevation?.getElevation
+    Promise.all(hwzTask.goals.map(g =>
+      getElevation
+        ? getElevation(g.position.latitude, g.position.longitude).catch(() => null)
+        : Promise.resolve(null)
+    )).then(values => {
+      if (cancelled) return
+      setElevations(Object.fromEntries(hwzTask.goals.map((g, i) => [g.id, values[i]])))
+    })
+    return () => { cancelled = true }
+  }, [goalKey])
+
+  const currentAlt = baroData?.pressureAltitude || gpsData?.altitude || 0
+  // Ohne Geländehöhe stimmt die Sinkphase nicht - wie in der WNV nur mit bekannter Höhe rechnen
+  const missingElevation = hwzTask && elevations ? hwzTask.goals.filter(g => elevations[g.id] == null) : []
+  const canRank = !!gpsData && !!hwzTask && !!elevations && missingElevation.length === 0 && windLayers.length >= 2
+
+  const doRank = useCallback(async () => {
+    if (!gpsData || !hwzTask || !elevations || windLayers.length < 2) return
+    if (hwzTask.goals.some(g => elevations[g.id] == null)) return
+    try {
+      const outcome = await hwzCompute.run([{
+        pilotLat: gpsData.latitude, pilotLon: gpsData.longitude,
+        pilotAltitude: currentAlt,
+        goals: hwzTask.goals.map(g => ({
+          goalId: g.id,
+          name: g.name,
+          lat: g.position.latitude,
+          lon: g.position.longitude,
+          elevation: elevations[g.id]!
+        })),
+        windLayers,
+        maxLegs: wnvConfig.maxLegs,
+        windField,
+        prohibitedZones,
+        performance: findBalloonPerformance(settings),
+      }])
+      if (!outcome) return
+      setRankings(outcome.result)
+      setRankedAt(new Date())
+    } catch (e) {
+      console.error('[HWZ] Berechnungsfehler:', e)
+    }
+  }, [hwzCompute.run, gpsData?.latitude, gpsData?.longitude, currentAlt, hwzTask, elevations, windLayers, wnvConfig.maxLegs, windField, prohibitedZones, settings])
+
+  // Auto: neu rechnen sobald sich die Windschichten ändern (neue Live-Messung).
+  // Eine laufende Berechnung wird nicht abgebrochen - danach wird mit dem neuesten Stand nachgerechnet.
+  const windKey = windLayers.map(l => `${Math.round(l.altitude)}:${Math.round(l.direction)}:${Math.round(l.speed)}`).join('|')
+  const rankKey = `${windKey}#${goalKey}#${wnvConfig.maxLegs}`
+  const rankRef = useRef(doRank)
+  rankRef.current = doRank
+  useEffect(() => {
+    if (!autoRank || !canRank) return
+    if (hwzCompute.busy) return
+    if (lastRankKeyRef.current === rankKey) return
+    lastRankKeyRef.current = rankKey
+    rankRef.current()
+  }, [autoRank, canRank, rankKey, hwzCompute.busy])
+
+  if (!hwzTask) return null
+
+  const selectGoal = (ranking: HwzGoalRanking) => {
+    const goal = hwzTask.goals.find(g => g.id === ranking.goalId)
+    if (!goal) return
+    setSelectedGoal(goal)
+    setWnvResult(ranking.result)
+  }
+
+  const measuredCount = windLayers.filter(l => l.source === WindSource.Measured).length
+  const accent = '#f59e0b'
+
+  return (
+    <div style={{
+      marginBottom: '8px', padding: '6px', borderRadius: '6px',
+      background: `rgba(${o.c},${o.c},${o.c},${o.on ? 0.05 : 0.02})`,
+      border: `1px solid rgba(${o.c},${o.c},${o.c},${o.on ? 0.1 : 0.05})`
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '4px', gap: '6px' }}>
+        <span style={{ fontSize: '9px', fontWeight: 700, color: accent, letterSpacing: '0.5px' }}>
+          HWZ · {hwzTask.taskNumber || hwzTask.name}
+        </span>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '3px', cursor: 'pointer' }}>
+            <input type="checkbox" checked={autoRank} onChange={e => setAutoRank(e.target.checked)}
+              style={{ accentColor: accent, cursor: 'pointer' }} />
+            <span style={{ fontSize: '9px', color: `rgba(${o.c},${o.c},${o.c},${o.textSec})` }}>Auto</span>
+          </label>
+          <button onClick={doRank} disabled={!canRank}
+            style={{
+              padding: '3px 8px', borderRadius: '4px', border: 'none',
+              background: canRank ? `${accent}30` : `rgba(${o.c},${o.c},${o.c},${o.on ? 0.06 : 0.03})`,
+              color: canRank ? accent : `rgba(${o.c},${o.c},${o.c},${o.on ? 0.3 : 0.2})`,
+              fontSize: '9px', fontWeight: 700, cursor: canRank ? 'pointer' : 'not-allowed'
+            }}>
+            {hwzCompute.busy ? `${Math.round((hwzCompute.progress ?? 0) * 100)}%` : 'Vergleichen'}
+          </button>
+        </div>
+      </div>
+
+      {!elevations && (
+        <div style={{ fontSize: '9px', color: `rgba(${o.c},${o.c},${o.c},${o.textMuted})`, textAlign: 'center' }}>Lade Geländehöhen...</div>
+      )}
+      {missingElevation.length > 0 && (
+        <div style={{ fontSize: '9px', color: accent, textAlign: 'center' }}>
+          Geländehöhe unbekannt: {missingElevation.map(g => g.name).join(', ')}
+        </div>
+      )}
+
+      {rankings && rankings.map((r, i) => {
+        const isSelected = r.goalId === selectedGoal?.id
+        const distColor = r.distanceToGoal === null ? `rgba(${o.c},${o.c},${o.c},${o.textDim})`
+          : r.distanceToGoal < 100 ? '#22c55e' : r.distanceToGoal < 500 ? '#f59e0b' : '#ef4444'
+        return (
+          <div key={r.goalId} onClick={() => selectGoal(r)}
+            title="Goal auswählen und Plan übernehmen"
+            style={{
+              display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '6px',
+              padding: '3px 6px', marginBottom: '2px', borderRadius: '4px', fontSize: '10px', cursor: 'pointer',
+              background: isSelected ? `${accent}20` : `rgba(${o.c},${o.c},${o.c},${o.on ? 0.04 : 0.02})`,
+              borderLeft: isSelected ? `3px solid ${accent}` : '3px solid transparent'
+            }}>
+            <span style={{ color: o.textColor, fontWeight: 700, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+              {i + 1}. {r.name}{r.result?.pzViolation ? ' ⚠' : ''}
+            </span>
+            {r.result ? (
+              <span style={{ display: 'flex', gap: '6px', fontFamily: 'monospace', flexShrink: 0 }}>
+                <span style={{ color: distColor, fontWeight: 700 }}>{formatDist(r.distanceToGoal!)}</span>
+                <span style={{ color: `rgba(${o.c},${o.c},${o.c},${o.textSec})` }} title="Distanz bei Windfehler ±15% / ±10°">
+                  ≤{formatDist(r.windErrorMiss!)}
+                </span>
+                <span style={{ color: `rgba(${o.c},${o.c},${o.c},${o.textDim})` }}>{Math.round(r.totalTimeSec! / 60)}m</span>
+              </span>
+            ) : (
+              <span style={{ color: `rgba(${o.c},${o.c},${o.c},${o.textDim})` }}>keine Lösung</span>
+            )}
+          </div>
+        )
+      })}
+
+      {rankedAt && (
+        <div style={{ fontSize: '8px', color: `rgba(${o.c},${o.c},${o.c},${o.textMuted})`, marginTop: '3px', display: 'flex', justifyContent: 'space-between' }}>
+          <span>Stand {rankedAt.toLocaleTimeString()}</span>
+          <span>{windLayers.length} Schichten · {measuredCount} Live</span>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react'
-import { useTeamStore } from '../stores/teamStore'
+import { useTeamStore, CREW_POSITION_STALE_MS } from '../stores/teamStore'
 import { useFlightStore } from '../stores/flightStore'
 import { useAuthStore } from '../stores/authStore'
 import { usePanelDrag } from '../hooks/usePanelDrag'
@@ -7,6 +7,8 @@ import { isSupabaseConfigured, supabase } from '../lib/supabase'
 import { startPositionBroadcasting, stopPositionBroadcasting } from '../services/positionBroadcaster'
 import { TeamConnectionStatus } from '../../shared/types'
 import { getOutdoor } from '../utils/outdoorStyles'
+import { calculateDistance } from '../utils/navigation'
+import { formatAge } from '../utils/formatting'
 import { GroundWindReports } from './GroundWindReports'
 
 interface LiveTeamPanelProps {
@@ -26,13 +28,15 @@ export function LiveTeamPanel({ isOpen, onClose }: LiveTeamPanelProps) {
   const {
     session, myMemberId, members, connectionStatus, error, queue,
     hiddenMembers, createTeam, joinTeam, leaveTeam,
-    toggleMemberVisibility, sendMessage, setGroundWindToast
+    toggleMemberVisibility, sendMessage, setGroundWindToast,
+    transport, lanHub, hostLanTeam, joinLanTeam
   } = useTeamStore()
   const pendingWindLayer = useTeamStore(s => s.pendingWindLayer)
   const clearPendingWindLayer = useTeamStore(s => s.clearPendingWindLayer)
 
   const { settings } = useFlightStore()
   const addWindLayers = useFlightStore(s => s.addWindLayers)
+  const gpsData = useFlightStore(s => s.gpsData)
   const o = getOutdoor(settings.outdoorMode)
   const authUser = useAuthStore(s => s.user)
 
@@ -51,7 +55,11 @@ export function LiveTeamPanel({ isOpen, onClose }: LiveTeamPanelProps) {
   // UI State
   const [teamName, setTeamName] = useState('')
   const [joinCode, setJoinCode] = useState('')
-  const [mode, setMode] = useState<'menu' | 'create' | 'join'>('menu')
+  const [mode, setMode] = useState<'menu' | 'create' | 'join' | 'lan'>('menu')
+  const [lanAddress, setLanAddress] = useState(() => localStorage.getItem('nta_last_lan_hub') || '')
+  const [lanPin, setLanPin] = useState('')
+  // Ohne Supabase gibt es kein Login - Rufname dann lokal merken
+  const [lanCallsign, setLanCallsign] = useState(() => callsign || localStorage.getItem('nta_lan_callsign') || '')
   const [isLoading, setIsLoading] = useState(false)
   const [showJoinCode, setShowJoinCode] = useState(true)
   const [showQuickMessages, setShowQuickMessages] = useState(false)
@@ -59,6 +67,12 @@ export function LiveTeamPanel({ isOpen, onClose }: LiveTeamPanelProps) {
   const [showCrew, setShowCrew] = useState(false)
   const [activeTab, setActiveTab] = useState<'pilots' | 'crew'>('pilots')
   const [unreadWindReports, setUnreadWindReports] = useState(0)
+  const [now, setNow] = useState(Date.now())  // Für Alter der Crew-Positionen
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 10000)
+    return () => clearInterval(interval)
+  }, [])
 
   // Chat State
   const [showChat, setShowChat] = useState(false)
@@ -117,7 +131,8 @@ export function LiveTeamPanel({ isOpen, onClose }: LiveTeamPanelProps) {
 
   // Wind Reports: Unread-Badge Realtime-Subscription (stabil, nur von session.id abhängig)
   useEffect(() => {
-    if (!session) {
+    // Bodenwind-Meldungen gibt es nur über Supabase
+    if (!session || transport === 'lan') {
       setUnreadWindReports(0)
       return
     }
@@ -215,6 +230,27 @@ export function LiveTeamPanel({ isOpen, onClose }: LiveTeamPanelProps) {
     }
   }
 
+  const handleHostLan = async () => {
+    if (!lanCallsign.trim()) return
+    localStorage.setItem('nta_lan_callsign', lanCallsign.trim())
+    setIsLoading(true)
+    const success = await hostLanTeam(lanCallsign.trim())
+    setIsLoading(false)
+    if (success) setMode('menu')
+  }
+
+  const handleJoinLan = async () => {
+    if (!lanCallsign.trim() || !lanAddress.trim() || lanPin.length !== 6) return
+    localStorage.setItem('nta_lan_callsign', lanCallsign.trim())
+    setIsLoading(true)
+    try {
+      const success = await joinLanTeam(lanAddress.trim(), lanPin, lanCallsign.trim())
+      if (success) setMode('menu')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
   const handleLeave = async () => {
     stopPositionBroadcasting()
     await leaveTeam()
@@ -309,8 +345,9 @@ export function LiveTeamPanel({ isOpen, onClose }: LiveTeamPanelProps) {
 
       {/* Content */}
       <div style={{ padding: `${12 * scale}px ${14 * scale}px` }}>
-        {!configured ? (
-          /* Supabase nicht konfiguriert */
+        {!configured && !session && mode !== 'lan' ? (
+          /* Supabase nicht konfiguriert - LAN-Team geht trotzdem */
+          <>
           <div style={{
             padding: `${12 * scale}px`,
             background: 'rgba(239, 68, 68, 0.1)',
@@ -327,6 +364,24 @@ export function LiveTeamPanel({ isOpen, onClose }: LiveTeamPanelProps) {
             <div>2. Führe docs/supabase-schema.sql aus</div>
             <div>3. Trage URL + Key in src/renderer/lib/supabase.ts ein</div>
           </div>
+          <button
+            onClick={() => setMode('lan')}
+            style={{
+              width: '100%',
+              marginTop: `${8 * scale}px`,
+              padding: `${8 * scale}px`,
+              background: `rgba(${o.c},${o.c},${o.c},${o.bgSoft})`,
+              color: o.textColor,
+              border: `1px solid rgba(${o.c},${o.c},${o.c},${o.borderStrong})`,
+              borderRadius: `${6 * scale}px`,
+              fontSize: `${11 * scale}px`,
+              fontWeight: 600,
+              cursor: 'pointer'
+            }}
+          >
+            LAN-Team (ohne Internet)
+          </button>
+          </>
         ) : !session ? (
           /* Kein aktives Team */
           <>
@@ -423,6 +478,155 @@ export function LiveTeamPanel({ isOpen, onClose }: LiveTeamPanelProps) {
                 >
                   Team beitreten
                 </button>
+
+                <button
+                  onClick={() => setMode('lan')}
+                  style={{
+                    width: '100%',
+                    padding: `${8 * scale}px`,
+                    background: `rgba(${o.c},${o.c},${o.c},${o.bgSoft})`,
+                    color: o.textColor,
+                    border: `1px solid rgba(${o.c},${o.c},${o.c},${o.borderStrong})`,
+                    borderRadius: `${6 * scale}px`,
+                    fontSize: `${11 * scale}px`,
+                    fontWeight: 600,
+                    cursor: 'pointer'
+                  }}
+                >
+                  LAN-Team (ohne Internet)
+                </button>
+              </div>
+            )}
+
+            {mode === 'lan' && (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: `${8 * scale}px` }}>
+                <div style={{ fontSize: `${10 * scale}px`, color: `rgba(${o.c},${o.c},${o.c},${o.textMuted})`, lineHeight: 1.4 }}>
+                  Alle im gleichen WLAN oder Handy-Hotspot. Ein Laptop startet den Hub, die anderen treten mit seiner Adresse bei.
+                </div>
+                <div>
+                  <label style={{ fontSize: `${10 * scale}px`, color: `rgba(${o.c},${o.c},${o.c},${o.textMuted})`, display: 'block', marginBottom: `${4 * scale}px` }}>
+                    Rufname
+                  </label>
+                  <input
+                    type="text"
+                    value={lanCallsign}
+                    onChange={(e) => setLanCallsign(e.target.value)}
+                    maxLength={30}
+                    placeholder="z.B. D-OABC"
+                    style={{
+                      width: '100%',
+                      padding: `${8 * scale}px ${10 * scale}px`,
+                      background: `rgba(${o.c},${o.c},${o.c},${o.border})`,
+                      border: `1px solid rgba(${o.c},${o.c},${o.c},${o.borderStrong})`,
+                      borderRadius: `${6 * scale}px`,
+                      color: o.textColor,
+                      fontSize: `${12 * scale}px`,
+                      outline: 'none',
+                      boxSizing: 'border-box'
+                    }}
+                  />
+                </div>
+                <button
+                  onClick={handleHostLan}
+                  disabled={isLoading || !lanCallsign.trim()}
+                  style={{
+                    width: '100%',
+                    padding: `${10 * scale}px`,
+                    background: (isLoading || !lanCallsign.trim()) ? `rgba(${o.c},${o.c},${o.c},${o.border})` : 'linear-gradient(135deg, #22c55e, #16a34a)',
+                    color: '#fff',
+                    border: 'none',
+                    borderRadius: `${6 * scale}px`,
+                    fontSize: `${12 * scale}px`,
+                    fontWeight: 600,
+                    cursor: isLoading ? 'wait' : !lanCallsign.trim() ? 'not-allowed' : 'pointer'
+                  }}
+                >
+                  Hub auf diesem Gerät starten
+                </button>
+                <div>
+                  <label style={{ fontSize: `${10 * scale}px`, color: `rgba(${o.c},${o.c},${o.c},${o.textMuted})`, display: 'block', marginBottom: `${4 * scale}px` }}>
+                    Hub-Adresse (IP[:Port])
+                  </label>
+                  <input
+                    type="text"
+                    value={lanAddress}
+                    onChange={(e) => setLanAddress(e.target.value)}
+                    placeholder="192.168.43.1:8765"
+                    style={{
+                      width: '100%',
+                      padding: `${8 * scale}px ${10 * scale}px`,
+                      background: `rgba(${o.c},${o.c},${o.c},${o.border})`,
+                      border: `1px solid rgba(${o.c},${o.c},${o.c},${o.borderStrong})`,
+                      borderRadius: `${6 * scale}px`,
+                      color: o.textColor,
+                      fontSize: `${12 * scale}px`,
+                      fontFamily: 'monospace',
+                      outline: 'none',
+                      boxSizing: 'border-box'
+                    }}
+                  />
+                </div>
+                <div>
+                  <label style={{ fontSize: `${10 * scale}px`, color: `rgba(${o.c},${o.c},${o.c},${o.textMuted})`, display: 'block', marginBottom: `${4 * scale}px` }}>
+                    Team-PIN (wird beim Hub angezeigt)
+                  </label>
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={lanPin}
+                    onChange={(e) => setLanPin(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                    placeholder="123456"
+                    style={{
+                      width: '100%',
+                      padding: `${8 * scale}px ${10 * scale}px`,
+                      background: `rgba(${o.c},${o.c},${o.c},${o.border})`,
+                      border: `1px solid rgba(${o.c},${o.c},${o.c},${o.borderStrong})`,
+                      borderRadius: `${6 * scale}px`,
+                      color: o.textColor,
+                      fontSize: `${12 * scale}px`,
+                      fontFamily: 'monospace',
+                      letterSpacing: `${2 * scale}px`,
+                      outline: 'none',
+                      boxSizing: 'border-box'
+                    }}
+                  />
+                </div>
+                <div style={{ display: 'flex', gap: `${6 * scale}px` }}>
+                  <button
+                    onClick={() => setMode('menu')}
+                    style={{
+                      flex: 1,
+                      padding: `${8 * scale}px`,
+                      background: `rgba(${o.c},${o.c},${o.c},${o.border})`,
+                      color: `rgba(${o.c},${o.c},${o.c},${o.textSec})`,
+                      border: 'none',
+                      borderRadius: `${6 * scale}px`,
+                      fontSize: `${11 * scale}px`,
+                      cursor: 'pointer'
+                    }}
+                  >
+                    Zurück
+                  </button>
+                  <button
+                    onClick={handleJoinLan}
+                    disabled={isLoading || !lanAddress.trim() || lanPin.length !== 6 || !lanCallsign.trim()}
+                    style={{
+                      flex: 2,
+                      padding: `${8 * scale}px`,
+                      background: (isLoading || !lanAddress.trim() || lanPin.length !== 6 || !lanCallsign.trim())
+                        ? `rgba(${o.c},${o.c},${o.c},${o.border})`
+                        : 'linear-gradient(135deg, #3b82f6, #2563eb)',
+                      color: (isLoading || !lanAddress.trim() || lanPin.length !== 6 || !lanCallsign.trim()) ? `rgba(${o.c},${o.c},${o.c},${o.textDim})` : '#fff',
+                      border: 'none',
+                      borderRadius: `${6 * scale}px`,
+                      fontSize: `${11 * scale}px`,
+                      fontWeight: 600,
+                      cursor: (isLoading || !lanAddress.trim() || lanPin.length !== 6 || !lanCallsign.trim()) ? 'not-allowed' : 'pointer'
+                    }}
+                  >
+                    {isLoading ? 'Verbinden...' : 'Beitreten'}
+                  </button>
+                </div>
               </div>
             )}
 
@@ -631,6 +835,36 @@ export function LiveTeamPanel({ isOpen, onClose }: LiveTeamPanelProps) {
               </div>
             </div>
 
+            {/* LAN-Hub: Link für die Lite-App der Crew */}
+            {lanHub && (
+              <div style={{
+                padding: `${6 * scale}px ${10 * scale}px`,
+                marginBottom: `${8 * scale}px`,
+                background: `rgba(${o.c},${o.c},${o.c},${o.bgSoft})`,
+                borderRadius: `${6 * scale}px`,
+                fontSize: `${10 * scale}px`,
+                color: `rgba(${o.c},${o.c},${o.c},${o.textMuted})`,
+                userSelect: 'text'
+              }}>
+                <div style={{ marginBottom: `${2 * scale}px` }}>
+                  Team-PIN:{' '}
+                  <span style={{ fontFamily: 'monospace', fontWeight: 700, letterSpacing: `${1.5 * scale}px`, color: o.textColor }}>
+                    {lanHub.pin}
+                  </span>
+                </div>
+                {lanHub.liteAvailable ? (
+                  <>
+                    Crew (Lite):{' '}
+                    <span style={{ fontFamily: 'monospace', color: o.textColor }}>
+                      http://{lanHub.addresses[0] || '127.0.0.1'}:{lanHub.port}/?lan=1&pin={lanHub.pin}
+                    </span>
+                  </>
+                ) : (
+                  'Lite-App nicht im Build enthalten (npm run build:lite)'
+                )}
+              </div>
+            )}
+
             {/* Tabs: Piloten / Crew */}
             {(() => {
               // Debug: Rollen aller Members loggen
@@ -709,6 +943,25 @@ export function LiveTeamPanel({ isOpen, onClose }: LiveTeamPanelProps) {
                         {member.callsign}
                         {isMe && <span style={{ color: `rgba(${o.c},${o.c},${o.c},${o.textDim})`, fontWeight: 400 }}> (du)</span>}
                       </div>
+                      {member.role === 'crew' && member.currentPosition && (() => {
+                        const pos = member.currentPosition
+                        const isStale = now - pos.recordedAt.getTime() > CREW_POSITION_STALE_MS
+                        const distance = gpsData ? calculateDistance(gpsData.latitude, gpsData.longitude, pos.latitude, pos.longitude) : null
+                        return (
+                          <div style={{
+                            fontSize: `${9 * scale}px`,
+                            fontFamily: 'monospace',
+                            color: isStale ? '#ef4444' : `rgba(${o.c},${o.c},${o.c},${o.textMuted})`,
+                            whiteSpace: 'nowrap',
+                            overflow: 'hidden',
+                            textOverflow: 'ellipsis'
+                          }}>
+                            {Math.round(pos.speed * 3.6)} km/h · {Math.round(pos.heading)}°
+                            {distance !== null && ` · ${distance >= 1000 ? `${(distance / 1000).toFixed(1)} km` : `${Math.round(distance)} m`}`}
+                            {` · ${formatAge(pos.recordedAt, now)}`}
+                          </div>
+                        )
+                      })()}
                     </div>
 
                     <span style={{
@@ -15,11 +15,14 @@ import { Stopwatch } from './Stopwatch'
 import { GasPanel } from './GasPanel'
 import { MeasureTool, MeasureMode } from './MeasureTool'
 import { PowerLinesLayer, PowerLinesLegend } from './PowerLinesLayer'
+import { ReachabilityLayer } from './ReachabilityLayer'
+import { GasRangeLayer } from './GasRangeLayer'
 import { CachedTileLayer } from './CachedTileLayer'
 import { CompetitionAreaPanel } from './CompetitionAreaPanel'
 import { WindRose } from './WindRose'
 import { UtmMapView } from './UtmMapView'
-import { useTeamStore } from '../stores/teamStore'
+import { useTeamStore, CREW_POSITION_STALE_MS } from '../stores/teamStore'
+import { formatAge } from '../utils/formatting'
 
 // Mock für Browser-Modus (wenn nicht in Electron)
 const getMapsAPI = () => {
@@ -317,6 +320,38 @@ function SmoothBalloonMarker({ position, heading, size, iconType, color }: {
   return null
 }
 
+// Crew-Fahrzeug: Auto von oben, in Fahrtrichtung gedreht. Veraltete Position grau und gestrichelt.
+const createVehicleIcon = (heading: number, color: string, isStale: boolean) => {
+  const fill = isStale ? '#6b7280' : color
+  return L.divIcon({
+    className: 'crew-vehicle-icon',
+    html: `
+      <div style="
+        width: 28px;
+        height: 28px;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        border-radius: 6px;
+        background: rgba(15, 23, 42, 0.85);
+        border: 2px ${isStale ? 'dashed' : 'solid'} ${fill};
+        box-shadow: 0 2px 4px rgba(0,0,0,0.4);
+        opacity: ${isStale ? 0.6 : 1};
+      ">
+        <svg width="20" height="20" viewBox="0 0 24 24" style="transform: rotate(${heading}deg);">
+          <path d="M12 0 L16 4 L8 4 Z" fill="${fill}" />
+          <rect x="7" y="5" width="10" height="16" rx="3" fill="${fill}" stroke="white" stroke-width="1" />
+          <rect x="8.5" y="7" width="7" height="3.5" rx="1" fill="rgba(255,255,255,0.8)" />
+          <rect x="8.5" y="16" width="7" height="2.5" rx="1" fill="rgba(255,255,255,0.5)" />
+        </svg>
+      </div>
+    `,
+    iconSize: [28, 28],
+    iconAnchor: [14, 14],
+    popupAnchor: [0, -14]
+  })
+}
+
 // Funktion zum Erstellen von Marker-Icons (für Goals, Drops, etc.)
 const createMarkerIcon = (color: string, size: number = 32) => {
   return L.divIcon({
@@ -1395,6 +1430,8 @@ interface MapClickHandlerProps {
   onPzDrawClick?: (lat: number, lon: number) => void
   windImportPickPosition?: boolean
   onWindImportPositionPicked?: (lat: number, lon: number) => void
+  markerImpactPicking?: boolean
+  onMarkerImpactPicked?: (lat: number, lon: number) => void
 }
 
 // Helper component to capture map reference
@@ -1562,7 +1599,7 @@ function MapPositionSaver({ onSavePosition }: { onSavePosition: (center: { lat:
   return null
 }
 
-function MapClickHandler({ onMapClick, hdgCourseMode, hdgPendingCourse, hdgPendingLineMode, onSetHdgCourseLine, editingHdgCourseLineId, onUpdateHdgCourseLine, tasksForSnap, waypointsForSnap, windLineMode, pendingWindLayer, onSetWindLine, drawingMode, onDrawClick, onMeasureClick, measureMode, onMouseMove, onMouseOut, gpsSimPickingStart, onGpsSimStartPicked, onDragStart, pzDrawMode, onPzDrawClick, windImportPickPosition, onWindImportPositionPicked }: MapClickHandlerProps) {
+function MapClickHandler({ onMapClick, hdgCourseMode, hdgPendingCourse, hdgPendingLineMode, onSetHdgCourseLine, editingHdgCourseLineId, onUpdateHdgCourseLine, tasksForSnap, waypointsForSnap, windLineMode, pendingWindLayer, onSetWindLine, drawingMode, onDrawClick, onMeasureClick, measureMode, onMouseMove, onMouseOut, gpsSimPickingStart, onGpsSimStartPicked, onDragStart, pzDrawMode, onPzDrawClick, windImportPickPosition, onWindImportPositionPicked, markerImpactPicking, onMarkerImpactPicked }: MapClickHandlerProps) {
   useMapEvents({
     dragstart: () => {
       if (onDragStart) onDragStart()
@@ -1574,6 +1611,12 @@ function MapClickHandler({ onMapClick, hdgCourseMode, hdgPendingCourse, hdgPendi
         return
       }
 
+      // Tatsächlichen Marker-Aufschlag nachtragen
+      if (markerImpactPicking && onMarkerImpactPicked) {
+        onMarkerImpactPicked(e.latlng.lat, e.latlng.lng)
+        return
+      }
+
       // GPS Simulation Startpunkt wählen
       if (gpsSimPickingStart && onGpsSimStartPicked) {
         onGpsSimStartPicked(e.latlng.lat, e.latlng.lng)
@@ -2079,6 +2122,8 @@ export function MapView({ onMapClick, clickedPosition, briefingOpen, drawingMode
   const addPzDrawPoint = useFlightStore(s => s.addPzDrawPoint)
   const windImportPickPosition = useFlightStore(s => s.windImportPickPosition)
   const setWindImportPosition = useFlightStore(s => s.setWindImportPosition)
+  const markerImpactPickId = useFlightStore(s => s.markerImpactPickId)
+  const setMarkerImpact = useFlightStore(s => s.setMarkerImpact)
   const isRecording = useFlightStore(s => s.isRecording)
   const startRecording = useFlightStore(s => s.startRecording)
   const stopRecording = useFlightStore(s => s.stopRecording)
@@ -2125,6 +2170,7 @@ export function MapView({ onMapClick, clickedPosition, briefingOpen, drawingMode
   // Landeprognose
   const landingPrediction = useFlightStore(s => s.landingPrediction)
   const showLandingPrediction = useFlightStore(s => s.showLandingPrediction)
+  const landingEnsemble = useFlightStore(s => s.landingEnsemble)
   const dropCalculator = useFlightStore(s => s.dropCalculator)
   const climbPointResult = useFlightStore(s => s.climbPointResult)
   const cpaMarker = useFlightStore(s => s.cpaMarker)
@@ -2135,6 +2181,7 @@ export function MapView({ onMapClick, clickedPosition, briefingOpen, drawingMode
   const wnvDeclared = useFlightStore(s => s.wnvDeclared)
   const wnvGuidance = useFlightStore(s => s.wnvGuidance)
   const donutResult = useFlightStore(s => s.donutResult)
+  const reachability = useFlightStore(s => s.reachability)
   const rangeCircleRadius = useFlightStore(s => s.rangeCircleRadius)
   const activeToolPanel = useFlightStore(s => s.activeToolPanel)
   const setActiveToolPanel = useFlightStore(s => s.setActiveToolPanel)
@@ -2233,6 +2280,9 @@ export function MapView({ onMapClick, clickedPosition, briefingOpen, drawingMode
         case 'openToolDonut':
           setActiveToolPanel(activeToolPanel === 'donut' ? null : 'donut')
           break
+        case 'openToolReach':
+          setActiveToolPanel(activeToolPanel === 'rch' ? null : 'rch')
+          break
         case 'toggleCpaMarker':
           setCpaMarkerActive(!cpaMarkerActive)
           break
@@ -2900,6 +2950,8 @@ export function MapView({ onMapClick, clickedPosition, briefingOpen, drawingMode
           onPzDrawClick={(lat, lon) => addPzDrawPoint({ lat, lon })}
           windImportPickPosition={windImportPickPosition}
           onWindImportPositionPicked={(lat, lon) => setWindImportPosition({ lat, lon })}
+          markerImpactPicking={!!markerImpactPickId}
+          onMarkerImpactPicked={(lat, lon) => { if (markerImpactPickId) setMarkerImpact(markerImpactPickId, { lat, lon }) }}
         />
 
         {/* Karte zentrieren */}
@@ -3511,6 +3563,60 @@ export function MapView({ onMapClick, clickedPosition, briefingOpen, drawingMode
           </>
         )}
 
+        {/* Ensemble-Landeprognose - mögliche Landepunkte + P90/P50-Landefläche */}
+        {showLandingPrediction && landingEnsemble && (
+          <>
+            <Polygon
+              positions={landingEnsemble.p90.polygon.map(p => [p.lat, p.lon] as [number, number])}
+              pathOptions={{
+                color: '#a855f7',
+                weight: 1.5,
+                opacity: 0.6,
+                dashArray: '4, 4',
+                fillColor: '#a855f7',
+                fillOpacity: 0.08
+              }}
+            >
+              <Tooltip sticky>
+                <div style={{ fontSize: '11px' }}>
+                  <div style={{ color: '#7c3aed', fontWeight: 600 }}>Landefläche P90</div>
+                  <div>Radius: {Math.round(landingEnsemble.p90.radiusMeters)} m</div>
+                  <div>Streuung: {landingEnsemble.spreadMeters < 1000
+                    ? `${Math.round(landingEnsemble.spreadMeters)} m`
+                    : `${(landingEnsemble.spreadMeters / 1000).toFixed(1)} km`
+                  }</div>
+                </div>
+              </Tooltip>
+            </Polygon>
+            <Polygon
+              positions={landingEnsemble.p50.polygon.map(p => [p.lat, p.lon] as [number, number])}
+              pathOptions={{
+                color: '#a855f7',
+                weight: 2,
+                opacity: 0.9,
+                fillColor: '#a855f7',
+                fillOpacity: 0.2
+              }}
+              interactive={false}
+            />
+            {/* Einzelne Mitglieder als Wahrscheinlichkeits-Wolke */}
+            {landingEnsemble.members.map((m, i) => (
+              <CircleMarker
+                key={`lp-ens-${i}`}
+                center={[m.lat, m.lon]}
+                radius={2.5}
+                pathOptions={{
+                  color: '#7c3aed',
+                  fillColor: '#a855f7',
+                  fillOpacity: 0.6,
+                  weight: 0
+                }}
+                interactive={false}
+              />
+            ))}
+          </>
+        )}
+
         {/* Landeprognose - Abstiegslinie + Landepunkt (unabhängig vom Track) */}
         {showLandingPrediction && landingPrediction && landingPrediction.path.length > 1 && (
           <>
@@ -3868,6 +3974,12 @@ export function MapView({ onMapClick, clickedPosition, briefingOpen, drawingMode
           />
         )}
 
+        {/* Erreichbarkeits-Heatmap */}
+        {reachability && <ReachabilityLayer grid={reachability} />}
+
+        {/* Reichweite bis Gasende */}
+        {settings.showGasRange && <GasRangeLayer />}
+
         {/* Donut Tool — Ringe + Pfad + Ring-Segmente */}
         {donutResult && (
           <>
@@ -4574,20 +4686,40 @@ export function MapView({ onMapClick, clickedPosition, briefingOpen, drawingMode
           const gridRef = `${eastStr} ${northStr}`
 
           return (
-            <Marker
-              key={marker.id}
-              position={[marker.position.latitude, marker.position.longitude]}
-              icon={createDropMarkerIcon(marker.number)}
-              zIndexOffset={2000}
-              eventHandlers={{
-                mouseover: (e) => {
-                  const containerPoint = e.containerPoint
-                  setHoveredDropMarker(marker.id)
-                  setDropMarkerHoverPos({ x: containerPoint.x, y: containerPoint.y })
-                  setHoveredMarkerScreenPos({ x: containerPoint.x, y: containerPoint.y })
-                }
-              }}
-            />
+            <React.Fragment key={marker.id}>
+              {/* Nachgetragener Aufschlag: Linie Abwurf → Aufschlag */}
+              {marker.impactPosition && (
+                <>
+                  <Polyline
+                    positions={[
+                      [marker.position.latitude, marker.position.longitude],
+                      [marker.impactPosition.latitude, marker.impactPosition.longitude]
+                    ]}
+                    pathOptions={{ color: '#f97316', weight: 2, dashArray: '4, 4', opacity: 0.8 }}
+                    interactive={false}
+                  />
+                  <CircleMarker
+                    center={[marker.impactPosition.latitude, marker.impactPosition.longitude]}
+                    radius={5}
+                    pathOptions={{ color: '#f97316', fillColor: '#f97316', fillOpacity: 0.6, weight: 2 }}
+                    interactive={false}
+                  />
+                </>
+              )}
+              <Marker
+                position={[marker.position.latitude, marker.position.longitude]}
+                icon={createDropMarkerIcon(marker.number)}
+                zIndexOffset={2000}
+                eventHandlers={{
+                  mouseover: (e) => {
+                    const containerPoint = e.containerPoint
+                    setHoveredDropMarker(marker.id)
+                    setDropMarkerHoverPos({ x: containerPoint.x, y: containerPoint.y })
+                    setHoveredMarkerScreenPos({ x: containerPoint.x, y: containerPoint.y })
+                  }
+                }}
+              />
+            </React.Fragment>
           )
         })}
 
@@ -5000,6 +5132,31 @@ export function MapView({ onMapClick, clickedPosition, briefingOpen, drawingMode
           .filter(m => m.id !== myTeamMemberId && !hiddenTeamMembers.has(m.id))
           .map(member => {
             const pos = member.currentPosition
+
+            // Crew: Fahrzeug-Symbol statt Ballon, ohne Trackpunkte
+            if (member.role === 'crew') {
+              if (!pos) return null
+              const isStale = Date.now() - pos.recordedAt.getTime() > CREW_POSITION_STALE_MS
+              return (
+                <Marker
+                  key={member.id}
+                  position={[pos.latitude, pos.longitude]}
+                  icon={createVehicleIcon(pos.heading, member.color, isStale)}
+                  zIndexOffset={-100}
+                >
+                  <Tooltip direction="top" offset={[0, -14]}>
+                    <div style={{ fontSize: '11px', fontWeight: 600 }}>
+                      <span style={{ color: member.color }}>{member.callsign}</span>
+                      {' · '}{Math.round(pos.speed * 3.6)} km/h · {Math.round(pos.heading)}°
+                      <div style={{ fontWeight: 400, color: isStale ? '#ef4444' : '#6b7280' }}>
+                        Crew-Fahrzeug · {formatAge(pos.recordedAt)}
+                      </div>
+                    </div>
+                  </Tooltip>
+                </Marker>
+              )
+            }
+
             return (
               <React.Fragment key={member.id}>
                 {/* Track-Polyline des Team-Mitglieds */}
@@ -5608,6 +5765,17 @@ export function MapView({ onMapClick, clickedPosition, briefingOpen, drawingMode
               </div>
             )}
 
+            {/* Nachgetragener Aufschlag */}
+            {marker.impactPosition && (
+              <div style={{ marginTop: '4px' }}>
+                <span style={{ fontSize: '10px', color: `rgba(255,255,255,${o.textMuted})` }}>Aufschlag: </span>
+                <span style={{ fontSize: '12px', fontWeight: 700, color: '#f97316' }}>
+                  {Math.round(haversineDistanceSimple(marker.position.latitude, marker.position.longitude, marker.impactPosition.latitude, marker.impactPosition.longitude))} m vom Abwurf
+                  {marker.markerType ? ` (${marker.markerType})` : ''}
+                </span>
+              </div>
+            )}
+
             {/* Notizen falls vorhanden */}
             {marker.notes && (
               <div style={{ marginTop: '10px', paddingTop: '10px', borderTop: `1px solid rgba(255,255,255,${o.on ? 0.2 : 0.1})`, fontSize: '11px', color: `rgba(255,255,255,${o.on ? 0.92 : 0.6})` }}>
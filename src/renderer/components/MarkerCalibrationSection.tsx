@@ -0,0 +1,189 @@
+/**
+ * Marker-Kalibrierung im Drop-Calculator-Panel
+ * Markertyp wählen, gelernte Fallparameter anzeigen und aus den eigenen Drops
+ * (aktuelle Fahrt + gespeicherte Fahrten) neu berechnen.
+ */
+import React, { useState, useEffect } from 'react'
+import { useFlightStore } from '../stores/flightStore'
+import { getOutdoor } from '../utils/outdoorStyles'
+import { useCompute } from '../hooks/useCompute'
+import { loadStoredMarkers } from '../services/storedFlights'
+import {
+  collectCalibrationSamples,
+  calibrationPilotKey,
+  MIN_CALIBRATION_SAMPLES,
+  DEFAULT_MARKER_TYPE
+} from '../utils/markerCalibration'
+import type { MarkerDrop } from '../../shared/types'
+
+export function MarkerCalibrationSection() {
+  const settings = useFlightStore(s => s.settings)
+  const markers = useFlightStore(s => s.markers)
+  const dropCalculator = useFlightStore(s => s.dropCalculator)
+  const setDropCalculatorMarkerType = useFlightStore(s => s.setDropCalculatorMarkerType)
+  const setMarkerCalibrations = useFlightStore(s => s.setMarkerCalibrations)
+  const o = getOutdoor(settings.outdoorMode)
+
+  const [typeInput, setTypeInput] = useState(dropCalculator.markerType)
+  const [loading, setLoading] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const calibrationCompute = useCompute('markerCalibration')
+  const busy = loading || calibrationCompute.busy
+
+  useEffect(() => { setTypeInput(dropCalculator.markerType) }, [dropCalculator.markerType])
+
+  const pilot = calibrationPilotKey(settings.pilotName)
+  const pilotCalibrations = settings.markerCalibrations?.[pilot] || []
+  const calibration = pilotCalibrations.find(c => c.markerType === dropCalculator.markerType) ?? null
+  const knownTypes = [...new Set([DEFAULT_MARKER_TYPE, ...pilotCalibrations.map(c => c.markerType), ...markers.map(m => m.markerType || DEFAULT_MARKER_TYPE)])]
+
+  const withContext = markers.filter(m => m.dropContext)
+  const withImpact = withContext.filter(m => m.impactPosition)
+
+  const commitType = () => {
+    setDropCalculatorMarkerType(typeInput)
+    setMessage(null)
+  }
+
+  const handleCalibrate = async () => {
+    setMessage(null)
+    setLoading(true)
+    let stored: MarkerDrop[] = []
+    let flightCount = 0
+    try {
+      const result = await loadStoredMarkers()
+      stored = result.markers
+      flightCount = result.flights
+    } catch (err) {
+      console.warn('[MarkerCal] Gespeicherte Fahrten nicht lesbar:', err)
+    }
+    setLoading(false)
+
+    // Aktuelle Fahrt kann auch schon gespeichert sein - Marker nur einmal zählen
+    const byId = new Map<string, MarkerDrop>()
+    for (const m of [...stored, ...markers]) byId.set(m.id, m)
+    const samples = collectCalibrationSamples([...byId.values()], pilot)
+
+    if (samples.length < MIN_CALIBRATION_SAMPLES) {
+      setMessage(`Zu wenige Drops mit Aufschlag (${samples.length}, mind. ${MIN_CALIBRATION_SAMPLES})`)
+      return
+    }
+
+    try {
+      const outcome = await calibrationCompute.run([samples])
+      if (!outcome) return
+      const fitted = outcome.result
+      if (fitted.length === 0) {
+        setMessage(`Kein Markertyp mit mind. ${MIN_CALIBRATION_SAMPLES} brauchbaren Drops`)
+        return
+      }
+      // Neu berechnete Typen ersetzen, übrige Kalibrierungen behalten
+      const fittedTypes = new Set(fitted.map(c => c.markerType))
+      setMarkerCalibrations([...pilotCalibrations.filter(c => !fittedTypes.has(c.markerType)), ...fitted])
+      setMessage(`${fitted.length} ${fitted.length === 1 ? 'Markertyp' : 'Markertypen'} aus ${samples.length} Drops kalibriert (${flightCount} gespeicherte Fahrten)`)
+    } catch (err: any) {
+      setMessage(`Fehler: ${err?.message || err}`)
+    }
+  }
+
+  const handleReset = () => {
+    setMarkerCalibrations(pilotCalibrations.filter(c => c.markerType !== dropCalculator.markerType))
+    setMessage(null)
+  }
+
+  const labelStyle: React.CSSProperties = { color: `rgba(${o.c},${o.c},${o.c},${o.textMuted})` }
+  const valueStyle: React.CSSProperties = { color: o.textColor, fontWeight: 600, fontFamily: 'monospace' }
+
+  return (
+    <div style={{
+      marginTop: '8px', paddingTop: '8px',
+      borderTop: '1px solid rgba(249, 115, 22, 0.2)',
+      fontSize: '11px', display: 'flex', flexDirection: 'column', gap: '4px'
+    }}>
+      <div style={{ fontSize: '10px', fontWeight: 700, color: '#f97316', letterSpacing: '0.5px' }}>
+        KALIBRIERUNG · {pilot}
+      </div>
+
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '6px' }}>
+        <span style={labelStyle}>Markertyp</span>
+        <input
+          list="marker-type-options"
+          value={typeInput}
+          onChange={e => setTypeInput(e.target.value)}
+          onBlur={commitType}
+          onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur() }}
+          onMouseDown={e => e.stopPropagation()}
+          style={{
+            width: '110px', padding: '2px 6px', borderRadius: '4px',
+            border: '1px solid rgba(249,115,22,0.3)', background: 'rgba(0,0,0,0.3)',
+            color: o.textColor, fontSize: '11px'
+          }}
+        />
+        <datalist id="marker-type-options">
+          {knownTypes.map(t => <option key={t} value={t} />)}
+        </datalist>
+      </div>
+
+      {calibration ? (
+        <>
+          <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+            <span style={labelStyle}>Drag / Wurf</span>
+            <span style={valueStyle}>
+              ×{calibration.dragScale.toFixed(2)} / {calibration.forwardThrow >= 0 ? '+' : ''}{calibration.forwardThrow.toFixed(1)} m/s
+            </span>
+          </div>
+          <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+            <span style={labelStyle}>Ø Fehler ({calibration.samples} Drops)</span>
+            <span style={valueStyle}>{Math.round(calibration.rmsBefore)} → {Math.round(calibration.rmsAfter)} m</span>
+          </div>
+        </>
+      ) : (
+        <div style={{ fontSize: '10px', color: `rgba(${o.c},${o.c},${o.c},${o.textDim})`, fontStyle: 'italic' }}>
+          Standardmodell (nicht kalibriert)
+        </div>
+      )}
+
+      <div style={{ fontSize: '10px', color: `rgba(${o.c},${o.c},${o.c},${o.textDim})` }}>
+        Diese Fahrt: {withImpact.length}/{withContext.length} Drops mit Aufschlag
+        {withContext.length > withImpact.length && ' - Aufschlag im Marker-Popup auf der Karte setzen'}
+      </div>
+
+      <div style={{ display: 'flex', gap: '6px' }}>
+        <button
+          onClick={handleCalibrate}
+          disabled={busy}
+          style={{
+            flex: 1, padding: '5px', borderRadius: '6px', border: 'none',
+            background: 'rgba(249,115,22,0.15)', color: '#f97316',
+            fontSize: '11px', fontWeight: 600,
+            cursor: busy ? 'wait' : 'pointer', opacity: busy ? 0.6 : 1
+          }}
+        >
+          {loading
+            ? 'Lade Fahrten...'
+            : calibrationCompute.progress !== null
+              ? `Berechne... ${Math.round(calibrationCompute.progress * 100)}%`
+              : 'Kalibrieren'}
+        </button>
+        {calibration && (
+          <button
+            onClick={handleReset}
+            disabled={busy}
+            title="Kalibrierung dieses Markertyps entfernen"
+            style={{
+              padding: '5px 8px', borderRadius: '6px',
+              border: '1px solid rgba(239,68,68,0.3)', background: 'rgba(239,68,68,0.15)',
+              color: '#ef4444', fontSize: '11px', fontWeight: 600, cursor: 'pointer'
+            }}
+          >Reset</button>
+        )}
+      </div>
+
+      {message && (
+        <div style={{ fontSize: '10px', color: `rgba(${o.c},${o.c},${o.c},${o.on ? 0.92 : 0.6})` }}>
+          {message}
+        </div>
+      )}
+    </div>
+  )
+}
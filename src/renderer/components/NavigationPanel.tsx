@@ -2,11 +2,16 @@ import React, { useState, useRef, useEffect, useMemo } from 'react'
 import { getOutdoor } from '../utils/outdoorStyles'
 import { useFlightStore } from '../stores/flightStore'
 import { formatAltitude, formatSpeed, formatHeading, formatVariometer, formatDistance } from '../utils/formatting'
-import { calculateDistance, calculateBearing, calculateDestination, calculateClimbPoint, ClimbPointResult, calculatePdgFon, PdgFonResult, calculatePdgFonCorrection, calculateLandRun, LandRunResult, LandRunLimits, calculateAngleTask, AngleTaskResult, interpolateWind } from '../utils/navigation'
+import { calculateDistance, calculateBearing, calculateDestination, calculateClimbPoint, ClimbPointResult, calculatePdgFon, PdgFonResult, calculatePdgFonCorrection, LandRunResult, LandRunLimits, calculateAngleTask, AngleTaskResult, interpolateWind } from '../utils/navigation'
 import { ConeNavigatorPanel } from './ConeNavigatorPanel'
 import { WindNavPanel } from './WindNavPanel'
 import { DonutPanel } from './DonutPanel'
+import { ReachabilityPanel } from './ReachabilityPanel'
+import { MarkerCalibrationSection } from './MarkerCalibrationSection'
 import { calculateConeGuidance, TurnLayer } from '../utils/coneNavigator'
+import { windFieldForFilter } from '../utils/windField'
+import { useCompute } from '../hooks/useCompute'
+import { findBalloonPerformance } from '../utils/balloonPerformance'
 import { latLonToUTM, utmToLatLon, formatCoordinate, getGridPrecision } from '../utils/coordinatesWGS84'
 import { NavPanelField, NavPanelFieldType, GPSFix, Goal, Task } from '../../shared/types'
 import { AltitudeProfilePanel } from './AltitudeProfilePanel'
@@ -94,6 +99,7 @@ export function NavigationPanel() {
   const {
     gpsData, smoothedGpsData, baroData, agl, groundElevation, selectedGoal, settings, updateSettings,
     markers, dropMarker, removeMarker, clearAllMarkers, isRecording,
+    markerImpactPickId, setMarkerImpactPick, setMarkerImpact,
     hdgCourseMode, hdgPendingCourse, hdgPendingLineMode, hdgCourseLines, editingHdgCourseLineId,
     setHdgCourseMode, setHdgPendingLineMode, addHdgCourseLine, updateHdgCourseLine, removeHdgCourseLine, clearAllHdgCourseLines, setEditingHdgCourseLineId,
     gpsSimulation, setGpsSimulationPickingStart, setGpsSimulationStartPosition,
@@ -101,6 +107,7 @@ export function NavigationPanel() {
     setFlyToPosition,
     showLandingPrediction, setShowLandingPrediction, landingSinkRate, setLandingSinkRate,
     landingPrediction, landingPredictionLoading, windLayers, windSourceFilter,
+    landingEnsembleEnabled, setLandingEnsembleEnabled, landingEnsemble,
     dropCalculator, setDropCalculatorActive,
     tasks, updateTask, setSelectedGoal,
     activeCompetitionMap,
@@ -128,6 +135,7 @@ export function NavigationPanel() {
   const showAngPanel = activeToolPanel === 'ang'
   const showWnvPanel = activeToolPanel === 'wnv'
   const showDonutPanel = activeToolPanel === 'donut'
+  const showReachPanel = activeToolPanel === 'rch'
 
   const [isDragging, setIsDragging] = useState(false)
   const [editingField, setEditingField] = useState<string | null>(null)
@@ -143,7 +151,12 @@ export function NavigationPanel() {
   const setLrnResult = useFlightStore(s => s.setLrnCalcResult)
   const lrnSelectedAlt = useFlightStore(s => s.lrnSelectedAlt)
   const setLrnSelectedAlt = useFlightStore(s => s.setLrnSelectedAlt)
-  const [lrnCalculating, setLrnCalculating] = useState(false)
+  const lrnCompute = useCompute('landRun')
+  const lrnCalculating = lrnCompute.busy
+  // LRN-Einstellungen geändert → laufende Berechnung abbrechen
+  useEffect(() => {
+    lrnCompute.cancel()
+  }, [lrnConfig])
   const [landingLiveVario, setLandingLiveVario] = useState(false)
 
   // Live Vario: Sinkrate automatisch aus dem Variometer aktualisieren
@@ -316,7 +329,8 @@ export function NavigationPanel() {
     const guidance = calculateConeGuidance(
       gpsData.latitude, gpsData.longitude, currentAlt,
       coneDeclared.lat, coneDeclared.lon, coneDeclared.altitude,
-      coneDeclared.turnLayer, wl, varioMs
+      coneDeclared.turnLayer, wl, varioMs,
+      windFieldForFilter(useFlightStore.getState().windField, windSourceFilter)
     )
     if (guidance?.livePath && guidance.livePath.length > 1) {
       setClimbPointResult({
@@ -747,12 +761,13 @@ export function NavigationPanel() {
   }
 
   // Wert für ein Feld berechnen
-  const getFieldValue = (field: NavPanelField): { value: string; unit: string; color?: string } => {
+  const getFieldValue = (field: NavPanelField): { value: string; unit: string; color?: string; sigma?: string } => {
     switch (field.type) {
       case 'altitude':
         return {
           value: formatAltitude(gpsData?.altitude || 0, settings.altitudeUnit),
-          unit: settings.altitudeUnit === 'meters' ? 'm' : 'ft'
+          unit: settings.altitudeUnit === 'meters' ? 'm' : 'ft',
+          sigma: gpsData?.altitudeSigma !== undefined ? formatAltitude(gpsData.altitudeSigma, settings.altitudeUnit) : undefined
         }
       case 'elevation':
         return {
@@ -768,12 +783,14 @@ export function NavigationPanel() {
         return {
           value: (vario > 0 ? '+' : '') + formatVariometer(vario, settings.variometerUnit),
           unit: settings.variometerUnit === 'ms' ? 'm/s' : 'fpm',
-          color: isClimbing ? '#22c55e' : isSinking ? '#ef4444' : undefined
+          color: isClimbing ? '#22c55e' : isSinking ? '#ef4444' : undefined,
+          sigma: baroData?.variometerSigma !== undefined ? formatVariometer(baroData.variometerSigma, settings.variometerUnit) : undefined
         }
       case 'speed':
         return {
           value: formatSpeed(gpsData?.speed || 0, settings.speedUnit),
-          unit: settings.speedUnit === 'kmh' ? 'km/h' : settings.speedUnit === 'knots' ? 'kn' : 'm/s'
+          unit: settings.speedUnit === 'kmh' ? 'km/h' : settings.speedUnit === 'knots' ? 'kn' : 'm/s',
+          sigma: gpsData?.speedSigma !== undefined ? formatSpeed(gpsData.speedSigma, settings.speedUnit) : undefined
         }
       case 'heading':
         return {
@@ -1088,7 +1105,7 @@ export function NavigationPanel() {
       {/* Navigationsfelder - Hauptbereich */}
       <div style={{ display: 'flex', flexDirection: 'column', gap: '3px' }}>
         {enabledFields.map(field => {
-          const { value, unit, color: dynamicColor } = getFieldValue(field)
+          const { value, unit, color: dynamicColor, sigma } = getFieldValue(field)
           const isSelected = editingField === field.id
           const fieldFontSize = field.fontSizePx ? `${field.fontSizePx}px` : fontSizeMap[field.fontSize]
           const fieldPadding = field.fieldHeight ? `${Math.max(3, (field.fieldHeight - 20) / 2)}px 8px` : '4px 8px'
@@ -1138,6 +1155,14 @@ export function NavigationPanel() {
                   opacity: 0.6,
                   fontWeight: 500
                 }}>{unit}</span>
+                {/* Unsicherheit (1σ) aus dem Kalman-Filter */}
+                {sigma && (
+                  <span style={{
+                    fontSize: '0.4em',
+                    opacity: 0.45,
+                    fontWeight: 500
+                  }}>±{sigma}</span>
+                )}
               </div>
             </div>
           )
@@ -2448,6 +2473,12 @@ export function NavigationPanel() {
             </div>
           )}
 
+          {/* Ensemble (Streuung der möglichen Landepunkte) */}
+          <label style={{ display: 'flex', alignItems: 'center', gap: '5px', cursor: 'pointer', marginBottom: '8px' }}>
+            <input type="checkbox" checked={landingEnsembleEnabled} onChange={e => setLandingEnsembleEnabled(e.target.checked)} style={{ accentColor: '#a855f7', cursor: 'pointer' }} />
+            <span style={{ fontSize: '10px', color: landingEnsembleEnabled ? '#a855f7' : `rgba(${o.c},${o.c},${o.c},${o.textSec})`, fontWeight: landingEnsembleEnabled ? 700 : 400 }}>Ensemble (P50/P90-Fläche)</span>
+          </label>
+
           {/* Aktivieren/Deaktivieren */}
           <button
             onClick={() => setShowLandingPrediction(!showLandingPrediction)}
@@ -2516,6 +2547,36 @@ export function NavigationPanel() {
                   {filteredWindLayers.length}{windSourceFilter !== 'all' ? `/${windLayers.length}` : ''} Schichten
                 </span>
               </div>
+              {landingEnsembleEnabled && landingEnsemble && (
+                <>
+                  <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                    <span style={{ color: `rgba(${o.c},${o.c},${o.c},${o.textMuted})` }}>Streuung P90</span>
+                    <span style={{ color: '#a855f7', fontWeight: 600, fontFamily: 'monospace' }}>
+                      {landingEnsemble.spreadMeters < 1000
+                        ? `${Math.round(landingEnsemble.spreadMeters)} m`
+                        : `${(landingEnsemble.spreadMeters / 1000).toFixed(1)} km`
+                      }
+                    </span>
+                  </div>
+                  <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                    <span style={{ color: `rgba(${o.c},${o.c},${o.c},${o.textMuted})` }}>Radius P50 / P90</span>
+                    <span style={{ color: o.textColor, fontWeight: 600, fontFamily: 'monospace' }}>
+                      {Math.round(landingEnsemble.p50.radiusMeters)} / {Math.round(landingEnsemble.p90.radiusMeters)} m
+                    </span>
+                  </div>
+                  <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                    <span style={{ color: `rgba(${o.c},${o.c},${o.c},${o.textMuted})` }}>Landung in</span>
+                    <span style={{ color: o.textColor, fontWeight: 600, fontFamily: 'monospace' }}>
+                      {Math.round(landingEnsemble.timeRangeSeconds[0] / 60)}–{Math.round(landingEnsemble.timeRangeSeconds[1] / 60)} min
+                    </span>
+                  </div>
+                  {landingEnsemble.mixesSources && (
+                    <div style={{ fontSize: '9px', color: `rgba(${o.c},${o.c},${o.c},${o.textDim})`, fontStyle: 'italic' }}>
+                      Vorhersage und Messung gemischt
+                    </div>
+                  )}
+                </>
+              )}
             </div>
           )}
         </div>
@@ -2648,8 +2709,18 @@ export function NavigationPanel() {
                   {filteredWindLayers.length}{windSourceFilter !== 'all' ? `/${windLayers.length}` : ''} Schichten
                 </span>
               </div>
+              {dropCalculator.calibration && (
+                <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                  <span style={{ color: `rgba(${o.c},${o.c},${o.c},${o.textMuted})` }}>Modell</span>
+                  <span style={{ color: '#f97316', fontWeight: 600, fontFamily: 'monospace' }}>
+                    {dropCalculator.calibration.markerType} (kalibriert)
+                  </span>
+                </div>
+              )}
             </div>
           )}
+
+          <MarkerCalibrationSection />
         </div>
       )}
 
@@ -2763,33 +2834,38 @@ export function NavigationPanel() {
 
           {/* Berechnen */}
           <button
-            onClick={() => {
+            onClick={async () => {
               if (!gpsData || filteredWindLayers.length < 2 || lrnCalculating) return
               const currentAlt = baroData?.pressureAltitude || gpsData.altitude || 0
               const bounds = activeCompetitionMap?.bounds || null
               const lrnLimits: LandRunLimits = { mode: lrnConfig.limitMode, unit: lrnConfig.limitUnit, leg1Value: lrnConfig.leg1Value, leg2Value: lrnConfig.leg2Value, totalValue: lrnConfig.totalValue }
-              setLrnCalculating(true)
               let lrnWindLayers = filteredWindLayers
               if (lrnConfig.altLimit) {
                 const limitAltM = lrnConfig.altLimitValue / 3.28084
                 lrnWindLayers = lrnConfig.altLimitMode === 'ceiling' ? filteredWindLayers.filter(l => l.altitude <= limitAltM) : filteredWindLayers.filter(l => l.altitude >= limitAltM)
               }
-              if (lrnWindLayers.length < 2) { setLrnResult(null); setLandRunResult(null); setLrnCalculating(false); return }
-              setTimeout(() => {
-                const result = calculateLandRun(gpsData.latitude, gpsData.longitude, currentAlt, lrnConfig.climbRate, lrnWindLayers, lrnLimits,
-                  bounds ? { north: bounds.north, south: bounds.south, east: bounds.east, west: bounds.west } : null)
-                setLrnResult(result); setLrnSelectedAlt(-1)
-                if (result) { setLandRunResult({ pointA: result.best.pointA, pointB: result.best.pointB, pointC: result.best.pointC, pathAB: result.best.pathAB, pathBC: result.best.pathBC, approachPath: result.best.approachPath, triangleArea: result.best.triangleArea }) }
-                else { setLandRunResult(null) }
-                setLrnCalculating(false)
-              }, 50)
+              if (lrnWindLayers.length < 2) { setLrnResult(null); setLandRunResult(null); return }
+              let result: LandRunResult | null
+              try {
+                const outcome = await lrnCompute.run([gpsData.latitude, gpsData.longitude, currentAlt, lrnConfig.climbRate, lrnWindLayers, lrnLimits,
+                  bounds ? { north: bounds.north, south: bounds.south, east: bounds.east, west: bounds.west } : null,
+                  findBalloonPerformance(settings)])
+                if (!outcome) return  // abgebrochen
+                result = outcome.result
+              } catch (e) {
+                console.error('[LRN] Berechnungsfehler:', e)
+                return
+              }
+              setLrnResult(result); setLrnSelectedAlt(-1)
+              if (result) { setLandRunResult({ pointA: result.best.pointA, pointB: result.best.pointB, pointC: result.best.pointC, pathAB: result.best.pathAB, pathBC: result.best.pathBC, approachPath: result.best.approachPath, triangleArea: result.best.triangleArea }) }
+              else { setLandRunResult(null) }
             }}
             disabled={!gpsData || filteredWindLayers.length < 2 || lrnCalculating}
             style={{ width: '100%', padding: '8px', borderRadius: '6px', border: 'none', marginBottom: '6px',
               background: (!gpsData || filteredWindLayers.length < 2 || lrnCalculating) ? `rgba(${o.c},${o.c},${o.c},${o.on ? 0.06 : 0.03})` : '#22c55e',
               color: (!gpsData || filteredWindLayers.length < 2 || lrnCalculating) ? `rgba(${o.c},${o.c},${o.c},${o.on ? 0.3 : 0.2})` : 'white',
               fontSize: '11px', fontWeight: 700, cursor: (!gpsData || filteredWindLayers.length < 2 || lrnCalculating) ? 'not-allowed' : 'pointer' }}>
-            {lrnCalculating ? 'Berechne...' : 'Berechnen'}
+            {lrnCalculating ? `Berechne... ${Math.round((lrnCompute.progress ?? 0) * 100)}%` : 'Berechnen'}
           </button>
 
           {!gpsData && <div style={{ fontSize: '9px', color: '#ef4444', textAlign: 'center' }}>Kein GPS</div>}
@@ -3014,8 +3090,51 @@ export function NavigationPanel() {
                       }}>
                         {time} • {altitudeValue}{altitudeUnit} MSL
                       </div>
+                      {marker.impactPosition && (
+                        <div style={{ fontSize: '10px', color: '#f97316', marginTop: '2px' }}>
+                          Aufschlag {Math.round(calculateDistance(
+                            marker.position.latitude, marker.position.longitude,
+                            marker.impactPosition.latitude, marker.impactPosition.longitude
+                          ))} m vom Abwurf
+                        </div>
+                      )}
+                      {markerImpactPickId === marker.id && (
+                        <div style={{ fontSize: '10px', color: '#f97316', marginTop: '2px', fontStyle: 'italic' }}>
+                          Aufschlag auf der Karte anklicken...
+                        </div>
+                      )}
                     </div>
 
+                    {/* Tatsächlichen Aufschlag nachtragen (Marker-Kalibrierung) */}
+                    {marker.dropContext && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          if (marker.impactPosition && markerImpactPickId !== marker.id) {
+                            if (confirm(`Aufschlag von Marker ${marker.number} entfernen?`)) setMarkerImpact(marker.id, null)
+                            return
+                          }
+                          setMarkerImpactPick(markerImpactPickId === marker.id ? null : marker.id)
+                        }}
+                        style={{
+                          background: markerImpactPickId === marker.id || marker.impactPosition
+                            ? 'rgba(249,115,22,0.25)'
+                            : `rgba(${o.c},${o.c},${o.c},${o.on ? 0.2 : 0.1})`,
+                          border: 'none',
+                          color: markerImpactPickId === marker.id || marker.impactPosition
+                            ? '#f97316'
+                            : `rgba(${o.c},${o.c},${o.c},${o.on ? 0.85 : 0.4})`,
+                          fontSize: '14px',
+                          cursor: 'pointer',
+                          padding: '4px 8px',
+                          borderRadius: '4px'
+                        }}
+                        title={marker.impactPosition ? 'Aufschlag entfernen' : 'Tatsächlichen Aufschlag auf der Karte setzen'}
+                      >
+                        ⌖
+                      </button>
+                    )}
+
                     {/* Löschen Button */}
                     <button
                       onClick={(e) => {
@@ -3358,7 +3477,8 @@ export function NavigationPanel() {
                   angMinTime * 60,
                   angMaxTime * 60,
                   bounds ? { north: bounds.north, south: bounds.south, east: bounds.east, west: bounds.west } : null,
-                  angPointALatLon
+                  angPointALatLon,
+                  findBalloonPerformance(settings)
                 )
                 setAngResultLocal(result)
                 setAngSelectedAlt(-1)
@@ -3544,6 +3664,16 @@ export function NavigationPanel() {
         />
       )}
 
+      {/* Erreichbarkeit (Heatmap) */}
+      {showReachPanel && (
+        <ReachabilityPanel
+          onClose={() => setActiveToolPanel(null)}
+          onMouseDown={handleToolMouseDown}
+          onTouchStart={handleToolTouchStart}
+          style={toolPanelStyle(settings.reachPanelScale ?? 1, 'rgba(20, 184, 166, 0.3)', false)}
+        />
+      )}
+
     </>
   )
 }
@@ -0,0 +1,85 @@
+import { useMemo, useState } from 'react'
+import { ImageOverlay, CircleMarker, Tooltip, useMapEvents } from 'react-leaflet'
+import type { ReachabilityGrid } from '../utils/reachability'
+import { reachTimeAt } from '../utils/reachability'
+
+interface ReachabilityLayerProps {
+  grid: ReachabilityGrid
+  opacity?: number
+}
+
+// Farbe nach Anteil am Zeitbudget: grün (sofort) → gelb → rot (am Ende des Budgets)
+export function reachColor(fraction: number): [number, number, number] {
+  const f = Math.max(0, Math.min(1, fraction))
+  const r = f < 0.5 ? Math.round(34 + (234 - 34) * f * 2) : Math.round(234 + (239 - 234) * (f - 0.5) * 2)
+  const g = f < 0.5 ? Math.round(197 + (179 - 197) * f * 2) : Math.round(179 + (68 - 179) * (f - 0.5) * 2)
+  const b = f < 0.5 ? Math.round(94 + (8 - 94) * f * 2) : Math.round(8 + (68 - 8) * (f - 0.5) * 2)
+  return [r, g, b]
+}
+
+/**
+ * Erreichbarkeits-Heatmap als Bild-Overlay (eine Canvas-Zelle pro Gitterzelle)
+ * plus Tooltip mit der Mindestzeit unter dem Mauszeiger.
+ */
+export function ReachabilityLayer({ grid, opacity = 0.45 }: ReachabilityLayerProps) {
+  const [hover, setHover] = useState<{ lat: number; lon: number; time: number } | null>(null)
+
+  const imageUrl = useMemo(() => {
+    const canvas = document.createElement('canvas')
+    canvas.width = grid.cols
+    canvas.height = grid.rows
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return null
+    const image = ctx.createImageData(grid.cols, grid.rows)
+    for (let r = 0; r < grid.rows; r++) {
+      // Gitter beginnt im Süden, Bild oben im Norden
+      const imageRow = grid.rows - 1 - r
+      for (let c = 0; c < grid.cols; c++) {
+        const t = grid.times[r * grid.cols + c]
+        if (t < 0) continue
+        const [red, green, blue] = reachColor(t / grid.timeBudgetSec)
+        const i = (imageRow * grid.cols + c) * 4
+        image.data[i] = red
+        image.data[i + 1] = green
+        image.data[i + 2] = blue
+        image.data[i + 3] = 255
+      }
+    }
+    ctx.putImageData(image, 0, 0)
+    return canvas.toDataURL('image/png')
+  }, [grid])
+
+  useMapEvents({
+    mousemove: (e) => {
+      const time = reachTimeAt(grid, e.latlng.lat, e.latlng.lng)
+      setHover(time !== null ? { lat: e.latlng.lat, lon: e.latlng.lng, time } : null)
+    },
+    mouseout: () => setHover(null)
+  })
+
+  if (!imageUrl) return null
+
+  const bounds: [[number, number], [number, number]] = [
+    [grid.south, grid.west],
+    [grid.south + grid.rows * grid.latStep, grid.west + grid.cols * grid.lonStep]
+  ]
+
+  return (
+    <>
+      <ImageOverlay
+        url={imageUrl}
+        bounds={bounds}
+        opacity={opacity}
+        className="reachability-overlay"
+        interactive={false}
+      />
+      {hover && (
+        <CircleMarker center={[hover.lat, hover.lon]} radius={0} interactive={false} pathOptions={{ opacity: 0 }}>
+          <Tooltip permanent direction="top" offset={[0, -8]}>
+            erreichbar in {Math.round(hover.time / 60)} min
+          </Tooltip>
+        </CircleMarker>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,288 @@
+/**
+ * Erreichbarkeits-Panel
+ * Heatmap aller Bodenzellen, die mit dem aktuellen Windprofil innerhalb des
+ * Zeit-/Gasbudgets erreichbar sind, und Übersicht welche Goals/Flächen möglich sind.
+ */
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { useFlightStore } from '../stores/flightStore'
+import { getOutdoor } from '../utils/outdoorStyles'
+import { windFieldForFilter } from '../utils/windField'
+import { evaluateTaskReach } from '../utils/reachability'
+import { useCompute } from '../hooks/useCompute'
+import { findBalloonPerformance, limitRate } from '../utils/balloonPerformance'
+import { computeGasStatus, gasModelParams } from '../utils/gasEndurance'
+import { reachColor } from './ReachabilityLayer'
+import { WindSource, WindSourceFilter } from '../../shared/types'
+
+const ftToM = (ft: number) => ft / 3.28084
+const AUTO_INTERVAL_MS = 60000
+
+interface Props {
+  onClose: () => void
+  style?: React.CSSProperties
+  onMouseDown?: (e: React.MouseEvent) => void
+  onTouchStart?: (e: React.TouchEvent) => void
+}
+
+export function ReachabilityPanel({ onClose, style, onMouseDown, onTouchStart }: Props) {
+  const { gpsData, baroData, tasks, settings, windLayers: allWindLayers, gasBottleState, track } = useFlightStore()
+  const reachability = useFlightStore(s => s.reachability)
+  const setReachability = useFlightStore(s => s.setReachability)
+  const storeWindField = useFlightStore(s => s.windField)
+  const o = getOutdoor(settings.outdoorMode)
+
+  const [windFilter, setWindFilter] = useState<WindSourceFilter>('all')
+  const [budgetMin, setBudgetMin] = useState('60')
+  const [climbRate, setClimbRate] = useState('3')
+  const [sinkRate, setSinkRate] = useState('3')
+  const [minAltFt, setMinAltFt] = useState('')   // leer = tiefste Windschicht
+  const [maxAltFt, setMaxAltFt] = useState('')   // leer = höchste Windschicht
+  const [autoUpdate, setAutoUpdate] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const reachCompute = useCompute('reachability')
+  const performance = findBalloonPerformance(settings)
+  const calculating = reachCompute.busy
+
+  const filteredWindLayers = allWindLayers.filter(l => {
+    if (l.speed <= 0) return false
+    if (windFilter === 'forecast') return l.source === WindSource.Forecast
+    if (windFilter === 'measured') return l.source === WindSource.Measured
+    if (windFilter === 'sounding') return l.source === WindSource.Windsond || l.source === WindSource.Pibal
+    return true
+  })
+  const windField = windFieldForFilter(storeWindField, windFilter)
+
+  const currentAlt = baroData?.pressureAltitude || gpsData?.altitude || 0
+  const layerAlts = filteredWindLayers.map(l => l.altitude)
+  const minAltM = minAltFt ? ftToM(parseFloat(minAltFt)) : (layerAlts.length ? Math.min(...layerAlts) : 0)
+  const maxAltM = maxAltFt ? ftToM(parseFloat(maxAltFt)) : (layerAlts.length ? Math.max(...layerAlts) : 0)
+  const budgetSec = (parseFloat(budgetMin) || 0) * 60
+  const canCalculate = !!gpsData && filteredWindLayers.length >= 1 && budgetSec > 0 && maxAltM > minAltM
+
+  // Gasvorrat aller Flaschen in Minuten (abzüglich Reserve) - wie im Gas-Tracker
+  const gasMinutes = useMemo(() => {
+    const bottles = settings.gasBottles || []
+    if (bottles.length === 0) return null
+    const status = computeGasStatus(
+      bottles, gasBottleState, track, Date.now(),
+      gasModelParams(settings), settings.gasReserveMinutes ?? 10
+    )
+    return Math.floor(status.enduranceMinutes)
+  }, [settings.gasBottles, settings.gasReserveMinutes, settings.gasEnvelopeTemp, settings.gasGroundTemp, gasBottleState, track])
+
+  const doCalculate = useCallback(async () => {
+    if (!gpsData || !canCalculate) return
+    setError(null)
+    try {
+      const outcome = await reachCompute.run([{
+        lat: gpsData.latitude,
+        lon: gpsData.longitude,
+        altitude: currentAlt,
+        windLayers: filteredWindLayers.map(l => ({ altitude: l.altitude, direction: l.direction, speed: l.speed })),
+        windField,
+        timeBudgetSec: budgetSec,
+        // Nicht mehr als der Ballon laut Flugverhalten schafft
+        maxClimbRate: limitRate(performance, Math.max(0, parseFloat(climbRate) || 0), true),
+        maxSinkRate: limitRate(performance, Math.max(0, parseFloat(sinkRate) || 0), false),
+        minAltitude: minAltM,
+        maxAltitude: maxAltM
+      }])
+      if (!outcome) return  // abgebrochen
+      setReachability(outcome.result)
+      if (!outcome.result) setError('Keine Berechnung möglich')
+    } catch (e: any) {
+      console.error('[Reachability] Berechnungsfehler:', e)
+      setError('Berechnungsfehler')
+    }
+  }, [reachCompute.run, gpsData, canCalculate, currentAlt, filteredWindLayers, windField, budgetSec, climbRate, sinkRate, minAltM, maxAltM, performance])
+
+  // Eingaben geändert → laufende Berechnung abbrechen
+  useEffect(() => {
+    reachCompute.cancel()
+  }, [budgetMin, climbRate, sinkRate, minAltFt, maxAltFt, windFilter])
+
+  // Auto-Update: jede Minute mit aktueller Position neu rechnen
+  const calculateRef = useRef(doCalculate)
+  calculateRef.current = doCalculate
+  useEffect(() => {
+    if (!autoUpdate) return
+    calculateRef.current()
+    const interval = setInterval(() => calculateRef.current(), AUTO_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [autoUpdate])
+
+  // Goals und Flächen aller Tasks auswerten (erreichbare zuerst, nach Zeit)
+  const taskReach = useMemo(() => {
+    if (!reachability) return []
+    return evaluateTaskReach(reachability, tasks).sort((a, b) => {
+      if (a.minTimeSec === null) return b.minTimeSec === null ? 0 : 1
+      if (b.minTimeSec === null) return -1
+      return a.minTimeSec - b.minTimeSec
+    })
+  }, [reachability, tasks])
+
+  const accentColor = '#14b8a6'
+  const boxStyle: React.CSSProperties = {
+    flex: 1, padding: '5px 8px', borderRadius: '5px',
+    background: `rgba(${o.c},${o.c},${o.c},${o.on ? 0.06 : 0.03})`,
+    fontSize: '10px'
+  }
+  const labelStyle: React.CSSProperties = { color: `rgba(${o.c},${o.c},${o.c},${o.textMuted})`, fontSize: '8px', fontWeight: 600 }
+  const inputStyle: React.CSSProperties = {
+    width: '100%', background: 'transparent', border: 'none', outline: 'none',
+    color: `rgba(${o.c},${o.c},${o.c},${o.on ? 0.85 : 0.7})`, fontWeight: 700, fontFamily: 'monospace', fontSize: '11px',
+    padding: 0
+  }
+  const unitStyle: React.CSSProperties = { fontSize: '8px', color: `rgba(${o.c},${o.c},${o.c},${o.textDim})` }
+
+  const field = (label: string, value: string, onChange: (v: string) => void, unit: string, step: string, placeholder?: string) => (
+    <div style={boxStyle}>
+      <div style={labelStyle}>{label}</div>
+      <input type="number" value={value} onChange={e => onChange(e.target.value)} step={step} placeholder={placeholder} style={inputStyle} />
+      <span style={unitStyle}>{unit}</span>
+    </div>
+  )
+
+  return (
+    <div onMouseDown={onMouseDown} onTouchStart={onTouchStart} style={{ ...style, minWidth: '240px', maxWidth: '280px', maxHeight: '70vh', overflowY: 'auto' }}>
+
+      {/* Header */}
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '6px' }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+          <span style={{ fontSize: '12px', fontWeight: 700, color: accentColor }}>
+            ERREICHBARKEIT <span style={{ fontSize: '8px', color: `rgba(${o.c},${o.c},${o.c},${o.textDim})`, fontWeight: 400 }}>BETA</span>
+          </span>
+          {/* Wind-Filter */}
+          <div style={{ display: 'flex', gap: '2px', background: `rgba(${o.c},${o.c},${o.c},${o.on ? 0.12 : 0.05})`, borderRadius: '4px', padding: '2px' }}>
+            {([
+              { key: 'all' as const, label: 'Alle', color: '#3b82f6' },
+              { key: 'forecast' as const, label: 'FC', color: '#0ea5e9' },
+              { key: 'measured' as const, label: 'Live', color: '#22c55e' },
+              { key: 'sounding' as const, label: '.dat', color: '#a855f7' }
+            ]).map(opt => (
+              <button key={opt.key} onClick={() => setWindFilter(opt.key)}
+                style={{
+                  padding: '2px 5px', border: 'none', borderRadius: '3px', fontSize: '9px', fontWeight: 700, cursor: 'pointer',
+                  background: windFilter === opt.key ? `${opt.color}30` : 'transparent',
+                  color: windFilter === opt.key ? opt.color : `rgba(${o.c},${o.c},${o.c},${o.textDim})`,
+                }}>
+                {opt.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <button onClick={onClose}
+          style={{ background: 'none', border: 'none', color: `rgba(${o.c},${o.c},${o.c},${o.on ? 0.85 : 0.4})`, cursor: 'pointer', fontSize: '15px', padding: '0 2px' }}>✕</button>
+      </div>
+
+      {/* Budget + Raten */}
+      <div style={{ display: 'flex', gap: '6px', marginBottom: '5px' }}>
+        <div style={boxStyle}>
+          <div style={{ ...labelStyle, display: 'flex', justifyContent: 'space-between' }}>
+            <span>BUDGET</span>
+            {gasMinutes !== null && (
+              <button onClick={() => setBudgetMin(String(gasMinutes))} title="Restzeit aus Gasvorrat (abzüglich Reserve)"
+                style={{ background: 'none', border: 'none', padding: 0, color: accentColor, fontSize: '8px', fontWeight: 700, cursor: 'pointer' }}>
+                GAS {gasMinutes}
+              </button>
+            )}
+          </div>
+          <input type="number" value={budgetMin} onChange={e => setBudgetMin(e.target.value)} step="5" min="5" style={inputStyle} />
+          <span style={unitStyle}>min</span>
+        </div>
+        {field('STEIGEN', climbRate, setClimbRate, 'm/s', '0.5')}
+        {field('SINKEN', sinkRate, setSinkRate, 'm/s', '0.5')}
+      </div>
+
+      {/* Höhengrenzen */}
+      <div style={{ display: 'flex', gap: '6px', marginBottom: '5px' }}>
+        {field('MIN HÖHE', minAltFt, setMinAltFt, 'ft', '100', String(Math.round(minAltM * 3.28084 / 50) * 50))}
+        {field('MAX HÖHE', maxAltFt, setMaxAltFt, 'ft', '100', String(Math.round(maxAltM * 3.28084 / 50) * 50))}
+        <div style={{
+          ...boxStyle,
+          background: `rgba(${o.c},${o.c},${o.c},${o.on ? 0.04 : 0.02})`,
+          fontSize: '9px', display: 'flex', alignItems: 'center', justifyContent: 'center',
+          color: `rgba(${o.c},${o.c},${o.c},${o.textDim})`
+        }}>
+          {filteredWindLayers.length} Schichten
+        </div>
+      </div>
+
+      {/* Berechnen */}
+      <div style={{ display: 'flex', gap: '6px', marginBottom: '5px', alignItems: 'center' }}>
+        <button onClick={doCalculate} disabled={!canCalculate || calculating}
+          style={{
+            flex: 1, padding: '6px', borderRadius: '5px', border: 'none',
+            background: canCalculate && !calculating ? accentColor : `rgba(${o.c},${o.c},${o.c},${o.on ? 0.06 : 0.03})`,
+            color: canCalculate && !calculating ? 'white' : `rgba(${o.c},${o.c},${o.c},${o.on ? 0.3 : 0.2})`,
+            fontSize: '11px', fontWeight: 700, cursor: canCalculate && !calculating ? 'pointer' : 'not-allowed'
+          }}>
+          {calculating ? `Berechne... ${Math.round((reachCompute.progress ?? 0) * 100)}%` : 'Berechnen'}
+        </button>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '3px', fontSize: '9px', cursor: 'pointer', color: autoUpdate ? accentColor : `rgba(${o.c},${o.c},${o.c},${o.textMuted})` }}>
+          <input type="checkbox" checked={autoUpdate} onChange={e => setAutoUpdate(e.target.checked)} style={{ accentColor, cursor: 'pointer' }} />
+          Auto
+        </label>
+        {reachability && (
+          <button onClick={() => { reachCompute.cancel(); setReachability(null) }}
+            style={{ padding: '6px 8px', borderRadius: '5px', border: '1px solid rgba(239,68,68,0.3)', background: 'rgba(239,68,68,0.08)', color: '#ef4444', fontSize: '9px', fontWeight: 600, cursor: 'pointer' }}>
+            Reset
+          </button>
+        )}
+      </div>
+
+      {!canCalculate && (
+        <div style={{ fontSize: '9px', color: accentColor, textAlign: 'center', marginBottom: '6px' }}>
+          {!gpsData ? 'Kein GPS' : filteredWindLayers.length === 0 ? 'Keine Windschichten' : budgetSec <= 0 ? 'Budget eingeben' : 'Ungültige Höhengrenzen'}
+        </div>
+      )}
+      {error && (
+        <div style={{ fontSize: '9px', color: '#ef4444', textAlign: 'center', marginBottom: '6px' }}>{error}</div>
+      )}
+
+      {/* Ergebnis */}
+      {reachability && (
+        <>
+          {/* Legende */}
+          <div style={{ display: 'flex', alignItems: 'center', gap: '4px', marginBottom: '5px', fontSize: '8px', color: `rgba(${o.c},${o.c},${o.c},${o.textMuted})` }}>
+            <span>0</span>
+            <div style={{
+              flex: 1, height: '6px', borderRadius: '3px',
+              background: `linear-gradient(90deg, ${[0, 0.5, 1].map(f => `rgb(${reachColor(f).join(',')})`).join(', ')})`
+            }} />
+            <span>{Math.round(reachability.timeBudgetSec / 60)} min</span>
+          </div>
+          <div style={{ fontSize: '9px', color: `rgba(${o.c},${o.c},${o.c},${o.textMuted})`, marginBottom: '5px', display: 'flex', justifyContent: 'space-between' }}>
+            <span>Fläche {(reachability.reachableCells * reachability.cellSize * reachability.cellSize / 1e6).toFixed(1)} km²</span>
+            <span>Raster {Math.round(reachability.cellSize)} m</span>
+          </div>
+
+          {/* Goals / Flächen */}
+          {taskReach.length > 0 && (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '2px' }}>
+              {taskReach.map((entry, idx) => {
+                const reachable = entry.minTimeSec !== null
+                return (
+                  <div key={`${entry.taskId}-${idx}`} style={{
+                    display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '6px',
+                    padding: '3px 6px', borderRadius: '4px', fontSize: '10px',
+                    background: reachable ? `${accentColor}15` : `rgba(${o.c},${o.c},${o.c},${o.on ? 0.04 : 0.02})`,
+                    color: reachable ? o.textColor : `rgba(${o.c},${o.c},${o.c},${o.textDim})`
+                  }}>
+                    <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                      {reachable ? '✓' : '✗'} {entry.label}
+                    </span>
+                    <span style={{ fontFamily: 'monospace', fontWeight: 700, flexShrink: 0 }}>
+                      {reachable ? `${Math.round(entry.minTimeSec! / 60)} min` : '—'}
+                      {entry.coverage !== null && reachable ? ` · ${Math.round(entry.coverage * 100)}%` : ''}
+                    </span>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
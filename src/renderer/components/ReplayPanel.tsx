@@ -0,0 +1,159 @@
+import React, { useEffect } from 'react'
+import { useFlightStore } from '../stores/flightStore'
+import { getOutdoor } from '../utils/outdoorStyles'
+import { REPLAY_SPEEDS } from '../utils/flightReplay'
+
+// Tick-Intervall der Wiedergabe (ms Echtzeit)
+const TICK_MS = 250
+
+function formatTime(ms: number): string {
+  return new Date(ms).toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+}
+
+function formatElapsed(ms: number): string {
+  const totalSec = Math.max(0, Math.floor(ms / 1000))
+  const h = Math.floor(totalSec / 3600)
+  const m = Math.floor((totalSec % 3600) / 60)
+  const s = totalSec % 60
+  return `${h}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`
+}
+
+/**
+ * Timeline für das Flug-Replay (Nachbesprechung mit der Crew).
+ * Steuert über den Store Karte, NavigationPanel und Windpanels.
+ */
+export function ReplayPanel() {
+  const replay = useFlightStore(s => s.replay)
+  const settings = useFlightStore(s => s.settings)
+  const setReplayTime = useFlightStore(s => s.setReplayTime)
+  const setReplayPlaying = useFlightStore(s => s.setReplayPlaying)
+  const setReplaySpeed = useFlightStore(s => s.setReplaySpeed)
+  const stopReplay = useFlightStore(s => s.stopReplay)
+  const o = getOutdoor(settings.outdoorMode)
+
+  // Wiedergabe-Schleife
+  useEffect(() => {
+    if (!replay.active || !replay.playing) return
+    const interval = setInterval(() => {
+      const { currentTime, speed } = useFlightStore.getState().replay
+      setReplayTime(currentTime + TICK_MS * speed)
+    }, TICK_MS)
+    return () => clearInterval(interval)
+  }, [replay.active, replay.playing, setReplayTime])
+
+  if (!replay.active || !replay.source) return null
+
+  const { startTime, endTime, currentTime, source } = replay
+  const duration = Math.max(1, endTime - startTime)
+
+  // Sprungziele: Marker und Zieldeklarationen der gesamten Fahrt
+  const jumpTargets = [
+    ...source.markers.map(m => ({ id: m.id, label: `M${m.number}`, time: m.timestamp.getTime(), color: '#f59e0b' })),
+    ...source.declarations.map(d => ({ id: d.id, label: `D${d.number}`, time: d.declaredAt.getTime(), color: '#22c55e' }))
+  ]
+    .filter(t => t.time >= startTime && t.time <= endTime)
+    .sort((a, b) => a.time - b.time)
+
+  const buttonStyle: React.CSSProperties = {
+    padding: '6px 10px',
+    background: `rgba(${o.c},${o.c},${o.c},0.08)`,
+    border: `1px solid rgba(${o.c},${o.c},${o.c},0.1)`,
+    borderRadius: '6px',
+    color: o.textColor,
+    fontSize: '12px',
+    fontWeight: 600,
+    cursor: 'pointer'
+  }
+
+  return (
+    <div style={{
+      position: 'fixed',
+      left: '50%',
+      bottom: '48px',
+      transform: 'translateX(-50%)',
+      width: 'min(720px, calc(100vw - 40px))',
+      padding: '10px 14px',
+      background: 'linear-gradient(180deg, #1e293b 0%, #0f172a 100%)',
+      borderRadius: '12px',
+      border: '1px solid rgba(168,85,247,0.4)',
+      boxShadow: '0 10px 40px rgba(0,0,0,0.6)',
+      zIndex: 10000,
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '8px'
+    }}>
+      {/* Kopfzeile */}
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+        <span style={{
+          fontSize: '10px', fontWeight: 700, color: '#a855f7', background: 'rgba(168,85,247,0.15)',
+          padding: '2px 6px', borderRadius: '4px', letterSpacing: '0.5px'
+        }}>REPLAY</span>
+        <span style={{ fontSize: '13px', fontWeight: 600, color: o.textColor, flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+          {replay.name}
+        </span>
+        <span style={{ fontSize: '13px', fontFamily: 'monospace', color: o.textColor }}>{formatTime(currentTime)}</span>
+        <span style={{ fontSize: '11px', fontFamily: 'monospace', color: `rgba(${o.c},${o.c},${o.c},0.5)` }}>
+          +{formatElapsed(currentTime - startTime)}
+        </span>
+        <button onClick={stopReplay} title="Replay beenden und Live-Daten wiederherstellen" style={{
+          ...buttonStyle, background: 'rgba(239,68,68,0.15)', border: '1px solid rgba(239,68,68,0.3)', color: '#ef4444'
+        }}>Beenden</button>
+      </div>
+
+      {/* Timeline mit Markern */}
+      <div style={{ position: 'relative', height: '24px' }}>
+        <input
+          type="range"
+          min={startTime}
+          max={endTime}
+          step={1000}
+          value={currentTime}
+          onChange={e => setReplayTime(Number(e.target.value))}
+          style={{ width: '100%', position: 'absolute', top: '6px', left: 0, margin: 0, cursor: 'pointer' }}
+        />
+        {jumpTargets.map(t => (
+          <div key={t.id} title={`${t.label} ${formatTime(t.time)}`} style={{
+            position: 'absolute',
+            left: `${((t.time - startTime) / duration) * 100}%`,
+            top: 0,
+            width: '2px',
+            height: '6px',
+            background: t.color,
+            pointerEvents: 'none'
+          }} />
+        ))}
+      </div>
+
+      {/* Steuerung */}
+      <div style={{ display: 'flex', alignItems: 'center', gap: '6px', flexWrap: 'wrap' }}>
+        <button onClick={() => setReplayTime(currentTime - 60000)} title="-60s" style={buttonStyle}>-60s</button>
+        <button onClick={() => setReplayPlaying(!replay.playing)} style={{
+          ...buttonStyle, minWidth: '64px', background: replay.playing ? 'rgba(245,158,11,0.2)' : 'rgba(34,197,94,0.2)',
+          color: replay.playing ? '#f59e0b' : '#22c55e'
+        }}>{replay.playing ? 'Pause' : 'Play'}</button>
+        <button onClick={() => setReplayTime(currentTime + 60000)} title="+60s" style={buttonStyle}>+60s</button>
+
+        <div style={{ display: 'flex', gap: '2px', marginLeft: '8px' }}>
+          {REPLAY_SPEEDS.map(speed => (
+            <button key={speed} onClick={() => setReplaySpeed(speed)} style={{
+              ...buttonStyle,
+              padding: '6px 8px',
+              background: replay.speed === speed ? '#a855f7' : buttonStyle.background,
+              color: replay.speed === speed ? '#fff' : o.textColor
+            }}>{speed}x</button>
+          ))}
+        </div>
+
+        {jumpTargets.length > 0 && (
+          <div style={{ display: 'flex', gap: '2px', marginLeft: 'auto', flexWrap: 'wrap' }}>
+            {jumpTargets.map(t => (
+              <button key={t.id} onClick={() => setReplayTime(t.time)} title={`Springe zu ${t.label} (${formatTime(t.time)})`} style={{
+                ...buttonStyle, padding: '4px 6px', fontSize: '11px', color: t.color
+              }}>{t.label}</button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
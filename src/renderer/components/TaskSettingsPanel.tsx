@@ -1,6 +1,8 @@
 import React, { useState, useEffect, useRef } from 'react'
 import { useFlightStore } from '../stores/flightStore'
 import { getOutdoor } from '../utils/outdoorStyles'
+import { BalloonPerformanceSection } from './BalloonPerformanceSection'
+import { DEFAULT_ENVELOPE_TEMP, DEFAULT_GROUND_TEMP } from '../utils/gasEndurance'
 import { AppSettings, FKEY_ACTION_LABELS, FKeyAction } from '../../shared/types'
 
 interface TaskSettingsPanelProps {
@@ -194,6 +196,8 @@ export function TaskSettingsPanel({ isOpen, onClose }: TaskSettingsPanelProps) {
                 style={{ width: '100%', padding: '12px', borderRadius: '8px', border: '1px solid rgba(${o.c},${o.c},${o.c},0.2)', background: 'rgba(0,0,0,0.3)', color: o.textColor, fontSize: '14px', boxSizing: 'border-box' }} />
             </div>
 
+            <BalloonPerformanceSection onUpdate={updateLocalSettings} />
+
             {/* BLS Sensor */}
             <div style={{ marginTop: '20px', paddingTop: '16px', borderTop: '1px solid rgba(${o.c},${o.c},${o.c},0.1)' }}>
               <div style={{ fontSize: '12px', color: `rgba(${o.c},${o.c},${o.c},0.7)`, marginBottom: '12px', fontWeight: 600 }}>BLS Sensor</div>
@@ -238,6 +242,36 @@ export function TaskSettingsPanel({ isOpen, onClose }: TaskSettingsPanelProps) {
               </div>
             </div>
 
+            {/* Temperaturen für das Verbrauchsmodell */}
+            <div style={{ marginBottom: '20px' }}>
+              <div style={{ display: 'flex', gap: '12px' }}>
+                <div style={{ flex: 1 }}>
+                  <div style={{ fontSize: '11px', color: `rgba(${o.c},${o.c},${o.c},0.5)`, marginBottom: '8px' }}>Hüllentemperatur (°C)</div>
+                  <input
+                    type="number" min="50" max="130"
+                    value={settings.gasEnvelopeTemp ?? DEFAULT_ENVELOPE_TEMP}
+                    onChange={(e) => updateLocalSettings({ gasEnvelopeTemp: Math.max(50, Math.min(130, parseInt(e.target.value) || DEFAULT_ENVELOPE_TEMP)) })}
+                    style={gasInputStyle}
+                  />
+                </div>
+                <div style={{ flex: 1 }}>
+                  <div style={{ fontSize: '11px', color: `rgba(${o.c},${o.c},${o.c},0.5)`, marginBottom: '8px' }}>Bodentemperatur (°C)</div>
+                  <input
+                    type="number" min="-30" max="45"
+                    value={settings.gasGroundTemp ?? DEFAULT_GROUND_TEMP}
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value)
+                      updateLocalSettings({ gasGroundTemp: Number.isFinite(value) ? Math.max(-30, Math.min(45, value)) : DEFAULT_GROUND_TEMP })
+                    }}
+                    style={gasInputStyle}
+                  />
+                </div>
+              </div>
+              <div style={{ fontSize: '10px', color: `rgba(${o.c},${o.c},${o.c},0.35)`, marginTop: '4px' }}>
+                Der Verbrauch wird aus Steigen, Brennstößen und dem Temperaturunterschied zur Luft geschätzt (Normverbrauch bei 100 °C Hülle und 15 °C Luft)
+              </div>
+            </div>
+
             <div style={{ borderTop: '1px solid rgba(${o.c},${o.c},${o.c},0.1)', paddingTop: '16px' }}>
               <div style={{ fontSize: '12px', color: `rgba(${o.c},${o.c},${o.c},0.7)`, marginBottom: '12px', fontWeight: 600 }}>Gasflaschen</div>
 
@@ -281,7 +315,7 @@ export function TaskSettingsPanel({ isOpen, onClose }: TaskSettingsPanelProps) {
                       />
                     </div>
                     <div style={{ flex: 1 }}>
-                      <div style={{ fontSize: '11px', color: `rgba(${o.c},${o.c},${o.c},0.5)`, marginBottom: '4px' }}>Verbrauch (L/h)</div>
+                      <div style={{ fontSize: '11px', color: `rgba(${o.c},${o.c},${o.c},0.5)`, marginBottom: '4px' }}>Verbrauch horizontal (L/h)</div>
                       <input type="number" min="0.1" step="0.1" value={bottle.consumptionPerHour}
                         onChange={(e) => {
                           const updated = [...(settings.gasBottles || [])]
@@ -1574,6 +1608,7 @@ export function TaskSettingsPanel({ isOpen, onClose }: TaskSettingsPanelProps) {
                 { key: 'angPanelScale', label: 'ANG' },
                 { key: 'wnvPanelScale', label: 'Wind Nav (WNV)' },
                 { key: 'donutPanelScale', label: 'Donut' },
+                { key: 'reachPanelScale', label: 'Erreichbarkeit' },
                 { key: 'windRoseScale', label: 'Windrose' },
                 { key: 'gasPanelScale', label: 'Gas-Tracker' }
               ].map(({ key, label }) => (
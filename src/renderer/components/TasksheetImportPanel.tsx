@@ -10,7 +10,20 @@ import {
   TASK_TYPE_NAMES,
   colorNameToHex
 } from '../utils/tasksheetParser'
-import { parseTasksheetWithAI } from '../utils/aiTasksheetParser'
+import {
+  parseTasksheetWithAI,
+  getTasksheetAIProvider,
+  DEFAULT_GEMINI_MODEL,
+  DEFAULT_LOCAL_ENDPOINT,
+  DEFAULT_LOCAL_MODEL
+} from '../utils/aiTasksheetParser'
+import {
+  mergeParseResults,
+  getTaskConfidence,
+  getLowConfidenceFields,
+  LOW_CONFIDENCE_THRESHOLD,
+  TASK_FIELD_LABELS
+} from '../utils/tasksheetConfidence'
 import { utmToLatLon } from '../utils/coordinatesWGS84'
 import { Task, Goal, GoalType, TaskType } from '../../shared/types'
 
@@ -690,29 +703,28 @@ export function TasksheetImportPanel({ isOpen, onClose, championshipId, onSavePd
     }
   }
 
-  // Text verarbeiten – erst KI-Parser (direkt PDF wenn möglich), dann Fallback auf Regex
+  // Text verarbeiten – KI-Parser (wenn konfiguriert) und Regex-Parser, feldweise nach Vertrauen zusammengeführt
   const processText = async (text: string, pdfBase64Data?: string) => {
     console.log('[Tasksheet] Extrahierter Text:\n' + text.substring(0, 2000))
 
-    // KI-Parser versuchen – PDF direkt wenn verfügbar
     setIsLoading(true)
-    try {
-      const aiResult = await parseTasksheetWithAI(text, pdfBase64Data)
-      if (aiResult && aiResult.success && aiResult.tasks.length > 0) {
-        console.log(`[Tasksheet] KI-Parser: ${aiResult.tasks.length} Tasks erkannt`)
-        setParseResult(aiResult)
-        setSelectedTasks(new Set(aiResult.tasks.map(t => t.taskNumber)))
-        setImportStep('configure')
-        setIsLoading(false)
-        return
+    const provider = getTasksheetAIProvider(useFlightStore.getState().settings)
+    let aiResult: TasksheetParseResult | null = null
+    if (provider) {
+      try {
+        aiResult = await parseTasksheetWithAI(provider, text, pdfBase64Data)
+        if (aiResult && aiResult.success) {
+          console.log(`[Tasksheet] KI-Parser (${provider.name}): ${aiResult.tasks.length} Tasks erkannt`)
+        } else {
+          console.log('[Tasksheet] KI-Parser fehlgeschlagen, verwende Regex-Fallback')
+        }
+      } catch (err) {
+        console.warn('[Tasksheet] KI-Parser Fehler:', err)
       }
-      console.log('[Tasksheet] KI-Parser fehlgeschlagen, verwende Regex-Fallback')
-    } catch (err) {
-      console.warn('[Tasksheet] KI-Parser Fehler:', err)
     }
 
-    // Fallback: Regex-Parser
-    const result = parseTasksheetText(text)
+    // Regex-Parser läuft immer – dient als Fallback und zur Gegenprüfung der KI-Werte
+    const result = mergeParseResults(aiResult, parseTasksheetText(text), text, provider?.name)
     setParseResult(result)
     setIsLoading(false)
 
@@ -1231,6 +1243,84 @@ export function TasksheetImportPanel({ isOpen, onClose, championshipId, onSavePd
                   >
                     Datei auswählen
                   </button>
+
+                  {/* KI-Anbieter */}
+                  <div style={{
+                    marginTop: '24px', padding: '12px', textAlign: 'left',
+                    background: `rgba(${o.c},${o.c},${o.c},0.03)`,
+                    border: `1px solid rgba(${o.c},${o.c},${o.c},0.1)`, borderRadius: '8px'
+                  }}>
+                    <div style={{ fontSize: '11px', color: `rgba(${o.c},${o.c},${o.c},0.5)`, marginBottom: '8px' }}>
+                      KI-Auswertung (Regex-Parser läuft immer mit)
+                    </div>
+                    <div style={{ display: 'flex', gap: '4px', marginBottom: '8px' }}>
+                      {([
+                        { id: 'none', label: 'Aus' },
+                        { id: 'gemini', label: 'Gemini' },
+                        { id: 'local', label: 'Lokal / Offline' }
+                      ] as const).map(p => {
+                        const active = (settings.tasksheetAiProvider || 'none') === p.id
+                        return (
+                          <button
+                            key={p.id}
+                            onClick={() => updateSettings({ tasksheetAiProvider: p.id })}
+                            style={{
+                              flex: 1, padding: '6px 8px',
+                              background: active ? '#3b82f6' : `rgba(${o.c},${o.c},${o.c},0.08)`,
+                              border: 'none', borderRadius: '6px',
+                              color: active ? '#fff' : o.textColor, fontSize: '11px', fontWeight: 600, cursor: 'pointer'
+                            }}
+                          >
+                            {p.label}
+                          </button>
+                        )
+                      })}
+                    </div>
+                    {settings.tasksheetAiProvider === 'gemini' && (
+                      <input
+                        type="password"
+                        value={settings.tasksheetAiApiKey || ''}
+                        onChange={e => updateSettings({ tasksheetAiApiKey: e.target.value })}
+                        placeholder="Gemini API-Key"
+                        style={{
+                          width: '100%', boxSizing: 'border-box', padding: '6px 8px', marginBottom: '6px',
+                          background: 'rgba(0,0,0,0.3)', border: `1px solid rgba(${o.c},${o.c},${o.c},0.15)`,
+                          borderRadius: '4px', color: o.textColor, fontSize: '11px'
+                        }}
+                      />
+                    )}
+                    {settings.tasksheetAiProvider === 'local' && (
+                      <input
+                        type="text"
+                        value={settings.tasksheetAiEndpoint || ''}
+                        onChange={e => updateSettings({ tasksheetAiEndpoint: e.target.value })}
+                        placeholder={DEFAULT_LOCAL_ENDPOINT}
+                        style={{
+                          width: '100%', boxSizing: 'border-box', padding: '6px 8px', marginBottom: '6px',
+                          background: 'rgba(0,0,0,0.3)', border: `1px solid rgba(${o.c},${o.c},${o.c},0.15)`,
+                          borderRadius: '4px', color: o.textColor, fontSize: '11px'
+                        }}
+                      />
+                    )}
+                    {(settings.tasksheetAiProvider === 'gemini' || settings.tasksheetAiProvider === 'local') && (
+                      <input
+                        type="text"
+                        value={settings.tasksheetAiModel || ''}
+                        onChange={e => updateSettings({ tasksheetAiModel: e.target.value })}
+                        placeholder={settings.tasksheetAiProvider === 'gemini' ? DEFAULT_GEMINI_MODEL : DEFAULT_LOCAL_MODEL}
+                        style={{
+                          width: '100%', boxSizing: 'border-box', padding: '6px 8px',
+                          background: 'rgba(0,0,0,0.3)', border: `1px solid rgba(${o.c},${o.c},${o.c},0.15)`,
+                          borderRadius: '4px', color: o.textColor, fontSize: '11px'
+                        }}
+                      />
+                    )}
+                    {settings.tasksheetAiProvider === 'gemini' && !settings.tasksheetAiApiKey && (
+                      <div style={{ fontSize: '10px', color: '#f59e0b', marginTop: '6px' }}>
+                        Ohne API-Key wird nur der Regex-Parser verwendet
+                      </div>
+                    )}
+                  </div>
                 </>
               )}
             </div>
@@ -1278,6 +1368,7 @@ export function TasksheetImportPanel({ isOpen, onClose, championshipId, onSavePd
                   {parseResult.flight && <span>Fahrt: <strong style={{ color: o.textColor }}>{parseResult.flight}</strong></span>}
                   {parseResult.qnh && <span>QNH: <strong style={{ color: o.textColor }}>{parseResult.qnh} hPa</strong></span>}
                   {activeCompetitionMap && <span>Karte: <strong style={{ color: '#22c55e' }}>{activeCompetitionMap.name}</strong></span>}
+                  {parseResult.parser && <span>Parser: <strong style={{ color: o.textColor }}>{parseResult.parser}</strong></span>}
                 </div>
               </div>
 
@@ -1370,7 +1461,40 @@ export function TasksheetImportPanel({ isOpen, onClose, championshipId, onSavePd
                                 {task.goals.length} Goal{task.goals.length > 1 ? 's' : ''}
                               </span>
                             )}
+                            {task.confidence && !task.isCancelled && (() => {
+                              const overall = getTaskConfidence(task.confidence)
+                              const color = overall >= 0.9 ? '#22c55e' : overall >= LOW_CONFIDENCE_THRESHOLD ? '#f59e0b' : '#ef4444'
+                              return (
+                                <span
+                                  title={`Quelle: ${task.source === 'ai' ? 'KI' : 'Regex'}`}
+                                  style={{
+                                    padding: '2px 8px', borderRadius: '4px',
+                                    background: `${color}33`, color, fontSize: '10px'
+                                  }}
+                                >
+                                  {Math.round(overall * 100)}%
+                                </span>
+                              )
+                            })()}
                           </div>
+                          {/* Felder mit geringem Vertrauen - bitte mit dem Tasksheet vergleichen */}
+                          {task.confidence && !task.isCancelled && getLowConfidenceFields(task.confidence).length > 0 && (
+                            <div style={{ marginTop: '4px', display: 'flex', flexWrap: 'wrap', gap: '4px' }}>
+                              {getLowConfidenceFields(task.confidence).map(field => (
+                                <span
+                                  key={field}
+                                  title="Wert nicht eindeutig im Tasksheet gefunden – bitte prüfen"
+                                  style={{
+                                    padding: '1px 6px', borderRadius: '4px',
+                                    border: '1px solid rgba(245, 158, 11, 0.4)',
+                                    color: '#f59e0b', fontSize: '10px'
+                                  }}
+                                >
+                                  {TASK_FIELD_LABELS[field]} {Math.round(task.confidence![field] * 100)}%
+                                </span>
+                              ))}
+                            </div>
+                          )}
                           <div style={{ fontSize: '11px', color: `rgba(${o.c},${o.c},${o.c},0.5)`, marginTop: '4px' }}>
                             {TASK_TYPE_NAMES[task.taskType] || task.taskName}
                             {task.mma > 0 && ` · MMA ${task.mma}m`}
@@ -1430,7 +1554,9 @@ export function TasksheetImportPanel({ isOpen, onClose, championshipId, onSavePd
                                                     eastingStr: editCoords.easting,
                                                     northingStr: editCoords.northing
                                                   }
-                                                  return { ...t, goals: updatedGoals, needsUserInput: false }
+                                                  // Manuell eingegeben = bestätigt
+                                                  const confidence = t.confidence ? { ...t.confidence, goals: 1 } : undefined
+                                                  return { ...t, goals: updatedGoals, needsUserInput: false, confidence }
                                                 }
                                                 return t
                                               })
@@ -7,7 +7,11 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react'
 import { useFlightStore } from '../stores/flightStore'
 import { getOutdoor } from '../utils/outdoorStyles'
-import { calculateWindNav, calculateWnvGuidance, recalculateWnvFromCurrent } from '../utils/windNavigation'
+import { calculateWnvGuidance, describePzViolation } from '../utils/windNavigation'
+import { useCompute } from '../hooks/useCompute'
+import { findBalloonPerformance } from '../utils/balloonPerformance'
+import { windFieldForFilter } from '../utils/windField'
+import { HwzRankingSection } from './HwzRankingSection'
 import { WindSource, WindSourceFilter } from '../../shared/types'
 
 interface Props {
@@ -27,11 +31,15 @@ export function WindNavPanel({ onClose, style, onMouseDown, onTouchStart }: Prop
   const setWnvDeclared = useFlightStore(s => s.setWnvDeclared)
   const wnvGuidance = useFlightStore(s => s.wnvGuidance)
   const setWnvGuidance = useFlightStore(s => s.setWnvGuidance)
+  const storeWindField = useFlightStore(s => s.windField)
+  const prohibitedZones = useFlightStore(s => s.prohibitedZones)
   const o = getOutdoor(settings.outdoorMode)
 
   const [windFilter, setWindFilter] = useState<WindSourceFilter>('all')
   const [goalElevation, setGoalElevation] = useState<number | null>(null)
   const [showFlugplan, setShowFlugplan] = useState(false)
+  const wnvCompute = useCompute('windNav')
+  const progressLabel = `Berechne... ${Math.round((wnvCompute.progress ?? 0) * 100)}%`
 
   // Wind filtern
   const filteredWindLayers = allWindLayers.filter(l => {
@@ -42,6 +50,7 @@ export function WindNavPanel({ onClose, style, onMouseDown, onTouchStart }: Prop
     if (windFilter === 'sounding') return l.source === WindSource.Windsond || l.source === WindSource.Pibal
     return true
   })
+  const windField = windFieldForFilter(storeWindField, windFilter)
 
   // Geländehöhe am Ziel laden
   useEffect(() => {
@@ -53,21 +62,34 @@ export function WindNavPanel({ onClose, style, onMouseDown, onTouchStart }: Prop
   }, [selectedGoal?.id])
 
   const currentAlt = baroData?.pressureAltitude || gpsData?.altitude || 0
+  const performance = findBalloonPerformance(settings)
   const canCalculate = gpsData && selectedGoal && filteredWindLayers.length >= 2 && goalElevation !== null
 
-  // Berechnung
-  const doCalculate = useCallback(() => {
+  // Berechnung (im Compute-Worker)
+  const doCalculate = useCallback(async () => {
     if (!gpsData || !selectedGoal || filteredWindLayers.length < 2 || goalElevation === null) return
-    const result = calculateWindNav({
-      pilotLat: gpsData.latitude, pilotLon: gpsData.longitude,
-      pilotAltitude: currentAlt,
-      goalLat: selectedGoal.position.latitude, goalLon: selectedGoal.position.longitude,
-      goalElevation,
-      windLayers: filteredWindLayers,
-      maxLegs: wnvConfig.maxLegs,
-    })
-    setWnvResult(result)
-  }, [gpsData?.latitude, gpsData?.longitude, currentAlt, selectedGoal, goalElevation, filteredWindLayers, wnvConfig.maxLegs])
+    try {
+      const outcome = await wnvCompute.run([{
+        pilotLat: gpsData.latitude, pilotLon: gpsData.longitude,
+        pilotAltitude: currentAlt,
+        goalLat: selectedGoal.position.latitude, goalLon: selectedGoal.position.longitude,
+        goalElevation,
+        windLayers: filteredWindLayers,
+        maxLegs: wnvConfig.maxLegs,
+        windField,
+        prohibitedZones,
+        performance,
+      }])
+      if (outcome) setWnvResult(outcome.result)
+    } catch (e) {
+      console.error('[WNV] Berechnungsfehler:', e)
+    }
+  }, [wnvCompute.run, gpsData?.latitude, gpsData?.longitude, currentAlt, selectedGoal, goalElevation, filteredWindLayers, wnvConfig.maxLegs, windField, prohibitedZones, performance])
+
+  // Ziel/Strategie-Parameter geändert → laufende Berechnung abbrechen
+  useEffect(() => {
+    wnvCompute.cancel()
+  }, [selectedGoal?.id, wnvConfig.maxLegs, windFilter])
 
   // Deklarieren
   const doDeclare = useCallback(() => {
@@ -88,19 +110,30 @@ export function WindNavPanel({ onClose, style, onMouseDown, onTouchStart }: Prop
   }, [])
 
   // Neuberechnung mit Continuity-Bias
-  const doRecalculate = useCallback(() => {
+  const doRecalculate = useCallback(async () => {
     if (!gpsData || !selectedGoal || filteredWindLayers.length < 2 || goalElevation === null || !wnvDeclared) return
-    const result = recalculateWnvFromCurrent(
-      {
-        pilotLat: gpsData.latitude, pilotLon: gpsData.longitude,
-        pilotAltitude: currentAlt,
-        goalLat: selectedGoal.position.latitude, goalLon: selectedGoal.position.longitude,
-        goalElevation,
-        windLayers: filteredWindLayers,
-        maxLegs: wnvConfig.maxLegs,
-      },
-      wnvDeclared.strategy.altitudeSequence
-    )
+    let result
+    try {
+      const outcome = await wnvCompute.run([
+        {
+          pilotLat: gpsData.latitude, pilotLon: gpsData.longitude,
+          pilotAltitude: currentAlt,
+          goalLat: selectedGoal.position.latitude, goalLon: selectedGoal.position.longitude,
+          goalElevation,
+          windLayers: filteredWindLayers,
+          maxLegs: wnvConfig.maxLegs,
+          windField,
+          prohibitedZones,
+          performance,
+        },
+        wnvDeclared.strategy.altitudeSequence
+      ])
+      if (!outcome) return
+      result = outcome.result
+    } catch (e) {
+      console.error('[WNV] Berechnungsfehler:', e)
+      return
+    }
     if (result) {
       setWnvResult(result)
       setWnvDeclared({
@@ -112,7 +145,7 @@ export function WindNavPanel({ onClose, style, onMouseDown, onTouchStart }: Prop
       })
       setWnvGuidance(null)
     }
-  }, [gpsData, selectedGoal, filteredWindLayers, goalElevation, currentAlt, wnvConfig.maxLegs, wnvDeclared])
+  }, [wnvCompute.run, gpsData, selectedGoal, filteredWindLayers, goalElevation, currentAlt, wnvConfig.maxLegs, wnvDeclared, windField, prohibitedZones, performance])
 
   // Live-Guidance Update (alle 3s wenn deklariert)
   const lastGuidanceRef = useRef(0)
@@ -126,20 +159,22 @@ export function WindNavPanel({ onClose, style, onMouseDown, onTouchStart }: Prop
       wnvDeclared.strategy,
       selectedGoal.position.latitude, selectedGoal.position.longitude, goalElevation,
       filteredWindLayers,
-      wnvDeclared.declaredAlt
+      wnvDeclared.declaredAlt,
+      windField
     )
     setWnvGuidance(guidance)
-  }, [wnvDeclared, gpsData?.latitude, gpsData?.longitude, currentAlt, selectedGoal, filteredWindLayers, goalElevation])
+  }, [wnvDeclared, gpsData?.latitude, gpsData?.longitude, currentAlt, selectedGoal, filteredWindLayers, goalElevation, windField])
 
   // Auto-Berechnung im Planungsmodus (wenn kein Declare aktiv)
   const lastCalcRef = useRef(0)
   useEffect(() => {
     if (wnvDeclared) return  // Im Cockpit-Modus nicht automatisch neu berechnen
     if (!wnvConfig.autoRecalc || !canCalculate) return
+    if (wnvCompute.busy) return  // laufende Berechnung nicht ständig abbrechen
     if (Date.now() - lastCalcRef.current < 3000) return
     lastCalcRef.current = Date.now()
     doCalculate()
-  }, [wnvDeclared, wnvConfig.autoRecalc, canCalculate, gpsData?.latitude, gpsData?.longitude, currentAlt, doCalculate])
+  }, [wnvDeclared, wnvConfig.autoRecalc, canCalculate, wnvCompute.busy, gpsData?.latitude, gpsData?.longitude, currentAlt, doCalculate])
 
   const currentAltFt = Math.round(currentAlt * 3.28084 / 50) * 50
 
@@ -350,7 +385,7 @@ export function WindNavPanel({ onClose, style, onMouseDown, onTouchStart }: Prop
               fontSize: '11px', fontWeight: 700, cursor: 'pointer',
               animation: g.shouldRecalc ? 'wnvPulse 1.5s ease-in-out infinite' : 'none'
             }}>
-            Neu berechnen
+            {wnvCompute.busy ? progressLabel : 'Neu berechnen'}
           </button>
           <button onClick={doUndeclare}
             style={{
@@ -447,10 +482,10 @@ export function WindNavPanel({ onClose, style, onMouseDown, onTouchStart }: Prop
             color: canCalculate ? 'white' : `rgba(${o.c},${o.c},${o.c},${o.on ? 0.3 : 0.2})`,
             fontSize: '11px', fontWeight: 700, cursor: canCalculate ? 'pointer' : 'not-allowed'
           }}>
-          Berechnen
+          {wnvCompute.busy ? progressLabel : 'Berechnen'}
         </button>
         {wnvResult && !wnvDeclared && (
-          <button onClick={() => { setWnvResult(null) }}
+          <button onClick={() => { wnvCompute.cancel(); setWnvResult(null) }}
             style={{ padding: '6px 8px', borderRadius: '5px', border: '1px solid rgba(239,68,68,0.3)', background: 'rgba(239,68,68,0.08)', color: '#ef4444', fontSize: '9px', fontWeight: 600, cursor: 'pointer' }}>
             Reset
           </button>
@@ -463,6 +498,9 @@ export function WindNavPanel({ onClose, style, onMouseDown, onTouchStart }: Prop
         </div>
       )}
 
+      {/* HWZ: alle Goals des Tasks vergleichen */}
+      <HwzRankingSection windLayers={filteredWindLayers} windField={windField} />
+
       {/* Ergebnis-Vorschau */}
       {wnvResult && (
         <>
@@ -519,6 +557,37 @@ export function WindNavPanel({ onClose, style, onMouseDown, onTouchStart }: Prop
             </div>
           </div>
 
+          {/* Sperrgebiete */}
+          {wnvResult.pzViolation && (
+            <div style={{
+              padding: '5px 8px', borderRadius: '5px', marginBottom: '6px', fontSize: '9px', fontWeight: 600,
+              background: 'rgba(239,68,68,0.1)', border: '1px solid rgba(239,68,68,0.3)', color: '#ef4444'
+            }}>
+              ⚠ Keine Strategie ohne PZ gefunden. {describePzViolation(wnvResult.pzViolation)}
+            </div>
+          )}
+          {wnvResult.discarded.length > 0 && (
+            <div style={{ marginBottom: '6px' }}>
+              <div style={{ fontSize: '8px', color: `rgba(${o.c},${o.c},${o.c},${o.textMuted})`, marginBottom: '3px', fontWeight: 600 }}>
+                WEGEN PZ VERWORFEN
+              </div>
+              {wnvResult.discarded.map((d, i) => (
+                <div key={i} style={{
+                  padding: '3px 6px', marginBottom: '2px', borderRadius: '4px', fontSize: '9px',
+                  background: 'rgba(239,68,68,0.06)'
+                }}>
+                  <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                    <span style={{ color: o.textColor, fontWeight: 700, fontFamily: 'monospace' }}>{d.altitudeSequenceFt.join(' → ')} ft</span>
+                    <span style={{ color: `rgba(${o.c},${o.c},${o.c},${o.textDim})`, fontFamily: 'monospace' }}>
+                      {d.distanceToGoal >= 1000 ? `${(d.distanceToGoal / 1000).toFixed(1)}km` : `${d.distanceToGoal}m`}
+                    </span>
+                  </div>
+                  <div style={{ color: '#ef4444' }}>{d.reason}</div>
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Flugplan */}
           <div style={{ marginBottom: '6px' }}>
             <div style={{ fontSize: '8px', color: `rgba(${o.c},${o.c},${o.c},${o.textMuted})`, marginBottom: '3px', fontWeight: 600 }}>FLUGPLAN</div>
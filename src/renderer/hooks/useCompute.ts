@@ -0,0 +1,50 @@
+import { useState, useRef, useEffect, useCallback } from 'react'
+import { runCompute, cancelCompute, ComputeKind, ComputeArgs, ComputeOutcome } from '../services/computeService'
+
+interface UseComputeResult<K extends ComputeKind> {
+  /** Berechnung starten - null wenn abgebrochen oder durch neuere ersetzt */
+  run: (args: ComputeArgs<K>) => Promise<ComputeOutcome<K> | null>
+  cancel: () => void
+  /** 0..1 während einer Berechnung, sonst null */
+  progress: number | null
+  busy: boolean
+}
+
+/**
+ * Hook für Berechnungen im Compute-Worker mit Fortschrittsanzeige.
+ * Beim Unmount wird eine noch laufende Berechnung abgebrochen.
+ */
+export function useCompute<K extends ComputeKind>(kind: K): UseComputeResult<K> {
+  const [progress, setProgress] = useState<number | null>(null)
+  const versionRef = useRef(0)
+  const busyRef = useRef(false)
+
+  const run = useCallback(async (args: ComputeArgs<K>) => {
+    const version = ++versionRef.current
+    busyRef.current = true
+    setProgress(0)
+    try {
+      return await runCompute(kind, args, fraction => {
+        if (versionRef.current === version) setProgress(fraction)
+      })
+    } finally {
+      if (versionRef.current === version) {
+        busyRef.current = false
+        setProgress(null)
+      }
+    }
+  }, [kind])
+
+  const cancel = useCallback(() => {
+    versionRef.current++
+    busyRef.current = false
+    setProgress(null)
+    cancelCompute(kind)
+  }, [kind])
+
+  useEffect(() => () => {
+    if (busyRef.current) cancelCompute(kind)
+  }, [kind])
+
+  return { run, cancel, progress, busy: progress !== null }
+}
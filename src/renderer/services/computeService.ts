@@ -0,0 +1,161 @@
+// Rechen-Service für die Navigations-Tools.
+// Jede Job-Art bekommt einen eigenen Web Worker, pro Art läuft immer nur die neueste
+// Anfrage: ändern sich die Eingaben, wird der laufende Worker beendet (echter Abbruch)
+// und die alte Anfrage mit null beantwortet. Ergebnisse werden nach Eingabe gecacht.
+
+import type { ComputeArgs, ComputeKind, ComputeResult } from '../workers/computeJobs'
+
+export type { ComputeKind, ComputeArgs, ComputeResult } from '../workers/computeJobs'
+
+type ProgressListener = (fraction: number) => void
+
+/** Fertiges Ergebnis - null steht dagegen für "abgebrochen" */
+export interface ComputeOutcome<K extends ComputeKind> {
+  result: ComputeResult<K>
+}
+
+interface Job {
+  id: number
+  key: string
+  promise: Promise<ComputeOutcome<any> | null>
+  resolve: (outcome: ComputeOutcome<any> | null) => void
+  reject: (e: Error) => void
+  listeners: Set<ProgressListener>
+}
+
+interface Slot {
+  worker: Worker | null
+  current: Job | null
+}
+
+type WorkerMessage =
+  | { id: number; type: 'progress'; fraction: number }
+  | { id: number; type: 'done'; result: unknown }
+  | { id: number; type: 'error'; error: string }
+
+const CACHE_SIZE = 24
+
+const slots = new Map<ComputeKind, Slot>()
+const cache = new Map<string, unknown>()
+let jobId = 0
+
+const bufferIds = new WeakMap<Uint8Array, number>()
+let nextBufferId = 0
+
+// Windfelder und GRIB-Daten sind groß und unveränderlich - für den Cache-Key reicht die Identität
+function keyReplacer(_key: string, value: any): any {
+  if (value && typeof value === 'object' && typeof value.modelId === 'string' && Array.isArray(value.profiles)) {
+    return `windfield:${value.modelId}@${value.fetchedAt}#${value.profiles.length}`
+  }
+  if (value && typeof value === 'object' && value.bytes instanceof Uint8Array && Array.isArray(value.fields)) {
+    if (!bufferIds.has(value.bytes)) bufferIds.set(value.bytes, ++nextBufferId)
+    return `grib#${bufferIds.get(value.bytes)}`
+  }
+  return value
+}
+
+function cacheKey(kind: ComputeKind, args: unknown): string {
+  return `${kind}:${JSON.stringify(args, keyReplacer)}`
+}
+
+function remember(key: string, result: unknown) {
+  cache.delete(key)
+  cache.set(key, result)
+  if (cache.size > CACHE_SIZE) {
+    cache.delete(cache.keys().next().value as string)
+  }
+}
+
+function getSlot(kind: ComputeKind): Slot {
+  let slot = slots.get(kind)
+  if (!slot) {
+    slot = { worker: null, current: null }
+    slots.set(kind, slot)
+  }
+  return slot
+}
+
+function getWorker(kind: ComputeKind, slot: Slot): Worker {
+  if (slot.worker) return slot.worker
+  const worker = new Worker(new URL('../workers/compute.worker.ts', import.meta.url), { type: 'module' })
+  worker.onmessage = (event: MessageEvent<WorkerMessage>) => {
+    const job = slot.current
+    const msg = event.data
+    if (!job || job.id !== msg.id) return
+    if (msg.type === 'progress') {
+      for (const listener of job.listeners) listener(msg.fraction)
+      return
+    }
+    slot.current = null
+    if (msg.type === 'error') {
+      job.reject(new Error(msg.error))
+      return
+    }
+    remember(job.key, msg.result)
+    job.resolve({ result: msg.result })
+  }
+  worker.onerror = (event) => {
+    // Worker ist kaputt - laufenden Job abbrechen, beim nächsten Mal neu starten
+    console.error(`[Compute] Worker-Fehler (${kind}):`, event.message)
+    const job = slot.current
+    slot.current = null
+    slot.worker?.terminate()
+    slot.worker = null
+    job?.reject(new Error(event.message || 'Compute-Worker Fehler'))
+  }
+  slot.worker = worker
+  return worker
+}
+
+/**
+ * Laufende Berechnung einer Job-Art abbrechen.
+ * Der Worker wird beendet, die offene Anfrage liefert null.
+ */
+export function cancelCompute(kind: ComputeKind): void {
+  const slot = slots.get(kind)
+  if (!slot?.current) return
+  const job = slot.current
+  slot.current = null
+  slot.worker?.terminate()
+  slot.worker = null
+  job.resolve(null)
+}
+
+/**
+ * Berechnung im Worker starten.
+ * Liefert { result } oder null wenn die Anfrage durch eine neuere ersetzt
+ * bzw. abgebrochen wurde. Gleiche Eingaben hängen sich an die laufende
+ * Berechnung an oder kommen direkt aus dem Cache.
+ */
+export function runCompute<K extends ComputeKind>(
+  kind: K,
+  args: ComputeArgs<K>,
+  onProgress?: ProgressListener
+): Promise<ComputeOutcome<K> | null> {
+  const slot = getSlot(kind)
+  const key = cacheKey(kind, args)
+
+  if (cache.has(key)) {
+    cancelCompute(kind)
+    const result = cache.get(key) as ComputeResult<K>
+    remember(key, result)
+    onProgress?.(1)
+    return Promise.resolve({ result })
+  }
+
+  if (slot.current?.key === key) {
+    if (onProgress) slot.current.listeners.add(onProgress)
+    return slot.current.promise
+  }
+
+  cancelCompute(kind)
+
+  const id = ++jobId
+  let resolve!: Job['resolve']
+  let reject!: Job['reject']
+  const promise = new Promise<ComputeOutcome<any> | null>((res, rej) => { resolve = res; reject = rej })
+  const job: Job = { id, key, promise, resolve, reject, listeners: new Set(onProgress ? [onProgress] : []) }
+  slot.current = job
+  getWorker(kind, slot).postMessage({ id, kind, args })
+  return promise
+}
@@ -0,0 +1,87 @@
+// Daten aus lokal gespeicherten Fahrten laden (Marker-Kalibrierung, Ballon-Flugverhalten).
+// Meisterschaften kommen aus dem Cache des Meisterschafts-Panels, die Fahrten
+// selbst über die Flights-IPC - funktioniert damit auch offline.
+
+import type { MarkerDrop, TrackPoint } from '../../shared/types'
+import type { FlightDataSnapshot } from '../stores/flightStore'
+
+const CHAMP_CACHE_KEY = 'nta-championships-cache'
+
+export interface StoredMarkersResult {
+  markers: MarkerDrop[]
+  flights: number  // Anzahl durchsuchter Fahrten
+}
+
+export interface StoredTracksResult {
+  tracks: TrackPoint[][]
+  flights: number  // Anzahl durchsuchter Fahrten
+}
+
+function cachedChampionshipIds(): string[] {
+  try {
+    const raw = localStorage.getItem(CHAMP_CACHE_KEY)
+    if (!raw) return []
+    const champs = JSON.parse(raw) as Array<{ id?: string }>
+    return champs.map(c => c.id).filter((id): id is string => typeof id === 'string')
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Alle gespeicherten Fahrten (ohne APT-Profile) nacheinander laden.
+ * Fahrten die nicht gelesen werden können werden übersprungen.
+ */
+async function forEachStoredFlight(visit: (data: Partial<FlightDataSnapshot>) => void): Promise<void> {
+  if (!window.ntaAPI?.flights?.list || !window.ntaAPI.flights.load) return
+
+  for (const championshipId of cachedChampionshipIds()) {
+    let flights: Awaited<ReturnType<typeof window.ntaAPI.flights.list>>
+    try {
+      flights = await window.ntaAPI.flights.list(championshipId)
+    } catch (err) {
+      console.warn('[StoredFlights] Fahrten nicht lesbar:', championshipId, err)
+      continue
+    }
+
+    for (const flight of flights) {
+      if (flight.isAptProfile) continue
+      try {
+        const loaded = await window.ntaAPI.flights.load({ championshipId, flightId: flight.id })
+        if (!loaded.success || !loaded.data) continue
+        visit(loaded.data as Partial<FlightDataSnapshot>)
+      } catch (err) {
+        console.warn('[StoredFlights] Fahrt nicht lesbar:', flight.id, err)
+      }
+    }
+  }
+}
+
+/** Alle Marker mit nachgetragenem Aufschlag aus gespeicherten Fahrten laden */
+export async function loadStoredMarkers(): Promise<StoredMarkersResult> {
+  const result: StoredMarkersResult = { markers: [], flights: 0 }
+  await forEachStoredFlight(data => {
+    if (!Array.isArray(data.markers)) return
+    result.flights++
+    for (const m of data.markers) {
+      if (m.dropContext && m.impactPosition) result.markers.push(m)
+    }
+  })
+  return result
+}
+
+/**
+ * Tracks gespeicherter Fahrten laden.
+ * Mit balloonId nur Fahrten dieses Ballons (ältere Fahrten ohne Ballon-ID zählen mit).
+ */
+export async function loadStoredTracks(balloonId?: string): Promise<StoredTracksResult> {
+  const result: StoredTracksResult = { tracks: [], flights: 0 }
+  const wanted = balloonId?.trim()
+  await forEachStoredFlight(data => {
+    if (!Array.isArray(data.track) || data.track.length === 0) return
+    if (wanted && data.balloonId?.trim() && data.balloonId.trim() !== wanted) return
+    result.flights++
+    result.tracks.push(data.track)
+  })
+  return result
+}
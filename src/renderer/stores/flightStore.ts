@@ -4,6 +4,10 @@ import { useAuthStore } from './authStore'
 import type { LandRunResult, LandRunLimits } from '../utils/navigation'
 import type { WnvResult, WnvGuidance } from '../utils/windNavigation'
 import type { DonutResult } from '../utils/donutCalculator'
+import type { ReachabilityGrid } from '../utils/reachability'
+import type { ReplaySource } from '../utils/flightReplay'
+import type { LandingEnsemble } from '../utils/landingEnsemble'
+import type { WindField } from '../utils/windField'
 
 // --- IndexedDB Storage Adapter ---
 // Kein Größenlimit (vs. localStorage ~5-10MB), asynchrones Lesen/Schreiben
@@ -179,12 +183,17 @@ import type {
   ScoringArea,
   ImportedTrajectory,
   CompetitionMap,
-  ProhibitedZone
+  ProhibitedZone,
+  MarkerCalibration
 } from '../../shared/types'
 import { WindSource, WindSourceFilter, GPSFix, GasBottleState } from '../../shared/types'
 import { useTeamStore } from './teamStore'
 import { saveTrackData, loadTrackData, clearTrackData } from '../utils/trackDb'
-import { calculateMarkerDrop, calculateDropAngle, calculateDistance as calcDist, calculateBearing as calcBrg } from '../utils/navigation'
+import { calculateMarkerDrop, calculateDropAngle, calculateDistance as calcDist, calculateBearing as calcBrg, DEFAULT_MARKER_FALL } from '../utils/navigation'
+import { findMarkerCalibration, calibrationPilotKey, DEFAULT_MARKER_TYPE } from '../utils/markerCalibration'
+import { getReplayFrame } from '../utils/flightReplay'
+import { modeledLitersUsed, gasModelParams } from '../utils/gasEndurance'
+import type { IGCVerification } from '../utils/igcSignature'
 
 // HDG Kurs-Linie (von Klick-Position in Kurs-Richtung)
 export interface HdgCourseLine {
@@ -216,6 +225,7 @@ export interface FlightDataSnapshot {
   windLayers: WindLayer[]
   scoringAreas: ScoringArea[]
   importedTrajectories: ImportedTrajectory[]
+  balloonId?: string  // Für das Ballon-Flugverhalten (Tracks pro Ballon)
   savedAt: string
 }
 
@@ -235,6 +245,7 @@ interface FlightState {
 
   // Flug
   flight: Flight | null
+  importedFlightSignature: IGCVerification | null  // Signaturstatus der importierten IGC-Fahrt
   isRecording: boolean
   track: TrackPoint[]
   trackLine: [number, number][] // Durchgehende Linie: jeder GPS-Punkt [lat, lon]
@@ -254,6 +265,7 @@ interface FlightState {
   windLayers: WindLayer[]
   selectedWindLayer: number | null  // Ausgewählte Windschicht (Höhe)
   windSourceFilter: WindSourceFilter  // Filter fuer Berechnungen (all/forecast/measured/sounding)
+  windField: WindField | null  // Vorhersage über mehrere Stunden/Orte (Wind ändert sich im Flug)
 
   // Waypoints
   waypoints: Waypoint[]
@@ -277,6 +289,9 @@ interface FlightState {
   windImportPickPosition: boolean  // Modus: Auf Karte klicken um Position zu wählen
   windImportPosition: { lat: number; lon: number } | null  // Gewählte Position
 
+  // Tatsächlichen Marker-Aufschlag per Karten-Klick nachtragen
+  markerImpactPickId: string | null  // Marker, dessen Aufschlag gerade gewählt wird
+
   // Scoring Areas (unabhängig von Tasks)
   scoringAreas: ScoringArea[]
 
@@ -317,6 +332,9 @@ interface FlightState {
   landingSinkRate: number  // m/s (positiv)
   showLandingPrediction: boolean
   landingPredictionLoading: boolean
+  // Ensemble-Landeprognose (gestörte Abstiege -> P50/P90-Landefläche)
+  landingEnsembleEnabled: boolean
+  landingEnsemble: LandingEnsemble | null
   showWindRose: boolean
 
   // Drop Calculator (Klinometer)
@@ -333,6 +351,8 @@ interface FlightState {
     dropNow: boolean                 // DROP! - nächster Punkt zum Ziel erreicht
     minDistanceSeen: number | null   // Kleinste gesehene Distanz seit MMA-Eintritt
     mmaRadius: number | null         // Aktueller MMA-Radius vom Task
+    markerType: string               // Markertyp für Kalibrierung und neue Drops
+    calibration: MarkerCalibration | null  // Verwendete Kalibrierung (null = Standardmodell)
   }
 
   // CPA-Marker: Nächster Punkt am Ziel auf der aktuellen Flugbahn (basierend auf Heading)
@@ -420,10 +440,13 @@ interface FlightState {
   // Donut Tool
   donutResult: DonutResult | null
 
+  // Erreichbarkeits-Karte (Mindestzeit pro Bodenzelle, nicht persistiert)
+  reachability: ReachabilityGrid | null
+
   // Distanzkreis um Piloten-Position (Meter, null = aus)
   rangeCircleRadius: number | null
 
-  activeToolPanel: 'marker' | 'fly' | 'lnd' | 'lrn' | 'apt' | 'ang' | 'wnv' | 'donut' | null
+  activeToolPanel: 'marker' | 'fly' | 'lnd' | 'lrn' | 'apt' | 'ang' | 'wnv' | 'donut' | 'rch' | null
 
   // Maus-Position auf der Karte (für StatusBar Anzeige)
   mousePosition: { lat: number; lon: number } | null
@@ -462,6 +485,19 @@ interface FlightState {
     followWind: boolean  // Folgt aufgezeichneten Wind-Layern (Kurs+Speed automatisch)
   }
 
+  // Flug-Replay (Nachbesprechung) - Live-Daten werden solange zurückgehalten
+  replay: {
+    active: boolean
+    name: string
+    source: ReplaySource | null
+    startTime: number   // ms
+    endTime: number     // ms
+    currentTime: number // ms
+    playing: boolean
+    speed: number       // Multiplikator (1x, 2x, ...)
+    liveState: Pick<FlightState, 'flight' | 'track' | 'trackLine' | 'markers' | 'declarations' | 'windLayers'> | null
+  }
+
   // Gas-Tracker (Runtime, nicht persistiert)
   gasBottleState: GasBottleState
 
@@ -472,11 +508,14 @@ interface FlightState {
   // Landeprognose Actions
   setLandingSinkRate: (rate: number) => void
   setShowLandingPrediction: (show: boolean) => void
+  setLandingEnsembleEnabled: (enabled: boolean) => void
   setShowWindRose: (show: boolean) => void
   updateLandingPrediction: () => void
 
   // Drop Calculator Actions
   setDropCalculatorActive: (active: boolean) => void
+  setDropCalculatorMarkerType: (markerType: string) => void
+  setMarkerCalibrations: (calibrations: MarkerCalibration[]) => void
   updateDropCalculator: () => void
 
   setCpaMarkerActive: (active: boolean) => void
@@ -495,6 +534,7 @@ interface FlightState {
   setWnvDeclared: (decl: FlightState['wnvDeclared']) => void
   setWnvGuidance: (guidance: WnvGuidance | null) => void
   setDonutResult: (result: DonutResult | null) => void
+  setReachability: (grid: ReachabilityGrid | null) => void
   setRangeCircleRadius: (radius: number | null) => void
   setActiveToolPanel: (panel: FlightState['activeToolPanel']) => void
   setMousePosition: (position: { lat: number; lon: number } | null) => void
@@ -512,6 +552,13 @@ interface FlightState {
   startGpsSimulation: () => void
   stopGpsSimulation: () => void
 
+  // Flug-Replay Actions
+  startReplay: (source: ReplaySource, name: string) => boolean
+  stopReplay: () => void
+  setReplayTime: (time: number) => void
+  setReplayPlaying: (playing: boolean) => void
+  setReplaySpeed: (speed: number) => void
+
   setConnectionStatus: (status: ConnectionStatus) => void
   setConnectionError: (error: string | null) => void
   setGPSData: (data: GPSData | null) => void
@@ -533,6 +580,8 @@ interface FlightState {
   dropMarker: () => MarkerDrop | null
   removeMarker: (markerId: string) => void
   clearAllMarkers: () => void
+  setMarkerImpactPick: (markerId: string | null) => void
+  setMarkerImpact: (markerId: string, pos: { lat: number; lon: number } | null) => void
   declareGoal: (goal: Goal) => GoalDeclaration | null
 
   addWindLayer: (layer: WindLayer) => void
@@ -543,6 +592,7 @@ interface FlightState {
   clearWindLayers: () => void
   setSelectedWindLayer: (altitude: number | null) => void
   setWindSourceFilter: (filter: WindSourceFilter) => void
+  setWindField: (field: WindField | null) => void
 
   addWaypoint: (waypoint: Waypoint) => void
   removeWaypoint: (id: string) => void
@@ -613,7 +663,9 @@ interface FlightState {
 
   // Championship Actions
   getFlightSnapshot: () => FlightDataSnapshot
+  getCurrentFlight: () => Flight | null  // Aktuelle Fahrt (live oder importiert) für Export und Auswertung
   loadFlightData: (data: FlightDataSnapshot) => void
+  loadImportedFlight: (flight: Flight, signature?: IGCVerification) => boolean  // IGC/GPX Import zur Auswertung, false während Aufzeichnung/Replay
   clearFlightData: () => void
 
   // Gas-Tracker Actions
@@ -783,6 +835,7 @@ export const useFlightStore = create<FlightState>()(
       groundElevation: 0,
 
       flight: null,
+      importedFlightSignature: null,
       isRecording: false,
       track: [],
       trackLine: [],
@@ -799,6 +852,7 @@ export const useFlightStore = create<FlightState>()(
       windLayers: [],
       selectedWindLayer: null,
       windSourceFilter: 'all' as WindSourceFilter,
+      windField: null,
 
       waypoints: [],
 
@@ -820,6 +874,9 @@ export const useFlightStore = create<FlightState>()(
       windImportPickPosition: false,
       windImportPosition: null,
 
+      // Marker-Aufschlag nachtragen
+      markerImpactPickId: null,
+
       // Scoring Areas
       scoringAreas: [],
 
@@ -854,6 +911,8 @@ export const useFlightStore = create<FlightState>()(
       landingSinkRate: 2.0,
       showLandingPrediction: false,
       landingPredictionLoading: false,
+      landingEnsembleEnabled: false,
+      landingEnsemble: null,
       showWindRose: false,
 
       // Drop Calculator
@@ -869,7 +928,9 @@ export const useFlightStore = create<FlightState>()(
         insideMma: false,
         dropNow: false,
         minDistanceSeen: null,
-        mmaRadius: null
+        mmaRadius: null,
+        markerType: DEFAULT_MARKER_TYPE,
+        calibration: null
       },
 
       // CPA-Marker
@@ -913,6 +974,9 @@ export const useFlightStore = create<FlightState>()(
       // Donut Tool
       donutResult: null,
 
+      // Erreichbarkeit
+      reachability: null,
+
       // Distanzkreis
       rangeCircleRadius: null,
 
@@ -949,6 +1013,19 @@ export const useFlightStore = create<FlightState>()(
         followWind: false
       },
 
+      // Flug-Replay
+      replay: {
+        active: false,
+        name: '',
+        source: null,
+        startTime: 0,
+        endTime: 0,
+        currentTime: 0,
+        playing: false,
+        speed: 1,
+        liveState: null
+      },
+
       // Gas-Tracker Runtime State
       gasBottleState: {
         activeBottleId: null,
@@ -980,7 +1057,16 @@ export const useFlightStore = create<FlightState>()(
       lpLastSinkRate = s.landingSinkRate
       get().updateLandingPrediction()
     } else {
-      set({ landingPrediction: null })
+      set({ landingPrediction: null, landingEnsemble: null })
+    }
+  },
+  setLandingEnsembleEnabled: (enabled) => {
+    set({ landingEnsembleEnabled: enabled })
+    if (enabled) {
+      scheduleLandingEnsemble()
+    } else {
+      lpEnsembleVersion++
+      set({ landingEnsemble: null })
     }
   },
   setShowWindRose: (show) => set({ showWindRose: show }),
@@ -994,6 +1080,9 @@ export const useFlightStore = create<FlightState>()(
     const altitude = state.baroData?.pressureAltitude || state.gpsData.altitude || 0
     if (altitude <= 0) return
 
+    // Ensemble läuft gedrosselt nebenher (viele Abstiege, nicht bei jedem Update)
+    if (state.landingEnsembleEnabled) scheduleLandingEnsemble()
+
     // Versions-Counter: Verhindert dass alte async-Ergebnisse neuere überschreiben
     const myVersion = ++lpVersion
 
@@ -1001,6 +1090,7 @@ export const useFlightStore = create<FlightState>()(
 
     try {
       const { calculateLandingPrediction } = await import('../utils/navigation')
+      const { createWindSampler, windFieldForFilter } = await import('../utils/windField')
 
       // Race-Check: Wurde zwischenzeitlich eine neuere Berechnung gestartet?
       if (lpVersion !== myVersion) return
@@ -1018,7 +1108,11 @@ export const useFlightStore = create<FlightState>()(
         altitude,
         state.landingSinkRate,
         filteredLayers,
-        getElev
+        getElev,
+        createWindSampler(filteredLayers, windFieldForFilter(state.windField, state.windSourceFilter), {
+          lat: state.gpsData.latitude,
+          lon: state.gpsData.longitude
+        })
       )
 
       // Race-Check nach der Berechnung
@@ -1072,12 +1166,30 @@ export const useFlightStore = create<FlightState>()(
           insideMma: false,
           dropNow: false,
           minDistanceSeen: null,
-          mmaRadius: null
+          mmaRadius: null,
+          calibration: null
         }
       }))
     }
   },
 
+  setDropCalculatorMarkerType: (markerType) => {
+    set((s) => ({ dropCalculator: { ...s.dropCalculator, markerType: markerType.trim() || DEFAULT_MARKER_TYPE } }))
+  },
+
+  // Kalibrierung des aktuellen Piloten ersetzen (leere Liste = zurück zum Standardmodell)
+  setMarkerCalibrations: (calibrations) => {
+    const settings = get().settings
+    const pilot = calibrationPilotKey(settings.pilotName)
+    const all = { ...(settings.markerCalibrations || {}) }
+    if (calibrations.length > 0) {
+      all[pilot] = calibrations
+    } else {
+      delete all[pilot]
+    }
+    get().updateSettings({ markerCalibrations: all })
+  },
+
   updateDropCalculator: async () => {
     if (dcRunning) {
       console.log('[DropCalc] SKIP: vorherige Berechnung läuft noch')
@@ -1105,6 +1217,9 @@ export const useFlightStore = create<FlightState>()(
     const t0 = performance.now()
     console.log(`[DropCalc] START: alt=${Math.round(altitude)}m, speed=${state.gpsData.speed}km/h, layers=${dcFilteredLayers.length}/${state.windLayers.length} (filter=${state.windSourceFilter}), sinkRate=${state.dropCalculator.markerSinkRate}`)
 
+    // Gelernte Fallparameter des Piloten für den gewählten Markertyp
+    const calibration = findMarkerCalibration(state.settings, state.dropCalculator.markerType)
+
     const getElev = async (lat: number, lon: number): Promise<number | null> => {
       if (typeof window !== 'undefined' && window.ntaAPI?.elevation) {
         return window.ntaAPI.elevation.getElevation(lat, lon)
@@ -1121,7 +1236,8 @@ export const useFlightStore = create<FlightState>()(
         dcFilteredLayers,
         getElev,
         state.gpsData.speed,
-        state.gpsData.heading
+        state.gpsData.heading,
+        calibration ?? DEFAULT_MARKER_FALL
       )
 
       const dt = Math.round(performance.now() - t0)
@@ -1133,7 +1249,8 @@ export const useFlightStore = create<FlightState>()(
             ...s.dropCalculator,
             impactPoint: null, distanceToGoal: null, bearingToGoal: null,
             timeToImpact: null, path: [], groundElevation: null,
-            insideMma: false, dropNow: false, minDistanceSeen: null, mmaRadius: null
+            insideMma: false, dropNow: false, minDistanceSeen: null, mmaRadius: null,
+            calibration
           }
         }))
         dcRunning = false
@@ -1200,7 +1317,8 @@ export const useFlightStore = create<FlightState>()(
           insideMma,
           dropNow,
           minDistanceSeen,
-          mmaRadius
+          mmaRadius,
+          calibration
         }
       }))
       dcRunning = false
@@ -1227,6 +1345,7 @@ export const useFlightStore = create<FlightState>()(
   setWnvDeclared: (decl) => set({ wnvDeclared: decl }),
   setWnvGuidance: (guidance) => set({ wnvGuidance: guidance }),
   setDonutResult: (result) => set({ donutResult: result }),
+  setReachability: (grid) => set({ reachability: grid }),
   setRangeCircleRadius: (radius) => set({ rangeCircleRadius: radius }),
   setActiveToolPanel: (panel) => set({ activeToolPanel: panel }),
   setMousePosition: (position) => set({ mousePosition: position }),
@@ -1303,6 +1422,101 @@ export const useFlightStore = create<FlightState>()(
     }))
   },
 
+  // Flug-Replay Actions
+  startReplay: (source, name) => {
+    const state = get()
+    // Während einer laufenden Aufzeichnung kein Replay - der Live-Track würde überschrieben
+    if (state.isRecording || source.track.length < 2) return false
+
+    const startTime = source.track[0].timestamp.getTime()
+    const endTime = source.track[source.track.length - 1].timestamp.getTime()
+
+    set({
+      replay: {
+        active: true,
+        name,
+        source,
+        startTime,
+        endTime,
+        currentTime: startTime,
+        playing: false,
+        speed: state.replay.speed,
+        // Beim ersten Start Live-Daten sichern, bei Quellwechsel die ursprünglichen behalten
+        liveState: state.replay.liveState ?? {
+          flight: state.flight,
+          track: state.track,
+          trackLine: state.trackLine,
+          markers: state.markers,
+          declarations: state.declarations,
+          windLayers: state.windLayers
+        }
+      }
+    })
+    get().setReplayTime(startTime)
+    return true
+  },
+
+  stopReplay: () => {
+    const { liveState } = get().replay
+    set({
+      ...(liveState || {}),
+      gpsData: null,
+      smoothedGpsData: null,
+      baroData: null,
+      replay: {
+        active: false,
+        name: '',
+        source: null,
+        startTime: 0,
+        endTime: 0,
+        currentTime: 0,
+        playing: false,
+        speed: get().replay.speed,
+        liveState: null
+      }
+    })
+  },
+
+  setReplayTime: (time) => {
+    const state = get()
+    const { replay } = state
+    if (!replay.active || !replay.source) return
+
+    const currentTime = Math.max(replay.startTime, Math.min(replay.endTime, time))
+    const frame = getReplayFrame(replay.source, currentTime, state.settings)
+    if (!frame) return
+
+    set({
+      gpsData: frame.gpsData,
+      smoothedGpsData: frame.gpsData,
+      baroData: frame.baroData,
+      track: frame.track,
+      trackLine: frame.trackLine,
+      markers: frame.markers,
+      declarations: frame.declarations,
+      windLayers: frame.windLayers,
+      replay: {
+        ...replay,
+        currentTime,
+        // Am Ende automatisch anhalten
+        playing: replay.playing && currentTime < replay.endTime
+      }
+    })
+  },
+
+  setReplayPlaying: (playing) => set((s) => ({
+    replay: {
+      ...s.replay,
+      playing,
+      // Play am Ende startet von vorne
+      currentTime: playing && s.replay.currentTime >= s.replay.endTime ? s.replay.startTime : s.replay.currentTime
+    }
+  })),
+
+  setReplaySpeed: (speed) => set((s) => ({
+    replay: { ...s.replay, speed }
+  })),
+
   // Connection Actions
   setConnectionStatus: (status) => set({
     connectionStatus: status,
@@ -1313,6 +1527,9 @@ export const useFlightStore = create<FlightState>()(
 
   // GPS/Baro Actions
   setGPSData: (data) => {
+    // Während des Replays steuert die Timeline die Position, Live-Daten werden verworfen
+    if (get().replay.active) return
+
     if (!data) {
       set({ gpsData: null, smoothedGpsData: null })
       return
@@ -1322,6 +1539,7 @@ export const useFlightStore = create<FlightState>()(
     // Die Glättung erfolgt im MapView über "Render In The Past" (60fps Interpolation
     // zwischen bekannten GPS-Positionen). Doppelte Glättung (Sensor + Store) verursacht
     // 300-400ms Verzögerung und macht den Marker träge.
+    // Position/Speed kommen bereits Kalman-gefiltert aus dem BluetoothManager (mit 1σ).
     // smoothedGpsData = gpsData (1:1, keine Modifikation)
     set({ gpsData: data, smoothedGpsData: data })
 
@@ -1624,6 +1842,8 @@ export const useFlightStore = create<FlightState>()(
   },
 
   setBaroData: (data) => {
+    if (get().replay.active) return
+
     if (!data) {
       set({ baroData: null })
       return
@@ -1654,6 +1874,7 @@ export const useFlightStore = create<FlightState>()(
   // Recording Actions
   startRecording: () => {
     const state = get()
+    if (state.replay.active) return
     const flight: Flight = {
       id: crypto.randomUUID(),
       startTime: new Date(),
@@ -1666,6 +1887,7 @@ export const useFlightStore = create<FlightState>()(
     clearTrackData()
     set({
       flight,
+      importedFlightSignature: null,
       isRecording: true,
       track: [],
       trackLine: [],
@@ -1819,6 +2041,19 @@ export const useFlightStore = create<FlightState>()(
       }
     }
 
+    // Abwurfbedingungen festhalten - damit lässt sich der Fall später nachrechnen
+    // und mit dem tatsächlichen Aufschlag vergleichen (Marker-Kalibrierung)
+    const dropAltitude = state.baroData?.pressureAltitude || state.gpsData.altitude
+    const dropContext: MarkerDrop['dropContext'] = {
+      pilot: calibrationPilotKey(state.settings.pilotName),
+      altitude: dropAltitude,
+      groundElevation: state.groundElevation || Math.max(0, dropAltitude - state.agl),
+      speedKmh: state.gpsData.speed || 0,
+      heading: state.gpsData.heading || 0,
+      sinkRate: state.dropCalculator.markerSinkRate,
+      windLayers: getFilteredWindLayers(state).map(l => ({ altitude: l.altitude, direction: l.direction, speed: l.speed }))
+    }
+
     const marker: MarkerDrop = {
       id: crypto.randomUUID(),
       number: state.markers.length + 1,
@@ -1828,10 +2063,12 @@ export const useFlightStore = create<FlightState>()(
         altitude: state.gpsData.altitude,
         timestamp: new Date()
       },
-      altitude: state.baroData?.pressureAltitude || state.gpsData.altitude,
+      altitude: dropAltitude,
       timestamp: new Date(),
       taskId: state.activeTask?.id,
-      clinoAngle
+      clinoAngle,
+      markerType: state.dropCalculator.markerType,
+      dropContext
     }
 
     set((s) => ({ markers: [...s.markers, marker] }))
@@ -1857,7 +2094,19 @@ export const useFlightStore = create<FlightState>()(
 
   // Alle Marker löschen
   clearAllMarkers: () => {
-    set({ markers: [] })
+    set({ markers: [], markerImpactPickId: null })
+  },
+
+  setMarkerImpactPick: (markerId) => set({ markerImpactPickId: markerId }),
+
+  // Tatsächlichen Aufschlagpunkt nachtragen (null = entfernen)
+  setMarkerImpact: (markerId, pos) => {
+    set((s) => ({
+      markers: s.markers.map(m => m.id === markerId
+        ? { ...m, impactPosition: pos ? { latitude: pos.lat, longitude: pos.lon } : undefined }
+        : m),
+      markerImpactPickId: null // Pick-Modus beenden nach Auswahl
+    }))
   },
 
   // Goal Declaration
@@ -1922,6 +2171,14 @@ export const useFlightStore = create<FlightState>()(
 
   setSelectedWindLayer: (altitude) => set({ selectedWindLayer: altitude }),
 
+  setWindField: (field) => {
+    set({ windField: field })
+    const state = get()
+    if (state.showLandingPrediction) {
+      state.updateLandingPrediction()
+    }
+  },
+
   setWindSourceFilter: (filter) => {
     set({ windSourceFilter: filter })
     // Berechnungen mit neuem Filter neu triggern
@@ -2313,10 +2570,30 @@ export const useFlightStore = create<FlightState>()(
           windLayers: state.windLayers,
           scoringAreas: state.scoringAreas,
           importedTrajectories: state.importedTrajectories,
+          balloonId: state.settings.balloonId,
           savedAt: new Date().toISOString()
         }
       },
 
+      getCurrentFlight: () => {
+        const state = get()
+        if (state.track.length === 0) return null
+        // Track/Marker/Deklarationen stehen während der Aufzeichnung nur im Store, nicht in flight
+        return {
+          id: state.flight?.id ?? crypto.randomUUID(),
+          startTime: state.flight?.startTime ?? state.track[0].timestamp,
+          endTime: state.flight?.endTime ?? state.track[state.track.length - 1].timestamp,
+          pilot: state.flight?.pilot || state.settings.pilotName,
+          balloon: state.flight?.balloon,
+          competition: state.flight?.competition,
+          notes: state.flight?.notes,
+          track: state.track,
+          markers: state.markers,
+          declarations: state.declarations,
+          tasks: state.tasks
+        }
+      },
+
       loadFlightData: (data) => {
         const d = (v: any): Date => v instanceof Date ? v : new Date(v)
 
@@ -2377,11 +2654,34 @@ export const useFlightStore = create<FlightState>()(
           windLayers,
           scoringAreas: data.scoringAreas || [],
           importedTrajectories: data.importedTrajectories || [],
+          importedFlightSignature: null,
           activeTask: null,
           selectedGoal: null
         })
       },
 
+      // Importierte Fahrt (IGC/GPX) anzeigen - Tasks und Einstellungen bleiben erhalten
+      loadImportedFlight: (flight, signature) => {
+        const state = get()
+        // Wie beim Replay: eine laufende Aufzeichnung würde überschrieben (und per trackDb gespeichert)
+        if (state.isRecording || state.replay.active) return false
+        set({
+          flight,
+          importedFlightSignature: signature ?? null,
+          track: flight.track,
+          trackLine: flight.track.map(tp => [tp.position.latitude, tp.position.longitude] as [number, number]),
+          markers: flight.markers,
+          declarations: flight.declarations,
+          logPoints: [],
+          activeTask: null,
+          selectedGoal: null,
+          isRecording: false,
+          lastRecordedTrackPoint: null,
+          recordingStartTime: null
+        })
+        return true
+      },
+
       clearFlightData: () => {
         set({
           tasks: [],
@@ -2398,6 +2698,7 @@ export const useFlightStore = create<FlightState>()(
           activeTask: null,
           selectedGoal: null,
           flight: null,
+          importedFlightSignature: null,
           isRecording: false,
           lastRecordedTrackPoint: null,
           recordingStartTime: null
@@ -2414,9 +2715,12 @@ export const useFlightStore = create<FlightState>()(
         if (gasState.activeBottleId && gasState.activeSince) {
           const activeBottle = state.settings.gasBottles?.find(b => b.id === gasState.activeBottleId)
           if (activeBottle) {
-            const elapsedMs = Date.now() - new Date(gasState.activeSince).getTime()
-            const elapsedHours = elapsedMs / (1000 * 60 * 60)
-            const litersUsed = Math.round(activeBottle.consumptionPerHour * elapsedHours * 100) / 100
+            // Verbrauch aus dem Flugverhalten (Steigen, Brennstöße, Temperatur)
+            const used = modeledLitersUsed(
+              state.track, new Date(gasState.activeSince).getTime(), Date.now(),
+              activeBottle.consumptionPerHour, gasModelParams(state.settings)
+            )
+            const litersUsed = Math.round(used * 100) / 100
             gasState.usedBottles = [...gasState.usedBottles, {
               bottleId: gasState.activeBottleId,
               startTime: gasState.activeSince,
@@ -2439,9 +2743,12 @@ export const useFlightStore = create<FlightState>()(
         if (gasState.activeBottleId && gasState.activeSince) {
           const activeBottle = state.settings.gasBottles?.find(b => b.id === gasState.activeBottleId)
           if (activeBottle) {
-            const elapsedMs = Date.now() - new Date(gasState.activeSince).getTime()
-            const elapsedHours = elapsedMs / (1000 * 60 * 60)
-            const litersUsed = Math.round(activeBottle.consumptionPerHour * elapsedHours * 100) / 100
+            // Verbrauch aus dem Flugverhalten (Steigen, Brennstöße, Temperatur)
+            const used = modeledLitersUsed(
+              state.track, new Date(gasState.activeSince).getTime(), Date.now(),
+              activeBottle.consumptionPerHour, gasModelParams(state.settings)
+            )
+            const litersUsed = Math.round(used * 100) / 100
             gasState.usedBottles = [...gasState.usedBottles, {
               bottleId: gasState.activeBottleId,
               startTime: gasState.activeSince,
@@ -2483,44 +2790,52 @@ export const useFlightStore = create<FlightState>()(
     {
       name: 'nta-flight-storage',
       storage: createJSONStorage(() => idbStorage),
-      partialize: (state) => ({
-        // Nur diese Felder werden persistiert
-        tasks: state.tasks,
-        waypoints: state.waypoints,
-        settings: state.settings,
-        windLines: state.windLines,
-        savedCompetitionMaps: state.savedCompetitionMaps,
-        activeCompetitionMap: state.activeCompetitionMap,
-        // PZ werden lokal gespeichert für Offline-Nutzung
-        prohibitedZones: state.prohibitedZones,
-        showProhibitedZones: state.showProhibitedZones,
-        // Aktive Karten (OZI/Championship) persistieren
-        activeMaps: state.activeMaps,
-        // Scoring Areas persistieren
-        scoringAreas: state.scoringAreas,
-        // HDG Course Lines persistieren
-        hdgCourseLines: state.hdgCourseLines,
-        // Importierte Trajektorien persistieren
-        importedTrajectories: state.importedTrajectories,
-        // Windschichten persistieren
-        windLayers: state.windLayers,
-        // Wind-Quellen-Filter persistieren
-        windSourceFilter: state.windSourceFilter,
-        // Landeprognose Sinkrate persistieren
-        landingSinkRate: state.landingSinkRate,
-        // Drop Calculator Settings persistieren
-        dropCalculatorMarkerSinkRate: state.dropCalculator.markerSinkRate,
-        // Aktive Meisterschaft persistieren
-        activeChampionship: state.activeChampionship,
-        // Flugaufzeichnung persistieren (Track/TrackLine in IndexedDB, nicht localStorage)
-        flight: state.flight,
-        markers: state.markers,
-        declarations: state.declarations,
-        logPoints: state.logPoints,
-        // Letzte Kartenposition persistieren
-        lastMapCenter: state.lastMapCenter,
-        lastMapZoom: state.lastMapZoom,
-      }),
+      partialize: (state) => {
+        // Während des Replays die gesicherten Live-Daten persistieren, nicht den Replay-Zustand
+        const live = state.replay.liveState ?? state
+        return {
+          // Nur diese Felder werden persistiert
+          tasks: state.tasks,
+          waypoints: state.waypoints,
+          settings: state.settings,
+          windLines: state.windLines,
+          savedCompetitionMaps: state.savedCompetitionMaps,
+          activeCompetitionMap: state.activeCompetitionMap,
+          // PZ werden lokal gespeichert für Offline-Nutzung
+          prohibitedZones: state.prohibitedZones,
+          showProhibitedZones: state.showProhibitedZones,
+          // Aktive Karten (OZI/Championship) persistieren
+          activeMaps: state.activeMaps,
+          // Scoring Areas persistieren
+          scoringAreas: state.scoringAreas,
+          // HDG Course Lines persistieren
+          hdgCourseLines: state.hdgCourseLines,
+          // Importierte Trajektorien persistieren
+          importedTrajectories: state.importedTrajectories,
+          // Windschichten persistieren
+          windLayers: live.windLayers,
+          // Wind-Quellen-Filter persistieren
+          windSourceFilter: state.windSourceFilter,
+          // Windfeld persistieren (Vorhersage gilt für den ganzen Flug)
+          windField: state.windField,
+          // Landeprognose Sinkrate persistieren
+          landingSinkRate: state.landingSinkRate,
+          landingEnsembleEnabled: state.landingEnsembleEnabled,
+          // Drop Calculator Settings persistieren
+          dropCalculatorMarkerSinkRate: state.dropCalculator.markerSinkRate,
+          dropCalculatorMarkerType: state.dropCalculator.markerType,
+          // Aktive Meisterschaft persistieren
+          activeChampionship: state.activeChampionship,
+          // Flugaufzeichnung persistieren (Track/TrackLine in IndexedDB, nicht localStorage)
+          flight: live.flight,
+          markers: live.markers,
+          declarations: live.declarations,
+          logPoints: state.logPoints,
+          // Letzte Kartenposition persistieren
+          lastMapCenter: state.lastMapCenter,
+          lastMapZoom: state.lastMapZoom,
+        }
+      },
       // Merge: Settings beim Laden validieren und korrigieren
       merge: (persistedState: any, currentState: FlightState) => {
         const merged = { ...currentState, ...persistedState }
@@ -2558,6 +2873,9 @@ export const useFlightStore = create<FlightState>()(
         if (persistedState.dropCalculatorMarkerSinkRate) {
           merged.dropCalculator = { ...merged.dropCalculator, markerSinkRate: persistedState.dropCalculatorMarkerSinkRate }
         }
+        if (persistedState.dropCalculatorMarkerType) {
+          merged.dropCalculator = { ...merged.dropCalculator, markerType: persistedState.dropCalculatorMarkerType }
+        }
 
         // Wind-Quellen-Filter wiederherstellen
         if (persistedState.windSourceFilter) {
@@ -2596,6 +2914,58 @@ let lpLastLonBucket: number = 0
 let lpLastFilter: WindSourceFilter = 'all'
 let lpTimer: ReturnType<typeof setTimeout> | null = null
 
+// Ensemble-Landeprognose: höchstens alle 2s, immer mit dem aktuellen Stand
+const LP_ENSEMBLE_THROTTLE_MS = 2000
+let lpEnsembleTimer: ReturnType<typeof setTimeout> | null = null
+let lpEnsembleVersion = 0
+
+function scheduleLandingEnsemble(): void {
+  if (lpEnsembleTimer) return
+  lpEnsembleTimer = setTimeout(() => {
+    lpEnsembleTimer = null
+    runLandingEnsemble()
+  }, LP_ENSEMBLE_THROTTLE_MS)
+}
+
+async function runLandingEnsemble(): Promise<void> {
+  const state = useFlightStore.getState()
+  if (!state.showLandingPrediction || !state.landingEnsembleEnabled || !state.gpsData) return
+  const layers = getFilteredWindLayers(state)
+  const altitude = state.baroData?.pressureAltitude || state.gpsData.altitude || 0
+  if (layers.length === 0 || altitude <= 0) return
+
+  const myVersion = ++lpEnsembleVersion
+  try {
+    const { calculateLandingEnsemble } = await import('../utils/landingEnsemble')
+    const { windFieldForFilter } = await import('../utils/windField')
+    const getElev = async (lat: number, lon: number): Promise<number | null> => {
+      if (typeof window !== 'undefined' && window.ntaAPI?.elevation) {
+        return window.ntaAPI.elevation.getElevation(lat, lon)
+      }
+      return null
+    }
+
+    // Vorhersage und Messung getrennt - das Ensemble mischt beide mit wechselnder Gewichtung
+    const ensemble = await calculateLandingEnsemble(
+      state.gpsData.latitude,
+      state.gpsData.longitude,
+      altitude,
+      state.landingSinkRate,
+      layers.filter(l => l.source !== WindSource.Forecast),
+      layers.filter(l => l.source === WindSource.Forecast),
+      getElev,
+      windFieldForFilter(state.windField, state.windSourceFilter)
+    )
+
+    if (lpEnsembleVersion !== myVersion) return
+    const current = useFlightStore.getState()
+    if (!current.showLandingPrediction || !current.landingEnsembleEnabled) return
+    useFlightStore.setState({ landingEnsemble: ensemble })
+  } catch (e) {
+    console.warn('[LandingEnsemble] Fehler:', e)
+  }
+}
+
 function getWindHash(layers: { altitude: number; direction: number; speed: number }[]): string {
   return layers.map(l => `${l.altitude}:${Math.round(l.direction)}:${Math.round(l.speed * 10)}`).join('|')
 }
@@ -2628,7 +2998,7 @@ useFlightStore.subscribe((state) => {
   const altBucket = Math.round(alt / 10) // 10m Schritte (feiner für stabilere LP)
   const latBucket = state.gpsData ? Math.round(state.gpsData.latitude * 10000) : 0  // ~11m Auflösung
   const lonBucket = state.gpsData ? Math.round(state.gpsData.longitude * 10000) : 0
-  const windHash = getWindHash(getFilteredWindLayers(state))
+  const windHash = getWindHash(getFilteredWindLayers(state)) + (state.windField ? `|${state.windField.fetchedAt}` : '')
   const sinkRate = state.landingSinkRate
   const filter = state.windSourceFilter
 
@@ -2666,6 +3036,7 @@ let dcLastLonBucket: number = 0
 let dcLastSinkRate: number = 0
 let dcLastGoalId: string | null = null
 let dcLastFilter: WindSourceFilter = 'all'
+let dcLastCalibration: MarkerCalibration | null = null
 let dcTimer: ReturnType<typeof setTimeout> | null = null
 let dcRunning = false  // Concurrency-Guard: nur eine Berechnung gleichzeitig
 
@@ -2678,6 +3049,7 @@ useFlightStore.subscribe((state) => {
     dcLastSinkRate = 0
     dcLastGoalId = null
     dcLastFilter = 'all'
+    dcLastCalibration = null
     if (dcTimer) { clearTimeout(dcTimer); dcTimer = null }
     return
   }
@@ -2690,6 +3062,7 @@ useFlightStore.subscribe((state) => {
   const sinkRate = state.dropCalculator.markerSinkRate
   const goalId = state.selectedGoal?.id || null
   const filter = state.windSourceFilter
+  const calibration = findMarkerCalibration(state.settings, state.dropCalculator.markerType)
 
   const changed =
     sinkRate !== dcLastSinkRate ||
@@ -2698,7 +3071,8 @@ useFlightStore.subscribe((state) => {
     latBucket !== dcLastLatBucket ||
     lonBucket !== dcLastLonBucket ||
     goalId !== dcLastGoalId ||
-    filter !== dcLastFilter
+    filter !== dcLastFilter ||
+    calibration !== dcLastCalibration
 
   if (!changed) return
 
@@ -2709,6 +3083,7 @@ useFlightStore.subscribe((state) => {
   dcLastLonBucket = lonBucket
   dcLastGoalId = goalId
   dcLastFilter = filter
+  dcLastCalibration = calibration
 
   // Throttle statt Debounce: Sofort feuern wenn kein Timer läuft,
   // sonst nächsten Aufruf nach 200ms einplanen
@@ -2726,6 +3101,8 @@ let trackSaveTimer: ReturnType<typeof setTimeout> | null = null
 let lastTrackRef: any[] = []
 let lastTrackLineRef: [number, number][] = []
 useFlightStore.subscribe((state) => {
+  // Replay-Track nicht speichern - der Live-Track liegt in replay.liveState
+  if (state.replay.active) return
   if (state.track !== lastTrackRef || state.trackLine !== lastTrackLineRef) {
     lastTrackRef = state.track
     lastTrackLineRef = state.trackLine
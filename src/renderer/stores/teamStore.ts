@@ -7,6 +7,8 @@ import {
 import type {
   TeamSession, TeamMember, TeamPosition, QueuedPosition, WindLayer
 } from '../../shared/types'
+import { LanTeamClient, lanHubUrl, isValidLanAddress, LAN_HUB_DEFAULT_PORT } from '../../shared/lanTeamClient'
+import type { LanMemberInfo, LanWelcome } from '../../shared/lanTeamClient'
 
 // Geteiltes Windprofil von einem Team-Member
 export interface TeamWindProfile {
@@ -50,6 +52,18 @@ export interface TeamMessage {
 
 const QUEUE_KEY = 'nta_team_position_queue'
 const MAX_TRACK_POINTS = 50000
+// Crew-Fahrzeug gilt als veraltet wenn die letzte Position älter ist (Lite-App sendet alle 5-30 s)
+export const CREW_POSITION_STALE_MS = 2 * 60 * 1000
+const LAN_CONNECT_TIMEOUT_MS = 5000
+const LAST_LAN_HUB_KEY = 'nta_last_lan_hub'
+
+// Eigener LAN-Hub (nur wenn diese App das Team hostet)
+export interface LanHubInfo {
+  port: number
+  addresses: string[]
+  liteAvailable: boolean
+  pin: string
+}
 
 interface TeamState {
   // Session
@@ -61,6 +75,10 @@ interface TeamState {
   connectionStatus: TeamConnectionStatus
   error: string | null
 
+  // Transport: Supabase (Internet) oder LAN-Hub (gleiches WLAN/Hotspot, ohne Internet)
+  transport: 'supabase' | 'lan'
+  lanHub: LanHubInfo | null
+
   // Offline Queue
   queue: QueuedPosition[]
 
@@ -90,10 +108,13 @@ interface TeamState {
   // Channel References (für Cleanup)
   _channels: any[] | null
   _windChannel: any | null
+  _lanClient: LanTeamClient | null
 
   // Actions
   createTeam: (callsign: string, teamName?: string) => Promise<string | null>
   joinTeam: (joinCode: string, callsign: string) => Promise<boolean>
+  hostLanTeam: (callsign: string) => Promise<boolean>
+  joinLanTeam: (address: string, pin: string, callsign: string) => Promise<boolean>
   leaveTeam: () => Promise<void>
   sendPosition: (lat: number, lon: number, alt: number, heading: number, speed: number, vario: number) => void
   sendMessage: (message: string, targetMemberId?: string | null) => Promise<boolean>
@@ -148,6 +169,8 @@ export const useTeamStore = create<TeamState>((set, get) => ({
   members: [],
   connectionStatus: TeamConnectionStatus.Disconnected,
   error: null,
+  transport: 'supabase',
+  lanHub: null,
   queue: loadQueue(),
   hiddenMembers: new Set<string>(),
   messages: [],
@@ -156,6 +179,7 @@ export const useTeamStore = create<TeamState>((set, get) => ({
   pendingWindLayer: null,
   _channels: null,
   _windChannel: null,
+  _lanClient: null,
 
   createTeam: async (callsign: string, teamName?: string) => {
     if (!isSupabaseConfigured()) {
@@ -438,12 +462,154 @@ export const useTeamStore = create<TeamState>((set, get) => ({
     }
   },
 
+  hostLanTeam: async (callsign: string) => {
+    const result = await window.ntaAPI?.team?.lanStart(LAN_HUB_DEFAULT_PORT)
+    if (!result?.success || !result.status) {
+      set({ error: result?.error || 'LAN-Hub konnte nicht gestartet werden' })
+      return false
+    }
+
+    const { port, addresses, liteAvailable, pin } = result.status
+    const ok = await get().joinLanTeam(`127.0.0.1:${port}`, pin, callsign)
+    if (!ok) {
+      await window.ntaAPI.team.lanStop()
+      return false
+    }
+
+    // Andere treten über die LAN-Adresse bei, nicht über localhost
+    set(state => ({
+      lanHub: { port, addresses, liteAvailable, pin },
+      session: state.session ? { ...state.session, joinCode: `${addresses[0] || '127.0.0.1'}:${port}` } : null
+    }))
+    return true
+  },
+
+  joinLanTeam: async (address: string, pin: string, callsign: string) => {
+    get().cleanup()
+
+    if (!isValidLanAddress(address)) {
+      set({
+        session: null,
+        myMemberId: null,
+        transport: 'supabase',
+        connectionStatus: TeamConnectionStatus.Error,
+        error: `Ungültige Hub-Adresse: ${address}`
+      })
+      return false
+    }
+
+    const currentUser = useAuthStore.getState().user
+    const sessionId = `lan-${address}`
+
+    const session: TeamSession = {
+      id: sessionId,
+      joinCode: address,
+      name: 'LAN-Team',
+      createdAt: new Date(),
+      expiresAt: new Date(Date.now() + 24 * 3600 * 1000),
+      isActive: true,
+      maxMembers: 20
+    }
+    set({
+      session,
+      myMemberId: null,  // vergibt der Hub im "welcome"
+      members: [],
+      messages: [],
+      transport: 'lan',
+      connectionStatus: TeamConnectionStatus.Connecting,
+      error: null
+    })
+
+    let rejected = false
+    let connectError: string | null = null
+    const welcomed = await new Promise<boolean>(resolve => {
+      const timeout = setTimeout(() => resolve(false), LAN_CONNECT_TIMEOUT_MS)
+      const isMine = (memberId: string) => memberId === useTeamStore.getState().myMemberId
+      const client = new LanTeamClient(lanHubUrl(address), pin, {
+        callsign,
+        color: lanColor(callsign),
+        role: currentUser?.role || 'pilot'
+      }, {
+        onWelcome: (welcome) => {
+          clearTimeout(timeout)
+          set({ myMemberId: welcome.memberId })
+          applyLanWelcome(welcome, sessionId)
+          resolve(true)
+        },
+        onMembers: (members) => applyLanMembers(members, sessionId),
+        onPosition: (pos) => {
+          if (!isMine(pos.memberId)) applyPositionRow(lanPositionRow(pos, sessionId))
+        },
+        onMessage: (msg) => {
+          if (!isMine(msg.memberId)) applyMessageRow(lanMessageRow(msg))
+        },
+        onWindProfile: (profile) => {
+          if (!isMine(profile.memberId)) applyWindProfilePayload(profile)
+        },
+        onRejected: () => {
+          clearTimeout(timeout)
+          rejected = true
+          resolve(false)
+        },
+        onError: (reason) => {
+          clearTimeout(timeout)
+          connectError = reason
+          resolve(false)
+        },
+        onConnectionChange: (connected) => {
+          if (useTeamStore.getState()._lanClient !== client) return
+          set({ connectionStatus: connected ? TeamConnectionStatus.Connected : TeamConnectionStatus.Offline })
+        }
+      })
+      set({ _lanClient: client })
+      client.connect()
+    })
+
+    if (!welcomed) {
+      get().cleanup()
+      set({
+        session: null,
+        myMemberId: null,
+        transport: 'supabase',
+        connectionStatus: TeamConnectionStatus.Error,
+        error: rejected
+          ? 'Falsche Team-PIN'
+          : connectError
+          ? `Ungültige Hub-Adresse: ${address}`
+          : `LAN-Hub ${address} nicht erreichbar. Gleiches WLAN/Hotspot?`
+      })
+      return false
+    }
+
+    localStorage.setItem(LAST_LAN_HUB_KEY, address)
+    set({ connectionStatus: TeamConnectionStatus.Connected })
+    return true
+  },
+
   leaveTeam: async () => {
-    const { session, myMemberId } = get()
+    const { session, myMemberId, transport, lanHub } = get()
 
     // Channels aufräumen
     get().cleanup()
 
+    // LAN: nichts in der DB, eigener Hub wird mit beendet
+    if (transport === 'lan') {
+      if (lanHub) await window.ntaAPI?.team?.lanStop()
+      set({
+        session: null,
+        myMemberId: null,
+        members: [],
+        connectionStatus: TeamConnectionStatus.Disconnected,
+        error: null,
+        transport: 'supabase',
+        lanHub: null,
+        hiddenMembers: new Set<string>(),
+        messages: [],
+        teamWindProfiles: []
+      })
+      return
+    }
+
     // Letztes Team merken für Rejoin
     if (session) {
       localStorage.setItem('nta_last_team', JSON.stringify({
@@ -484,11 +650,21 @@ export const useTeamStore = create<TeamState>((set, get) => ({
   },
 
   sendPosition: (lat, lon, alt, heading, speed, vario) => {
-    const { session, myMemberId } = get()
+    const { session, myMemberId, _lanClient } = get()
     if (!session || !myMemberId) return
 
     const recordedAt = new Date().toISOString()
 
+    // LAN: keine Queue - ohne Hub-Verbindung ist die Position beim Reconnect ohnehin veraltet
+    if (_lanClient) {
+      _lanClient.send({
+        type: 'position',
+        latitude: lat, longitude: lon, altitude: alt,
+        heading, speed, vario, recordedAt
+      })
+      return
+    }
+
     if (!navigator.onLine) {
       // Offline: In Queue speichern
       const queueEntry: QueuedPosition = {
@@ -528,16 +704,29 @@ export const useTeamStore = create<TeamState>((set, get) => ({
   },
 
   sendMessage: async (message: string, targetMemberId?: string | null) => {
-    const { session, myMemberId, members } = get()
+    const { session, myMemberId, members, _lanClient } = get()
     if (!session || !myMemberId) return false
 
     try {
-      const { data, error } = await supabase.from('team_messages').insert({
-        team_id: session.id,
-        member_id: myMemberId,
-        message,
-        target_member_id: targetMemberId || null
-      }).select('id, created_at').single()
+      let data: { id: string; created_at: string } | null = null
+      let error: unknown = null
+      if (_lanClient) {
+        const id = crypto.randomUUID()
+        if (_lanClient.send({ type: 'message', id, message, targetMemberId: targetMemberId || null })) {
+          data = { id, created_at: new Date().toISOString() }
+        } else {
+          error = 'Keine Verbindung zum LAN-Hub'
+        }
+      } else {
+        const result = await supabase.from('team_messages').insert({
+          team_id: session.id,
+          member_id: myMemberId,
+          message,
+          target_member_id: targetMemberId || null
+        }).select('id, created_at').single()
+        data = result.data
+        error = result.error
+      }
 
       if (!error && data) {
         // Eigene Nachricht sofort lokal anzeigen (Realtime ignoriert eigene)
@@ -563,33 +752,35 @@ export const useTeamStore = create<TeamState>((set, get) => ({
   },
 
   shareWindProfile: (windLayers: WindLayer[]) => {
-    const { session, myMemberId, members, _windChannel } = get()
-    if (!session || !myMemberId || !_windChannel) return
+    const { session, myMemberId, members, _windChannel, _lanClient } = get()
+    if (!session || !myMemberId || (!_windChannel && !_lanClient)) return
 
     const me = members.find(m => m.id === myMemberId)
     if (!me) return
 
-    // Windprofil über Broadcast Channel senden
-    _windChannel.send({
-      type: 'broadcast',
-      event: 'wind_profile',
-      payload: {
-        memberId: myMemberId,
-        callsign: me.callsign,
-        color: me.color,
-        windLayers: windLayers.map(w => ({
-          altitude: w.altitude,
-          direction: w.direction,
-          speed: w.speed,
-          timestamp: w.timestamp instanceof Date ? w.timestamp.toISOString() : w.timestamp,
-          source: w.source,
-          isStable: w.isStable,
-          stableSince: w.stableSince instanceof Date ? w.stableSince.toISOString() : w.stableSince,
-          vario: w.vario
-        })),
-        sharedAt: new Date().toISOString()
-      }
-    })
+    const payload = {
+      memberId: myMemberId,
+      callsign: me.callsign,
+      color: me.color,
+      windLayers: windLayers.map(w => ({
+        altitude: w.altitude,
+        direction: w.direction,
+        speed: w.speed,
+        timestamp: w.timestamp instanceof Date ? w.timestamp.toISOString() : w.timestamp,
+        source: w.source,
+        isStable: w.isStable,
+        stableSince: w.stableSince instanceof Date ? w.stableSince.toISOString() : w.stableSince,
+        vario: w.vario
+      })),
+      sharedAt: new Date().toISOString()
+    }
+
+    // Windprofil über Broadcast Channel bzw. LAN-Hub senden
+    if (_lanClient) {
+      _lanClient.send({ type: 'wind_profile', ...payload })
+    } else {
+      _windChannel.send({ type: 'broadcast', event: 'wind_profile', payload })
+    }
   },
 
   flushQueue: async () => {
@@ -686,7 +877,8 @@ export const useTeamStore = create<TeamState>((set, get) => ({
   clearPendingWindLayer: () => set({ pendingWindLayer: null }),
 
   cleanup: () => {
-    const { _channels, _windChannel } = get()
+    const { _channels, _windChannel, _lanClient } = get()
+    _lanClient?.close()
     if (_channels) {
       _channels.forEach(ch => {
         try { supabase.removeChannel(ch) } catch { /* ignore */ }
@@ -695,7 +887,7 @@ export const useTeamStore = create<TeamState>((set, get) => ({
     if (_windChannel) {
       try { supabase.removeChannel(_windChannel) } catch { /* ignore */ }
     }
-    set({ _channels: null, _windChannel: null, teamWindProfiles: [] })
+    set({ _channels: null, _windChannel: null, _lanClient: null, teamWindProfiles: [] })
     stopNetworkListeners()
   }
 }))
@@ -745,6 +937,206 @@ async function loadMessageHistory(teamId: string, myMemberId: string) {
   }
 }
 
+// Position eines anderen Members übernehmen (Zeile aus 'positions', vom LAN-Hub gleich aufbereitet)
+function applyPositionRow(pos: any) {
+  useTeamStore.setState(state => ({
+    members: state.members.map(m => {
+      if (m.id !== pos.member_id) return m
+
+      const newTrackPoint: [number, number] = [pos.latitude, pos.longitude]
+      const track = [...m.track, newTrackPoint]
+      // Track auf MAX_TRACK_POINTS begrenzen
+      if (track.length > MAX_TRACK_POINTS) {
+        track.splice(0, track.length - MAX_TRACK_POINTS)
+      }
+
+      // Volle Trackdaten speichern
+      const newFullPoint: TrackPoint = {
+        latitude: pos.latitude,
+        longitude: pos.longitude,
+        altitude: pos.altitude,
+        heading: pos.heading || 0,
+        speed: pos.speed || 0,
+        vario: pos.vario || 0,
+        recordedAt: new Date(pos.recorded_at)
+      }
+      const trackPoints = [...m.trackPoints, newFullPoint]
+      if (trackPoints.length > MAX_TRACK_POINTS) {
+        trackPoints.splice(0, trackPoints.length - MAX_TRACK_POINTS)
+      }
+
+      return {
+        ...m,
+        currentPosition: {
+          id: pos.id,
+          teamId: pos.team_id,
+          memberId: pos.member_id,
+          latitude: pos.latitude,
+          longitude: pos.longitude,
+          altitude: pos.altitude,
+          heading: pos.heading || 0,
+          speed: pos.speed || 0,
+          vario: pos.vario || 0,
+          recordedAt: new Date(pos.recorded_at),
+          receivedAt: new Date(pos.received_at || Date.now()),
+          isQueued: pos.is_queued || false
+        },
+        track,
+        trackPoints,
+        lastSeen: new Date(),
+        isOnline: true
+      }
+    })
+  }))
+}
+
+// Nachricht eines anderen Members anzeigen (Zeile aus 'team_messages' bzw. vom LAN-Hub)
+function applyMessageRow(msg: any) {
+  // Callsign und Farbe aus Members suchen
+  const members = useTeamStore.getState().members
+  const sender = members.find(m => m.id === msg.member_id)
+  const target = msg.target_member_id ? members.find(m => m.id === msg.target_member_id) : null
+
+  const teamMsg: TeamMessage = {
+    id: msg.id,
+    memberId: msg.member_id,
+    callsign: sender?.callsign || '???',
+    color: sender?.color || '#ffffff',
+    message: msg.message,
+    createdAt: new Date(msg.created_at),
+    targetMemberId: msg.target_member_id || null,
+    targetCallsign: target?.callsign || null
+  }
+
+  useTeamStore.setState(state => ({
+    messages: [...state.messages, teamMsg]
+  }))
+}
+
+// Geteiltes Windprofil eines anderen Members übernehmen (Broadcast-Payload)
+function applyWindProfilePayload(data: any) {
+  const windProfile: TeamWindProfile = {
+    memberId: data.memberId,
+    callsign: data.callsign,
+    color: data.color,
+    windLayers: data.windLayers.map((w: any) => ({
+      altitude: w.altitude,
+      direction: w.direction,
+      speed: w.speed,
+      timestamp: new Date(w.timestamp),
+      source: w.source as WindSource,
+      isStable: w.isStable,
+      stableSince: w.stableSince ? new Date(w.stableSince) : undefined,
+      vario: w.vario
+    })),
+    sharedAt: new Date(data.sharedAt)
+  }
+
+  // Profil aktualisieren oder hinzufügen (dedupliziere per memberId UND callsign)
+  useTeamStore.setState(state => {
+    // Entferne alle bestehenden Profile mit gleicher memberId oder gleichem callsign
+    const filtered = state.teamWindProfiles.filter(p =>
+      p.memberId !== data.memberId && p.callsign !== data.callsign
+    )
+    return { teamWindProfiles: [...filtered, windProfile] }
+  })
+}
+
+// ============================================
+// LAN-Hub (gleiche Daten wie die Supabase-Kanäle)
+// ============================================
+
+// Farbe aus dem Rufnamen, damit sie ohne Datenbank über Neustarts gleich bleibt (die ID vergibt der Hub)
+function lanColor(callsign: string): string {
+  let hash = 0
+  for (const ch of callsign) hash = (hash * 31 + ch.charCodeAt(0)) >>> 0
+  return TEAM_MEMBER_COLORS[hash % TEAM_MEMBER_COLORS.length]
+}
+
+function lanPositionRow(pos: any, sessionId: string) {
+  return {
+    id: `${pos.memberId}-${pos.recordedAt}`,
+    team_id: sessionId,
+    member_id: pos.memberId,
+    latitude: pos.latitude,
+    longitude: pos.longitude,
+    altitude: pos.altitude,
+    heading: pos.heading,
+    speed: pos.speed,
+    vario: pos.vario,
+    recorded_at: pos.recordedAt,
+    is_queued: false
+  }
+}
+
+function lanMessageRow(msg: any) {
+  return {
+    id: msg.id,
+    member_id: msg.memberId,
+    message: msg.message,
+    target_member_id: msg.targetMemberId || null,
+    created_at: msg.createdAt
+  }
+}
+
+// Member-Liste vom Hub übernehmen, Positionen und Tracks bleiben erhalten
+function applyLanMembers(infos: LanMemberInfo[], sessionId: string) {
+  useTeamStore.setState(state => ({
+    members: infos.map(info => {
+      const existing = state.members.find(m => m.id === info.memberId)
+      return {
+        id: info.memberId,
+        teamId: sessionId,
+        callsign: info.callsign,
+        color: info.color,
+        role: info.role,
+        joinedAt: existing?.joinedAt || new Date(),
+        lastSeen: new Date(info.lastSeen),
+        isOnline: info.isOnline,
+        currentPosition: existing?.currentPosition || null,
+        track: existing?.track || [],
+        trackPoints: existing?.trackPoints || []
+      }
+    })
+  }))
+}
+
+function applyLanWelcome(welcome: LanWelcome, sessionId: string) {
+  const myMemberId = welcome.memberId
+  applyLanMembers(welcome.members, sessionId)
+
+  // Nach Reconnect nur Positionen übernehmen die neuer sind als der eigene Stand
+  const known = useTeamStore.getState().members
+  for (const pos of welcome.positions) {
+    if (pos.memberId === myMemberId) continue
+    const current = known.find(m => m.id === pos.memberId)?.currentPosition
+    if (current && current.recordedAt.getTime() >= new Date(pos.recordedAt).getTime()) continue
+    applyPositionRow(lanPositionRow(pos, sessionId))
+  }
+  for (const profile of welcome.windProfiles) {
+    if (profile.memberId !== myMemberId) applyWindProfilePayload(profile)
+  }
+
+  // Chatverlauf ersetzen (auch nach Reconnect vollständig vom Hub)
+  const members = useTeamStore.getState().members
+  const messages: TeamMessage[] = welcome.messages.map(msg => {
+    const sender = members.find(m => m.id === msg.memberId)
+    const target = msg.targetMemberId ? members.find(m => m.id === msg.targetMemberId) : null
+    return {
+      id: msg.id,
+      memberId: msg.memberId,
+      callsign: sender?.callsign || '???',
+      color: sender?.color || '#ffffff',
+      message: msg.message,
+      createdAt: new Date(msg.createdAt),
+      isMine: msg.memberId === myMemberId,
+      targetMemberId: msg.targetMemberId || null,
+      targetCallsign: target?.callsign || null
+    }
+  })
+  useTeamStore.setState({ messages })
+}
+
 function subscribeToTeam(teamId: string, myMemberId: string) {
   const store = useTeamStore
 
@@ -764,55 +1156,7 @@ function subscribeToTeam(teamId: string, myMemberId: string) {
         // Eigene Positionen ignorieren
         if (pos.member_id === myMemberId) return
 
-        store.setState(state => ({
-          members: state.members.map(m => {
-            if (m.id !== pos.member_id) return m
-
-            const newTrackPoint: [number, number] = [pos.latitude, pos.longitude]
-            const track = [...m.track, newTrackPoint]
-            // Track auf MAX_TRACK_POINTS begrenzen
-            if (track.length > MAX_TRACK_POINTS) {
-              track.splice(0, track.length - MAX_TRACK_POINTS)
-            }
-
-            // Volle Trackdaten speichern
-            const newFullPoint: TrackPoint = {
-              latitude: pos.latitude,
-              longitude: pos.longitude,
-              altitude: pos.altitude,
-              heading: pos.heading || 0,
-              speed: pos.speed || 0,
-              vario: pos.vario || 0,
-              recordedAt: new Date(pos.recorded_at)
-            }
-            const trackPoints = [...m.trackPoints, newFullPoint]
-            if (trackPoints.length > MAX_TRACK_POINTS) {
-              trackPoints.splice(0, trackPoints.length - MAX_TRACK_POINTS)
-            }
-
-            return {
-              ...m,
-              currentPosition: {
-                id: pos.id,
-                teamId: pos.team_id,
-                memberId: pos.member_id,
-                latitude: pos.latitude,
-                longitude: pos.longitude,
-                altitude: pos.altitude,
-                heading: pos.heading || 0,
-                speed: pos.speed || 0,
-                vario: pos.vario || 0,
-                recordedAt: new Date(pos.recorded_at),
-                receivedAt: new Date(pos.received_at || Date.now()),
-                isQueued: pos.is_queued || false
-              },
-              track,
-              trackPoints,
-              lastSeen: new Date(),
-              isOnline: true
-            }
-          })
-        }))
+        applyPositionRow(pos)
       }
     )
     .subscribe()
@@ -929,25 +1273,7 @@ function subscribeToTeam(teamId: string, myMemberId: string) {
         // Private Nachrichten nur anzeigen wenn wir der Empfänger sind
         if (msg.target_member_id && msg.target_member_id !== myMemberId) return
 
-        // Callsign und Farbe aus Members suchen
-        const members = store.getState().members
-        const sender = members.find(m => m.id === msg.member_id)
-        const target = msg.target_member_id ? members.find(m => m.id === msg.target_member_id) : null
-
-        const teamMsg: TeamMessage = {
-          id: msg.id,
-          memberId: msg.member_id,
-          callsign: sender?.callsign || '???',
-          color: sender?.color || '#ffffff',
-          message: msg.message,
-          createdAt: new Date(msg.created_at),
-          targetMemberId: msg.target_member_id || null,
-          targetCallsign: target?.callsign || null
-        }
-
-        store.setState(state => ({
-          messages: [...state.messages, teamMsg]
-        }))
+        applyMessageRow(msg)
       }
     )
     .subscribe()
@@ -963,31 +1289,7 @@ function subscribeToTeam(teamId: string, myMemberId: string) {
       // Eigene Profile ignorieren
       if (data.memberId === myMemberId) return
 
-      const windProfile: TeamWindProfile = {
-        memberId: data.memberId,
-        callsign: data.callsign,
-        color: data.color,
-        windLayers: data.windLayers.map((w: any) => ({
-          altitude: w.altitude,
-          direction: w.direction,
-          speed: w.speed,
-          timestamp: new Date(w.timestamp),
-          source: w.source as WindSource,
-          isStable: w.isStable,
-          stableSince: w.stableSince ? new Date(w.stableSince) : undefined,
-          vario: w.vario
-        })),
-        sharedAt: new Date(data.sharedAt)
-      }
-
-      // Profil aktualisieren oder hinzufügen (dedupliziere per memberId UND callsign)
-      store.setState(state => {
-        // Entferne alle bestehenden Profile mit gleicher memberId oder gleichem callsign
-        const filtered = state.teamWindProfiles.filter(p =>
-          p.memberId !== data.memberId && p.callsign !== data.callsign
-        )
-        return { teamWindProfiles: [...filtered, windProfile] }
-      })
+      applyWindProfilePayload(data)
     })
     .subscribe()
 
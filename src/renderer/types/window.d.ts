@@ -24,6 +24,15 @@ interface BluetoothDevice {
   rssi: number
 }
 
+interface LanHubStatus {
+  running: boolean
+  port: number
+  addresses: string[]
+  clients: number
+  liteAvailable: boolean
+  pin: string
+}
+
 interface MapInfo {
   id: string
   name: string
@@ -53,7 +62,15 @@ declare global {
         scan: () => Promise<BluetoothDevice[]>
         connect: (deviceId: string) => Promise<{ success: boolean; error: string | null }>
         disconnect: () => Promise<void>
+        addSource: (deviceId: string) => Promise<{ success: boolean; error: string | null }>
+        disconnectSource: (deviceId: string) => Promise<void>
+        listLogs: () => Promise<{ fileName: string; path: string; size: number; date: string }[]>
+        deleteLog: (fileName: string) => Promise<boolean>
+        selectLog: () => Promise<string | null>
+        setReplaySpeed: (speed: number) => Promise<void>
         onError: (callback: (error: { message: string; details?: string }) => void) => void
+        onFailover: (callback: (failover: { from: string | null; to: string | null; reason: string }) => void) => void
+        offFailover: () => void
         onDebug: (callback: (stats: any) => void) => void
         offDebug: () => void
       }
@@ -74,6 +91,16 @@ declare global {
         listBackups: () => Promise<Array<{ name: string; fileName: string; path: string; date: string; size: number }>>
         loadBackup: (fileName: string) => Promise<{ success: boolean; data?: any; error?: string }>
       }
+      igc: {
+        getPublicKey: () => Promise<string | null>
+        sign: (content: string) => Promise<{ signature: string; publicKey: string } | null>
+      }
+      team: {
+        lanStart: (port?: number) => Promise<{ success: boolean; status?: LanHubStatus; error?: string }>
+        lanStop: () => Promise<void>
+        lanStatus: () => Promise<LanHubStatus | null>
+        onLanStatus: (callback: (status: LanHubStatus) => void) => () => void
+      }
       flights: {
         save: (options: { championshipId: string; flightId: string; fileName: string; content: string }) => Promise<{ success: boolean; path?: string; error?: string }>
         list: (championshipId: string) => Promise<Array<{ id: string; name: string; created_at: string; hasTrack: boolean; isAptProfile: boolean; size: number }>>
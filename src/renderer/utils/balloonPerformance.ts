@@ -0,0 +1,272 @@
+/**
+ * Ballon-Flugverhalten
+ *
+ * Die Rechner gehen sonst davon aus, dass eine neue Steig-/Sinkrate sofort
+ * anliegt und der Ballon exakt auf der Zielhöhe stehen bleibt. Ein echter Ballon
+ * braucht je nach Hülle und Beladung eine Weile bis die Rate anliegt und schwingt
+ * beim Abfangen über. Das Profil beschreibt das mit wenigen Größen:
+ * - responseLagSec: Zeitkonstante (1. Ordnung) bis zur Soll-Rate
+ * - maxClimbRate / maxSinkRate: was der Ballon bei dieser Beladung schafft
+ * - overshootPerMs: Überschwingen beim Abfangen, proportional zur Annäherungsrate
+ *
+ * Geschätzt wird es aus aufgezeichneten Tracks (Steig-/Sinkphasen erkennen,
+ * Anlaufzeit und Überschwingen messen).
+ */
+
+import type { AppSettings, BalloonPerformance, TrackPoint } from '../../shared/types'
+
+export const MIN_PERFORMANCE_MANEUVERS = 3
+
+// Track-Aufbereitung
+const MAX_GAP_SEC = 20       // Größere Lücken trennen den Track
+const MIN_SEGMENT_SEC = 120  // Kürzere Stücke werden ignoriert
+const SMOOTH_HALF = 2        // ±2 s gleitender Mittelwert
+
+// Phasenerkennung
+const MOVE_RATE = 0.5        // m/s - ab hier gilt eine Phase als Steigen/Sinken
+const LEVEL_RATE = 0.15      // m/s - darunter gilt die Höhe als gehalten
+const MIN_MANEUVER_SEC = 30
+const MIN_MANEUVER_ALT = 30  // m
+const MIN_PLATEAU_RATE = 0.8 // m/s - langsamere Phasen sagen über die Anlaufzeit wenig aus
+const MAX_ONSET_SEC = 90     // So weit wird nach dem Beginn der Phase zurückgesucht
+const OVERSHOOT_WINDOW = 120 // s nach der Phase wird der Scheitelpunkt gesucht
+const SETTLE_FROM = 60       // s nach dem Scheitel: Beginn der Beruhigung
+const SETTLE_TO = 120
+
+const OVERSHOOT_PEAK_SEC = 15 // Modell: Scheitel des Überschwingens nach Erreichen der Zielhöhe
+
+const FALLBACK_MAX_RATE = 5  // m/s, Obergrenze der Rechner wenn keine Daten vorliegen
+
+/** Schlüssel für das Profil in den Einstellungen */
+export function performanceKey(balloonId: string | undefined): string {
+  return balloonId?.trim() || 'Ballon'
+}
+
+/** Profil des eingestellten Ballons (oder null = idealer Ballon) */
+export function findBalloonPerformance(
+  settings: Pick<AppSettings, 'balloonPerformance' | 'balloonId'>
+): BalloonPerformance | null {
+  return settings.balloonPerformance?.[performanceKey(settings.balloonId)] ?? null
+}
+
+/** Rate (positiv) auf das begrenzen, was der Ballon schafft */
+export function limitRate(perf: BalloonPerformance | null | undefined, rate: number, climbing: boolean): number {
+  if (!perf) return rate
+  return Math.min(rate, climbing ? perf.maxClimbRate : perf.maxSinkRate)
+}
+
+/**
+ * Mittlere Rate in Sekunde t (1, 2, ...) nach dem Kommando.
+ * Ohne Profil das bisherige Verhalten: lineare Rampe über legacyRampSec
+ * (0 = sofort volle Rate).
+ */
+export function onsetRate(
+  perf: BalloonPerformance | null | undefined,
+  rate: number,
+  t: number,
+  legacyRampSec = 0
+): number {
+  if (!perf) {
+    return legacyRampSec > 0 && t <= legacyRampSec ? rate * (t / legacyRampSec) : rate
+  }
+  const tau = perf.responseLagSec
+  if (tau <= 0) return rate
+  // Mittelwert von rate·(1 - e^(-t/τ)) über die Sekunde [t-1, t]
+  return rate * (1 - tau * (Math.exp(-(t - 1) / tau) - Math.exp(-t / tau)))
+}
+
+/**
+ * Höhenabweichung (m, in Fahrtrichtung) t Sekunden nach Erreichen der Zielhöhe.
+ * Glockenkurve A·(x·e^(1-x))² mit x = t/τ: Maximum A nach τ, nach etwa 4τ
+ * ist der Ballon wieder auf der Zielhöhe.
+ */
+export function levelOffOffset(
+  perf: BalloonPerformance | null | undefined,
+  approachRate: number,
+  tSinceReach: number
+): number {
+  if (!perf || perf.overshootPerMs <= 0 || approachRate <= 0) return 0
+  const amplitude = perf.overshootPerMs * approachRate
+  const bump = (tSinceReach / OVERSHOOT_PEAK_SEC) * Math.exp(1 - tSinceReach / OVERSHOOT_PEAK_SEC)
+  return amplitude * bump * bump
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Schätzung aus Tracks
+// ═══════════════════════════════════════════════════════════════════
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))]
+}
+
+function movingAverage(values: number[], half: number): number[] {
+  return values.map((_, i) => {
+    const from = Math.max(0, i - half)
+    const to = Math.min(values.length - 1, i + half)
+    let sum = 0
+    for (let k = from; k <= to; k++) sum += values[k]
+    return sum / (to - from + 1)
+  })
+}
+
+/** Track auf 1 s Raster bringen - liefert zusammenhängende Höhenreihen */
+function resampleTrack(track: TrackPoint[]): number[][] {
+  const points = track
+    .map(p => ({
+      t: new Date(p.timestamp).getTime() / 1000,
+      alt: p.baro?.pressureAltitude || p.position?.altitude
+    }))
+    .filter(p => Number.isFinite(p.t) && Number.isFinite(p.alt))
+    .sort((a, b) => a.t - b.t)
+
+  const series: number[][] = []
+  let current: number[] = []
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1], b = points[i]
+    const gap = b.t - a.t
+    if (gap <= 0) continue
+    if (gap > MAX_GAP_SEC) {
+      if (current.length) series.push(current)
+      current = []
+      continue
+    }
+    const startSec = current.length ? Math.ceil(a.t + 1e-6) : Math.ceil(a.t)
+    for (let s = startSec; s <= b.t; s++) {
+      current.push(a.alt + (b.alt - a.alt) * (s - a.t) / gap)
+    }
+  }
+  if (current.length) series.push(current)
+  return series.filter(s => s.length >= MIN_SEGMENT_SEC)
+}
+
+function verticalSpeeds(alts: number[]): number[] {
+  const smooth = movingAverage(alts, SMOOTH_HALF)
+  const vz = smooth.map((_, i) => {
+    const a = smooth[Math.max(0, i - 1)]
+    const b = smooth[Math.min(smooth.length - 1, i + 1)]
+    const dt = Math.min(smooth.length - 1, i + 1) - Math.max(0, i - 1)
+    return dt > 0 ? (b - a) / dt : 0
+  })
+  return movingAverage(vz, SMOOTH_HALF)
+}
+
+interface ManeuverStats {
+  climbing: boolean
+  plateau: number               // m/s
+  lag: number | null            // s
+  overshootPerMs: number | null
+}
+
+/** Eine Steig-/Sinkphase [i, j] auswerten */
+function analyzeManeuver(alts: number[], vz: number[], i: number, j: number, dir: number): ManeuverStats | null {
+  const tail: number[] = []
+  for (let k = i + Math.floor((j - i) / 2); k <= j; k++) tail.push(vz[k] * dir)
+  const plateau = median(tail)
+  if (plateau < MIN_PLATEAU_RATE) return null
+
+  // Anlaufzeit: vom letzten "gehaltenen" Zeitpunkt bis 63% der Plateau-Rate
+  let lag: number | null = null
+  let start = i
+  while (start > 0 && i - start < MAX_ONSET_SEC && vz[start - 1] * dir >= LEVEL_RATE) start--
+  if (start > 0 && vz[start - 1] * dir < LEVEL_RATE) {
+    for (let k = start; k <= j; k++) {
+      if (vz[k] * dir >= 0.63 * plateau) {
+        // Der Beginn wird erst bei LEVEL_RATE erkannt - bei 1. Ordnung fehlt τ·ln(1 - LEVEL_RATE/plateau)
+        lag = (k - start) / (1 + Math.log(1 - LEVEL_RATE / plateau))
+        break
+      }
+    }
+  }
+
+  // Überschwingen: Scheitel nach der Phase gegen die Höhe nach der Beruhigung
+  let overshootPerMs: number | null = null
+  let peak = j
+  for (let k = j; k < Math.min(alts.length, j + OVERSHOOT_WINDOW); k++) {
+    if ((alts[k] - alts[peak]) * dir > 0) peak = k
+  }
+  if (peak + SETTLE_TO < alts.length) {
+    const settle: number[] = []
+    let calm = true
+    for (let k = peak + SETTLE_FROM; k <= peak + SETTLE_TO; k++) {
+      settle.push(alts[k])
+      if (Math.abs(vz[k]) >= MOVE_RATE) calm = false
+    }
+    if (calm) {
+      const overshoot = Math.max(0, (alts[peak] - median(settle)) * dir)
+      overshootPerMs = overshoot / plateau
+    }
+  }
+
+  return { climbing: dir > 0, plateau, lag, overshootPerMs }
+}
+
+/**
+ * Flugverhalten aus aufgezeichneten Tracks schätzen.
+ * Liefert null wenn zu wenige auswertbare Steig-/Sinkphasen gefunden wurden.
+ */
+export function estimateBalloonPerformance(
+  tracks: TrackPoint[][],
+  onProgress?: (fraction: number) => void
+): BalloonPerformance | null {
+  const lags: number[] = []
+  const overshoots: number[] = []
+  const climbRates: number[] = []
+  const sinkRates: number[] = []
+  let maneuvers = 0
+  let flights = 0
+
+  tracks.forEach((track, index) => {
+    onProgress?.(index / tracks.length)
+    const series = resampleTrack(track)
+    if (series.length === 0) return
+    flights++
+
+    for (const alts of series) {
+      const vz = verticalSpeeds(alts)
+      for (const v of vz) {
+        if (v >= MOVE_RATE) climbRates.push(v)
+        else if (v <= -MOVE_RATE) sinkRates.push(-v)
+      }
+
+      let i = 0
+      while (i < vz.length) {
+        if (Math.abs(vz[i]) < MOVE_RATE) { i++; continue }
+        const dir = Math.sign(vz[i])
+        let j = i
+        while (j + 1 < vz.length && vz[j + 1] * dir >= MOVE_RATE) j++
+        if (j - i + 1 >= MIN_MANEUVER_SEC && (alts[j] - alts[i]) * dir >= MIN_MANEUVER_ALT) {
+          const stats = analyzeManeuver(alts, vz, i, j, dir)
+          if (stats) {
+            maneuvers++
+            if (stats.lag !== null) lags.push(stats.lag)
+            if (stats.overshootPerMs !== null) overshoots.push(stats.overshootPerMs)
+          }
+        }
+        i = j + 1
+      }
+    }
+  })
+  onProgress?.(1)
+
+  if (lags.length < MIN_PERFORMANCE_MANEUVERS) return null
+
+  const maxRate = (rates: number[]) =>
+    rates.length >= 30 ? Math.round(percentile(rates, 0.98) * 10) / 10 : FALLBACK_MAX_RATE
+
+  return {
+    responseLagSec: Math.round(median(lags)),
+    maxClimbRate: maxRate(climbRates),
+    maxSinkRate: maxRate(sinkRates),
+    overshootPerMs: overshoots.length ? Math.round(median(overshoots) * 10) / 10 : 0,
+    maneuvers,
+    flights,
+    updatedAt: new Date().toISOString()
+  }
+}
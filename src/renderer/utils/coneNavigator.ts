@@ -11,7 +11,10 @@
  * 7. Ab Kegelmitte: Pilot korrigiert mit hoch/runter
  */
 
+import type { BalloonPerformance } from '../../shared/types'
 import { calculateDistance, calculateDestination, calculateBearing, interpolateWind } from './navigation'
+import { createWindSampler, WindField } from './windField'
+import { limitRate, onsetRate } from './balloonPerformance'
 
 // ═══════════════════════════════════════════════════════════════════
 // Types
@@ -34,6 +37,9 @@ export interface ConeInput {
   windLayers: WindLayer[]
   goalLat: number
   goalLon: number
+  windField?: WindField | null  // Optional: Wind ändert sich über Zeit und Ort
+  startTime?: number            // ms, Zeitpunkt des Berechnungsbeginns (Default: jetzt)
+  performance?: BalloonPerformance | null  // Optional: Anlaufzeit und max. Raten des Ballons
 }
 
 export interface TurnLayer {
@@ -275,8 +281,8 @@ export function calculateCone(input: ConeInput): ConeResult | null {
   }
 
   // Wind auf Drehschicht-Höhe
-  const centerWind = interpolateWind(turnLayer.altitude, windLayers)
-  const cDrift = (centerWind.direction + 180) % 360
+  const wind = createWindSampler(windLayers, input.windField, { lat, lon, time: input.startTime })
+  const centerWind = wind(turnLayer.altitude, lat, lon, 0)
 
   // ── Deklarationspunkt berechnen ──
   const altDiff = turnLayer.altitude - altitude
@@ -287,32 +293,37 @@ export function calculateCone(input: ConeInput): ConeResult | null {
   const minTimeSec = minDistanceM / avgWindMs
 
   // 2. Optimale Rate = Höhendifferenz / verfügbare Zeit, begrenzt auf CLIMB_RATE
+  //    (bzw. auf das was der Ballon laut Flugverhalten schafft)
+  const perf = input.performance ?? null
   const rawRate = minTimeSec > 0 ? Math.abs(altDiff) / minTimeSec : CLIMB_RATE
-  const useRate = Math.min(rawRate, CLIMB_RATE)
+  const useRate = Math.min(rawRate, limitRate(perf, CLIMB_RATE, climbDir > 0))
 
-  // 3. Tatsächliche Steigzeit mit dieser Rate
-  const climbTimeSec = Math.abs(altDiff) / useRate
-
-  // 4. Simuliere: Pilot steigt/sinkt mit useRate, driftet dabei mit Wind pro Höhe
+  // 3. Simuliere: Pilot steigt/sinkt mit useRate, driftet dabei mit Wind pro Höhe
   //    → Wo kommt er auf Zielhöhe an? Das ist die Kegelmitte.
   let simLat = lat, simLon = lon
   let simAlt = altitude
+  let climbSteps = 0
 
-  for (let t = 0; t < climbTimeSec && t < 3600; t++) {
-    simAlt += useRate * climbDir
+  while (simAlt !== turnLayer.altitude && climbSteps < 3600) {
+    climbSteps++
+    simAlt += onsetRate(perf, useRate, climbSteps) * climbDir
     if ((climbDir > 0 && simAlt > turnLayer.altitude) || (climbDir < 0 && simAlt < turnLayer.altitude)) {
       simAlt = turnLayer.altitude
     }
-    const w = interpolateWind(simAlt, windLayers)
+    const w = wind(simAlt, simLat, simLon, climbSteps - 1)
     const pos = calculateDestination(simLat, simLon, (w.direction + 180) % 360, w.speedMs)
     simLat = pos.lat; simLon = pos.lon
   }
 
+  // 4. Tatsächliche Steigzeit (mit Anlaufzeit des Ballons länger als Höhe / Rate)
+  const climbTimeSec = perf ? climbSteps : Math.abs(altDiff) / useRate
+
   // 5. Wenn Kegelmitte noch zu nah (< minDistanz), weiter auf Zielhöhe driften
   let totalTime = Math.round(climbTimeSec)
   while (calculateDistance(lat, lon, simLat, simLon) < minDistanceM && totalTime < 3600) {
+    const w = wind(turnLayer.altitude, simLat, simLon, totalTime)
     totalTime++
-    const pos = calculateDestination(simLat, simLon, cDrift, centerWind.speedMs)
+    const pos = calculateDestination(simLat, simLon, (w.direction + 180) % 360, w.speedMs)
     simLat = pos.lat; simLon = pos.lon
   }
 
@@ -324,16 +335,21 @@ export function calculateCone(input: ConeInput): ConeResult | null {
   const coneHalfDuration = Math.max(totalTime / 2, 150)  // Halber Kegel mindestens 150s
   let declLat = coneMidLat, declLon = coneMidLon
   for (let t = 0; t < coneHalfDuration; t++) {
-    const pos = calculateDestination(declLat, declLon, cDrift, centerWind.speedMs)
+    const w = wind(turnLayer.altitude, declLat, declLon, totalTime + t)
+    const pos = calculateDestination(declLat, declLon, (w.direction + 180) % 360, w.speedMs)
     declLat = pos.lat; declLon = pos.lon
   }
   const declAlt = turnLayer.altitude
+  const declTime = totalTime + coneHalfDuration
 
   // ── Kegel: Vom Deklarationspunkt Richtung Pilot ──
   // Spitze = am weitesten weg, Öffnung = Richtung Pilot
   // Der Kegel zeigt wo der Pilot durch Höhenänderung hinkorrigieren kann
-  const leftWind = interpolateWind(turnLayer.leftAlt, windLayers)
-  const rightWind = interpolateWind(turnLayer.rightAlt, windLayers)
+  // Wind am Deklarationspunkt zur Ankunftszeit (ohne Windfeld = Schichtwind)
+  const declCenterWind = wind(turnLayer.altitude, declLat, declLon, declTime)
+  const leftWind = wind(turnLayer.leftAlt, declLat, declLon, declTime)
+  const rightWind = wind(turnLayer.rightAlt, declLat, declLon, declTime)
+  const cDrift = (declCenterWind.direction + 180) % 360
   const lDrift = (leftWind.direction + 180) % 360
   const rDrift = (rightWind.direction + 180) % 360
 
@@ -354,7 +370,7 @@ export function calculateCone(input: ConeInput): ConeResult | null {
   const tempR: { lat: number; lon: number }[] = [{ lat: declLat, lon: declLon }]
 
   for (let t = 1; t <= coneDuration; t++) {
-    const cP = calculateDestination(cLat, cLon, cBack, centerWind.speedMs)
+    const cP = calculateDestination(cLat, cLon, cBack, declCenterWind.speedMs)
     cLat = cP.lat; cLon = cP.lon
 
     const lP = calculateDestination(lLat, lLon, lBack, leftWind.speedMs)
@@ -417,7 +433,8 @@ export function calculateConeGuidance(
   targetLat: number, targetLon: number, targetAlt: number,
   turnLayer: TurnLayer,
   windLayers: WindLayer[],
-  varioMs: number = 0
+  varioMs: number = 0,
+  windField?: WindField | null
 ): ConeGuidance {
   const distToTarget = calculateDistance(currentLat, currentLon, targetLat, targetLon)
   const bearingToTarget = calculateBearing(currentLat, currentLon, targetLat, targetLon)
@@ -472,6 +489,7 @@ export function calculateConeGuidance(
   // Live-Pfad: Simuliere wo der Pilot ankommt wenn er mit aktuellem Vario weitersteigt
   // Sekunde für Sekunde: Höhe ändert sich mit varioMs, Wind pro Höhenstufe
   const livePath: { lat: number; lon: number; altitude: number }[] = [{ lat: currentLat, lon: currentLon, altitude: currentAlt }]
+  const wind = createWindSampler(windLayers, windField, { lat: currentLat, lon: currentLon })
   let pLat = currentLat, pLon = currentLon, pAlt = currentAlt
   const effectiveVario = Math.abs(varioMs) > 0.1 ? varioMs : (targetAlt > currentAlt ? CLIMB_RATE : -CLIMB_RATE)
 
@@ -482,14 +500,14 @@ export function calculateConeGuidance(
     if ((effectiveVario > 0 && pAlt >= targetAlt) || (effectiveVario < 0 && pAlt <= targetAlt)) {
       pAlt = targetAlt
       // Wind auf Zielhöhe für letzten Schritt
-      const w = interpolateWind(pAlt, windLayers)
+      const w = wind(pAlt, pLat, pLon, t)
       const pos = calculateDestination(pLat, pLon, (w.direction + 180) % 360, w.speedMs)
       pLat = pos.lat; pLon = pos.lon
       livePath.push({ lat: pLat, lon: pLon, altitude: pAlt })
       break
     }
     // Drift mit Wind auf aktueller Höhe
-    const w = interpolateWind(pAlt, windLayers)
+    const w = wind(pAlt, pLat, pLon, t)
     const pos = calculateDestination(pLat, pLon, (w.direction + 180) % 360, w.speedMs)
     pLat = pos.lat; pLon = pos.lon
     if (t % PATH_STEP === 0) livePath.push({ lat: pLat, lon: pLon, altitude: pAlt })
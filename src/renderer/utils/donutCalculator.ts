@@ -16,7 +16,10 @@
  * 4. Höhen-Paar mit längster Strecke im Ring gewinnt
  */
 
-import { calculateDistance, calculateDestination, calculateBearing, interpolateWind } from './navigation'
+import type { BalloonPerformance } from '../../shared/types'
+import { calculateDistance, calculateDestination, calculateBearing } from './navigation'
+import { createWindSampler, WindField, WindSampler } from './windField'
+import { limitRate, onsetRate, levelOffOffset } from './balloonPerformance'
 
 // ═══════════════════════════════════════════════════════════════════
 // Types
@@ -37,6 +40,9 @@ export interface DonutInput {
   minCenterDist: number  // Meter — Mindestabstand Pilot → Donut-Mittelpunkt
   groundElevation: number
   windLayers: WindLayer[]
+  windField?: WindField | null  // Optional: Wind ändert sich über Zeit und Ort
+  startTime?: number            // ms, Zeitpunkt des Berechnungsbeginns (Default: jetzt)
+  performance?: BalloonPerformance | null  // Optional: Anlaufzeit, max. Raten, Überschwingen
 }
 
 export interface DonutLeg {
@@ -126,6 +132,9 @@ interface ZigzagResult {
  * 4. Repeat bis Zeitlimit oder endgültig aus dem Ring
  *
  * "Kritisch" = Abstand zum nächsten Rand < Puffer ODER Wind treibt aus dem Ring
+ *
+ * Mit perf liegt die Rate erst nach der Anlaufzeit an und der Ballon schwingt
+ * nach jedem Wechsel kurz über die neue Höhe hinaus.
  */
 function simulateZigzag(
   startLat: number, startLon: number, startAlt: number,
@@ -133,8 +142,9 @@ function simulateZigzag(
   centerLat: number, centerLon: number,
   innerR: number, outerR: number,
   groundElev: number,
-  windLayers: WindLayer[],
-  collectPath: boolean
+  wind: WindSampler,
+  collectPath: boolean,
+  perf: BalloonPerformance | null = null
 ): ZigzagResult {
   let lat = startLat, lon = startLon, alt = startAlt
   let totalTime = 0
@@ -148,6 +158,7 @@ function simulateZigzag(
   const ringSegments: { lat: number; lon: number }[][] = []
   let currentRingSegment: { lat: number; lon: number }[] = []
   let zigzagCount = 0
+  let approachRate = 0  // Vorzeichenbehaftete Rate beim Erreichen der letzten Zielhöhe
 
   // Ring-Breite und Puffer berechnen
   const ringWidth = outerR - innerR
@@ -182,7 +193,7 @@ function simulateZigzag(
   function shouldSwitch(currentDist: number): boolean {
     // Zu nah am äußeren Rand und Wind treibt nach außen
     if (currentDist > outerR - switchBuffer) {
-      const w = interpolateWind(alt, windLayers)
+      const w = wind(alt, lat, lon, totalTime)
       const driftBrg = (w.direction + 180) % 360
       const brgToCenter = calculateBearing(lat, lon, centerLat, centerLon)
       // Winkel zwischen Drift und Richtung zum Mittelpunkt
@@ -194,7 +205,7 @@ function simulateZigzag(
     }
     // Zu nah am inneren Rand und Wind treibt nach innen
     if (currentDist < innerR + switchBuffer) {
-      const w = interpolateWind(alt, windLayers)
+      const w = wind(alt, lat, lon, totalTime)
       const driftBrg = (w.direction + 180) % 360
       const brgFromCenter = calculateBearing(centerLat, centerLon, lat, lon)
       let angleDiff = driftBrg - brgFromCenter
@@ -222,26 +233,28 @@ function simulateZigzag(
     const dir = altDiff > 0 ? 1 : -1
     const legStart = totalTime
     const legTrackStart = trackInRing
-    const w0 = interpolateWind(alt, windLayers)
+    const w0 = wind(alt, lat, lon, totalTime)
+    const climbRate = limitRate(perf, rate, dir > 0)
 
     while ((dir > 0 && alt < target) || (dir < 0 && alt > target)) {
       prevLat = lat; prevLon = lon
-      const w = interpolateWind(alt, windLayers)
+      const w = wind(alt, lat, lon, totalTime)
       const drift = (w.direction + 180) % 360
       const dest = calculateDestination(lat, lon, drift, w.speedMs)
       lat = dest.lat; lon = dest.lon
-      alt += dir * rate
       totalTime++
+      alt += dir * onsetRate(perf, climbRate, totalTime - legStart)
       checkRing()
       if (collectPath && totalTime % 5 === 0) path.push({ lat, lon, altitude: alt })
       if (totalTime > MAX_SIM_TIME) return false
     }
     alt = target
+    approachRate = dir * climbRate
 
     legs.push({
       targetAltitude: target, targetAltitudeFt: toFt50(target),
       action: altDiff > 0 ? 'STEIGEN' : 'SINKEN',
-      rate: Math.round(rate * 10) / 10, rateFtMin: Math.round(rate * 3.28084 * 60),
+      rate: Math.round(climbRate * 10) / 10, rateFtMin: Math.round(climbRate * 3.28084 * 60),
       durationSec: totalTime - legStart,
       windDirection: Math.round(w0.direction), windSpeedKmh: Math.round(w0.speedMs * 3.6),
       trackInRing: Math.round(trackInRing - legTrackStart)
@@ -260,12 +273,13 @@ function simulateZigzag(
     // Drift auf aktueller Höhe
     const driftStart = totalTime
     const driftTrackStart = trackInRing
-    const dw = interpolateWind(alt, windLayers)
+    const dw = wind(alt, lat, lon, totalTime)
     let needSwitch = false
 
     for (let d = 0; d < 1800; d++) {  // Max 30 min Drift pro Segment
       prevLat = lat; prevLon = lon
-      const w = interpolateWind(alt, windLayers)
+      const driftAlt = alt + Math.sign(approachRate) * levelOffOffset(perf, Math.abs(approachRate), d)
+      const w = wind(driftAlt, lat, lon, totalTime)
       const drift = (w.direction + 180) % 360
       const dest = calculateDestination(lat, lon, drift, w.speedMs)
       lat = dest.lat; lon = dest.lon
@@ -349,12 +363,15 @@ function simulateZigzag(
 // Hauptberechnung
 // ═══════════════════════════════════════════════════════════════════
 
-export function calculateDonut(input: DonutInput): DonutResult | null {
+export function calculateDonut(input: DonutInput, onProgress?: (fraction: number) => void): DonutResult | null {
   const { pilotLat, pilotLon, pilotAltitude, innerRadius, outerRadius,
           minCenterDist, groundElevation, windLayers } = input
 
   if (windLayers.length === 0) return null
 
+  const wind = createWindSampler(windLayers, input.windField, { lat: pilotLat, lon: pilotLon, time: input.startTime })
+  const perf = input.performance ?? null
+
   const allAlts = windLayers.map(l => l.altitude)
   const minAlt = Math.max(groundElevation + 20, Math.min(...allAlts))
   const maxAlt = Math.max(...allAlts)
@@ -375,8 +392,8 @@ export function calculateDonut(input: DonutInput): DonutResult | null {
 
   for (let i = 0; i < uniqueAlts.length; i++) {
     for (let j = i + 1; j < uniqueAlts.length; j++) {
-      const wA = interpolateWind(uniqueAlts[i], windLayers)
-      const wB = interpolateWind(uniqueAlts[j], windLayers)
+      const wA = wind(uniqueAlts[i], pilotLat, pilotLon, 0)
+      const wB = wind(uniqueAlts[j], pilotLat, pilotLon, 0)
       // Drift-Richtung (wohin der Ballon fliegt)
       const driftA = (wA.direction + 180) % 360
       const driftB = (wB.direction + 180) % 360
@@ -424,7 +441,9 @@ export function calculateDonut(input: DonutInput): DonutResult | null {
   let best: BestCandidate | null = null
 
   // Grobe Suche: Richtungen × Abstände × Top Höhen-Paare
-  for (const brg of bearings) {
+  for (let i = 0; i < bearings.length; i++) {
+    const brg = bearings[i]
+    onProgress?.(0.6 * i / bearings.length)
     for (const dist of distances) {
       const center = calculateDestination(pilotLat, pilotLon, brg, dist)
 
@@ -435,7 +454,7 @@ export function calculateDonut(input: DonutInput): DonutResult | null {
           pair.altA, pair.altB, RATE,
           center.lat, center.lon,
           innerRadius, outerRadius,
-          groundElevation, windLayers, false
+          groundElevation, wind, false, perf
         )
 
         if (!best || sim.trackInRing > best.trackInRing ||
@@ -462,7 +481,9 @@ export function calculateDonut(input: DonutInput): DonutResult | null {
   }
   const fineDists = [best.distance - 200, best.distance, best.distance + 200]
 
-  for (const brg of fineBearings) {
+  for (let i = 0; i < fineBearings.length; i++) {
+    const brg = fineBearings[i]
+    onProgress?.(0.6 + 0.4 * i / fineBearings.length)
     for (const dist of fineDists) {
       if (dist < minCenterDist) continue
       const center = calculateDestination(pilotLat, pilotLon, brg, dist)
@@ -473,7 +494,7 @@ export function calculateDonut(input: DonutInput): DonutResult | null {
           pair.altA, pair.altB, RATE,
           center.lat, center.lon,
           innerRadius, outerRadius,
-          groundElevation, windLayers, false
+          groundElevation, wind, false, perf
         )
 
         if (sim.trackInRing > best.trackInRing ||
@@ -497,7 +518,7 @@ export function calculateDonut(input: DonutInput): DonutResult | null {
     best.altA, best.altB, RATE,
     best.centerLat, best.centerLon,
     innerRadius, outerRadius,
-    groundElevation, windLayers, true
+    groundElevation, wind, true, perf
   )
 
   // Anweisung
@@ -0,0 +1,493 @@
+/**
+ * Flug-Import (IGC / GPX) für NTA
+ * Wandelt fremde und ältere Aufzeichnungen zurück in Flight/TrackPoint Objekte,
+ * damit sie auf der Karte, im Höhenprofil und in der 3D-Ansicht ausgewertet werden können.
+ */
+
+import { GoalType } from '../../shared/types'
+import type { Flight, TrackPoint, MarkerDrop, GoalDeclaration, GPSPosition } from '../../shared/types'
+import { calculateDistance, calculateBearing } from './navigation'
+import { verifyIGCSignature, getTrustedFingerprints, type IGCVerification } from './igcSignature'
+
+export type FlightImportFormat = 'igc' | 'gpx' | 'unknown'
+
+export interface FlightImportResult {
+  success: boolean
+  format: FlightImportFormat
+  flight: Flight | null
+  errors: string[]
+  warnings: string[]
+  signature?: IGCVerification  // nur IGC über importFlightFile
+}
+
+// Standard-QNH für importierte Druckhöhen (IGC speichert Druckhöhe bezogen auf 1013.25 hPa)
+const STANDARD_QNH = 1013.25
+
+// Radius für rekonstruierte Ziele aus K Records (Meter)
+const DEFAULT_GOAL_RADIUS = 100
+
+// Format erkennen
+export function detectFlightFormat(content: string): FlightImportFormat {
+  const trimmed = content.trim()
+  if (trimmed.includes('<gpx') || trimmed.includes('<trkpt')) {
+    return 'gpx'
+  }
+  if (/^A\w{3}/.test(trimmed) || /^B\d{6}\d{7}[NS]\d{8}[EW]/m.test(trimmed)) {
+    return 'igc'
+  }
+  return 'unknown'
+}
+
+// Haupt-Parser
+export function parseFlightFile(content: string, filename: string): FlightImportResult {
+  const format = detectFlightFormat(content)
+
+  switch (format) {
+    case 'igc':
+      return parseIGCFlight(content, filename)
+    case 'gpx':
+      return parseGPXFlight(content, filename)
+    default:
+      return {
+        success: false,
+        format: 'unknown',
+        flight: null,
+        errors: ['Unbekanntes Dateiformat. Nur IGC und GPX werden unterstuetzt.'],
+        warnings: []
+      }
+  }
+}
+
+/**
+ * Import mit Signaturprüfung: IGC-Dateien werden zusätzlich auf eine NTA-Signatur
+ * (G Record) geprüft, der Schlüssel dieser Installation gilt als vertrauenswürdig.
+ */
+export async function importFlightFile(content: string, filename: string): Promise<FlightImportResult> {
+  const result = parseFlightFile(content, filename)
+  if (!result.success || result.format !== 'igc') return result
+
+  result.signature = await verifyIGCSignature(content, await getTrustedFingerprints())
+  if (result.signature.signed && !result.signature.valid) {
+    result.warnings.push(result.signature.error || 'Signatur ungültig')
+  }
+  return result
+}
+
+/**
+ * Kurzer Text zum Signaturstatus für die Anzeige
+ */
+export function describeSignature(signature: IGCVerification): string {
+  if (!signature.signed) return 'Nicht signiert'
+  if (!signature.valid) return 'Signatur UNGÜLTIG – Datei wurde verändert'
+  if (signature.trusted) return 'Signatur gültig (eigene Installation)'
+  return `Signatur gültig, Schlüssel unbekannt (${signature.keyFingerprint})`
+}
+
+/**
+ * IGC Koordinate (DDMMmmmN / DDDMMmmmE) in Dezimalgrad
+ */
+function parseIGCCoord(value: string, isLatitude: boolean): number {
+  const degLength = isLatitude ? 2 : 3
+  const degrees = parseInt(value.slice(0, degLength), 10)
+  const minutes = parseInt(value.slice(degLength, degLength + 2), 10)
+  const minutesFrac = parseInt(value.slice(degLength + 2, degLength + 5), 10)
+  const hemisphere = value[degLength + 5]
+
+  const decimal = degrees + (minutes + minutesFrac / 1000) / 60
+  return hemisphere === 'S' || hemisphere === 'W' ? -decimal : decimal
+}
+
+/**
+ * IGC Zeit (HHMMSS) in Sekunden seit Mitternacht UTC
+ */
+function parseIGCTime(value: string): number {
+  return parseInt(value.slice(0, 2), 10) * 3600 +
+         parseInt(value.slice(2, 4), 10) * 60 +
+         parseInt(value.slice(4, 6), 10)
+}
+
+/**
+ * HFDTE Record lesen - alte Form "HFDTEDDMMYY" und neue Form "HFDTEDATE:DDMMYY,NN"
+ */
+function parseIGCDate(line: string): number | null {
+  const match = line.match(/^HFDTE(?:DATE:)?(\d{2})(\d{2})(\d{2})/)
+  if (!match) return null
+  const day = parseInt(match[1], 10)
+  const month = parseInt(match[2], 10)
+  const year = parseInt(match[3], 10)
+  // IGC kennt nur zweistellige Jahre - alles unter 80 liegt im 21. Jahrhundert
+  const fullYear = year < 80 ? 2000 + year : 1900 + year
+  return Date.UTC(fullYear, month - 1, day)
+}
+
+/**
+ * Position im Track zu einem Zeitpunkt (linear interpoliert)
+ */
+function interpolateTrackPosition(track: TrackPoint[], time: Date): GPSPosition | null {
+  if (track.length === 0) return null
+  const t = time.getTime()
+
+  if (t <= track[0].timestamp.getTime()) return { ...track[0].position, timestamp: time }
+  const last = track[track.length - 1]
+  if (t >= last.timestamp.getTime()) return { ...last.position, timestamp: time }
+
+  for (let i = 1; i < track.length; i++) {
+    const a = track[i - 1]
+    const b = track[i]
+    const tb = b.timestamp.getTime()
+    if (t > tb) continue
+
+    const ta = a.timestamp.getTime()
+    const ratio = tb === ta ? 0 : (t - ta) / (tb - ta)
+    return {
+      latitude: a.position.latitude + (b.position.latitude - a.position.latitude) * ratio,
+      longitude: a.position.longitude + (b.position.longitude - a.position.longitude) * ratio,
+      altitude: a.position.altitude + (b.position.altitude - a.position.altitude) * ratio,
+      timestamp: time
+    }
+  }
+  return null
+}
+
+/**
+ * Abgeleitete Werte (Speed, Kurs, Vario, Distanz) wie bei der Live-Aufzeichnung ergänzen
+ */
+function enrichTrack(track: TrackPoint[]): void {
+  if (track.length === 0) return
+  const startMs = track[0].timestamp.getTime()
+
+  for (let i = 0; i < track.length; i++) {
+    const point = track[i]
+    point.timeFromStart = (point.timestamp.getTime() - startMs) / 1000
+    point.recordingReason = 'time'
+
+    if (i === 0) {
+      point.distance = 0
+      point.speed = 0
+      point.verticalSpeed = 0
+      continue
+    }
+
+    const prev = track[i - 1]
+    const dt = (point.timestamp.getTime() - prev.timestamp.getTime()) / 1000
+    const distance = calculateDistance(
+      prev.position.latitude, prev.position.longitude,
+      point.position.latitude, point.position.longitude
+    )
+
+    point.distance = distance
+    point.speed = dt > 0 ? distance / dt : prev.speed
+    point.heading = distance > 0.5
+      ? calculateBearing(prev.position.latitude, prev.position.longitude, point.position.latitude, point.position.longitude)
+      : prev.heading
+    point.verticalSpeed = dt > 0 ? (point.baro.pressureAltitude - prev.baro.pressureAltitude) / dt : 0
+    point.baro.variometer = point.verticalSpeed
+  }
+}
+
+function createTrackPoint(position: GPSPosition, pressureAltitude: number): TrackPoint {
+  return {
+    position,
+    baro: {
+      pressureAltitude,
+      qnh: STANDARD_QNH,
+      variometer: 0,
+      timestamp: position.timestamp
+    },
+    timestamp: position.timestamp
+  }
+}
+
+function createFlight(track: TrackPoint[], filename: string): Flight {
+  return {
+    id: crypto.randomUUID(),
+    startTime: track[0].timestamp,
+    endTime: track[track.length - 1].timestamp,
+    track,
+    markers: [],
+    declarations: [],
+    tasks: [],
+    pilot: '',
+    notes: `Importiert aus ${filename}`
+  }
+}
+
+// IGC Parser
+export function parseIGCFlight(content: string, filename: string): FlightImportResult {
+  const result: FlightImportResult = {
+    success: false,
+    format: 'igc',
+    flight: null,
+    errors: [],
+    warnings: []
+  }
+
+  try {
+    const lines = content.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0)
+
+    let dayStartMs: number | null = null
+    let pilot = ''
+    let balloon: string | undefined
+    let competition: string | undefined
+    for (const line of lines) {
+      if (line.startsWith('HFDTE')) dayStartMs = parseIGCDate(line)
+      else if (line.startsWith('HFPLTPILOT')) pilot = line.slice(line.indexOf(':') + 1).trim()
+      else if (line.startsWith('HFGTYGLIDERTYPE')) balloon = line.slice(line.indexOf(':') + 1).trim() || undefined
+      else if (line.startsWith('HFCIDCOMPETITIONID')) competition = line.slice(line.indexOf(':') + 1).trim() || undefined
+    }
+
+    if (dayStartMs === null) {
+      result.warnings.push('Kein Datum (HFDTE) gefunden - heutiges Datum wird verwendet')
+      const now = new Date()
+      dayStartMs = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+    }
+
+    // Zeitstempel über Mitternacht hinweg fortlaufend halten (nur B Records schalten den Tag weiter)
+    let dayOffset = 0
+    let lastSeconds = -1
+    const toDate = (time: string, isFix = false): Date => {
+      const seconds = parseIGCTime(time)
+      if (isFix) {
+        if (lastSeconds >= 0 && seconds < lastSeconds - 12 * 3600) dayOffset++
+        lastSeconds = seconds
+      }
+      return new Date(dayStartMs! + (dayOffset * 86400 + seconds) * 1000)
+    }
+
+    const track: TrackPoint[] = []
+    const events: { time: Date; text: string }[] = []
+    const goals: { time: Date; lat: number; lon: number; name: string }[] = []
+    let invalidFixes = 0
+
+    for (const line of lines) {
+      // B HHMMSS DDMMmmmN DDDMMmmmE V PPPPP GGGGG
+      const b = line.match(/^B(\d{6})(\d{7}[NS])(\d{8}[EW])([AV])([-\d]\d{4})([-\d]\d{4})/)
+      if (b) {
+        if (b[4] === 'V') invalidFixes++
+        const timestamp = toDate(b[1], true)
+        const pressureAltitude = parseInt(b[5], 10)
+        const gpsAltitude = parseInt(b[6], 10)
+        track.push(createTrackPoint({
+          latitude: parseIGCCoord(b[2], true),
+          longitude: parseIGCCoord(b[3], false),
+          // Manche Logger schreiben keine GPS-Höhe - dann Druckhöhe verwenden
+          altitude: gpsAltitude !== 0 ? gpsAltitude : pressureAltitude,
+          timestamp
+        }, pressureAltitude !== 0 ? pressureAltitude : gpsAltitude))
+        continue
+      }
+
+      // E HHMMSS TLC Text
+      const e = line.match(/^E(\d{6})([A-Z]{3})(.*)$/)
+      if (e) {
+        events.push({ time: toDate(e[1]), text: `${e[2]}${e[3]}` })
+        continue
+      }
+
+      // Zieldeklarationen: LNTAGOAL (NTA Export) oder K Record mit Koordinaten
+      const k = line.match(/^(?:LNTAGOAL|K)(\d{6})(\d{7}[NS])(\d{8}[EW])(.*)$/)
+      if (k) {
+        goals.push({
+          time: toDate(k[1]),
+          lat: parseIGCCoord(k[2], true),
+          lon: parseIGCCoord(k[3], false),
+          name: k[4].trim()
+        })
+      }
+    }
+
+    if (track.length < 2) {
+      result.errors.push('Keine gueltigen Trackpunkte (B Records) in der IGC-Datei gefunden')
+      return result
+    }
+
+    track.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    enrichTrack(track)
+
+    if (invalidFixes > 0) {
+      result.warnings.push(`${invalidFixes} Trackpunkte ohne 3D-Fix (V)`)
+    }
+
+    const flight = createFlight(track, filename)
+    flight.pilot = pilot
+    flight.balloon = balloon
+    flight.competition = competition
+    flight.markers = buildMarkersFromEvents(events, track, result.warnings)
+    flight.declarations = buildDeclarations(goals, track)
+
+    result.flight = flight
+    result.success = true
+  } catch (e: any) {
+    result.errors.push(`IGC-Fehler: ${e.message}`)
+  }
+
+  return result
+}
+
+/**
+ * Marker aus E Records rekonstruieren.
+ * NTA schreibt "PEVMarker<n>", andere Logger nur "PEV" (Pilot Event) - dann fortlaufend nummerieren.
+ */
+function buildMarkersFromEvents(
+  events: { time: Date; text: string }[],
+  track: TrackPoint[],
+  warnings: string[]
+): MarkerDrop[] {
+  const markers: MarkerDrop[] = []
+  let ignored = 0
+
+  for (const event of events) {
+    const isMarker = event.text.startsWith('PEV') || /marker|mkr/i.test(event.text)
+    if (!isMarker) {
+      ignored++
+      continue
+    }
+
+    const position = interpolateTrackPosition(track, event.time)
+    if (!position) continue
+
+    const numberMatch = event.text.match(/(\d+)/)
+    const number = numberMatch ? parseInt(numberMatch[1], 10) : markers.length + 1
+
+    markers.push({
+      id: crypto.randomUUID(),
+      number,
+      position,
+      altitude: position.altitude,
+      timestamp: event.time,
+      notes: event.text.slice(3).trim() || undefined
+    })
+  }
+
+  if (ignored > 0) {
+    warnings.push(`${ignored} E Records ohne Marker-Bezug ignoriert`)
+  }
+
+  return markers
+}
+
+/**
+ * Zieldeklarationen aus LNTAGOAL / K Records rekonstruieren
+ */
+function buildDeclarations(
+  goals: { time: Date; lat: number; lon: number; name: string }[],
+  track: TrackPoint[]
+): GoalDeclaration[] {
+  return goals.map((g, index) => {
+    const position = interpolateTrackPosition(track, g.time) || {
+      latitude: g.lat, longitude: g.lon, altitude: 0, timestamp: g.time
+    }
+    return {
+      id: crypto.randomUUID(),
+      number: index + 1,
+      declaredAt: g.time,
+      position,
+      goal: {
+        id: crypto.randomUUID(),
+        name: g.name || `Goal ${index + 1}`,
+        position: { latitude: g.lat, longitude: g.lon, altitude: 0, timestamp: g.time },
+        radius: DEFAULT_GOAL_RADIUS,
+        type: GoalType.Ground,
+        declaredBy: 'pilot',
+        declaredAt: g.time
+      }
+    }
+  })
+}
+
+// GPX Parser
+export function parseGPXFlight(content: string, filename: string): FlightImportResult {
+  const result: FlightImportResult = {
+    success: false,
+    format: 'gpx',
+    flight: null,
+    errors: [],
+    warnings: []
+  }
+
+  try {
+    const parser = new DOMParser()
+    const doc = parser.parseFromString(content, 'text/xml')
+
+    const parseError = doc.querySelector('parsererror')
+    if (parseError) {
+      result.errors.push('GPX-Datei konnte nicht gelesen werden (XML-Fehler)')
+      return result
+    }
+
+    const track: TrackPoint[] = []
+    let withoutTime = 0
+
+    const trkpts = doc.querySelectorAll('trkpt')
+    for (let p = 0; p < trkpts.length; p++) {
+      const pt = trkpts[p]
+      const lat = parseFloat(pt.getAttribute('lat') || '')
+      const lon = parseFloat(pt.getAttribute('lon') || '')
+      if (isNaN(lat) || isNaN(lon)) continue
+
+      const timeText = pt.querySelector('time')?.textContent
+      const timestamp = timeText ? new Date(timeText) : null
+      if (!timestamp || isNaN(timestamp.getTime())) {
+        withoutTime++
+        continue
+      }
+
+      const ele = parseFloat(pt.querySelector('ele')?.textContent || '0')
+      const altitude = isNaN(ele) ? 0 : ele
+
+      // GPX kennt keine Druckhöhe - GPS-Höhe übernehmen
+      track.push(createTrackPoint({ latitude: lat, longitude: lon, altitude, timestamp }, altitude))
+    }
+
+    if (withoutTime > 0) {
+      result.warnings.push(`${withoutTime} Trackpunkte ohne Zeitstempel uebersprungen`)
+    }
+
+    if (track.length < 2) {
+      result.errors.push('Keine Trackpunkte mit Zeitstempel (<trkpt>) in der GPX-Datei gefunden')
+      return result
+    }
+
+    track.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    enrichTrack(track)
+
+    const flight = createFlight(track, filename)
+    flight.pilot = doc.querySelector('metadata > author > name')?.textContent?.trim() || ''
+
+    // Wegpunkte mit Zeitstempel innerhalb der Fahrt als Marker übernehmen
+    const startMs = track[0].timestamp.getTime()
+    const endMs = track[track.length - 1].timestamp.getTime()
+    const wpts = doc.querySelectorAll('wpt')
+    for (let w = 0; w < wpts.length; w++) {
+      const wpt = wpts[w]
+      const lat = parseFloat(wpt.getAttribute('lat') || '')
+      const lon = parseFloat(wpt.getAttribute('lon') || '')
+      const timeText = wpt.querySelector('time')?.textContent
+      const timestamp = timeText ? new Date(timeText) : null
+      if (isNaN(lat) || isNaN(lon) || !timestamp || isNaN(timestamp.getTime())) continue
+      if (timestamp.getTime() < startMs || timestamp.getTime() > endMs) continue
+
+      const name = wpt.querySelector('name')?.textContent?.trim() || ''
+      const numberMatch = name.match(/(\d+)/)
+      const ele = parseFloat(wpt.querySelector('ele')?.textContent || '')
+      const altitude = isNaN(ele) ? (interpolateTrackPosition(track, timestamp)?.altitude ?? 0) : ele
+
+      flight.markers.push({
+        id: crypto.randomUUID(),
+        number: numberMatch ? parseInt(numberMatch[1], 10) : flight.markers.length + 1,
+        position: { latitude: lat, longitude: lon, altitude, timestamp },
+        altitude,
+        timestamp,
+        notes: name || undefined
+      })
+    }
+    flight.markers.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+
+    result.flight = flight
+    result.success = true
+  } catch (e: any) {
+    result.errors.push(`GPX-Fehler: ${e.message}`)
+  }
+
+  return result
+}
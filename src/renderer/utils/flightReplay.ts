@@ -0,0 +1,236 @@
+/**
+ * Flug-Replay für NTA
+ * Rekonstruiert aus einer gespeicherten Fahrt den Zustand zu einem beliebigen Zeitpunkt:
+ * GPS/Baro wie vom Sensor, Track bis zu diesem Moment, gesetzte Marker/Deklarationen
+ * und die Windschichten so wie sie der Pilot in diesem Moment gesehen hat.
+ */
+
+import { GPSFix, WindSource } from '../../shared/types'
+import type {
+  AppSettings, BaroData, GPSData, GoalDeclaration, MarkerDrop, TrackPoint, WindLayer
+} from '../../shared/types'
+import { getWindLayerBand } from './trackWindProfile'
+
+export interface ReplaySource {
+  track: TrackPoint[]
+  markers: MarkerDrop[]
+  declarations: GoalDeclaration[]
+  windLayers: WindLayer[]  // Gespeicherte Schichten (Forecast/Manuell/Sondierung bleiben erhalten)
+}
+
+export interface ReplayFrame {
+  gpsData: GPSData
+  baroData: BaroData
+  track: TrackPoint[]
+  trackLine: [number, number][]
+  markers: MarkerDrop[]
+  declarations: GoalDeclaration[]
+  windLayers: WindLayer[]
+}
+
+// Abspielgeschwindigkeiten für die Timeline
+export const REPLAY_SPEEDS = [1, 2, 5, 10, 30, 60]
+
+// Wie bei der Live-Messung: stabil nach 8s mit |Vario| < 2 m/s
+const STABLE_VARIO_MS = 2.0
+const STABLE_SECONDS = 8
+
+/**
+ * Gespeicherte Fahrt (JSON aus flights:load oder trackDb) in eine Replay-Quelle umwandeln.
+ * Zeitstempel liegen nach JSON-Serialisierung als String vor.
+ */
+export function createReplaySource(data: {
+  track?: any[]
+  markers?: any[]
+  declarations?: any[]
+  windLayers?: any[]
+}): ReplaySource {
+  const d = (v: any): Date => v instanceof Date ? v : new Date(v)
+
+  const track: TrackPoint[] = (data.track || [])
+    .map((tp: any) => ({
+      ...tp,
+      position: { ...tp.position, timestamp: d(tp.position?.timestamp ?? tp.timestamp) },
+      baro: tp.baro
+        ? { ...tp.baro, timestamp: d(tp.baro.timestamp ?? tp.timestamp) }
+        : { pressureAltitude: tp.position?.altitude || 0, qnh: 1013.25, variometer: 0, timestamp: d(tp.timestamp) },
+      timestamp: d(tp.timestamp)
+    }))
+    .filter((tp: TrackPoint) => !isNaN(tp.timestamp.getTime()))
+    .sort((a: TrackPoint, b: TrackPoint) => a.timestamp.getTime() - b.timestamp.getTime())
+
+  const markers: MarkerDrop[] = (data.markers || []).map((m: any) => ({
+    ...m,
+    position: { ...m.position, timestamp: d(m.position?.timestamp ?? m.timestamp) },
+    timestamp: d(m.timestamp)
+  }))
+
+  const declarations: GoalDeclaration[] = (data.declarations || []).map((decl: any) => ({
+    ...decl,
+    declaredAt: d(decl.declaredAt),
+    position: { ...decl.position, timestamp: d(decl.position?.timestamp ?? decl.declaredAt) },
+    goal: decl.goal ? {
+      ...decl.goal,
+      position: { ...decl.goal.position, timestamp: d(decl.goal.position?.timestamp ?? decl.declaredAt) },
+      declaredAt: decl.goal.declaredAt ? d(decl.goal.declaredAt) : undefined
+    } : decl.goal
+  }))
+
+  const windLayers: WindLayer[] = (data.windLayers || []).map((wl: any) => ({
+    ...wl,
+    timestamp: d(wl.timestamp),
+    stableSince: wl.stableSince ? d(wl.stableSince) : undefined
+  }))
+
+  return { track, markers, declarations, windLayers }
+}
+
+/**
+ * Index des letzten Trackpunkts mit timestamp <= time (binäre Suche), -1 wenn davor
+ */
+function findTrackIndex(track: TrackPoint[], time: number): number {
+  let lo = 0
+  let hi = track.length - 1
+  let result = -1
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1
+    if (track[mid].timestamp.getTime() <= time) {
+      result = mid
+      lo = mid + 1
+    } else {
+      hi = mid - 1
+    }
+  }
+  return result
+}
+
+function lerp(a: number, b: number, ratio: number): number {
+  return a + (b - a) * ratio
+}
+
+function lerpAngle(a: number, b: number, ratio: number): number {
+  let diff = b - a
+  if (diff > 180) diff -= 360
+  if (diff < -180) diff += 360
+  return (a + diff * ratio + 360) % 360
+}
+
+/**
+ * Gemessene Windschichten bis zum Zeitpunkt aus dem Track nachbilden.
+ * Gleiche Logik wie im Store: Intervall-Rundung, 70/30 Glättung, Forecast-Ersatz, Stabilität.
+ */
+function rebuildWindLayers(source: ReplaySource, lastIndex: number, settings: AppSettings): WindLayer[] {
+  // Gemessene Schichten entstehen neu aus dem Track, alle anderen Quellen bleiben
+  let layers = source.windLayers.filter(l => l.source !== WindSource.Measured)
+
+  for (let i = 0; i <= lastIndex; i++) {
+    const point = source.track[i]
+    const speedKmh = (point.speed || 0) * 3.6
+    if (speedKmh <= 0.5 || point.heading === undefined) continue
+
+    const { altitude, toleranceM } = getWindLayerBand(point.baro?.pressureAltitude || point.position.altitude, settings)
+    const direction = (point.heading + 180) % 360
+    const vario = point.verticalSpeed ?? point.baro?.variometer ?? 0
+    const isCurrentlyStable = Math.abs(vario) < STABLE_VARIO_MS
+    const now = point.timestamp
+
+    layers = layers.filter(l => l.source !== WindSource.Forecast || Math.abs(l.altitude - altitude) > toleranceM)
+
+    const existing = layers.find(l => l.altitude === altitude)
+    if (existing) {
+      let stableSince = existing.stableSince
+      let isStable = existing.isStable || false
+      if (isCurrentlyStable) {
+        if (!stableSince) stableSince = now
+        if ((now.getTime() - stableSince.getTime()) / 1000 >= STABLE_SECONDS) isStable = true
+      } else {
+        stableSince = undefined
+        isStable = false
+      }
+
+      const updated: WindLayer = {
+        ...existing,
+        direction: Math.round(lerpAngle(existing.direction, direction, 0.3)),
+        speed: Math.round((existing.speed * 0.7 + speedKmh * 0.3) * 10) / 10,
+        timestamp: now,
+        source: WindSource.Measured,
+        isStable,
+        stableSince,
+        vario: Math.round(vario * 10) / 10
+      }
+      layers = layers.map(l => l === existing ? updated : l)
+    } else {
+      layers.push({
+        altitude,
+        direction: Math.round(direction),
+        speed: Math.round(speedKmh * 10) / 10,
+        timestamp: now,
+        source: WindSource.Measured,
+        isStable: false,
+        stableSince: isCurrentlyStable ? now : undefined,
+        vario: Math.round(vario * 10) / 10
+      })
+    }
+  }
+
+  return layers.sort((a, b) => a.altitude - b.altitude)
+}
+
+/**
+ * Zustand der Fahrt zum Zeitpunkt time (ms) berechnen
+ */
+export function getReplayFrame(source: ReplaySource, time: number, settings: AppSettings): ReplayFrame | null {
+  const { track } = source
+  if (track.length === 0) return null
+
+  const index = Math.max(0, findTrackIndex(track, time))
+  const current = track[index]
+  const next = track[Math.min(index + 1, track.length - 1)]
+
+  // Zwischen zwei Trackpunkten interpolieren, damit der Ballon beim Abspielen flüssig fährt
+  const t0 = current.timestamp.getTime()
+  const t1 = next.timestamp.getTime()
+  const ratio = t1 > t0 ? Math.min(1, Math.max(0, (time - t0) / (t1 - t0))) : 0
+  const timestamp = new Date(Math.max(time, t0))
+
+  const latitude = lerp(current.position.latitude, next.position.latitude, ratio)
+  const longitude = lerp(current.position.longitude, next.position.longitude, ratio)
+  const altitude = lerp(current.position.altitude, next.position.altitude, ratio)
+  const pressureAltitude = lerp(current.baro?.pressureAltitude || current.position.altitude, next.baro?.pressureAltitude || next.position.altitude, ratio)
+  const heading = next.heading !== undefined && current.heading !== undefined
+    ? lerpAngle(current.heading, next.heading, ratio)
+    : current.heading ?? 0
+
+  const gpsData: GPSData = {
+    latitude,
+    longitude,
+    altitude,
+    speed: lerp(current.speed || 0, next.speed || 0, ratio) * 3.6, // m/s -> km/h
+    heading,
+    satellites: 12,
+    hdop: 0.8,
+    timestamp,
+    fix: GPSFix.GPS
+  }
+
+  const baroData: BaroData = {
+    pressureAltitude,
+    qnh: current.baro?.qnh || 1013.25,
+    variometer: current.verticalSpeed ?? current.baro?.variometer ?? 0,
+    timestamp
+  }
+
+  const visibleTrack = track.slice(0, index + 1)
+  const trackLine = visibleTrack.map(tp => [tp.position.latitude, tp.position.longitude] as [number, number])
+  trackLine.push([latitude, longitude])
+
+  return {
+    gpsData,
+    baroData,
+    track: visibleTrack,
+    trackLine,
+    markers: source.markers.filter(m => m.timestamp.getTime() <= time),
+    declarations: source.declarations.filter(d => d.declaredAt.getTime() <= time),
+    windLayers: rebuildWindLayers(source, index, settings)
+  }
+}
@@ -145,3 +145,14 @@ export function formatWindDirection(degrees: number): string {
   const index = Math.round(degrees / 22.5) % 16
   return `${Math.round(degrees)}° (${directions[index]})`
 }
+
+/**
+ * Formatiert das Alter einer Meldung relativ zu jetzt (z.B. "vor 3 min")
+ */
+export function formatAge(date: Date, now: number = Date.now()): string {
+  const seconds = Math.max(0, Math.round((now - date.getTime()) / 1000))
+  if (seconds < 10) return 'jetzt'
+  if (seconds < 60) return `vor ${seconds} s`
+  if (seconds < 3600) return `vor ${Math.floor(seconds / 60)} min`
+  return `vor ${Math.floor(seconds / 3600)} h`
+}
@@ -0,0 +1,312 @@
+/**
+ * Gasverbrauch und Restzeit
+ *
+ * Der in der Flasche eingetragene Verbrauch (consumptionPerHour) gilt für den
+ * Horizontalflug bei Normbedingungen. Der tatsächliche Verbrauch hängt davon ab,
+ * wie der Ballon gefahren wird und wie kalt die Luft ist:
+ * - Wärmeverlust der Hülle ~ Hüllentemperatur - Außentemperatur (Außentemperatur
+ *   aus Bodentemperatur und Standard-Temperaturgradient)
+ * - Steigen kostet zusätzlich Gas, beim Sinken bleibt der Brenner meist aus
+ *
+ * Aus dem Track ergibt sich daraus ein Verbrauchsfaktor (1 = Nennverbrauch), über
+ * den die verbrauchten Liter integriert werden. Für die Restzeit wird der mittlere
+ * Faktor der letzten Minuten fortgeschrieben. Brennstöße (Anstieg des geglätteten
+ * Varios) werden nur gezählt - ihr Gas steckt schon im Steig-Anteil.
+ *
+ * Die Samples werden beim Anhängen neuer Trackpunkte fortgeschrieben statt bei jedem
+ * Aufruf aus dem ganzen Track neu gerechnet, mit laufendem Integral für Abfragen in O(log n).
+ */
+
+import type { AppSettings, GasBottle, GasBottleState, TrackPoint } from '../../shared/types'
+
+export const DEFAULT_ENVELOPE_TEMP = 100  // °C im Horizontalflug
+export const DEFAULT_GROUND_TEMP = 15     // °C
+
+const REF_DELTA_T = 85          // K - Hülle 100 °C bei 15 °C Außentemperatur (Nennverbrauch)
+const LAPSE_RATE = 0.0065       // K/m
+const MIN_LOSS_FACTOR = 0.3
+
+const CLIMB_FACTOR = 0.3        // Mehrverbrauch pro m/s Steigen
+const SINK_FACTOR = 0.4         // Minderverbrauch pro m/s Sinken
+const MIN_ACTIVITY = 0.15       // Auch beim Sinken gelegentliche Stützbrennstöße
+const MAX_FACTOR = 3
+
+const VZ_SMOOTH_SEC = 10        // Gleitender Mittelwert des Varios gegen Rauschen
+const BURN_ACCEL = 0.08         // m/s² - geglättetes Vario steigt um ~1 m/s in 12 s
+const MAX_DIFF_SEC = 30         // Größere Lücken: keine Beschleunigung ableiten
+const HOLD_SEC = 60             // So lange gilt der Randwert außerhalb des Tracks, danach Nennverbrauch
+const FORECAST_WINDOW_SEC = 900 // Mittelwert der letzten 15 min für die Restzeit
+
+export interface GasModelParams {
+  envelopeTemp: number  // °C
+  groundTemp: number    // °C
+}
+
+export interface BottleGasStatus {
+  bottleId: string
+  usedLiters: number
+  remainingLiters: number
+  remainingMinutes: number  // abzüglich Reserve, kann negativ werden
+}
+
+export interface GasStatus {
+  bottles: BottleGasStatus[]
+  factor: number              // Verbrauchsfaktor der letzten Minuten (1 = Nennverbrauch)
+  litersPerHour: number       // Aktueller Verbrauch der aktiven (sonst ersten) Flasche
+  burnsPerMinute: number | null  // Erkannte Brennstöße, null ohne Track
+  remainingLiters: number
+  enduranceMinutes: number    // Restzeit aller Flaschen abzüglich Reserve (≥ 0)
+}
+
+interface BurnSample {
+  t: number       // ms
+  factor: number
+  burn: boolean   // Beginn eines Brennstoßes
+  cum: number     // Faktor-Integral (Sekunden) ab dem ersten Sample
+}
+
+// Fortschreibbarer Zustand der Sample-Berechnung für den zuletzt gesehenen Track
+interface SampleCache {
+  params: GasModelParams
+  first: TrackPoint
+  last: TrackPoint
+  length: number
+  samples: BurnSample[]
+  groundAlt: number
+  prev: { t: number; alt: number } | null
+  window: { t: number; vz: number }[]  // Vario der letzten VZ_SMOOTH_SEC
+  windowSum: number
+  prevVz: number | null
+  prevT: number
+  burning: boolean
+}
+
+let sampleCache: SampleCache | null = null
+
+export function gasModelParams(settings: Pick<AppSettings, 'gasEnvelopeTemp' | 'gasGroundTemp'>): GasModelParams {
+  return {
+    envelopeTemp: settings.gasEnvelopeTemp ?? DEFAULT_ENVELOPE_TEMP,
+    groundTemp: settings.gasGroundTemp ?? DEFAULT_GROUND_TEMP
+  }
+}
+
+function pointAltitude(p: TrackPoint): number {
+  return p.baro?.pressureAltitude || p.position?.altitude || 0
+}
+
+/** Wärmeverlust relativ zu Normbedingungen bei heightAboveGround Metern */
+function lossFactor(params: GasModelParams, heightAboveGround: number): number {
+  const ambient = params.groundTemp - LAPSE_RATE * heightAboveGround
+  return Math.max(MIN_LOSS_FACTOR, (params.envelopeTemp - ambient) / REF_DELTA_T)
+}
+
+function trackPointSample(p: TrackPoint) {
+  return { t: new Date(p.timestamp).getTime(), alt: pointAltitude(p), vz: p.baro?.variometer ?? p.verticalSpeed }
+}
+
+/** Nächsten Trackpunkt verarbeiten, false wenn er älter als der letzte ist */
+function appendSample(cache: SampleCache, p: { t: number; alt: number; vz?: number }): boolean {
+  if (!Number.isFinite(p.t)) return true
+  if (cache.prev && p.t < cache.prev.t) return false
+
+  let vz = p.vz
+  if (vz === undefined || !Number.isFinite(vz)) {
+    const q = cache.prev
+    vz = q && p.t > q.t ? (p.alt - q.alt) / ((p.t - q.t) / 1000) : 0
+  }
+  if (!cache.prev) cache.groundAlt = p.alt
+  cache.prev = { t: p.t, alt: p.alt }
+
+  // Geglättetes Vario, damit Rauschen weder als Steigen noch als Brennstoß zählt
+  cache.window.push({ t: p.t, vz })
+  cache.windowSum += vz
+  while (cache.window[0].t < p.t - VZ_SMOOTH_SEC * 1000) cache.windowSum -= cache.window.shift()!.vz
+  const smoothVz = cache.windowSum / cache.window.length
+
+  const activity = smoothVz >= 0 ? 1 + CLIMB_FACTOR * smoothVz : Math.max(MIN_ACTIVITY, 1 + SINK_FACTOR * smoothVz)
+  let accel = 0
+  const dt = (p.t - cache.prevT) / 1000
+  if (cache.prevVz !== null && dt > 0 && dt <= MAX_DIFF_SEC) accel = (smoothVz - cache.prevVz) / dt
+
+  // Brennstoß beginnt über der Schwelle und endet erst, wenn das Vario nicht mehr steigt
+  const burning = cache.burning ? accel > 0 : accel > BURN_ACCEL
+  const factor = lossFactor(cache.params, p.alt - cache.groundAlt) * Math.min(MAX_FACTOR, activity)
+  const last = cache.samples[cache.samples.length - 1]
+  cache.samples.push({
+    t: p.t,
+    factor,
+    burn: burning && !cache.burning,
+    cum: last ? last.cum + (last.factor + factor) / 2 * (p.t - last.t) / 1000 : 0
+  })
+  cache.burning = burning
+  cache.prevVz = smoothVz
+  cache.prevT = p.t
+  return true
+}
+
+function emptyCache(track: TrackPoint[], params: GasModelParams): SampleCache {
+  return {
+    params, first: track[0], last: track[track.length - 1], length: 0, samples: [],
+    groundAlt: 0, prev: null, window: [], windowSum: 0, prevVz: null, prevT: 0, burning: false
+  }
+}
+
+/**
+ * Verbrauchsfaktor für jeden Trackpunkt. Wurde der Track seit dem letzten Aufruf nur
+ * verlängert, werden nur die neuen Punkte verarbeitet.
+ */
+function burnSamples(track: TrackPoint[], params: GasModelParams): BurnSample[] {
+  if (track.length === 0) return []
+
+  const cache = sampleCache
+  if (cache && cache.length > 0 && cache.length <= track.length &&
+      track[0] === cache.first && track[cache.length - 1] === cache.last &&
+      cache.params.envelopeTemp === params.envelopeTemp && cache.params.groundTemp === params.groundTemp) {
+    let inOrder = true
+    for (let i = cache.length; i < track.length && inOrder; i++) inOrder = appendSample(cache, trackPointSample(track[i]))
+    if (inOrder) {
+      cache.length = track.length
+      cache.last = track[track.length - 1]
+      return cache.samples
+    }
+  }
+
+  // Neuer oder umsortierter Track: komplett neu aufbauen
+  const fresh = emptyCache(track, params)
+  track
+    .map(trackPointSample)
+    .filter(p => Number.isFinite(p.t))
+    .sort((a, b) => a.t - b.t)
+    .forEach(p => appendSample(fresh, p))
+  fresh.length = track.length
+  sampleCache = fresh
+  return fresh.samples
+}
+
+/** Index des ersten Samples mit t >= ms (samples.length wenn keins) */
+function firstSampleAtOrAfter(samples: BurnSample[], ms: number): number {
+  let lo = 0, hi = samples.length
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1
+    if (samples[mid].t < ms) lo = mid + 1
+    else hi = mid
+  }
+  return lo
+}
+
+/** Faktor-Integral (Sekunden) vom ersten Sample bis ms, ms innerhalb des Tracks */
+function cumulativeAt(samples: BurnSample[], ms: number): number {
+  const i = firstSampleAtOrAfter(samples, ms)
+  if (i === 0) return 0
+  if (i >= samples.length) return samples[samples.length - 1].cum
+  const a = samples[i - 1], b = samples[i]
+  const f = a.factor + (b.factor - a.factor) * (ms - a.t) / (b.t - a.t)
+  return a.cum + (a.factor + f) / 2 * (ms - a.t) / 1000
+}
+
+/** Länge (ms) der Überlappung von [fromMs, toMs] mit [a, b] */
+function overlap(fromMs: number, toMs: number, a: number, b: number): number {
+  return Math.max(0, Math.min(toMs, b) - Math.max(fromMs, a))
+}
+
+/**
+ * Faktor-Integral (Sekunden) über [fromMs, toMs].
+ * Außerhalb des Tracks gilt der Randwert nur HOLD_SEC lang (GPS-Ausfall, Flasche
+ * vor Aufzeichnungsbeginn aktiviert, alter Track), danach der Nennverbrauch.
+ */
+function integrateFactor(samples: BurnSample[], fromMs: number, toMs: number, fallback: number): number {
+  if (toMs <= fromMs) return 0
+  if (samples.length === 0) return fallback * (toMs - fromMs) / 1000
+
+  let sum = 0
+  const first = samples[0], last = samples[samples.length - 1]
+  const hold = HOLD_SEC * 1000
+  sum += first.factor * overlap(fromMs, toMs, first.t - hold, first.t)
+  sum += fallback * overlap(fromMs, toMs, -Infinity, first.t - hold)
+  sum += last.factor * overlap(fromMs, toMs, last.t, last.t + hold)
+  sum += fallback * overlap(fromMs, toMs, last.t + hold, Infinity)
+
+  // Innerhalb des Tracks über das laufende Integral
+  const from = Math.max(fromMs, first.t)
+  const to = Math.min(toMs, last.t)
+  const inside = to > from ? cumulativeAt(samples, to) - cumulativeAt(samples, from) : 0
+  return sum / 1000 + inside
+}
+
+/**
+ * Verbrauchte Liter einer Flasche zwischen fromMs und toMs.
+ * Ohne Track: Nennverbrauch, korrigiert um die Temperaturannahmen.
+ */
+export function modeledLitersUsed(
+  track: TrackPoint[],
+  fromMs: number,
+  toMs: number,
+  consumptionPerHour: number,
+  params: GasModelParams
+): number {
+  const factorSec = integrateFactor(burnSamples(track, params), fromMs, toMs, lossFactor(params, 0))
+  return consumptionPerHour * factorSec / 3600
+}
+
+/**
+ * Gasstatus aller Flaschen: verbrauchte/verbleibende Liter aus dem Flugverhalten,
+ * aktueller Verbrauch und Restzeit bis zur Reserve.
+ */
+export function computeGasStatus(
+  bottles: GasBottle[],
+  state: GasBottleState,
+  track: TrackPoint[],
+  nowMs: number,
+  params: GasModelParams,
+  reserveMinutes: number
+): GasStatus {
+  const samples = burnSamples(track, params)
+  const fallback = lossFactor(params, 0)
+
+  // Faktor der letzten Minuten für die Prognose
+  const windowFrom = nowMs - FORECAST_WINDOW_SEC * 1000
+  const recent = samples.slice(firstSampleAtOrAfter(samples, windowFrom), firstSampleAtOrAfter(samples, nowMs + 1))
+  const windowStart = recent.length >= 2 && nowMs > recent[0].t ? recent[0].t : null
+  const factor = windowStart !== null
+    ? integrateFactor(samples, windowStart, nowMs, fallback) / ((nowMs - windowStart) / 1000)
+    : samples.length > 0 && nowMs - samples[samples.length - 1].t <= HOLD_SEC * 1000
+      ? samples[samples.length - 1].factor
+      : fallback
+  const burnsPerMinute = windowStart !== null
+    ? recent.filter(s => s.burn).length / Math.max(1, (nowMs - windowStart) / 60000)
+    : null
+
+  const activeSinceMs = state.activeSince ? new Date(state.activeSince).getTime() : null
+  const result: BottleGasStatus[] = bottles.map(bottle => {
+    let used = state.usedBottles
+      .filter(r => r.bottleId === bottle.id)
+      .reduce((sum, r) => sum + r.litersUsed, 0)
+    if (state.activeBottleId === bottle.id && activeSinceMs !== null) {
+      used += bottle.consumptionPerHour * integrateFactor(samples, activeSinceMs, nowMs, fallback) / 3600
+    }
+    const remainingLiters = Math.max(0, bottle.totalLiters - used)
+    const perHour = bottle.consumptionPerHour * factor
+    return {
+      bottleId: bottle.id,
+      usedLiters: used,
+      remainingLiters,
+      remainingMinutes: perHour > 0 ? remainingLiters / perHour * 60 - reserveMinutes : 0
+    }
+  })
+
+  let minutes = 0
+  for (let i = 0; i < bottles.length; i++) {
+    const perHour = bottles[i].consumptionPerHour * factor
+    if (perHour > 0) minutes += result[i].remainingLiters / perHour * 60
+  }
+
+  const reference = bottles.find(b => b.id === state.activeBottleId) ?? bottles[0]
+  return {
+    bottles: result,
+    factor,
+    litersPerHour: reference ? reference.consumptionPerHour * factor : 0,
+    burnsPerMinute,
+    remainingLiters: result.reduce((sum, b) => sum + b.remainingLiters, 0),
+    enduranceMinutes: Math.max(0, minutes - reserveMinutes)
+  }
+}
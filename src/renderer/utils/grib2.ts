@@ -0,0 +1,778 @@
+/**
+ * GRIB2 Import für Vorhersage-Wind (offline)
+ * Liest Druckflächen-Felder für u/v-Wind und Geopotential aus GRIB2-Dateien (z.B. DWD Open Data
+ * regular-lat-lon, ECMWF, GFS) und liefert daraus Windschichten für beliebige Punkte und
+ * Stunden innerhalb der Datei.
+ *
+ * Unterstützt:
+ * - Gittertyp 3.0 (reguläres Lat/Lon-Gitter, alle Scan-Richtungen außer Boustrophedon)
+ * - Produkt-Templates 4.0/4.1/4.8/4.11 mit Druckflächen (Typ 100), bei Ensembles nur ein Member
+ * - Packungen 5.0 (simple), 5.2/5.3 (complex + räumliche Differenzen), 5.4 (IEEE)
+ * - Bitmaps, mehrere Felder pro Nachricht, gzip-komprimierte Dateien
+ */
+
+import { WindLayer, WindSource } from '../../shared/types'
+import type { WindField, WindFieldProfile } from './windField'
+
+export interface Grib2Grid {
+  ni: number            // Punkte pro Zeile (West-Ost)
+  nj: number            // Punkte pro Spalte (Nord-Süd)
+  lat1: number          // Breite des ersten Punkts
+  lon1: number          // Länge des ersten Punkts (0..360)
+  dLat: number          // Schritt pro Zeile (vorzeichenbehaftet)
+  dLon: number          // Schritt pro Spalte (vorzeichenbehaftet)
+  columnMajor: boolean  // Punkte spaltenweise statt zeilenweise
+}
+
+interface Grib2Packing {
+  template: number
+  numValues: number
+  reference: number
+  binaryScale: number
+  decimalScale: number
+  nbits: number
+  // Complex Packing (5.2/5.3)
+  missingMgmt: number
+  numGroups: number
+  widthRef: number
+  widthBits: number
+  lengthRef: number
+  lengthIncrement: number
+  lastGroupLength: number
+  lengthBits: number
+  sdOrder: number
+  sdOctets: number
+  // IEEE (5.4)
+  precision: number
+}
+
+export interface GribField {
+  kind: 'u' | 'v' | 'height'
+  pressure: number          // hPa
+  validTime: number         // ms UTC
+  geopotential: boolean     // Geopotential (m²/s²) statt geopotentieller Höhe
+  member?: number           // Ensemble-Member (0 = Kontrolllauf), fehlt bei deterministischen Feldern
+  grid: Grib2Grid
+  packing: Grib2Packing
+  bitmapOffset: number | null
+  dataOffset: number
+}
+
+export interface GribWindDataset {
+  bytes: Uint8Array
+  fields: GribField[]
+  times: number[]           // Gültigkeitszeiten (ms UTC), aufsteigend
+  levels: number[]          // Druckflächen (hPa), absteigend
+  bounds: { minLat: number; maxLat: number; minLon: number; maxLon: number }
+  hasHeight: boolean        // Geopotential vorhanden (sonst Standardatmosphäre)
+}
+
+export interface Grib2WindResult {
+  success: boolean
+  dataset: GribWindDataset | null
+  errors: string[]
+  warnings: string[]
+}
+
+interface ProfileLayer {
+  altitude: number
+  direction: number
+  speed: number  // km/h
+}
+
+const G0 = 9.80665
+const MAX_ALTITUDE_AGL = 5500  // ~18.000ft wie bei der Online-Vorhersage
+
+// ═══════════════════════════════════════════════════════════════════
+// Binär-Lesefunktionen
+// ═══════════════════════════════════════════════════════════════════
+
+function uint(bytes: Uint8Array, offset: number, length: number): number {
+  let value = 0
+  for (let i = 0; i < length; i++) value = value * 256 + bytes[offset + i]
+  return value
+}
+
+// GRIB2 kodiert negative Ganzzahlen als Vorzeichen + Betrag (oberstes Bit)
+function signedInt(bytes: Uint8Array, offset: number, length: number): number {
+  const negative = (bytes[offset] & 0x80) !== 0
+  let value = bytes[offset] & 0x7f
+  for (let i = 1; i < length; i++) value = value * 256 + bytes[offset + i]
+  return negative ? -value : value
+}
+
+function readBits(bytes: Uint8Array, bitPos: number, nbits: number): number {
+  let value = 0
+  let remaining = nbits
+  let pos = bitPos
+  while (remaining > 0) {
+    const bitInByte = pos & 7
+    const available = 8 - bitInByte
+    const take = Math.min(available, remaining)
+    const bits = (bytes[pos >> 3] >> (available - take)) & ((1 << take) - 1)
+    value = value * (1 << take) + bits
+    remaining -= take
+    pos += take
+  }
+  return value
+}
+
+const POPCOUNT = new Uint8Array(256).map((_, i) => {
+  let n = 0
+  for (let b = i; b; b >>= 1) n += b & 1
+  return n
+})
+
+// ═══════════════════════════════════════════════════════════════════
+// Datei-Parser
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * gzip-komprimierte Dateien entpacken (DWD/ECMWF liefern teils .grib2.gz)
+ */
+async function decompressIfNeeded(buffer: ArrayBuffer, errors: string[]): Promise<Uint8Array | null> {
+  const bytes = new Uint8Array(buffer)
+  if (bytes[0] === 0x42 && bytes[1] === 0x5a && bytes[2] === 0x68) {
+    errors.push('Datei ist bzip2-komprimiert (.bz2) – bitte zuerst entpacken')
+    return null
+  }
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
+    if (typeof DecompressionStream === 'undefined') {
+      errors.push('Datei ist gzip-komprimiert – bitte zuerst entpacken')
+      return null
+    }
+    const stream = new Blob([buffer]).stream().pipeThrough(new DecompressionStream('gzip'))
+    return new Uint8Array(await new Response(stream).arrayBuffer())
+  }
+  return bytes
+}
+
+export function isGrib2(buffer: ArrayBuffer): boolean {
+  const bytes = new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 4))
+  return bytes.length === 4 && bytes[0] === 0x47 && bytes[1] === 0x52 && bytes[2] === 0x49 && bytes[3] === 0x42
+}
+
+function parseGrid(bytes: Uint8Array, offset: number): Grib2Grid | string {
+  const template = uint(bytes, offset + 12, 2)
+  if (template !== 0) return `Gittertyp 3.${template} nicht unterstützt (nur reguläres Lat/Lon)`
+
+  const ni = uint(bytes, offset + 30, 4)
+  const nj = uint(bytes, offset + 34, 4)
+  const basicAngle = uint(bytes, offset + 38, 4)
+  const subdivisions = uint(bytes, offset + 42, 4)
+  const unit = basicAngle === 0 || basicAngle === 0xffffffff || subdivisions === 0 || subdivisions === 0xffffffff
+    ? 1e-6
+    : basicAngle / subdivisions
+
+  const lat1 = signedInt(bytes, offset + 46, 4) * unit
+  const lon1 = signedInt(bytes, offset + 50, 4) * unit
+  const lon2 = signedInt(bytes, offset + 59, 4) * unit
+  const rawDi = uint(bytes, offset + 63, 4)
+  const rawDj = uint(bytes, offset + 67, 4)
+  const scan = bytes[offset + 71]
+
+  if (scan & 0x10) return 'Boustrophedon-Scan nicht unterstützt'
+
+  const lonSign = scan & 0x80 ? -1 : 1
+  const di = rawDi === 0xffffffff
+    ? ((((lon2 - lon1) * lonSign) % 360 + 360) % 360) / Math.max(ni - 1, 1)
+    : rawDi * unit
+  const dj = rawDj * unit
+
+  return {
+    ni, nj,
+    lat1,
+    lon1: ((lon1 % 360) + 360) % 360,
+    dLat: scan & 0x40 ? dj : -dj,
+    dLon: lonSign * di,
+    columnMajor: (scan & 0x20) !== 0
+  }
+}
+
+function forecastSeconds(unitCode: number, value: number): number | null {
+  switch (unitCode) {
+    case 0: return value * 60
+    case 1: return value * 3600
+    case 2: return value * 86400
+    case 10: return value * 3 * 3600
+    case 11: return value * 6 * 3600
+    case 12: return value * 12 * 3600
+    case 13: return value
+    default: return null
+  }
+}
+
+function parsePacking(bytes: Uint8Array, offset: number): Grib2Packing | string {
+  const template = uint(bytes, offset + 9, 2)
+  if (![0, 2, 3, 4].includes(template)) {
+    const names: Record<number, string> = { 40: 'JPEG2000', 41: 'PNG', 42: 'CCSDS/AEC' }
+    return `Packung 5.${template}${names[template] ? ` (${names[template]})` : ''} nicht unterstützt`
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset + offset + 11, 4)
+  const complex = template === 2 || template === 3
+
+  return {
+    template,
+    numValues: uint(bytes, offset + 5, 4),
+    reference: template === 4 ? 0 : view.getFloat32(0, false),
+    binaryScale: template === 4 ? 0 : signedInt(bytes, offset + 15, 2),
+    decimalScale: template === 4 ? 0 : signedInt(bytes, offset + 17, 2),
+    nbits: template === 4 ? 0 : bytes[offset + 19],
+    missingMgmt: complex ? bytes[offset + 22] : 0,
+    numGroups: complex ? uint(bytes, offset + 31, 4) : 0,
+    widthRef: complex ? bytes[offset + 35] : 0,
+    widthBits: complex ? bytes[offset + 36] : 0,
+    lengthRef: complex ? uint(bytes, offset + 37, 4) : 0,
+    lengthIncrement: complex ? bytes[offset + 41] : 0,
+    lastGroupLength: complex ? uint(bytes, offset + 42, 4) : 0,
+    lengthBits: complex ? bytes[offset + 46] : 0,
+    sdOrder: template === 3 ? bytes[offset + 47] : 0,
+    sdOctets: template === 3 ? bytes[offset + 48] : 0,
+    precision: template === 4 ? bytes[offset + 11] : 0
+  }
+}
+
+/**
+ * GRIB2-Datei einlesen. Die Datenwerte werden erst beim Abfragen einer Position dekodiert.
+ */
+export async function parseGrib2Wind(buffer: ArrayBuffer): Promise<Grib2WindResult> {
+  const result: Grib2WindResult = { success: false, dataset: null, errors: [], warnings: [] }
+
+  const bytes = await decompressIfNeeded(buffer, result.errors)
+  if (!bytes) return result
+
+  let fields: GribField[] = []
+  const skipped = new Set<string>()
+  let messages = 0
+  let pos = 0
+
+  while (pos + 16 <= bytes.length) {
+    // Nächste Nachricht suchen (zwischen Nachrichten kann Füllmaterial liegen)
+    if (!(bytes[pos] === 0x47 && bytes[pos + 1] === 0x52 && bytes[pos + 2] === 0x49 && bytes[pos + 3] === 0x42)) {
+      pos++
+      continue
+    }
+
+    const edition = bytes[pos + 7]
+    if (edition !== 2) {
+      skipped.add(`GRIB${edition}-Nachrichten werden nicht unterstützt`)
+      const length = uint(bytes, pos + 4, 3)
+      pos += Math.max(length, 4)
+      continue
+    }
+
+    const discipline = bytes[pos + 6]
+    const totalLength = uint(bytes, pos + 8, 8)
+    const end = pos + totalLength
+    if (totalLength < 16 || end > bytes.length) {
+      result.warnings.push('Datei endet mitten in einer Nachricht (unvollständiger Download?)')
+      break
+    }
+    messages++
+
+    let refTime = 0
+    let grid: Grib2Grid | null = null
+    let gridError: string | null = null
+    let product: { kind: GribField['kind']; pressure: number; validTime: number; geopotential: boolean; member?: number } | null = null
+    let packing: Grib2Packing | null = null
+    let bitmapOffset: number | null = null
+    let sectionPos = pos + 16
+
+    while (sectionPos + 5 <= end) {
+      if (bytes[sectionPos] === 0x37 && bytes[sectionPos + 1] === 0x37 && bytes[sectionPos + 2] === 0x37 && bytes[sectionPos + 3] === 0x37) break
+      const sectionLength = uint(bytes, sectionPos, 4)
+      const sectionNumber = bytes[sectionPos + 4]
+      if (sectionLength < 5) break
+
+      switch (sectionNumber) {
+        case 1:
+          refTime = Date.UTC(
+            uint(bytes, sectionPos + 12, 2), bytes[sectionPos + 14] - 1, bytes[sectionPos + 15],
+            bytes[sectionPos + 16], bytes[sectionPos + 17], bytes[sectionPos + 18]
+          )
+          break
+
+        case 3: {
+          const parsed = parseGrid(bytes, sectionPos)
+          if (typeof parsed === 'string') { grid = null; gridError = parsed } else { grid = parsed; gridError = null }
+          break
+        }
+
+        case 4: {
+          product = null
+          const template = uint(bytes, sectionPos + 7, 2)
+          if (![0, 1, 8, 11].includes(template) || discipline !== 0) break
+
+          const category = bytes[sectionPos + 9]
+          const number = bytes[sectionPos + 10]
+          let kind: GribField['kind'] | null = null
+          let geopotential = false
+          if (category === 2 && number === 2) kind = 'u'
+          else if (category === 2 && number === 3) kind = 'v'
+          else if (category === 3 && number === 5) kind = 'height'
+          else if (category === 3 && number === 4) { kind = 'height'; geopotential = true }
+          if (!kind) break
+
+          // Nur Druckflächen (Typ 100, Angabe in Pa)
+          if (bytes[sectionPos + 22] !== 100) break
+          const scaleFactor = signedInt(bytes, sectionPos + 23, 1)
+          const pressurePa = uint(bytes, sectionPos + 24, 4) / Math.pow(10, scaleFactor)
+
+          const offsetSeconds = forecastSeconds(bytes[sectionPos + 17], signedInt(bytes, sectionPos + 18, 4))
+          if (offsetSeconds === null) {
+            skipped.add('Unbekannte Zeiteinheit in Produktdefinition')
+            break
+          }
+
+          product = {
+            kind,
+            pressure: Math.round(pressurePa / 10) / 10,
+            validTime: refTime + offsetSeconds * 1000,
+            geopotential
+          }
+          // 4.1/4.11: Ensemble-Typ (0/1 = Kontrolllauf) und Störungsnummer, sonst überschreiben sich die Member
+          if (template === 1 || template === 11) {
+            product.member = bytes[sectionPos + 34] <= 1 ? 0 : bytes[sectionPos + 35]
+          }
+          break
+        }
+
+        case 5: {
+          const parsed = parsePacking(bytes, sectionPos)
+          if (typeof parsed === 'string') {
+            packing = null
+            if (product) skipped.add(parsed)
+          } else {
+            packing = parsed
+          }
+          break
+        }
+
+        case 6: {
+          const indicator = bytes[sectionPos + 5]
+          if (indicator === 0) bitmapOffset = sectionPos + 6
+          else if (indicator === 255) bitmapOffset = null
+          // 254 = vorherige Bitmap weiterverwenden
+          break
+        }
+
+        case 7:
+          if (product && packing && grid) {
+            fields.push({ ...product, grid, packing, bitmapOffset, dataOffset: sectionPos + 5 })
+          } else if (product && gridError) {
+            skipped.add(gridError)
+          }
+          product = null
+          break
+      }
+
+      sectionPos += sectionLength
+    }
+
+    pos = end
+  }
+
+  if (messages === 0) {
+    result.errors.push('Keine GRIB2-Nachrichten gefunden')
+    return result
+  }
+
+  skipped.forEach(reason => result.warnings.push(reason))
+
+  // Ensemble: Kontrolllauf verwenden, ohne Kontrolllauf den ersten Member
+  const members = [...new Set(fields.filter(f => f.member !== undefined).map(f => f.member!))].sort((a, b) => a - b)
+  if (members.length > 0) {
+    const member = members[0]
+    fields = fields.filter(f => f.member === undefined || f.member === member)
+    if (members.length > 1) {
+      result.warnings.push(member === 0
+        ? `Ensemble-Datei mit ${members.length} Membern – nur der Kontrolllauf wird verwendet`
+        : `Ensemble-Datei ohne Kontrolllauf – nur Member ${member} von ${members.length} wird verwendet`)
+    }
+  }
+
+  const windTimes = new Set(fields.filter(f => f.kind === 'u').map(f => f.validTime))
+  const times = [...windTimes]
+    .filter(t => fields.some(f => f.kind === 'v' && f.validTime === t))
+    .sort((a, b) => a - b)
+  if (times.length === 0) {
+    result.errors.push(`Kein u/v-Wind auf Druckflächen gefunden (${messages} Nachrichten gelesen)`)
+    return result
+  }
+
+  const levels = [...new Set(fields.filter(f => f.kind === 'u').map(f => f.pressure))].sort((a, b) => b - a)
+  const hasHeight = fields.some(f => f.kind === 'height')
+  if (!hasHeight) {
+    result.warnings.push('Kein Geopotential in der Datei – Höhen aus Standardatmosphäre berechnet')
+  }
+
+  // Ausdehnung über alle Gitter der Datei (Felder können unterschiedliche Ausschnitte haben)
+  const toSigned = (lon: number) => ((lon + 540) % 360) - 180
+  const bounds = { minLat: Infinity, maxLat: -Infinity, minLon: Infinity, maxLon: -Infinity }
+  for (const grid of uniqueGrids(fields)) {
+    const lastLat = grid.lat1 + (grid.nj - 1) * grid.dLat
+    const lastLon = grid.lon1 + (grid.ni - 1) * grid.dLon
+    bounds.minLat = Math.min(bounds.minLat, grid.lat1, lastLat)
+    bounds.maxLat = Math.max(bounds.maxLat, grid.lat1, lastLat)
+    bounds.minLon = Math.min(bounds.minLon, toSigned(Math.min(grid.lon1, lastLon)))
+    bounds.maxLon = Math.max(bounds.maxLon, toSigned(Math.max(grid.lon1, lastLon)))
+  }
+
+  result.dataset = {
+    bytes,
+    fields,
+    times,
+    levels,
+    bounds,
+    hasHeight
+  }
+  result.success = true
+  return result
+}
+
+// Verschiedene Gitter der Felder (meist nur eins)
+function uniqueGrids(fields: GribField[]): Grib2Grid[] {
+  const grids: Grib2Grid[] = []
+  for (const { grid } of fields) {
+    const known = grids.some(g =>
+      g.ni === grid.ni && g.nj === grid.nj && g.lat1 === grid.lat1 && g.lon1 === grid.lon1 &&
+      g.dLat === grid.dLat && g.dLon === grid.dLon)
+    if (!known) grids.push(grid)
+  }
+  return grids
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Werte dekodieren
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Complex Packing (5.2/5.3) lässt keinen Direktzugriff zu -> ganzes Feld dekodieren
+ */
+function decodeComplex(bytes: Uint8Array, field: GribField): Float64Array {
+  const p = field.packing
+  const values = new Float64Array(p.numValues)
+  let bitPos = field.dataOffset * 8
+  const align = () => { bitPos = Math.ceil(bitPos / 8) * 8 }
+
+  // Startwerte und Minimum der räumlichen Differenzen
+  let ival1 = 0, ival2 = 0, minsd = 0
+  if (p.template === 3 && p.sdOctets > 0) {
+    const nb = p.sdOctets * 8
+    const readSigned = () => {
+      const negative = readBits(bytes, bitPos, 1) === 1
+      const magnitude = readBits(bytes, bitPos + 1, nb - 1)
+      bitPos += nb
+      return negative ? -magnitude : magnitude
+    }
+    ival1 = readSigned()
+    if (p.sdOrder === 2) ival2 = readSigned()
+    minsd = readSigned()
+  }
+
+  const ng = p.numGroups
+  const refs = new Float64Array(ng)
+  for (let g = 0; g < ng; g++) { refs[g] = readBits(bytes, bitPos, p.nbits); bitPos += p.nbits }
+  align()
+  const widths = new Uint8Array(ng)
+  for (let g = 0; g < ng; g++) { widths[g] = p.widthRef + readBits(bytes, bitPos, p.widthBits); bitPos += p.widthBits }
+  align()
+  const lengths = new Uint32Array(ng)
+  for (let g = 0; g < ng; g++) { lengths[g] = p.lengthRef + readBits(bytes, bitPos, p.lengthBits) * p.lengthIncrement; bitPos += p.lengthBits }
+  if (ng > 0) lengths[ng - 1] = p.lastGroupLength
+  align()
+
+  const missing = new Uint8Array(p.numValues)
+  const refMissing1 = Math.pow(2, p.nbits) - 1
+  let n = 0
+  for (let g = 0; g < ng && n < p.numValues; g++) {
+    const width = widths[g]
+    const groupMissing1 = Math.pow(2, width) - 1
+    for (let k = 0; k < lengths[g] && n < p.numValues; k++, n++) {
+      if (width === 0) {
+        if (p.missingMgmt >= 1 && refs[g] === refMissing1) missing[n] = 1
+        else if (p.missingMgmt === 2 && refs[g] === refMissing1 - 1) missing[n] = 1
+        else values[n] = refs[g]
+      } else {
+        const v = readBits(bytes, bitPos, width)
+        bitPos += width
+        if (p.missingMgmt >= 1 && v === groupMissing1) missing[n] = 1
+        else if (p.missingMgmt === 2 && v === groupMissing1 - 1) missing[n] = 1
+        else values[n] = refs[g] + v
+      }
+    }
+  }
+
+  // Räumliche Differenzen rückgängig machen (nur über vorhandene Werte)
+  if (p.template === 3 && p.sdOrder > 0) {
+    let count = 0
+    let prev1 = 0, prev2 = 0
+    for (let i = 0; i < p.numValues; i++) {
+      if (missing[i]) continue
+      let v: number
+      if (count === 0) v = ival1
+      else if (count === 1 && p.sdOrder === 2) v = ival2
+      else if (p.sdOrder === 1) v = values[i] + minsd + prev1
+      else v = values[i] + minsd + 2 * prev1 - prev2
+      values[i] = v
+      prev2 = prev1
+      prev1 = v
+      count++
+    }
+  }
+
+  const binary = Math.pow(2, p.binaryScale)
+  const decimal = Math.pow(10, p.decimalScale)
+  for (let i = 0; i < p.numValues; i++) {
+    values[i] = missing[i] ? NaN : (p.reference + values[i] * binary) / decimal
+  }
+  return values
+}
+
+/**
+ * Liefert eine Funktion Gitterindex -> Wert (null = fehlt). Für Complex Packing wird das
+ * Feld einmal komplett dekodiert, daher pro Feld nur einmal erzeugen und alle Punkte abfragen.
+ */
+function createFieldReader(bytes: Uint8Array, field: GribField): (gridIndex: number) => number | null {
+  const p = field.packing
+  const bitmap = field.bitmapOffset
+
+  const toDataIndex = (gridIndex: number): number | null => {
+    if (bitmap === null) return gridIndex
+    const byte = bytes[bitmap + (gridIndex >> 3)]
+    if (((byte >> (7 - (gridIndex & 7))) & 1) === 0) return null
+    // Anzahl gesetzter Bits davor = Index in den gepackten Daten
+    let count = 0
+    const fullBytes = gridIndex >> 3
+    for (let b = 0; b < fullBytes; b++) count += POPCOUNT[bytes[bitmap + b]]
+    const partial = byte >> (8 - (gridIndex & 7))
+    return count + POPCOUNT[partial]
+  }
+
+  if (p.template === 2 || p.template === 3) {
+    const values = decodeComplex(bytes, field)
+    return (gridIndex) => {
+      const i = toDataIndex(gridIndex)
+      if (i === null || i >= values.length || isNaN(values[i])) return null
+      return values[i]
+    }
+  }
+
+  if (p.template === 4) {
+    const size = p.precision === 2 ? 8 : 4
+    const view = new DataView(bytes.buffer, bytes.byteOffset)
+    return (gridIndex) => {
+      const i = toDataIndex(gridIndex)
+      if (i === null || i >= p.numValues) return null
+      const offset = field.dataOffset + i * size
+      return size === 8 ? view.getFloat64(offset, false) : view.getFloat32(offset, false)
+    }
+  }
+
+  // Simple Packing: Direktzugriff über Bit-Position
+  const binary = Math.pow(2, p.binaryScale)
+  const decimal = Math.pow(10, p.decimalScale)
+  return (gridIndex) => {
+    const i = toDataIndex(gridIndex)
+    if (i === null || i >= p.numValues) return null
+    const x = p.nbits > 0 ? readBits(bytes, field.dataOffset * 8 + i * p.nbits, p.nbits) : 0
+    return (p.reference + x * binary) / decimal
+  }
+}
+
+/**
+ * Gitterposition (gebrochene Indizes) eines Punkts, null wenn außerhalb
+ */
+function gridPosition(grid: Grib2Grid, lat: number, lon: number): { fi: number; fj: number; wrap: boolean } | null {
+  const fj = (lat - grid.lat1) / grid.dLat
+  if (fj < -1e-9 || fj > grid.nj - 1 + 1e-9) return null
+
+  const step = Math.abs(grid.dLon)
+  const lonOffset = ((((lon - grid.lon1) * Math.sign(grid.dLon)) % 360) + 360) % 360
+  const fi = lonOffset / step
+  // Globales Gitter: zwischen letzter und erster Spalte interpolieren
+  const wrap = Math.abs(grid.ni * step - 360) < step / 2
+  if (fi > grid.ni - 1 + 1e-9 && !(wrap && fi < grid.ni)) return null
+
+  return { fi, fj: Math.min(Math.max(fj, 0), grid.nj - 1), wrap }
+}
+
+/**
+ * Bilineare Interpolation; fehlende Eckpunkte werden ausgelassen
+ */
+function sampleBilinear(
+  grid: Grib2Grid,
+  read: (gridIndex: number) => number | null,
+  pos: { fi: number; fj: number; wrap: boolean }
+): number | null {
+  const i0 = Math.floor(pos.fi)
+  const j0 = Math.floor(pos.fj)
+  const di = pos.fi - i0
+  const dj = pos.fj - j0
+  const i1 = pos.wrap ? (i0 + 1) % grid.ni : Math.min(i0 + 1, grid.ni - 1)
+  const j1 = Math.min(j0 + 1, grid.nj - 1)
+  const index = (i: number, j: number) => grid.columnMajor ? i * grid.nj + j : j * grid.ni + i
+
+  const corners: [number, number, number][] = [
+    [i0 % grid.ni, j0, (1 - di) * (1 - dj)],
+    [i1, j0, di * (1 - dj)],
+    [i0 % grid.ni, j1, (1 - di) * dj],
+    [i1, j1, di * dj]
+  ]
+
+  let sum = 0, weightSum = 0
+  for (const [i, j, w] of corners) {
+    if (w <= 0) continue
+    const v = read(index(i, j))
+    if (v === null) continue
+    sum += v * w
+    weightSum += w
+  }
+  return weightSum > 0 ? sum / weightSum : null
+}
+
+// Höhe einer Druckfläche in der Standardatmosphäre (Fallback ohne Geopotential)
+function standardAtmosphereAltitude(pressureHpa: number): number {
+  return 44330.8 * (1 - Math.pow(pressureHpa / 1013.25, 0.190263))
+}
+
+/**
+ * Windprofile für mehrere Punkte zu einer Gültigkeitszeit (null für Punkte außerhalb des Gitters)
+ */
+function sampleProfiles(
+  dataset: GribWindDataset,
+  points: { lat: number; lon: number }[],
+  validTime: number
+): (ProfileLayer[] | null)[] {
+  const atTime = dataset.fields.filter(f => f.validTime === validTime)
+  const byLevel = new Map<number, { u?: number; v?: number; height?: number }[]>()
+  const covered = points.map(() => false)
+
+  for (const field of atTime) {
+    const positions = points.map(p => gridPosition(field.grid, p.lat, p.lon))
+    if (positions.every(p => p === null)) continue
+
+    const read = createFieldReader(dataset.bytes, field)
+    if (!byLevel.has(field.pressure)) byLevel.set(field.pressure, points.map(() => ({})))
+    const samples = byLevel.get(field.pressure)!
+
+    positions.forEach((pos, k) => {
+      if (!pos) return
+      covered[k] = true
+      const value = sampleBilinear(field.grid, read, pos)
+      if (value === null) return
+      samples[k][field.kind] = field.kind === 'height' && field.geopotential ? value / G0 : value
+    })
+  }
+
+  return points.map((_, k) => {
+    if (!covered[k]) return null
+    const layers: ProfileLayer[] = []
+    for (const [pressure, samples] of byLevel) {
+      const { u, v, height } = samples[k]
+      if (u === undefined || v === undefined) continue
+      const speedMs = Math.sqrt(u * u + v * v)
+      layers.push({
+        // Geopotentielle Höhe ≈ Meter MSL (gute Näherung für Troposphäre)
+        altitude: Math.round(height ?? standardAtmosphereAltitude(pressure)),
+        direction: Math.round((Math.atan2(-u, -v) * 180 / Math.PI + 360) % 360) % 360,  // woher
+        speed: Math.round(speedMs * 3.6 * 10) / 10
+      })
+    }
+    return layers.sort((a, b) => a.altitude - b.altitude)
+  })
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Öffentliche Abfragen
+// ═══════════════════════════════════════════════════════════════════
+
+export function isInsideGrib(dataset: GribWindDataset, lat: number, lon: number): boolean {
+  return uniqueGrids(dataset.fields).some(grid => gridPosition(grid, lat, lon) !== null)
+}
+
+/**
+ * Nächste Gültigkeitszeit in der Datei (Default: jetzt)
+ */
+export function findClosestGribTime(dataset: GribWindDataset, target: Date = new Date()): number {
+  return dataset.times.reduce((best, t) =>
+    Math.abs(t - target.getTime()) < Math.abs(best - target.getTime()) ? t : best, dataset.times[0])
+}
+
+/**
+ * Windschichten für einen Punkt und eine Gültigkeitszeit der Datei
+ *
+ * @param groundElevation - Bodenhöhe (m MSL): Schichten darunter und über ~18.000ft werden verworfen
+ */
+export function getGribWindLayers(
+  dataset: GribWindDataset,
+  lat: number,
+  lon: number,
+  validTime: number,
+  groundElevation: number = 0
+): WindLayer[] {
+  const [profile] = sampleProfiles(dataset, [{ lat, lon }], validTime)
+  if (!profile) return []
+
+  return profile
+    .filter(l => l.altitude >= groundElevation && l.altitude <= groundElevation + MAX_ALTITUDE_AGL)
+    .map(l => ({ ...l, timestamp: new Date(validTime), source: WindSource.Forecast }))
+}
+
+/**
+ * Windfeld aus der Datei: alle Stunden am Punkt und an vier Nachbarpunkten (N/O/S/W)
+ */
+export function gribToWindField(
+  dataset: GribWindDataset,
+  lat: number,
+  lon: number,
+  spacingKm: number = 15
+): WindField | null {
+  const dLat = spacingKm / 111.32
+  const dLon = spacingKm / (111.32 * Math.cos(lat * Math.PI / 180))
+  const points = [
+    { lat, lon },
+    { lat: lat + dLat, lon },
+    { lat, lon: lon + dLon },
+    { lat: lat - dLat, lon },
+    { lat, lon: lon - dLon }
+  ]
+
+  const profiles: WindFieldProfile[] = []
+  for (const time of dataset.times) {
+    sampleProfiles(dataset, points, time).forEach((layers, k) => {
+      if (!layers || layers.length === 0) return
+      profiles.push({ time: new Date(time).toISOString(), lat: points[k].lat, lon: points[k].lon, layers })
+    })
+  }
+
+  if (profiles.length === 0) return null
+  return { modelId: 'GRIB2', fetchedAt: new Date().toISOString(), profiles }
+}
+
+export type GribQuery =
+  | { type: 'layers'; lat: number; lon: number; validTime: number; groundElevation: number }
+  | { type: 'windField'; lat: number; lon: number }
+
+export interface GribQueryResult {
+  inside: boolean
+  layers: WindLayer[]        // nur bei 'layers'
+  windField: WindField | null  // nur bei 'windField'
+}
+
+/**
+ * Abfrage für den Compute-Worker - Complex Packing dekodiert ganze Felder und
+ * soll das UI nicht blockieren.
+ */
+export function queryGrib(dataset: GribWindDataset, query: GribQuery): GribQueryResult {
+  const inside = isInsideGrib(dataset, query.lat, query.lon)
+  if (query.type === 'windField') {
+    return { inside, layers: [], windField: inside ? gribToWindField(dataset, query.lat, query.lon) : null }
+  }
+  return {
+    inside,
+    layers: inside ? getGribWindLayers(dataset, query.lat, query.lon, query.validTime, query.groundElevation) : [],
+    windField: null
+  }
+}
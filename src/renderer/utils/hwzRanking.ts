@@ -0,0 +1,78 @@
+/**
+ * Hesitation Waltz (HWZ): Goal-Auswahl
+ *
+ * Rechnet die Wind-Navigation für jedes Goal des Tasks und sortiert die Goals nach
+ * - vorhergesagter Distanz (wie nah der beste Plan ans Goal kommt)
+ * - Robustheit gegen Windfehler (Distanz wenn der Wind ±15% / ±10° abweicht)
+ * - Flugzeit
+ * Goals deren einzige Lösung eine PZ kreuzt, kommen ans Ende.
+ */
+
+import { calculateWindNav, windErrorMiss, WnvInput, WnvResult } from './windNavigation'
+
+export interface HwzGoalCandidate {
+  goalId: string
+  name: string
+  lat: number
+  lon: number
+  elevation: number  // Meter MSL
+}
+
+export type HwzRankingInput = Omit<WnvInput, 'goalLat' | 'goalLon' | 'goalElevation'> & {
+  goals: HwzGoalCandidate[]
+}
+
+export interface HwzGoalRanking {
+  goalId: string
+  name: string
+  result: WnvResult | null   // null = keine Lösung
+  distanceToGoal: number | null
+  windErrorMiss: number | null
+  totalTimeSec: number | null
+  score: number              // niedriger = besser
+}
+
+// Gewichtung: Distanz 50%, Windfehler 30%, Zeit 20% (je auf 0-1 normiert)
+const DIST_MAX = 1000       // m
+const WIND_ERROR_MAX = 1000 // m
+const TIME_MAX = 3600       // s
+const PZ_SCORE = 1          // Aufschlag für Lösungen durch eine PZ
+
+/**
+ * Alle Goals bewerten und sortiert zurückgeben (bestes zuerst).
+ */
+export function rankHwzGoals(
+  input: HwzRankingInput,
+  onProgress?: (fraction: number) => void
+): HwzGoalRanking[] {
+  const { goals, ...wnv } = input
+  const rankings: HwzGoalRanking[] = []
+
+  goals.forEach((goal, i) => {
+    const goalInput: WnvInput = { ...wnv, goalLat: goal.lat, goalLon: goal.lon, goalElevation: goal.elevation }
+    const result = calculateWindNav(goalInput, undefined, fraction => onProgress?.((i + fraction * 0.9) / goals.length))
+    if (!result) {
+      rankings.push({ goalId: goal.goalId, name: goal.name, result: null, distanceToGoal: null, windErrorMiss: null, totalTimeSec: null, score: Infinity })
+      return
+    }
+
+    const miss = windErrorMiss(goalInput, result)
+    const score = Math.min(result.distanceToGoal / DIST_MAX, 1) * 0.5
+      + Math.min(miss / WIND_ERROR_MAX, 1) * 0.3
+      + Math.min(result.totalTimeSec / TIME_MAX, 1) * 0.2
+      + (result.pzViolation ? PZ_SCORE : 0)
+
+    rankings.push({
+      goalId: goal.goalId,
+      name: goal.name,
+      result,
+      distanceToGoal: result.distanceToGoal,
+      windErrorMiss: miss,
+      totalTimeSec: result.totalTimeSec,
+      score: Math.round(score * 100) / 100
+    })
+  })
+  onProgress?.(1)
+
+  return rankings.sort((a, b) => a.score - b.score)
+}
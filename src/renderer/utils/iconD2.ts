@@ -1,4 +1,5 @@
 import { WindLayer, WindSource } from '../../shared/types'
+import type { WindField, WindFieldProfile } from './windField'
 
 // Drucklevel für Ballonflug – alle 25hPa-Schritte bis 500hPa (~5500m / ~18000ft)
 const PRESSURE_LEVELS = [1000, 975, 950, 925, 900, 875, 850, 825, 800, 775, 750, 725, 700, 650, 600, 550, 500] as const
@@ -60,6 +61,57 @@ function findClosestHourIndex(times: string[], targetDate?: Date): number {
   return bestIdx
 }
 
+// Wind-Layer eines Zeitpunkts aus der API-Antwort extrahieren (Boden bis ~18.000ft, nach Höhe sortiert)
+function extractLayers(data: OpenMeteoResponse, timeIdx: number, timestamp?: Date): WindLayer[] {
+  const layers: WindLayer[] = []
+
+  for (const pressure of PRESSURE_LEVELS) {
+    const speedArr = data.hourly[`wind_speed_${pressure}hPa`] as number[] | undefined
+    const dirArr = data.hourly[`wind_direction_${pressure}hPa`] as number[] | undefined
+    const heightArr = data.hourly[`geopotential_height_${pressure}hPa`] as number[] | undefined
+
+    if (!speedArr || !dirArr || !heightArr) continue
+
+    const speed = speedArr[timeIdx]
+    const direction = dirArr[timeIdx]
+    const geoHeight = heightArr[timeIdx]
+
+    if (speed == null || direction == null || geoHeight == null) continue
+    if (isNaN(speed) || isNaN(direction) || isNaN(geoHeight)) continue
+
+    // Geopotentielle Höhe ≈ Meter MSL (gute Näherung für Troposphäre)
+    const altitudeM = Math.round(geoHeight)
+
+    layers.push({
+      altitude: altitudeM,
+      direction: Math.round(direction) % 360, // Windrichtung "woher"
+      speed: Math.round(speed * 10) / 10, // km/h, 1 Dezimale
+      timestamp: timestamp ?? new Date(data.hourly.time[timeIdx]),
+      source: WindSource.Forecast
+    })
+  }
+
+  // Nur Schichten von Boden bis ~18.000ft MSL behalten
+  const groundElev = data.elevation || 0
+  const maxAltitude = groundElev + 5500 // ~18.000ft über Grund
+  return layers
+    .filter(l => l.altitude >= groundElev && l.altitude <= maxAltitude)
+    .sort((a, b) => a.altitude - b.altitude)
+}
+
+function buildHourlyVars(): string {
+  const windSpeedVars = PRESSURE_LEVELS.map(p => `wind_speed_${p}hPa`)
+  const windDirVars = PRESSURE_LEVELS.map(p => `wind_direction_${p}hPa`)
+  const geoHeightVars = PRESSURE_LEVELS.map(p => `geopotential_height_${p}hPa`)
+  return [...windSpeedVars, ...windDirVars, ...geoHeightVars].join(',')
+}
+
+function describeFetchError(err: any): string {
+  if (err.name === 'AbortError') return 'Anfrage abgebrochen'
+  if (err.message?.includes('Failed to fetch') || err.message?.includes('NetworkError')) return 'Keine Internetverbindung'
+  return `Netzwerkfehler: ${err.message}`
+}
+
 // Winddaten von Open-Meteo laden (beliebiges Modell)
 export async function fetchIconD2Wind(
   lat: number,
@@ -78,10 +130,7 @@ export async function fetchIconD2Wind(
   }
 
   // Variablen für alle Drucklevel zusammenbauen
-  const windSpeedVars = PRESSURE_LEVELS.map(p => `wind_speed_${p}hPa`)
-  const windDirVars = PRESSURE_LEVELS.map(p => `wind_direction_${p}hPa`)
-  const geoHeightVars = PRESSURE_LEVELS.map(p => `geopotential_height_${p}hPa`)
-  const allVars = [...windSpeedVars, ...windDirVars, ...geoHeightVars].join(',')
+  const allVars = buildHourlyVars()
 
   const url = `https://api.open-meteo.com/v1/forecast?` +
     `latitude=${lat.toFixed(4)}&longitude=${lon.toFixed(4)}` +
@@ -112,58 +161,96 @@ export async function fetchIconD2Wind(
     const timeIdx = findClosestHourIndex(data.hourly.time, targetDate)
     result.modelTime = data.hourly.time[timeIdx]
 
-    // Wind-Layer für jeden Drucklevel extrahieren
-    for (const pressure of PRESSURE_LEVELS) {
-      const speedKey = `wind_speed_${pressure}hPa`
-      const dirKey = `wind_direction_${pressure}hPa`
-      const heightKey = `geopotential_height_${pressure}hPa`
+    result.layers = extractLayers(data, timeIdx)
+    result.success = result.layers.length > 0
 
-      const speedArr = data.hourly[speedKey] as number[] | undefined
-      const dirArr = data.hourly[dirKey] as number[] | undefined
-      const heightArr = data.hourly[heightKey] as number[] | undefined
+    const modelName = WEATHER_MODELS.find(m => m.id === modelId)?.name || modelId
+    if (result.layers.length === 0) {
+      result.errors.push(`Keine Winddaten für diesen Standort verfügbar (außerhalb ${modelName} Gebiet?)`)
+    }
+  } catch (err: any) {
+    result.errors.push(describeFetchError(err))
+  }
 
-      if (!speedArr || !dirArr || !heightArr) continue
+  return result
+}
 
-      const speed = speedArr[timeIdx]
-      const direction = dirArr[timeIdx]
-      const geoHeight = heightArr[timeIdx]
+export interface IconD2FieldResult {
+  success: boolean
+  field: WindField | null
+  errors: string[]
+}
 
-      if (speed == null || direction == null || geoHeight == null) continue
-      if (isNaN(speed) || isNaN(direction) || isNaN(geoHeight)) continue
+// Windfeld laden: mehrere Vorhersagestunden am Standort und an vier Nachbarpunkten (N/O/S/W)
+export async function fetchIconD2WindField(
+  lat: number,
+  lon: number,
+  modelId: string = 'icon_d2',
+  options: { hours?: number; spacingKm?: number } = {}
+): Promise<IconD2FieldResult> {
+  const hours = options.hours ?? 6
+  const spacingKm = options.spacingKm ?? 15
+  const result: IconD2FieldResult = { success: false, field: null, errors: [] }
+
+  const dLat = spacingKm / 111.32
+  const dLon = spacingKm / (111.32 * Math.cos(lat * Math.PI / 180))
+  const points = [
+    { lat, lon },
+    { lat: lat + dLat, lon },
+    { lat, lon: lon + dLon },
+    { lat: lat - dLat, lon },
+    { lat, lon: lon - dLon }
+  ]
 
-      // Geopotentielle Höhe ≈ Meter MSL (gute Näherung für Troposphäre)
-      const altitudeM = Math.round(geoHeight)
+  // Zeiten in UTC anfordern - das Feld wird über absolute Zeitpunkte interpoliert
+  const url = `https://api.open-meteo.com/v1/forecast?` +
+    `latitude=${points.map(p => p.lat.toFixed(4)).join(',')}` +
+    `&longitude=${points.map(p => p.lon.toFixed(4)).join(',')}` +
+    `&hourly=${buildHourlyVars()}` +
+    `&models=${modelId}` +
+    `&wind_speed_unit=kmh` +
+    `&past_hours=1` +
+    `&forecast_hours=${hours + 1}` +
+    `&timezone=GMT`
 
-      result.layers.push({
-        altitude: altitudeM,
-        direction: Math.round(direction) % 360, // Windrichtung "woher"
-        speed: Math.round(speed * 10) / 10, // km/h, 1 Dezimale
-        timestamp: new Date(data.hourly.time[timeIdx]),
-        source: WindSource.Forecast
-      })
+  try {
+    const response = await fetch(url)
+    if (!response.ok) {
+      const text = await response.text()
+      result.errors.push(`API Fehler ${response.status}: ${text.slice(0, 200)}`)
+      return result
     }
 
-    // Nur Schichten von Boden bis ~18.000ft MSL behalten
-    const groundElev = data.elevation || 0
-    const maxAltitude = groundElev + 5500 // ~18.000ft über Grund
-    result.layers = result.layers.filter(l => l.altitude >= groundElev && l.altitude <= maxAltitude)
+    // Mehrere Koordinaten -> Array, eine Koordinate -> Objekt
+    const json = await response.json()
+    const locations: OpenMeteoResponse[] = Array.isArray(json) ? json : [json]
+    const profiles: WindFieldProfile[] = []
 
-    // Nach Höhe sortieren
-    result.layers.sort((a, b) => a.altitude - b.altitude)
-    result.success = result.layers.length > 0
+    for (const data of locations) {
+      if (!data.hourly?.time) continue
+      for (let i = 0; i < data.hourly.time.length; i++) {
+        const time = new Date(data.hourly.time[i] + 'Z')
+        const layers = extractLayers(data, i, time)
+        if (layers.length === 0) continue
+        profiles.push({
+          time: time.toISOString(),
+          lat: data.latitude,
+          lon: data.longitude,
+          layers: layers.map(l => ({ altitude: l.altitude, direction: l.direction, speed: l.speed }))
+        })
+      }
+    }
 
-    const modelName = WEATHER_MODELS.find(m => m.id === modelId)?.name || modelId
-    if (result.layers.length === 0) {
+    if (profiles.length === 0) {
+      const modelName = WEATHER_MODELS.find(m => m.id === modelId)?.name || modelId
       result.errors.push(`Keine Winddaten für diesen Standort verfügbar (außerhalb ${modelName} Gebiet?)`)
+      return result
     }
+
+    result.field = { modelId, fetchedAt: new Date().toISOString(), profiles }
+    result.success = true
   } catch (err: any) {
-    if (err.name === 'AbortError') {
-      result.errors.push('Anfrage abgebrochen')
-    } else if (err.message?.includes('Failed to fetch') || err.message?.includes('NetworkError')) {
-      result.errors.push('Keine Internetverbindung')
-    } else {
-      result.errors.push(`Netzwerkfehler: ${err.message}`)
-    }
+    result.errors.push(describeFetchError(err))
   }
 
   return result
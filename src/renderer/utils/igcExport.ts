@@ -3,7 +3,10 @@
  * IGC ist das Standardformat für Flugaufzeichnungen in der Luftfahrt
  */
 
-import type { Flight, TrackPoint, MarkerDrop, GoalDeclaration } from '../../shared/types'
+import type { Flight, TrackPoint, MarkerDrop, GoalDeclaration, ProhibitedZone } from '../../shared/types'
+import { scoreFlight, formatTaskScore } from './scoring'
+import { analyzeFlightInfringements, type InfringementOptions } from './infringements'
+import { getSignedContent, buildKeyRecords, buildGRecords } from './igcSignature'
 
 /**
  * Generiert einen IGC Dateinamen
@@ -173,27 +176,11 @@ function generateLRecords(flight: Flight): string[] {
 }
 
 /**
- * Berechnet die IGC Checksumme (G Record)
- * Vereinfachte Version - in der Praxis wird eine kryptografische Signatur verwendet
+ * Exportiert einen Flug als IGC Datei.
+ * Der G Record wird im Main-Prozess mit dem Schlüssel der Installation signiert
+ * (ohne Electron-API wird die Datei unsigniert exportiert).
  */
-function generateGRecord(content: string): string {
-  // Einfache Checksumme für Demo-Zwecke
-  // Echte IGC-Validierung erfordert eine digitale Signatur
-  let hash = 0
-  for (let i = 0; i < content.length; i++) {
-    const char = content.charCodeAt(i)
-    hash = ((hash << 5) - hash) + char
-    hash = hash & hash
-  }
-
-  const checksum = Math.abs(hash).toString(16).toUpperCase().padStart(16, '0')
-  return `G${checksum}`
-}
-
-/**
- * Exportiert einen Flug als IGC Datei
- */
-export function exportToIGC(flight: Flight): string {
+export async function exportToIGC(flight: Flight): Promise<string> {
   const lines: string[] = []
 
   // A Record (Logger ID)
@@ -240,17 +227,31 @@ export function exportToIGC(flight: Flight): string {
   // L Records (Comments)
   lines.push(...generateLRecords(flight))
 
-  // G Record (Security)
-  const content = lines.join('\r\n')
-  lines.push(generateGRecord(content))
+  // G Record (Security): öffentlicher Schlüssel als L Record, dann Signatur über A/H/B/E/K/L
+  const publicKey = await window.ntaAPI?.igc?.getPublicKey()
+  if (publicKey) {
+    lines.push(...buildKeyRecords(publicKey))
+    const signed = await window.ntaAPI.igc.sign(getSignedContent(lines))
+    if (signed) {
+      lines.push(...buildGRecords(signed.signature))
+    }
+  } else {
+    console.warn('[IGC] Keine Signatur verfügbar - Datei wird ohne G Record exportiert')
+  }
 
   return lines.join('\r\n')
 }
 
 /**
  * Generiert einen Flight Report
+ * @param prohibitedZones - Sperrgebiete für die Infringement-Analyse
+ * @param options - Einheit der PZ-Höhen und Zeitzone der Task-Endzeiten wie in den Einstellungen
  */
-export function generateFlightReport(flight: Flight): string {
+export function generateFlightReport(
+  flight: Flight,
+  prohibitedZones: ProhibitedZone[] = [],
+  options: InfringementOptions = {}
+): string {
   const lines: string[] = []
 
   lines.push('=' .repeat(60))
@@ -316,6 +317,37 @@ export function generateFlightReport(flight: Flight): string {
     lines.push('')
   }
 
+  // Task Ergebnisse (Post-Flight Scoring)
+  if (flight.tasks.length > 0) {
+    lines.push('-' .repeat(40))
+    lines.push('TASK RESULTS')
+    lines.push('-' .repeat(40))
+    scoreFlight(flight).forEach(score => {
+      const status = score.result === null ? 'NO RESULT' : score.valid ? 'OK' : 'INVALID'
+      lines.push(`${score.taskLabel}: ${formatTaskScore(score)} [${status}]`)
+      if (score.goalName) lines.push(`  Goal: ${score.goalName}`)
+      if (score.markerNumbers.length > 0) lines.push(`  Markers: ${score.markerNumbers.map(n => `#${n}`).join(', ')}`)
+      score.infringements.forEach(text => lines.push(`  ! ${text}`))
+      score.notes.forEach(text => lines.push(`  - ${text}`))
+    })
+    lines.push('')
+  }
+
+  // Infringements (Sperrgebiete, Höhenlimits, Task-Ende)
+  const infringementReport = analyzeFlightInfringements(flight, prohibitedZones, options)
+  if (infringementReport.infringements.length > 0) {
+    lines.push('-' .repeat(40))
+    lines.push('INFRINGEMENTS')
+    lines.push('-' .repeat(40))
+    infringementReport.infringements.forEach(inf => {
+      lines.push(`${inf.startTime.toISOString()} (${Math.round(inf.durationSeconds)}s): ${inf.description}`)
+      const worst = inf.closestApproach
+      const vertical = worst.verticalMargin !== null ? `, vertical ${Math.round(worst.verticalMargin)}m` : ''
+      lines.push(`  Worst: ${worst.time.toISOString()} ${worst.lat.toFixed(6)}, ${worst.lon.toFixed(6)}, ${Math.round(worst.altitude)}m, horizontal ${Math.round(worst.horizontalDistance)}m${vertical}`)
+    })
+    lines.push('')
+  }
+
   lines.push('=' .repeat(60))
   lines.push(`Generated by NTA Balloon Navigator at ${new Date().toISOString()}`)
   lines.push('=' .repeat(60))
@@ -0,0 +1,142 @@
+/**
+ * IGC Signatur (G-Record) für NTA
+ * Signiert werden alle A/H/B/E/K/L Records mit einem ECDSA P-256 Schlüssel pro Installation.
+ * Der öffentliche Schlüssel steht in LNTAKEY Records, die Signatur in den G Records.
+ */
+
+// Records die in die Signatur eingehen
+const SIGNED_RECORD_TYPES = new Set(['A', 'H', 'B', 'E', 'K', 'L'])
+
+const KEY_RECORD_PREFIX = 'LNTAKEY'
+const KEY_CHUNK_LENGTH = 64
+const SIGNATURE_CHUNK_LENGTH = 64
+
+export interface IGCVerification {
+  signed: boolean             // Datei enthält eine NTA-Signatur
+  valid: boolean              // Signatur passt zum Inhalt
+  keyFingerprint: string | null  // SHA-256 Fingerprint des öffentlichen Schlüssels (16 Hex-Zeichen)
+  trusted: boolean | null     // Schlüssel in der Liste vertrauenswürdiger Fingerprints (null = keine Liste)
+  error?: string
+}
+
+/**
+ * Kanonischer Signatur-Inhalt: A/H/B/E/K/L Records ohne Zeilenende-Whitespace, mit \n verbunden
+ */
+export function getSignedContent(lines: string[]): string {
+  return lines
+    .map(line => line.replace(/\s+$/, ''))
+    .filter(line => line.length > 0 && SIGNED_RECORD_TYPES.has(line[0]))
+    .join('\n')
+}
+
+/**
+ * Öffentlicher Schlüssel (Base64) als LNTAKEY Records
+ */
+export function buildKeyRecords(publicKey: string): string[] {
+  const records: string[] = []
+  for (let i = 0; i < publicKey.length; i += KEY_CHUNK_LENGTH) {
+    records.push(`${KEY_RECORD_PREFIX}${publicKey.slice(i, i + KEY_CHUNK_LENGTH)}`)
+  }
+  return records
+}
+
+/**
+ * Signatur (Hex) als G Records
+ */
+export function buildGRecords(signatureHex: string): string[] {
+  const records: string[] = []
+  for (let i = 0; i < signatureHex.length; i += SIGNATURE_CHUNK_LENGTH) {
+    records.push(`G${signatureHex.slice(i, i + SIGNATURE_CHUNK_LENGTH)}`)
+  }
+  return records
+}
+
+function base64ToBytes(base64: string): ArrayBuffer {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes.buffer
+}
+
+function hexToBytes(hex: string): ArrayBuffer | null {
+  if (hex.length % 2 !== 0 || !/^[0-9A-Fa-f]*$/.test(hex)) return null
+  const bytes = new Uint8Array(hex.length / 2)
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16)
+  }
+  return bytes.buffer
+}
+
+/**
+ * Fingerprint eines öffentlichen Schlüssels (Base64 SPKI) - erste 16 Hex-Zeichen des SHA-256
+ */
+export async function getKeyFingerprint(publicKey: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', base64ToBytes(publicKey))
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('')
+    .slice(0, 16)
+    .toUpperCase()
+}
+
+/**
+ * Fingerprints vertrauenswürdiger Schlüssel: der Schlüssel dieser Installation
+ * (ohne Electron-API keiner)
+ */
+export async function getTrustedFingerprints(): Promise<string[]> {
+  try {
+    const publicKey = await window.ntaAPI?.igc?.getPublicKey()
+    return publicKey ? [await getKeyFingerprint(publicKey)] : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Prüft die Signatur einer IGC-Datei.
+ * @param igcText - Inhalt der IGC-Datei
+ * @param trustedFingerprints - Optional: bekannte Schlüssel (z.B. der eigenen Installation)
+ */
+export async function verifyIGCSignature(igcText: string, trustedFingerprints?: string[]): Promise<IGCVerification> {
+  const lines = igcText.split(/\r?\n/)
+  const signatureHex = lines
+    .filter(line => line.startsWith('G'))
+    .map(line => line.slice(1).trim())
+    .join('')
+  const publicKey = lines
+    .filter(line => line.startsWith(KEY_RECORD_PREFIX))
+    .map(line => line.slice(KEY_RECORD_PREFIX.length).trim())
+    .join('')
+
+  if (!signatureHex || !publicKey) {
+    return { signed: false, valid: false, keyFingerprint: null, trusted: null, error: 'Keine NTA-Signatur gefunden' }
+  }
+
+  const signature = hexToBytes(signatureHex)
+  if (!signature) {
+    return { signed: true, valid: false, keyFingerprint: null, trusted: null, error: 'G Record ist kein gültiger Hex-Wert' }
+  }
+
+  try {
+    const keyFingerprint = await getKeyFingerprint(publicKey)
+    const key = await crypto.subtle.importKey(
+      'spki',
+      base64ToBytes(publicKey),
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify']
+    )
+    const content = new TextEncoder().encode(getSignedContent(lines)).buffer as ArrayBuffer
+    const valid = await crypto.subtle.verify({ name: 'ECDSA', hash: 'SHA-256' }, key, signature, content)
+
+    return {
+      signed: true,
+      valid,
+      keyFingerprint,
+      trusted: trustedFingerprints ? trustedFingerprints.includes(keyFingerprint) : null,
+      error: valid ? undefined : 'Signatur passt nicht zum Inhalt (Datei wurde verändert)'
+    }
+  } catch (err) {
+    return { signed: true, valid: false, keyFingerprint: null, trusted: null, error: `Signatur konnte nicht geprüft werden: ${(err as Error).message}` }
+  }
+}
@@ -0,0 +1,406 @@
+/**
+ * Post-Flight Infringement Analyse für NTA
+ * Wertet einen aufgezeichneten Track gegen Sperrgebiete (PZ), Task-Höhenlimits,
+ * Task-Endzeiten und Task Rings aus - als Beweismittel für Protests.
+ */
+
+import type { Flight, Task, TrackPoint, ProhibitedZone, MarkerDrop } from '../../shared/types'
+import { calculateDistance, isPointInPolygon } from './navigation'
+import { getTaskEndTime } from './scoring'
+
+export type InfringementType =
+  | 'pz'              // Einflug in ein Sperrgebiet (unter Floor / über Ceiling)
+  | 'task_min_alt'    // Task-Mindesthöhe unterschritten
+  | 'task_max_alt'    // Task-Maximalhöhe überschritten
+  | 'task_end'        // Marker nach Task-Ende gedroppt
+
+export interface ClosestApproach {
+  time: Date
+  lat: number
+  lon: number
+  altitude: number            // Meter MSL
+  horizontalDistance: number  // Meter zum Rand (0 = innerhalb)
+  verticalMargin: number | null  // Meter bis zur Höhengrenze (negativ = Grenze verletzt)
+}
+
+export interface Infringement {
+  type: InfringementType
+  refId: string               // PZ-ID oder Task-ID
+  name: string                // PZ-Name oder Task-Label
+  startTime: Date
+  endTime: Date
+  durationSeconds: number
+  closestApproach: ClosestApproach  // Schlimmster Punkt während der Verletzung
+  description: string
+}
+
+export interface ZoneApproach {
+  zoneId: string
+  zoneName: string
+  closestApproach: ClosestApproach
+  infringed: boolean
+}
+
+export interface InfringementReport {
+  infringements: Infringement[]
+  zoneApproaches: ZoneApproach[]  // Knappste Annäherung an jedes Sperrgebiet (auch ohne Verletzung)
+}
+
+export interface InfringementOptions {
+  pzAltitudeUnit?: 'feet' | 'meters'   // Anzeige der PZ-Höhengrenze im Text (default: 'feet')
+  taskTimeZone?: 'utc' | 'local'        // Zeitzone von Task.endsAt (default: 'utc')
+}
+
+const FEET_TO_METERS = 0.3048
+
+// ═══════════════════════════════════════════════════════════════════
+// Geometrie
+// ═══════════════════════════════════════════════════════════════════
+
+function toTime(value: Date | string): number {
+  return new Date(value).getTime()
+}
+
+function getAltitude(point: TrackPoint): number {
+  return point.baro?.pressureAltitude || point.position.altitude || 0
+}
+
+// Distanz Punkt → Segment in Metern (lokale ebene Projektion, ausreichend für PZ-Größen)
+function distanceToSegment(
+  lat: number, lon: number,
+  p1: { lat: number; lon: number },
+  p2: { lat: number; lon: number }
+): number {
+  const cosLat = Math.cos(lat * Math.PI / 180)
+  const ax = (p1.lon - lon) * 111320 * cosLat
+  const ay = (p1.lat - lat) * 111320
+  const bx = (p2.lon - lon) * 111320 * cosLat
+  const by = (p2.lat - lat) * 111320
+  const dx = bx - ax
+  const dy = by - ay
+  const lengthSq = dx * dx + dy * dy
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSq)) : 0
+  const cx = ax + t * dx
+  const cy = ay + t * dy
+  return Math.sqrt(cx * cx + cy * cy)
+}
+
+/**
+ * Horizontale Distanz zum Rand eines Sperrgebiets (0 = innerhalb).
+ * hasArea = false wenn die PZ keine Fläche hat (Punkt ohne Radius, offene Linie).
+ */
+function horizontalDistanceToZone(lat: number, lon: number, zone: ProhibitedZone): { distance: number; hasArea: boolean } {
+  if (zone.type === 'polygon' && zone.polygon && zone.polygon.length > 0) {
+    const closed = zone.closed !== false && zone.sourceType !== 'track' && zone.polygon.length >= 3
+    if (closed && isPointInPolygon(lat, lon, zone.polygon)) {
+      return { distance: 0, hasArea: true }
+    }
+    let minDist = Infinity
+    const segments = closed ? zone.polygon.length : zone.polygon.length - 1
+    for (let i = 0; i < segments; i++) {
+      minDist = Math.min(minDist, distanceToSegment(lat, lon, zone.polygon[i], zone.polygon[(i + 1) % zone.polygon.length]))
+    }
+    if (zone.polygon.length === 1) {
+      minDist = calculateDistance(lat, lon, zone.polygon[0].lat, zone.polygon[0].lon)
+    }
+    return { distance: minDist, hasArea: closed }
+  }
+
+  const centerDistance = calculateDistance(lat, lon, zone.lat, zone.lon)
+  if (zone.radius && zone.radius > 0) {
+    return { distance: Math.max(0, centerDistance - zone.radius), hasArea: true }
+  }
+  return { distance: centerDistance, hasArea: false }
+}
+
+/**
+ * Liegt der Punkt innerhalb der Fläche einer PZ?
+ * Punkte ohne Radius und offene Linien haben keine Fläche → immer false.
+ */
+export function isInsideZone(lat: number, lon: number, zone: ProhibitedZone): boolean {
+  if (zone.type === 'polygon' && zone.polygon && zone.polygon.length > 0) {
+    const closed = zone.closed !== false && zone.sourceType !== 'track' && zone.polygon.length >= 3
+    return closed && isPointInPolygon(lat, lon, zone.polygon)
+  }
+  if (zone.radius && zone.radius > 0) {
+    return calculateDistance(lat, lon, zone.lat, zone.lon) <= zone.radius
+  }
+  return false
+}
+
+/**
+ * Höhengrenze einer PZ in Metern (null = PZ gilt in allen Höhen).
+ * Gleiche Quelle wie die Live-PZ-Warnung (App.tsx): elevation, immer in ft gespeichert.
+ */
+export function getZoneAltitudeLimit(zone: ProhibitedZone): number | null {
+  if (!zone.altitudeWarning || !zone.elevation || zone.elevation <= 0) return null
+  return zone.elevation * FEET_TO_METERS
+}
+
+function formatZoneLimit(limitMeters: number, unit: 'feet' | 'meters' = 'feet'): string {
+  return unit === 'meters' ? `${Math.round(limitMeters)}m` : `${Math.round(limitMeters / FEET_TO_METERS)}ft`
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Segment-Erkennung
+// ═══════════════════════════════════════════════════════════════════
+
+interface PointCheck {
+  violating: boolean
+  approach: ClosestApproach
+  severity: number  // Je kleiner, desto schlimmer (für Auswahl des kritischsten Punkts)
+}
+
+/**
+ * Läuft über den Track und fasst zusammenhängende Verletzungen zu Ereignissen zusammen
+ */
+function detectSegments(
+  track: TrackPoint[],
+  check: (point: TrackPoint) => PointCheck | null,
+  build: (start: TrackPoint, end: TrackPoint, worst: ClosestApproach) => Infringement
+): Infringement[] {
+  const result: Infringement[] = []
+  let start: TrackPoint | null = null
+  let last: TrackPoint | null = null
+  let worst: PointCheck | null = null
+
+  for (const point of track) {
+    const c = check(point)
+    if (c && c.violating) {
+      if (!start) {
+        start = point
+        worst = c
+      } else if (worst && c.severity < worst.severity) {
+        worst = c
+      }
+      last = point
+    } else if (start && last && worst) {
+      // Ende der Verletzung: Zeitpunkt des ersten wieder gültigen Punkts
+      result.push(build(start, point, worst.approach))
+      start = null
+      last = null
+      worst = null
+    }
+  }
+
+  if (start && last && worst) {
+    result.push(build(start, last, worst.approach))
+  }
+  return result
+}
+
+function makeApproach(point: TrackPoint, horizontalDistance: number, verticalMargin: number | null): ClosestApproach {
+  return {
+    time: new Date(point.timestamp),
+    lat: point.position.latitude,
+    lon: point.position.longitude,
+    altitude: getAltitude(point),
+    horizontalDistance,
+    verticalMargin
+  }
+}
+
+function makeInfringement(
+  type: InfringementType,
+  refId: string,
+  name: string,
+  start: TrackPoint,
+  end: TrackPoint,
+  worst: ClosestApproach,
+  description: string
+): Infringement {
+  const startTime = new Date(start.timestamp)
+  const endTime = new Date(end.timestamp)
+  return {
+    type,
+    refId,
+    name,
+    startTime,
+    endTime,
+    durationSeconds: Math.max(0, (endTime.getTime() - startTime.getTime()) / 1000),
+    closestApproach: worst,
+    description
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Analysen
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Prüft den Track gegen alle Sperrgebiete
+ */
+export function detectZoneInfringements(
+  track: TrackPoint[],
+  zones: ProhibitedZone[],
+  options: InfringementOptions = {}
+): InfringementReport {
+  const infringements: Infringement[] = []
+  const zoneApproaches: ZoneApproach[] = []
+
+  for (const zone of zones) {
+    const limit = getZoneAltitudeLimit(zone)
+    const mode = zone.altitudeWarningMode || 'ceiling'
+    let closest: ClosestApproach | null = null
+    let closestScore = Infinity
+
+    const check = (point: TrackPoint): PointCheck | null => {
+      const { distance, hasArea } = horizontalDistanceToZone(point.position.latitude, point.position.longitude, zone)
+      const altitude = getAltitude(point)
+      // floor: gesperrt vom Boden bis limit → Marge = Höhe über limit
+      // ceiling: gesperrt ab limit nach oben → Marge = Höhe unter limit
+      const verticalMargin = limit === null ? null
+        : mode === 'floor' ? altitude - limit : limit - altitude
+      const approach = makeApproach(point, distance, verticalMargin)
+
+      // Annäherung: horizontale + vertikale Reserve (nur positive Anteile)
+      const score = distance + (verticalMargin !== null ? Math.max(0, verticalMargin) : 0)
+      if (score < closestScore) {
+        closestScore = score
+        closest = approach
+      }
+
+      if (!hasArea) return { violating: false, approach, severity: score }
+      const violating = distance === 0 && (verticalMargin === null || verticalMargin <= 0)
+      return { violating, approach, severity: verticalMargin ?? -distance }
+    }
+
+    const events = detectSegments(track, check, (start, end, worst) => {
+      const limitText = limit === null ? ''
+        : mode === 'floor'
+          ? ` unter Floor ${formatZoneLimit(limit, options.pzAltitudeUnit)}`
+          : ` über Ceiling ${formatZoneLimit(limit, options.pzAltitudeUnit)}`
+      return makeInfringement('pz', zone.id, zone.name, start, end, worst, `Einflug in Sperrgebiet "${zone.name}"${limitText}`)
+    })
+    infringements.push(...events)
+
+    if (closest) {
+      zoneApproaches.push({
+        zoneId: zone.id,
+        zoneName: zone.name,
+        closestApproach: closest,
+        infringed: events.length > 0
+      })
+    }
+  }
+
+  return { infringements, zoneApproaches }
+}
+
+/**
+ * Mittelpunkte, um die Task Rings gezeichnet werden (Ziele bzw. Referenzpunkt)
+ */
+function getRingCenters(task: Task): { lat: number; lon: number }[] {
+  if (task.goals.length > 0) {
+    return task.goals.map(g => ({ lat: g.position.latitude, lon: g.position.longitude }))
+  }
+  if (task.referencePoint) {
+    return [{ lat: task.referencePoint.latitude, lon: task.referencePoint.longitude }]
+  }
+  return []
+}
+
+/**
+ * Prüft den Track gegen Höhenlimits und Endzeit eines Tasks.
+ * Höhenlimits gelten bis zum letzten Marker des Tasks (bzw. bis Task-Ende) und -
+ * wenn der Task Rings hat - nur innerhalb des äußersten Rings.
+ */
+export function detectTaskInfringements(
+  task: Task,
+  track: TrackPoint[],
+  markers: MarkerDrop[],
+  options: InfringementOptions = {}
+): Infringement[] {
+  const infringements: Infringement[] = []
+  const label = task.taskNumber ? `${task.taskNumber} ${task.type}` : task.name || task.type
+  const taskMarkers = markers
+    .filter(m => m.taskId === task.id)
+    .sort((a, b) => toTime(a.timestamp) - toTime(b.timestamp))
+
+  const launchTime = track.length > 0 ? toTime(track[0].timestamp) : Date.now()
+  const endTime = getTaskEndTime(task, new Date(launchTime), options.taskTimeZone)
+  const lastMarkerTime = taskMarkers.length > 0 ? toTime(taskMarkers[taskMarkers.length - 1].timestamp) : null
+  const periodEnd = lastMarkerTime ?? endTime ?? Infinity
+
+  const centers = getRingCenters(task)
+  const outerRing = task.rings && task.rings.length > 0 ? Math.max(...task.rings) : null
+
+  const distanceToRingCenter = (point: TrackPoint): number => {
+    if (centers.length === 0) return 0
+    return Math.min(...centers.map(c => calculateDistance(point.position.latitude, point.position.longitude, c.lat, c.lon)))
+  }
+
+  const inTaskScope = (point: TrackPoint): boolean => {
+    if (toTime(point.timestamp) > periodEnd) return false
+    if (outerRing !== null && centers.length > 0 && distanceToRingCenter(point) > outerRing) return false
+    return true
+  }
+
+  if (task.minAltitude !== undefined) {
+    const minAlt = task.minAltitude
+    infringements.push(...detectSegments(track, point => {
+      if (!inTaskScope(point)) return null
+      const margin = getAltitude(point) - minAlt
+      return { violating: margin < 0, approach: makeApproach(point, distanceToRingCenter(point), margin), severity: margin }
+    }, (start, end, worst) => makeInfringement('task_min_alt', task.id, label, start, end, worst,
+      `Mindesthöhe ${Math.round(minAlt)}m unterschritten (min. ${Math.round(worst.altitude)}m)`)))
+  }
+
+  if (task.maxAltitude !== undefined) {
+    const maxAlt = task.maxAltitude
+    infringements.push(...detectSegments(track, point => {
+      if (!inTaskScope(point)) return null
+      const margin = maxAlt - getAltitude(point)
+      return { violating: margin < 0, approach: makeApproach(point, distanceToRingCenter(point), margin), severity: margin }
+    }, (start, end, worst) => makeInfringement('task_max_alt', task.id, label, start, end, worst,
+      `Maximalhöhe ${Math.round(maxAlt)}m überschritten (max. ${Math.round(worst.altitude)}m)`)))
+  }
+
+  if (endTime !== null) {
+    taskMarkers
+      .filter(m => toTime(m.timestamp) > endTime)
+      .forEach(marker => {
+        const dropTime = new Date(marker.timestamp)
+        infringements.push({
+          type: 'task_end',
+          refId: task.id,
+          name: label,
+          startTime: new Date(endTime),
+          endTime: dropTime,
+          durationSeconds: (dropTime.getTime() - endTime) / 1000,
+          closestApproach: {
+            time: dropTime,
+            lat: marker.position.latitude,
+            lon: marker.position.longitude,
+            altitude: marker.altitude,
+            horizontalDistance: centers.length > 0
+              ? Math.min(...centers.map(c => calculateDistance(marker.position.latitude, marker.position.longitude, c.lat, c.lon)))
+              : 0,
+            verticalMargin: null
+          },
+          description: `Marker ${marker.number} ${Math.round((dropTime.getTime() - endTime) / 1000)}s nach Task-Ende (${task.endsAt}) gedroppt`
+        })
+      })
+  }
+
+  return infringements
+}
+
+/**
+ * Vollständige Analyse eines Fluges: Sperrgebiete + alle Tasks, chronologisch sortiert
+ */
+export function analyzeFlightInfringements(
+  flight: Flight,
+  zones: ProhibitedZone[],
+  options: InfringementOptions = {}
+): InfringementReport {
+  const zoneReport = detectZoneInfringements(flight.track, zones, options)
+  const taskInfringements = flight.tasks.flatMap(task =>
+    detectTaskInfringements(task, flight.track, flight.markers, options)
+  )
+
+  const infringements = [...zoneReport.infringements, ...taskInfringements]
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
+
+  return { infringements, zoneApproaches: zoneReport.zoneApproaches }
+}
@@ -0,0 +1,295 @@
+/**
+ * Ensemble-Landeprognose
+ * Statt eines einzigen Abstiegs werden viele Abstiege mit gestörtem Wind (Richtung, Stärke),
+ * gestörter Sinkrate und wechselnder Mischung aus Vorhersage und gemessenem Wind gerechnet.
+ * Ergebnis ist eine Punktwolke möglicher Landepunkte mit P50/P90-Landeflächen.
+ */
+
+import { calculateDestination, calculateDistance, interpolateWind } from './navigation'
+import { createWindSampler, getWindFieldCoverage, WindField } from './windField'
+
+interface WindLayerInput {
+  altitude: number  // Meter MSL
+  direction: number  // Grad (woher der Wind kommt)
+  speed: number      // km/h
+}
+
+export interface LandingEnsembleOptions {
+  members: number             // Anzahl Simulationen
+  directionSigma: number      // Streuung Windrichtung (Grad, 1σ)
+  speedSigma: number          // Streuung Windstärke (Anteil, 1σ - 0.15 = ±15%)
+  sinkRateSigma: number       // Streuung Sinkrate (Anteil, 1σ)
+  seed: number                // Fester Seed - gleiche Eingaben ergeben dieselbe Wolke (kein Flackern)
+}
+
+export const DEFAULT_LANDING_ENSEMBLE_OPTIONS: LandingEnsembleOptions = {
+  members: 40,
+  directionSigma: 10,
+  speedSigma: 0.15,
+  sinkRateSigma: 0.2,
+  seed: 1
+}
+
+export interface LandingEnsembleMember {
+  lat: number
+  lon: number
+  timeSeconds: number
+  forecastWeight: number  // 0 = nur gemessener Wind, 1 = nur Vorhersage
+}
+
+export interface LandingArea {
+  percentile: number                      // 50 oder 90
+  polygon: { lat: number; lon: number }[] // Konvexe Hülle der inneren Landepunkte
+  radiusMeters: number                    // Abstand des Perzentils vom Zentrum
+}
+
+export interface LandingEnsemble {
+  members: LandingEnsembleMember[]
+  center: { lat: number; lon: number }  // Median der Landepunkte
+  p50: LandingArea
+  p90: LandingArea
+  spreadMeters: number                  // Größter Abstand zweier Landepunkte innerhalb P90
+  timeRangeSeconds: [number, number]    // Früheste / späteste Landung (P10-P90)
+  mixesSources: boolean                 // Vorhersage und Messung wurden gemischt
+}
+
+const TIME_STEP = 5           // Sekunden pro Simulationsschritt
+const MAX_TIME = 3600         // Max 1 Stunde Simulation
+const ELEV_CHECK_INTERVAL = 12 // Bodenhöhe alle 12 Schritte (60s) prüfen
+const ELEV_GRID = 0.005       // Bodenhöhen-Cache Raster (~500 m) - die Mitglieder liegen eng beieinander
+
+/**
+ * Deterministischer Zufallsgenerator (mulberry32)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Normalverteilte Zufallszahl (Box-Muller)
+ */
+function gaussian(random: () => number): number {
+  const u = Math.max(random(), 1e-12)
+  const v = random()
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+}
+
+/**
+ * Zwei Winde vektoriell mischen (weight = Anteil des zweiten Winds)
+ */
+function blendWind(
+  a: { direction: number; speedMs: number },
+  b: () => { direction: number; speedMs: number },
+  weight: number
+): { direction: number; speedMs: number } {
+  if (weight <= 0) return a
+  if (weight >= 1) return b()
+
+  const toVector = (w: { direction: number; speedMs: number }) => ({
+    u: w.speedMs * Math.sin(w.direction * Math.PI / 180),
+    v: w.speedMs * Math.cos(w.direction * Math.PI / 180)
+  })
+  const va = toVector(a)
+  const vb = toVector(b())
+  const u = va.u * (1 - weight) + vb.u * weight
+  const v = va.v * (1 - weight) + vb.v * weight
+  return {
+    direction: (Math.atan2(u, v) * 180 / Math.PI + 360) % 360,
+    speedMs: Math.sqrt(u * u + v * v)
+  }
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+function percentile(sortedValues: number[], p: number): number {
+  if (sortedValues.length === 0) return 0
+  const index = Math.min(sortedValues.length - 1, Math.max(0, Math.ceil(p / 100 * sortedValues.length) - 1))
+  return sortedValues[index]
+}
+
+/**
+ * Konvexe Hülle (Andrew's Monotone Chain) in lokalen Metern
+ */
+function convexHull(points: { x: number; y: number }[]): { x: number; y: number }[] {
+  if (points.length < 3) return [...points]
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y)
+  const cross = (o: { x: number; y: number }, a: { x: number; y: number }, b: { x: number; y: number }) =>
+    (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x)
+
+  const lower: { x: number; y: number }[] = []
+  for (const p of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop()
+    lower.push(p)
+  }
+  const upper: { x: number; y: number }[] = []
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const p = sorted[i]
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop()
+    upper.push(p)
+  }
+  lower.pop()
+  upper.pop()
+  return lower.concat(upper)
+}
+
+/**
+ * Landefläche eines Perzentils: Hülle der Landepunkte die näher am Zentrum liegen als das Perzentil.
+ * Zu wenige Punkte für eine Fläche -> Kreis mit dem Perzentil-Radius.
+ */
+function buildLandingArea(
+  local: { x: number; y: number; dist: number }[],
+  p: number,
+  toLatLon: (x: number, y: number) => { lat: number; lon: number }
+): LandingArea {
+  const distances = local.map(l => l.dist).sort((a, b) => a - b)
+  const radius = percentile(distances, p)
+  const inner = local.filter(l => l.dist <= radius)
+  let hull = convexHull(inner)
+
+  if (hull.length < 3) {
+    const r = Math.max(radius, 25)
+    hull = Array.from({ length: 24 }, (_, i) => ({
+      x: r * Math.sin(i / 24 * 2 * Math.PI),
+      y: r * Math.cos(i / 24 * 2 * Math.PI)
+    }))
+  }
+
+  return {
+    percentile: p,
+    polygon: hull.map(h => toLatLon(h.x, h.y)),
+    radiusMeters: radius
+  }
+}
+
+/**
+ * Berechnet die Ensemble-Landeprognose.
+ *
+ * @param measuredLayers - Gemessene Windschichten (inkl. Pibal/Windsond/manuell)
+ * @param forecastLayers - Vorhersage-Windschichten (leer = keine Mischung)
+ * @param getElevation - Funktion die Bodenhöhe für eine Position liefert
+ * @param windField - Optionales Windfeld: Vorhersage-Anteil ändert sich über Zeit und Ort
+ * @returns LandingEnsemble oder null wenn keine Berechnung möglich
+ */
+export async function calculateLandingEnsemble(
+  startLat: number,
+  startLon: number,
+  startAltitude: number,
+  sinkRate: number,
+  measuredLayers: WindLayerInput[],
+  forecastLayers: WindLayerInput[],
+  getElevation: (lat: number, lon: number) => Promise<number | null>,
+  windField: WindField | null = null,
+  options: Partial<LandingEnsembleOptions> = {}
+): Promise<LandingEnsemble | null> {
+  const opts = { ...DEFAULT_LANDING_ENSEMBLE_OPTIONS, ...options }
+  const field = windField && getWindFieldCoverage(windField) ? windField : null
+  const hasForecast = forecastLayers.length > 0 || field !== null
+  if ((measuredLayers.length === 0 && !hasForecast) || sinkRate <= 0 || startAltitude <= 0) {
+    return null
+  }
+
+  // Nur eine Quelle vorhanden -> keine Mischung, nur Störungen
+  const mixesSources = measuredLayers.length > 0 && hasForecast
+  const forecastWind = createWindSampler(forecastLayers, field, { lat: startLat, lon: startLon })
+
+  // Bodenhöhe mit grobem Raster cachen - sonst wären es hunderte IPC-Calls pro Lauf
+  const elevationCache = new Map<string, number | null>()
+  const getCachedElevation = async (lat: number, lon: number): Promise<number | null> => {
+    const key = `${Math.round(lat / ELEV_GRID)},${Math.round(lon / ELEV_GRID)}`
+    if (!elevationCache.has(key)) {
+      elevationCache.set(key, await getElevation(lat, lon))
+    }
+    return elevationCache.get(key)!
+  }
+  const startElev = (await getElevation(startLat, startLon)) ?? 0
+
+  const random = createRandom(opts.seed)
+  const members: LandingEnsembleMember[] = []
+
+  for (let m = 0; m < opts.members; m++) {
+    // Mitglied 0 ist der ungestörte Lauf (entspricht der normalen Landeprognose)
+    const isControl = m === 0
+    const directionOffset = isControl ? 0 : gaussian(random) * opts.directionSigma
+    const speedFactor = isControl ? 1 : Math.max(0.3, 1 + gaussian(random) * opts.speedSigma)
+    const memberSinkRate = isControl ? sinkRate : Math.max(0.2, sinkRate * (1 + gaussian(random) * opts.sinkRateSigma))
+    const forecastWeight = !mixesSources ? (measuredLayers.length === 0 ? 1 : 0) : isControl ? 0 : random()
+
+    let lat = startLat
+    let lon = startLon
+    let alt = startAltitude
+    let groundElev = startElev
+    let time = 0
+    let step = 0
+
+    while (time < MAX_TIME) {
+      alt -= memberSinkRate * TIME_STEP
+      time += TIME_STEP
+      step++
+
+      const wind = measuredLayers.length === 0
+        ? forecastWind(alt, lat, lon, time)
+        : blendWind(interpolateWind(alt, measuredLayers), () => forecastWind(alt, lat, lon, time), forecastWeight)
+      const driftDirection = (wind.direction + directionOffset + 180 + 360) % 360
+      const pos = calculateDestination(lat, lon, driftDirection, wind.speedMs * speedFactor * TIME_STEP)
+      lat = pos.lat
+      lon = pos.lon
+
+      if (step % ELEV_CHECK_INTERVAL === 0) {
+        const elev = await getCachedElevation(lat, lon)
+        if (elev !== null) groundElev = elev
+      }
+      if (alt <= groundElev) break
+    }
+
+    members.push({ lat, lon, timeSeconds: time, forecastWeight })
+  }
+
+  // Lokales metrisches System um den Median der Landepunkte
+  const center = { lat: median(members.map(m => m.lat)), lon: median(members.map(m => m.lon)) }
+  const metersPerDegLat = 111320
+  const metersPerDegLon = 111320 * Math.cos(center.lat * Math.PI / 180)
+  const toLatLon = (x: number, y: number) => ({
+    lat: center.lat + y / metersPerDegLat,
+    lon: center.lon + x / metersPerDegLon
+  })
+  const local = members.map(m => {
+    const x = (m.lon - center.lon) * metersPerDegLon
+    const y = (m.lat - center.lat) * metersPerDegLat
+    return { x, y, dist: Math.sqrt(x * x + y * y) }
+  })
+
+  const p50 = buildLandingArea(local, 50, toLatLon)
+  const p90 = buildLandingArea(local, 90, toLatLon)
+
+  // Spannweite innerhalb P90 (Ausreißer ignorieren)
+  const inner = members.filter((_, i) => local[i].dist <= p90.radiusMeters)
+  let spreadMeters = 0
+  for (let i = 0; i < inner.length; i++) {
+    for (let j = i + 1; j < inner.length; j++) {
+      spreadMeters = Math.max(spreadMeters, calculateDistance(inner[i].lat, inner[i].lon, inner[j].lat, inner[j].lon))
+    }
+  }
+
+  const times = members.map(m => m.timeSeconds).sort((a, b) => a - b)
+
+  return {
+    members,
+    center,
+    p50,
+    p90,
+    spreadMeters,
+    timeRangeSeconds: [percentile(times, 10), percentile(times, 90)],
+    mixesSources
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Marker-Kalibrierung
+ *
+ * Vergleicht für vergangene Drops den vom Fallmodell vorhergesagten Aufschlag
+ * mit dem tatsächlich gemessenen und passt pro Markertyp zwei Parameter an:
+ * - dragScale: wie stark der Marker vom Wind mitgenommen wird (Bänder, Form)
+ * - forwardThrow: Wurf in Flugrichtung beim Abwerfen (Pilotengewohnheit)
+ *
+ * Die Suche ist ein einfaches Raster (grob, dann fein) über den mittleren
+ * quadratischen Fehler - bei wenigen Drops robuster als ein Gradientenverfahren.
+ */
+
+import type { AppSettings, MarkerCalibration, MarkerDrop, MarkerDropContext } from '../../shared/types'
+import { simulateMarkerFall, calculateDistance, MarkerFallParams, DEFAULT_MARKER_FALL } from './navigation'
+
+export const DEFAULT_MARKER_TYPE = 'Standard'
+export const MIN_CALIBRATION_SAMPLES = 3
+
+// Drops mit mehr Abweichung vom Standardmodell gelten als Fehleingabe
+const MAX_SAMPLE_ERROR = 500  // Meter
+
+// Suchraum
+const DRAG_SCALE_MIN = 0.25
+const DRAG_SCALE_MAX = 4
+const THROW_MIN = -3   // m/s (nach hinten geworfen)
+const THROW_MAX = 6    // m/s
+
+export interface MarkerCalibrationSample {
+  markerType: string
+  dropLat: number
+  dropLon: number
+  context: MarkerDropContext
+  actualLat: number
+  actualLon: number
+}
+
+/** Schlüssel für die Kalibrierung in den Einstellungen */
+export function calibrationPilotKey(pilotName: string | undefined): string {
+  return pilotName?.trim() || 'Pilot'
+}
+
+export function markerTypeOf(marker: MarkerDrop): string {
+  return marker.markerType?.trim() || DEFAULT_MARKER_TYPE
+}
+
+/**
+ * Drops mit Abwurfbedingungen und nachgetragenem Aufschlagpunkt sammeln.
+ * Ohne pilot werden alle Piloten berücksichtigt.
+ */
+export function collectCalibrationSamples(markers: MarkerDrop[], pilot?: string): MarkerCalibrationSample[] {
+  const samples: MarkerCalibrationSample[] = []
+  for (const m of markers) {
+    if (!m.dropContext || !m.impactPosition) continue
+    if (m.dropContext.windLayers.length === 0) continue
+    if (pilot !== undefined && calibrationPilotKey(m.dropContext.pilot) !== pilot) continue
+    samples.push({
+      markerType: markerTypeOf(m),
+      dropLat: m.position.latitude,
+      dropLon: m.position.longitude,
+      context: m.dropContext,
+      actualLat: m.impactPosition.latitude,
+      actualLon: m.impactPosition.longitude
+    })
+  }
+  return samples
+}
+
+/** Aufschlag eines gespeicherten Drops mit den gegebenen Parametern nachrechnen */
+export function predictSampleImpact(sample: MarkerCalibrationSample, params: MarkerFallParams): { lat: number; lon: number } {
+  const c = sample.context
+  const sim = simulateMarkerFall(
+    sample.dropLat, sample.dropLon, c.altitude, c.groundElevation, c.sinkRate,
+    c.windLayers, c.speedKmh, c.heading, params
+  )
+  return { lat: sim.endPoint.lat, lon: sim.endPoint.lon }
+}
+
+function sampleError(sample: MarkerCalibrationSample, params: MarkerFallParams): number {
+  const p = predictSampleImpact(sample, params)
+  return calculateDistance(p.lat, p.lon, sample.actualLat, sample.actualLon)
+}
+
+/** Mittlerer quadratischer Fehler (Meter) über alle Drops */
+export function calibrationRms(samples: MarkerCalibrationSample[], params: MarkerFallParams): number {
+  if (samples.length === 0) return 0
+  let sum = 0
+  for (const s of samples) {
+    const e = sampleError(s, params)
+    sum += e * e
+  }
+  return Math.sqrt(sum / samples.length)
+}
+
+function gridSearch(
+  samples: MarkerCalibrationSample[],
+  dragScales: number[],
+  throws: number[],
+  best: { params: MarkerFallParams; rms: number }
+): { params: MarkerFallParams; rms: number } {
+  for (const dragScale of dragScales) {
+    for (const forwardThrow of throws) {
+      const params = { dragScale, forwardThrow }
+      const rms = calibrationRms(samples, params)
+      if (rms < best.rms) best = { params, rms }
+    }
+  }
+  return best
+}
+
+/**
+ * Fallparameter für einen Markertyp anpassen.
+ * Liefert null wenn zu wenige brauchbare Drops vorhanden sind.
+ */
+export function fitMarkerCalibration(markerType: string, allSamples: MarkerCalibrationSample[]): MarkerCalibration | null {
+  const samples = allSamples.filter(s =>
+    s.markerType === markerType && sampleError(s, DEFAULT_MARKER_FALL) <= MAX_SAMPLE_ERROR
+  )
+  if (samples.length < MIN_CALIBRATION_SAMPLES) return null
+
+  const rmsBefore = calibrationRms(samples, DEFAULT_MARKER_FALL)
+
+  // Grob: dragScale logarithmisch (enthält 1.0), Wurf in 0.5 m/s Schritten (enthält 0)
+  const coarseDrag: number[] = []
+  const dragSteps = 16
+  for (let i = 0; i <= dragSteps; i++) {
+    coarseDrag.push(DRAG_SCALE_MIN * Math.pow(DRAG_SCALE_MAX / DRAG_SCALE_MIN, i / dragSteps))
+  }
+  const coarseThrow: number[] = []
+  for (let t = THROW_MIN; t <= THROW_MAX + 1e-9; t += 0.5) coarseThrow.push(t)
+
+  let best = gridSearch(samples, coarseDrag, coarseThrow, { params: DEFAULT_MARKER_FALL, rms: rmsBefore })
+
+  // Fein: um das beste Ergebnis herum
+  const dragRatio = Math.pow(DRAG_SCALE_MAX / DRAG_SCALE_MIN, 1 / dragSteps)
+  const fineDrag: number[] = []
+  const fineThrow: number[] = []
+  for (let i = -4; i <= 4; i++) {
+    fineDrag.push(Math.min(DRAG_SCALE_MAX, Math.max(DRAG_SCALE_MIN, best.params.dragScale * Math.pow(dragRatio, i / 4))))
+    fineThrow.push(Math.min(THROW_MAX, Math.max(THROW_MIN, best.params.forwardThrow + i * 0.125)))
+  }
+  best = gridSearch(samples, fineDrag, fineThrow, best)
+
+  return {
+    markerType,
+    dragScale: Math.round(best.params.dragScale * 100) / 100,
+    forwardThrow: Math.round(best.params.forwardThrow * 100) / 100,
+    samples: samples.length,
+    rmsBefore: Math.round(rmsBefore * 10) / 10,
+    rmsAfter: Math.round(best.rms * 10) / 10,
+    updatedAt: new Date().toISOString()
+  }
+}
+
+/** Alle Markertypen kalibrieren, für die genug Drops vorhanden sind */
+export function fitMarkerCalibrations(
+  samples: MarkerCalibrationSample[],
+  onProgress?: (fraction: number) => void
+): MarkerCalibration[] {
+  const types = [...new Set(samples.map(s => s.markerType))]
+  const result: MarkerCalibration[] = []
+  types.forEach((type, i) => {
+    const cal = fitMarkerCalibration(type, samples)
+    if (cal) result.push(cal)
+    onProgress?.((i + 1) / types.length)
+  })
+  return result
+}
+
+/** Kalibrierung des Piloten für einen Markertyp (oder null = Standardmodell) */
+export function findMarkerCalibration(
+  settings: Pick<AppSettings, 'markerCalibrations' | 'pilotName'>,
+  markerType: string
+): MarkerCalibration | null {
+  const list = settings.markerCalibrations?.[calibrationPilotKey(settings.pilotName)]
+  return list?.find(c => c.markerType === markerType) ?? null
+}
@@ -124,7 +124,19 @@ export const mockNtaAPI = {
     disconnect: async (): Promise<void> => {
       console.log('Mock: Disconnecting')
       stopSimulation()
-    }
+    },
+
+    // Mehrere Sensoren gibt es nur in Electron (serielle Ports)
+    addSource: async () => ({ success: false, error: 'Im Browser nicht verfügbar' }),
+    disconnectSource: async () => {},
+    onFailover: () => {},
+    offFailover: () => {},
+
+    // NMEA-Logs gibt es nur in Electron (Dateisystem)
+    listLogs: async () => [],
+    deleteLog: async () => false,
+    selectLog: async () => null,
+    setReplaySpeed: async () => {}
   },
 
   gps: {
@@ -3,6 +3,10 @@
  * Geodätische Berechnungen für Heißluftballon-Navigation
  */
 
+import type { BalloonPerformance } from '../../shared/types'
+import type { WindSampler } from './windField'
+import { limitRate, onsetRate, levelOffOffset } from './balloonPerformance'
+
 // Erdradius in Metern
 const EARTH_RADIUS = 6371000
 
@@ -172,6 +176,31 @@ export function isPointInCircle(
   return distance <= radius
 }
 
+/**
+ * Prüft ob ein Punkt innerhalb eines Polygons liegt (Ray-Casting)
+ */
+export function isPointInPolygon(
+  pointLat: number, pointLon: number,
+  polygon: { lat: number; lon: number }[]
+): boolean {
+  if (polygon.length < 3) return false
+
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const yi = polygon[i].lat
+    const xi = polygon[i].lon
+    const yj = polygon[j].lat
+    const xj = polygon[j].lon
+
+    if (((yi > pointLat) !== (yj > pointLat)) &&
+        (pointLon < (xj - xi) * (pointLat - yi) / (yj - yi) + xi)) {
+      inside = !inside
+    }
+  }
+
+  return inside
+}
+
 /**
  * Berechnet die voraussichtliche Ankunftszeit (ETA) zum Ziel
  * @returns ETA in Sekunden, oder null wenn keine Annäherung
@@ -348,6 +377,7 @@ export function interpolateWind(
  * @param sinkRate - Sinkrate in m/s (positiver Wert, z.B. 2.0 für 2 m/s Sinken)
  * @param windLayers - Aufgezeichnete Windschichten
  * @param getElevation - Funktion die Bodenhöhe für eine Position liefert
+ * @param wind - Optionaler Wind-Zugriff über Zeit und Ort (Windfeld, siehe createWindSampler)
  * @returns LandingPrediction oder null wenn keine Berechnung möglich
  */
 export async function calculateLandingPrediction(
@@ -356,7 +386,8 @@ export async function calculateLandingPrediction(
   startAltitude: number,
   sinkRate: number,
   windLayers: WindLayerInput[],
-  getElevation: (lat: number, lon: number) => Promise<number | null>
+  getElevation: (lat: number, lon: number) => Promise<number | null>,
+  wind?: WindSampler
 ): Promise<LandingPrediction | null> {
   if (windLayers.length === 0 || sinkRate <= 0 || startAltitude <= 0) {
     return null
@@ -393,12 +424,14 @@ export async function calculateLandingPrediction(
     totalTime += TIME_STEP
     stepCount++
 
-    // Wind für aktuelle Höhe interpolieren
-    const wind = interpolateWind(currentAlt, windLayers)
+    // Wind für aktuelle Höhe interpolieren (mit Windfeld auch über Zeit und Ort)
+    const stepWind = wind
+      ? wind(currentAlt, currentLat, currentLon, totalTime)
+      : interpolateWind(currentAlt, windLayers)
 
     // Ballon driftet MIT dem Wind (Wind kommt AUS direction, Ballon bewegt sich IN direction+180)
-    const driftDirection = (wind.direction + 180) % 360
-    const driftDistance = wind.speedMs * TIME_STEP  // Meter
+    const driftDirection = (stepWind.direction + 180) % 360
+    const driftDistance = stepWind.speedMs * TIME_STEP  // Meter
 
     // Neue Position berechnen
     const newPos = calculateDestination(currentLat, currentLon, driftDirection, driftDistance)
@@ -494,49 +527,43 @@ export interface MarkerDropPrediction {
   totalDriftMeters: number         // Horizontale Drift Start → Aufschlag
 }
 
+/** Kalibrierbare Fallparameter (siehe markerCalibration.ts) */
+export interface MarkerFallParams {
+  dragScale: number     // Faktor auf den Luftwiderstand (1 = Standardmodell)
+  forwardThrow: number  // Zusätzliche Abwurfgeschwindigkeit in Flugrichtung (m/s)
+}
+
+export const DEFAULT_MARKER_FALL: MarkerFallParams = { dragScale: 1, forwardThrow: 0 }
+
+export interface MarkerFallSimulation {
+  path: MarkerDropPoint[]      // Fallpfad (jede Sekunde)
+  endPoint: MarkerDropPoint    // Letzter Punkt (Aufschlag oder Timeout)
+  reachedGround: boolean
+  vVertical: number            // Sinkgeschwindigkeit am Ende (m/s)
+  steps: number
+}
+
 /**
- * Berechnet wo ein Marker (FAI-Standard, 70g) am Boden aufschlägt.
- * Physikalisch realistische Simulation mit:
- * - Gravitationsbeschleunigung + Luftwiderstand (vertikale Sinkrate)
- * - Horizontale Trägheit (Marker hat beim Abwurf Ballongeschwindigkeit)
- * - Wind-Drag (Marker nähert sich exponentiell der Windgeschwindigkeit an)
- * - Marker-Aerodynamik (Cd, Querschnittsfläche, Masse)
- *
- * @param startLat - Aktuelle Breitengrad des Ballons
- * @param startLon - Aktuelle Längengrad des Ballons
- * @param startAltitude - Aktuelle Höhe MSL (Meter)
- * @param terminalVelocity - Maximale Sinkrate des Markers in m/s (z.B. 10)
- * @param windLayers - Aufgezeichnete Windschichten
- * @param getElevation - Funktion die Bodenhöhe für eine Position liefert
- * @param balloonSpeedKmh - Horizontalgeschwindigkeit des Ballons beim Abwurf (km/h)
- * @param balloonHeading - Flugrichtung des Ballons beim Abwurf (Grad 0-360)
- * @returns MarkerDropPrediction oder null
+ * Synchrone Fall-Simulation gegen eine feste Bodenhöhe.
+ * Wird vom Drop Calculator und von der Kalibrierung (Nachrechnen alter Drops) genutzt.
  */
-export async function calculateMarkerDrop(
+export function simulateMarkerFall(
   startLat: number,
   startLon: number,
   startAltitude: number,
+  groundElev: number,
   terminalVelocity: number,
   windLayers: WindLayerInput[],
-  getElevation: (lat: number, lon: number) => Promise<number | null>,
   balloonSpeedKmh: number = 0,
-  balloonHeading: number = 0
-): Promise<MarkerDropPrediction | null> {
-  if (windLayers.length === 0 || terminalVelocity <= 0 || startAltitude <= 0) {
-    return null
-  }
-
-  // Phase 1: Bodenhöhe am Startpunkt holen (1 IPC-Call)
-  const t0 = performance.now()
-  const startElev = await getElevation(startLat, startLon)
-  const groundElev = startElev ?? 0
-  console.log(`[MarkerDrop] startAlt=${Math.round(startAltitude)}m, groundElev=${groundElev}m (startElev IPC: ${Math.round(performance.now() - t0)}ms), termVel=${terminalVelocity}m/s, balloonSpeed=${Math.round(balloonSpeedKmh)}km/h, heading=${Math.round(balloonHeading)}°, layers=${windLayers.length}`)
-
-  // Phase 2: Physik-Simulation
+  balloonHeading: number = 0,
+  params: MarkerFallParams = DEFAULT_MARKER_FALL
+): MarkerFallSimulation {
   const TIME_STEP = 0.5  // 0.5s Schritte für Präzision
   const MAX_TIME = 300   // Max 5 Minuten
   const PATH_SAMPLE_INTERVAL = 2  // Jeden 2. Schritt (= jede Sekunde)
 
+  const dragFactor = DRAG_FACTOR * params.dragScale
+
   const path: MarkerDropPoint[] = []
   let currentLat = startLat
   let currentLon = startLon
@@ -548,11 +575,11 @@ export async function calculateMarkerDrop(
   let vVertical = 0
 
   // Horizontale Geschwindigkeit: Marker hat beim Abwurf die Ballongeschwindigkeit
-  // Heading in Grad → X/Y Komponenten (X=Ost, Y=Nord)
-  const balloonSpeedMs = balloonSpeedKmh / 3.6
+  // (plus Wurf in Flugrichtung). Heading in Grad → X/Y Komponenten (X=Ost, Y=Nord)
+  const releaseSpeedMs = balloonSpeedKmh / 3.6 + params.forwardThrow
   const headingRad = balloonHeading * Math.PI / 180
-  let vX = balloonSpeedMs * Math.sin(headingRad)  // Ost-Komponente
-  let vY = balloonSpeedMs * Math.cos(headingRad)  // Nord-Komponente
+  let vX = releaseSpeedMs * Math.sin(headingRad)  // Ost-Komponente
+  let vY = releaseSpeedMs * Math.cos(headingRad)  // Nord-Komponente
 
   // Startpunkt
   path.push({ lat: currentLat, lon: currentLon, altitude: currentAlt, timeSeconds: 0 })
@@ -562,8 +589,8 @@ export async function calculateMarkerDrop(
     stepCount++
 
     // ── Vertikale Physik: Gravitation vs. Luftwiderstand ──
-    // Drag-Kraft vertikal: F_drag = DRAG_FACTOR * v²
-    const dragForceVertical = DRAG_FACTOR * vVertical * vVertical
+    // Drag-Kraft vertikal: F_drag = dragFactor * v²
+    const dragForceVertical = dragFactor * vVertical * vVertical
     // Beschleunigung: a = g - F_drag/m (Drag bremst, Gravitation beschleunigt)
     const aVertical = GRAVITY - dragForceVertical / MARKER_MASS
     // Geschwindigkeit aktualisieren, max = terminalVelocity
@@ -587,10 +614,11 @@ export async function calculateMarkerDrop(
     const relSpeed = Math.sqrt(dvX * dvX + dvY * dvY)
 
     if (relSpeed > 0.001) {
-      // Horizontale Drag-Kraft: F = DRAG_FACTOR * relSpeed²
+      // Horizontale Drag-Kraft: F = dragFactor * relSpeed²
       // Aufgeteilt in X/Y-Richtung proportional zur Differenzgeschwindigkeit
-      const dragForceH = DRAG_FACTOR * relSpeed * relSpeed
-      const aH = dragForceH / MARKER_MASS  // Beschleunigung Betrag
+      const dragForceH = dragFactor * relSpeed * relSpeed
+      // Beschleunigung Betrag - nie über die Differenz hinaus (stabil auch bei großem dragScale)
+      const aH = Math.min(dragForceH / MARKER_MASS, relSpeed / TIME_STEP)
       // Beschleunigung in X/Y aufteilen (Richtung: von Marker zu Wind)
       const axH = aH * (dvX / relSpeed)
       const ayH = aH * (dvY / relSpeed)
@@ -614,45 +642,108 @@ export async function calculateMarkerDrop(
       path.push({ lat: currentLat, lon: currentLon, altitude: Math.max(0, currentAlt), timeSeconds: totalTime })
     }
 
-    // Boden-Check gegen initiale Bodenhöhe (synchron, kein IPC)
+    // Boden-Check gegen feste Bodenhöhe
     if (currentAlt <= groundElev) {
-      // Phase 3: Finale Bodenhöhe am Aufschlagpunkt prüfen (1 IPC-Call)
-      const t1 = performance.now()
-      const finalElev = await getElevation(currentLat, currentLon)
-      const finalGround = finalElev ?? groundElev
-      console.log(`[MarkerDrop] IMPACT: steps=${stepCount}, time=${totalTime.toFixed(1)}s, finalAlt=${Math.round(currentAlt)}m, ground=${finalGround}m, vVert=${vVertical.toFixed(1)}m/s, simTime=${Math.round(performance.now() - t0)}ms, finalIPC=${Math.round(performance.now() - t1)}ms`)
-
-      const impactPoint: MarkerDropPoint = {
-        lat: currentLat,
-        lon: currentLon,
-        altitude: finalGround,
-        timeSeconds: totalTime
-      }
-      path.push(impactPoint)
-
       return {
         path,
-        impactPoint,
-        timeToImpact: totalTime,
-        groundElevation: finalGround,
-        totalDriftMeters: calculateDistance(startLat, startLon, currentLat, currentLon)
+        endPoint: { lat: currentLat, lon: currentLon, altitude: currentAlt, timeSeconds: totalTime },
+        reachedGround: true,
+        vVertical,
+        steps: stepCount
       }
     }
   }
 
-  // Timeout
-  console.log(`[MarkerDrop] TIMEOUT: steps=${stepCount}, time=${totalTime}s, alt=${Math.round(currentAlt)}m, ground=${groundElev}m - Marker hat Boden nicht erreicht!`)
-  const impactPoint: MarkerDropPoint = {
-    lat: currentLat, lon: currentLon, altitude: currentAlt, timeSeconds: totalTime
+  return {
+    path,
+    endPoint: { lat: currentLat, lon: currentLon, altitude: currentAlt, timeSeconds: totalTime },
+    reachedGround: false,
+    vVertical,
+    steps: stepCount
   }
-  path.push(impactPoint)
+}
+
+/**
+ * Berechnet wo ein Marker (FAI-Standard, 70g) am Boden aufschlägt.
+ * Physikalisch realistische Simulation mit:
+ * - Gravitationsbeschleunigung + Luftwiderstand (vertikale Sinkrate)
+ * - Horizontale Trägheit (Marker hat beim Abwurf Ballongeschwindigkeit)
+ * - Wind-Drag (Marker nähert sich exponentiell der Windgeschwindigkeit an)
+ * - Marker-Aerodynamik (Cd, Querschnittsfläche, Masse)
+ *
+ * @param startLat - Aktuelle Breitengrad des Ballons
+ * @param startLon - Aktuelle Längengrad des Ballons
+ * @param startAltitude - Aktuelle Höhe MSL (Meter)
+ * @param terminalVelocity - Maximale Sinkrate des Markers in m/s (z.B. 10)
+ * @param windLayers - Aufgezeichnete Windschichten
+ * @param getElevation - Funktion die Bodenhöhe für eine Position liefert
+ * @param balloonSpeedKmh - Horizontalgeschwindigkeit des Ballons beim Abwurf (km/h)
+ * @param balloonHeading - Flugrichtung des Ballons beim Abwurf (Grad 0-360)
+ * @param params - Kalibrierte Fallparameter des Markertyps (Standard: unkalibriert)
+ * @returns MarkerDropPrediction oder null
+ */
+export async function calculateMarkerDrop(
+  startLat: number,
+  startLon: number,
+  startAltitude: number,
+  terminalVelocity: number,
+  windLayers: WindLayerInput[],
+  getElevation: (lat: number, lon: number) => Promise<number | null>,
+  balloonSpeedKmh: number = 0,
+  balloonHeading: number = 0,
+  params: MarkerFallParams = DEFAULT_MARKER_FALL
+): Promise<MarkerDropPrediction | null> {
+  if (windLayers.length === 0 || terminalVelocity <= 0 || startAltitude <= 0) {
+    return null
+  }
+
+  // Phase 1: Bodenhöhe am Startpunkt holen (1 IPC-Call)
+  const t0 = performance.now()
+  const startElev = await getElevation(startLat, startLon)
+  const groundElev = startElev ?? 0
+  console.log(`[MarkerDrop] startAlt=${Math.round(startAltitude)}m, groundElev=${groundElev}m (startElev IPC: ${Math.round(performance.now() - t0)}ms), termVel=${terminalVelocity}m/s, balloonSpeed=${Math.round(balloonSpeedKmh)}km/h, heading=${Math.round(balloonHeading)}°, layers=${windLayers.length}, drag=${params.dragScale.toFixed(2)}, throw=${params.forwardThrow.toFixed(1)}m/s`)
+
+  // Phase 2: Physik-Simulation gegen die Bodenhöhe am Startpunkt (synchron, kein IPC)
+  const sim = simulateMarkerFall(
+    startLat, startLon, startAltitude, groundElev, terminalVelocity,
+    windLayers, balloonSpeedKmh, balloonHeading, params
+  )
+  const { path, endPoint } = sim
+
+  if (sim.reachedGround) {
+    // Phase 3: Finale Bodenhöhe am Aufschlagpunkt prüfen (1 IPC-Call)
+    const t1 = performance.now()
+    const finalElev = await getElevation(endPoint.lat, endPoint.lon)
+    const finalGround = finalElev ?? groundElev
+    console.log(`[MarkerDrop] IMPACT: steps=${sim.steps}, time=${endPoint.timeSeconds.toFixed(1)}s, finalAlt=${Math.round(endPoint.altitude)}m, ground=${finalGround}m, vVert=${sim.vVertical.toFixed(1)}m/s, simTime=${Math.round(performance.now() - t0)}ms, finalIPC=${Math.round(performance.now() - t1)}ms`)
+
+    const impactPoint: MarkerDropPoint = {
+      lat: endPoint.lat,
+      lon: endPoint.lon,
+      altitude: finalGround,
+      timeSeconds: endPoint.timeSeconds
+    }
+    path.push(impactPoint)
+
+    return {
+      path,
+      impactPoint,
+      timeToImpact: endPoint.timeSeconds,
+      groundElevation: finalGround,
+      totalDriftMeters: calculateDistance(startLat, startLon, endPoint.lat, endPoint.lon)
+    }
+  }
+
+  // Timeout
+  console.log(`[MarkerDrop] TIMEOUT: steps=${sim.steps}, time=${endPoint.timeSeconds}s, alt=${Math.round(endPoint.altitude)}m, ground=${groundElev}m - Marker hat Boden nicht erreicht!`)
+  path.push(endPoint)
 
   return {
     path,
-    impactPoint,
-    timeToImpact: totalTime,
+    impactPoint: endPoint,
+    timeToImpact: endPoint.timeSeconds,
     groundElevation: groundElev,
-    totalDriftMeters: calculateDistance(startLat, startLon, currentLat, currentLon)
+    totalDriftMeters: calculateDistance(startLat, startLon, endPoint.lat, endPoint.lon)
   }
 }
 
@@ -1340,6 +1431,9 @@ export interface LandRunLimits {
  * - 'leg1+leg2': Separate Limits für Leg 1 und Leg 2
  * - 'total': Gesamtlimit A→C (wird auf Legs aufgeteilt)
  * - Einheit: Minuten oder Kilometer
+ *
+ * Mit performance werden Anlaufzeit, max. Raten und Überschwingen des Ballons
+ * beim Anflug und beim Höhenwechsel berücksichtigt.
  */
 export function calculateLandRun(
   pilotLat: number,
@@ -1348,7 +1442,9 @@ export function calculateLandRun(
   climbRate: number,
   windLayers: WindLayerInput[],
   limits: LandRunLimits,
-  mapBounds?: MapBoundsCheck | null
+  mapBounds?: MapBoundsCheck | null,
+  onProgress?: (fraction: number) => void,
+  performance: BalloonPerformance | null = null
 ): LandRunResult | null {
   if (windLayers.length < 2) return null
 
@@ -1370,6 +1466,7 @@ export function calculateLandRun(
 
   // Jede Kombination von Leg1-Höhe und Leg2-Höhe probieren
   for (let i = 0; i < altitudes.length; i++) {
+    onProgress?.(i / altitudes.length)
     for (let j = 0; j < altitudes.length; j++) {
       if (i === j) continue
 
@@ -1444,13 +1541,17 @@ export function calculateLandRun(
       let approachTime = 0
 
       const approachClimbDir = leg1Alt > pilotAltitude ? 1 : -1
-      const approachDuration = Math.abs(leg1Alt - pilotAltitude) / climbRate
+      const approachRate = limitRate(performance, climbRate, approachClimbDir > 0)
+      const approachAltDiff = Math.abs(leg1Alt - pilotAltitude)
 
+      let climbed = 0
       let at = 0
-      while (at < approachDuration) {
-        apAlt += approachClimbDir * climbRate * TIME_STEP
-        approachTime += TIME_STEP
+      while (climbed < approachAltDiff && at < 3600) {
         at += TIME_STEP
+        const climbStep = onsetRate(performance, approachRate, at) * TIME_STEP
+        climbed += climbStep
+        apAlt += approachClimbDir * climbStep
+        approachTime += TIME_STEP
 
         const wind = interpolateWind(apAlt, windLayers)
         const driftDir = (wind.direction + 180) % 360
@@ -1513,9 +1614,11 @@ export function calculateLandRun(
       // Beides zusammen = Leg 2 Gesamtzeit.
       const pathBC: { lat: number; lon: number }[] = [{ ...pointB }]
       const climbDir = leg2Alt > leg1Alt ? 1 : -1
+      const transitionRate = limitRate(performance, climbRate, climbDir > 0)
       currentAlt = leg1Alt
       const drift2Dir = (leg2Wind.direction + 180) % 360
       let transitioning = true  // Noch im Höhenwechsel?
+      let reachedAt = 0         // Zeit ab B beim Erreichen von leg2Alt
       t = 0
       while (t < leg2MaxTimeSec) {
         runTime += TIME_STEP
@@ -1523,12 +1626,13 @@ export function calculateLandRun(
 
         if (transitioning) {
           // Noch im Höhenwechsel: Steigen/Sinken + Wind auf aktueller Höhe
-          currentAlt += climbDir * climbRate * TIME_STEP
+          currentAlt += climbDir * onsetRate(performance, transitionRate, t) * TIME_STEP
 
           // Prüfe ob Zielhöhe erreicht
           if ((climbDir > 0 && currentAlt >= leg2Alt) || (climbDir < 0 && currentAlt <= leg2Alt)) {
             currentAlt = leg2Alt
             transitioning = false
+            reachedAt = t
           }
 
           // Wind auf aktueller Höhe (interpoliert während Transition)
@@ -1538,6 +1642,13 @@ export function calculateLandRun(
           const newPos = calculateDestination(currentLat, currentLon, driftDir, driftDist)
           currentLat = newPos.lat
           currentLon = newPos.lon
+        } else if (performance && performance.overshootPerMs > 0) {
+          // Auf leg2Alt, aber noch Überschwingen nach dem Abfangen
+          const overshoot = climbDir * levelOffOffset(performance, transitionRate, t - reachedAt)
+          const wind = interpolateWind(leg2Alt + overshoot, windLayers)
+          const newPos = calculateDestination(currentLat, currentLon, (wind.direction + 180) % 360, wind.speedMs * TIME_STEP)
+          currentLat = newPos.lat
+          currentLon = newPos.lon
         } else {
           // Auf leg2Alt: Drift mit leg2Wind
           const driftDist = leg2Wind.speedMs * TIME_STEP
@@ -1688,7 +1799,8 @@ export function calculateAngleTask(
   minTimeSec: number,           // Min Zeit A→B in Sekunden (nur bei min-Modus relevant)
   maxTimeSec: number,           // Max Zeit A→B in Sekunden (nur bei min-Modus relevant)
   mapBounds?: MapBoundsCheck | null,
-  fixedPointA?: { lat: number; lon: number } | null  // Manuell eingegebener Punkt A
+  fixedPointA?: { lat: number; lon: number } | null,  // Manuell eingegebener Punkt A
+  performance: BalloonPerformance | null = null       // Anlaufzeit, max. Raten, Überschwingen
 ): AngleTaskResult | null {
   if (windLayers.length < 2) return null
 
@@ -1738,13 +1850,17 @@ export function calculateAngleTask(
       approachTime = 0
 
       const approachClimbDir = leg1Alt > pilotAltitude ? 1 : -1
-      const approachDuration = Math.abs(leg1Alt - pilotAltitude) / climbRate
+      const approachRate = limitRate(performance, climbRate, approachClimbDir > 0)
+      const approachAltDiff = Math.abs(leg1Alt - pilotAltitude)
 
+      let climbed = 0
       let at = 0
-      while (at < approachDuration) {
-        apAlt += approachClimbDir * climbRate * TIME_STEP
-        approachTime += TIME_STEP
+      while (climbed < approachAltDiff && at < 3600) {
         at += TIME_STEP
+        const climbStep = onsetRate(performance, approachRate, at) * TIME_STEP
+        climbed += climbStep
+        apAlt += approachClimbDir * climbStep
+        approachTime += TIME_STEP
 
         const wind = interpolateWind(apAlt, windLayers)
         const driftDir = (wind.direction + 180) % 360
@@ -1781,6 +1897,8 @@ export function calculateAngleTask(
 
       const pathLeg2: { lat: number; lon: number }[] = [{ ...pointA }]
       const climbDir = leg2Alt > leg1Alt ? 1 : -1
+      const transitionRate = limitRate(performance, climbRate, climbDir > 0)
+      let reachedAt = 0
       let curLat = pointA.lat
       let curLon = pointA.lon
       let curAlt = leg1Alt
@@ -1797,10 +1915,11 @@ export function calculateAngleTask(
         t += TIME_STEP
 
         if (transitioning) {
-          curAlt += climbDir * climbRate * TIME_STEP
+          curAlt += climbDir * onsetRate(performance, transitionRate, t) * TIME_STEP
           if ((climbDir > 0 && curAlt >= leg2Alt) || (climbDir < 0 && curAlt <= leg2Alt)) {
             curAlt = leg2Alt
             transitioning = false
+            reachedAt = t
           }
           const wind = interpolateWind(curAlt, windLayers)
           const driftDir = (wind.direction + 180) % 360
@@ -1808,6 +1927,12 @@ export function calculateAngleTask(
           const newPos = calculateDestination(curLat, curLon, driftDir, driftDist)
           curLat = newPos.lat
           curLon = newPos.lon
+        } else if (performance && performance.overshootPerMs > 0 && leg1Alt !== leg2Alt) {
+          const overshoot = climbDir * levelOffOffset(performance, transitionRate, t - reachedAt)
+          const wind = interpolateWind(leg2Alt + overshoot, windLayers)
+          const newPos = calculateDestination(curLat, curLon, (wind.direction + 180) % 360, wind.speedMs * TIME_STEP)
+          curLat = newPos.lat
+          curLon = newPos.lon
         } else {
           const driftDist = leg2Wind.speedMs * TIME_STEP
           const newPos = calculateDestination(curLat, curLon, drift2Dir, driftDist)
@@ -9,10 +9,13 @@
  * Phasen im Flug:
  * - Vorlauf (30s): Drift auf aktueller Höhe, kein Steigen/Sinken
  * - Ramp-Up (30s): Rate steigt linear von 0 auf Zielrate
+ *   (mit Ballon-Flugverhalten: Anlaufzeit des Ballons statt fester Rampe)
  * - Volle Rate: Konstante Rate bis Höhenfenster erreicht
  */
 
+import type { BalloonPerformance } from '../../shared/types'
 import { calculateDistance, calculateDestination, calculateBearing, interpolateWind } from './navigation'
+import { limitRate, onsetRate } from './balloonPerformance'
 
 // ═══════════════════════════════════════════════════════════════════
 // Interfaces
@@ -39,6 +42,8 @@ export interface PdgFonInput {
   minDistM: number   // Mindest-Horizontaldistanz (m)
   // Wind
   windLayers: WindLayer[]
+  // Optional: Anlaufzeit und max. Raten des Ballons
+  performance?: BalloonPerformance | null
 }
 
 export interface PdgFonResult {
@@ -98,7 +103,8 @@ function simulateFlight(
   minDistM: number,
   direction: 'up' | 'down',
   includeLeadTime: boolean = true,
-  collectPath: boolean = false
+  collectPath: boolean = false,
+  perf: BalloonPerformance | null = null
 ): SimResult | null {
   let lat = startLat, lon = startLon, alt = startAlt
   const path: { lat: number; lon: number; altitude: number }[] = []
@@ -120,12 +126,13 @@ function simulateFlight(
   // Phase 2+3: Ramp-Up + Volle Rate
   let bestDist = Infinity
   let bestLat = lat, bestLon = lon, bestAlt = alt, bestTime = totalTime
+  const absRate = limitRate(perf, Math.abs(rate), rate > 0)
 
   for (let t = 1; t <= MAX_SIM_TIME; t++) {
     totalTime++
 
-    // Effektive Rate: Ramp-Up oder volle Rate
-    const effRate = t <= RAMP_UP ? rate * (t / RAMP_UP) : rate
+    // Effektive Rate: Ramp-Up (bzw. Anlaufzeit des Ballons) oder volle Rate
+    const effRate = Math.sign(rate) * onsetRate(perf, absRate, t, RAMP_UP)
     alt += effRate
 
     // Höhengrenzen
@@ -179,11 +186,15 @@ function simulateFlight(
 // Optimale Rate finden (3-stufig + Sensitivitätsanalyse)
 // ═══════════════════════════════════════════════════════════════════
 
-export function findOptimalRate(input: PdgFonInput): PdgFonResult | null {
+export function findOptimalRate(input: PdgFonInput, onProgress?: (fraction: number) => void): PdgFonResult | null {
   const { lat, lon, altitude, goalLat, goalLon, direction, minAltFt, maxAltFt, minDistM, windLayers } = input
+  const perf = input.performance ?? null
 
   if (windLayers.length === 0) return null
 
+  // Raten über dem Maximum des Ballons brauchen nicht getestet werden
+  const maxRate = limitRate(perf, 5.0, direction === 'up')
+
   // Höhenfenster berechnen
   const startAltFt = altitude * 3.28084
   const minTargetFt = direction === 'up' ? startAltFt + minAltFt : startAltFt - minAltFt
@@ -200,39 +211,44 @@ export function findOptimalRate(input: PdgFonInput): PdgFonResult | null {
   // Hilfsfunktion: Rate simulieren
   const sim = (rate: number) => simulateFlight(
     lat, lon, altitude, rate, windLayers, goalLat, goalLon,
-    minTargetAltM, maxTargetAltM, minDistM, direction, true, false
+    minTargetAltM, maxTargetAltM, minDistM, direction, true, false, perf
   )
 
   // Stufe 1: Grob (0.25 bis 5.0 in 0.5er Schritten)
   let bestRate = 0, bestDist = Infinity
-  for (let r = 0.25; r <= 5.0; r += 0.5) {
+  for (let r = 0.25; r <= maxRate; r += 0.5) {
     const rate = direction === 'up' ? r : -r
     const result = sim(rate)
     if (result && result.distToGoal < bestDist) { bestDist = result.distToGoal; bestRate = rate }
   }
 
   if (bestRate === 0) return null
+  onProgress?.(0.3)
 
   // Stufe 2: Fein (±0.5 in 0.05er Schritten)
   const base2 = Math.abs(bestRate)
-  for (let r = Math.max(0.1, base2 - 0.5); r <= base2 + 0.5; r += 0.05) {
+  for (let r = Math.max(0.1, base2 - 0.5); r <= Math.min(maxRate, base2 + 0.5); r += 0.05) {
     const rate = direction === 'up' ? r : -r
     const result = sim(rate)
     if (result && result.distToGoal < bestDist) { bestDist = result.distToGoal; bestRate = rate }
   }
 
+  onProgress?.(0.6)
+
   // Stufe 3: Ultra-fein (±0.1 in 0.01er Schritten)
   const base3 = Math.abs(bestRate)
-  for (let r = Math.max(0.05, base3 - 0.1); r <= base3 + 0.1; r += 0.01) {
+  for (let r = Math.max(0.05, base3 - 0.1); r <= Math.min(maxRate, base3 + 0.1); r += 0.01) {
     const rate = direction === 'up' ? r : -r
     const result = sim(rate)
     if (result && result.distToGoal < bestDist) { bestDist = result.distToGoal; bestRate = rate }
   }
 
+  onProgress?.(0.85)
+
   // Finale Simulation mit Pfad
   const finalResult = simulateFlight(
     lat, lon, altitude, bestRate, windLayers, goalLat, goalLon,
-    minTargetAltM, maxTargetAltM, minDistM, direction, true, true
+    minTargetAltM, maxTargetAltM, minDistM, direction, true, true, perf
   )
   if (!finalResult) return null
 
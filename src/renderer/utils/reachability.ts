@@ -0,0 +1,368 @@
+/**
+ * Erreichbarkeits-Karte
+ * Welche Bodenzellen kann der Ballon mit dem aktuellen Windprofil innerhalb eines Zeitbudgets
+ * erreichen (nur durch Höhenwahl, im Rahmen der Steig-/Sinkraten und Höhengrenzen)?
+ *
+ * Verfahren: Zeitschritt-Ausbreitung über (Bodenzelle × Höhenstufe). Jeder Zustand wird nur
+ * beim ersten Erreichen weiterverfolgt - dadurch ist die Zeit pro Zelle die Mindestzeit und die
+ * Rechnung bleibt auch bei großen Budgets begrenzt. Die Position wird exakt mitgeführt, das Gitter
+ * dient nur zum Ausdünnen, damit sich Rundungsfehler nicht über viele Schritte aufsummieren.
+ *
+ * Läuft im gemeinsamen Compute-Worker (workers/compute.worker.ts, Jobs reachability und
+ * gasRange in workers/computeJobs.ts), die Auswertung für Goals und Flächen
+ * (evaluateTaskReach) ist billig und läuft im UI-Thread.
+ */
+
+import type { Task } from '../../shared/types'
+import { createWindSampler, WindField } from './windField'
+import { isPointInPolygon } from './navigation'
+
+interface WindLayerInput {
+  altitude: number  // Meter MSL
+  direction: number  // Grad (woher der Wind kommt)
+  speed: number      // km/h
+}
+
+export interface ReachabilityInput {
+  lat: number
+  lon: number
+  altitude: number          // Meter MSL
+  windLayers: WindLayerInput[]
+  windField?: WindField | null
+  startTime?: number        // ms, Zeitpunkt des Berechnungsbeginns (Default: jetzt)
+  timeBudgetSec: number     // Zeit- bzw. Gasbudget in Sekunden
+  maxClimbRate: number      // m/s
+  maxSinkRate: number       // m/s (positiv)
+  minAltitude: number       // Meter MSL
+  maxAltitude: number       // Meter MSL
+}
+
+export interface ReachabilityGrid {
+  south: number
+  west: number
+  latStep: number           // Grad pro Zelle
+  lonStep: number
+  cols: number
+  rows: number
+  cellSize: number          // Meter
+  times: Float32Array       // Mindestzeit in Sekunden pro Zelle (row-major ab Süd-West), -1 = nicht erreichbar
+  timeBudgetSec: number
+  reachableCells: number
+  computedAt: number
+}
+
+export interface TaskReach {
+  taskId: string
+  label: string
+  kind: 'goal' | 'area'
+  minTimeSec: number | null  // null = nicht erreichbar
+  coverage: number | null    // Anteil der erreichbaren Fläche (0-1), nur für Flächen
+}
+
+const METERS_PER_DEG = 111320
+const MAX_CELLS_PER_SIDE = 160
+const MIN_CELL_SIZE = 100     // m
+const MAX_LEVELS = 30
+const MIN_LEVEL_STEP = 30     // m (~100 ft)
+const MAX_BRANCH = 7          // Höhenstufen-Wechsel pro Schritt
+const WIND_MARGIN = 1.3       // Reserve für Windfeld-Änderungen gegenüber den Schichten
+
+/**
+ * Erreichbare Bodenzellen und Mindestzeiten berechnen
+ */
+export function calculateReachability(
+  input: ReachabilityInput,
+  onProgress?: (fraction: number) => void
+): ReachabilityGrid | null {
+  const { lat, lon, windLayers, timeBudgetSec, maxClimbRate, maxSinkRate } = input
+  if (windLayers.length === 0 || timeBudgetSec <= 0) return null
+
+  const minAlt = Math.min(input.minAltitude, input.maxAltitude)
+  const maxAlt = Math.max(input.minAltitude, input.maxAltitude)
+
+  // Höhenstufen
+  const levelStep = Math.max(MIN_LEVEL_STEP, (maxAlt - minAlt) / (MAX_LEVELS - 1))
+  const levelCount = Math.max(1, Math.floor((maxAlt - minAlt) / levelStep) + 1)
+  const levelAlt = (i: number) => minAlt + i * levelStep
+  const startAlt = Math.max(minAlt, Math.min(maxAlt, input.altitude))
+  const startLevel = Math.min(levelCount - 1, Math.round((startAlt - minAlt) / levelStep))
+
+  // Zeitschritt: ~60 Schritte über das Budget, 30-120 s
+  const dt = Math.max(30, Math.min(120, timeBudgetSec / 60))
+  const steps = Math.ceil(timeBudgetSec / dt)
+
+  // Gittergröße aus dem stärksten Wind im Höhenfenster
+  const maxWindMs = windLayers.reduce((max, l) => Math.max(max, l.speed / 3.6), 0) * WIND_MARGIN
+  const radius = Math.max(maxWindMs * timeBudgetSec, 1000)
+  const cellSize = Math.max(MIN_CELL_SIZE, (2 * radius) / MAX_CELLS_PER_SIDE)
+  const cols = Math.ceil((2 * radius) / cellSize)
+  const rows = cols
+  const half = (cols * cellSize) / 2
+
+  const cosLat = Math.cos(lat * Math.PI / 180)
+  const latStep = cellSize / METERS_PER_DEG
+  const lonStep = cellSize / (METERS_PER_DEG * cosLat)
+  const south = lat - half / METERS_PER_DEG
+  const west = lon - half / (METERS_PER_DEG * cosLat)
+
+  const times = new Float32Array(cols * rows).fill(-1)
+  const visited = new Uint8Array(cols * rows * levelCount)
+  const cellOf = (x: number, y: number): number => {
+    const c = Math.floor((x + half) / cellSize)
+    const r = Math.floor((y + half) / cellSize)
+    if (c < 0 || c >= cols || r < 0 || r >= rows) return -1
+    return r * cols + c
+  }
+
+  const wind = createWindSampler(input.windLayers, input.windField, { lat, lon, time: input.startTime })
+  // Drift in Metern (Ost/Nord) über eine Dauer auf einer Höhe
+  const drift = (alt: number, x: number, y: number, elapsed: number, duration: number) => {
+    const w = wind(alt, lat + y / METERS_PER_DEG, lon + x / (METERS_PER_DEG * cosLat), elapsed)
+    const bearing = ((w.direction + 180) % 360) * Math.PI / 180
+    return { dx: Math.sin(bearing) * w.speedMs * duration, dy: Math.cos(bearing) * w.speedMs * duration }
+  }
+
+  // Frontier als flache Arrays (x, y, Zielstufe, tatsächliche Höhe). Ist die Höhe noch nicht
+  // auf der Zielstufe, ist der Ballon mitten im Höhenwechsel - der kann sich über mehrere
+  // Schritte ziehen, wenn die Steig-/Sinkrate pro Schritt weniger als eine Stufe schafft.
+  let fx: number[] = [0]
+  let fy: number[] = [0]
+  let fl: number[] = [startLevel]
+  let fa: number[] = [levelAlt(startLevel)]
+  const startCell = cellOf(0, 0)
+  times[startCell] = 0
+  visited[startCell * levelCount + startLevel] = 1
+  let reachableCells = 1
+
+  // Mindestens die Nachbarstufe, sonst bleibt der Ballon bei kleinen Raten auf der Starthöhe
+  const upLevels = maxClimbRate > 0 ? Math.max(1, Math.floor((maxClimbRate * dt) / levelStep)) : 0
+  const downLevels = maxSinkRate > 0 ? Math.max(1, Math.floor((maxSinkRate * dt) / levelStep)) : 0
+
+  for (let step = 0; step < steps && fx.length > 0; step++) {
+    onProgress?.(step / steps)
+    const t0 = step * dt
+    const duration = Math.min(dt, timeBudgetSec - t0)
+    const t1 = t0 + duration
+    const nx: number[] = []
+    const ny: number[] = []
+    const nl: number[] = []
+    const na: number[] = []
+
+    for (let s = 0; s < fx.length; s++) {
+      const x = fx[s], y = fy[s], level = fl[s], fromAlt = fa[s]
+      // Laufender Höhenwechsel wird zu Ende geführt, erst auf der Stufe neu entscheiden
+      const settled = Math.abs(fromAlt - levelAlt(level)) < 1e-6
+      const lo = settled ? Math.max(0, level - downLevels) : level
+      const hi = settled ? Math.min(levelCount - 1, level + upLevels) : level
+      const stride = Math.max(1, Math.ceil((hi - lo) / (MAX_BRANCH - 1)))
+
+      for (let target = lo; target <= hi; target = nextLevel(target, stride, level, hi)) {
+        const targetAlt = levelAlt(target)
+        const change = targetAlt - fromAlt
+        const rate = change > 0 ? maxClimbRate : maxSinkRate
+        if (change !== 0 && rate <= 0) continue
+        const fullChangeTime = change !== 0 ? Math.abs(change) / rate : 0
+        const changeTime = Math.min(duration, fullChangeTime)
+        const arrived = fullChangeTime <= duration
+        const toAlt = arrived ? targetAlt : fromAlt + Math.sign(change) * rate * changeTime
+
+        // Während des Höhenwechsels Wind der mittleren Höhe, danach Wind der Zielhöhe
+        let px = x, py = y
+        if (changeTime > 0) {
+          const d = drift((fromAlt + toAlt) / 2, px, py, t0, changeTime)
+          px += d.dx; py += d.dy
+        }
+        if (duration - changeTime > 0) {
+          const d = drift(toAlt, px, py, t0 + changeTime, duration - changeTime)
+          px += d.dx; py += d.dy
+        }
+
+        // Überflogene Zellen zwischen den Schritten mitnehmen (sonst Lücken bei starkem Wind)
+        const segment = Math.hypot(px - x, py - y)
+        const samples = Math.ceil(segment / (cellSize / 2))
+        for (let k = 1; k < samples; k++) {
+          const between = cellOf(x + (px - x) * k / samples, y + (py - y) * k / samples)
+          if (between >= 0 && times[between] < 0) {
+            times[between] = t0 + duration * k / samples
+            reachableCells++
+          }
+        }
+
+        const cell = cellOf(px, py)
+        if (cell < 0) continue
+        if (times[cell] < 0) {
+          times[cell] = t1
+          reachableCells++
+        }
+        // Zustände im Höhenwechsel nicht ausdünnen - jeder führt nur einen Zweig weiter
+        if (arrived) {
+          const key = cell * levelCount + target
+          if (visited[key]) continue
+          visited[key] = 1
+        }
+        nx.push(px); ny.push(py); nl.push(target); na.push(toAlt)
+      }
+    }
+
+    fx = nx; fy = ny; fl = nl; fa = na
+  }
+
+  return {
+    south, west, latStep, lonStep, cols, rows, cellSize,
+    times, timeBudgetSec, reachableCells,
+    computedAt: Date.now()
+  }
+}
+
+// Nächste Höhenstufe: gleichmäßig ausgedünnt, aktuelle Stufe und Obergrenze immer dabei
+function nextLevel(current: number, stride: number, level: number, hi: number): number {
+  let next = current + stride
+  if (current < level && next > level) next = level
+  if (current < hi && next > hi) next = hi
+  return next
+}
+
+/**
+ * Mindestzeit an einer Position (Sekunden) oder null wenn nicht erreichbar / außerhalb
+ */
+export function reachTimeAt(grid: ReachabilityGrid, lat: number, lon: number): number | null {
+  const c = Math.floor((lon - grid.west) / grid.lonStep)
+  const r = Math.floor((lat - grid.south) / grid.latStep)
+  if (c < 0 || c >= grid.cols || r < 0 || r >= grid.rows) return null
+  const t = grid.times[r * grid.cols + c]
+  return t >= 0 ? t : null
+}
+
+/**
+ * Außenrand der erreichbaren Fläche als Polygon um den Startpunkt.
+ * Pro Richtungssektor die am weitesten entfernte erreichbare Zelle - anders als
+ * eine konvexe Hülle bleiben Einbuchtungen (z.B. bei einseitigem Wind) erhalten.
+ */
+export function reachabilityOutline(
+  grid: ReachabilityGrid,
+  lat: number,
+  lon: number,
+  sectors = 72
+): { lat: number; lon: number }[] {
+  const cosLat = Math.cos(lat * Math.PI / 180)
+  const best = new Array<{ dist: number; lat: number; lon: number } | null>(sectors).fill(null)
+
+  for (let r = 0; r < grid.rows; r++) {
+    for (let c = 0; c < grid.cols; c++) {
+      if (grid.times[r * grid.cols + c] < 0) continue
+      const cellLat = grid.south + (r + 0.5) * grid.latStep
+      const cellLon = grid.west + (c + 0.5) * grid.lonStep
+      const dy = (cellLat - lat) * METERS_PER_DEG
+      const dx = (cellLon - lon) * METERS_PER_DEG * cosLat
+      const dist = Math.hypot(dx, dy)
+      const bearing = (Math.atan2(dx, dy) * 180 / Math.PI + 360) % 360
+      const sector = Math.min(sectors - 1, Math.floor(bearing / (360 / sectors)))
+      if (!best[sector] || dist > best[sector]!.dist) best[sector] = { dist, lat: cellLat, lon: cellLon }
+    }
+  }
+
+  return best
+    .filter((p): p is { dist: number; lat: number; lon: number } => p !== null)
+    .map(p => ({ lat: p.lat, lon: p.lon }))
+}
+
+/**
+ * Erreichbarkeit von Goals (MMA-Kreis), Scoring Areas und PDG-Ringen der Tasks auswerten
+ */
+export function evaluateTaskReach(grid: ReachabilityGrid, tasks: Task[]): TaskReach[] {
+  const result: TaskReach[] = []
+
+  for (const task of tasks) {
+    const prefix = task.taskNumber ? `${task.taskNumber} ` : ''
+
+    for (const goal of task.goals) {
+      const { latitude, longitude } = goal.position
+      const radius = Math.max(task.mmaRadius || goal.radius || 0, grid.cellSize / 2)
+      const area = scanArea(grid, latitude, longitude, radius, (d) => d <= radius)
+      result.push({ taskId: task.id, label: `${prefix}${goal.name}`, kind: 'goal', minTimeSec: area.minTime, coverage: null })
+
+      // PDG/FON: erlaubter Ring zwischen kleinstem und größtem Ring um das Goal
+      if (task.rings && task.rings.length >= 2) {
+        const inner = Math.min(...task.rings)
+        const outer = Math.max(...task.rings)
+        const ring = scanArea(grid, latitude, longitude, outer, (d) => d >= inner && d <= outer)
+        result.push({ taskId: task.id, label: `${prefix}${goal.name} Ring`, kind: 'area', minTimeSec: ring.minTime, coverage: ring.coverage })
+      }
+    }
+
+    const sa = task.scoringArea
+    if (sa?.type === 'circle' && sa.center && sa.radius) {
+      const radius = sa.radius
+      const area = scanArea(grid, sa.center.latitude, sa.center.longitude, radius, (d) => d <= radius)
+      result.push({ taskId: task.id, label: `${prefix}${sa.name || 'Scoring Area'}`, kind: 'area', minTimeSec: area.minTime, coverage: area.coverage })
+    } else if (sa?.type === 'polygon' && sa.points && sa.points.length >= 3) {
+      const area = scanPolygon(grid, sa.points.map(p => ({ lat: p.latitude, lon: p.longitude })))
+      result.push({ taskId: task.id, label: `${prefix}${sa.name || 'Scoring Area'}`, kind: 'area', minTimeSec: area.minTime, coverage: area.coverage })
+    }
+  }
+
+  return result
+}
+
+// Zellen um einen Mittelpunkt durchsuchen, inside(Distanz in m) entscheidet über Zugehörigkeit
+function scanArea(
+  grid: ReachabilityGrid, lat: number, lon: number, radius: number,
+  inside: (distance: number) => boolean
+): { minTime: number | null; coverage: number | null } {
+  const cosLat = Math.cos(lat * Math.PI / 180)
+  const r0 = Math.floor((lat - radius / METERS_PER_DEG - grid.south) / grid.latStep)
+  const r1 = Math.floor((lat + radius / METERS_PER_DEG - grid.south) / grid.latStep)
+  const c0 = Math.floor((lon - radius / (METERS_PER_DEG * cosLat) - grid.west) / grid.lonStep)
+  const c1 = Math.floor((lon + radius / (METERS_PER_DEG * cosLat) - grid.west) / grid.lonStep)
+
+  let total = 0, reached = 0
+  let minTime: number | null = null
+  for (let r = r0; r <= r1; r++) {
+    for (let c = c0; c <= c1; c++) {
+      const cellLat = grid.south + (r + 0.5) * grid.latStep
+      const cellLon = grid.west + (c + 0.5) * grid.lonStep
+      const dy = (cellLat - lat) * METERS_PER_DEG
+      const dx = (cellLon - lon) * METERS_PER_DEG * cosLat
+      if (!inside(Math.sqrt(dx * dx + dy * dy))) continue
+      total++
+      if (r < 0 || r >= grid.rows || c < 0 || c >= grid.cols) continue
+      const t = grid.times[r * grid.cols + c]
+      if (t < 0) continue
+      reached++
+      if (minTime === null || t < minTime) minTime = t
+    }
+  }
+
+  // Fläche kleiner als eine Zelle: Mittelpunkt entscheidet
+  if (total === 0) {
+    const t = reachTimeAt(grid, lat, lon)
+    return { minTime: t, coverage: t !== null ? 1 : 0 }
+  }
+  return { minTime, coverage: reached / total }
+}
+
+function scanPolygon(grid: ReachabilityGrid, points: { lat: number; lon: number }[]): { minTime: number | null; coverage: number | null } {
+  const lats = points.map(p => p.lat)
+  const lons = points.map(p => p.lon)
+  const r0 = Math.floor((Math.min(...lats) - grid.south) / grid.latStep)
+  const r1 = Math.floor((Math.max(...lats) - grid.south) / grid.latStep)
+  const c0 = Math.floor((Math.min(...lons) - grid.west) / grid.lonStep)
+  const c1 = Math.floor((Math.max(...lons) - grid.west) / grid.lonStep)
+
+  let total = 0, reached = 0
+  let minTime: number | null = null
+  for (let r = r0; r <= r1; r++) {
+    for (let c = c0; c <= c1; c++) {
+      const cellLat = grid.south + (r + 0.5) * grid.latStep
+      const cellLon = grid.west + (c + 0.5) * grid.lonStep
+      if (!isPointInPolygon(cellLat, cellLon, points)) continue
+      total++
+      if (r < 0 || r >= grid.rows || c < 0 || c >= grid.cols) continue
+      const t = grid.times[r * grid.cols + c]
+      if (t < 0) continue
+      reached++
+      if (minTime === null || t < minTime) minTime = t
+    }
+  }
+  return { minTime, coverage: total > 0 ? reached / total : null }
+}
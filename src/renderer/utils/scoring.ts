@@ -0,0 +1,554 @@
+/**
+ * Post-Flight Scoring für NTA
+ * Berechnet die Task-Ergebnisse eines aufgezeichneten Fluges nach FAI/CIA Regeln
+ * (Marker, Deklarationen, Track) - für das Debriefing direkt nach der Landung.
+ */
+
+import type { Flight, Task, Goal, MarkerDrop, GoalDeclaration, TrackPoint, ScoringArea, GPSPosition } from '../../shared/types'
+import { TaskType } from '../../shared/types'
+import { TASK_INFO, TaskType as TaskInfoType } from '../../shared/types/tasks'
+import {
+  calculateDistance,
+  calculateDistance3D,
+  calculateBearing,
+  calculateElbowAngle,
+  isPointInPolygon
+} from './navigation'
+
+export type ScoringMethod = typeof TASK_INFO[TaskInfoType]['scoringMethod']
+
+export type ScoreUnit = 'm' | 's' | '°' | 'm²' | '%'
+
+export interface TaskScore {
+  taskId: string
+  taskType: TaskType
+  taskLabel: string             // z.B. "T3 PDG"
+  scoringMethod: ScoringMethod
+  result: number | null         // Ergebnis in `unit`, null = kein Ergebnis
+  unit: ScoreUnit
+  higherIsBetter: boolean
+  valid: boolean                // false = Ergebnis verletzt eine Task-Regel
+  markerNumbers: number[]       // Verwendete Marker
+  goalName?: string             // Gewertetes Ziel (PDG/JDG/HWZ/...)
+  ringIndex?: number | null     // Innerster Task Ring in dem der Marker liegt (0-basiert)
+  infringements: string[]       // Regelverletzungen (machen das Ergebnis ungültig)
+  notes: string[]               // Zusatzinfos
+}
+
+export interface ScoringOptions {
+  taskTimeZone?: 'utc' | 'local'  // Zeitzone von Task.endsAt (default: 'utc')
+}
+
+const FEET_TO_METERS = 0.3048
+
+// ═══════════════════════════════════════════════════════════════════
+// Hilfsfunktionen
+// ═══════════════════════════════════════════════════════════════════
+
+// Zeitstempel robust lesen (aus JSON geladene Flüge enthalten ISO-Strings)
+function toTime(value: Date | string | undefined): number {
+  if (!value) return NaN
+  return new Date(value).getTime()
+}
+
+function getLaunchPoint(flight: Flight): { position: GPSPosition; time: number } | null {
+  if (flight.track.length > 0) {
+    const first = flight.track[0]
+    return { position: first.position, time: toTime(first.timestamp) }
+  }
+  return null
+}
+
+/**
+ * Task-Endzeit ("HH:MM") als Zeitstempel am Flugtag
+ */
+export function getTaskEndTime(task: Task, flightDate: Date, timeZone: 'utc' | 'local' = 'utc'): number | null {
+  if (!task.endsAt) return null
+  const match = task.endsAt.match(/^(\d{1,2}):(\d{2})$/)
+  if (!match) return null
+
+  const hours = parseInt(match[1], 10)
+  const minutes = parseInt(match[2], 10)
+  const end = new Date(flightDate)
+  if (timeZone === 'utc') {
+    end.setUTCHours(hours, minutes, 0, 0)
+  } else {
+    end.setHours(hours, minutes, 0, 0)
+  }
+  return end.getTime()
+}
+
+/**
+ * Prüft ob ein Punkt in einer Scoring Area liegt (Kreis, Polygon, Sektor)
+ */
+export function isPointInScoringArea(lat: number, lon: number, area: ScoringArea): boolean {
+  if (area.type === 'polygon') {
+    if (!area.points || area.points.length < 3) return false
+    return isPointInPolygon(lat, lon, area.points.map(p => ({ lat: p.latitude, lon: p.longitude })))
+  }
+
+  if (!area.center || !area.radius) return false
+  const distance = calculateDistance(area.center.latitude, area.center.longitude, lat, lon)
+  if (distance > area.radius) return false
+  if (area.type === 'circle') return true
+
+  // Sektor: Peilung vom Zentrum muss zwischen startAngle und endAngle liegen (im Uhrzeigersinn)
+  const bearing = calculateBearing(area.center.latitude, area.center.longitude, lat, lon)
+  const start = ((area.startAngle ?? 0) % 360 + 360) % 360
+  const end = ((area.endAngle ?? 360) % 360 + 360) % 360
+  if (start === end) return true
+  return start < end
+    ? bearing >= start && bearing <= end
+    : bearing >= start || bearing <= end
+}
+
+// Dreiecksfläche in m² (lokale ebene Projektion, wie im Land Run Rechner)
+function triangleArea(
+  a: { latitude: number; longitude: number },
+  b: { latitude: number; longitude: number },
+  c: { latitude: number; longitude: number }
+): number {
+  const cosLat = Math.cos(a.latitude * Math.PI / 180)
+  const dBLat = (b.latitude - a.latitude) * 111320
+  const dBLon = (b.longitude - a.longitude) * 111320 * cosLat
+  const dCLat = (c.latitude - a.latitude) * 111320
+  const dCLon = (c.longitude - a.longitude) * 111320 * cosLat
+  return Math.abs(dBLat * dCLon - dBLon * dCLat) / 2
+}
+
+// Kleinste Winkeldifferenz zweier Richtungen (0-180°)
+function angleDifference(a: number, b: number): number {
+  let diff = Math.abs(a - b) % 360
+  if (diff > 180) diff = 360 - diff
+  return diff
+}
+
+// APT Profil linear interpolieren (gleiche Logik wie im APT Panel)
+function interpolateAptProfile(timeMinutes: number, points: { timeMinutes: number; altitudeFt: number }[]): number | null {
+  if (points.length === 0) return null
+  if (timeMinutes <= points[0].timeMinutes) return points[0].altitudeFt
+  if (timeMinutes >= points[points.length - 1].timeMinutes) return points[points.length - 1].altitudeFt
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const p1 = points[i]
+    const p2 = points[i + 1]
+    if (timeMinutes >= p1.timeMinutes && timeMinutes <= p2.timeMinutes) {
+      const fraction = (timeMinutes - p1.timeMinutes) / (p2.timeMinutes - p1.timeMinutes)
+      return p1.altitudeFt + (p2.altitudeFt - p1.altitudeFt) * fraction
+    }
+  }
+  return points[points.length - 1].altitudeFt
+}
+
+/**
+ * Marker-Distanz zum Ziel unter Berücksichtigung der MMA.
+ * Liegt der Marker innerhalb der MMA, wird das Ergebnis auf den MMA-Radius gesetzt.
+ */
+function measureToGoal(marker: MarkerDrop, goal: Goal, task: Task, use3D: boolean): number {
+  const distance = use3D && goal.position.altitude > 0
+    ? calculateDistance3D(
+        marker.position.latitude, marker.position.longitude, marker.altitude,
+        goal.position.latitude, goal.position.longitude, goal.position.altitude
+      )
+    : calculateDistance(marker.position.latitude, marker.position.longitude, goal.position.latitude, goal.position.longitude)
+
+  if (task.mmaRadius && task.mmaRadius > 0 && distance < task.mmaRadius) {
+    return task.mmaRadius
+  }
+  return distance
+}
+
+// Index des innersten Rings (Task.rings in Metern) der die Distanz enthält
+function findRingIndex(distance: number, rings: number[] | undefined): number | null {
+  if (!rings || rings.length === 0) return null
+  const sorted = rings
+    .map((radius, index) => ({ radius, index }))
+    .filter(r => r.radius > 0)
+    .sort((a, b) => a.radius - b.radius)
+  const ring = sorted.find(r => distance <= r.radius)
+  return ring ? ring.index : null
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Scoring
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Berechnet das Ergebnis eines einzelnen Tasks
+ */
+export function scoreTask(task: Task, flight: Flight, options: ScoringOptions = {}): TaskScore {
+  const info = TASK_INFO[task.type as string as TaskInfoType]
+  const method = info.scoringMethod
+  const launch = getLaunchPoint(flight)
+  const launchTime = launch?.time ?? toTime(flight.startTime)
+
+  const score: TaskScore = {
+    taskId: task.id,
+    taskType: task.type,
+    taskLabel: task.taskNumber ? `${task.taskNumber} ${task.type}` : task.name || task.type,
+    scoringMethod: method,
+    result: null,
+    unit: method === 'time_min' || method === 'time_max' ? 's'
+      : method === 'angle' ? '°'
+      : method === 'area' ? 'm²'
+      : method === 'altitude_profile' ? '%'
+      : 'm',
+    higherIsBetter: method === 'distance_max' || method === 'time_max' || method === 'angle' || method === 'area' || method === 'altitude_profile',
+    valid: true,
+    markerNumbers: [],
+    infringements: [],
+    notes: []
+  }
+
+  const markers = flight.markers
+    .filter(m => m.taskId === task.id)
+    .sort((a, b) => toTime(a.timestamp) - toTime(b.timestamp))
+  const declarations = flight.declarations
+    .filter(d => d.taskId === task.id)
+    .sort((a, b) => toTime(a.declaredAt) - toTime(b.declaredAt))
+
+  // ── Allgemeine Regeln für Marker (Zeit, Höhe, Scoring Area) ──
+  const endTime = getTaskEndTime(task, new Date(launchTime), options.taskTimeZone)
+
+  markers.forEach(marker => {
+    const t = toTime(marker.timestamp)
+    const altitude = marker.altitude
+
+    if (endTime !== null && t > endTime) {
+      score.infringements.push(`Marker ${marker.number} nach Task-Ende (${task.endsAt}) gedroppt`)
+    }
+    if (task.minTime !== undefined && t - launchTime < task.minTime * 1000) {
+      score.infringements.push(`Marker ${marker.number} vor Ablauf der Mindestzeit (${Math.round(task.minTime / 60)} min)`)
+    }
+    if (task.maxTime !== undefined && t - launchTime > task.maxTime * 1000) {
+      score.infringements.push(`Marker ${marker.number} nach Ablauf der Maximalzeit (${Math.round(task.maxTime / 60)} min)`)
+    }
+    if (task.minAltitude !== undefined && altitude < task.minAltitude) {
+      score.infringements.push(`Marker ${marker.number} unter Mindesthöhe (${Math.round(altitude)}m < ${Math.round(task.minAltitude)}m)`)
+    }
+    if (task.maxAltitude !== undefined && altitude > task.maxAltitude) {
+      score.infringements.push(`Marker ${marker.number} über Maximalhöhe (${Math.round(altitude)}m > ${Math.round(task.maxAltitude)}m)`)
+    }
+    if (info.requiresScoringArea && task.scoringArea && method !== 'time_min' && method !== 'time_max') {
+      if (!isPointInScoringArea(marker.position.latitude, marker.position.longitude, task.scoringArea)) {
+        score.infringements.push(`Marker ${marker.number} außerhalb der Scoring Area`)
+      }
+    }
+  })
+
+  switch (method) {
+    case 'distance_min':
+    case 'distance_max':
+      scoreDistanceTask(task, flight, markers, declarations, launch, score)
+      break
+    case 'time_min':
+    case 'time_max':
+      scoreTimeTask(task, flight.track, launchTime, score)
+      break
+    case 'angle':
+      scoreAngleTask(task, markers, launch, score)
+      break
+    case 'area':
+      scoreAreaTask(markers, launch, score)
+      break
+    case 'altitude_profile':
+      scoreAltitudeProfileTask(task, flight.track, markers, launchTime, score)
+      break
+  }
+
+  score.valid = score.result !== null && score.infringements.length === 0
+  return score
+}
+
+/**
+ * Berechnet die Ergebnisse aller Tasks eines Fluges
+ */
+export function scoreFlight(flight: Flight, options: ScoringOptions = {}): TaskScore[] {
+  return flight.tasks.map(task => scoreTask(task, flight, options))
+}
+
+function scoreDistanceTask(
+  task: Task,
+  flight: Flight,
+  markers: MarkerDrop[],
+  declarations: GoalDeclaration[],
+  launch: { position: GPSPosition; time: number } | null,
+  score: TaskScore
+): void {
+  const use3D = TASK_INFO[task.type as string as TaskInfoType].requires3D
+
+  // ── Double Drop Tasks: Distanz zwischen Marker 1 und 2 ──
+  if (task.type === TaskType.MDD || task.type === TaskType.XDD) {
+    if (markers.length < 2) {
+      score.notes.push('Zwei Marker erforderlich')
+      return
+    }
+    const [m1, m2] = markers
+    score.markerNumbers = [m1.number, m2.number]
+    score.result = calculateDistance(m1.position.latitude, m1.position.longitude, m2.position.latitude, m2.position.longitude)
+    checkDistanceLimits(task, score.result, score)
+    return
+  }
+
+  const marker = markers[0]
+  if (!marker) {
+    score.notes.push('Kein Marker für diesen Task')
+    return
+  }
+  score.markerNumbers = [marker.number]
+
+  // ── Referenzpunkt Tasks (MDT, SFL, XDI, XDT) ──
+  if (task.type === TaskType.MDT || task.type === TaskType.SFL ||
+      task.type === TaskType.XDI || task.type === TaskType.XDT) {
+    const reference = task.referencePoint ?? launch?.position
+    if (!reference) {
+      score.notes.push('Kein Referenzpunkt und kein Startpunkt vorhanden')
+      return
+    }
+    if (!task.referencePoint) score.notes.push('Startpunkt als Referenzpunkt verwendet')
+    score.result = calculateDistance(reference.latitude, reference.longitude, marker.position.latitude, marker.position.longitude)
+    checkDistanceLimits(task, score.result, score)
+    return
+  }
+
+  // ── Ziel-Tasks: Ziel bestimmen ──
+  let candidateGoals: Goal[] = []
+  if (task.type === TaskType.PDG || task.type === TaskType.FON) {
+    const maxDeclarations = task.maxDeclarations ?? Infinity
+    const validDeclarations = declarations.filter(d => toTime(d.declaredAt) <= toTime(marker.timestamp))
+    if (validDeclarations.length > maxDeclarations) {
+      score.notes.push(`Nur die ersten ${maxDeclarations} Deklarationen gewertet`)
+    }
+    const counted = validDeclarations.slice(0, Math.min(validDeclarations.length, maxDeclarations))
+    const declaration = counted[counted.length - 1]
+    if (!declaration) {
+      score.notes.push('Keine gültige Zieldeklaration vor dem Marker Drop')
+      return
+    }
+    candidateGoals = [declaration.goal]
+
+    // PDG/FON Distanzlimits gelten zwischen Start (bzw. Deklarationsposition) und deklariertem Ziel
+    const from = task.type === TaskType.FON ? declaration.position : launch?.position
+    if (from) {
+      const declaredDistance = calculateDistance(from.latitude, from.longitude, declaration.goal.position.latitude, declaration.goal.position.longitude)
+      if (task.minDistance !== undefined && declaredDistance < task.minDistance) {
+        score.infringements.push(`Deklariertes Ziel zu nah (${Math.round(declaredDistance)}m < ${task.minDistance}m)`)
+      }
+      if (task.maxDistance !== undefined && declaredDistance > task.maxDistance) {
+        score.infringements.push(`Deklariertes Ziel zu weit (${Math.round(declaredDistance)}m > ${task.maxDistance}m)`)
+      }
+    }
+  } else {
+    candidateGoals = task.goals
+  }
+
+  if (candidateGoals.length === 0) {
+    score.notes.push('Kein Ziel definiert')
+    return
+  }
+
+  // HWZ & Co.: Das nächstgelegene Ziel wird gewertet
+  let bestGoal = candidateGoals[0]
+  let bestDistance = measureToGoal(marker, bestGoal, task, use3D)
+  for (const goal of candidateGoals.slice(1)) {
+    const distance = measureToGoal(marker, goal, task, use3D)
+    if (distance < bestDistance) {
+      bestDistance = distance
+      bestGoal = goal
+    }
+  }
+
+  score.result = bestDistance
+  score.goalName = bestGoal.name
+  score.ringIndex = findRingIndex(bestDistance, task.rings)
+  if (task.mmaRadius && bestDistance === task.mmaRadius) {
+    score.notes.push(`Marker innerhalb MMA (${task.mmaRadius}m)`)
+  }
+}
+
+function checkDistanceLimits(task: Task, distance: number, score: TaskScore): void {
+  if (task.minDistance !== undefined && distance < task.minDistance) {
+    score.infringements.push(`Mindestdistanz unterschritten (${Math.round(distance)}m < ${task.minDistance}m)`)
+  }
+  if (task.maxDistance !== undefined && distance > task.maxDistance) {
+    score.infringements.push(`Maximaldistanz überschritten (${Math.round(distance)}m > ${task.maxDistance}m)`)
+  }
+}
+
+/**
+ * RTA: Zeit vom Start bis zum ersten Eintritt in die Scoring Area
+ * LTT/MTT: Zeit zwischen Eintritt und Austritt aus der Scoring Area
+ */
+function scoreTimeTask(task: Task, track: TrackPoint[], launchTime: number, score: TaskScore): void {
+  if (!task.scoringArea) {
+    score.notes.push('Keine Scoring Area definiert')
+    return
+  }
+  if (track.length === 0) {
+    score.notes.push('Kein Track aufgezeichnet')
+    return
+  }
+
+  let entryTime: number | null = null
+  let exitTime: number | null = null
+  for (const point of track) {
+    const inside = isPointInScoringArea(point.position.latitude, point.position.longitude, task.scoringArea)
+    const t = toTime(point.timestamp)
+    if (inside && entryTime === null) {
+      entryTime = t
+    } else if (!inside && entryTime !== null) {
+      exitTime = t
+      break
+    }
+  }
+
+  if (entryTime === null) {
+    score.notes.push('Scoring Area nie erreicht')
+    return
+  }
+
+  if (task.type === TaskType.RTA) {
+    score.result = (entryTime - launchTime) / 1000
+    return
+  }
+
+  if (exitTime === null) {
+    score.notes.push('Scoring Area nicht verlassen')
+    return
+  }
+  score.result = (exitTime - entryTime) / 1000
+}
+
+/**
+ * ELB: 180° minus Winkel am Scheitel (Marker 1) zwischen Start/Marker A und Marker 2
+ * ANG: Abweichung der Richtung Marker 1 → Marker 2 (bzw. Start → Marker) von setDirection
+ */
+function scoreAngleTask(
+  task: Task,
+  markers: MarkerDrop[],
+  launch: { position: GPSPosition; time: number } | null,
+  score: TaskScore
+): void {
+  if (task.type === TaskType.ELB) {
+    const points = markers.length >= 3
+      ? markers.slice(0, 3).map(m => m.position)
+      : launch && markers.length >= 2
+        ? [launch.position, markers[0].position, markers[1].position]
+        : null
+    if (!points) {
+      score.notes.push('Zwei Marker (oder drei ohne Startpunkt) erforderlich')
+      return
+    }
+    score.markerNumbers = markers.slice(0, markers.length >= 3 ? 3 : 2).map(m => m.number)
+    const [a, vertex, c] = points
+    const angle = calculateElbowAngle(a.latitude, a.longitude, vertex.latitude, vertex.longitude, c.latitude, c.longitude)
+    score.result = 180 - angle
+    return
+  }
+
+  // ANG
+  if (task.setDirection === undefined) {
+    score.notes.push('Keine Richtung (setDirection) definiert')
+    return
+  }
+  const from = markers.length >= 2 ? markers[0].position : launch?.position
+  const to = markers.length >= 2 ? markers[1] : markers[0]
+  if (!from || !to) {
+    score.notes.push('Marker fehlt')
+    return
+  }
+  score.markerNumbers = markers.length >= 2 ? [markers[0].number, markers[1].number] : [to.number]
+  const bearing = calculateBearing(from.latitude, from.longitude, to.position.latitude, to.position.longitude)
+  score.result = angleDifference(bearing, task.setDirection)
+
+  const distance = calculateDistance(from.latitude, from.longitude, to.position.latitude, to.position.longitude)
+  checkDistanceLimits(task, distance, score)
+}
+
+/**
+ * LRN: Dreiecksfläche aus drei Markern (bzw. Start + zwei Marker)
+ */
+function scoreAreaTask(
+  markers: MarkerDrop[],
+  launch: { position: GPSPosition; time: number } | null,
+  score: TaskScore
+): void {
+  if (markers.length >= 3) {
+    score.markerNumbers = markers.slice(0, 3).map(m => m.number)
+    score.result = triangleArea(markers[0].position, markers[1].position, markers[2].position)
+  } else if (markers.length === 2 && launch) {
+    score.markerNumbers = markers.map(m => m.number)
+    score.result = triangleArea(launch.position, markers[0].position, markers[1].position)
+    score.notes.push('Startpunkt als Punkt A verwendet')
+  } else {
+    score.notes.push('Drei Marker (oder zwei mit Startpunkt) erforderlich')
+  }
+}
+
+/**
+ * APT: Anteil der Zeit innerhalb Layer A (volle Wertung) und Layer B (halbe Wertung).
+ * Das Profil startet mit dem ersten Marker des Tasks, sonst mit dem Start.
+ */
+function scoreAltitudeProfileTask(
+  task: Task,
+  track: TrackPoint[],
+  markers: MarkerDrop[],
+  launchTime: number,
+  score: TaskScore
+): void {
+  const profile = task.aptProfile
+  if (!profile || profile.points.length < 2) {
+    score.notes.push('Kein Höhenprofil definiert')
+    return
+  }
+
+  const profileStart = markers.length > 0 ? toTime(markers[0].timestamp) : launchTime
+  const durationMinutes = profile.points[profile.points.length - 1].timeMinutes
+  const samples = track.filter(p => {
+    const minutes = (toTime(p.timestamp) - profileStart) / 60000
+    return minutes >= 0 && minutes <= durationMinutes
+  })
+  if (samples.length === 0) {
+    score.notes.push('Keine Trackpunkte im Profilzeitraum')
+    return
+  }
+
+  let layerA = 0
+  let layerB = 0
+  let maxDeviationFt = 0
+  for (const point of samples) {
+    const minutes = (toTime(point.timestamp) - profileStart) / 60000
+    const targetFt = interpolateAptProfile(minutes, profile.points)
+    if (targetFt === null) continue
+    const actualFt = (point.baro?.pressureAltitude || point.position.altitude) / FEET_TO_METERS
+    const deviation = Math.abs(actualFt - targetFt)
+    maxDeviationFt = Math.max(maxDeviationFt, deviation)
+    if (deviation <= profile.layerAFt) layerA++
+    else if (deviation <= profile.layerBFt) layerB++
+  }
+
+  score.result = ((layerA + layerB * 0.5) / samples.length) * 100
+  score.notes.push(`Layer A: ${Math.round(layerA / samples.length * 100)}%, Layer B: ${Math.round(layerB / samples.length * 100)}%, max. Abweichung ${Math.round(maxDeviationFt)} ft`)
+}
+
+/**
+ * Formatiert ein Task-Ergebnis für Anzeige und Flight Report
+ */
+export function formatTaskScore(score: TaskScore): string {
+  if (score.result === null) return '-'
+  switch (score.unit) {
+    case 's': {
+      const minutes = Math.floor(score.result / 60)
+      const seconds = Math.round(score.result % 60)
+      return `${minutes}:${seconds.toString().padStart(2, '0')} min`
+    }
+    case '°':
+      return `${score.result.toFixed(1)}°`
+    case 'm²':
+      return `${(score.result / 1000000).toFixed(3)} km²`
+    case '%':
+      return `${score.result.toFixed(1)}%`
+    default:
+      return `${Math.round(score.result)} m`
+  }
+}
@@ -0,0 +1,549 @@
+/**
+ * Radiosonden-Import: TEMP-Meldungen (TTAA/TTBB, WMO FM 35) und Wyoming-Sounding-Tabellen
+ *
+ * Radiosonden liefern Wind auf Druckflächen. Fehlende Höhen werden barometrisch
+ * (hypsometrische Gleichung mit virtueller Temperatur) aus dem gemessenen
+ * Temperaturprofil berechnet, verankert an den gemeldeten Geopotentialhöhen.
+ */
+
+import type { ParsedWindRow, WindImportResult } from './windImport'
+
+const RD = 287.05       // J/(kg·K) Gaskonstante trockene Luft
+const G = 9.80665       // m/s²
+const KNOTS_TO_MS = 0.514444
+
+interface ProfilePoint {
+  pressure: number      // hPa
+  temperature: number   // °C
+  dewpoint?: number     // °C
+}
+
+interface HeightAnchor {
+  pressure: number      // hPa
+  height: number        // m MSL
+}
+
+interface PressureWind {
+  pressure: number
+  height?: number       // m MSL, falls gemeldet
+  direction: number
+  speed: number
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Druck → Höhe
+// ═══════════════════════════════════════════════════════════════════
+
+/** Höhe der Standardatmosphäre für einen Druck (Fallback ohne Anker) */
+function isaHeight(pressure: number): number {
+  return 44330.8 * (1 - Math.pow(pressure / 1013.25, 0.190263))
+}
+
+function isaTemperature(pressure: number): number {
+  return 288.15 * Math.pow(pressure / 1013.25, 0.190263) - 273.15
+}
+
+/** Virtuelle Temperatur in Kelvin (Feuchte über den Taupunkt, falls vorhanden) */
+function virtualTemperature(pressure: number, temperature: number, dewpoint?: number): number {
+  const tK = temperature + 273.15
+  if (dewpoint === undefined) return tK
+  const e = 6.112 * Math.exp(17.67 * dewpoint / (dewpoint + 243.5))
+  const q = 0.622 * e / (pressure - 0.378 * e)
+  return tK * (1 + 0.608 * q)
+}
+
+/**
+ * Rechnet Druckflächen in Höhen um. Zwischen den Ankern (gemeldete Höhen) wird
+ * die Schichtdicke mit der mittleren virtuellen Temperatur jeder Teilschicht berechnet.
+ */
+function createHeightResolver(profile: ProfilePoint[], anchors: HeightAnchor[]) {
+  const points = [...profile]
+    .filter(p => p.pressure > 0)
+    .sort((a, b) => b.pressure - a.pressure)
+    .map(p => ({ lnP: Math.log(p.pressure), tv: virtualTemperature(p.pressure, p.temperature, p.dewpoint) }))
+
+  // Virtuelle Temperatur bei ln(p), außerhalb des Profils konstant
+  const tvAt = (lnP: number): number => {
+    if (points.length === 0) return isaTemperature(Math.exp(lnP)) + 273.15
+    if (lnP >= points[0].lnP) return points[0].tv
+    const last = points[points.length - 1]
+    if (lnP <= last.lnP) return last.tv
+    for (let i = 0; i < points.length - 1; i++) {
+      const a = points[i], b = points[i + 1]
+      if (lnP <= a.lnP && lnP >= b.lnP) {
+        const f = (a.lnP - lnP) / (a.lnP - b.lnP)
+        return a.tv + (b.tv - a.tv) * f
+      }
+    }
+    return last.tv
+  }
+
+  // Schichtdicke von p1 nach p2 (positiv wenn p2 < p1)
+  const thickness = (p1: number, p2: number): number => {
+    const ln1 = Math.log(p1), ln2 = Math.log(p2)
+    const lo = Math.min(ln1, ln2), hi = Math.max(ln1, ln2)
+    const breaks = [hi, ...points.map(p => p.lnP).filter(l => l < hi && l > lo), lo]
+    let dz = 0
+    for (let i = 0; i < breaks.length - 1; i++) {
+      const tvMean = (tvAt(breaks[i]) + tvAt(breaks[i + 1])) / 2
+      dz += RD / G * tvMean * (breaks[i] - breaks[i + 1])
+    }
+    return ln1 >= ln2 ? dz : -dz
+  }
+
+  return (pressure: number): number => {
+    if (anchors.length === 0) return isaHeight(pressure)
+    const lnP = Math.log(pressure)
+    const anchor = anchors.reduce((best, a) =>
+      Math.abs(Math.log(a.pressure) - lnP) < Math.abs(Math.log(best.pressure) - lnP) ? a : best)
+    return anchor.height + thickness(anchor.pressure, pressure)
+  }
+}
+
+function toRows(winds: PressureWind[], heightAt: (p: number) => number): ParsedWindRow[] {
+  const byPressure = new Map<number, PressureWind>()
+  for (const w of winds) {
+    const key = Math.round(w.pressure * 10)
+    // Gemeldete Höhe (Standardfläche) schlägt berechnete
+    if (!byPressure.has(key) || (w.height !== undefined && byPressure.get(key)!.height === undefined)) {
+      byPressure.set(key, w)
+    }
+  }
+
+  return [...byPressure.values()]
+    .map(w => ({
+      altitude: Math.round(w.height ?? heightAt(w.pressure)),
+      direction: w.direction,
+      speed: Math.round(w.speed * 10) / 10
+    }))
+    .sort((a, b) => a.altitude - b.altitude)
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// TEMP (TTAA / TTBB)
+// ═══════════════════════════════════════════════════════════════════
+
+// Standard-Druckflächen in TTAA (Kennung, Druck)
+const TTAA_LEVELS: { id: string; pressure: number }[] = [
+  { id: '00', pressure: 1000 }, { id: '92', pressure: 925 }, { id: '85', pressure: 850 },
+  { id: '70', pressure: 700 }, { id: '50', pressure: 500 }, { id: '40', pressure: 400 },
+  { id: '30', pressure: 300 }, { id: '25', pressure: 250 }, { id: '20', pressure: 200 },
+  { id: '15', pressure: 150 }, { id: '10', pressure: 100 }
+]
+
+// Id: letzte Standardfläche mit Windangabe
+const TTAA_WIND_TOP: Record<string, number> = {
+  '1': 100, '2': 200, '3': 300, '4': 400, '5': 500, '7': 700, '8': 850, '9': 925, '0': 1000
+}
+
+const SECTION_MARKERS = ['21212', '31313', '41414', '51515', '61616']
+
+interface TempMessage {
+  part: 'AA' | 'BB'
+  day: number
+  hour: number
+  knots: boolean
+  windIndicator: string   // TTAA: Id (letzte Fläche mit Wind), TTBB: Geräteart
+  station: string
+  groups: string[]
+}
+
+export function isTempMessage(content: string): boolean {
+  return /\bTT(AA|BB)\s+[0-9/]{5}\s+\d{5}\b/.test(content)
+}
+
+/** Meldungen aus einem Text (Bulletin, Kopie aus Webseite) herauslösen */
+function splitTempMessages(content: string): TempMessage[] {
+  const tokens = content.replace(/<[^>]+>/g, ' ').split(/\s+/).filter(Boolean)
+  const messages: TempMessage[] = []
+
+  for (let i = 0; i < tokens.length; i++) {
+    const m = tokens[i].match(/^TT(AA|BB)$/)
+    if (!m || i + 2 >= tokens.length) continue
+
+    const head = tokens[i + 1]
+    const station = tokens[i + 2]
+    const yy = parseInt(head.slice(0, 2))
+    const gg = parseInt(head.slice(2, 4))
+    if (isNaN(yy) || isNaN(gg) || !/^\d{5}$/.test(station)) continue
+
+    const groups: string[] = []
+    let j = i + 3
+    for (; j < tokens.length; j++) {
+      const token = tokens[j]
+      if (/^TT(AA|BB|CC|DD)$/.test(token) || token === 'NNNN') break
+      const group = token.replace(/=.*$/, '')
+      if (group.length === 5) groups.push(group)
+      if (token.includes('=')) break
+    }
+
+    messages.push({
+      part: m[1] as 'AA' | 'BB',
+      day: yy > 50 ? yy - 50 : yy,
+      hour: gg,
+      knots: yy > 50,
+      windIndicator: head[4],
+      station,
+      groups
+    })
+    i = j - 1
+  }
+
+  return messages
+}
+
+/** TTT: Zehntel-Ziffer gerade = positiv, ungerade = negativ */
+function decodeTemperature(group: string): { temperature?: number; dewpoint?: number } {
+  if (group.slice(0, 3).includes('/')) return {}
+  const ttt = parseInt(group.slice(0, 3))
+  const temperature = (ttt % 2 === 0 ? 1 : -1) * ttt / 10
+
+  const dd = group.slice(3, 5)
+  if (dd.includes('/')) return { temperature }
+  const d = parseInt(dd)
+  if (d > 50 && d < 56) return { temperature }
+  const depression = d <= 50 ? d / 10 : d - 50
+  return { temperature, dewpoint: temperature - depression }
+}
+
+/** dddff: Richtung in 5°-Schritten, Hunderter der Geschwindigkeit in der letzten Richtungsziffer */
+function decodeWind(group: string): { direction: number; speed: number } | null {
+  if (group.includes('/')) return null
+  const ddd = parseInt(group.slice(0, 3))
+  const ff = parseInt(group.slice(3, 5))
+  return {
+    direction: (Math.floor(ddd / 5) * 5) % 360,
+    speed: (ddd % 5) * 100 + ff
+  }
+}
+
+/** TTBB-/Boden-Druck: dreistellig, Werte unter 100 sind 1000 + PPP */
+function decodePressure(ppp: string): number | null {
+  if (ppp.includes('/')) return null
+  const p = parseInt(ppp)
+  return p < 100 ? p + 1000 : p
+}
+
+/** Geopotentialhöhe der Standardfläche aus hhh */
+function decodeStandardHeight(pressure: number, hhh: string): number | null {
+  if (hhh.includes('/')) return null
+  const h = parseInt(hhh)
+  switch (pressure) {
+    case 1000: return h >= 500 ? -(h - 500) : h
+    case 925: return h
+    case 850: return h + 1000
+    case 700: return h >= 500 ? h + 2000 : h + 3000
+    case 500:
+    case 400: return h * 10
+    case 300: return h < 500 ? (h + 1000) * 10 : h * 10
+    default: return (h + 1000) * 10
+  }
+}
+
+function decodeTtaa(msg: TempMessage, speedFactor: number, profile: ProfilePoint[], anchors: HeightAnchor[], winds: PressureWind[], warnings: string[]): number | null {
+  const groups = msg.groups
+  let idx = 0
+  let surfacePressure: number | null = null
+
+  // Oberfläche: 99PPP TTTDD dddff
+  if (groups[idx]?.startsWith('99')) {
+    surfacePressure = decodePressure(groups[idx].slice(2))
+    const { temperature, dewpoint } = decodeTemperature(groups[idx + 1] ?? '/////')
+    const wind = decodeWind(groups[idx + 2] ?? '/////')
+    if (surfacePressure !== null) {
+      if (temperature !== undefined) profile.push({ pressure: surfacePressure, temperature, dewpoint })
+      if (wind) winds.push({ pressure: surfacePressure, ...scale(wind, speedFactor) })
+    }
+    idx += 3
+  }
+
+  const windTop = TTAA_WIND_TOP[msg.windIndicator] ?? Infinity
+
+  for (const level of TTAA_LEVELS) {
+    const group = groups[idx]
+    if (!group || !group.startsWith(level.id)) break
+
+    const height = decodeStandardHeight(level.pressure, group.slice(2))
+    const { temperature, dewpoint } = decodeTemperature(groups[idx + 1] ?? '/////')
+    const hasWind = level.pressure >= windTop
+    const wind = hasWind ? decodeWind(groups[idx + 2] ?? '/////') : null
+    idx += hasWind ? 3 : 2
+
+    // Flächen unter Grund (Druck höher als am Boden) ignorieren
+    if (surfacePressure !== null && level.pressure > surfacePressure) continue
+
+    if (height !== null) anchors.push({ pressure: level.pressure, height })
+    if (temperature !== undefined) profile.push({ pressure: level.pressure, temperature, dewpoint })
+    if (wind) winds.push({ pressure: level.pressure, height: height ?? undefined, ...scale(wind, speedFactor) })
+  }
+
+  if (idx < groups.length && !groups[idx].startsWith('88') && !groups[idx].startsWith('77') &&
+      !groups[idx].startsWith('66') && !SECTION_MARKERS.includes(groups[idx])) {
+    warnings.push(`TTAA ab Gruppe "${groups[idx]}" nicht lesbar`)
+  }
+
+  return surfacePressure
+}
+
+function decodeTtbb(msg: TempMessage, speedFactor: number, profile: ProfilePoint[], winds: PressureWind[], warnings: string[]): number | null {
+  const groups = msg.groups
+  let section: 'temp' | 'wind' = 'temp'
+  let surfacePressure: number | null = null
+
+  for (let i = 0; i < groups.length; i++) {
+    const group = groups[i]
+    if (group === '21212') { section = 'wind'; continue }
+    if (SECTION_MARKERS.includes(group)) break
+
+    // nnPPP: nn = 00, 11, 22, ...
+    if (group[0] !== group[1] || i + 1 >= groups.length) {
+      warnings.push(`TTBB ab Gruppe "${group}" nicht lesbar`)
+      break
+    }
+    const pressure = decodePressure(group.slice(2))
+    const value = groups[++i]
+    if (pressure === null) continue
+    if (group.startsWith('00') && surfacePressure === null) surfacePressure = pressure
+
+    if (section === 'temp') {
+      const { temperature, dewpoint } = decodeTemperature(value)
+      if (temperature !== undefined) profile.push({ pressure, temperature, dewpoint })
+    } else {
+      const wind = decodeWind(value)
+      if (wind) winds.push({ pressure, ...scale(wind, speedFactor) })
+    }
+  }
+
+  return surfacePressure
+}
+
+function scale(wind: { direction: number; speed: number }, factor: number) {
+  return { direction: wind.direction, speed: wind.speed * factor }
+}
+
+/**
+ * TEMP-Meldungen (TTAA + optional TTBB) einer Station parsen.
+ * Geschwindigkeiten in der Einheit der ersten Meldung, Höhen in m MSL.
+ */
+export function parseTempMessage(content: string): WindImportResult {
+  const result: WindImportResult = {
+    success: false,
+    format: 'tempMessage',
+    rows: [],
+    detectedSettings: {},
+    errors: [],
+    warnings: []
+  }
+
+  const messages = splitTempMessages(content)
+  if (messages.length === 0) {
+    result.errors.push('Keine TEMP-Meldung (TTAA/TTBB) gefunden')
+    return result
+  }
+
+  // Nur die erste Station verwenden
+  const station = messages[0].station
+  const used = messages.filter(m => m.station === station)
+  if (used.length < messages.length) {
+    result.warnings.push(`Weitere Stationen ignoriert, verwendet wird ${station}`)
+  }
+
+  const knots = used[0].knots
+  result.detectedSettings = {
+    altitudeUnit: 'meters',
+    altitudeReference: 'msl',
+    speedUnit: knots ? 'knots' : 'ms',
+    directionMode: 'from',
+    directionReference: 'true'
+  }
+
+  const profile: ProfilePoint[] = []
+  const anchors: HeightAnchor[] = []
+  const winds: PressureWind[] = []
+  let surfacePressure: number | null = null
+
+  for (const msg of used) {
+    const factor = msg.knots === knots ? 1 : (knots ? 1 / KNOTS_TO_MS : KNOTS_TO_MS)
+    const sfc = msg.part === 'AA'
+      ? decodeTtaa(msg, factor, profile, anchors, winds, result.warnings)
+      : decodeTtbb(msg, factor, profile, winds, result.warnings)
+    surfacePressure = surfacePressure ?? sfc
+  }
+
+  if (!used.some(m => m.part === 'AA')) {
+    result.warnings.push('Nur TTBB: Höhen ohne Geopotential-Anker (Standardatmosphäre am Boden)')
+  }
+  if (!used.some(m => m.part === 'BB')) {
+    result.warnings.push('Nur TTAA: Wind nur auf Standardflächen, signifikante Schichten fehlen')
+  }
+
+  // Bodenhöhe aus dem nächsten Anker, danach als zusätzlicher Anker
+  const heightAt = createHeightResolver(profile, anchors)
+  if (surfacePressure !== null) {
+    const surfaceHeight = anchors.length > 0 ? heightAt(surfacePressure) : isaHeight(surfacePressure)
+    anchors.push({ pressure: surfacePressure, height: surfaceHeight })
+  }
+
+  result.rows = toRows(winds, createHeightResolver(profile, anchors))
+  result.description = `Radiosonde ${station} · ${used[0].day}. ${String(used[0].hour).padStart(2, '0')} UTC`
+  result.success = result.rows.length > 0
+  if (!result.success) result.errors.push('Keine Windangaben in der TEMP-Meldung')
+
+  return result
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// University of Wyoming
+// ═══════════════════════════════════════════════════════════════════
+
+export function isWyomingSounding(content: string): boolean {
+  return /^\s*PRES\s+HGHT\s+TEMP\b.*\bDRCT\b/m.test(content) ||
+    /pressure_hPa.*wind direction/i.test(content.slice(0, 2000))
+}
+
+interface SoundingLevel {
+  pressure: number
+  height?: number
+  temperature?: number
+  dewpoint?: number
+  direction?: number
+  speed?: number
+}
+
+function levelsToResult(levels: SoundingLevel[], result: WindImportResult): WindImportResult {
+  const profile: ProfilePoint[] = []
+  const anchors: HeightAnchor[] = []
+  const winds: PressureWind[] = []
+
+  for (const l of levels) {
+    if (l.temperature !== undefined) profile.push({ pressure: l.pressure, temperature: l.temperature, dewpoint: l.dewpoint })
+    if (l.height !== undefined) anchors.push({ pressure: l.pressure, height: l.height })
+    if (l.direction !== undefined && l.speed !== undefined) {
+      winds.push({ pressure: l.pressure, height: l.height, direction: l.direction % 360, speed: l.speed })
+    }
+  }
+
+  const computed = winds.filter(w => w.height === undefined).length
+  if (computed > 0) {
+    result.warnings.push(`${computed} Höhen aus Druck und Temperatur berechnet`)
+  }
+
+  result.rows = toRows(winds, createHeightResolver(profile, anchors))
+  result.success = result.rows.length > 0
+  if (!result.success) result.errors.push('Keine Windangaben im Sounding')
+  return result
+}
+
+/** Spaltenwerte anhand der rechtsbündigen Überschriften (7 Zeichen breit) */
+function parseWyomingText(content: string, result: WindImportResult): WindImportResult {
+  const lines = content.replace(/<[^>]+>/g, '').split(/\r?\n/)
+  const headerIdx = lines.findIndex(l => /^\s*PRES\s+HGHT\s+TEMP\b/.test(l))
+  const header = lines[headerIdx]
+
+  const columns = new Map<string, number>()
+  for (const m of header.matchAll(/\S+/g)) columns.set(m[0], m.index! + m[0].length)
+
+  const speedColumn = columns.has('SKNT') ? 'SKNT' : 'SPED'
+  result.detectedSettings!.speedUnit = speedColumn === 'SKNT' ? 'knots' : 'ms'
+
+  const field = (line: string, name: string): number | undefined => {
+    const end = columns.get(name)
+    if (end === undefined) return undefined
+    const text = line.substring(Math.max(0, end - 7), end).trim()
+    const value = parseFloat(text)
+    return text && !isNaN(value) ? value : undefined
+  }
+
+  const levels: SoundingLevel[] = []
+  for (let i = headerIdx + 1; i < lines.length; i++) {
+    const line = lines[i]
+    if (/^\s*(Station|SLAT|Description)/i.test(line)) break
+    const pressure = field(line, 'PRES')
+    if (pressure === undefined || !/^\s*[\d.]+\s/.test(line)) continue
+    levels.push({
+      pressure,
+      height: field(line, 'HGHT'),
+      temperature: field(line, 'TEMP'),
+      dewpoint: field(line, 'DWPT'),
+      direction: field(line, 'DRCT'),
+      speed: field(line, speedColumn)
+    })
+  }
+
+  // Titel: "10393 Lindenberg Observations at 12Z 19 Oct 2026"
+  const title = lines.slice(0, headerIdx).find(l => /Observations at/i.test(l))
+  if (title) result.description = title.trim()
+
+  return levelsToResult(levels, result)
+}
+
+/** Neues CSV-Format der Wyoming-Seite (Spalten mit Einheit im Namen) */
+function parseWyomingCsv(content: string, result: WindImportResult): WindImportResult {
+  const lines = content.split(/\r?\n/).filter(l => l.trim())
+  const headerIdx = lines.findIndex(l => /pressure_hPa/i.test(l))
+  const names = lines[headerIdx].split(',').map(n => n.trim().toLowerCase())
+
+  const col = (test: (name: string) => boolean) => names.findIndex(test)
+  const iP = col(n => n.startsWith('pressure'))
+  const iZ = col(n => n.includes('height'))
+  const iT = col(n => n.startsWith('temperature'))
+  const iTd = col(n => n.startsWith('dew point'))
+  const iDir = col(n => n.startsWith('wind direction'))
+  const iSpd = col(n => n.startsWith('wind speed'))
+  result.detectedSettings!.speedUnit = iSpd >= 0 && names[iSpd].includes('knot') ? 'knots' : 'ms'
+
+  const levels: SoundingLevel[] = []
+  for (const line of lines.slice(headerIdx + 1)) {
+    const parts = line.split(',')
+    const num = (i: number) => {
+      if (i < 0 || !parts[i]?.trim()) return undefined
+      const v = parseFloat(parts[i])
+      return isNaN(v) ? undefined : v
+    }
+    const pressure = num(iP)
+    if (pressure === undefined) continue
+    levels.push({
+      pressure,
+      height: num(iZ),
+      temperature: num(iT),
+      dewpoint: num(iTd),
+      direction: num(iDir),
+      speed: num(iSpd)
+    })
+  }
+
+  if (lines[headerIdx + 1]) {
+    const time = lines[headerIdx + 1].split(',')[0]?.trim()
+    if (time) result.description = `Sounding ${time}`
+  }
+
+  return levelsToResult(levels, result)
+}
+
+/**
+ * Wyoming-Sounding (TEXT:LIST als Text/HTML oder CSV) parsen. Höhen in m MSL.
+ */
+export function parseWyomingSounding(content: string): WindImportResult {
+  const result: WindImportResult = {
+    success: false,
+    format: 'wyoming',
+    rows: [],
+    detectedSettings: {
+      altitudeUnit: 'meters',
+      altitudeReference: 'msl',
+      directionMode: 'from',
+      directionReference: 'true'
+    },
+    errors: [],
+    warnings: []
+  }
+
+  try {
+    return /^\s*PRES\s+HGHT\s+TEMP\b/m.test(content.replace(/<[^>]+>/g, ''))
+      ? parseWyomingText(content, result)
+      : parseWyomingCsv(content, result)
+  } catch (e: any) {
+    result.errors.push(`Sounding-Fehler: ${e.message}`)
+    return result
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * Vertrauensbewertung für geparste Tasksheets
+ * Prüft pro Feld, ob der erkannte Wert tatsächlich im Tasksheet-Text steht, und führt
+ * KI- und Regex-Ergebnis feldweise zusammen (der besser belegte Wert gewinnt).
+ */
+
+import { ParsedTask, TaskFieldConfidence, TasksheetParseResult, MARKER_COLORS, colorNameToHex } from './tasksheetParser'
+
+// Unterhalb dieses Werts wird ein Feld in der Import-Vorschau hervorgehoben
+export const LOW_CONFIDENCE_THRESHOLD = 0.7
+
+export const TASK_FIELD_LABELS: Record<keyof TaskFieldConfidence, string> = {
+  taskType: 'Typ',
+  goals: 'Goals',
+  mma: 'MMA',
+  rings: 'Ringe',
+  loggerMarker: 'LM',
+  loggerGoal: 'LG',
+  markerColor: 'Farbe',
+  endTime: 'Endzeit'
+}
+
+// Task-Kopfzeilen ("Task 3", "Aufgabe 3", "3. PDG") - begrenzen den Abschnitt eines Tasks
+const TASK_HEADER_PATTERN = /(?:^|\n)\s*(?:(?:Task|Aufgabe)\s*(?:Nr\.?|No\.?|#)?\s*\d{1,2}\b|\d{1,2}\.?\s+\d?[A-Z]{2,3}\b)/gi
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Textabschnitt eines Tasks finden (null wenn der Task im Text nicht eindeutig auffindbar ist)
+ */
+function findTaskSection(text: string, task: ParsedTask): string | null {
+  const type = escapeRegex(task.taskType)
+  const patterns = [
+    new RegExp(`(?:Task|Aufgabe)\\s*(?:Nr\\.?|No\\.?|#)?\\s*${task.taskNumber}\\b`, 'i'),
+    new RegExp(`(?:^|\\n)\\s*${task.taskNumber}\\.?\\s+\\(?${type}\\b`, 'i')
+  ]
+
+  for (const pattern of patterns) {
+    const match = pattern.exec(text)
+    if (!match) continue
+
+    const start = match.index
+    TASK_HEADER_PATTERN.lastIndex = start + match[0].length
+    const next = TASK_HEADER_PATTERN.exec(text)
+    return text.substring(start, next ? next.index : text.length)
+  }
+  return null
+}
+
+function containsNumber(text: string, value: number | string): boolean {
+  return new RegExp(`(?:^|\\D)${escapeRegex(String(value))}(?!\\d)`).test(text)
+}
+
+function scoreGoals(task: ParsedTask, section: string): number {
+  if (task.goals.length === 0) return task.needsUserInput ? 0.5 : 0.8
+  let found = 0
+  for (const goal of task.goals) {
+    const e = goal.eastingStr ?? String(goal.easting)
+    const n = goal.northingStr ?? String(goal.northing)
+    if (containsNumber(section, e) && containsNumber(section, n)) found++
+  }
+  return found / task.goals.length
+}
+
+function scoreMarkerColor(task: ParsedTask, section: string): number {
+  const lower = section.toLowerCase()
+  const mentioned = Object.keys(MARKER_COLORS).filter(name => new RegExp(`\\b${escapeRegex(name)}\\b`).test(lower))
+  if (!task.markerColor) return mentioned.length > 0 ? 0.4 : 1
+
+  const hex = colorNameToHex(task.markerColor)
+  // Gleiche Farbe in anderer Sprache zählt auch ("gelb" im Text, "yellow" erkannt)
+  return mentioned.some(name => MARKER_COLORS[name] === hex) ? 1 : 0.3
+}
+
+function scoreLogger(value: number | null, label: 'LM' | 'LG', section: string): number {
+  const labelPattern = new RegExp(`\\b${label}\\b`, 'i')
+  if (value === null) return labelPattern.test(section) ? 0.4 : 1
+  if (new RegExp(`\\b${label}\\s*[:#]?\\s*#?\\s*${value}\\b`, 'i').test(section)) return 1
+  return containsNumber(section, value) ? 0.6 : 0.2
+}
+
+function scoreEndTime(endTime: string | null, section: string): number {
+  if (!endTime) return /\b\d{2}:?\d{2}\s*(?:loc|local|LT|Uhr)/i.test(section) ? 0.6 : 1
+  const digits = endTime.replace(/\D/g, '').substring(0, 4)
+  if (digits.length < 3) return 0.3
+  const withColon = `${digits.substring(0, digits.length - 2)}:${digits.substring(digits.length - 2)}`
+  return section.includes(digits) || section.includes(withColon) ? 1 : 0.3
+}
+
+/**
+ * Vertrauen pro Feld eines Tasks bestimmen
+ */
+export function scoreParsedTask(task: ParsedTask, text: string): TaskFieldConfidence {
+  const section = findTaskSection(text, task)
+  // Ohne eindeutigen Abschnitt wird im ganzen Text gesucht - Treffer zählen dann weniger
+  const scope = section ?? text
+  const factor = section ? 1 : 0.8
+  const typeFound = new RegExp(`\\b${escapeRegex(task.taskType)}\\b`, 'i').test(scope)
+
+  let mma: number
+  if (task.mma > 0) {
+    mma = new RegExp(`MMA\\D{0,10}${task.mma}(?!\\d)`, 'i').test(scope) ? 1 : containsNumber(scope, task.mma) ? 0.6 : 0.3
+  } else {
+    mma = /\bMMA\b/i.test(scope) ? 0.5 : 1
+  }
+
+  let rings = 1
+  if (task.rings && task.rings.length > 0) {
+    const found = task.rings.filter(r => containsNumber(scope, r) || (r % 1000 === 0 && containsNumber(scope, r / 1000))).length
+    rings = found / task.rings.length
+  }
+
+  const clamp = (value: number) => Math.round(Math.min(1, value * factor) * 100) / 100
+  return {
+    taskType: clamp(typeFound ? 1 : 0.3),
+    goals: clamp(scoreGoals(task, scope)),
+    mma: clamp(mma),
+    rings: clamp(rings),
+    loggerMarker: clamp(scoreLogger(task.loggerMarker, 'LM', scope)),
+    loggerGoal: clamp(scoreLogger(task.loggerGoal, 'LG', scope)),
+    markerColor: clamp(scoreMarkerColor(task, scope)),
+    endTime: clamp(scoreEndTime(task.endTime, scope))
+  }
+}
+
+/**
+ * Gesamtvertrauen eines Tasks (Mittelwert der Felder)
+ */
+export function getTaskConfidence(confidence: TaskFieldConfidence): number {
+  const values = Object.values(confidence)
+  return values.reduce((sum, v) => sum + v, 0) / values.length
+}
+
+/**
+ * Felder unterhalb der Schwelle (für die Hervorhebung in der Vorschau)
+ */
+export function getLowConfidenceFields(confidence: TaskFieldConfidence): (keyof TaskFieldConfidence)[] {
+  return (Object.keys(confidence) as (keyof TaskFieldConfidence)[])
+    .filter(field => confidence[field] < LOW_CONFIDENCE_THRESHOLD)
+}
+
+function withConfidence(tasks: ParsedTask[], text: string, source: 'ai' | 'regex'): ParsedTask[] {
+  return tasks.map(task => ({ ...task, source, confidence: scoreParsedTask(task, text) }))
+}
+
+/**
+ * Einen Task feldweise aus KI- und Regex-Ergebnis zusammensetzen (KI gewinnt bei Gleichstand)
+ */
+function mergeTask(ai: ParsedTask, regex: ParsedTask, text: string): ParsedTask {
+  const a = ai.confidence ?? scoreParsedTask(ai, text)
+  const r = regex.confidence ?? scoreParsedTask(regex, text)
+  const pick = (field: keyof TaskFieldConfidence) => r[field] > a[field] ? regex : ai
+
+  const typeFrom = pick('taskType')
+  const goalsFrom = pick('goals')
+  const colorFrom = pick('markerColor')
+  const merged: ParsedTask = {
+    ...ai,
+    taskType: typeFrom.taskType,
+    taskName: typeFrom.taskName || ai.taskName || regex.taskName,
+    goals: goalsFrom.goals,
+    needsUserInput: goalsFrom.needsUserInput,
+    mma: pick('mma').mma,
+    rings: pick('rings').rings,
+    loggerMarker: pick('loggerMarker').loggerMarker,
+    loggerGoal: pick('loggerGoal').loggerGoal,
+    markerColor: colorFrom.markerColor,
+    markerColors: colorFrom.markerColors,
+    markerCount: colorFrom.markerCount,
+    endTime: pick('endTime').endTime,
+    isCancelled: ai.isCancelled || regex.isCancelled,
+    // APT-Profil erkennt nur der Regex-Parser (aus dem Diagramm)
+    aptProfilePoints: ai.aptProfilePoints ?? regex.aptProfilePoints,
+    aptLayerAFt: ai.aptLayerAFt ?? regex.aptLayerAFt,
+    aptLayerBFt: ai.aptLayerBFt ?? regex.aptLayerBFt,
+    source: 'ai'
+  }
+  return { ...merged, confidence: scoreParsedTask(merged, text) }
+}
+
+/**
+ * KI-Ergebnis (optional) und Regex-Ergebnis zu einem bewerteten Ergebnis zusammenführen.
+ * Ohne KI-Ergebnis wird nur das Regex-Ergebnis bewertet.
+ */
+export function mergeParseResults(
+  ai: TasksheetParseResult | null,
+  regex: TasksheetParseResult,
+  text: string,
+  providerName?: string
+): TasksheetParseResult {
+  const aiUsable = !!ai && ai.success && ai.tasks.length > 0
+
+  if (!aiUsable) {
+    return { ...regex, tasks: withConfidence(regex.tasks, text, 'regex'), parser: 'Regex' }
+  }
+  const aiName = providerName || 'KI'
+  if (!regex.success) {
+    return { ...ai!, tasks: withConfidence(ai!.tasks, text, 'ai'), parser: aiName }
+  }
+
+  const aiTasks = withConfidence(ai!.tasks, text, 'ai')
+  const regexTasks = withConfidence(regex.tasks, text, 'regex')
+  const numbers = [...new Set([...aiTasks, ...regexTasks].map(t => t.taskNumber))].sort((x, y) => x - y)
+
+  const tasks = numbers.map(number => {
+    const aiTask = aiTasks.find(t => t.taskNumber === number)
+    const regexTask = regexTasks.find(t => t.taskNumber === number)
+    if (aiTask && regexTask) return mergeTask(aiTask, regexTask, text)
+    return (aiTask || regexTask)!
+  })
+
+  return {
+    success: true,
+    date: ai!.date ?? regex.date,
+    flight: ai!.flight ?? regex.flight,
+    qnh: ai!.qnh ?? regex.qnh,
+    startPeriodEnd: ai!.startPeriodEnd ?? regex.startPeriodEnd,
+    tasks,
+    errors: [...new Set([...ai!.errors, ...regex.errors])],
+    parser: `${aiName} + Regex`
+  }
+}
@@ -31,6 +31,23 @@ export interface ParsedTask {
   aptProfilePoints?: { timeMinutes: number; altitudeFt: number }[]
   aptLayerAFt?: number  // Layer A Toleranz in Feet
   aptLayerBFt?: number  // Layer B Toleranz in Feet
+  // Herkunft und Vertrauen der erkannten Werte (0..1 pro Feld)
+  source?: 'ai' | 'regex'
+  confidence?: TaskFieldConfidence
+}
+
+/**
+ * Vertrauen pro Feld (0 = geraten, 1 = wörtlich im Tasksheet gefunden)
+ */
+export interface TaskFieldConfidence {
+  taskType: number
+  goals: number
+  mma: number
+  rings: number
+  loggerMarker: number
+  loggerGoal: number
+  markerColor: number
+  endTime: number
 }
 
 export interface ParsedGoal {
@@ -54,6 +71,7 @@ export interface TasksheetParseResult {
   startPeriodEnd: string | null
   tasks: ParsedTask[]
   errors: string[]
+  parser?: string  // z.B. "Regex", "Gemini (…) + Regex"
 }
 
 /**
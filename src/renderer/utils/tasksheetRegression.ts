@@ -0,0 +1,126 @@
+/**
+ * Regressions-Vergleich für den Tasksheet-Parser
+ * Läuft den Regex-Parser (und die UTM-Erweiterung der Goals) über gespeicherte Tasksheet-Texte
+ * und vergleicht feldweise mit dem erwarteten Ergebnis (Golden File).
+ * Wird vom Skript scripts/tasksheet-regression.mjs verwendet.
+ */
+
+import { parseTasksheetText, expandUTMCoordinates, TasksheetParseResult } from './tasksheetParser'
+
+export interface TasksheetCaseUTM {
+  baseEasting: number
+  baseNorthing: number
+  mapBounds?: { minE: number; maxE: number; minN: number; maxN: number }
+}
+
+/**
+ * Inhalt einer *.expected.json Datei.
+ * Nur die angegebenen Felder werden geprüft - fehlende Felder im Golden File sind "egal".
+ */
+export interface TasksheetExpectation {
+  utm?: TasksheetCaseUTM
+  result: Partial<TasksheetParseResult>
+  // Vollständige UTM-Koordinaten pro Task (Schlüssel = Task-Nummer), nur wenn utm gesetzt
+  expandedGoals?: Record<string, { easting: number; northing: number }[]>
+}
+
+export interface TasksheetCase {
+  name: string
+  text: string
+  expected: TasksheetExpectation
+}
+
+export interface TasksheetFieldDiff {
+  path: string      // z.B. "tasks[2].goals[0].eastingStr"
+  expected: unknown
+  actual: unknown
+}
+
+export interface TasksheetCaseResult {
+  name: string
+  passed: boolean
+  diffs: TasksheetFieldDiff[]
+  actual: TasksheetExpectation
+}
+
+/**
+ * Erwartete Struktur rekursiv mit dem Ist-Wert vergleichen
+ */
+function diffValues(expected: unknown, actual: unknown, path: string, diffs: TasksheetFieldDiff[]): void {
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual)) {
+      diffs.push({ path, expected, actual })
+      return
+    }
+    if (expected.length !== actual.length) {
+      diffs.push({ path: `${path}.length`, expected: expected.length, actual: actual.length })
+    }
+    const count = Math.min(expected.length, actual.length)
+    for (let i = 0; i < count; i++) {
+      diffValues(expected[i], actual[i], `${path}[${i}]`, diffs)
+    }
+    return
+  }
+
+  if (expected !== null && typeof expected === 'object') {
+    if (actual === null || typeof actual !== 'object' || Array.isArray(actual)) {
+      diffs.push({ path, expected, actual })
+      return
+    }
+    for (const key of Object.keys(expected)) {
+      diffValues((expected as any)[key], (actual as any)[key], path ? `${path}.${key}` : key, diffs)
+    }
+    return
+  }
+
+  if (expected !== actual) {
+    diffs.push({ path, expected, actual: actual === undefined ? '(fehlt)' : actual })
+  }
+}
+
+/**
+ * Parser-Ergebnis in die Golden-File-Form bringen (undefined-Felder entfernen)
+ */
+export function buildExpectation(text: string, utm?: TasksheetCaseUTM): TasksheetExpectation {
+  const result: TasksheetParseResult = JSON.parse(JSON.stringify(parseTasksheetText(text)))
+  const expectation: TasksheetExpectation = { result }
+
+  if (utm) {
+    expectation.utm = utm
+    expectation.expandedGoals = {}
+    for (const task of result.tasks) {
+      if (task.goals.length === 0) continue
+      expectation.expandedGoals[String(task.taskNumber)] = task.goals.map(g =>
+        expandUTMCoordinates(g.easting, g.northing, utm.baseEasting, utm.baseNorthing, g.eastingStr, g.northingStr, utm.mapBounds)
+      )
+    }
+  }
+  return expectation
+}
+
+/**
+ * Einen Fall parsen und mit dem Golden File vergleichen
+ */
+export function runTasksheetCase(testCase: TasksheetCase): TasksheetCaseResult {
+  const actual = buildExpectation(testCase.text, testCase.expected.utm)
+  const diffs: TasksheetFieldDiff[] = []
+
+  diffValues(testCase.expected.result, actual.result, '', diffs)
+  if (testCase.expected.expandedGoals) {
+    diffValues(testCase.expected.expandedGoals, actual.expandedGoals || {}, 'expandedGoals', diffs)
+  }
+
+  return { name: testCase.name, passed: diffs.length === 0, diffs, actual }
+}
+
+/**
+ * Lesbarer Bericht für die Konsole
+ */
+export function formatCaseReport(result: TasksheetCaseResult): string {
+  if (result.passed) return `OK    ${result.name}`
+  const lines = [`FEHLER ${result.name} (${result.diffs.length} Abweichungen)`]
+  for (const diff of result.diffs) {
+    lines.push(`  ${diff.path}: erwartet ${JSON.stringify(diff.expected)}, erhalten ${JSON.stringify(diff.actual)}`)
+  }
+  return lines.join('\n')
+}
@@ -0,0 +1,239 @@
+/**
+ * Windprofil aus aufgezeichneten Tracks ableiten
+ * Batch-Auswertung beliebiger TrackPoint-Serien (eigener Track, importierte IGC/GPX, Hase):
+ * Drift pro Höhenband, Stabilitätserkennung wie bei der Live-Messung und zeitliche Gewichtung.
+ */
+
+import { WindSource } from '../../shared/types'
+import type { AppSettings, TrackPoint, WindLayer } from '../../shared/types'
+import { calculateDistance, calculateBearing } from './navigation'
+
+export interface TrackWindOptions {
+  halfLifeMinutes: number | null  // Zeitgewichtung: Gewicht halbiert sich alle X Minuten (null = aus)
+  referenceTime?: Date            // Bezugszeit für die Gewichtung (Standard: letzter Trackpunkt)
+  maxGapSeconds: number           // Segmente mit größeren Lücken werden ignoriert
+  minBandSeconds: number          // Mindest-Messdauer pro Höhenband
+}
+
+export interface TrackWindBand {
+  altitude: number       // Meter (Bandmitte)
+  direction: number      // Grad (woher)
+  speed: number          // km/h
+  samples: number        // Anzahl Track-Segmente
+  durationSeconds: number
+  isStable: boolean
+  lastSeen: Date
+}
+
+export interface TrackWindProfileResult {
+  layers: WindLayer[]
+  bands: TrackWindBand[]
+  warnings: string[]
+}
+
+export const defaultTrackWindOptions: TrackWindOptions = {
+  halfLifeMinutes: 60,
+  maxGapSeconds: 60,
+  minBandSeconds: 10
+}
+
+// Wie bei der Live-Messung: stabil nach 8s mit |Vario| < 2 m/s
+const STABLE_VARIO_MS = 2.0
+const STABLE_SECONDS = 8
+
+// Segmente schneller als das gelten als GPS-Sprung
+const MAX_DRIFT_MS = 60
+
+/**
+ * Höhe auf das Windschicht-Intervall runden (gleiche Regeln wie die Live-Messung im Store).
+ * toleranceM = halbes Intervall in Metern (für Forecast-Ersatz)
+ */
+export function getWindLayerBand(altitude: number, settings: Pick<AppSettings, 'windAltitudeUnit' | 'windLayerInterval'>): { altitude: number; toleranceM: number } {
+  const altitudeUnit = settings.windAltitudeUnit || 'ft'
+  const validFtIntervals = [100, 200, 500, 1000]
+  const validMIntervals = [50, 100, 200, 500]
+  let intervalValue = settings.windLayerInterval
+
+  if (!intervalValue || (altitudeUnit === 'ft' && !validFtIntervals.includes(intervalValue))) {
+    intervalValue = 100
+  } else if (altitudeUnit === 'm' && !validMIntervals.includes(intervalValue)) {
+    intervalValue = 50
+  }
+
+  if (altitudeUnit === 'ft') {
+    const roundedFt = Math.round(altitude * 3.28084 / intervalValue) * intervalValue
+    return { altitude: roundedFt / 3.28084, toleranceM: (intervalValue / 2) / 3.28084 }
+  }
+  return { altitude: Math.round(altitude / intervalValue) * intervalValue, toleranceM: intervalValue / 2 }
+}
+
+function pointAltitude(point: TrackPoint): number {
+  return point.baro?.pressureAltitude || point.position.altitude
+}
+
+interface BandAccumulator {
+  altitude: number
+  u: number          // gewichtete Ost-Komponente der Drift (m/s)
+  v: number          // gewichtete Nord-Komponente der Drift (m/s)
+  weight: number
+  stableU: number
+  stableV: number
+  stableWeight: number
+  samples: number
+  durationSeconds: number
+  stableRunSeconds: number  // Dauer der aktuellen stabilen Phase
+  isStable: boolean
+  lastSeen: Date
+  varioSum: number
+}
+
+/**
+ * Windprofil aus einem oder mehreren Tracks ableiten.
+ * Pro Segment zwischen zwei Trackpunkten wird die Drift (Versatz/Zeit) dem Höhenband
+ * der mittleren Höhe zugeordnet. Sobald ein Band stabile Phasen enthält, zählen nur diese.
+ */
+export function extractWindProfile(
+  tracks: TrackPoint[][],
+  settings: Pick<AppSettings, 'windAltitudeUnit' | 'windLayerInterval'>,
+  options: TrackWindOptions = defaultTrackWindOptions
+): TrackWindProfileResult {
+  const warnings: string[] = []
+  const bands = new Map<number, BandAccumulator>()
+
+  const allPoints = tracks.flat()
+  if (allPoints.length < 2) {
+    return { layers: [], bands: [], warnings: ['Zu wenig Trackpunkte für ein Windprofil'] }
+  }
+
+  const referenceMs = options.referenceTime?.getTime()
+    ?? Math.max(...allPoints.map(p => p.timestamp.getTime()))
+
+  let skippedGaps = 0
+  let skippedJumps = 0
+
+  for (const track of tracks) {
+    const sorted = [...track].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    let lastBand: BandAccumulator | null = null
+
+    for (let i = 1; i < sorted.length; i++) {
+      const prev = sorted[i - 1]
+      const point = sorted[i]
+      const dt = (point.timestamp.getTime() - prev.timestamp.getTime()) / 1000
+      if (dt <= 0) continue
+      if (dt > options.maxGapSeconds) {
+        skippedGaps++
+        lastBand = null
+        continue
+      }
+
+      const distance = calculateDistance(
+        prev.position.latitude, prev.position.longitude,
+        point.position.latitude, point.position.longitude
+      )
+      const driftMs = distance / dt
+      if (driftMs > MAX_DRIFT_MS) {
+        skippedJumps++
+        continue
+      }
+
+      const vario = (pointAltitude(point) - pointAltitude(prev)) / dt
+      // Stillstand am Boden (vor dem Start / nach der Landung) liefert keinen Wind
+      if (driftMs < 0.3 && Math.abs(vario) < 0.1) continue
+
+      const { altitude } = getWindLayerBand((pointAltitude(prev) + pointAltitude(point)) / 2, settings)
+      let band = bands.get(altitude)
+      if (!band) {
+        band = {
+          altitude, u: 0, v: 0, weight: 0, stableU: 0, stableV: 0, stableWeight: 0,
+          samples: 0, durationSeconds: 0, stableRunSeconds: 0, isStable: false,
+          lastSeen: point.timestamp, varioSum: 0
+        }
+        bands.set(altitude, band)
+      }
+
+      // Flugrichtung -> Driftvektor (Ballon fährt MIT dem Wind)
+      const bearing = driftMs > 0
+        ? calculateBearing(prev.position.latitude, prev.position.longitude, point.position.latitude, point.position.longitude)
+        : 0
+      const rad = bearing * Math.PI / 180
+      const u = Math.sin(rad) * driftMs
+      const v = Math.cos(rad) * driftMs
+
+      const ageMinutes = Math.max(0, (referenceMs - point.timestamp.getTime()) / 60000)
+      const decay = options.halfLifeMinutes ? Math.pow(0.5, ageMinutes / options.halfLifeMinutes) : 1
+      const weight = dt * decay
+
+      band.u += u * weight
+      band.v += v * weight
+      band.weight += weight
+      band.samples++
+      band.durationSeconds += dt
+      band.varioSum += vario * dt
+      if (point.timestamp > band.lastSeen) band.lastSeen = point.timestamp
+
+      // Stabilität: zusammenhängende Phase im selben Band mit |Vario| < 2 m/s
+      if (Math.abs(vario) < STABLE_VARIO_MS) {
+        band.stableRunSeconds = lastBand === band ? band.stableRunSeconds + dt : dt
+        band.stableU += u * weight
+        band.stableV += v * weight
+        band.stableWeight += weight
+        if (band.stableRunSeconds >= STABLE_SECONDS) band.isStable = true
+      } else {
+        band.stableRunSeconds = 0
+      }
+      lastBand = band
+    }
+  }
+
+  if (skippedGaps > 0) warnings.push(`${skippedGaps} Segmente mit Aufzeichnungslücke ignoriert`)
+  if (skippedJumps > 0) warnings.push(`${skippedJumps} GPS-Sprünge ignoriert`)
+
+  const result: TrackWindBand[] = []
+  for (const band of bands.values()) {
+    if (band.durationSeconds < options.minBandSeconds || band.weight <= 0) continue
+
+    const useStable = band.isStable && band.stableWeight > 0
+    const u = useStable ? band.stableU / band.stableWeight : band.u / band.weight
+    const v = useStable ? band.stableV / band.stableWeight : band.v / band.weight
+    const speedMs = Math.sqrt(u * u + v * v)
+    const driftDirection = (Math.atan2(u, v) * 180 / Math.PI + 360) % 360
+
+    result.push({
+      altitude: band.altitude,
+      direction: Math.round((driftDirection + 180) % 360), // Wind kommt AUS der Gegenrichtung
+      speed: Math.round(speedMs * 3.6 * 10) / 10,
+      samples: band.samples,
+      durationSeconds: Math.round(band.durationSeconds),
+      isStable: band.isStable,
+      lastSeen: band.lastSeen
+    })
+  }
+
+  result.sort((a, b) => a.altitude - b.altitude)
+  if (result.length === 0) warnings.push('Keine Höhenbänder mit ausreichender Messdauer gefunden')
+
+  const layers: WindLayer[] = result.map(band => ({
+    altitude: band.altitude,
+    direction: band.direction,
+    speed: band.speed,
+    timestamp: band.lastSeen,
+    source: WindSource.Measured,
+    isStable: band.isStable,
+    vario: Math.round((bands.get(band.altitude)!.varioSum / band.durationSeconds) * 10) / 10
+  }))
+
+  return { layers, bands: result, warnings }
+}
+
+/**
+ * Windprofil als JSON (gleiches Format wie der JSON-Import im Wind-Panel)
+ */
+export function exportWindProfileJSON(layers: WindLayer[]): string {
+  return JSON.stringify(layers.map(l => ({
+    altitude_m: Math.round(l.altitude),
+    direction_deg: l.direction,
+    speed_kmh: l.speed,
+    source: l.source,
+    timestamp: l.timestamp.toISOString()
+  })), null, 2)
+}
@@ -0,0 +1,225 @@
+/**
+ * 4D-Windfeld: mehrere Vorhersagestunden an mehreren Orten
+ * Interpoliert Wind in Zeit (linear zwischen den Stunden), Höhe (wie interpolateWind) und Raum
+ * (inverse Distanzgewichtung zwischen den Gitterpunkten).
+ *
+ * Die Rechner fragen Wind über einen WindSampler ab. Ohne Windfeld liefert der Sampler exakt
+ * interpolateWind(alt, windLayers). Mit Windfeld bleiben die Windschichten (Messung = Wahrheit
+ * für jetzt und hier) die Basis; das Feld liefert nur die Änderung über Zeit und Ort dazu.
+ */
+
+import { WindSourceFilter } from '../../shared/types'
+import { interpolateWind } from './navigation'
+
+interface WindLayerInput {
+  altitude: number  // Meter MSL
+  direction: number  // Grad (woher der Wind kommt)
+  speed: number      // km/h
+}
+
+export interface WindFieldProfile {
+  time: string             // ISO Zeitpunkt (UTC) der Vorhersagestunde
+  lat: number
+  lon: number
+  layers: WindLayerInput[]
+}
+
+export interface WindField {
+  modelId: string
+  fetchedAt: string        // ISO
+  profiles: WindFieldProfile[]
+}
+
+export interface WindFieldCoverage {
+  start: Date
+  end: Date
+  hours: number
+  locations: number
+}
+
+/**
+ * Wind an einer Höhe/Position zu einer Zeit (Sekunden ab Berechnungsbeginn)
+ */
+export type WindSampler = (
+  altitude: number,
+  lat: number,
+  lon: number,
+  elapsedSeconds: number
+) => { direction: number; speedMs: number }
+
+interface WindVector { u: number; v: number }
+
+interface IndexedField {
+  times: number[]
+  slices: { lat: number; lon: number; layers: WindLayerInput[] }[][]
+}
+
+// Cache-Raster für die Feld-Korrektur (das Feld ist ohnehin grob aufgelöst)
+const CACHE_ALT_STEP = 10       // m
+const CACHE_POS_STEP = 0.002    // Grad (~200 m)
+const CACHE_TIME_STEP = 60      // s
+const SAME_POINT_M = 50         // Gitterpunkt näher als das -> direkt verwenden
+
+const indexCache = new WeakMap<WindField, IndexedField>()
+
+function toVector(w: { direction: number; speedMs: number }): WindVector {
+  const rad = w.direction * Math.PI / 180
+  return { u: w.speedMs * Math.sin(rad), v: w.speedMs * Math.cos(rad) }
+}
+
+function fromVector(vec: WindVector): { direction: number; speedMs: number } {
+  return {
+    direction: (Math.atan2(vec.u, vec.v) * 180 / Math.PI + 360) % 360,
+    speedMs: Math.sqrt(vec.u * vec.u + vec.v * vec.v)
+  }
+}
+
+/**
+ * Profile nach Zeit gruppieren, Schichten einmalig sortieren
+ */
+function indexField(field: WindField): IndexedField {
+  const cached = indexCache.get(field)
+  if (cached) return cached
+
+  const byTime = new Map<number, IndexedField['slices'][number]>()
+  for (const profile of field.profiles) {
+    const t = Date.parse(profile.time)
+    if (isNaN(t) || profile.layers.length === 0) continue
+    if (!byTime.has(t)) byTime.set(t, [])
+    byTime.get(t)!.push({
+      lat: profile.lat,
+      lon: profile.lon,
+      layers: [...profile.layers].sort((a, b) => a.altitude - b.altitude)
+    })
+  }
+
+  const times = [...byTime.keys()].sort((a, b) => a - b)
+  const indexed = { times, slices: times.map(t => byTime.get(t)!) }
+  indexCache.set(field, indexed)
+  return indexed
+}
+
+/**
+ * Wind einer Vorhersagestunde an einer Position (inverse Distanzgewichtung)
+ */
+function sliceVector(slice: IndexedField['slices'][number], altitude: number, lat: number, lon: number): WindVector {
+  const metersPerDegLon = 111320 * Math.cos(lat * Math.PI / 180)
+  let sumU = 0, sumV = 0, sumW = 0
+
+  for (const point of slice) {
+    const dx = (point.lon - lon) * metersPerDegLon
+    const dy = (point.lat - lat) * 111320
+    const dist = Math.sqrt(dx * dx + dy * dy)
+    const vec = toVector(interpolateWind(altitude, point.layers))
+    if (dist < SAME_POINT_M) return vec
+
+    const weight = 1 / (dist * dist)
+    sumU += vec.u * weight
+    sumV += vec.v * weight
+    sumW += weight
+  }
+
+  return sumW > 0 ? { u: sumU / sumW, v: sumV / sumW } : { u: 0, v: 0 }
+}
+
+function fieldVector(field: WindField, altitude: number, lat: number, lon: number, timeMs: number): WindVector | null {
+  const { times, slices } = indexField(field)
+  if (times.length === 0) return null
+
+  // Außerhalb des Zeitraums: erste/letzte Stunde halten
+  if (timeMs <= times[0]) return sliceVector(slices[0], altitude, lat, lon)
+  if (timeMs >= times[times.length - 1]) return sliceVector(slices[slices.length - 1], altitude, lat, lon)
+
+  let i = 0
+  while (i < times.length - 2 && times[i + 1] <= timeMs) i++
+  const f = (timeMs - times[i]) / (times[i + 1] - times[i])
+  const a = sliceVector(slices[i], altitude, lat, lon)
+  const b = sliceVector(slices[i + 1], altitude, lat, lon)
+  return { u: a.u + (b.u - a.u) * f, v: a.v + (b.v - a.v) * f }
+}
+
+/**
+ * Wind aus dem Windfeld (null wenn das Feld leer ist)
+ */
+export function getFieldWind(
+  field: WindField,
+  altitude: number,
+  lat: number,
+  lon: number,
+  time: Date | number
+): { direction: number; speedMs: number } | null {
+  const vec = fieldVector(field, altitude, lat, lon, typeof time === 'number' ? time : time.getTime())
+  return vec ? fromVector(vec) : null
+}
+
+/**
+ * Zeitraum und Anzahl Orte eines Windfelds
+ */
+export function getWindFieldCoverage(field: WindField): WindFieldCoverage | null {
+  const { times, slices } = indexField(field)
+  if (times.length === 0) return null
+  return {
+    start: new Date(times[0]),
+    end: new Date(times[times.length - 1]),
+    hours: times.length,
+    locations: Math.max(...slices.map(s => s.length))
+  }
+}
+
+/**
+ * Windfeld nur verwenden wenn der Quellen-Filter Vorhersagen zulässt
+ */
+export function windFieldForFilter(field: WindField | null | undefined, filter: WindSourceFilter): WindField | null {
+  if (!field || field.profiles.length === 0) return null
+  return filter === 'all' || filter === 'forecast' ? field : null
+}
+
+/**
+ * Erzeugt den Wind-Zugriff für eine Berechnung.
+ *
+ * @param windLayers - Windschichten (gefiltert), Basis für "jetzt und hier"
+ * @param field - Optionales Windfeld für die Änderung über Zeit und Ort
+ * @param origin - Position und Zeitpunkt des Berechnungsbeginns
+ */
+export function createWindSampler(
+  windLayers: WindLayerInput[],
+  field?: WindField | null,
+  origin?: { lat: number; lon: number; time?: number }
+): WindSampler {
+  if (!field || !origin || indexField(field).times.length === 0) {
+    return (altitude) => interpolateWind(altitude, windLayers)
+  }
+
+  const startTime = origin.time ?? Date.now()
+
+  // Nur das Feld: Wind direkt aus dem Feld
+  if (windLayers.length === 0) {
+    return (altitude, lat, lon, elapsedSeconds) =>
+      fromVector(fieldVector(field, altitude, lat, lon, startTime + elapsedSeconds * 1000)!)
+  }
+
+  // Schichten + Feld: Basis aus den Schichten, plus Änderung des Felds gegenüber jetzt/hier
+  const deltaCache = new Map<string, WindVector>()
+  const getDelta = (altitude: number, lat: number, lon: number, elapsedSeconds: number): WindVector => {
+    const qa = Math.round(altitude / CACHE_ALT_STEP)
+    const qLat = Math.round(lat / CACHE_POS_STEP)
+    const qLon = Math.round(lon / CACHE_POS_STEP)
+    const qt = Math.round(elapsedSeconds / CACHE_TIME_STEP)
+    const key = `${qa}|${qLat}|${qLon}|${qt}`
+    let delta = deltaCache.get(key)
+    if (!delta) {
+      const alt = qa * CACHE_ALT_STEP
+      const now = fieldVector(field, alt, origin.lat, origin.lon, startTime)!
+      const then = fieldVector(field, alt, qLat * CACHE_POS_STEP, qLon * CACHE_POS_STEP, startTime + qt * CACHE_TIME_STEP * 1000)!
+      delta = { u: then.u - now.u, v: then.v - now.v }
+      deltaCache.set(key, delta)
+    }
+    return delta
+  }
+
+  return (altitude, lat, lon, elapsedSeconds) => {
+    const base = toVector(interpolateWind(altitude, windLayers))
+    const delta = getDelta(altitude, lat, lon, elapsedSeconds)
+    return fromVector({ u: base.u + delta.u, v: base.v + delta.v })
+  }
+}
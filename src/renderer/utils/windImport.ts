@@ -1,4 +1,5 @@
 import { WindLayer, WindSource } from '../../shared/types'
+import { isTempMessage, isWyomingSounding, parseTempMessage, parseWyomingSounding } from './soundingImport'
 
 // Import-Konfiguration
 export interface WindImportSettings {
@@ -20,7 +21,7 @@ export interface ParsedWindRow {
 }
 
 // Erkanntes Format
-export type DetectedFormat = 'oziTargetXml' | 'windsondDat' | 'csv' | 'unknown'
+export type DetectedFormat = 'oziTargetXml' | 'windsondDat' | 'csv' | 'tempMessage' | 'wyoming' | 'unknown'
 
 // Parse-Ergebnis
 export interface WindImportResult {
@@ -28,6 +29,7 @@ export interface WindImportResult {
   format: DetectedFormat
   rows: ParsedWindRow[]
   detectedSettings?: Partial<WindImportSettings>
+  description?: string  // z.B. Station und Aufstiegszeit bei Radiosonden
   errors: string[]
   warnings: string[]
 }
@@ -49,6 +51,9 @@ export function detectFormat(content: string): DetectedFormat {
   if (trimmed.includes('<wR>') || trimmed.includes('<wRs>') || trimmed.includes('<wR ')) {
     return 'oziTargetXml'
   }
+  // Radiosonde: TEMP-Meldung oder Wyoming-Tabelle (vor CSV/Text, sonst als Zahlenkolonnen erkannt)
+  if (isTempMessage(trimmed)) return 'tempMessage'
+  if (isWyomingSounding(trimmed)) return 'wyoming'
   // Pruefen ob Zeilen Kommas enthalten (CSV)
   const lines = trimmed.split(/\r?\n/).filter(l => l.trim() && !l.trim().startsWith('#') && !l.trim().startsWith('//'))
   if (lines.length > 0) {
@@ -326,6 +331,10 @@ export function parseWindFile(content: string): WindImportResult {
     case 'csv':
     case 'windsondDat':
       return parseTextWindFile(content)
+    case 'tempMessage':
+      return parseTempMessage(content)
+    case 'wyoming':
+      return parseWyomingSounding(content)
     default:
       return {
         success: false,
@@ -348,6 +357,8 @@ export function inferWindSource(format: DetectedFormat, filename?: string): Wind
   switch (format) {
     case 'oziTargetXml': return WindSource.Pibal
     case 'windsondDat': return WindSource.Windsond
+    case 'tempMessage':
+    case 'wyoming': return WindSource.Windsond  // Aufstieg -> Filter "Sounding"
     case 'csv': return WindSource.Pibal
     default: return WindSource.Manual
   }
@@ -414,6 +425,8 @@ export function formatName(format: DetectedFormat): string {
     case 'oziTargetXml': return 'oziTarget XML'
     case 'windsondDat': return 'Windsond/Text'
     case 'csv': return 'CSV'
+    case 'tempMessage': return 'TEMP (TTAA/TTBB)'
+    case 'wyoming': return 'Wyoming Sounding'
     default: return 'Unbekannt'
   }
 }
@@ -14,9 +14,18 @@
  * 3. Multi-Leg: Top-Höhen kombinieren (2-Leg: Top10×alle, 3-Leg: Top5-2Leg×alle)
  * 4. Sensitivity-Analyse: Rate ±0.5 m/s testen
  * 5. Live-Guidance: Leichtgewichtige Nachverfolgung im Flug
+ * 6. Windfehler: Plan mit verfälschtem Wind nachfliegen (HWZ-Ranking)
+ *
+ * Sperrgebiete (PZ): Optionen deren Pfad eine PZ unterhalb ihres Floors bzw.
+ * oberhalb ihrer Ceiling kreuzt, bekommen eine hohe Strafe und werden nur
+ * gewählt wenn es keine saubere Alternative gibt.
  */
 
-import { calculateDistance, calculateDestination, calculateBearing, interpolateWind } from './navigation'
+import type { BalloonPerformance, ProhibitedZone } from '../../shared/types'
+import { calculateDistance, calculateDestination, calculateBearing } from './navigation'
+import { limitRate, onsetRate, levelOffOffset } from './balloonPerformance'
+import { createWindSampler, WindField, WindSampler } from './windField'
+import { getZoneAltitudeLimit, isInsideZone } from './infringements'
 
 // ═══════════════════════════════════════════════════════════════════
 // Types
@@ -37,6 +46,28 @@ export interface WnvInput {
   goalElevation: number
   windLayers: WindLayer[]
   maxLegs: 1 | 2 | 3
+  windField?: WindField | null  // Optional: Wind ändert sich über Zeit und Ort
+  startTime?: number            // ms, Zeitpunkt des Berechnungsbeginns (Default: jetzt)
+  prohibitedZones?: ProhibitedZone[]      // Optional: PZ die der Pfad nicht kreuzen darf
+  performance?: BalloonPerformance | null // Optional: Anlaufzeit, max. Raten, Überschwingen
+}
+
+export interface WnvPzViolation {
+  zoneId: string
+  zoneName: string
+  lat: number
+  lon: number
+  altitude: number           // Meter MSL beim Einflug
+  limit: number | null       // Höhengrenze in Metern (null = PZ gilt in allen Höhen)
+  mode: 'floor' | 'ceiling'
+  timeSec: number            // Sekunden ab Berechnungsbeginn
+}
+
+export interface WnvDiscardedOption {
+  altitudeSequenceFt: number[]  // Zielhöhen der Legs
+  distanceToGoal: number
+  violation: WnvPzViolation
+  reason: string
 }
 
 export interface WnvLeg {
@@ -65,6 +96,8 @@ export interface WnvResult {
   sensitivity: number        // Meter-Shift bei ±0.5 m/s
   score: number              // Composite Score (niedriger = besser)
   altitudeSequence: number[] // Fingerprint: Zielhöhen der Legs in Reihenfolge
+  pzViolation: WnvPzViolation | null  // Gewählte Lösung kreuzt eine PZ (keine saubere Alternative)
+  discarded: WnvDiscardedOption[]     // Wegen PZ verworfene Optionen, die sonst besser gewesen wären
 }
 
 export interface WnvGuidance {
@@ -95,6 +128,10 @@ const toFt50 = (m: number) => Math.round(m * 3.28084 / 50) * 50
 const PATH_SAMPLE = 5
 const MAX_SIM_TIME = 5400  // 90 min
 const MAX_DRIFT_PER_LEG = 600  // 10 min Drift pro Leg
+const PZ_PENALTY = 100000  // Score-Strafe für PZ-Verletzung (m)
+const MAX_DISCARDED = 5
+const WIND_ERROR_SPEED = 0.15  // ±15% Windgeschwindigkeit
+const WIND_ERROR_DIR = 10      // ±10° Windrichtung
 
 function normalizeAngle(a: number): number {
   while (a > 180) a -= 360
@@ -112,47 +149,107 @@ interface SimResult {
   totalTime: number
   path: { lat: number; lon: number; altitude: number }[]
   legs: WnvLeg[]
+  violation: WnvPzViolation | null
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// Sperrgebiete
+// ═══════════════════════════════════════════════════════════════════
+
+/** Prüft eine Position gegen alle PZ, liefert die erste Verletzung */
+type ZoneGuard = (lat: number, lon: number, alt: number, timeSec: number) => WnvPzViolation | null
+
+function createZoneGuard(zones: ProhibitedZone[] | undefined): ZoneGuard | null {
+  const prepared = (zones || []).map(zone => {
+    // Bounding-Box als Vorfilter, PZ ohne Fläche ignorieren
+    let south: number, north: number, west: number, east: number
+    if (zone.type === 'polygon' && zone.polygon && zone.polygon.length >= 3) {
+      south = Math.min(...zone.polygon.map(p => p.lat)); north = Math.max(...zone.polygon.map(p => p.lat))
+      west = Math.min(...zone.polygon.map(p => p.lon)); east = Math.max(...zone.polygon.map(p => p.lon))
+    } else if (zone.type !== 'polygon' && zone.radius && zone.radius > 0) {
+      const dLat = zone.radius / 111320
+      const dLon = zone.radius / (111320 * Math.cos(zone.lat * Math.PI / 180))
+      south = zone.lat - dLat; north = zone.lat + dLat
+      west = zone.lon - dLon; east = zone.lon + dLon
+    } else {
+      return null
+    }
+    return { zone, south, north, west, east, limit: getZoneAltitudeLimit(zone), mode: zone.altitudeWarningMode || 'ceiling' }
+  }).filter(<T>(p: T | null): p is T => p !== null)
+
+  if (prepared.length === 0) return null
+
+  return (lat, lon, alt, timeSec) => {
+    for (const p of prepared) {
+      if (lat < p.south || lat > p.north || lon < p.west || lon > p.east) continue
+      // floor: gesperrt vom Boden bis limit, ceiling: gesperrt ab limit nach oben
+      if (p.limit !== null && (p.mode === 'floor' ? alt >= p.limit : alt <= p.limit)) continue
+      if (!isInsideZone(lat, lon, p.zone)) continue
+      return { zoneId: p.zone.id, zoneName: p.zone.name, lat, lon, altitude: alt, limit: p.limit, mode: p.mode, timeSec }
+    }
+    return null
+  }
+}
+
+/** PZ-Verletzung als Begründungstext */
+export function describePzViolation(v: WnvPzViolation): string {
+  const limitText = v.limit === null ? ''
+    : v.mode === 'floor' ? ` unter Floor ${toFt50(v.limit)} ft` : ` über Ceiling ${toFt50(v.limit)} ft`
+  return `Kreuzt PZ "${v.zoneName}"${limitText} auf ${toFt50(v.altitude)} ft nach ${Math.round(v.timeSec / 60)} min`
 }
 
 /**
  * Simuliere: Steigen/Sinken auf targetAlt, dann Drift bis CPA, dann Sinken zum Boden.
  * collectPath=false für Performance bei Brute-Force-Suche.
+ * t0 = Flugzeit vor diesem Leg (für zeitabhängigen Wind bei Multi-Leg).
+ * perf = Ballon-Flugverhalten (null = Rate liegt sofort an, kein Überschwingen).
  */
 function simulateOneLeg(
   startLat: number, startLon: number, startAlt: number,
   targetAlt: number, rate: number,
   goalLat: number, goalLon: number, goalElev: number,
-  windLayers: WindLayer[],
-  collectPath = true
+  wind: WindSampler,
+  collectPath = true,
+  t0 = 0,
+  guard: ZoneGuard | null = null,
+  perf: BalloonPerformance | null = null
 ): SimResult {
   let lat = startLat, lon = startLon, alt = startAlt
   let totalTime = 0
   const path: { lat: number; lon: number; altitude: number }[] = collectPath ? [{ lat, lon, altitude: alt }] : []
   const legs: WnvLeg[] = []
+  let violation = null as WnvPzViolation | null  // wird in checkZones gesetzt
+  const checkZones = (atAlt = alt) => {
+    if (guard && !violation && totalTime % PATH_SAMPLE === 0) violation = guard(lat, lon, atAlt, t0 + totalTime)
+  }
+  let approachRate = 0  // Vorzeichenbehaftete Rate beim Erreichen der Zielhöhe (für Überschwingen)
 
   // ── Phase 1: Steigen/Sinken zur Zielhöhe ──
   const altDiff = targetAlt - alt
   if (Math.abs(altDiff) > 3) {
     const dir = altDiff > 0 ? 1 : -1
     const legStart = totalTime
-    const w0 = interpolateWind(alt, windLayers)
+    const w0 = wind(alt, lat, lon, t0 + totalTime)
+    const climbRate = limitRate(perf, rate, dir > 0)
 
     while ((dir > 0 && alt < targetAlt) || (dir < 0 && alt > targetAlt)) {
-      const w = interpolateWind(alt, windLayers)
+      const w = wind(alt, lat, lon, t0 + totalTime)
       const drift = (w.direction + 180) % 360
       const dest = calculateDestination(lat, lon, drift, w.speedMs)
       lat = dest.lat; lon = dest.lon
-      alt += dir * rate
       totalTime++
+      alt += dir * onsetRate(perf, climbRate, totalTime - legStart)
       if (collectPath && totalTime % PATH_SAMPLE === 0) path.push({ lat, lon, altitude: alt })
+      checkZones()
       if (totalTime > MAX_SIM_TIME) break
     }
     alt = targetAlt
+    approachRate = dir * climbRate
 
     legs.push({
       targetAltitude: targetAlt, targetAltitudeFt: toFt50(targetAlt),
       action: altDiff > 0 ? 'STEIGEN' : 'SINKEN',
-      rate: Math.round(rate * 10) / 10, rateFtMin: Math.round(rate * 3.28084 * 60),
+      rate: Math.round(climbRate * 10) / 10, rateFtMin: Math.round(climbRate * 3.28084 * 60),
       durationSec: totalTime - legStart,
       windDirection: Math.round(w0.direction), windSpeedKmh: Math.round(w0.speedMs * 3.6)
     })
@@ -163,10 +260,12 @@ function simulateOneLeg(
   let bestLat = lat, bestLon = lon, bestTime = totalTime
   let staleCount = 0
   const driftStart = totalTime
-  const dw = interpolateWind(alt, windLayers)
+  const dw = wind(alt, lat, lon, t0 + totalTime)
 
   for (let d = 0; d < MAX_DRIFT_PER_LEG; d++) {
-    const w = interpolateWind(alt, windLayers)
+    // Nach dem Abfangen schwingt der Ballon kurz über die Zielhöhe hinaus
+    const driftAlt = alt + Math.sign(approachRate) * levelOffOffset(perf, Math.abs(approachRate), d)
+    const w = wind(driftAlt, lat, lon, t0 + totalTime)
     const drift = (w.direction + 180) % 360
 
     // Stoppe wenn Wind > 90° vom Goal weg zeigt und wir schon eine Weile driften
@@ -180,6 +279,7 @@ function simulateOneLeg(
     lat = dest.lat; lon = dest.lon
     totalTime++
     if (collectPath && totalTime % PATH_SAMPLE === 0) path.push({ lat, lon, altitude: alt })
+    checkZones(driftAlt)
 
     const dist = calculateDistance(lat, lon, goalLat, goalLon)
     if (dist < minDist) {
@@ -196,6 +296,8 @@ function simulateOneLeg(
   lat = bestLat; lon = bestLon
   const driftDuration = bestTime - driftStart
   totalTime = bestTime
+  // Verletzungen nach dem besten Punkt werden nicht geflogen
+  if (violation && violation.timeSec > t0 + bestTime) violation = null
 
   // Pfad kürzen bis zum besten Punkt
   if (collectPath) {
@@ -216,20 +318,21 @@ function simulateOneLeg(
   }
 
   // ── Phase 3: Sinken zum Boden ──
-  const sinkRate = 2.0
+  const sinkRate = limitRate(perf, 2.0, false)
   if (alt > goalElev + 3) {
     const sinkStart = totalTime
-    const sw = interpolateWind(alt, windLayers)
+    const sw = wind(alt, lat, lon, t0 + totalTime)
 
     while (alt > goalElev) {
-      const w = interpolateWind(alt, windLayers)
+      const w = wind(alt, lat, lon, t0 + totalTime)
       const drift = (w.direction + 180) % 360
       const dest = calculateDestination(lat, lon, drift, w.speedMs)
       lat = dest.lat; lon = dest.lon
-      alt -= sinkRate
+      alt -= onsetRate(perf, sinkRate, totalTime + 1 - sinkStart)
       if (alt < goalElev) alt = goalElev
       totalTime++
       if (collectPath && totalTime % PATH_SAMPLE === 0) path.push({ lat, lon, altitude: alt })
+      checkZones()
       if (totalTime > MAX_SIM_TIME) break
     }
 
@@ -244,7 +347,7 @@ function simulateOneLeg(
   if (collectPath) path.push({ lat, lon, altitude: alt })
   const distToGoal = Math.round(calculateDistance(lat, lon, goalLat, goalLon))
 
-  return { lat, lon, alt, distToGoal, totalTime, path, legs }
+  return { lat, lon, alt, distToGoal, totalTime, path, legs, violation }
 }
 
 /**
@@ -255,36 +358,51 @@ function simulateLegNoDescend(
   startLat: number, startLon: number, startAlt: number,
   targetAlt: number, rate: number,
   goalLat: number, goalLon: number,
-  windLayers: WindLayer[]
-): { lat: number; lon: number; alt: number; totalTime: number; legs: WnvLeg[]; path: { lat: number; lon: number; altitude: number }[] } {
+  wind: WindSampler,
+  t0 = 0,
+  guard: ZoneGuard | null = null,
+  perf: BalloonPerformance | null = null
+): {
+  lat: number; lon: number; alt: number; totalTime: number; legs: WnvLeg[]
+  path: { lat: number; lon: number; altitude: number }[]
+  violation: WnvPzViolation | null
+} {
   let lat = startLat, lon = startLon, alt = startAlt
   let totalTime = 0
   const path: { lat: number; lon: number; altitude: number }[] = [{ lat, lon, altitude: alt }]
   const legs: WnvLeg[] = []
+  let violation = null as WnvPzViolation | null  // wird in checkZones gesetzt
+  const checkZones = (atAlt = alt) => {
+    if (guard && !violation && totalTime % PATH_SAMPLE === 0) violation = guard(lat, lon, atAlt, t0 + totalTime)
+  }
+  let approachRate = 0  // Vorzeichenbehaftete Rate beim Erreichen der Zielhöhe (für Überschwingen)
 
   // Phase 1: Steigen/Sinken
   const altDiff = targetAlt - alt
   if (Math.abs(altDiff) > 3) {
     const dir = altDiff > 0 ? 1 : -1
     const legStart = totalTime
-    const w0 = interpolateWind(alt, windLayers)
+    const w0 = wind(alt, lat, lon, t0 + totalTime)
+    const climbRate = limitRate(perf, rate, dir > 0)
 
     while ((dir > 0 && alt < targetAlt) || (dir < 0 && alt > targetAlt)) {
-      const w = interpolateWind(alt, windLayers)
+      const w = wind(alt, lat, lon, t0 + totalTime)
       const drift = (w.direction + 180) % 360
       const dest = calculateDestination(lat, lon, drift, w.speedMs)
       lat = dest.lat; lon = dest.lon
-      alt += dir * rate
       totalTime++
+      alt += dir * onsetRate(perf, climbRate, totalTime - legStart)
       if (totalTime % PATH_SAMPLE === 0) path.push({ lat, lon, altitude: alt })
+      checkZones()
       if (totalTime > MAX_SIM_TIME) break
     }
     alt = targetAlt
+    approachRate = dir * climbRate
 
     legs.push({
       targetAltitude: targetAlt, targetAltitudeFt: toFt50(targetAlt),
       action: altDiff > 0 ? 'STEIGEN' : 'SINKEN',
-      rate: Math.round(rate * 10) / 10, rateFtMin: Math.round(rate * 3.28084 * 60),
+      rate: Math.round(climbRate * 10) / 10, rateFtMin: Math.round(climbRate * 3.28084 * 60),
       durationSec: totalTime - legStart,
       windDirection: Math.round(w0.direction), windSpeedKmh: Math.round(w0.speedMs * 3.6)
     })
@@ -295,10 +413,11 @@ function simulateLegNoDescend(
   let bestLat = lat, bestLon = lon, bestTime = totalTime
   let staleCount = 0
   const driftStart = totalTime
-  const dw = interpolateWind(alt, windLayers)
+  const dw = wind(alt, lat, lon, t0 + totalTime)
 
   for (let d = 0; d < MAX_DRIFT_PER_LEG; d++) {
-    const w = interpolateWind(alt, windLayers)
+    const driftAlt = alt + Math.sign(approachRate) * levelOffOffset(perf, Math.abs(approachRate), d)
+    const w = wind(driftAlt, lat, lon, t0 + totalTime)
     const drift = (w.direction + 180) % 360
     if (d > 5) {
       const brg = calculateBearing(lat, lon, goalLat, goalLon)
@@ -309,6 +428,7 @@ function simulateLegNoDescend(
     lat = dest.lat; lon = dest.lon
     totalTime++
     if (totalTime % PATH_SAMPLE === 0) path.push({ lat, lon, altitude: alt })
+    checkZones(driftAlt)
     const dist = calculateDistance(lat, lon, goalLat, goalLon)
     if (dist < minDist) {
       minDist = dist; bestLat = lat; bestLon = lon; bestTime = totalTime
@@ -322,6 +442,7 @@ function simulateLegNoDescend(
 
   lat = bestLat; lon = bestLon; totalTime = bestTime
   const driftDuration = bestTime - driftStart
+  if (violation && violation.timeSec > t0 + bestTime) violation = null
 
   if (driftDuration > 3) {
     legs.push({
@@ -332,7 +453,7 @@ function simulateLegNoDescend(
   }
 
   path.push({ lat, lon, altitude: alt })
-  return { lat, lon, alt, totalTime, legs, path }
+  return { lat, lon, alt, totalTime, legs, path, violation }
 }
 
 // ═══════════════════════════════════════════════════════════════════
@@ -352,15 +473,17 @@ function analyzeSensitivity(
   input: WnvInput,
   bestSim: SimResult,
   bestAlt: number,
-  bestRate: number
+  bestRate: number,
+  wind: WindSampler
 ): { sensitivity: number; score: number } {
-  const { pilotLat, pilotLon, pilotAltitude, goalLat, goalLon, goalElevation, windLayers } = input
+  const { pilotLat, pilotLon, pilotAltitude, goalLat, goalLon, goalElevation } = input
+  const perf = input.performance ?? null
 
   // Rate ±0.5 m/s testen
   let maxShift = 0
   for (const delta of [-0.5, -0.3, 0.3, 0.5]) {
     const testRate = Math.max(0.3, bestRate + delta)
-    const sim = simulateOneLeg(pilotLat, pilotLon, pilotAltitude, bestAlt, testRate, goalLat, goalLon, goalElevation, windLayers, false)
+    const sim = simulateOneLeg(pilotLat, pilotLon, pilotAltitude, bestAlt, testRate, goalLat, goalLon, goalElevation, wind, false, 0, null, perf)
     const shift = Math.abs(sim.distToGoal - bestSim.distToGoal)
     if (shift > maxShift) maxShift = shift
   }
@@ -377,15 +500,66 @@ function analyzeSensitivity(
   return { sensitivity: Math.round(maxShift), score: Math.round(score * 100) / 100 }
 }
 
+// ═══════════════════════════════════════════════════════════════════
+// Windfehler
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Distanz zum Goal (Meter) im schlechtesten Fall, wenn der Wind um ±15% bzw.
+ * ±10° anders weht als angenommen. Geflogen werden dieselben Höhen und Raten,
+ * abgesunken wird wie geplant am nächsten Punkt zum Goal.
+ */
+export function windErrorMiss(input: WnvInput, result: WnvResult): number {
+  const { pilotLat, pilotLon, pilotAltitude, goalLat, goalLon, goalElevation } = input
+  const perf = input.performance ?? null
+  const wind = createWindSampler(input.windLayers, input.windField, { lat: pilotLat, lon: pilotLon, time: input.startTime })
+
+  // Höhen-Schritte des Plans (ohne das Sinken zum Boden am Ende)
+  const steps: { alt: number; rate: number }[] = []
+  result.legs.forEach((leg, i) => {
+    const isLanding = i === result.legs.length - 1 && leg.action === 'SINKEN'
+    if (isLanding) return
+    if (leg.action !== 'DRIFT') steps.push({ alt: leg.targetAltitude, rate: leg.rate })
+    else if (steps.length === 0 || steps[steps.length - 1].alt !== leg.targetAltitude) steps.push({ alt: leg.targetAltitude, rate: 2.0 })
+  })
+  if (steps.length === 0) steps.push({ alt: pilotAltitude, rate: 2.0 })
+
+  let worst = result.distanceToGoal
+  for (const speedFactor of [1 - WIND_ERROR_SPEED, 1 + WIND_ERROR_SPEED]) {
+    for (const dirOffset of [-WIND_ERROR_DIR, WIND_ERROR_DIR]) {
+      const disturbed: WindSampler = (alt, lat, lon, t) => {
+        const w = wind(alt, lat, lon, t)
+        return { direction: (w.direction + dirOffset + 360) % 360, speedMs: w.speedMs * speedFactor }
+      }
+      let lat = pilotLat, lon = pilotLon, alt = pilotAltitude, t = 0
+      for (let i = 0; i < steps.length - 1; i++) {
+        const leg = simulateLegNoDescend(lat, lon, alt, steps[i].alt, steps[i].rate, goalLat, goalLon, disturbed, t, null, perf)
+        lat = leg.lat; lon = leg.lon; alt = leg.alt; t += leg.totalTime
+      }
+      const last = steps[steps.length - 1]
+      const sim = simulateOneLeg(lat, lon, alt, last.alt, last.rate, goalLat, goalLon, goalElevation, disturbed, false, t, null, perf)
+      worst = Math.max(worst, sim.distToGoal)
+    }
+  }
+  return Math.round(worst)
+}
+
 // ═══════════════════════════════════════════════════════════════════
 // Hauptberechnung
 // ═══════════════════════════════════════════════════════════════════
 
-export function calculateWindNav(input: WnvInput, continuityBias?: number[]): WnvResult | null {
+export function calculateWindNav(
+  input: WnvInput,
+  continuityBias?: number[],
+  onProgress?: (fraction: number) => void
+): WnvResult | null {
   const { pilotLat, pilotLon, pilotAltitude, goalLat, goalLon, goalElevation, windLayers, maxLegs } = input
 
   if (windLayers.length === 0) return null
 
+  const wind = createWindSampler(windLayers, input.windField, { lat: pilotLat, lon: pilotLon, time: input.startTime })
+  const perf = input.performance ?? null
+
   const allAlts = windLayers.map(l => l.altitude)
   const minAlt = Math.max(goalElevation + 20, Math.min(...allAlts))
   const maxAlt = Math.max(...allAlts)
@@ -404,23 +578,34 @@ export function calculateWindNav(input: WnvInput, continuityBias?: number[]): Wn
 
   const coarseRates = [1.0, 2.0, 3.0, 4.0]
 
+  // PZ-Prüfung: verletzende Optionen merken und bestrafen
+  const guard = createZoneGuard(input.prohibitedZones)
+  const discardedPool: { score: number; sequence: number[]; distToGoal: number; violation: WnvPzViolation }[] = []
+  const penalize = (score: number, violation: WnvPzViolation | null, sequence: number[], distToGoal: number): number => {
+    if (!violation) return score
+    discardedPool.push({ score, sequence, distToGoal, violation })
+    return score + PZ_PENALTY
+  }
+
   // ── Pass 1: Grobe Suche — alle Höhen × grobe Raten ──
   interface Candidate { sim: SimResult; rate: number; alt: number; score: number }
   const pass1Results: Candidate[] = []
 
   for (const alt of uniqueAlts) {
     for (const rate of coarseRates) {
-      const sim = simulateOneLeg(pilotLat, pilotLon, pilotAltitude, alt, rate, goalLat, goalLon, goalElevation, windLayers, false)
+      const sim = simulateOneLeg(pilotLat, pilotLon, pilotAltitude, alt, rate, goalLat, goalLon, goalElevation, wind, false, 0, guard, perf)
       let score = effectiveScore(sim.distToGoal, sim.totalTime)
       // Continuity-Bias: 30% Bonus wenn Höhe im vorgegebenen Sequence ist
       if (continuityBias && continuityBias.length > 0 && Math.abs(alt - continuityBias[0]) < 50) {
         score *= 0.7
       }
+      score = penalize(score, sim.violation, [alt], sim.distToGoal)
       pass1Results.push({ sim, rate, alt, score })
     }
   }
 
   pass1Results.sort((a, b) => a.score - b.score)
+  onProgress?.(0.15)
 
   let bestSim = pass1Results[0]?.sim || null
   let bestRate = pass1Results[0]?.rate || 2.0
@@ -443,11 +628,12 @@ export function calculateWindNav(input: WnvInput, continuityBias?: number[]): Wn
 
     for (const alt of fineAlts) {
       for (const rate of fineRates) {
-        const sim = simulateOneLeg(pilotLat, pilotLon, pilotAltitude, alt, rate, goalLat, goalLon, goalElevation, windLayers, false)
+        const sim = simulateOneLeg(pilotLat, pilotLon, pilotAltitude, alt, rate, goalLat, goalLon, goalElevation, wind, false, 0, guard, perf)
         let score = effectiveScore(sim.distToGoal, sim.totalTime)
         if (continuityBias && continuityBias.length > 0 && Math.abs(alt - continuityBias[0]) < 50) {
           score *= 0.7
         }
+        score = penalize(score, sim.violation, [alt], sim.distToGoal)
         if (score < bestScore) {
           bestSim = sim; bestRate = rate; bestAlt = alt; bestScore = score
         }
@@ -455,6 +641,8 @@ export function calculateWindNav(input: WnvInput, continuityBias?: number[]): Wn
     }
   }
 
+  onProgress?.(0.3)
+
   // ── Pass 3: 2-Leg Strategien (Top-10 als Leg 1) ──
   interface MultiLegCandidate {
     sim: SimResult
@@ -472,12 +660,14 @@ export function calculateWindNav(input: WnvInput, continuityBias?: number[]): Wn
   if (maxLegs >= 2 && uniqueAlts.length >= 2) {
     const top10 = pass1Results.slice(0, 10)
 
-    for (const leg1Cand of top10) {
+    for (let i = 0; i < top10.length; i++) {
+      const leg1Cand = top10[i]
+      onProgress?.(0.3 + 0.4 * i / top10.length)
       // Leg 1 ohne Sinken zum Boden
       const leg1 = simulateLegNoDescend(
         pilotLat, pilotLon, pilotAltitude,
         leg1Cand.alt, leg1Cand.rate,
-        goalLat, goalLon, windLayers
+        goalLat, goalLon, wind, 0, guard, perf
       )
 
       for (const leg2Alt of uniqueAlts) {
@@ -486,9 +676,10 @@ export function calculateWindNav(input: WnvInput, continuityBias?: number[]): Wn
           const sim2 = simulateOneLeg(
             leg1.lat, leg1.lon, leg1.alt,
             leg2Alt, rate2,
-            goalLat, goalLon, goalElevation, windLayers, false
+            goalLat, goalLon, goalElevation, wind, false, leg1.totalTime, guard, perf
           )
           const totalTime = leg1.totalTime + sim2.totalTime
+          const violation = leg1.violation || sim2.violation
           let score = effectiveScore(sim2.distToGoal, totalTime)
           // Continuity-Bias für 2-Leg
           if (continuityBias && continuityBias.length >= 2) {
@@ -496,6 +687,7 @@ export function calculateWindNav(input: WnvInput, continuityBias?: number[]): Wn
               score *= 0.7
             }
           }
+          score = penalize(score, violation, [leg1Cand.alt, leg2Alt], sim2.distToGoal)
 
           if (score < bestScore) {
             const combinedLegs = [...leg1.legs, ...sim2.legs]
@@ -505,7 +697,8 @@ export function calculateWindNav(input: WnvInput, continuityBias?: number[]): Wn
               distToGoal: sim2.distToGoal,
               totalTime,
               path: combinedPath,
-              legs: combinedLegs
+              legs: combinedLegs,
+              violation
             }
             bestRate = leg1Cand.rate
             bestAlt = leg1Cand.alt
@@ -532,17 +725,19 @@ export function calculateWindNav(input: WnvInput, continuityBias?: number[]): Wn
   if (maxLegs >= 3 && twoLegCandidates.length >= 1 && uniqueAlts.length >= 3) {
     const top5TwoLeg = twoLegCandidates.slice(0, 5)
 
-    for (const base of top5TwoLeg) {
+    for (let i = 0; i < top5TwoLeg.length; i++) {
+      const base = top5TwoLeg[i]
+      onProgress?.(0.7 + 0.3 * i / top5TwoLeg.length)
       // Von Leg-2 Endpunkt: Leg 3 ohne nochmal zum Boden zu sinken (simulateOneLeg macht das schon)
       const leg2End = simulateLegNoDescend(
         pilotLat, pilotLon, pilotAltitude,
         base.leg1Alt, base.leg1Rate,
-        goalLat, goalLon, windLayers
+        goalLat, goalLon, wind, 0, guard, perf
       )
       const leg2Mid = simulateLegNoDescend(
         leg2End.lat, leg2End.lon, leg2End.alt,
         base.leg2Alt, base.leg2Rate,
-        goalLat, goalLon, windLayers
+        goalLat, goalLon, wind, leg2End.totalTime, guard, perf
       )
 
       for (const leg3Alt of uniqueAlts) {
@@ -551,9 +746,10 @@ export function calculateWindNav(input: WnvInput, continuityBias?: number[]): Wn
           const sim3 = simulateOneLeg(
             leg2Mid.lat, leg2Mid.lon, leg2Mid.alt,
             leg3Alt, rate3,
-            goalLat, goalLon, goalElevation, windLayers, false
+            goalLat, goalLon, goalElevation, wind, false, leg2End.totalTime + leg2Mid.totalTime, guard, perf
           )
           const totalTime = leg2End.totalTime + leg2Mid.totalTime + sim3.totalTime
+          const violation = leg2End.violation || leg2Mid.violation || sim3.violation
           let score = effectiveScore(sim3.distToGoal, totalTime)
 
           if (continuityBias && continuityBias.length >= 3) {
@@ -563,6 +759,7 @@ export function calculateWindNav(input: WnvInput, continuityBias?: number[]): Wn
               score *= 0.7
             }
           }
+          score = penalize(score, violation, [base.leg1Alt, base.leg2Alt, leg3Alt], sim3.distToGoal)
 
           if (score < bestScore) {
             const combinedLegs = [...leg2End.legs, ...leg2Mid.legs, ...sim3.legs]
@@ -572,7 +769,8 @@ export function calculateWindNav(input: WnvInput, continuityBias?: number[]): Wn
               distToGoal: sim3.distToGoal,
               totalTime,
               path: combinedPath,
-              legs: combinedLegs
+              legs: combinedLegs,
+              violation
             }
             bestRate = base.leg1Rate
             bestAlt = base.leg1Alt
@@ -588,12 +786,12 @@ export function calculateWindNav(input: WnvInput, continuityBias?: number[]): Wn
   // Finalen Pfad sammeln wenn noch nicht vorhanden (war collectPath=false bei Brute-Force)
   if (bestSim.path.length === 0) {
     // Nochmal mit collectPath=true simulieren für den Gewinner
-    const finalSim = simulateOneLeg(pilotLat, pilotLon, pilotAltitude, bestAlt, bestRate, goalLat, goalLon, goalElevation, windLayers, true)
+    const finalSim = simulateOneLeg(pilotLat, pilotLon, pilotAltitude, bestAlt, bestRate, goalLat, goalLon, goalElevation, wind, true, 0, null, perf)
     bestSim = { ...bestSim, path: finalSim.path }
   }
 
   // Sensitivity-Analyse
-  const { sensitivity, score } = analyzeSensitivity(input, bestSim, bestAlt, bestRate)
+  const { sensitivity, score } = analyzeSensitivity(input, bestSim, bestAlt, bestRate, wind)
 
   // Altitude-Sequence extrahieren (nur Climb/Sink Legs, nicht Drift/Boden-Sink)
   const altitudeSequence = bestSim.legs
@@ -617,6 +815,19 @@ export function calculateWindNav(input: WnvInput, continuityBias?: number[]): Wn
     instruction = `DRIFT auf ${firstLeg.targetAltitudeFt} ft`
   }
 
+  // Verworfene Optionen: nur solche die ohne PZ besser gewesen wären, je Höhenfolge einmal
+  const chosenScore = bestSim.violation ? bestScore - PZ_PENALTY : bestScore
+  const discarded: WnvDiscardedOption[] = []
+  const seen = new Set<string>()
+  for (const d of discardedPool.filter(d => d.score < chosenScore).sort((a, b) => a.score - b.score)) {
+    const altitudeSequenceFt = d.sequence.map(toFt50)
+    const key = altitudeSequenceFt.join('/')
+    if (seen.has(key)) continue
+    seen.add(key)
+    discarded.push({ altitudeSequenceFt, distanceToGoal: d.distToGoal, violation: d.violation, reason: describePzViolation(d.violation) })
+    if (discarded.length >= MAX_DISCARDED) break
+  }
+
   return {
     legs: bestSim.legs,
     predictedPath: bestSim.path,
@@ -625,7 +836,9 @@ export function calculateWindNav(input: WnvInput, continuityBias?: number[]): Wn
     totalTimeSec: bestSim.totalTime,
     instruction, instructionAltFt, instructionAction,
     recommendedRate, recommendedRateFtMin,
-    sensitivity, score, altitudeSequence
+    sensitivity, score, altitudeSequence,
+    pzViolation: bestSim.violation,
+    discarded
   }
 }
 
@@ -635,9 +848,10 @@ export function calculateWindNav(input: WnvInput, continuityBias?: number[]): Wn
 
 export function recalculateWnvFromCurrent(
   input: WnvInput,
-  currentAltitudeSequence: number[]
+  currentAltitudeSequence: number[],
+  onProgress?: (fraction: number) => void
 ): WnvResult | null {
-  return calculateWindNav(input, currentAltitudeSequence)
+  return calculateWindNav(input, currentAltitudeSequence, onProgress)
 }
 
 // ═══════════════════════════════════════════════════════════════════
@@ -709,7 +923,8 @@ export function calculateWnvGuidance(
   declaredResult: WnvResult,
   goalLat: number, goalLon: number, goalElevation: number,
   windLayers: WindLayer[],
-  declaredAlt: number
+  declaredAlt: number,
+  windField?: WindField | null
 ): WnvGuidance {
   const { legs, predictedPath, altitudeSequence, distanceToGoal: declaredDist } = declaredResult
 
@@ -728,7 +943,8 @@ export function calculateWnvGuidance(
 
   // Bearing und Drift
   const bearingToGoal = Math.round(calculateBearing(currentLat, currentLon, goalLat, goalLon))
-  const currentWind = interpolateWind(currentAlt, windLayers)
+  const wind = createWindSampler(windLayers, windField, { lat: currentLat, lon: currentLon })
+  const currentWind = wind(currentAlt, currentLat, currentLon, 0)
   const currentDriftBearing = Math.round((currentWind.direction + 180) % 360)
 
   // Distanz zum Ziel
@@ -762,6 +978,7 @@ export function calculateWnvGuidance(
   // Simuliere restliche Legs ab jetziger Position
   const remainingLegs = legs.slice(legIndex)
   let liveLat = currentLat, liveLon = currentLon, liveAlt = currentAlt
+  let liveTime = 0
   const livePath: { lat: number; lon: number; altitude: number }[] = [{ lat: liveLat, lon: liveLon, altitude: liveAlt }]
 
   for (const leg of remainingLegs) {
@@ -770,11 +987,12 @@ export function calculateWnvGuidance(
       const target = leg.targetAltitude
       let steps = 0
       while ((dir > 0 && liveAlt < target) || (dir < 0 && liveAlt > target)) {
-        const w = interpolateWind(liveAlt, windLayers)
+        const w = wind(liveAlt, liveLat, liveLon, liveTime)
         const drift = (w.direction + 180) % 360
         const dest = calculateDestination(liveLat, liveLon, drift, w.speedMs)
         liveLat = dest.lat; liveLon = dest.lon
         liveAlt += dir * leg.rate
+        liveTime++
         steps++
         if (steps % PATH_SAMPLE === 0) livePath.push({ lat: liveLat, lon: liveLon, altitude: liveAlt })
         if (steps > 1800) break
@@ -783,10 +1001,11 @@ export function calculateWnvGuidance(
     } else if (leg.action === 'DRIFT') {
       // Drift für die angegebene Dauer
       for (let d = 0; d < Math.min(leg.durationSec, MAX_DRIFT_PER_LEG); d++) {
-        const w = interpolateWind(liveAlt, windLayers)
+        const w = wind(liveAlt, liveLat, liveLon, liveTime)
         const drift = (w.direction + 180) % 360
         const dest = calculateDestination(liveLat, liveLon, drift, w.speedMs)
         liveLat = dest.lat; liveLon = dest.lon
+        liveTime++
         if (d % PATH_SAMPLE === 0) livePath.push({ lat: liveLat, lon: liveLon, altitude: liveAlt })
       }
     }
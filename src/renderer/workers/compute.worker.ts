@@ -0,0 +1,38 @@
+/**
+ * Web Worker für die Navigations-Rechner (WNV, HWZ-Ranking, Donut, Kegel, Land Run,
+ * PDG/FON, Erreichbarkeit, Gas-Reichweite, Marker-Kalibrierung, Ballon-Flugverhalten,
+ * GRIB-Abfragen).
+ * Die Brute-Force-Suchen würden sonst Karte und Instrumente für Sekunden einfrieren -
+ * gerade im Anflug nicht akzeptabel.
+ * Abbruch erfolgt durch terminate() im computeService.
+ */
+
+import { computeJobs, ComputeKind } from './computeJobs'
+
+interface ComputeRequest {
+  id: number
+  kind: ComputeKind
+  args: unknown[]
+}
+
+const PROGRESS_STEP = 0.02  // Fortschritt nur in 2%-Schritten melden
+
+self.onmessage = (event: MessageEvent<ComputeRequest>) => {
+  const { id, kind, args } = event.data
+  let lastProgress = -1
+  const onProgress = (fraction: number) => {
+    if (fraction - lastProgress < PROGRESS_STEP) return
+    lastProgress = fraction
+    self.postMessage({ id, type: 'progress', fraction })
+  }
+
+  try {
+    const job = computeJobs[kind] as (args: unknown[], onProgress: (fraction: number) => void) => unknown
+    const result = job(args, onProgress)
+    // Erreichbarkeits-Raster: times-Puffer übertragen statt kopieren
+    const transfer = result && kind === 'reachability' ? [(result as { times: Float32Array }).times.buffer] : []
+    self.postMessage({ id, type: 'done', result }, { transfer })
+  } catch (e: any) {
+    self.postMessage({ id, type: 'error', error: e?.message || String(e) })
+  }
+}
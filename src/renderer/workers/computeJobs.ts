@@ -0,0 +1,62 @@
+/**
+ * Rechenjobs für den Compute-Worker.
+ * Jeder Job bekommt die Argumente als Tupel (strukturiert klonbar) und einen
+ * Fortschritts-Callback, den der Worker an das UI weiterreicht.
+ */
+
+import { calculateWindNav, WnvInput } from '../utils/windNavigation'
+import { calculateDonut, DonutInput } from '../utils/donutCalculator'
+import { calculateCone, ConeInput } from '../utils/coneNavigator'
+import { calculateLandRun, LandRunLimits, MapBoundsCheck } from '../utils/navigation'
+import { findOptimalRate, PdgFonInput } from '../utils/pdgFonCalculator'
+import { calculateReachability, reachabilityOutline, ReachabilityInput } from '../utils/reachability'
+import { fitMarkerCalibrations, MarkerCalibrationSample } from '../utils/markerCalibration'
+import { estimateBalloonPerformance } from '../utils/balloonPerformance'
+import { rankHwzGoals, HwzRankingInput } from '../utils/hwzRanking'
+import { queryGrib, GribQuery, GribWindDataset } from '../utils/grib2'
+import type { BalloonPerformance, TrackPoint } from '../../shared/types'
+
+type ProgressFn = (fraction: number) => void
+
+type LandRunArgs = [
+  pilotLat: number,
+  pilotLon: number,
+  pilotAltitude: number,
+  climbRate: number,
+  windLayers: Parameters<typeof calculateLandRun>[4],
+  limits: LandRunLimits,
+  mapBounds: MapBoundsCheck | null,
+  performance?: BalloonPerformance | null
+]
+
+export const computeJobs = {
+  windNav: ([input, continuityBias]: [WnvInput, number[]?], onProgress: ProgressFn) =>
+    calculateWindNav(input, continuityBias, onProgress),
+  hwzRanking: ([input]: [HwzRankingInput], onProgress: ProgressFn) =>
+    rankHwzGoals(input, onProgress),
+  donut: ([input]: [DonutInput], onProgress: ProgressFn) =>
+    calculateDonut(input, onProgress),
+  cone: ([input]: [ConeInput]) =>
+    calculateCone(input),
+  landRun: ([lat, lon, alt, climbRate, windLayers, limits, mapBounds, performance]: LandRunArgs, onProgress: ProgressFn) =>
+    calculateLandRun(lat, lon, alt, climbRate, windLayers, limits, mapBounds, onProgress, performance),
+  optimalRate: ([input]: [PdgFonInput], onProgress: ProgressFn) =>
+    findOptimalRate(input, onProgress),
+  reachability: ([input]: [ReachabilityInput], onProgress: ProgressFn) =>
+    calculateReachability(input, onProgress),
+  gasRange: ([input]: [ReachabilityInput], onProgress: ProgressFn) => {
+    // Nur der Umriss geht zurück an das UI, nicht das ganze Gitter
+    const grid = calculateReachability(input, onProgress)
+    return grid ? reachabilityOutline(grid, input.lat, input.lon) : null
+  },
+  markerCalibration: ([samples]: [MarkerCalibrationSample[]], onProgress: ProgressFn) =>
+    fitMarkerCalibrations(samples, onProgress),
+  balloonPerformance: ([tracks]: [TrackPoint[][]], onProgress: ProgressFn) =>
+    estimateBalloonPerformance(tracks, onProgress),
+  grib: ([dataset, query]: [GribWindDataset, GribQuery]) =>
+    queryGrib(dataset, query)
+}
+
+export type ComputeKind = keyof typeof computeJobs
+export type ComputeArgs<K extends ComputeKind> = Parameters<typeof computeJobs[K]>[0]
+export type ComputeResult<K extends ComputeKind> = ReturnType<typeof computeJobs[K]>
@@ -0,0 +1,207 @@
+// WebSocket-Client für den LAN-Team Hub (src/main/team/LanTeamHub.ts), gemeinsam für
+// Desktop-App und Lite-App. Die Nachrichten entsprechen den Supabase-Kanälen:
+// position, message, wind_profile, members.
+
+export const LAN_HUB_DEFAULT_PORT = 8765
+const SESSION_TOKEN_KEY = 'nta_lan_session_token'
+const RECONNECT_MIN_MS = 1000
+const RECONNECT_MAX_MS = 10000
+
+export interface LanMemberInfo {
+  memberId: string
+  callsign: string
+  color: string
+  role: 'pilot' | 'crew'
+  isOnline: boolean
+  lastSeen: string
+}
+
+// Die Member-ID vergibt der Hub, der Client schickt nur Rufname, Farbe und Rolle
+export interface LanProfile {
+  callsign: string
+  color: string
+  role: 'pilot' | 'crew'
+}
+
+export interface LanWelcome {
+  memberId: string   // vom Hub vergebene eigene ID
+  token: string      // Sitzungs-Token, damit der Hub uns nach einem Reconnect wiedererkennt
+  members: LanMemberInfo[]
+  positions: any[]
+  windProfiles: any[]
+  messages: any[]
+}
+
+export interface LanTeamHandlers {
+  onWelcome: (welcome: LanWelcome) => void
+  onMembers: (members: LanMemberInfo[]) => void
+  onPosition: (position: any) => void
+  onMessage: (message: any) => void
+  onWindProfile?: (profile: any) => void
+  onConnectionChange: (connected: boolean) => void
+  onRejected?: (reason: string) => void  // Falsche PIN - kein Reconnect
+  onError?: (reason: string) => void     // Ungültige Hub-Adresse - kein Reconnect
+}
+
+/**
+ * Hub-Adresse normalisieren: "192.168.43.1", "192.168.43.1:8765" oder "ws://..." -> ws://host:port/team
+ */
+export function lanHubUrl(address: string): string {
+  let host = address.trim().replace(/^(wss?|https?):\/\//, '').replace(/\/.*$/, '')
+  if (!/:\d+$/.test(host)) host += `:${LAN_HUB_DEFAULT_PORT}`
+  return `ws://${host}/team`
+}
+
+/**
+ * Prüft, ob aus der eingegebenen Adresse eine gültige Hub-URL wird (Host ohne Leerzeichen, Port 1-65535)
+ */
+export function isValidLanAddress(address: string): boolean {
+  if (!address.trim() || /\s/.test(address.trim())) return false
+  try {
+    const url = new URL(lanHubUrl(address))
+    const port = Number(url.port || LAN_HUB_DEFAULT_PORT)
+    return url.hostname.length > 0 && port >= 1 && port <= 65535
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Lite-App: Seite wurde vom Hub mit ?lan=1 geöffnet
+ */
+export function isLanMode(): boolean {
+  try {
+    return new URLSearchParams(window.location.search).has('lan')
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Lite-App: Team-PIN aus dem Link des Hubs (?lan=1&pin=123456)
+ */
+export function lanPinFromUrl(): string {
+  try {
+    return new URLSearchParams(window.location.search).get('pin') || ''
+  } catch {
+    return ''
+  }
+}
+
+/**
+ * Zufalls-ID ohne crypto.randomUUID - das gibt es nur im Secure Context,
+ * die Lite-App läuft im LAN-Modus aber über http.
+ */
+export function randomId(): string {
+  return Date.now().toString(36) + '-' + Math.random().toString(36).slice(2, 10)
+}
+
+function loadSessionToken(): string | null {
+  try { return localStorage.getItem(SESSION_TOKEN_KEY) } catch { return null }
+}
+
+function saveSessionToken(token: string): void {
+  try { localStorage.setItem(SESSION_TOKEN_KEY, token) } catch {}
+}
+
+/**
+ * LanTeamClient - Verbindung zum Hub mit automatischem Reconnect
+ *
+ * Nach jedem (Re-)Connect meldet sich der Client mit "hello" (PIN, Profil, Sitzungs-Token)
+ * an und bekommt seine Member-ID und den aktuellen Stand (Members, letzte Positionen,
+ * Windprofile, Chat) zurück.
+ */
+export class LanTeamClient {
+  private ws: WebSocket | null = null
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  private reconnectDelay = RECONNECT_MIN_MS
+  private closed = false
+
+  constructor(
+    private url: string,
+    private pin: string,
+    private profile: LanProfile,
+    private handlers: LanTeamHandlers
+  ) {}
+
+  connect(): void {
+    if (this.closed) return
+    let ws: WebSocket
+    try {
+      ws = new WebSocket(this.url)
+    } catch (e: any) {
+      // Ungültige URL: ein Reconnect würde genauso scheitern
+      this.close()
+      this.handlers.onConnectionChange(false)
+      this.handlers.onError?.(e?.message || 'Ungültige Hub-Adresse')
+      return
+    }
+    this.ws = ws
+
+    ws.onopen = () => {
+      this.reconnectDelay = RECONNECT_MIN_MS
+      ws.send(JSON.stringify({ type: 'hello', pin: this.pin, token: loadSessionToken(), ...this.profile }))
+      this.handlers.onConnectionChange(true)
+    }
+
+    ws.onmessage = (event) => {
+      let msg: any
+      try {
+        msg = JSON.parse(event.data)
+      } catch {
+        return
+      }
+      switch (msg.type) {
+        case 'welcome':
+          if (typeof msg.token === 'string') saveSessionToken(msg.token)
+          this.handlers.onWelcome(msg)
+          break
+        case 'rejected':
+          this.close()
+          this.handlers.onRejected?.(msg.reason)
+          break
+        case 'members': this.handlers.onMembers(msg.members); break
+        case 'position': this.handlers.onPosition(msg); break
+        case 'message': this.handlers.onMessage(msg); break
+        case 'wind_profile': this.handlers.onWindProfile?.(msg); break
+      }
+    }
+
+    ws.onclose = () => {
+      if (this.ws !== ws) return
+      this.ws = null
+      this.handlers.onConnectionChange(false)
+      this.scheduleReconnect()
+    }
+  }
+
+  get isConnected(): boolean {
+    return this.ws !== null && this.ws.readyState === WebSocket.OPEN
+  }
+
+  send(msg: { type: string; [key: string]: any }): boolean {
+    if (!this.isConnected) return false
+    this.ws!.send(JSON.stringify(msg))
+    return true
+  }
+
+  close(): void {
+    this.closed = true
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+    const ws = this.ws
+    this.ws = null
+    ws?.close()
+  }
+
+  private scheduleReconnect(): void {
+    if (this.closed || this.reconnectTimer) return
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null
+      this.connect()
+    }, this.reconnectDelay)
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, RECONNECT_MAX_MS)
+  }
+}
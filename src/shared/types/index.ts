@@ -19,6 +19,10 @@ export interface GPSData extends GPSPosition {
   satellites: number
   hdop: number
   fix: GPSFix
+  // Unsicherheit (1σ) aus dem Kalman-Filter
+  positionSigma?: number // m
+  speedSigma?: number // km/h
+  altitudeSigma?: number // m
 }
 
 export enum GPSFix {
@@ -35,6 +39,8 @@ export interface BaroData {
   qnh: number // hPa
   variometer: number // m/s (positiv = steigen)
   timestamp: Date
+  altitudeSigma?: number // m (1σ, Kalman-Filter)
+  variometerSigma?: number // m/s (1σ, Kalman-Filter)
 }
 
 export interface NavigationData {
@@ -195,6 +201,42 @@ export interface MarkerDrop {
   taskId?: string
   notes?: string
   clinoAngle?: number // Klinometerwinkel in Grad (Winkel vom Ballon zum Aufschlagpunkt)
+  markerType?: string // Markertyp für die Kalibrierung (z.B. "Standard")
+  dropContext?: MarkerDropContext // Bedingungen beim Abwurf
+  impactPosition?: { latitude: number; longitude: number } // Tatsächlicher Aufschlagpunkt (nachgetragen)
+}
+
+// Abwurfbedingungen - damit lässt sich der Fall später nachrechnen
+export interface MarkerDropContext {
+  pilot: string
+  altitude: number         // Abwurfhöhe MSL (m)
+  groundElevation: number  // Bodenhöhe unter dem Ballon (m MSL)
+  speedKmh: number
+  heading: number
+  sinkRate: number         // Eingestellte Marker-Sinkrate (m/s)
+  windLayers: { altitude: number; direction: number; speed: number }[]  // m MSL, Grad, km/h
+}
+
+// Flugverhalten eines Ballons (aus aufgezeichneten Tracks geschätzt)
+export interface BalloonPerformance {
+  responseLagSec: number   // Zeitkonstante bis eine neue Steig-/Sinkrate anliegt (s)
+  maxClimbRate: number     // Maximale Steigrate bei dieser Beladung (m/s)
+  maxSinkRate: number      // Maximale Sinkrate (m/s, positiv)
+  overshootPerMs: number   // Überschwingen beim Abfangen pro m/s Annäherungsrate (m)
+  maneuvers: number        // Ausgewertete Steig-/Sinkphasen
+  flights: number          // Ausgewertete Fahrten
+  updatedAt: string
+}
+
+// Gelernte Fallparameter eines Markertyps (pro Pilot)
+export interface MarkerCalibration {
+  markerType: string
+  dragScale: number      // Faktor auf den Luftwiderstand (1 = Standardmodell)
+  forwardThrow: number   // Zusätzliche Abwurfgeschwindigkeit in Flugrichtung (m/s)
+  samples: number
+  rmsBefore: number      // Mittlerer Fehler mit Standardmodell (m)
+  rmsAfter: number       // Mittlerer Fehler mit kalibriertem Modell (m)
+  updatedAt: string
 }
 
 export interface GoalDeclaration {
@@ -469,6 +511,12 @@ export interface AppSettings {
   customTileServerUrl?: string  // URL zum eigenen Tile-Server (z.B. https://tiles.example.com/{z}/{x}/{y}.png)
   useCustomTileServer?: boolean  // Eigenen Tile-Server verwenden statt OSM
 
+  // Tasksheet KI-Parser (ohne Anbieter nur Regex-Parser, funktioniert offline)
+  tasksheetAiProvider?: 'none' | 'gemini' | 'local'
+  tasksheetAiApiKey?: string  // Eigener API-Key für Gemini (es wird kein Key mitgeliefert)
+  tasksheetAiEndpoint?: string  // Lokaler OpenAI-kompatibler Endpoint (z.B. Ollama, LM Studio, llama.cpp)
+  tasksheetAiModel?: string  // Modellname für den gewählten Anbieter
+
   // Grid Einstellungen
   showGrid?: boolean  // UTM Grid auf Karte anzeigen
   gridSize?: number  // Grid-Größe in Metern (50, 100, 200, 500, 1000, 2000)
@@ -576,12 +624,15 @@ export interface AppSettings {
   angPanelScale?: number      // ANG Berechnung Panel Skalierung (default: 1.0, range: 0.6-1.5)
   wnvPanelScale?: number      // WNV Panel Skalierung (default: 1.0, range: 0.6-1.5)
   donutPanelScale?: number    // Donut Panel Skalierung (default: 1.0, range: 0.6-1.5)
+  reachPanelScale?: number    // Erreichbarkeits-Panel Skalierung (default: 1.0, range: 0.6-1.5)
   windRoseScale?: number      // Windrose Skalierung (default: 1.0, range: 0.6-1.5)
   gasPanelScale?: number      // Gas-Tracker Skalierung (default: 1.0, range: 0.6-1.5)
 
   // Pilot
   pilotName: string
   balloonId?: string
+  markerCalibrations?: { [pilot: string]: MarkerCalibration[] }  // Marker-Kalibrierung pro Pilot
+  balloonPerformance?: { [balloonId: string]: BalloonPerformance }  // Flugverhalten pro Ballon
 
   // BLS Sensor
   lastConnectedBLS?: string | null  // ID des zuletzt verbundenen BLS
@@ -594,6 +645,9 @@ export interface AppSettings {
   // Gas Bottle Tracker
   gasBottles?: GasBottle[]          // Konfigurierte Gasflaschen
   gasReserveMinutes?: number        // Reserve-Zeit in Minuten (default: 10)
+  gasEnvelopeTemp?: number          // Angenommene Hüllentemperatur im Horizontalflug in °C (default: 100)
+  gasGroundTemp?: number            // Außentemperatur am Boden in °C (default: 15)
+  showGasRange?: boolean            // Reichweite bis Gasende auf der Karte anzeigen
   gasPanelPosition?: { x: number; y: number }
 
   // Funktionstasten
@@ -840,7 +894,7 @@ export interface GasBottle {
   id: string
   name: string              // z.B. "Flasche 1"
   totalLiters: number       // Gesamtvolumen z.B. 40
-  consumptionPerHour: number // Verbrauch pro Stunde z.B. 30 L/h
+  consumptionPerHour: number // Verbrauch pro Stunde im Horizontalflug bei Normbedingungen z.B. 30 L/h
 }
 
 export interface UsedBottleRecord {
@@ -873,6 +927,7 @@ export type FKeyAction =
   | 'openToolAng'
   | 'openToolWnv'
   | 'openToolDonut'
+  | 'openToolReach'
   | 'toggleNavPanel'
   | 'toggleWindPanel'
   | 'toggleBriefing'
@@ -901,6 +956,7 @@ export const FKEY_ACTION_LABELS: Record<FKeyAction, string> = {
   openToolAng: 'Tool: ANG',
   openToolWnv: 'Tool: Wind Navigation',
   openToolDonut: 'Tool: Donut',
+  openToolReach: 'Tool: Erreichbarkeit',
   toggleNavPanel: 'Navigation ein/aus',
   toggleWindPanel: 'Wind-Panel ein/aus',
   toggleBriefing: 'Briefing ein/aus',